@@ -110,5 +110,9 @@ export default defineConfig({
     },
     // Use Cloudflare's Image Resizing service for on-demand optimization
     imageService: "cloudflare",
+    // Adds the cron `scheduled` handler next to Astro's fetch handler
+    workerEntryPoint: {
+      path: "src/worker.ts",
+    },
   }),
 });
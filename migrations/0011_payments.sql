@@ -0,0 +1,42 @@
+CREATE TABLE `payment_providers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`type` text NOT NULL,
+	`is_active` integer DEFAULT false NOT NULL,
+	`credentials` text NOT NULL,
+	`config` text NOT NULL,
+	`created_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	`updated_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `payments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`order_id` text NOT NULL,
+	`provider_id` text NOT NULL,
+	`provider_type` text NOT NULL,
+	`amount` real NOT NULL,
+	`currency` text DEFAULT 'BDT' NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`raw_status` text,
+	`external_id` text,
+	`transaction_id` text,
+	`redirect_url` text,
+	`return_url` text,
+	`metadata` text,
+	`paid_at` integer,
+	`created_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	`updated_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`provider_id`) REFERENCES `payment_providers`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `payments_order_id_idx` ON `payments` (`order_id`);--> statement-breakpoint
+CREATE INDEX `payments_external_id_idx` ON `payments` (`external_id`);--> statement-breakpoint
+ALTER TABLE `orders` ADD `payment_status` text DEFAULT 'unpaid' NOT NULL;--> statement-breakpoint
+ALTER TABLE `orders` ADD `payment_method` text DEFAULT 'cod' NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `order_items_order_id_idx` ON `order_items` (`order_id`);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `order_items_product_id_idx` ON `order_items` (`product_id`);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `product_images_product_id_idx` ON `product_images` (`product_id`);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `product_images_primary_idx` ON `product_images` (`product_id`,`is_primary`);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `product_variants_product_id_idx` ON `product_variants` (`product_id`);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `product_variants_sku_idx` ON `product_variants` (`sku`);
\ No newline at end of file
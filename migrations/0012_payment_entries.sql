@@ -0,0 +1,24 @@
+CREATE TABLE `payment_entries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`order_id` text NOT NULL,
+	`payment_id` text,
+	`type` text DEFAULT 'payment' NOT NULL,
+	`method` text NOT NULL,
+	`amount` real NOT NULL,
+	`reference` text,
+	`note` text,
+	`recorded_by` text,
+	`created_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`payment_id`) REFERENCES `payments`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `payment_entries_order_id_idx` ON `payment_entries` (`order_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `payment_entries_payment_type` ON `payment_entries` (`payment_id`,`type`);--> statement-breakpoint
+ALTER TABLE `orders` ADD `paid_amount` real DEFAULT 0 NOT NULL;--> statement-breakpoint
+INSERT INTO `payment_entries` (`id`, `order_id`, `payment_id`, `type`, `method`, `amount`, `reference`, `created_at`)
+SELECT 'pe_' || `id`, `order_id`, `id`, 'payment', `provider_type`, `amount`, `transaction_id`, coalesce(`paid_at`, `updated_at`)
+FROM `payments` WHERE `status` = 'paid';--> statement-breakpoint
+UPDATE `orders` SET `paid_amount` = (
+	SELECT coalesce(sum(`amount`), 0) FROM `payment_entries` WHERE `payment_entries`.`order_id` = `orders`.`id`
+) WHERE `id` IN (SELECT `order_id` FROM `payment_entries`);
@@ -0,0 +1,38 @@
+CREATE TABLE `order_returns` (
+	`id` text PRIMARY KEY NOT NULL,
+	`order_id` text NOT NULL,
+	`order_item_id` text NOT NULL,
+	`product_id` text NOT NULL,
+	`variant_id` text,
+	`quantity` integer NOT NULL,
+	`reason` text NOT NULL,
+	`note` text,
+	`status` text DEFAULT 'requested' NOT NULL,
+	`restocked` integer DEFAULT false NOT NULL,
+	`requested_by` text,
+	`resolved_by` text,
+	`resolved_at` integer,
+	`created_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	`updated_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `order_returns_order_id_idx` ON `order_returns` (`order_id`);--> statement-breakpoint
+CREATE TABLE `refunds` (
+	`id` text PRIMARY KEY NOT NULL,
+	`order_id` text NOT NULL,
+	`return_id` text,
+	`payment_entry_id` text,
+	`type` text NOT NULL,
+	`amount` real NOT NULL,
+	`method` text NOT NULL,
+	`reference` text,
+	`note` text,
+	`created_by` text,
+	`created_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`return_id`) REFERENCES `order_returns`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `refunds_order_id_idx` ON `refunds` (`order_id`);--> statement-breakpoint
+ALTER TABLE `orders` ADD `refunded_amount` real DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TABLE `webhook_deliveries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`endpoint_id` text NOT NULL,
+	`event_id` text NOT NULL,
+	`event` text NOT NULL,
+	`payload` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`response_status` integer,
+	`response_body` text,
+	`error` text,
+	`next_attempt_at` integer,
+	`last_attempt_at` integer,
+	`created_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	`updated_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	FOREIGN KEY (`endpoint_id`) REFERENCES `webhook_endpoints`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `webhook_deliveries_endpoint_id_idx` ON `webhook_deliveries` (`endpoint_id`);--> statement-breakpoint
+CREATE INDEX `webhook_deliveries_next_attempt_idx` ON `webhook_deliveries` (`status`,`next_attempt_at`);--> statement-breakpoint
+CREATE TABLE `webhook_endpoints` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`url` text NOT NULL,
+	`secret` text NOT NULL,
+	`events` text NOT NULL,
+	`is_active` integer DEFAULT true NOT NULL,
+	`created_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	`updated_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL
+);
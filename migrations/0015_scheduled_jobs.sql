@@ -0,0 +1,25 @@
+CREATE TABLE `scheduled_job_runs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`job_id` text NOT NULL,
+	`trigger` text NOT NULL,
+	`status` text DEFAULT 'running' NOT NULL,
+	`message` text,
+	`started_at` integer NOT NULL,
+	`finished_at` integer,
+	`duration_ms` integer,
+	FOREIGN KEY (`job_id`) REFERENCES `scheduled_jobs`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `scheduled_job_runs_job_started_idx` ON `scheduled_job_runs` (`job_id`,`started_at`);--> statement-breakpoint
+CREATE TABLE `scheduled_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`is_enabled` integer DEFAULT true NOT NULL,
+	`interval_minutes` integer NOT NULL,
+	`last_run_at` integer,
+	`last_status` text,
+	`last_message` text,
+	`last_duration_ms` integer,
+	`locked_until` integer,
+	`created_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	`updated_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL
+);
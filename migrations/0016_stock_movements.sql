@@ -0,0 +1,20 @@
+CREATE TABLE `stock_movements` (
+	`id` text PRIMARY KEY NOT NULL,
+	`variant_id` text NOT NULL,
+	`delta` integer NOT NULL,
+	`reason` text NOT NULL,
+	`order_id` text,
+	`actor_id` text,
+	`note` text,
+	`created_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	FOREIGN KEY (`variant_id`) REFERENCES `product_variants`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `stock_movements_variant_created_idx` ON `stock_movements` (`variant_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `stock_movements_order_idx` ON `stock_movements` (`order_id`);--> statement-breakpoint
+-- Opening balance so the ledger of existing variants adds up to their current stock
+INSERT INTO `stock_movements` (`id`, `variant_id`, `delta`, `reason`, `note`)
+SELECT 'stm_open_' || `id`, `id`, `stock`, 'manual', 'Opening balance'
+FROM `product_variants`
+WHERE `stock` <> 0;
@@ -0,0 +1,35 @@
+-- Full-text index over products, pages and categories. Kept in sync by
+-- src/lib/search/index.ts; not part of the Drizzle schema because Drizzle
+-- has no virtual tables.
+CREATE VIRTUAL TABLE IF NOT EXISTS `search_index` USING fts5(
+	`entity_type` UNINDEXED,
+	`entity_id` UNINDEXED,
+	`title`,
+	`body`,
+	`sku`,
+	`attributes`,
+	`category`,
+	-- Bengali vowel signs count as part of a word instead of splitting it
+	tokenize = "unicode61 remove_diacritics 2 tokenchars 'ঁংঃ়ািীুূৃৄেৈোৌ্ৗৢৣ'",
+	prefix = '2 3'
+);
+--> statement-breakpoint
+-- Initial fill; a reindex later also strips HTML from page content
+INSERT INTO `search_index` (`entity_type`, `entity_id`, `title`, `body`, `sku`, `attributes`, `category`)
+SELECT 'product', p.`id`, p.`name`, coalesce(p.`description`, ''),
+	coalesce((SELECT group_concat(v.`sku`, ' ') FROM `product_variants` v WHERE v.`product_id` = p.`id` AND v.`deleted_at` IS NULL), ''),
+	coalesce((SELECT group_concat(av.`value`, ' ') FROM `product_attribute_values` av WHERE av.`product_id` = p.`id`), ''),
+	coalesce(c.`name`, '')
+FROM `products` p
+LEFT JOIN `categories` c ON c.`id` = p.`category_id`
+WHERE p.`deleted_at` IS NULL AND p.`is_active` = 1;
+--> statement-breakpoint
+INSERT INTO `search_index` (`entity_type`, `entity_id`, `title`, `body`, `sku`, `attributes`, `category`)
+SELECT 'page', `id`, `title`, coalesce(`content`, ''), '', '', ''
+FROM `pages`
+WHERE `deleted_at` IS NULL AND `is_published` = 1;
+--> statement-breakpoint
+INSERT INTO `search_index` (`entity_type`, `entity_id`, `title`, `body`, `sku`, `attributes`, `category`)
+SELECT 'category', `id`, `name`, coalesce(`description`, ''), '', '', ''
+FROM `categories`
+WHERE `deleted_at` IS NULL;
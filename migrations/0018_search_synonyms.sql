@@ -0,0 +1,10 @@
+CREATE TABLE `search_synonyms` (
+	`id` text PRIMARY KEY NOT NULL,
+	`terms` text NOT NULL,
+	`created_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	`updated_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL
+);
+--> statement-breakpoint
+-- Per-column view of the words in search_index, used for spelling
+-- corrections and completions. Not part of the Drizzle schema (virtual table).
+CREATE VIRTUAL TABLE IF NOT EXISTS `search_index_vocab` USING fts5vocab(`search_index`, 'col');
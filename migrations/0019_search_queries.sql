@@ -0,0 +1,15 @@
+CREATE TABLE `search_queries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`query` text NOT NULL,
+	`source` text NOT NULL,
+	`result_count` integer NOT NULL,
+	`clicked_entity_type` text,
+	`clicked_entity_id` text,
+	`clicked_at` integer,
+	`order_id` text,
+	`created_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `search_queries_created_idx` ON `search_queries` (`created_at`);--> statement-breakpoint
+CREATE INDEX `search_queries_query_created_idx` ON `search_queries` (`query`,`created_at`);
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE `categories` ADD `parent_id` text REFERENCES categories(id);--> statement-breakpoint
+ALTER TABLE `categories` ADD `path` text DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE `categories` ADD `depth` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `categories` ADD `sort_order` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX `categories_parent_idx` ON `categories` (`parent_id`);--> statement-breakpoint
+CREATE INDEX `categories_path_idx` ON `categories` (`path`);--> statement-breakpoint
+UPDATE `categories` SET `path` = '/' || `id` || '/', `sort_order` = (SELECT count(*) FROM `categories` AS `c` WHERE `c`.`name` < `categories`.`name`);
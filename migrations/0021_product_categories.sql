@@ -0,0 +1,12 @@
+CREATE TABLE `product_categories` (
+	`id` text PRIMARY KEY NOT NULL,
+	`product_id` text NOT NULL,
+	`category_id` text NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`product_id`) REFERENCES `products`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`category_id`) REFERENCES `categories`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `product_categories_category_idx` ON `product_categories` (`category_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `product_categories_product_id_category_id_unique` ON `product_categories` (`product_id`,`category_id`);--> statement-breakpoint
+INSERT INTO `product_categories` (`id`, `product_id`, `category_id`) SELECT 'pcat_' || `id`, `id`, `category_id` FROM `products` WHERE `category_id` IN (SELECT `id` FROM `categories`);
\ No newline at end of file
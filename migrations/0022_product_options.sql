@@ -0,0 +1,31 @@
+CREATE TABLE `product_option_values` (
+	`id` text PRIMARY KEY NOT NULL,
+	`option_id` text NOT NULL,
+	`value` text NOT NULL,
+	`sort_order` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`option_id`) REFERENCES `product_options`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `product_option_values_option_id_value_unique` ON `product_option_values` (`option_id`,`value`);--> statement-breakpoint
+CREATE TABLE `product_options` (
+	`id` text PRIMARY KEY NOT NULL,
+	`product_id` text NOT NULL,
+	`name` text NOT NULL,
+	`sort_order` integer DEFAULT 0 NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`product_id`) REFERENCES `products`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `product_options_product_id_name_unique` ON `product_options` (`product_id`,`name`);--> statement-breakpoint
+ALTER TABLE `product_variants` ADD `options` text DEFAULT '{}' NOT NULL;--> statement-breakpoint
+INSERT INTO `product_options` (`id`, `product_id`, `name`, `sort_order`) SELECT DISTINCT 'opt_color_' || `product_id`, `product_id`, 'Color', 0 FROM `product_variants` WHERE `color` IS NOT NULL AND `color` != '' AND `product_id` IN (SELECT `id` FROM `products`);--> statement-breakpoint
+INSERT INTO `product_option_values` (`id`, `option_id`, `value`, `sort_order`) SELECT 'optv_' || lower(hex(randomblob(8))), 'opt_color_' || `product_id`, `color`, row_number() OVER (PARTITION BY `product_id` ORDER BY min(coalesce(`color_sort_order`, 0)), min(`created_at`)) - 1 FROM `product_variants` WHERE `color` IS NOT NULL AND `color` != '' AND `product_id` IN (SELECT `id` FROM `products`) GROUP BY `product_id`, `color`;--> statement-breakpoint
+UPDATE `product_variants` SET `options` = json_set(`options`, '$.Color', `color`) WHERE `color` IS NOT NULL AND `color` != '';--> statement-breakpoint
+INSERT INTO `product_options` (`id`, `product_id`, `name`, `sort_order`) SELECT DISTINCT 'opt_size_' || `product_id`, `product_id`, 'Size', 1 FROM `product_variants` WHERE `size` IS NOT NULL AND `size` != '' AND `product_id` IN (SELECT `id` FROM `products`);--> statement-breakpoint
+INSERT INTO `product_option_values` (`id`, `option_id`, `value`, `sort_order`) SELECT 'optv_' || lower(hex(randomblob(8))), 'opt_size_' || `product_id`, `size`, row_number() OVER (PARTITION BY `product_id` ORDER BY min(coalesce(`size_sort_order`, 0)), min(`created_at`)) - 1 FROM `product_variants` WHERE `size` IS NOT NULL AND `size` != '' AND `product_id` IN (SELECT `id` FROM `products`) GROUP BY `product_id`, `size`;--> statement-breakpoint
+UPDATE `product_variants` SET `options` = json_set(`options`, '$.Size', `size`) WHERE `size` IS NOT NULL AND `size` != '';--> statement-breakpoint
+ALTER TABLE `product_variants` DROP COLUMN `size`;--> statement-breakpoint
+ALTER TABLE `product_variants` DROP COLUMN `color`;--> statement-breakpoint
+ALTER TABLE `product_variants` DROP COLUMN `color_sort_order`;--> statement-breakpoint
+ALTER TABLE `product_variants` DROP COLUMN `size_sort_order`;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `variant_images` (
+	`id` text PRIMARY KEY NOT NULL,
+	`product_id` text NOT NULL,
+	`image_id` text NOT NULL,
+	`variant_id` text,
+	`option_value_id` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`product_id`) REFERENCES `products`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`image_id`) REFERENCES `product_images`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`variant_id`) REFERENCES `product_variants`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`option_value_id`) REFERENCES `product_option_values`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `variant_images_product_idx` ON `variant_images` (`product_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `variant_images_image_id_variant_id_unique` ON `variant_images` (`image_id`,`variant_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `variant_images_image_id_option_value_id_unique` ON `variant_images` (`image_id`,`option_value_id`);--> statement-breakpoint
+INSERT INTO `variant_images` (`id`, `product_id`, `image_id`, `option_value_id`) SELECT 'vimg_' || lower(hex(randomblob(8))), `i`.`product_id`, `i`.`id`, `v`.`id` FROM (SELECT `id`, `product_id`, row_number() OVER (PARTITION BY `product_id` ORDER BY `sort_order`) AS `position` FROM `product_images`) `i` INNER JOIN `products` `p` ON `p`.`id` = `i`.`product_id` INNER JOIN `product_options` `o` ON `o`.`product_id` = `i`.`product_id` AND lower(`o`.`name`) IN ('color', 'colour') INNER JOIN (SELECT `id`, `option_id`, row_number() OVER (PARTITION BY `option_id` ORDER BY `sort_order`) AS `position` FROM `product_option_values`) `v` ON `v`.`option_id` = `o`.`id` AND `v`.`position` = `i`.`position` WHERE instr(`p`.`meta_description`, '<!--variant_images:enabled-->') > 0;--> statement-breakpoint
+UPDATE `products` SET `meta_description` = nullif(trim(replace(`meta_description`, '<!--variant_images:enabled-->', '')), '') WHERE instr(`meta_description`, '<!--variant_images:enabled-->') > 0;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `content_translations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`entity_type` text NOT NULL,
+	`entity_id` text NOT NULL,
+	`locale` text NOT NULL,
+	`field` text NOT NULL,
+	`value` text NOT NULL,
+	`created_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	`updated_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `content_translations_field_unique` ON `content_translations` (`entity_type`,`entity_id`,`locale`,`field`);
\ No newline at end of file
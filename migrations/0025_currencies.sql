@@ -0,0 +1,22 @@
+CREATE TABLE `currencies` (
+	`id` text PRIMARY KEY NOT NULL,
+	`code` text NOT NULL,
+	`name` text NOT NULL,
+	`symbol` text NOT NULL,
+	`exchange_rate` real DEFAULT 1 NOT NULL,
+	`decimal_places` integer DEFAULT 2 NOT NULL,
+	`rounding_mode` text DEFAULT 'nearest' NOT NULL,
+	`rounding_increment` real,
+	`is_base` integer DEFAULT false NOT NULL,
+	`is_active` integer DEFAULT true NOT NULL,
+	`sort_order` integer DEFAULT 0 NOT NULL,
+	`created_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	`updated_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	`deleted_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `currencies_code_unique` ON `currencies` (`code`);--> statement-breakpoint
+ALTER TABLE `orders` ADD `currency` text DEFAULT 'BDT' NOT NULL;--> statement-breakpoint
+ALTER TABLE `orders` ADD `display_currency` text;--> statement-breakpoint
+ALTER TABLE `orders` ADD `exchange_rate` real DEFAULT 1 NOT NULL;--> statement-breakpoint
+INSERT INTO `currencies` (`id`, `code`, `name`, `symbol`, `exchange_rate`, `decimal_places`, `is_base`) VALUES ('cur_bdt', 'BDT', 'Bangladeshi Taka', '৳', 1, 0, 1);
\ No newline at end of file
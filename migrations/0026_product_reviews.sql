@@ -0,0 +1,29 @@
+CREATE TABLE `product_reviews` (
+	`id` text PRIMARY KEY NOT NULL,
+	`product_id` text NOT NULL,
+	`order_id` text,
+	`customer_id` text,
+	`customer_name` text NOT NULL,
+	`customer_phone` text NOT NULL,
+	`rating` integer NOT NULL,
+	`title` text,
+	`body` text NOT NULL,
+	`images` text DEFAULT '[]' NOT NULL,
+	`is_verified_purchase` integer DEFAULT false NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`spam_reasons` text,
+	`ip_address` text,
+	`moderation_note` text,
+	`moderated_by` text,
+	`moderated_at` integer,
+	`created_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	`updated_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	`deleted_at` integer,
+	FOREIGN KEY (`product_id`) REFERENCES `products`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`customer_id`) REFERENCES `customers`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `product_reviews_product_status_idx` ON `product_reviews` (`product_id`,`status`);--> statement-breakpoint
+CREATE INDEX `product_reviews_status_idx` ON `product_reviews` (`status`);--> statement-breakpoint
+CREATE INDEX `product_reviews_customer_phone_idx` ON `product_reviews` (`customer_phone`);
\ No newline at end of file
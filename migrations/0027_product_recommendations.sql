@@ -0,0 +1,13 @@
+CREATE TABLE `product_recommendations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`product_id` text NOT NULL,
+	`recommended_product_id` text NOT NULL,
+	`type` text NOT NULL,
+	`sort_order` integer DEFAULT 0 NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`product_id`) REFERENCES `products`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`recommended_product_id`) REFERENCES `products`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `product_recommendations_product_idx` ON `product_recommendations` (`product_id`,`type`);--> statement-breakpoint
+CREATE UNIQUE INDEX `product_recommendations_product_id_recommended_product_id_type_unique` ON `product_recommendations` (`product_id`,`recommended_product_id`,`type`);
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `bundle_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`bundle_id` text NOT NULL,
+	`variant_id` text NOT NULL,
+	`quantity` integer DEFAULT 1 NOT NULL,
+	`sort_order` integer DEFAULT 0 NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`bundle_id`) REFERENCES `products`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`variant_id`) REFERENCES `product_variants`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `bundle_items_variant_idx` ON `bundle_items` (`variant_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `bundle_items_bundle_id_variant_id_unique` ON `bundle_items` (`bundle_id`,`variant_id`);--> statement-breakpoint
+ALTER TABLE `order_items` ADD `bundle_components` text;--> statement-breakpoint
+ALTER TABLE `products` ADD `type` text DEFAULT 'standard' NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `product_variants` ADD `low_stock_threshold` integer;
\ No newline at end of file
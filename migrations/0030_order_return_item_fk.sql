@@ -0,0 +1,5 @@
+-- Returns of items recreated by earlier order edits point at the item that replaced them
+UPDATE `order_returns` SET `order_item_id` = (SELECT `id` FROM `order_items` WHERE `order_items`.`order_id` = `order_returns`.`order_id` AND `order_items`.`product_id` = `order_returns`.`product_id` AND `order_items`.`variant_id` IS `order_returns`.`variant_id` LIMIT 1) WHERE `order_item_id` NOT IN (SELECT `id` FROM `order_items`) AND EXISTS (SELECT 1 FROM `order_items` WHERE `order_items`.`order_id` = `order_returns`.`order_id` AND `order_items`.`product_id` = `order_returns`.`product_id` AND `order_items`.`variant_id` IS `order_returns`.`variant_id`);--> statement-breakpoint
+-- The rest point at items that were removed from their order
+DELETE FROM `order_returns` WHERE `order_item_id` NOT IN (SELECT `id` FROM `order_items`);--> statement-breakpoint
+ALTER TABLE `order_returns` ALTER COLUMN "order_item_id" TO "order_item_id" text NOT NULL REFERENCES order_items(id) ON DELETE cascade ON UPDATE no action;
@@ -0,0 +1,12 @@
+CREATE TABLE `review_image_uploads` (
+	`id` text PRIMARY KEY NOT NULL,
+	`key` text NOT NULL,
+	`url` text NOT NULL,
+	`review_id` text,
+	`ip_address` text,
+	`created_at` integer DEFAULT (cast(strftime('%s','now') as int)) NOT NULL,
+	FOREIGN KEY (`review_id`) REFERENCES `product_reviews`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `review_image_uploads_url_unique` ON `review_image_uploads` (`url`);--> statement-breakpoint
+CREATE INDEX `review_image_uploads_review_created_idx` ON `review_image_uploads` (`review_id`,`created_at`);
\ No newline at end of file
@@ -0,0 +1,328 @@
+// src/components/admin/CatalogImportExport.tsx
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Progress } from "@/components/ui/progress";
+import {
+  AlertCircle,
+  CheckCircle2,
+  Download,
+  FileSpreadsheet,
+  Loader2,
+  Upload,
+} from "lucide-react";
+import {
+  parseCatalogSheet,
+  type CatalogProduct,
+  type CatalogRowError,
+} from "@/lib/catalog/catalog-sheet";
+import { readSpreadsheet } from "@/lib/catalog/spreadsheet";
+import type { CatalogImportReport } from "@/lib/catalog/catalog-import";
+
+// Products sent per request, so large files show progress and no request
+// runs into the Worker's time limit
+const BATCH_SIZE = 25;
+
+const MAX_LISTED_ERRORS = 20;
+
+type Stage = "idle" | "checking" | "checked" | "importing" | "done";
+
+interface Summary {
+  created: number;
+  updated: number;
+  errors: CatalogRowError[];
+}
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count !== 1 ? "s" : ""}`;
+
+export function CatalogImportExport() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [stage, setStage] = useState<Stage>("idle");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [products, setProducts] = useState<CatalogProduct[]>([]);
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [progress, setProgress] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reset = () => {
+    setStage("idle");
+    setFileName(null);
+    setProducts([]);
+    setSummary(null);
+    setProgress(0);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  /**
+   * Send the products in batches, adding up the reports as they come back
+   */
+  const runImport = async (items: CatalogProduct[], dryRun: boolean) => {
+    const total: Summary = { created: 0, updated: 0, errors: [] };
+    setProgress(0);
+
+    for (let start = 0; start < items.length; start += BATCH_SIZE) {
+      const batch = items.slice(start, start + BATCH_SIZE);
+      const response = await fetch("/api/products/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ products: batch, dryRun }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to import products");
+      }
+
+      const report: CatalogImportReport = await response.json();
+      total.created += report.created;
+      total.updated += report.updated;
+      total.errors.push(...report.results.flatMap((result) => result.errors));
+      setProgress(Math.round(((start + batch.length) / items.length) * 100));
+    }
+
+    total.errors.sort((a, b) => a.row - b.row);
+    return total;
+  };
+
+  const handleFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setSummary(null);
+    setStage("checking");
+    try {
+      const sheet = parseCatalogSheet(await readSpreadsheet(file));
+      setProducts(sheet.products);
+
+      const check =
+        sheet.products.length > 0
+          ? await runImport(sheet.products, true)
+          : { created: 0, updated: 0, errors: [] };
+      setSummary({
+        ...check,
+        errors: [...sheet.errors, ...check.errors].sort(
+          (a, b) => a.row - b.row,
+        ),
+      });
+    } catch (error) {
+      setSummary({
+        created: 0,
+        updated: 0,
+        errors: [
+          {
+            row: 1,
+            error:
+              error instanceof Error ? error.message : "Could not read file",
+          },
+        ],
+      });
+    } finally {
+      setStage("checked");
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    setStage("importing");
+    try {
+      setSummary(await runImport(products, false));
+    } catch (error) {
+      setSummary({
+        created: 0,
+        updated: 0,
+        errors: [
+          {
+            row: 1,
+            error: error instanceof Error ? error.message : "Import failed",
+          },
+        ],
+      });
+    } finally {
+      setStage("done");
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (stage === "checking" || stage === "importing") return;
+    setDialogOpen(open);
+    if (!open) {
+      // Show the imported products in the list
+      if (stage === "done") window.location.reload();
+      reset();
+    }
+  };
+
+  const isBusy = stage === "checking" || stage === "importing";
+  const canImport =
+    stage === "checked" &&
+    summary !== null &&
+    summary.errors.length === 0 &&
+    products.length > 0;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <Download className="h-3.5 w-3.5 mr-1" /> Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem asChild>
+            <a href="/api/products/export?format=csv">Export as CSV</a>
+          </DropdownMenuItem>
+          <DropdownMenuItem asChild>
+            <a href="/api/products/export?format=xlsx">Export as XLSX</a>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setDialogOpen(true)}
+        className="h-7 text-xs text-muted-foreground hover:text-foreground"
+      >
+        <Upload className="h-3.5 w-3.5 mr-1" /> Import
+      </Button>
+
+      <Dialog open={dialogOpen} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import Products</DialogTitle>
+            <DialogDescription>
+              Upload a CSV or XLSX file in the layout of the export. Products
+              are matched by slug and variants by SKU; an empty cell keeps the
+              current value. The file is checked before anything is imported.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              disabled={isBusy || stage === "done"}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              {fileName || "Select CSV or XLSX File"}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={handleFileSelect}
+              className="hidden"
+            />
+
+            {isBusy && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {stage === "checking"
+                    ? `Checking ${plural(products.length, "product")}...`
+                    : `Importing ${plural(products.length, "product")}...`}
+                </div>
+                <Progress value={progress} />
+              </div>
+            )}
+
+            {summary && !isBusy && (
+              <div className="space-y-3">
+                {summary.errors.length === 0 ? (
+                  <Alert>
+                    <CheckCircle2 className="h-4 w-4" />
+                    <AlertTitle>
+                      {stage === "done" ? "Import Complete" : "Ready to Import"}
+                    </AlertTitle>
+                    <AlertDescription>
+                      {stage === "done"
+                        ? `${plural(summary.created, "product")} created and ${plural(summary.updated, "product")} updated.`
+                        : `${plural(summary.created, "product")} will be created and ${plural(summary.updated, "product")} updated.`}
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>
+                      {stage === "done"
+                        ? "Imported With Errors"
+                        : "Import Errors"}
+                    </AlertTitle>
+                    <AlertDescription>
+                      {stage === "done"
+                        ? `${plural(summary.created, "product")} created and ${plural(summary.updated, "product")} updated. The products below were skipped.`
+                        : `${plural(summary.errors.length, "error")} found. Please fix them and select the file again.`}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {summary.errors.length > 0 && (
+                  <div className="border rounded-md p-3 max-h-[200px] overflow-y-auto">
+                    <p className="text-sm font-medium mb-2">Errors:</p>
+                    <ul className="space-y-1 text-sm text-muted-foreground">
+                      {summary.errors
+                        .slice(0, MAX_LISTED_ERRORS)
+                        .map((error, index) => (
+                          <li key={index}>
+                            Row {error.row}: {error.error}
+                          </li>
+                        ))}
+                      {summary.errors.length > MAX_LISTED_ERRORS && (
+                        <li className="text-xs italic">
+                          ... and{" "}
+                          {plural(
+                            summary.errors.length - MAX_LISTED_ERRORS,
+                            "more error",
+                          )}
+                        </li>
+                      )}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              disabled={isBusy}
+              onClick={() => handleOpenChange(false)}
+            >
+              {stage === "done" ? "Close" : "Cancel"}
+            </Button>
+            {stage !== "done" && (
+              <Button onClick={handleConfirmImport} disabled={!canImport}>
+                {stage === "importing" ? "Importing..." : "Import"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -22,6 +22,13 @@ import {
 } from "../ui/card";
 import { Input } from "../ui/input";
 import { Textarea } from "../ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
 import { TiptapEditor } from "../ui/tiptap-editor";
 import { Button } from "../ui/button";
 import {
@@ -34,6 +41,8 @@ import { MediaManager } from "./MediaManager";
 import { useStorefrontUrl } from "@/hooks/use-storefront-url";
 import { CharacterCounter } from "@/components/ui/character-counter";
 import { getOptimizedImageUrl } from "@/lib/image-optimizer";
+import { TranslatableEntity } from "@/db/schema";
+import { TranslationsCard } from "./TranslationsCard";
 
 const categoryFormSchema = z.object({
   id: z.string().optional(),
@@ -49,6 +58,7 @@ const categoryFormSchema = z.object({
     .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Invalid slug format"),
   metaTitle: z.string().nullable(),
   metaDescription: z.string().nullable(),
+  parentId: z.string().nullable().optional(),
   image: z
     .object({
       id: z.string(),
@@ -63,14 +73,23 @@ const categoryFormSchema = z.object({
 
 type CategoryFormValues = z.infer<typeof categoryFormSchema>;
 
+// A category that can be picked as the parent, in tree order
+export interface ParentCategoryOption {
+  id: string;
+  name: string;
+  depth: number;
+}
+
 interface CategoryFormProps {
   defaultValues?: Partial<CategoryFormValues>;
   isEdit?: boolean;
+  parentOptions?: ParentCategoryOption[];
 }
 
 export function CategoryForm({
   defaultValues,
   isEdit = false,
+  parentOptions = [],
 }: CategoryFormProps) {
   const form = useForm<CategoryFormValues>({
     resolver: zodResolver(categoryFormSchema),
@@ -80,6 +99,7 @@ export function CategoryForm({
       slug: "",
       metaTitle: null,
       metaDescription: null,
+      parentId: null,
       image: null,
       slugEdited: false,
       ...defaultValues,
@@ -324,6 +344,43 @@ export function CategoryForm({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="parentId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Parent Category</FormLabel>
+                  <Select
+                    value={field.value || "none"}
+                    onValueChange={(value) =>
+                      field.onChange(value === "none" ? null : value)
+                    }
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="None (top level)" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">None (top level)</SelectItem>
+                      {parentOptions.map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          <span style={{ paddingLeft: option.depth * 12 }}>
+                            {option.name}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription className="text-xs text-muted-foreground">
+                    Nest this category under another one. Its subcategories move
+                    along with it.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="description"
@@ -420,6 +477,46 @@ export function CategoryForm({
           </CardContent>
         </Card>
 
+        {isEdit && defaultValues?.id && (
+          <TranslationsCard
+            endpoint={`/api/categories/${defaultValues.id}/translations`}
+            fields={[
+              {
+                entityType: TranslatableEntity.CATEGORY,
+                entityId: defaultValues.id,
+                field: "name",
+                label: "Category Name",
+                type: "text",
+                baseValue: form.watch("name"),
+              },
+              {
+                entityType: TranslatableEntity.CATEGORY,
+                entityId: defaultValues.id,
+                field: "description",
+                label: "Description",
+                type: "richtext",
+                baseValue: form.watch("description"),
+              },
+              {
+                entityType: TranslatableEntity.CATEGORY,
+                entityId: defaultValues.id,
+                field: "metaTitle",
+                label: "Meta Title",
+                type: "text",
+                baseValue: form.watch("metaTitle"),
+              },
+              {
+                entityType: TranslatableEntity.CATEGORY,
+                entityId: defaultValues.id,
+                field: "metaDescription",
+                label: "Meta Description",
+                type: "textarea",
+                baseValue: form.watch("metaDescription"),
+              },
+            ]}
+          />
+        )}
+
         <div className="flex justify-between items-center">
           <div>
             {isEdit && form.getValues("slug") && (
@@ -52,6 +52,8 @@ import {
   AlertTriangle,
   X,
   ExternalLink,
+  List,
+  ListTree,
 } from "lucide-react";
 import {
   AlertDialog,
@@ -74,6 +76,7 @@ import {
 import { Checkbox } from "../ui/checkbox";
 import { cn } from "@/lib/utils";
 import { getOptimizedImageUrl } from "@/lib/image-optimizer";
+import { CategoryTree } from "./CategoryTree";
 
 interface Category {
   id: string;
@@ -134,6 +137,7 @@ export function CategoryList({
   const [isConfirmBulkDeleteOpen, setIsConfirmBulkDeleteOpen] = useState(false);
   const [isConfirmBulkRestoreOpen, setIsConfirmBulkRestoreOpen] =
     useState(false);
+  const [view, setView] = useState<"list" | "tree">("list");
 
   // Update state if props change (e.g., after navigation)
   useEffect(() => {
@@ -428,15 +432,17 @@ export function CategoryList({
 
         if (errorData.error && errorData.suggestion) {
           // Show detailed error message with suggestion and affected products
-          const productList = errorData.affectedProducts
-            ? errorData.affectedProducts
+          const affected =
+            errorData.affectedProducts || errorData.affectedCategories;
+          const affectedList = affected
+            ? affected
                 .slice(0, 3)
                 .map((p: any) => p.name)
                 .join(", ")
             : "";
 
-          const fullMessage = productList
-            ? `${errorData.error} ${errorData.suggestion} Affected products: ${productList}${errorData.affectedProducts.length > 3 ? "..." : ""}`
+          const fullMessage = affectedList
+            ? `${errorData.error} ${errorData.suggestion} Affected ${errorData.affectedProducts ? "products" : "subcategories"}: ${affectedList}${affected.length > 3 ? "..." : ""}`
             : `${errorData.error} ${errorData.suggestion}`;
 
           toast({
@@ -627,6 +633,24 @@ export function CategoryList({
             </CardDescription>
           </div>
           <div className="flex shrink-0 items-center gap-1.5">
+            {!showTrashed && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setView(view === "list" ? "tree" : "list")}
+                className="h-7 text-sm text-muted-foreground/80 hover:text-foreground font-medium"
+              >
+                {view === "list" ? (
+                  <>
+                    <ListTree className="h-3.5 w-3.5 mr-1" /> Tree View
+                  </>
+                ) : (
+                  <>
+                    <List className="h-3.5 w-3.5 mr-1" /> List View
+                  </>
+                )}
+              </Button>
+            )}
             <Button
               variant="outline"
               size="sm"
@@ -704,63 +728,80 @@ export function CategoryList({
         )}
       </CardHeader>
 
-      <CardContent className="p-0">
-        <div className="p-2 sm:p-3 space-y-2">
-          {/* Toolbar: Search, Filter, Bulk Actions */}
-          <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
-            <div className="flex flex-1 items-center w-full sm:w-auto space-x-1.5">
-              <form
-                onSubmit={handleSearch}
-                className="flex-1 sm:flex-initial sm:max-w-xs w-full"
-              >
-                <div className="relative">
-                  <Search className="absolute left-2 top-2 h-3.5 w-3.5 text-muted-foreground" />
-                  <Input
-                    type="search"
-                    placeholder="Search categories..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="pl-7 h-7 w-full text-sm"
-                  />
-                </div>
-              </form>
-              {/* Display Active Filters */}
-              {hasActiveFilters && (
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="h-7 px-1.5 text-xs text-muted-foreground"
-                  onClick={clearFilters}
+      {view === "tree" && !showTrashed ? (
+        <CardContent className="p-2 sm:p-3">
+          <CategoryTree />
+        </CardContent>
+      ) : (
+        <CardContent className="p-0">
+          <div className="p-2 sm:p-3 space-y-2">
+            {/* Toolbar: Search, Filter, Bulk Actions */}
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
+              <div className="flex flex-1 items-center w-full sm:w-auto space-x-1.5">
+                <form
+                  onSubmit={handleSearch}
+                  className="flex-1 sm:flex-initial sm:max-w-xs w-full"
                 >
-                  <X className="h-3.5 w-3.5 mr-1" />
-                  Clear
-                </Button>
-              )}
-            </div>
-            {/* Bulk Actions Area */}
-            <div
-              className={cn(
-                "transition-opacity duration-200 flex items-center gap-2",
-                selectedCategories.size > 0
-                  ? "opacity-100"
-                  : "opacity-0 pointer-events-none h-0 overflow-hidden sm:h-auto sm:opacity-100 sm:pointer-events-auto",
-                selectedCategories.size === 0 && "sm:min-w-[90px]", // Reserve space
-              )}
-            >
-              {
-                selectedCategories.size > 0 ? (
-                  showTrashed ? (
-                    <>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="h-7 text-sm font-medium"
-                        onClick={() => setIsConfirmBulkRestoreOpen(true)}
-                        disabled={isActionLoading}
-                      >
-                        <Undo className="h-3.5 w-3.5 mr-1" />
-                        Restore ({selectedCategories.size})
-                      </Button>
+                  <div className="relative">
+                    <Search className="absolute left-2 top-2 h-3.5 w-3.5 text-muted-foreground" />
+                    <Input
+                      type="search"
+                      placeholder="Search categories..."
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      className="pl-7 h-7 w-full text-sm"
+                    />
+                  </div>
+                </form>
+                {/* Display Active Filters */}
+                {hasActiveFilters && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-1.5 text-xs text-muted-foreground"
+                    onClick={clearFilters}
+                  >
+                    <X className="h-3.5 w-3.5 mr-1" />
+                    Clear
+                  </Button>
+                )}
+              </div>
+              {/* Bulk Actions Area */}
+              <div
+                className={cn(
+                  "transition-opacity duration-200 flex items-center gap-2",
+                  selectedCategories.size > 0
+                    ? "opacity-100"
+                    : "opacity-0 pointer-events-none h-0 overflow-hidden sm:h-auto sm:opacity-100 sm:pointer-events-auto",
+                  selectedCategories.size === 0 && "sm:min-w-[90px]", // Reserve space
+                )}
+              >
+                {
+                  selectedCategories.size > 0 ? (
+                    showTrashed ? (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 text-sm font-medium"
+                          onClick={() => setIsConfirmBulkRestoreOpen(true)}
+                          disabled={isActionLoading}
+                        >
+                          <Undo className="h-3.5 w-3.5 mr-1" />
+                          Restore ({selectedCategories.size})
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 text-sm font-medium text-destructive border-destructive hover:bg-destructive/10"
+                          onClick={handleBulkDelete}
+                          disabled={isActionLoading}
+                        >
+                          <Trash2 className="h-3.5 w-3.5 mr-1" />
+                          Delete ({selectedCategories.size})
+                        </Button>
+                      </>
+                    ) : (
                       <Button
                         variant="outline"
                         size="sm"
@@ -769,398 +810,387 @@ export function CategoryList({
                         disabled={isActionLoading}
                       >
                         <Trash2 className="h-3.5 w-3.5 mr-1" />
-                        Delete ({selectedCategories.size})
+                        Trash ({selectedCategories.size})
                       </Button>
-                    </>
+                    )
                   ) : (
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="h-7 text-sm font-medium text-destructive border-destructive hover:bg-destructive/10"
-                      onClick={handleBulkDelete}
-                      disabled={isActionLoading}
-                    >
-                      <Trash2 className="h-3.5 w-3.5 mr-1" />
-                      Trash ({selectedCategories.size})
-                    </Button>
-                  )
-                ) : (
-                  <div className="h-7" />
-                ) /* Placeholder */
-              }
+                    <div className="h-7" />
+                  ) /* Placeholder */
+                }
+              </div>
             </div>
           </div>
-        </div>
 
-        {/* Table */}
-        <div className="border-t">
-          <Table>
-            <TableHeader>
-              <TableRow className="bg-muted/50 hover:bg-muted/50">
-                <TableHead className="w-10 pl-3 pr-1 py-2">
-                  <Checkbox
-                    checked={selectAllCheckedState}
-                    onCheckedChange={toggleAllCategories}
-                    aria-label="Select all categories on this page"
-                    disabled={categories.length === 0}
-                    className="h-3.5 w-3.5"
-                  />
-                </TableHead>
-                <TableHead className="py-2 text-sm font-medium">
-                  <Button
-                    variant="ghost"
-                    className="px-0 hover:bg-transparent -ml-1 h-7 text-sm font-medium"
-                    onClick={() => handleSort("name")}
-                  >
-                    Category Info {getSortIcon("name")}
-                  </Button>
-                </TableHead>
-                <TableHead className="py-2 text-sm font-medium">
-                  Description
-                </TableHead>
-                <TableHead className="py-2 text-sm font-medium">
-                  Products
-                </TableHead>
-                <TableHead className="w-[120px] py-2 text-sm font-medium">
-                  <Button
-                    variant="ghost"
-                    className="px-0 hover:bg-transparent -ml-1 h-7 text-sm font-medium"
-                    onClick={() => handleSort("updatedAt")}
-                  >
-                    Last Updated {getSortIcon("updatedAt")}
-                  </Button>
-                </TableHead>
-                <TableHead className="w-[70px] text-right pr-3 py-2 text-sm font-medium">
-                  Actions
-                </TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {isActionLoading && categories.length === 0 && (
-                <TableRow>
-                  <TableCell colSpan={6} className="h-32 text-center">
-                    <Loader2 className="h-5 w-5 animate-spin mx-auto" />
-                  </TableCell>
+          {/* Table */}
+          <div className="border-t">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50 hover:bg-muted/50">
+                  <TableHead className="w-10 pl-3 pr-1 py-2">
+                    <Checkbox
+                      checked={selectAllCheckedState}
+                      onCheckedChange={toggleAllCategories}
+                      aria-label="Select all categories on this page"
+                      disabled={categories.length === 0}
+                      className="h-3.5 w-3.5"
+                    />
+                  </TableHead>
+                  <TableHead className="py-2 text-sm font-medium">
+                    <Button
+                      variant="ghost"
+                      className="px-0 hover:bg-transparent -ml-1 h-7 text-sm font-medium"
+                      onClick={() => handleSort("name")}
+                    >
+                      Category Info {getSortIcon("name")}
+                    </Button>
+                  </TableHead>
+                  <TableHead className="py-2 text-sm font-medium">
+                    Description
+                  </TableHead>
+                  <TableHead className="py-2 text-sm font-medium">
+                    Products
+                  </TableHead>
+                  <TableHead className="w-[120px] py-2 text-sm font-medium">
+                    <Button
+                      variant="ghost"
+                      className="px-0 hover:bg-transparent -ml-1 h-7 text-sm font-medium"
+                      onClick={() => handleSort("updatedAt")}
+                    >
+                      Last Updated {getSortIcon("updatedAt")}
+                    </Button>
+                  </TableHead>
+                  <TableHead className="w-[70px] text-right pr-3 py-2 text-sm font-medium">
+                    Actions
+                  </TableHead>
                 </TableRow>
-              )}
-              {!isActionLoading && categories.length === 0 ? (
-                <TableRow>
-                  <TableCell colSpan={6} className="h-32 text-center">
-                    <div className="flex flex-col items-center justify-center gap-1.5">
-                      <Tag className="h-8 w-8 text-muted-foreground/50" />
-                      <p className="text-base font-medium text-muted-foreground">
-                        {hasActiveFilters
-                          ? "No categories match your criteria."
-                          : showTrashed
-                            ? "Trash is empty."
-                            : "No categories created yet."}
-                      </p>
-                      {!showTrashed && !hasActiveFilters && (
-                        <Button
-                          size="sm"
-                          onClick={() =>
-                            (window.location.href = "/admin/categories/new")
-                          }
-                          className="mt-1 h-7 text-sm font-medium"
-                        >
-                          <Plus className="h-3.5 w-3.5 mr-1" />
-                          Add First Category
-                        </Button>
-                      )}
-                      {showTrashed && !hasActiveFilters && (
-                        <p className="text-sm text-muted-foreground/80 mt-0.5">
-                          Categories moved to trash will appear here.
+              </TableHeader>
+              <TableBody>
+                {isActionLoading && categories.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-32 text-center">
+                      <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                )}
+                {!isActionLoading && categories.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-32 text-center">
+                      <div className="flex flex-col items-center justify-center gap-1.5">
+                        <Tag className="h-8 w-8 text-muted-foreground/50" />
+                        <p className="text-base font-medium text-muted-foreground">
+                          {hasActiveFilters
+                            ? "No categories match your criteria."
+                            : showTrashed
+                              ? "Trash is empty."
+                              : "No categories created yet."}
                         </p>
-                      )}
-                    </div>
-                  </TableCell>
-                </TableRow>
-              ) : (
-                categories.map((category) => (
-                  <TableRow
-                    key={category.id}
-                    className={cn(
-                      "hover:bg-muted/50 transition-colors",
-                      selectedCategories.has(category.id) && "bg-muted",
-                    )}
-                    data-state={
-                      selectedCategories.has(category.id)
-                        ? "selected"
-                        : undefined
-                    }
-                  >
-                    <TableCell className="pl-3 pr-1 py-2">
-                      <Checkbox
-                        checked={selectedCategories.has(category.id)}
-                        onCheckedChange={(checked) =>
-                          toggleCategorySelection(category.id, !!checked)
-                        }
-                        aria-label={`Select ${category.name}`}
-                        className="h-3.5 w-3.5"
-                      />
+                        {!showTrashed && !hasActiveFilters && (
+                          <Button
+                            size="sm"
+                            onClick={() =>
+                              (window.location.href = "/admin/categories/new")
+                            }
+                            className="mt-1 h-7 text-sm font-medium"
+                          >
+                            <Plus className="h-3.5 w-3.5 mr-1" />
+                            Add First Category
+                          </Button>
+                        )}
+                        {showTrashed && !hasActiveFilters && (
+                          <p className="text-sm text-muted-foreground/80 mt-0.5">
+                            Categories moved to trash will appear here.
+                          </p>
+                        )}
+                      </div>
                     </TableCell>
-                    <TableCell className="py-2.5">
-                      <div className="flex items-center gap-3">
-                        {category.imageUrl ? (
-                          <div className="h-11 w-11 rounded-lg overflow-hidden border bg-muted shrink-0">
-                            <img
-                              src={getOptimizedImageUrl(category.imageUrl)}
-                              alt={category.name}
-                              className="h-full w-full object-cover"
-                              loading="lazy"
-                              decoding="async"
-                            />
+                  </TableRow>
+                ) : (
+                  categories.map((category) => (
+                    <TableRow
+                      key={category.id}
+                      className={cn(
+                        "hover:bg-muted/50 transition-colors",
+                        selectedCategories.has(category.id) && "bg-muted",
+                      )}
+                      data-state={
+                        selectedCategories.has(category.id)
+                          ? "selected"
+                          : undefined
+                      }
+                    >
+                      <TableCell className="pl-3 pr-1 py-2">
+                        <Checkbox
+                          checked={selectedCategories.has(category.id)}
+                          onCheckedChange={(checked) =>
+                            toggleCategorySelection(category.id, !!checked)
+                          }
+                          aria-label={`Select ${category.name}`}
+                          className="h-3.5 w-3.5"
+                        />
+                      </TableCell>
+                      <TableCell className="py-2.5">
+                        <div className="flex items-center gap-3">
+                          {category.imageUrl ? (
+                            <div className="h-11 w-11 rounded-lg overflow-hidden border bg-muted shrink-0">
+                              <img
+                                src={getOptimizedImageUrl(category.imageUrl)}
+                                alt={category.name}
+                                className="h-full w-full object-cover"
+                                loading="lazy"
+                                decoding="async"
+                              />
+                            </div>
+                          ) : (
+                            <div className="h-11 w-11 rounded-lg border bg-muted/50 flex items-center justify-center shrink-0">
+                              <Tag className="h-5 w-5 text-muted-foreground/50" />
+                            </div>
+                          )}
+                          <div className="flex flex-col min-w-0">
+                            <span
+                              className="font-medium text-sm text-foreground hover:text-primary cursor-pointer truncate"
+                              onClick={() =>
+                                (window.location.href = `/admin/categories/${category.id}/edit`)
+                              }
+                            >
+                              {category.name}
+                            </span>
+                            <span className="text-xs text-muted-foreground truncate">
+                              {category.slug}
+                            </span>
                           </div>
+                        </div>
+                      </TableCell>
+                      <TableCell className="py-2.5 max-w-[200px]">
+                        {category.description ? (
+                          <span className="text-sm text-muted-foreground">
+                            {getPlainDescription(category.description)}
+                          </span>
                         ) : (
-                          <div className="h-11 w-11 rounded-lg border bg-muted/50 flex items-center justify-center shrink-0">
-                            <Tag className="h-5 w-5 text-muted-foreground/50" />
-                          </div>
+                          <span className="text-sm text-muted-foreground/50 italic">
+                            No description
+                          </span>
                         )}
-                        <div className="flex flex-col min-w-0">
+                      </TableCell>
+                      <TableCell className="py-2.5">
+                        <div className="flex items-center gap-1.5">
                           <span
-                            className="font-medium text-sm text-foreground hover:text-primary cursor-pointer truncate"
-                            onClick={() =>
-                              (window.location.href = `/admin/categories/${category.id}/edit`)
-                            }
+                            className={cn(
+                              "text-sm tabular-nums",
+                              category.productCount > 0
+                                ? "text-foreground font-medium"
+                                : "text-muted-foreground/60"
+                            )}
                           >
-                            {category.name}
-                          </span>
-                          <span className="text-xs text-muted-foreground truncate">
-                            {category.slug}
+                            {category.productCount}
                           </span>
+                          {category.productCount > 0 && (
+                            <a
+                              href={`/admin/products?category=${category.id}`}
+                              className="text-xs text-primary/80 hover:text-primary hover:underline"
+                            >
+                              view
+                            </a>
+                          )}
                         </div>
-                      </div>
-                    </TableCell>
-                    <TableCell className="py-2.5 max-w-[200px]">
-                      {category.description ? (
+                      </TableCell>
+                      <TableCell className="py-2.5">
                         <span className="text-sm text-muted-foreground">
-                          {getPlainDescription(category.description)}
-                        </span>
-                      ) : (
-                        <span className="text-sm text-muted-foreground/50 italic">
-                          No description
+                          {formatDate(category.updatedAt)}
                         </span>
-                      )}
-                    </TableCell>
-                    <TableCell className="py-2.5">
-                      <div className="flex items-center gap-1.5">
-                        <span
-                          className={cn(
-                            "text-sm tabular-nums",
-                            category.productCount > 0
-                              ? "text-foreground font-medium"
-                              : "text-muted-foreground/60"
-                          )}
-                        >
-                          {category.productCount}
-                        </span>
-                        {category.productCount > 0 && (
-                          <a
-                            href={`/admin/products?category=${category.id}`}
-                            className="text-xs text-primary/80 hover:text-primary hover:underline"
-                          >
-                            view
-                          </a>
-                        )}
-                      </div>
-                    </TableCell>
-                    <TableCell className="py-2.5">
-                      <span className="text-sm text-muted-foreground">
-                        {formatDate(category.updatedAt)}
-                      </span>
-                    </TableCell>
-                    <TableCell className="text-right pr-3 py-2">
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-7 w-7"
-                          >
-                            <MoreHorizontal className="h-3.5 w-3.5" />
-                            <span className="sr-only">Category Actions</span>
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end" className="w-[170px]">
-                          {showTrashed ? (
-                            <>
-                              <DropdownMenuItem
-                                onClick={() => handleRestore(category.id)}
-                              >
-                                <Undo className="mr-2 h-4 w-4" />
-                                <span>Restore Category</span>
-                              </DropdownMenuItem>
-                              <DropdownMenuSeparator />
-                              <DropdownMenuItem
-                                onClick={() => setCategoryToDelete(category.id)}
-                                className="text-destructive focus:text-destructive focus:bg-destructive/10"
-                              >
-                                <XCircle className="mr-2 h-4 w-4" />
-                                <span>Delete Permanently</span>
-                              </DropdownMenuItem>
-                            </>
-                          ) : (
-                            <>
-                              <DropdownMenuItem asChild>
-                                <a
-                                  href={`/admin/categories/${category.id}/edit`}
-                                  className="flex items-center"
+                      </TableCell>
+                      <TableCell className="text-right pr-3 py-2">
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                            >
+                              <MoreHorizontal className="h-3.5 w-3.5" />
+                              <span className="sr-only">Category Actions</span>
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end" className="w-[170px]">
+                            {showTrashed ? (
+                              <>
+                                <DropdownMenuItem
+                                  onClick={() => handleRestore(category.id)}
                                 >
-                                  <Pencil className="mr-2 h-4 w-4" />
-                                  <span>Edit Category</span>
-                                </a>
-                              </DropdownMenuItem>
-                              <DropdownMenuItem asChild>
-                                <a
-                                  href={getStorefrontPath(
-                                    `/categories/${category.slug}`,
-                                  )}
-                                  target="_blank"
-                                  className="flex items-center"
+                                  <Undo className="mr-2 h-4 w-4" />
+                                  <span>Restore Category</span>
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem
+                                  onClick={() => setCategoryToDelete(category.id)}
+                                  className="text-destructive focus:text-destructive focus:bg-destructive/10"
                                 >
-                                  <ExternalLink className="mr-2 h-4 w-4" />
-                                  <span>View on Website</span>
-                                </a>
-                              </DropdownMenuItem>
-                              <DropdownMenuItem asChild>
-                                <a
-                                  href={`/admin/products?category=${category.id}`}
-                                  className="flex items-center"
+                                  <XCircle className="mr-2 h-4 w-4" />
+                                  <span>Delete Permanently</span>
+                                </DropdownMenuItem>
+                              </>
+                            ) : (
+                              <>
+                                <DropdownMenuItem asChild>
+                                  <a
+                                    href={`/admin/categories/${category.id}/edit`}
+                                    className="flex items-center"
+                                  >
+                                    <Pencil className="mr-2 h-4 w-4" />
+                                    <span>Edit Category</span>
+                                  </a>
+                                </DropdownMenuItem>
+                                <DropdownMenuItem asChild>
+                                  <a
+                                    href={getStorefrontPath(
+                                      `/categories/${category.slug}`,
+                                    )}
+                                    target="_blank"
+                                    className="flex items-center"
+                                  >
+                                    <ExternalLink className="mr-2 h-4 w-4" />
+                                    <span>View on Website</span>
+                                  </a>
+                                </DropdownMenuItem>
+                                <DropdownMenuItem asChild>
+                                  <a
+                                    href={`/admin/products?category=${category.id}`}
+                                    className="flex items-center"
+                                  >
+                                    <ShoppingBag className="mr-2 h-4 w-4" />
+                                    <span>View Products</span>
+                                  </a>
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem
+                                  onClick={() => setCategoryToDelete(category.id)}
+                                  className="text-destructive focus:text-destructive focus:bg-destructive/10"
                                 >
-                                  <ShoppingBag className="mr-2 h-4 w-4" />
-                                  <span>View Products</span>
-                                </a>
-                              </DropdownMenuItem>
-                              <DropdownMenuSeparator />
-                              <DropdownMenuItem
-                                onClick={() => setCategoryToDelete(category.id)}
-                                className="text-destructive focus:text-destructive focus:bg-destructive/10"
-                              >
-                                <Trash2 className="mr-2 h-4 w-4" />
-                                <span>Move to Trash</span>
-                              </DropdownMenuItem>
-                            </>
-                          )}
-                        </DropdownMenuContent>
-                      </DropdownMenu>
-                    </TableCell>
-                  </TableRow>
-                ))
-              )}
-            </TableBody>
-          </Table>
-        </div>
+                                  <Trash2 className="mr-2 h-4 w-4" />
+                                  <span>Move to Trash</span>
+                                </DropdownMenuItem>
+                              </>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
 
-        {/* Pagination */}
-        {pagination.totalPages > 1 && (
-          <div className="flex items-center justify-between p-2 sm:p-3 border-t">
-            <div className="text-sm text-muted-foreground/80 hidden sm:block">
-              {selectedCategories.size > 0
-                ? `${selectedCategories.size} of ${pagination.total} row(s) selected.`
-                : `Showing ${(pagination.page - 1) * pagination.limit + 1}-${Math.min(pagination.page * pagination.limit, pagination.total)} of ${pagination.total}`}
-            </div>
-            <div className="flex items-center space-x-2 lg:space-x-3">
-              <div className="flex items-center space-x-1.5">
-                <p className="text-sm font-medium text-muted-foreground/80 whitespace-nowrap">
-                  Rows
-                </p>
-                <Select
-                  value={pagination.limit.toString()}
-                  onValueChange={(value) => handleLimitChange(Number(value))}
-                >
-                  <SelectTrigger className="h-7 w-[60px] text-sm">
-                    <SelectValue placeholder={pagination.limit} />
-                  </SelectTrigger>
-                  <SelectContent className="rounded-xl bg-background">
-                    {[10, 20, 50, 100].map((pageSize) => (
-                      <SelectItem key={pageSize} value={pageSize.toString()}>
-                        {pageSize}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="flex w-[90px] items-center justify-center text-sm font-medium text-muted-foreground/80">
-                Page {pagination.page} of {pagination.totalPages}
+          {/* Pagination */}
+          {pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between p-2 sm:p-3 border-t">
+              <div className="text-sm text-muted-foreground/80 hidden sm:block">
+                {selectedCategories.size > 0
+                  ? `${selectedCategories.size} of ${pagination.total} row(s) selected.`
+                  : `Showing ${(pagination.page - 1) * pagination.limit + 1}-${Math.min(pagination.page * pagination.limit, pagination.total)} of ${pagination.total}`}
               </div>
-              <div className="flex items-center space-x-0.5">
-                <TooltipProvider delayDuration={100}>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button
-                        variant="outline"
-                        className="h-7 w-7 p-0 hidden lg:flex"
-                        onClick={() => handlePageChange(1)}
-                        disabled={pagination.page === 1 || isActionLoading}
-                      >
-                        <span className="sr-only">First page</span>
-                        <ChevronsLeft className="h-3.5 w-3.5" />
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>First Page</p>
-                    </TooltipContent>
-                  </Tooltip>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button
-                        variant="outline"
-                        className="h-7 w-7 p-0"
-                        onClick={() => handlePageChange(pagination.page - 1)}
-                        disabled={pagination.page === 1 || isActionLoading}
-                      >
-                        <span className="sr-only">Previous page</span>
-                        <ChevronLeft className="h-3.5 w-3.5" />
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>Previous Page</p>
-                    </TooltipContent>
-                  </Tooltip>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button
-                        variant="outline"
-                        className="h-7 w-7 p-0"
-                        onClick={() => handlePageChange(pagination.page + 1)}
-                        disabled={
-                          pagination.page >= pagination.totalPages ||
-                          isActionLoading
-                        }
-                      >
-                        <span className="sr-only">Next page</span>
-                        <ChevronRight className="h-3.5 w-3.5" />
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>Next Page</p>
-                    </TooltipContent>
-                  </Tooltip>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button
-                        variant="outline"
-                        className="h-7 w-7 p-0 hidden lg:flex"
-                        onClick={() => handlePageChange(pagination.totalPages)}
-                        disabled={
-                          pagination.page >= pagination.totalPages ||
-                          isActionLoading
-                        }
-                      >
-                        <span className="sr-only">Last page</span>
-                        <ChevronsRight className="h-3.5 w-3.5" />
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>Last Page</p>
-                    </TooltipContent>
-                  </Tooltip>
-                </TooltipProvider>
+              <div className="flex items-center space-x-2 lg:space-x-3">
+                <div className="flex items-center space-x-1.5">
+                  <p className="text-sm font-medium text-muted-foreground/80 whitespace-nowrap">
+                    Rows
+                  </p>
+                  <Select
+                    value={pagination.limit.toString()}
+                    onValueChange={(value) => handleLimitChange(Number(value))}
+                  >
+                    <SelectTrigger className="h-7 w-[60px] text-sm">
+                      <SelectValue placeholder={pagination.limit} />
+                    </SelectTrigger>
+                    <SelectContent className="rounded-xl bg-background">
+                      {[10, 20, 50, 100].map((pageSize) => (
+                        <SelectItem key={pageSize} value={pageSize.toString()}>
+                          {pageSize}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex w-[90px] items-center justify-center text-sm font-medium text-muted-foreground/80">
+                  Page {pagination.page} of {pagination.totalPages}
+                </div>
+                <div className="flex items-center space-x-0.5">
+                  <TooltipProvider delayDuration={100}>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="outline"
+                          className="h-7 w-7 p-0 hidden lg:flex"
+                          onClick={() => handlePageChange(1)}
+                          disabled={pagination.page === 1 || isActionLoading}
+                        >
+                          <span className="sr-only">First page</span>
+                          <ChevronsLeft className="h-3.5 w-3.5" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>First Page</p>
+                      </TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="outline"
+                          className="h-7 w-7 p-0"
+                          onClick={() => handlePageChange(pagination.page - 1)}
+                          disabled={pagination.page === 1 || isActionLoading}
+                        >
+                          <span className="sr-only">Previous page</span>
+                          <ChevronLeft className="h-3.5 w-3.5" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Previous Page</p>
+                      </TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="outline"
+                          className="h-7 w-7 p-0"
+                          onClick={() => handlePageChange(pagination.page + 1)}
+                          disabled={
+                            pagination.page >= pagination.totalPages ||
+                            isActionLoading
+                          }
+                        >
+                          <span className="sr-only">Next page</span>
+                          <ChevronRight className="h-3.5 w-3.5" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Next Page</p>
+                      </TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="outline"
+                          className="h-7 w-7 p-0 hidden lg:flex"
+                          onClick={() => handlePageChange(pagination.totalPages)}
+                          disabled={
+                            pagination.page >= pagination.totalPages ||
+                            isActionLoading
+                          }
+                        >
+                          <span className="sr-only">Last page</span>
+                          <ChevronsRight className="h-3.5 w-3.5" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Last Page</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                </div>
               </div>
             </div>
-          </div>
-        )}
-      </CardContent>
+          )}
+        </CardContent>
+      )}
 
       {/* --- Confirmation Dialogs --- */}
       <AlertDialog
@@ -0,0 +1,366 @@
+import { useCallback, useEffect, useState } from "react";
+import { DragDropContext, Droppable, Draggable } from "@hello-pangea/dnd";
+import type { DropResult } from "@hello-pangea/dnd";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import {
+  ArrowLeft,
+  ArrowRight,
+  GripVertical,
+  Loader2,
+  Pencil,
+  RotateCcw,
+  Save,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+interface TreeCategory {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+  depth: number;
+  sortOrder: number;
+  productCount: number;
+}
+
+// Rows are kept flat in display order; a row's parent is the closest row
+// above it that is one level up.
+
+// Put rows in tree order, each parent followed by its subcategories
+function toDisplayOrder(rows: TreeCategory[]): TreeCategory[] {
+  const ids = new Set(rows.map((row) => row.id));
+  const children = new Map<string | null, TreeCategory[]>();
+  for (const row of rows) {
+    const parentId =
+      row.parentId && ids.has(row.parentId) ? row.parentId : null;
+    children.set(parentId, [...(children.get(parentId) || []), row]);
+  }
+
+  const ordered: TreeCategory[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    const siblings = (children.get(parentId) || []).sort(
+      (a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name),
+    );
+    for (const row of siblings) {
+      ordered.push({ ...row, depth });
+      visit(row.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+
+  return ordered;
+}
+
+// Number of rows in the subtree starting at `index`, the row included
+function subtreeSize(rows: TreeCategory[], index: number) {
+  let end = index + 1;
+  while (end < rows.length && rows[end].depth > rows[index].depth) end++;
+  return end - index;
+}
+
+// Levels below the row at `index` within its own subtree
+function subtreeHeight(rows: TreeCategory[], index: number) {
+  const block = rows.slice(index, index + subtreeSize(rows, index));
+  return Math.max(...block.map((row) => row.depth)) - rows[index].depth;
+}
+
+// Parent and position among siblings of every row, as the API expects
+function toPlacements(rows: TreeCategory[]) {
+  const ancestors: string[] = [];
+  const nextSortOrder = new Map<string | null, number>();
+
+  return rows.map((row) => {
+    ancestors.length = row.depth;
+    const parentId = row.depth > 0 ? ancestors[row.depth - 1] : null;
+    ancestors.push(row.id);
+
+    const sortOrder = nextSortOrder.get(parentId) || 0;
+    nextSortOrder.set(parentId, sortOrder + 1);
+
+    return { id: row.id, parentId, sortOrder };
+  });
+}
+
+export function CategoryTree() {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<TreeCategory[]>([]);
+  const [maxDepth, setMaxDepth] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const loadTree = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/categories/tree");
+      if (!response.ok) throw new Error("Failed to load categories");
+      const data = await response.json();
+      setRows(toDisplayOrder(data.categories));
+      setMaxDepth(data.maxDepth);
+      setIsDirty(false);
+    } catch (error) {
+      console.error("Error loading category tree:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the category tree.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadTree();
+  }, [loadTree]);
+
+  // Move the subtree at `from` so it starts at `to` of the remaining rows,
+  // `depthChange` levels deeper (or shallower when negative)
+  const moveSubtree = useCallback(
+    (from: number, to: number, depthChange: number) => {
+      const size = subtreeSize(rows, from);
+      if (
+        rows[from].depth + depthChange + subtreeHeight(rows, from) >
+        maxDepth
+      ) {
+        toast({
+          title: "Too deep",
+          description: `Categories can be nested at most ${maxDepth} levels deep.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const block = rows
+        .slice(from, from + size)
+        .map((row) => ({ ...row, depth: row.depth + depthChange }));
+      const rest = [...rows.slice(0, from), ...rows.slice(from + size)];
+      setRows([...rest.slice(0, to), ...block, ...rest.slice(to)]);
+      setIsDirty(true);
+    },
+    [rows, maxDepth, toast],
+  );
+
+  const handleDragEnd = useCallback(
+    (result: DropResult) => {
+      const { source, destination } = result;
+      if (!destination || destination.index === source.index) return;
+
+      const from = source.index;
+      const size = subtreeSize(rows, from);
+
+      // The row the moved subtree lands after, ignoring the dragged row
+      const others = [...rows.slice(0, from), ...rows.slice(from + 1)];
+      const above =
+        destination.index > 0 ? others[destination.index - 1] : null;
+      const aboveIndex = above ? rows.indexOf(above) : -1;
+      if (aboveIndex > from && aboveIndex < from + size) return; // Own subtree
+
+      // Become a sibling of the row above, or its first child when its
+      // subcategories follow, so no other row changes parent
+      const below = others[destination.index];
+      let depth = 0;
+      if (above) {
+        depth =
+          below && below.depth > above.depth ? above.depth + 1 : above.depth;
+      }
+
+      const to = aboveIndex < from ? aboveIndex + 1 : aboveIndex + 1 - size;
+      moveSubtree(from, to, depth - rows[from].depth);
+    },
+    [rows, moveSubtree],
+  );
+
+  // Make a row the last child of the sibling above it
+  const handleIndent = useCallback(
+    (index: number) => {
+      // The sibling's own subcategories are all above, so the row stays put
+      moveSubtree(index, index, 1);
+    },
+    [moveSubtree],
+  );
+
+  // Make a row the next sibling of its parent
+  const handleOutdent = useCallback(
+    (index: number) => {
+      let parent = index - 1;
+      while (rows[parent].depth >= rows[index].depth) parent--;
+      const parentEnd = parent + subtreeSize(rows, parent);
+      const size = subtreeSize(rows, index);
+      moveSubtree(index, parentEnd - size, -1);
+    },
+    [rows, moveSubtree],
+  );
+
+  const handleSave = useCallback(async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/categories/tree", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ placements: toPlacements(rows) }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to save the category tree");
+      }
+
+      toast({ title: "Success", description: "Category tree saved." });
+      setIsDirty(false);
+    } catch (error) {
+      console.error("Error saving category tree:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to save the category tree.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [rows, toast]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-10 text-sm text-muted-foreground">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Loading categories...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Drag a category to reorder it; it joins the level of the row above.
+          Use the arrows to nest it under the category above or move it up a
+          level. Subcategories move along.
+        </p>
+        <div className="flex shrink-0 items-center gap-1.5">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-sm font-medium"
+            onClick={loadTree}
+            disabled={!isDirty || isSaving}
+          >
+            <RotateCcw className="h-3.5 w-3.5 mr-1" />
+            Reset
+          </Button>
+          <Button
+            size="sm"
+            className="h-7 text-sm font-medium"
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+          >
+            {isSaving ? (
+              <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+            ) : (
+              <Save className="h-3.5 w-3.5 mr-1" />
+            )}
+            Save Tree
+          </Button>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="py-10 text-center text-sm text-muted-foreground">
+          No categories yet.
+        </p>
+      ) : (
+        <DragDropContext onDragEnd={handleDragEnd}>
+          <Droppable droppableId="category-tree">
+            {(provided) => (
+              <div
+                ref={provided.innerRef}
+                {...provided.droppableProps}
+                className="rounded-md border divide-y"
+              >
+                {rows.map((row, index) => (
+                  <Draggable key={row.id} draggableId={row.id} index={index}>
+                    {(provided, snapshot) => (
+                      <div
+                        ref={provided.innerRef}
+                        {...provided.draggableProps}
+                        className={cn(
+                          "group flex items-center gap-2 bg-background py-1.5 pr-2",
+                          snapshot.isDragging
+                            ? "bg-primary/10 shadow-lg ring-2 ring-primary/30"
+                            : "hover:bg-muted/30",
+                        )}
+                        style={{
+                          ...provided.draggableProps.style,
+                          paddingLeft: `${8 + row.depth * 24}px`,
+                        }}
+                      >
+                        <div
+                          {...provided.dragHandleProps}
+                          className="flex h-7 w-7 cursor-grab items-center justify-center rounded hover:bg-muted"
+                        >
+                          <GripVertical className="h-4 w-4 text-muted-foreground" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <span className="text-sm font-medium">
+                            {row.name}
+                          </span>
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            /{row.slug}
+                          </span>
+                        </div>
+                        <Badge
+                          variant="secondary"
+                          className="text-[10px] px-1.5 py-0"
+                        >
+                          {row.productCount} products
+                        </Badge>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Move up a level"
+                          onClick={() => handleOutdent(index)}
+                          disabled={row.depth === 0}
+                        >
+                          <ArrowLeft className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Nest under the category above"
+                          onClick={() => handleIndent(index)}
+                          disabled={
+                            index === 0 || rows[index - 1].depth < row.depth
+                          }
+                        >
+                          <ArrowRight className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Edit"
+                          asChild
+                        >
+                          <a href={`/admin/categories/${row.id}/edit`}>
+                            <Pencil className="h-3.5 w-3.5" />
+                          </a>
+                        </Button>
+                      </div>
+                    )}
+                  </Draggable>
+                ))}
+                {provided.placeholder}
+              </div>
+            )}
+          </Droppable>
+        </DragDropContext>
+      )}
+    </div>
+  );
+}
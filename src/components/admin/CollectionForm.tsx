@@ -32,6 +32,8 @@ import { Switch } from "../ui/switch";
 import { Loader2, Trash2, Layers, Package } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "../ui/badge";
+import { TranslatableEntity } from "@/db/schema";
+import { TranslationsCard } from "./TranslationsCard";
 
 interface Category {
   id: string;
@@ -540,6 +542,30 @@ export function CollectionForm({
           </CardContent>
         </Card>
 
+        {isEdit && defaultValues?.id && (
+          <TranslationsCard
+            endpoint={`/api/collections/${defaultValues.id}/translations`}
+            fields={[
+              {
+                entityType: TranslatableEntity.COLLECTION,
+                entityId: defaultValues.id,
+                field: "title",
+                label: "Display Title",
+                type: "text",
+                baseValue: form.watch("config.title"),
+              },
+              {
+                entityType: TranslatableEntity.COLLECTION,
+                entityId: defaultValues.id,
+                field: "subtitle",
+                label: "Display Subtitle",
+                type: "text",
+                baseValue: form.watch("config.subtitle"),
+              },
+            ]}
+          />
+        )}
+
         <div className="flex justify-end space-x-4">
           <Button variant="outline" type="button" asChild>
             <a href="/admin/collections">Cancel</a>
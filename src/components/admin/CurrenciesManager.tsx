@@ -0,0 +1,717 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+  DropdownMenuSeparator,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  MoreHorizontal,
+  Trash2,
+  Pencil,
+  Plus,
+  Loader2,
+  AlertTriangle,
+  Undo,
+  Coins,
+  Star,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { RoundingMode, type Currency } from "@/db/schema";
+
+const EMPTY_FORM: Partial<Currency> = {
+  code: "",
+  name: "",
+  symbol: "",
+  exchangeRate: undefined,
+  decimalPlaces: 2,
+  roundingMode: RoundingMode.NEAREST,
+  roundingIncrement: null,
+  isBase: false,
+  isActive: true,
+  sortOrder: 0,
+};
+
+const ROUNDING_LABELS: Record<string, string> = {
+  [RoundingMode.NEAREST]: "Nearest",
+  [RoundingMode.UP]: "Up",
+  [RoundingMode.DOWN]: "Down",
+};
+
+export function CurrenciesManager() {
+  const { toast } = useToast();
+  const [currencyList, setCurrencyList] = useState<Currency[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [showTrashed, setShowTrashed] = useState(false);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingCurrency, setEditingCurrency] = useState<Currency | null>(null);
+  const [currentFormData, setCurrentFormData] =
+    useState<Partial<Currency>>(EMPTY_FORM);
+  const [currencyToDelete, setCurrencyToDelete] = useState<Currency | null>(
+    null,
+  );
+
+  const baseCurrency = currencyList.find((currency) => currency.isBase);
+
+  const fetchCurrencies = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: "100" });
+      if (showTrashed) params.append("trashed", "true");
+
+      const response = await fetch(
+        `/api/admin/settings/currencies?${params.toString()}`,
+      );
+      if (!response.ok) throw new Error("Failed to fetch currencies");
+      const data = await response.json();
+      setCurrencyList(data.data || []);
+    } catch (error) {
+      console.error("Error fetching currencies:", error);
+      toast({
+        title: "Error",
+        description: "Could not load currencies.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showTrashed, toast]);
+
+  useEffect(() => {
+    fetchCurrencies();
+  }, [fetchCurrencies]);
+
+  const openFormForCreate = () => {
+    setEditingCurrency(null);
+    setCurrentFormData(EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const openFormForEdit = (currency: Currency) => {
+    setEditingCurrency(currency);
+    setCurrentFormData({ ...currency });
+    setIsFormOpen(true);
+  };
+
+  const handleFormSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsActionLoading(true);
+    const url = editingCurrency
+      ? `/api/admin/settings/currencies/${editingCurrency.id}`
+      : "/api/admin/settings/currencies";
+
+    const { id, createdAt, updatedAt, deletedAt, ...fields } = currentFormData;
+    // The code is fixed once created
+    const payload = editingCurrency ? { ...fields, code: undefined } : fields;
+
+    try {
+      const response = await fetch(url, {
+        method: editingCurrency ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          result.error ||
+            (editingCurrency ? "Failed to update" : "Failed to create") +
+              " currency",
+        );
+      }
+      toast({
+        title: "Success",
+        description: `Currency ${editingCurrency ? "updated" : "created"} successfully.`,
+      });
+      setIsFormOpen(false);
+      fetchCurrencies();
+    } catch (error: any) {
+      console.error("Form submission error:", error);
+      toast({
+        title: "Error",
+        description: error.message || "An unexpected error occurred.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsActionLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!currencyToDelete) return;
+    const permanent = showTrashed;
+    const id = currencyToDelete.id;
+    setIsActionLoading(true);
+    setCurrencyToDelete(null);
+
+    try {
+      const response = await fetch(
+        permanent
+          ? `/api/admin/settings/currencies/${id}/permanent-delete`
+          : `/api/admin/settings/currencies/${id}`,
+        { method: "DELETE" },
+      );
+      if (!response.ok && response.status !== 204) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || "Failed to delete currency");
+      }
+
+      toast({
+        title: "Success",
+        description: permanent
+          ? "Currency permanently deleted."
+          : "Currency moved to trash.",
+      });
+      fetchCurrencies();
+    } catch (error: any) {
+      console.error("Error deleting currency:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete currency.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsActionLoading(false);
+    }
+  };
+
+  const handleRestore = async (id: string) => {
+    setIsActionLoading(true);
+    try {
+      const response = await fetch(
+        `/api/admin/settings/currencies/${id}/restore`,
+        { method: "POST" },
+      );
+      if (!response.ok) throw new Error("Failed to restore currency");
+      toast({ title: "Success", description: "Currency restored." });
+      fetchCurrencies();
+    } catch (error) {
+      console.error("Error restoring currency:", error);
+      toast({
+        title: "Error",
+        description: "Failed to restore currency.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsActionLoading(false);
+    }
+  };
+
+  const isBaseForm = !!currentFormData.isBase;
+
+  return (
+    <Card className="border-none shadow-none">
+      <CardHeader className="px-2 pt-2 pb-1.5 sm:px-3 sm:pt-3 sm:pb-2 border-b">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-base font-semibold tracking-tight">
+              {showTrashed ? "Trashed Currencies" : "Currencies"}
+            </CardTitle>
+            <CardDescription className="mt-0 text-xs text-muted-foreground">
+              {showTrashed
+                ? "View and manage deleted currencies."
+                : `Prices are entered in ${baseCurrency?.code || "the base currency"}. Shoppers can view them in any active currency with ?currency=CODE.`}
+            </CardDescription>
+          </div>
+          <div className="flex shrink-0 items-center gap-1.5">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowTrashed((previous) => !previous)}
+              className="h-7 text-xs text-muted-foreground hover:text-foreground"
+            >
+              {showTrashed ? (
+                <>
+                  <Coins className="h-3.5 w-3.5 mr-1" /> View Active
+                </>
+              ) : (
+                <>
+                  <Trash2 className="h-3.5 w-3.5 mr-1" /> View Trash
+                </>
+              )}
+            </Button>
+            {!showTrashed && (
+              <Button
+                size="sm"
+                className="h-7 text-xs"
+                onClick={openFormForCreate}
+              >
+                <Plus className="h-3.5 w-3.5 mr-1" /> Add Currency
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50 hover:bg-muted/50">
+              <TableHead className="pl-3 py-2 text-xs">Currency</TableHead>
+              <TableHead className="py-2 text-xs">Symbol</TableHead>
+              <TableHead className="py-2 text-xs">Exchange Rate</TableHead>
+              <TableHead className="py-2 text-xs">Rounding</TableHead>
+              <TableHead className="py-2 text-xs">Status</TableHead>
+              <TableHead className="py-2 text-xs">Order</TableHead>
+              <TableHead className="w-[70px] text-right pr-3 py-2 text-xs">
+                Actions
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading && (
+              <TableRow>
+                <TableCell colSpan={7} className="h-32 text-center">
+                  <Loader2 className="h-6 w-6 animate-spin mx-auto text-primary" />
+                </TableCell>
+              </TableRow>
+            )}
+            {!isLoading && currencyList.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="h-32 text-center">
+                  <div className="flex flex-col items-center justify-center gap-1.5">
+                    <Coins className="h-8 w-8 text-muted-foreground/50" />
+                    <p className="text-base font-medium text-muted-foreground">
+                      {showTrashed ? "Trash is empty." : "No currencies yet."}
+                    </p>
+                  </div>
+                </TableCell>
+              </TableRow>
+            )}
+            {!isLoading &&
+              currencyList.map((currency) => (
+                <TableRow
+                  key={currency.id}
+                  className="hover:bg-muted/50 transition-colors"
+                >
+                  <TableCell className="pl-3 py-2 text-sm">
+                    <div className="flex items-center gap-1.5 font-medium text-foreground">
+                      {currency.code}
+                      {currency.isBase && (
+                        <span className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] font-medium bg-primary/10 text-primary">
+                          <Star className="h-2.5 w-2.5" /> Base
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {currency.name}
+                    </div>
+                  </TableCell>
+                  <TableCell className="py-2 text-xs">
+                    {currency.symbol}
+                  </TableCell>
+                  <TableCell className="py-2 text-xs">
+                    {currency.isBase
+                      ? "1"
+                      : `1 ${baseCurrency?.code || "base"} = ${currency.exchangeRate} ${currency.code}`}
+                  </TableCell>
+                  <TableCell className="py-2 text-xs text-muted-foreground">
+                    {ROUNDING_LABELS[currency.roundingMode] ||
+                      currency.roundingMode}
+                    {currency.roundingIncrement
+                      ? ` to ${currency.roundingIncrement}`
+                      : `, ${currency.decimalPlaces} decimals`}
+                  </TableCell>
+                  <TableCell className="py-2 text-xs">
+                    <span
+                      className={cn(
+                        "px-2 py-0.5 rounded-full text-xs font-medium",
+                        currency.isActive
+                          ? "bg-green-100 text-green-700"
+                          : "bg-red-100 text-red-700",
+                      )}
+                    >
+                      {currency.isActive ? "Active" : "Inactive"}
+                    </span>
+                  </TableCell>
+                  <TableCell className="py-2 text-xs text-muted-foreground">
+                    {currency.sortOrder}
+                  </TableCell>
+                  <TableCell className="text-right pr-3 py-2">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={isActionLoading}
+                        >
+                          <MoreHorizontal className="h-3.5 w-3.5" />
+                          <span className="sr-only">Actions</span>
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" className="w-[170px]">
+                        {showTrashed ? (
+                          <>
+                            <DropdownMenuItem
+                              onClick={() => handleRestore(currency.id)}
+                            >
+                              <Undo className="mr-2 h-3.5 w-3.5" />
+                              Restore
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              onClick={() => setCurrencyToDelete(currency)}
+                              className="text-destructive focus:text-destructive focus:bg-destructive/10"
+                            >
+                              <Trash2 className="mr-2 h-3.5 w-3.5" />
+                              Delete Permanently
+                            </DropdownMenuItem>
+                          </>
+                        ) : (
+                          <>
+                            <DropdownMenuItem
+                              onClick={() => openFormForEdit(currency)}
+                            >
+                              <Pencil className="mr-2 h-3.5 w-3.5" />
+                              Edit
+                            </DropdownMenuItem>
+                            {!currency.isBase && (
+                              <DropdownMenuItem
+                                onClick={() => setCurrencyToDelete(currency)}
+                                className="text-destructive focus:text-destructive focus:bg-destructive/10"
+                              >
+                                <Trash2 className="mr-2 h-3.5 w-3.5" />
+                                Move to Trash
+                              </DropdownMenuItem>
+                            )}
+                          </>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-base">
+              {editingCurrency ? "Edit Currency" : "Add Currency"}
+            </DialogTitle>
+            <DialogDescription className="text-xs">
+              Display prices are base prices multiplied by the exchange rate,
+              then rounded.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleFormSubmit} className="space-y-3 py-2">
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="code" className="text-xs">
+                  Code
+                </Label>
+                <Input
+                  id="code"
+                  value={currentFormData.code || ""}
+                  onChange={(e) =>
+                    setCurrentFormData((p) => ({
+                      ...p,
+                      code: e.target.value.toUpperCase(),
+                    }))
+                  }
+                  required
+                  maxLength={3}
+                  disabled={!!editingCurrency}
+                  className="mt-1 text-sm"
+                  placeholder="USD"
+                />
+              </div>
+              <div className="col-span-2">
+                <Label htmlFor="name" className="text-xs">
+                  Name
+                </Label>
+                <Input
+                  id="name"
+                  value={currentFormData.name || ""}
+                  onChange={(e) =>
+                    setCurrentFormData((p) => ({ ...p, name: e.target.value }))
+                  }
+                  required
+                  className="mt-1 text-sm"
+                  placeholder="US Dollar"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="symbol" className="text-xs">
+                  Symbol
+                </Label>
+                <Input
+                  id="symbol"
+                  value={currentFormData.symbol || ""}
+                  onChange={(e) =>
+                    setCurrentFormData((p) => ({
+                      ...p,
+                      symbol: e.target.value,
+                    }))
+                  }
+                  required
+                  className="mt-1 text-sm"
+                  placeholder="$"
+                />
+              </div>
+              <div className="col-span-2">
+                <Label htmlFor="exchangeRate" className="text-xs">
+                  Rate (1 {baseCurrency?.code || "base"} =)
+                </Label>
+                <Input
+                  id="exchangeRate"
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={isBaseForm ? 1 : (currentFormData.exchangeRate ?? "")}
+                  onChange={(e) =>
+                    setCurrentFormData((p) => ({
+                      ...p,
+                      exchangeRate: e.target.value
+                        ? parseFloat(e.target.value)
+                        : undefined,
+                    }))
+                  }
+                  required
+                  disabled={isBaseForm}
+                  className="mt-1 text-sm"
+                  placeholder="0.0083"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="decimalPlaces" className="text-xs">
+                  Decimals
+                </Label>
+                <Input
+                  id="decimalPlaces"
+                  type="number"
+                  min="0"
+                  max="4"
+                  value={currentFormData.decimalPlaces ?? ""}
+                  onChange={(e) =>
+                    setCurrentFormData((p) => ({
+                      ...p,
+                      decimalPlaces: e.target.value
+                        ? parseInt(e.target.value, 10)
+                        : 0,
+                    }))
+                  }
+                  className="mt-1 text-sm"
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Rounding</Label>
+                <Select
+                  value={currentFormData.roundingMode || RoundingMode.NEAREST}
+                  onValueChange={(value) =>
+                    setCurrentFormData((p) => ({ ...p, roundingMode: value }))
+                  }
+                >
+                  <SelectTrigger className="mt-1 h-9 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(RoundingMode).map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {ROUNDING_LABELS[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="roundingIncrement" className="text-xs">
+                  Increment
+                </Label>
+                <Input
+                  id="roundingIncrement"
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={currentFormData.roundingIncrement ?? ""}
+                  onChange={(e) =>
+                    setCurrentFormData((p) => ({
+                      ...p,
+                      roundingIncrement: e.target.value
+                        ? parseFloat(e.target.value)
+                        : null,
+                    }))
+                  }
+                  className="mt-1 text-sm"
+                  placeholder="e.g. 0.05"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="sortOrder" className="text-xs">
+                Sort Order
+              </Label>
+              <Input
+                id="sortOrder"
+                type="number"
+                value={currentFormData.sortOrder ?? ""}
+                onChange={(e) =>
+                  setCurrentFormData((p) => ({
+                    ...p,
+                    sortOrder: e.target.value
+                      ? parseInt(e.target.value, 10)
+                      : 0,
+                  }))
+                }
+                className="mt-1 text-sm"
+                placeholder="0"
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="isActive"
+                checked={isBaseForm || currentFormData.isActive}
+                disabled={isBaseForm}
+                onCheckedChange={(checked) =>
+                  setCurrentFormData((p) => ({ ...p, isActive: !!checked }))
+                }
+              />
+              <Label htmlFor="isActive" className="text-xs font-normal">
+                Active
+              </Label>
+            </div>
+            <div className="flex items-start space-x-2">
+              <Checkbox
+                id="isBase"
+                checked={isBaseForm}
+                disabled={!!editingCurrency?.isBase}
+                onCheckedChange={(checked) =>
+                  setCurrentFormData((p) => ({ ...p, isBase: !!checked }))
+                }
+              />
+              <div className="space-y-0.5">
+                <Label htmlFor="isBase" className="text-xs font-normal">
+                  Base currency
+                </Label>
+                {isBaseForm && !editingCurrency?.isBase && (
+                  <p className="text-xs text-amber-600">
+                    Existing prices are not converted. Only switch the base
+                    currency if catalog prices are already in it.
+                  </p>
+                )}
+              </div>
+            </div>
+            <DialogFooter className="pt-2">
+              <DialogClose asChild>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="text-xs h-8"
+                >
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button
+                type="submit"
+                disabled={isActionLoading}
+                size="sm"
+                className="text-xs h-8"
+              >
+                {isActionLoading && (
+                  <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+                )}{" "}
+                {editingCurrency ? "Save Changes" : "Create Currency"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog
+        open={!!currencyToDelete}
+        onOpenChange={(open) => !open && setCurrencyToDelete(null)}
+      >
+        <AlertDialogContent className="max-w-sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2 text-base">
+              {showTrashed ? (
+                <>
+                  <AlertTriangle className="h-4 w-4 text-red-500" /> Delete
+                  Permanently?
+                </>
+              ) : (
+                <>
+                  <Trash2 className="h-4 w-4 text-amber-500" /> Move to Trash?
+                </>
+              )}
+            </AlertDialogTitle>
+            <AlertDialogDescription className="pt-1 text-xs">
+              {showTrashed
+                ? `This action cannot be undone. Orders placed in ${currencyToDelete?.code} keep their recorded totals.`
+                : `Shoppers will no longer be able to view prices in ${currencyToDelete?.code}. It can be restored later.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="h-8 text-xs">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className={cn(
+                "h-8 text-xs",
+                showTrashed && "bg-destructive hover:bg-destructive/90",
+              )}
+            >
+              {showTrashed ? "Delete Permanently" : "Move to Trash"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
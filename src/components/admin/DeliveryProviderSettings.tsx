@@ -152,6 +152,39 @@ const DeliveryProviderSettings: FC<DeliveryProviderSettingsProps> = ({
     }
   };
 
+  // Courier callbacks authenticate with this secret; without it they are rejected
+  const renderWebhookSecretField = () => (
+    <div className="md:col-span-2">
+      <label className="block text-sm font-medium mb-1">Webhook Secret</label>
+      {isEditing ? (
+        <input
+          type="password"
+          value={parseJSON(formData.credentials).webhookSecret || ""}
+          onChange={(e) =>
+            handleCredentialChange("webhookSecret", e.target.value)
+          }
+          className="w-full p-2 border rounded"
+          disabled={!isEditing}
+        />
+      ) : (
+        <p>
+          {parseJSON(formData.credentials).webhookSecret
+            ? "••••••••••••"
+            : "Not configured"}
+        </p>
+      )}
+      <p className="text-xs text-gray-500 mt-1">
+        Set the same secret in the{" "}
+        {formData.type === "pathao" ? "Pathao" : "Steadfast"} merchant panel
+        with the callback URL{" "}
+        <code>
+          {typeof window !== "undefined" ? window.location.origin : ""}
+          /api/v1/delivery-webhooks/{formData.type}
+        </code>
+      </p>
+    </div>
+  );
+
   // Handle config changes
   const handleConfigChange = (field: string, value: any) => {
     try {
@@ -631,6 +664,8 @@ const DeliveryProviderSettings: FC<DeliveryProviderSettingsProps> = ({
                           <p>••••••••••••</p>
                         )}
                       </div>
+
+                      {renderWebhookSecretField()}
                     </div>
                   )}
 
@@ -699,6 +734,8 @@ const DeliveryProviderSettings: FC<DeliveryProviderSettingsProps> = ({
                           <p>••••••••••••</p>
                         )}
                       </div>
+
+                      {renderWebhookSecretField()}
                     </div>
                   )}
                 </div>
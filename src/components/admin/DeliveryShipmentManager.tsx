@@ -2,6 +2,7 @@ import { type FC, useState, useEffect } from "react";
 import type { DeliveryProvider, DeliveryShipment, Order } from "@/db/schema";
 import { toast } from "sonner"; 
 import { formatDate } from "@/lib/utils";
+import { getAmountDue } from "@/lib/payments/balance";
 import ShipmentStatusIndicator from "./ShipmentStatusIndicator";
 
 // Extend the DeliveryShipment type to include properties used in component
@@ -41,9 +42,7 @@ const DeliveryShipmentManager: FC<DeliveryShipmentManagerProps> = ({
   const [isCreating, setIsCreating] = useState(false);
   const [isChecking, setIsChecking] = useState<Record<string, boolean>>({});
   const [isDeleting, setIsDeleting] = useState<Record<string, boolean>>({});
-  const [codAmount, setCodAmount] = useState<number>(
-    order.totalAmount + order.shippingCharge - (order.discountAmount || 0),
-  );
+  const [codAmount, setCodAmount] = useState<number>(getAmountDue(order));
 
   // Add provider names to shipments
   useEffect(() => {
@@ -30,6 +30,7 @@ import {
   ChevronUp,
   GripVertical,
   ImageIcon,
+  Link2,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { getOptimizedImageUrl } from "@/lib/image-optimizer";
@@ -44,8 +45,12 @@ interface MediaFile {
 
 interface DraggableImageGalleryProps {
   images: MediaFile[];
-  colorOptions?: string[];
-  enableVariantImages: boolean;
+  // Variants and option values each image is linked to, by image id
+  imageLabels?: Record<string, string[]>;
+  // Linking is offered when given; images it cannot link yet (e.g. unsaved
+  // ones) have the button disabled
+  onLinkImage?: (image: MediaFile) => void;
+  canLinkImage?: (image: MediaFile) => boolean;
   onImagesReorder: (images: MediaFile[]) => void;
   onImageRemove: (index: number) => void;
   maxVisible?: number;
@@ -56,15 +61,19 @@ interface DraggableImageGalleryProps {
 interface SortableImageProps {
   image: MediaFile;
   index: number;
-  colorMapping?: string;
+  labels: string[];
   onRemove: (index: number) => void;
+  onLink?: (image: MediaFile) => void;
+  canLink: boolean;
 }
 
 function SortableImage({
   image,
   index,
-  colorMapping,
+  labels,
   onRemove,
+  onLink,
+  canLink,
 }: SortableImageProps) {
   const {
     attributes,
@@ -141,17 +150,39 @@ function SortableImage({
         <X className="h-3 w-3" />
       </button>
 
+      {/* Link Button */}
+      {onLink && (
+        <button
+          type="button"
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation();
+            onLink(image);
+          }}
+          disabled={!canLink}
+          title={
+            canLink
+              ? "Show for variants"
+              : "Save the product to link this image to variants"
+          }
+          className="absolute top-2 right-2 z-20 h-6 w-6 rounded-full bg-background/90 text-foreground shadow-sm opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center disabled:cursor-not-allowed disabled:text-muted-foreground"
+        >
+          <Link2 className="h-3 w-3" />
+        </button>
+      )}
+
       {/* Minimal Info Area */}
       <div className="flex flex-col gap-1 px-1 min-h-[5px]">
-        {/* Color Mapping (Just the value) */}
-        {colorMapping && (
+        {/* Linked Variants and Option Values */}
+        {labels.map((label) => (
           <span
+            key={label}
             className="self-start inline-flex items-center px-1.5 py-0.5 rounded-md bg-secondary/50 border border-secondary text-[11px] font-medium text-secondary-foreground max-w-full truncate"
-            title={colorMapping}
+            title={label}
           >
-            {colorMapping}
+            {label}
           </span>
-        )}
+        ))}
       </div>
     </div>
   );
@@ -161,11 +192,11 @@ function SortableImage({
 function ItemOverlay({
   image,
   index,
-  colorMapping,
+  labels,
 }: {
   image: MediaFile;
   index: number;
-  colorMapping?: string;
+  labels: string[];
 }) {
   return (
     <div className="flex flex-col gap-2 rounded-xl bg-background shadow-xl ring-1 ring-border/50 scale-105 cursor-grabbing z-50 w-full max-w-[200px]">
@@ -195,11 +226,14 @@ function ItemOverlay({
       </div>
 
       <div className="flex flex-col gap-1 px-1 pb-2">
-        {colorMapping && (
-          <span className="self-start inline-flex items-center px-1.5 py-0.5 rounded-md bg-secondary/50 border border-secondary text-[11px] font-medium text-secondary-foreground truncate">
-            {colorMapping}
+        {labels.map((label) => (
+          <span
+            key={label}
+            className="self-start inline-flex items-center px-1.5 py-0.5 rounded-md bg-secondary/50 border border-secondary text-[11px] font-medium text-secondary-foreground truncate"
+          >
+            {label}
           </span>
-        )}
+        ))}
       </div>
     </div>
   );
@@ -207,8 +241,9 @@ function ItemOverlay({
 
 export function DraggableImageGallery({
   images,
-  colorOptions = [],
-  enableVariantImages,
+  imageLabels = {},
+  onLinkImage,
+  canLinkImage = () => true,
   onImagesReorder,
   onImageRemove,
   maxVisible = 6,
@@ -289,17 +324,6 @@ export function DraggableImageGallery({
     ? items.findIndex((img) => img.id === activeId)
     : -1;
 
-  const activeColorMapping =
-    activeItem &&
-    enableVariantImages &&
-    colorOptions.length > 0 &&
-    activeIndex < colorOptions.length
-      ? colorOptions[activeIndex]
-      : undefined;
-
-  // If map to colors is active, we might want to auto-expand or just let user deciding
-  // but standard grid behavior usually works.
-
   return (
     <div className="space-y-4 group/gallery">
       <DndContext
@@ -314,24 +338,17 @@ export function DraggableImageGallery({
           strategy={rectSortingStrategy}
         >
           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-x-4 gap-y-6">
-            {visibleImages.map((image, index) => {
-              const colorMapping =
-                enableVariantImages &&
-                colorOptions.length > 0 &&
-                index < colorOptions.length
-                  ? colorOptions[index]
-                  : undefined;
-
-              return (
-                <SortableImage
-                  key={image.id}
-                  image={image}
-                  index={index}
-                  colorMapping={colorMapping}
-                  onRemove={onImageRemove}
-                />
-              );
-            })}
+            {visibleImages.map((image, index) => (
+              <SortableImage
+                key={image.id}
+                image={image}
+                index={index}
+                labels={imageLabels[image.id] || []}
+                onRemove={onImageRemove}
+                onLink={onLinkImage}
+                canLink={canLinkImage(image)}
+              />
+            ))}
           </div>
         </SortableContext>
 
@@ -342,7 +359,7 @@ export function DraggableImageGallery({
                 <ItemOverlay
                   image={activeItem}
                   index={activeIndex}
-                  colorMapping={activeColorMapping}
+                  labels={imageLabels[activeItem.id] || []}
                 />
               ) : null}
             </DragOverlay>,
@@ -0,0 +1,537 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Loader2,
+  PackageCheck,
+  Search,
+  ChevronLeft,
+  ChevronRight,
+  Save,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type {
+  LowStockSettings,
+  StockAlertStatus,
+} from "@/lib/inventory/low-stock";
+
+interface StockAlert {
+  id: string;
+  productId: string;
+  productName: string;
+  sku: string;
+  options: Record<string, string> | null;
+  stock: number;
+  lowStockThreshold: number | null;
+  threshold: number;
+}
+
+interface Pagination {
+  page: number;
+  totalPages: number;
+  total: number;
+}
+
+type StatusTab = StockAlertStatus | "all";
+
+const PAGE_SIZE = 20;
+
+const STATUS_TABS: { value: StatusTab; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "low", label: "Low Stock" },
+  { value: "out", label: "Out of Stock" },
+];
+
+/**
+ * Threshold of one variant, saved when the field loses focus. An empty field
+ * goes back to the store's default.
+ */
+function ThresholdInput({
+  variant,
+  defaultThreshold,
+  onSave,
+}: {
+  variant: StockAlert;
+  defaultThreshold: number;
+  onSave: (variantId: string, threshold: number | null) => Promise<void>;
+}) {
+  const [value, setValue] = useState(
+    variant.lowStockThreshold?.toString() ?? "",
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setValue(variant.lowStockThreshold?.toString() ?? "");
+  }, [variant.lowStockThreshold]);
+
+  const commit = async () => {
+    const threshold = value.trim() === "" ? null : Number(value);
+    if (threshold !== null && (!Number.isInteger(threshold) || threshold < 0)) {
+      setValue(variant.lowStockThreshold?.toString() ?? "");
+      return;
+    }
+    if (threshold === variant.lowStockThreshold) return;
+
+    setIsSaving(true);
+    try {
+      await onSave(variant.id, threshold);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-end gap-1.5">
+      {isSaving && (
+        <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+      )}
+      <Input
+        type="number"
+        min={0}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+        }}
+        placeholder={`${defaultThreshold} (default)`}
+        className="h-7 w-28 text-xs text-right"
+        disabled={isSaving}
+      />
+    </div>
+  );
+}
+
+function AlertSettingsCard({ onSaved }: { onSaved: () => void }) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<LowStockSettings | null>(null);
+  const [emails, setEmails] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/inventory/settings")
+      .then((response) => {
+        if (!response.ok) throw new Error("Failed to fetch settings");
+        return response.json();
+      })
+      .then((data: LowStockSettings) => {
+        setForm(data);
+        setEmails(data.alertEmails.join("\n"));
+      })
+      .catch((error) => {
+        console.error("Error fetching inventory settings:", error);
+        toast({
+          title: "Error",
+          description: "Could not load alert settings.",
+          variant: "destructive",
+        });
+      });
+  }, [toast]);
+
+  const handleSave = async () => {
+    if (!form) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/inventory/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          alertEmails: emails
+            .split(/[\s,]+/)
+            .map((email) => email.trim())
+            .filter(Boolean),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          result.details?.[0]?.message ||
+            result.error ||
+            "Failed to save settings",
+        );
+      }
+      setForm(result);
+      setEmails(result.alertEmails.join("\n"));
+      toast({ title: "Success", description: "Alert settings saved." });
+      // A new default threshold changes which variants are low
+      onSaved();
+    } catch (error: any) {
+      console.error("Error saving inventory settings:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save settings.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="px-3 pt-3 pb-2 border-b">
+        <CardTitle className="text-base font-semibold tracking-tight">
+          Low Stock Alerts
+        </CardTitle>
+        <CardDescription className="mt-0 text-xs text-muted-foreground">
+          Alerts go out when an order takes a variant to or below its threshold,
+          with a daily digest of everything still low.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-3">
+        {!form ? (
+          <Loader2 className="h-5 w-5 animate-spin mx-auto text-primary" />
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-4">
+              <div className="space-y-1.5">
+                <Label htmlFor="default-threshold" className="text-xs">
+                  Default threshold
+                </Label>
+                <Input
+                  id="default-threshold"
+                  type="number"
+                  min={0}
+                  value={form.defaultThreshold}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      defaultThreshold: Math.max(0, Number(e.target.value)),
+                    })
+                  }
+                  className="h-8 w-32 text-sm"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Used for variants without a threshold of their own.
+                </p>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="push-alerts" className="text-xs">
+                  Push notifications to admin devices
+                </Label>
+                <Switch
+                  id="push-alerts"
+                  checked={form.pushAlerts}
+                  onCheckedChange={(checked) =>
+                    setForm({ ...form, pushAlerts: checked })
+                  }
+                />
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="email-alerts" className="text-xs">
+                  Email alerts
+                </Label>
+                <Switch
+                  id="email-alerts"
+                  checked={form.emailAlerts}
+                  onCheckedChange={(checked) =>
+                    setForm({ ...form, emailAlerts: checked })
+                  }
+                />
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="alert-emails" className="text-xs">
+                Alert recipients
+              </Label>
+              <Textarea
+                id="alert-emails"
+                value={emails}
+                onChange={(e) => setEmails(e.target.value)}
+                placeholder={"warehouse@example.com\nowner@example.com"}
+                className="min-h-[96px] text-sm"
+                disabled={!form.emailAlerts}
+              />
+              <p className="text-xs text-muted-foreground">
+                One email address per line.
+              </p>
+            </div>
+          </div>
+        )}
+        <div className="mt-4 flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={!form || isSaving}>
+            {isSaving ? (
+              <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+            ) : (
+              <Save className="h-3.5 w-3.5 mr-1" />
+            )}
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function InventoryDashboard() {
+  const { toast } = useToast();
+  const [variantList, setVariantList] = useState<StockAlert[]>([]);
+  const [counts, setCounts] = useState({ low: 0, out: 0 });
+  const [defaultThreshold, setDefaultThreshold] = useState(0);
+  const [pagination, setPagination] = useState<Pagination>({
+    page: 1,
+    totalPages: 1,
+    total: 0,
+  });
+  const [status, setStatus] = useState<StatusTab>("all");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchAlerts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({
+        page: String(page),
+        limit: String(PAGE_SIZE),
+      });
+      if (status !== "all") params.append("status", status);
+      if (search.trim()) params.append("search", search.trim());
+
+      const response = await fetch(
+        `/api/inventory/stock-alerts?${params.toString()}`,
+      );
+      if (!response.ok) throw new Error("Failed to fetch stock alerts");
+      const data = await response.json();
+      setVariantList(data.data || []);
+      setCounts(data.counts || { low: 0, out: 0 });
+      setDefaultThreshold(data.defaultThreshold ?? 0);
+      setPagination({
+        page: data.pagination?.page || 1,
+        totalPages: data.pagination?.totalPages || 1,
+        total: data.pagination?.total || 0,
+      });
+    } catch (error) {
+      console.error("Error fetching stock alerts:", error);
+      toast({
+        title: "Error",
+        description: "Could not load stock alerts.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, page, search, toast]);
+
+  useEffect(() => {
+    const timeout = setTimeout(fetchAlerts, 300);
+    return () => clearTimeout(timeout);
+  }, [fetchAlerts]);
+
+  const handleThresholdSave = async (
+    variantId: string,
+    threshold: number | null,
+  ) => {
+    try {
+      const response = await fetch("/api/inventory/thresholds", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ variantIds: [variantId], threshold }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update threshold");
+      }
+      toast({ title: "Success", description: "Threshold updated." });
+      // The variant may no longer be low with its new threshold
+      fetchAlerts();
+    } catch (error: any) {
+      console.error("Error updating threshold:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update threshold.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const tabCount = (tab: StatusTab) =>
+    tab === "all" ? counts.low + counts.out : counts[tab];
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-none shadow-none">
+        <CardHeader className="px-2 pt-2 pb-1.5 sm:px-3 sm:pt-3 sm:pb-2 border-b space-y-2">
+          <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
+            <div>
+              <CardTitle className="text-base font-semibold tracking-tight">
+                Stock Levels
+              </CardTitle>
+              <CardDescription className="mt-0 text-xs text-muted-foreground">
+                Variants at or below their low stock threshold, the emptiest
+                first.
+              </CardDescription>
+            </div>
+            <div className="relative w-full sm:w-64">
+              <Search className="absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => {
+                  setSearch(e.target.value);
+                  setPage(1);
+                }}
+                placeholder="Search products, SKUs..."
+                className="h-7 pl-7 text-xs"
+              />
+            </div>
+          </div>
+          <Tabs
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value as StatusTab);
+              setPage(1);
+            }}
+          >
+            <TabsList className="h-8">
+              {STATUS_TABS.map((tab) => (
+                <TabsTrigger
+                  key={tab.value}
+                  value={tab.value}
+                  className="text-xs px-2.5"
+                >
+                  {tab.label}
+                  <span className="ml-1.5 rounded-full bg-muted px-1.5 text-[10px] text-muted-foreground">
+                    {tabCount(tab.value)}
+                  </span>
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50 hover:bg-muted/50">
+                <TableHead className="pl-3 py-2 text-xs">Product</TableHead>
+                <TableHead className="py-2 text-xs">Options</TableHead>
+                <TableHead className="py-2 text-xs">SKU</TableHead>
+                <TableHead className="py-2 text-xs text-right">Stock</TableHead>
+                <TableHead className="pr-3 py-2 text-xs text-right">
+                  Threshold
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading && (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-32 text-center">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto text-primary" />
+                  </TableCell>
+                </TableRow>
+              )}
+              {!isLoading && variantList.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-32 text-center">
+                    <div className="flex flex-col items-center justify-center gap-1.5">
+                      <PackageCheck className="h-8 w-8 text-muted-foreground/50" />
+                      <p className="text-base font-medium text-muted-foreground">
+                        Everything is well stocked.
+                      </p>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )}
+              {!isLoading &&
+                variantList.map((variant) => (
+                  <TableRow
+                    key={variant.id}
+                    className="hover:bg-muted/50 transition-colors"
+                  >
+                    <TableCell className="pl-3 py-2 text-xs">
+                      <a
+                        href={`/admin/products/${variant.productId}/edit`}
+                        className="font-medium text-foreground hover:underline"
+                      >
+                        {variant.productName}
+                      </a>
+                    </TableCell>
+                    <TableCell className="py-2 text-xs text-muted-foreground">
+                      {variant.options &&
+                      Object.keys(variant.options).length > 0
+                        ? Object.entries(variant.options)
+                            .map(([name, value]) => `${name}: ${value}`)
+                            .join(" / ")
+                        : "-"}
+                    </TableCell>
+                    <TableCell className="py-2 text-xs font-mono">
+                      {variant.sku}
+                    </TableCell>
+                    <TableCell className="py-2 text-xs text-right">
+                      <span
+                        className={cn(
+                          "px-2 py-0.5 rounded-full text-xs font-medium",
+                          variant.stock <= 0
+                            ? "bg-red-100 text-red-700"
+                            : "bg-yellow-100 text-yellow-700",
+                        )}
+                      >
+                        {variant.stock}
+                      </span>
+                    </TableCell>
+                    <TableCell className="pr-3 py-2">
+                      <ThresholdInput
+                        variant={variant}
+                        defaultThreshold={defaultThreshold}
+                        onSave={handleThresholdSave}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+          {pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between border-t px-3 py-2">
+              <span className="text-xs text-muted-foreground">
+                Page {pagination.page} of {pagination.totalPages} (
+                {pagination.total} variants)
+              </span>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-7 w-7"
+                  disabled={page <= 1 || isLoading}
+                  onClick={() => setPage((previous) => previous - 1)}
+                >
+                  <ChevronLeft className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-7 w-7"
+                  disabled={page >= pagination.totalPages || isLoading}
+                  onClick={() => setPage((previous) => previous + 1)}
+                >
+                  <ChevronRight className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertSettingsCard onSaved={fetchAlerts} />
+    </div>
+  );
+}
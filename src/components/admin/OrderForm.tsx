@@ -214,7 +214,9 @@ export function OrderForm({
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to save order");
+        throw new Error(
+          errorData.error || errorData.message || "Failed to save order",
+        );
       }
 
       window.location.href = "/admin/orders";
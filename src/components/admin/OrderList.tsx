@@ -412,7 +412,10 @@ export function OrderList({
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ status: newStatus.toLowerCase() }),
       });
-      if (!response.ok) throw new Error("Failed to update status");
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to update status");
+      }
       toast({
         title: "Status Updated",
         description: (
@@ -427,7 +430,10 @@ export function OrderList({
       setDisplayOrders(originalOrders);
       toast({
         title: "Error",
-        description: "Failed to update order status. Please try again.",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to update order status. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -571,6 +577,9 @@ export function OrderList({
       "Status",
       "Total Amount",
       "Discount",
+      "Payment Status",
+      "Paid",
+      "Due",
       "Items",
       "Created At",
     ];
@@ -585,6 +594,9 @@ export function OrderList({
       order.status,
       order.totalAmount,
       order.discountAmount || 0,
+      order.paymentStatus,
+      order.paidAmount,
+      order.amountDue,
       order.itemCount,
       order.createdAt.toLocaleDateString(),
     ]);
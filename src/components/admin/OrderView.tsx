@@ -1,4 +1,5 @@
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import type { Order } from "./orderview/types";
 
 // Import the new, refactored components
@@ -6,6 +7,8 @@ import { OrderViewHeader } from "./orderview/OrderViewHeader";
 import { OrderItemsCard } from "./orderview/OrderItemsCard";
 import { OrderStatusCard } from "./orderview/OrderStatusCard";
 import { ShipmentCard } from "./orderview/ShipmentCard";
+import { PaymentCard } from "./orderview/PaymentCard";
+import { ReturnsCard } from "./orderview/ReturnsCard";
 import { OrderNotesCard } from "./orderview/OrderNotesCard";
 
 interface OrderViewProps {
@@ -20,16 +23,32 @@ export function OrderView({ order }: OrderViewProps) {
         <OrderViewHeader order={order} />
 
         <div className="grid grid-cols-1 gap-4 lg:grid-cols-12 lg:gap-6">
-          {/* Left Column for Status, Shipments, and Notes */}
+          {/* Left Column for Status, Payment, Shipments, and Notes */}
           <div className="space-y-4 lg:col-span-4">
             <OrderStatusCard order={order} />
+            <PaymentCard order={order} />
             <ShipmentCard order={order} />
             <OrderNotesCard order={order} />
           </div>
 
-          {/* Right Column for Order Items */}
+          {/* Right Column for Order Items, Returns and Refunds */}
           <div className="lg:col-span-8">
-            <OrderItemsCard order={order} />
+            <Tabs defaultValue="items">
+              <TabsList className="mb-4">
+                <TabsTrigger value="items">Items</TabsTrigger>
+                <TabsTrigger value="returns">
+                  Returns & Refunds
+                  {(order.returns?.length ?? 0) > 0 &&
+                    ` (${order.returns?.length})`}
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="items">
+                <OrderItemsCard order={order} />
+              </TabsContent>
+              <TabsContent value="returns">
+                <ReturnsCard order={order} />
+              </TabsContent>
+            </Tabs>
           </div>
         </div>
       </div>
@@ -28,6 +28,8 @@ import { Loader2, ExternalLink, Save } from "lucide-react";
 import { TiptapEditor } from "../ui/tiptap-editor";
 import { useStorefrontUrl } from "@/hooks/use-storefront-url";
 import { CharacterCounter } from "@/components/ui/character-counter";
+import { TranslatableEntity } from "@/db/schema";
+import { TranslationsCard } from "./TranslationsCard";
 
 const pageFormSchema = z.object({
   id: z.string().optional(),
@@ -441,6 +443,46 @@ export function PageForm({ defaultValues, isEdit = false }: PageFormProps) {
           </CardContent>
         </Card>
 
+        {isEdit && defaultValues?.id && (
+          <TranslationsCard
+            endpoint={`/api/pages/${defaultValues.id}/translations`}
+            fields={[
+              {
+                entityType: TranslatableEntity.PAGE,
+                entityId: defaultValues.id,
+                field: "title",
+                label: "Page Title",
+                type: "text",
+                baseValue: form.watch("title"),
+              },
+              {
+                entityType: TranslatableEntity.PAGE,
+                entityId: defaultValues.id,
+                field: "content",
+                label: "Content",
+                type: "richtext",
+                baseValue: form.watch("content"),
+              },
+              {
+                entityType: TranslatableEntity.PAGE,
+                entityId: defaultValues.id,
+                field: "metaTitle",
+                label: "Meta Title",
+                type: "text",
+                baseValue: form.watch("metaTitle"),
+              },
+              {
+                entityType: TranslatableEntity.PAGE,
+                entityId: defaultValues.id,
+                field: "metaDescription",
+                label: "Meta Description",
+                type: "textarea",
+                baseValue: form.watch("metaDescription"),
+              },
+            ]}
+          />
+        )}
+
         <div className="flex justify-between items-center">
           <div>
             {isEdit && slug && (
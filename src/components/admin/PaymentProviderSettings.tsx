@@ -0,0 +1,600 @@
+import { type FC, useState } from "react";
+import type { PaymentProvider, PaymentProviderType } from "@/db/schema";
+import { toast } from "sonner";
+
+// Provider type options
+const PROVIDER_TYPES: { value: PaymentProviderType; label: string }[] = [
+  { value: "sslcommerz", label: "SSLCommerz" },
+  { value: "bkash", label: "bKash" },
+  { value: "mock", label: "Mock Gateway (testing only)" },
+];
+
+interface FieldDefinition {
+  key: string;
+  label: string;
+  secret?: boolean;
+  options?: { value: string; label: string }[];
+}
+
+// Credential fields by provider type
+const CREDENTIAL_FIELDS: Record<PaymentProviderType, FieldDefinition[]> = {
+  sslcommerz: [
+    { key: "baseUrl", label: "Base URL" },
+    { key: "storeId", label: "Store ID" },
+    { key: "storePassword", label: "Store Password", secret: true },
+  ],
+  bkash: [
+    { key: "baseUrl", label: "Base URL" },
+    { key: "appKey", label: "App Key" },
+    { key: "appSecret", label: "App Secret", secret: true },
+    { key: "username", label: "Username" },
+    { key: "password", label: "Password", secret: true },
+  ],
+  mock: [],
+};
+
+// Config fields by provider type
+const CONFIG_FIELDS: Record<PaymentProviderType, FieldDefinition[]> = {
+  sslcommerz: [{ key: "productCategory", label: "Product Category" }],
+  bkash: [],
+  mock: [
+    {
+      key: "outcome",
+      label: "Simulated Outcome",
+      options: [
+        { value: "success", label: "Success" },
+        { value: "failure", label: "Failure" },
+        { value: "cancel", label: "Cancelled" },
+      ],
+    },
+  ],
+};
+
+// Default credentials by provider type
+const DEFAULT_CREDENTIALS: Record<PaymentProviderType, Record<string, any>> = {
+  sslcommerz: {
+    baseUrl: "https://sandbox.sslcommerz.com",
+    storeId: "",
+    storePassword: "",
+  },
+  bkash: {
+    baseUrl: "https://tokenized.sandbox.bka.sh/v1.2.0-beta",
+    appKey: "",
+    appSecret: "",
+    username: "",
+    password: "",
+  },
+  mock: {},
+};
+
+// Default config by provider type
+const DEFAULT_CONFIG: Record<PaymentProviderType, Record<string, any>> = {
+  sslcommerz: { productCategory: "general" },
+  bkash: { intent: "sale" },
+  mock: { outcome: "success" },
+};
+
+interface PaymentProviderSettingsProps {
+  providers: PaymentProvider[];
+}
+
+declare global {
+  interface Window {
+    paymentProviderActions: {
+      saveProvider: (provider: any) => Promise<any>;
+      deleteProvider: (
+        id: string,
+      ) => Promise<{ deleted: boolean; message: string }>;
+      testProvider: (id: string) => Promise<any>;
+    };
+  }
+}
+
+type ProviderFormData = Omit<PaymentProvider, "createdAt" | "updatedAt">;
+
+const parseJSON = (jsonString: string): Record<string, any> => {
+  try {
+    return JSON.parse(jsonString);
+  } catch (error) {
+    console.error("Error parsing JSON", error);
+    return {};
+  }
+};
+
+const emptyForm = (): ProviderFormData => ({
+  id: "",
+  name: "",
+  type: "sslcommerz",
+  credentials: JSON.stringify(DEFAULT_CREDENTIALS.sslcommerz),
+  config: JSON.stringify(DEFAULT_CONFIG.sslcommerz),
+  isActive: false,
+});
+
+const PaymentProviderSettings: FC<PaymentProviderSettingsProps> = ({
+  providers: initialProviders,
+}) => {
+  const [providers, setProviders] =
+    useState<PaymentProvider[]>(initialProviders);
+  const [selectedProvider, setSelectedProvider] =
+    useState<PaymentProvider | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [formData, setFormData] = useState<ProviderFormData>(emptyForm());
+
+  const providerType = formData.type as PaymentProviderType;
+
+  const resetForm = (provider?: PaymentProvider) => {
+    setFormData(
+      provider
+        ? {
+            id: provider.id,
+            name: provider.name,
+            type: provider.type,
+            credentials: provider.credentials,
+            config: provider.config,
+            isActive: provider.isActive,
+          }
+        : emptyForm(),
+    );
+  };
+
+  // Switching type resets credentials and config to that type's defaults
+  const handleTypeChange = (type: PaymentProviderType) => {
+    setFormData((prev) => ({
+      ...prev,
+      type,
+      credentials: JSON.stringify(DEFAULT_CREDENTIALS[type]),
+      config: JSON.stringify(DEFAULT_CONFIG[type]),
+    }));
+  };
+
+  const handleJsonFieldChange = (
+    field: "credentials" | "config",
+    key: string,
+    value: string,
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      [field]: JSON.stringify({ ...parseJSON(prev[field]), [key]: value }),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!formData.name) {
+      toast.error("Provider name is required");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (!window.paymentProviderActions) {
+        toast.error("Provider actions not available");
+        return;
+      }
+
+      const savedProvider = await window.paymentProviderActions.saveProvider({
+        ...formData,
+        id: formData.id || undefined,
+      });
+
+      if (isCreating) {
+        setProviders((prev) => [...prev, savedProvider]);
+      } else {
+        setProviders((prev) =>
+          prev.map((p) => (p.id === savedProvider.id ? savedProvider : p)),
+        );
+      }
+
+      setSelectedProvider(savedProvider);
+      resetForm(savedProvider);
+      setIsEditing(false);
+      setIsCreating(false);
+      toast.success("Provider saved successfully");
+    } catch (error) {
+      toast.error(
+        `Error saving provider: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedProvider) return;
+
+    if (!confirm(`Are you sure you want to delete ${selectedProvider.name}?`)) {
+      return;
+    }
+
+    setIsDeleting(true);
+    try {
+      if (!window.paymentProviderActions) {
+        toast.error("Provider actions not available");
+        return;
+      }
+
+      const result = await window.paymentProviderActions.deleteProvider(
+        selectedProvider.id,
+      );
+
+      if (result.deleted) {
+        setProviders((prev) =>
+          prev.filter((p) => p.id !== selectedProvider.id),
+        );
+        setSelectedProvider(null);
+      } else {
+        // Providers with payments are kept for history and only deactivated
+        const deactivated = { ...selectedProvider, isActive: false };
+        setProviders((prev) =>
+          prev.map((p) => (p.id === deactivated.id ? deactivated : p)),
+        );
+        setSelectedProvider(deactivated);
+        resetForm(deactivated);
+      }
+      toast.success(result.message);
+    } catch (error) {
+      toast.error(
+        `Error deleting provider: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleTest = async () => {
+    if (!selectedProvider) return;
+
+    setIsTesting(true);
+    try {
+      if (!window.paymentProviderActions) {
+        toast.error("Provider actions not available");
+        return;
+      }
+
+      const result = await window.paymentProviderActions.testProvider(
+        selectedProvider.id,
+      );
+
+      if (result.success) {
+        toast.success(result.message || "Connection successful");
+      } else {
+        toast.error(result.message || "Connection failed");
+      }
+    } catch (error) {
+      toast.error(
+        `Error testing provider: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleCreate = () => {
+    resetForm();
+    setIsCreating(true);
+    setIsEditing(true);
+    setSelectedProvider(null);
+  };
+
+  const handleEdit = () => {
+    if (!selectedProvider) return;
+    resetForm(selectedProvider);
+    setIsEditing(true);
+    setIsCreating(false);
+  };
+
+  const handleCancel = () => {
+    setIsEditing(false);
+    setIsCreating(false);
+    if (selectedProvider) {
+      resetForm(selectedProvider);
+    }
+  };
+
+  const handleSelect = (provider: PaymentProvider) => {
+    setSelectedProvider(provider);
+    resetForm(provider);
+    setIsEditing(false);
+    setIsCreating(false);
+  };
+
+  const renderFields = (
+    field: "credentials" | "config",
+    definitions: FieldDefinition[],
+  ) => {
+    if (definitions.length === 0) {
+      return (
+        <p className="text-sm text-gray-500">
+          No {field === "credentials" ? "credentials" : "configuration"}{" "}
+          required.
+        </p>
+      );
+    }
+
+    const values = parseJSON(formData[field]);
+
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {definitions.map((definition) => (
+          <div key={definition.key}>
+            <label className="block text-sm font-medium mb-1">
+              {definition.label}
+            </label>
+            {!isEditing ? (
+              <p>
+                {definition.secret
+                  ? "••••••••••••"
+                  : definition.options
+                    ? definition.options.find(
+                        (option) => option.value === values[definition.key],
+                      )?.label
+                    : values[definition.key]}
+              </p>
+            ) : definition.options ? (
+              <select
+                value={values[definition.key] || ""}
+                onChange={(e) =>
+                  handleJsonFieldChange(field, definition.key, e.target.value)
+                }
+                className="w-full p-2 border rounded"
+              >
+                {definition.options.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type={definition.secret ? "password" : "text"}
+                value={values[definition.key] || ""}
+                onChange={(e) =>
+                  handleJsonFieldChange(field, definition.key, e.target.value)
+                }
+                className="w-full p-2 border rounded"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Payment Providers</h2>
+        <button
+          onClick={handleCreate}
+          className="px-4 py-2 bg-foreground text-background rounded hover:bg-primary/90 transition-colors"
+        >
+          Add Provider
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* Provider List */}
+        <div className="col-span-1 border rounded p-4">
+          <h3 className="font-medium mb-4">Available Providers</h3>
+          {providers.length === 0 ? (
+            <p className="text-gray-500">No providers configured</p>
+          ) : (
+            <ul className="space-y-2">
+              {providers.map((provider) => (
+                <li
+                  key={provider.id}
+                  className={`p-2 rounded cursor-pointer ${
+                    selectedProvider?.id === provider.id
+                      ? "bg-background border border-gray-300"
+                      : "hover:bg-background border border-transparent"
+                  }`}
+                  onClick={() => handleSelect(provider)}
+                >
+                  <div className="flex items-center space-x-2">
+                    <span
+                      className={`w-2 h-2 rounded-full ${
+                        provider.isActive ? "bg-green-500" : "bg-gray-300"
+                      }`}
+                    ></span>
+                    <span className="font-medium">{provider.name}</span>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {provider.type}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Provider Details */}
+        <div className="col-span-1 md:col-span-2 border rounded p-4">
+          <h3 className="font-medium mb-4">
+            {isCreating
+              ? "New Provider"
+              : selectedProvider
+                ? "Provider Details"
+                : "Select a Provider"}
+          </h3>
+
+          {(selectedProvider || isCreating) && (
+            <div className="space-y-6">
+              {/* Basic Information */}
+              <div>
+                <h4 className="font-medium mb-2">Basic Information</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">
+                      Name
+                    </label>
+                    {isEditing ? (
+                      <input
+                        type="text"
+                        value={formData.name}
+                        onChange={(e) =>
+                          setFormData((prev) => ({
+                            ...prev,
+                            name: e.target.value,
+                          }))
+                        }
+                        className="w-full p-2 border rounded"
+                      />
+                    ) : (
+                      <p>{formData.name}</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-1">
+                      Type
+                    </label>
+                    {isCreating ? (
+                      <select
+                        value={formData.type}
+                        onChange={(e) =>
+                          handleTypeChange(
+                            e.target.value as PaymentProviderType,
+                          )
+                        }
+                        className="w-full p-2 border rounded"
+                      >
+                        {PROVIDER_TYPES.map((type) => (
+                          <option key={type.value} value={type.value}>
+                            {type.label}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <p>
+                        {
+                          PROVIDER_TYPES.find(
+                            (type) => type.value === formData.type,
+                          )?.label
+                        }
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-1">
+                      Status
+                    </label>
+                    {isEditing ? (
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          checked={formData.isActive}
+                          onChange={(e) =>
+                            setFormData((prev) => ({
+                              ...prev,
+                              isActive: e.target.checked,
+                            }))
+                          }
+                          className="rounded"
+                          id="payment-provider-active"
+                        />
+                        <label
+                          htmlFor="payment-provider-active"
+                          className="text-sm select-none"
+                        >
+                          Active
+                        </label>
+                      </div>
+                    ) : (
+                      <p>
+                        {formData.isActive ? (
+                          <span className="text-green-600 font-medium">
+                            Active
+                          </span>
+                        ) : (
+                          <span className="text-gray-600">Inactive</span>
+                        )}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                {providerType === "mock" && (
+                  <p className="mt-3 text-sm text-amber-600">
+                    The mock gateway completes payments without charging anyone.
+                    Only activate it on development or staging stores.
+                  </p>
+                )}
+              </div>
+
+              {/* Credentials Section */}
+              <div>
+                <h4 className="font-medium mb-2">API Credentials</h4>
+                {renderFields(
+                  "credentials",
+                  CREDENTIAL_FIELDS[providerType] || [],
+                )}
+              </div>
+
+              {/* Configuration Section */}
+              <div>
+                <h4 className="font-medium mb-2">Configuration</h4>
+                {renderFields("config", CONFIG_FIELDS[providerType] || [])}
+              </div>
+
+              {/* Form Actions */}
+              <div className="flex space-x-2 pt-4">
+                {isEditing ? (
+                  <>
+                    <button
+                      onClick={handleSave}
+                      className="px-4 py-2 bg-primary text-white rounded hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      disabled={isSaving}
+                    >
+                      {isSaving ? "Saving..." : "Save"}
+                    </button>
+                    <button
+                      onClick={handleCancel}
+                      className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={handleEdit}
+                      className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300 transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={handleTest}
+                      className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      disabled={isTesting}
+                    >
+                      {isTesting ? "Testing..." : "Test Connection"}
+                    </button>
+                    <button
+                      onClick={handleDelete}
+                      className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      disabled={isDeleting}
+                    >
+                      {isDeleting ? "Deleting..." : "Delete"}
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          {!selectedProvider && !isCreating && (
+            <p className="text-gray-500">
+              Select a provider to view details or create a new one.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export { PaymentProviderSettings };
@@ -13,11 +13,15 @@ import {
   AlertDialogTitle,
 } from "../ui/alert-dialog";
 import { useStorefrontUrl } from "@/hooks/use-storefront-url";
+import { ProductType, TranslatableEntity } from "@/db/schema";
+import { TranslationsCard, type TranslatableField } from "./TranslationsCard";
 import {
   ProductImagesSection,
   TitleDescriptionSection,
   SeoSection,
   AttributesSection,
+  RecommendationsSection,
+  BundleSection,
   PricingCard,
   StatusCard,
   OrganizationCard,
@@ -26,15 +30,15 @@ import {
   useProductSubmit,
   useProductVariants,
   productFormSchema,
-  cleanMetaDescription,
-  hasVariantImagesEnabled,
   generateSlug,
   type ProductFormValues,
   type Category,
+  type BundleVariantChoice,
 } from "./product-form";
 
 interface ProductFormProps {
   categories: Category[];
+  bundleVariantChoices?: BundleVariantChoice[];
   defaultValues?: Partial<
     ProductFormValues & { attributes?: any[]; additionalInfo?: any[] }
   >;
@@ -43,34 +47,27 @@ interface ProductFormProps {
 
 export function ProductForm({
   categories,
+  bundleVariantChoices = [],
   defaultValues,
   isEdit = false,
 }: ProductFormProps) {
   const [isClient, setIsClient] = React.useState(false);
   const { getStorefrontPath } = useStorefrontUrl();
 
-  // Clean the meta description to avoid showing the marker to users
-  const cleanedDefaultValues = React.useMemo(() => {
-    if (!defaultValues) return undefined;
-
-    return {
-      ...defaultValues,
-      metaDescription: cleanMetaDescription(defaultValues.metaDescription),
-    };
-  }, [defaultValues]);
-
-  // Handle variant specific images independently from form schema
-  const [enableVariantImages, setEnableVariantImages] = React.useState(
-    hasVariantImagesEnabled(defaultValues?.metaDescription) || false,
-  );
-
-  // Fetch variants and extract unique colors
-  const { uniqueColorOptions, refreshVariants } = useProductVariants({
+  // Fetch variants, their options and image links for linking images
+  const {
+    variants,
+    options: variantOptions,
+    imageLinks,
+    savedImageIds,
+    refreshVariants,
+    setImageLinks,
+  } = useProductVariants({
     productId: defaultValues?.id,
     isEdit,
   });
 
-  // Listen for variant changes to refresh color options
+  // Listen for variant changes to refresh the variants images can link to
   React.useEffect(() => {
     const handleVariantChange = () => {
       if (isEdit && defaultValues?.id) {
@@ -79,7 +76,11 @@ export function ProductForm({
     };
 
     window.addEventListener("variantChanged", handleVariantChange);
-    return () => window.removeEventListener("variantChanged", handleVariantChange);
+    window.addEventListener("variantImagesChanged", handleVariantChange);
+    return () => {
+      window.removeEventListener("variantChanged", handleVariantChange);
+      window.removeEventListener("variantImagesChanged", handleVariantChange);
+    };
   }, [isEdit, defaultValues?.id, refreshVariants]);
 
   // Set up client-side rendering flag
@@ -95,6 +96,7 @@ export function ProductForm({
       description: null,
       price: 0,
       categoryId: "",
+      additionalCategoryIds: [],
       isActive: true,
       discountType: "percentage",
       discountPercentage: 0,
@@ -107,7 +109,11 @@ export function ProductForm({
       slugEdited: false,
       attributes: [],
       additionalInfo: [],
-      ...cleanedDefaultValues,
+      relatedProducts: [],
+      frequentlyBoughtTogether: [],
+      type: ProductType.STANDARD,
+      bundleItems: [],
+      ...defaultValues,
     },
   });
 
@@ -115,10 +121,17 @@ export function ProductForm({
   const { isSubmitting, showAlert, alertMessage, setShowAlert, handleSubmit } =
     useProductSubmit({
       isEdit,
-      enableVariantImages,
       form,
     });
 
+  // Newly added images can be linked once saved
+  const { isSubmitSuccessful, submitCount } = form.formState;
+  React.useEffect(() => {
+    if (isEdit && isSubmitSuccessful) {
+      refreshVariants();
+    }
+  }, [isEdit, isSubmitSuccessful, submitCount, refreshVariants]);
+
   // Auto-generate slug from name - ONLY for new products
   React.useEffect(() => {
     if (!isEdit) {
@@ -134,6 +147,70 @@ export function ProductForm({
     }
   }, [form, isEdit]);
 
+  // Additional info sections can be translated once saved
+  const productId = isEdit ? defaultValues?.id : undefined;
+  const savedInfoIds = new Set(
+    (defaultValues?.additionalInfo ?? []).map((item) => item.id),
+  );
+  const translatableFields: TranslatableField[] = productId
+    ? [
+        {
+          entityType: TranslatableEntity.PRODUCT,
+          entityId: productId,
+          field: "name",
+          label: "Product Name",
+          type: "text",
+          baseValue: form.watch("name"),
+        },
+        {
+          entityType: TranslatableEntity.PRODUCT,
+          entityId: productId,
+          field: "description",
+          label: "Description",
+          type: "richtext",
+          baseValue: form.watch("description"),
+        },
+        {
+          entityType: TranslatableEntity.PRODUCT,
+          entityId: productId,
+          field: "metaTitle",
+          label: "Meta Title",
+          type: "text",
+          baseValue: form.watch("metaTitle"),
+        },
+        {
+          entityType: TranslatableEntity.PRODUCT,
+          entityId: productId,
+          field: "metaDescription",
+          label: "Meta Description",
+          type: "textarea",
+          baseValue: form.watch("metaDescription"),
+        },
+        ...(form.watch("additionalInfo") ?? [])
+          .filter((item) => savedInfoIds.has(item.id))
+          .flatMap((item): TranslatableField[] => [
+            {
+              entityType: TranslatableEntity.PRODUCT_RICH_CONTENT,
+              entityId: item.id,
+              field: "title",
+              label: "Title",
+              type: "text",
+              baseValue: item.title,
+              group: item.title,
+            },
+            {
+              entityType: TranslatableEntity.PRODUCT_RICH_CONTENT,
+              entityId: item.id,
+              field: "content",
+              label: "Content",
+              type: "richtext",
+              baseValue: item.content,
+              group: item.title,
+            },
+          ]),
+      ]
+    : [];
+
   return (
     <>
       <ProductStickyHeader
@@ -156,10 +233,21 @@ export function ProductForm({
               {/* Product Images */}
               <ProductImagesSection
                 form={form}
-                enableVariantImages={enableVariantImages}
-                setEnableVariantImages={setEnableVariantImages}
-                uniqueColorOptions={uniqueColorOptions}
+                productId={isEdit ? defaultValues?.id : undefined}
+                variantOptions={variantOptions}
+                variants={variants}
+                imageLinks={imageLinks}
+                savedImageIds={savedImageIds}
+                onImageLinksChange={setImageLinks}
               />
+
+              {/* Translations */}
+              {productId && (
+                <TranslationsCard
+                  endpoint={`/api/products/${productId}/translations`}
+                  fields={translatableFields}
+                />
+              )}
             </div>
 
             {/* Right Column - Settings & Metadata (1/3 width on large screens) */}
@@ -190,6 +278,16 @@ export function ProductForm({
 
               {/* Attributes */}
               <AttributesSection form={form} />
+
+              {/* Recommendations */}
+              <RecommendationsSection form={form} />
+
+              {/* Bundle */}
+              <BundleSection
+                form={form}
+                choices={bundleVariantChoices}
+                hasVariants={variants.length > 0}
+              />
             </div>
           </div>
 
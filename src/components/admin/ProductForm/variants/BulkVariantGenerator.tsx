@@ -29,25 +29,62 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Sparkles, X } from "lucide-react";
+import { Loader2, Plus, Sparkles, Trash2, X } from "lucide-react";
 import { SkuTemplateConfig } from "./SkuTemplateConfig";
 import { generateVariantCombinations } from "./utils/variantHelpers";
+import {
+  formatVariantOptions,
+  variantOptionsKey,
+} from "@/lib/catalog/variant-options";
 import type {
   BulkVariantOptions,
   BulkGeneratedVariant,
+  OptionDefinition,
   ProductVariant,
 } from "./types";
 
+// Quick-add value lists offered for options with these names
+const VALUE_PRESETS: Record<string, { label: string; values: string }[]> = {
+  size: [
+    { label: "Standard (S-XXL)", values: "S,M,L,XL,XXL" },
+    { label: "Extended (XS-XL)", values: "XS,S,M,L,XL" },
+    { label: "Shoes (38-44)", values: "38,39,40,41,42,43,44" },
+    { label: "Kids (2Y-12Y)", values: "2Y,4Y,6Y,8Y,10Y,12Y" },
+  ],
+  color: [
+    { label: "Basics", values: "Black,White,Grey,Navy" },
+    { label: "Primary", values: "Red,Blue,Green,Yellow" },
+    { label: "Pastels", values: "Pastel Pink,Pastel Blue,Mint,Cream" },
+  ],
+};
+VALUE_PRESETS.colour = VALUE_PRESETS.color;
+
 interface BulkVariantGeneratorProps {
   productSlug?: string;
   existingVariants: ProductVariant[];
+  options: OptionDefinition[];
   onGenerate: (variants: BulkGeneratedVariant[]) => Promise<void>;
   disabled?: boolean;
 }
 
+/**
+ * Options to start from: the product's own with all their values, or Size
+ * and Color for a product without options yet
+ */
+function initialOptions(options: OptionDefinition[]): OptionDefinition[] {
+  if (options.length > 0) {
+    return options.map((option) => ({ ...option, values: [...option.values] }));
+  }
+  return [
+    { name: "Size", values: [] },
+    { name: "Color", values: [] },
+  ];
+}
+
 export function BulkVariantGenerator({
   productSlug,
   existingVariants,
+  options: productOptions,
   onGenerate,
   disabled,
 }: BulkVariantGeneratorProps) {
@@ -55,24 +92,56 @@ export function BulkVariantGenerator({
   const [isGenerating, setIsGenerating] = useState(false);
 
   // Form state
-  const [sizeInput, setSizeInput] = useState("");
-  const [sizes, setSizes] = useState<string[]>([]);
-  const [colorInput, setColorInput] = useState("");
-  const [colors, setColors] = useState<string[]>([]);
+  const [options, setOptions] = useState<OptionDefinition[]>(() =>
+    initialOptions(productOptions),
+  );
+  const [valueInputs, setValueInputs] = useState<string[]>([]);
   const [basePrice, setBasePrice] = useState<number>(0);
   const [baseStock, setBaseStock] = useState<number>(0);
   const [baseWeight, setBaseWeight] = useState<number | null>(null);
-  const [skuTemplate, setSkuTemplate] = useState("{RANDOM}-{SIZE}-{COLOR}");
+  const [skuTemplate, setSkuTemplate] = useState("{RANDOM}-{OPTIONS}");
   const [discountType, setDiscountType] = useState<"percentage" | "flat">(
     "percentage",
   );
   const [discountValue, setDiscountValue] = useState<number | null>(null);
 
+  const productOptionNames = useMemo(
+    () => new Set(productOptions.map((option) => option.name)),
+    [productOptions],
+  );
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setOptions(initialOptions(productOptions));
+      setValueInputs([]);
+    }
+    setOpen(next);
+  };
+
+  // Options without a name or values are left out, except the product's own
+  // options which every variant needs a value for
+  const usedOptions = useMemo(
+    () =>
+      options.filter(
+        (option) =>
+          productOptionNames.has(option.name) ||
+          (option.name.trim() && option.values.length > 0),
+      ),
+    [options, productOptionNames],
+  );
+
+  const missingValues = usedOptions.filter(
+    (option) => option.values.length === 0,
+  );
+  const duplicateNames = usedOptions.filter(
+    (option, index) =>
+      usedOptions.findIndex((o) => o.name === option.name) !== index,
+  );
+
   // Generate preview
   const previewVariants = useMemo(() => {
-    const options: BulkVariantOptions = {
-      sizes,
-      colors,
+    const bulkOptions: BulkVariantOptions = {
+      options: usedOptions,
       basePrice,
       baseStock,
       baseWeight,
@@ -80,10 +149,9 @@ export function BulkVariantGenerator({
       discountType,
       discountValue,
     };
-    return generateVariantCombinations(options, productSlug);
+    return generateVariantCombinations(bulkOptions, productSlug);
   }, [
-    sizes,
-    colors,
+    usedOptions,
     basePrice,
     baseStock,
     baseWeight,
@@ -93,6 +161,29 @@ export function BulkVariantGenerator({
     productSlug,
   ]);
 
+  // Combinations existing variants already have. Existing variants take the
+  // first value of an option added here.
+  const existingCombinations = useMemo(() => {
+    const added = usedOptions.filter(
+      (option) => !productOptionNames.has(option.name),
+    );
+    return new Set(
+      existingVariants.map((variant) => {
+        const projected = { ...variant.options };
+        for (const option of added) projected[option.name] = option.values[0];
+        return variantOptionsKey(projected);
+      }),
+    );
+  }, [existingVariants, usedOptions, productOptionNames]);
+
+  const newVariants = useMemo(
+    () =>
+      previewVariants.filter(
+        (v) => !existingCombinations.has(variantOptionsKey(v.options)),
+      ),
+    [previewVariants, existingCombinations],
+  );
+
   // Check for SKU conflicts
   const existingSkus = useMemo(
     () => new Set(existingVariants.map((v) => v.sku)),
@@ -100,26 +191,38 @@ export function BulkVariantGenerator({
   );
 
   const skuConflicts = useMemo(
-    () => previewVariants.filter((v) => existingSkus.has(v.sku)),
-    [previewVariants, existingSkus],
+    () => newVariants.filter((v) => existingSkus.has(v.sku)),
+    [newVariants, existingSkus],
   );
 
-  const handleAddSize = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === "Enter" && sizeInput.trim()) {
-      e.preventDefault();
-      if (!sizes.includes(sizeInput.trim())) {
-        setSizes([...sizes, sizeInput.trim()]);
-      }
-      setSizeInput("");
+  const updateOption = (index: number, option: OptionDefinition) => {
+    setOptions(options.map((o, i) => (i === index ? option : o)));
+  };
+
+  const addValues = (index: number, values: string[]) => {
+    const option = options[index];
+    const added = values
+      .map((v) => v.trim())
+      .filter((v, i, all) => v !== "" && all.indexOf(v) === i)
+      .filter((v) => !option.values.includes(v));
+    if (added.length > 0) {
+      updateOption(index, { ...option, values: [...option.values, ...added] });
     }
   };
 
-  const handleRemoveSize = (size: string) => {
-    setSizes(sizes.filter((s) => s !== size));
+  const setValueInput = (index: number, value: string) => {
+    const next = [...valueInputs];
+    next[index] = value;
+    setValueInputs(next);
   };
 
-  const handleRemoveColor = (color: string) => {
-    setColors(colors.filter((c) => c !== color));
+  const handleAddOption = () => {
+    setOptions([...options, { name: "", values: [] }]);
+  };
+
+  const handleRemoveOption = (index: number) => {
+    setOptions(options.filter((_, i) => i !== index));
+    setValueInputs(valueInputs.filter((_, i) => i !== index));
   };
 
   const handleGenerate = async () => {
@@ -129,10 +232,8 @@ export function BulkVariantGenerator({
 
     setIsGenerating(true);
     try {
-      await onGenerate(previewVariants);
+      await onGenerate(newVariants);
       // Reset form
-      setSizes([]);
-      setColors([]);
       setBasePrice(0);
       setBaseStock(0);
       setBaseWeight(null);
@@ -145,10 +246,14 @@ export function BulkVariantGenerator({
     }
   };
 
-  const canGenerate = previewVariants.length > 0 && skuConflicts.length === 0;
+  const canGenerate =
+    newVariants.length > 0 &&
+    skuConflicts.length === 0 &&
+    missingValues.length === 0 &&
+    duplicateNames.length === 0;
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         <Button variant="outline" size="sm" disabled={disabled}>
           <Sparkles className="mr-2 h-4 w-4" />
@@ -161,295 +266,191 @@ export function BulkVariantGenerator({
             Bulk Variant Generator
           </DialogTitle>
           <DialogDescription className="text-base mt-2">
-            Generate multiple variants at once by combining sizes and colors.
-            All combinations will be created automatically.
+            Generate multiple variants at once by combining option values. All
+            combinations that don't exist yet will be created automatically.
           </DialogDescription>
         </DialogHeader>
 
         <div className="grid grid-cols-2 gap-10 py-6">
           {/* Left Column - Configuration */}
           <div className="space-y-5">
-            <div className="space-y-2.5">
-              <Label htmlFor="sizes" className="text-sm font-semibold">
-                Sizes
-              </Label>
-              <Input
-                id="sizes"
-                value={sizeInput}
-                onChange={(e) => setSizeInput(e.target.value)}
-                onKeyDown={handleAddSize}
-                placeholder="Type size and press Enter (e.g., S, M, L, XL)"
-                className="h-10"
-              />
-              {sizes.length > 0 && (
-                <div className="flex flex-wrap gap-1.5 pt-1">
-                  {sizes.map((size) => (
-                    <Badge
-                      key={size}
-                      variant="secondary"
-                      className="gap-1 px-2.5 py-1"
-                    >
-                      {size}
-                      <button
-                        type="button"
-                        onClick={() => handleRemoveSize(size)}
-                        className="ml-1 hover:text-destructive transition-colors"
-                      >
-                        <X className="h-3 w-3" />
-                      </button>
-                    </Badge>
-                  ))}
-                </div>
-              )}
-            </div>
+            {options.map((option, index) => {
+              const presets = VALUE_PRESETS[option.name.trim().toLowerCase()];
+              const isProductOption = productOptionNames.has(option.name);
+              const input = valueInputs[index] || "";
 
-            {/* Sizes Section */}
-            <div className="space-y-3 bg-muted/20 p-4 rounded-lg border">
-              <div className="flex items-center justify-between">
-                <Label
-                  htmlFor="sizes"
-                  className="text-sm font-semibold flex items-center gap-2"
+              return (
+                <div
+                  key={index}
+                  className="space-y-3 bg-muted/20 p-4 rounded-lg border"
                 >
-                  Sizes
-                  <Badge
-                    variant="outline"
-                    className="text-[10px] font-normal h-5"
-                  >
-                    {sizes.length} added
-                  </Badge>
-                </Label>
-                <div className="flex items-center gap-2">
-                  {sizes.length > 0 && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => setSizes([])}
-                      className="h-6 text-[10px] text-muted-foreground hover:text-destructive px-2"
-                    >
-                      Clear All
-                    </Button>
-                  )}
-                  <Select
-                    onValueChange={(val) => {
-                      const newSizes = val.split(",");
-                      const combined = [...new Set([...sizes, ...newSizes])];
-                      setSizes(combined);
-                    }}
-                  >
-                    <SelectTrigger className="h-7 text-[10px] w-[110px] border-dashed">
-                      <SelectValue placeholder="Quick Add..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="S,M,L,XL,XXL">
-                        Standard (S-XXL)
-                      </SelectItem>
-                      <SelectItem value="XS,S,M,L,XL">
-                        Extended (XS-XL)
-                      </SelectItem>
-                      <SelectItem value="38,39,40,41,42,43,44">
-                        Shoes (38-44)
-                      </SelectItem>
-                      <SelectItem value="2Y,4Y,6Y,8Y,10Y,12Y">
-                        Kids (2Y-12Y)
-                      </SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-
-              <Input
-                id="sizes"
-                value={sizeInput}
-                onPaste={(e) => {
-                  e.preventDefault();
-                  const pasted = e.clipboardData.getData("text");
-                  if (!pasted) return;
-                  const newItems = pasted
-                    .split(/[\n,]+/) // Split by comma or newline
-                    .map((s) => s.trim())
-                    .filter((s) => s !== "" && !sizes.includes(s));
-
-                  if (newItems.length > 0) {
-                    setSizes([...sizes, ...newItems]);
-                  }
-                }}
-                onChange={(e) => {
-                  const val = e.target.value;
-                  if (val.includes(",")) {
-                    const parts = val.split(",").map((s) => s.trim());
-                    const lastPart = parts.pop() || "";
-                    const newItems = parts.filter(
-                      (p) => p !== "" && !sizes.includes(p),
-                    );
-                    if (newItems.length > 0) {
-                      setSizes([...sizes, ...newItems]);
-                    }
-                    setSizeInput(lastPart);
-                  } else {
-                    setSizeInput(val);
-                  }
-                }}
-                onKeyDown={(e) => {
-                  if (e.key === "Enter" && sizeInput.trim()) {
-                    e.preventDefault();
-                    if (!sizes.includes(sizeInput.trim())) {
-                      setSizes([...sizes, sizeInput.trim()]);
-                    }
-                    setSizeInput("");
-                  }
-                }}
-                placeholder="Type size and press Enter. Paste comma-separated lists supported."
-                className="h-10 bg-background"
-              />
-
-              {sizes.length > 0 ? (
-                <div className="flex flex-wrap gap-1.5 min-h-6">
-                  {sizes.map((size) => (
-                    <Badge
-                      key={size}
-                      variant="secondary"
-                      className="gap-1 pl-2.5 pr-1 py-0.5 text-sm"
-                    >
-                      {size}
-                      <button
-                        type="button"
-                        onClick={() => handleRemoveSize(size)}
-                        className="ml-1 ring-offset-background rounded-full outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 hover:bg-destructive hover:text-destructive-foreground transition-colors p-0.5"
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      {isProductOption ? (
+                        <Label
+                          htmlFor={`option-${index}`}
+                          className="text-sm font-semibold"
+                        >
+                          {option.name}
+                        </Label>
+                      ) : (
+                        <Input
+                          value={option.name}
+                          onChange={(e) =>
+                            updateOption(index, {
+                              ...option,
+                              name: e.target.value,
+                            })
+                          }
+                          placeholder="Option name (e.g., Material)"
+                          className="h-7 text-sm font-semibold w-[180px]"
+                        />
+                      )}
+                      <Badge
+                        variant="outline"
+                        className="text-[10px] font-normal h-5"
                       >
-                        <X className="h-3 w-3" />
-                      </button>
-                    </Badge>
-                  ))}
-                </div>
-              ) : (
-                <p className="text-[12px] text-muted-foreground italic pl-1">
-                  No sizes added yet. Paste a list (e.g. S,M,L) or use Quick
-                  Add.
-                </p>
-              )}
-            </div>
+                        {option.values.length} added
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {option.values.length > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            updateOption(index, { ...option, values: [] })
+                          }
+                          className="h-6 text-[10px] text-muted-foreground hover:text-destructive px-2"
+                        >
+                          Clear All
+                        </Button>
+                      )}
+                      {presets && (
+                        <Select
+                          onValueChange={(val) =>
+                            addValues(index, val.split(","))
+                          }
+                        >
+                          <SelectTrigger className="h-7 text-[10px] w-[110px] border-dashed">
+                            <SelectValue placeholder="Quick Add..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {presets.map((preset) => (
+                              <SelectItem
+                                key={preset.values}
+                                value={preset.values}
+                              >
+                                {preset.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      {!isProductOption && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleRemoveOption(index)}
+                          className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                          title="Remove option"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
 
-            {/* Colors Section */}
-            <div className="space-y-3 bg-muted/20 p-4 rounded-lg border">
-              <div className="flex items-center justify-between">
-                <Label
-                  htmlFor="colors"
-                  className="text-sm font-semibold flex items-center gap-2"
-                >
-                  Colors
-                  <Badge
-                    variant="outline"
-                    className="text-[10px] font-normal h-5"
-                  >
-                    {colors.length} added
-                  </Badge>
-                </Label>
-                <div className="flex items-center gap-2">
-                  {colors.length > 0 && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => setColors([])}
-                      className="h-6 text-[10px] text-muted-foreground hover:text-destructive px-2"
+                  <Input
+                    id={`option-${index}`}
+                    value={input}
+                    onPaste={(e) => {
+                      e.preventDefault();
+                      const pasted = e.clipboardData.getData("text");
+                      if (!pasted) return;
+                      addValues(index, pasted.split(/[\n,]+/)); // Split by comma or newline
+                    }}
+                    onChange={(e) => {
+                      const val = e.target.value;
+                      if (val.includes(",")) {
+                        const parts = val.split(",");
+                        const lastPart = parts.pop() || "";
+                        addValues(index, parts);
+                        setValueInput(index, lastPart.trimStart());
+                      } else {
+                        setValueInput(index, val);
+                      }
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" && input.trim()) {
+                        e.preventDefault();
+                        addValues(index, [input]);
+                        setValueInput(index, "");
+                      }
+                    }}
+                    placeholder="Type a value and press Enter. Paste comma-separated lists supported."
+                    className="h-10 bg-background"
+                  />
+
+                  {option.values.length > 0 ? (
+                    <div className="flex flex-wrap gap-1.5 min-h-6">
+                      {option.values.map((value) => (
+                        <Badge
+                          key={value}
+                          variant="secondary"
+                          className="gap-1 pl-2.5 pr-1 py-0.5 text-sm"
+                        >
+                          {value}
+                          <button
+                            type="button"
+                            onClick={() =>
+                              updateOption(index, {
+                                ...option,
+                                values: option.values.filter(
+                                  (v) => v !== value,
+                                ),
+                              })
+                            }
+                            className="ml-1 ring-offset-background rounded-full outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 hover:bg-destructive hover:text-destructive-foreground transition-colors p-0.5"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <p
+                      className={
+                        isProductOption
+                          ? "text-[12px] text-destructive italic pl-1"
+                          : "text-[12px] text-muted-foreground italic pl-1"
+                      }
                     >
-                      Clear All
-                    </Button>
+                      {isProductOption
+                        ? "Every variant needs a value for this option."
+                        : "No values added yet. Paste a list or use Quick Add."}
+                    </p>
                   )}
-                  <Select
-                    onValueChange={(val) => {
-                      const newColors = val.split(",");
-                      const combined = [...new Set([...colors, ...newColors])];
-                      setColors(combined);
-                    }}
-                  >
-                    <SelectTrigger className="h-7 text-[10px] w-[110px] border-dashed">
-                      <SelectValue placeholder="Quick Add..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="Black,White,Grey,Navy">
-                        Basics
-                      </SelectItem>
-                      <SelectItem value="Red,Blue,Green,Yellow">
-                        Primary
-                      </SelectItem>
-                      <SelectItem value="Pastel Pink,Pastel Blue,Mint,Cream">
-                        Pastels
-                      </SelectItem>
-                    </SelectContent>
-                  </Select>
                 </div>
-              </div>
+              );
+            })}
 
-              <Input
-                id="colors"
-                value={colorInput}
-                onPaste={(e) => {
-                  e.preventDefault();
-                  const pasted = e.clipboardData.getData("text");
-                  if (!pasted) return;
-                  const newItems = pasted
-                    .split(/[\n,]+/)
-                    .map((s) => s.trim())
-                    .filter((s) => s !== "" && !colors.includes(s));
-
-                  if (newItems.length > 0) {
-                    setColors([...colors, ...newItems]);
-                  }
-                }}
-                onChange={(e) => {
-                  const val = e.target.value;
-                  if (val.includes(",")) {
-                    const parts = val.split(",").map((s) => s.trim());
-                    const lastPart = parts.pop() || "";
-                    const newItems = parts.filter(
-                      (p) => p !== "" && !colors.includes(p),
-                    );
-                    if (newItems.length > 0) {
-                      setColors([...colors, ...newItems]);
-                    }
-                    setColorInput(lastPart);
-                  } else {
-                    setColorInput(val);
-                  }
-                }}
-                onKeyDown={(e) => {
-                  if (e.key === "Enter" && colorInput.trim()) {
-                    e.preventDefault();
-                    if (!colors.includes(colorInput.trim())) {
-                      setColors([...colors, colorInput.trim()]);
-                    }
-                    setColorInput("");
-                  }
-                }}
-                placeholder="Type color and press Enter. Paste supported."
-                className="h-10 bg-background"
-              />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAddOption}
+              className="w-full border-dashed"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Option
+            </Button>
 
-              {colors.length > 0 ? (
-                <div className="flex flex-wrap gap-1.5 min-h-6">
-                  {colors.map((color) => (
-                    <Badge
-                      key={color}
-                      variant="secondary"
-                      className="gap-1 pl-2.5 pr-1 py-0.5 text-sm"
-                    >
-                      {color}
-                      <button
-                        type="button"
-                        onClick={() => handleRemoveColor(color)}
-                        className="ml-1 ring-offset-background rounded-full outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 hover:bg-destructive hover:text-destructive-foreground transition-colors p-0.5"
-                      >
-                        <X className="h-3 w-3" />
-                      </button>
-                    </Badge>
-                  ))}
-                </div>
-              ) : (
-                <p className="text-[12px] text-muted-foreground italic pl-1">
-                  No colors added yet.
-                </p>
-              )}
-            </div>
+            {duplicateNames.length > 0 && (
+              <p className="text-xs text-destructive">
+                There is more than one &quot;{duplicateNames[0].name}&quot;
+                option.
+              </p>
+            )}
 
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2.5">
@@ -558,6 +559,7 @@ export function BulkVariantGenerator({
                 value={skuTemplate}
                 onChange={setSkuTemplate}
                 productSlug={productSlug}
+                options={usedOptions}
               />
             </div>
           </div>
@@ -569,6 +571,11 @@ export function BulkVariantGenerator({
                 Preview ({previewVariants.length} variant
                 {previewVariants.length !== 1 ? "s" : ""})
               </Label>
+              {previewVariants.length > newVariants.length && (
+                <Badge variant="secondary" className="text-xs px-2 py-0.5">
+                  {previewVariants.length - newVariants.length} already exist
+                </Badge>
+              )}
               {skuConflicts.length > 0 && (
                 <Badge variant="destructive" className="text-xs px-2 py-0.5">
                   {skuConflicts.length} SKU conflict
@@ -581,8 +588,7 @@ export function BulkVariantGenerator({
                 <TableHeader className="bg-muted/50 sticky top-0">
                   <TableRow className="hover:bg-muted/50">
                     <TableHead className="font-semibold">SKU</TableHead>
-                    <TableHead className="font-semibold">Size</TableHead>
-                    <TableHead className="font-semibold">Color</TableHead>
+                    <TableHead className="font-semibold">Options</TableHead>
                     <TableHead className="text-right font-semibold">
                       Price
                     </TableHead>
@@ -594,10 +600,10 @@ export function BulkVariantGenerator({
                 <TableBody>
                   {previewVariants.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={5} className="h-32 text-center">
+                      <TableCell colSpan={4} className="h-32 text-center">
                         <div className="text-muted-foreground">
                           <p className="text-sm">
-                            Add sizes and/or colors to preview variants
+                            Add option values to preview variants
                           </p>
                           <p className="text-xs mt-1">
                             All combinations will be shown here
@@ -607,32 +613,43 @@ export function BulkVariantGenerator({
                     </TableRow>
                   ) : (
                     previewVariants.map((variant, index) => {
-                      const hasConflict = existingSkus.has(variant.sku);
+                      const exists = existingCombinations.has(
+                        variantOptionsKey(variant.options),
+                      );
+                      const hasConflict =
+                        !exists && existingSkus.has(variant.sku);
                       return (
                         <TableRow
                           key={index}
                           className={
                             hasConflict
                               ? "bg-destructive/10 hover:bg-destructive/15"
-                              : "hover:bg-muted/30"
+                              : exists
+                                ? "opacity-50"
+                                : "hover:bg-muted/30"
                           }
                         >
                           <TableCell className="font-mono text-sm">
                             {variant.sku}
+                            {exists && (
+                              <Badge
+                                variant="secondary"
+                                className="ml-2 text-[10px] px-1.5 py-0"
+                              >
+                                Exists
+                              </Badge>
+                            )}
                             {hasConflict && (
                               <Badge
                                 variant="destructive"
                                 className="ml-2 text-[10px] px-1.5 py-0"
                               >
-                                Exists
+                                SKU taken
                               </Badge>
                             )}
                           </TableCell>
                           <TableCell className="text-sm">
-                            {variant.size || "—"}
-                          </TableCell>
-                          <TableCell className="text-sm">
-                            {variant.color || "—"}
+                            {formatVariantOptions(variant.options) || "—"}
                           </TableCell>
                           <TableCell className="text-right text-sm font-medium">
                             ৳{variant.price.toLocaleString()}
@@ -668,7 +685,7 @@ export function BulkVariantGenerator({
             {isGenerating && <Loader2 className="mr-2 h-5 w-5 animate-spin" />}
             {isGenerating
               ? "Generating..."
-              : `Generate ${previewVariants.length} Variant${previewVariants.length !== 1 ? "s" : ""}`}
+              : `Generate ${newVariants.length} Variant${newVariants.length !== 1 ? "s" : ""}`}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -1,6 +1,6 @@
 // src/components/admin/ProductForm/variants/SkuTemplateConfig.tsx
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
@@ -19,12 +19,18 @@ import {
 } from "@/components/ui/select";
 import { Info, Plus, Settings2 } from "lucide-react";
 import { SKU_VARIABLES } from "./types";
-import { validateSkuTemplate, getSkuExample } from "./utils/skuGenerator";
+import type { OptionDefinition, SkuVariable } from "./types";
+import {
+  validateSkuTemplate,
+  getSkuExample,
+  optionPlaceholder,
+} from "./utils/skuGenerator";
 
 interface SkuTemplateConfigProps {
   value: string;
   onChange: (template: string) => void;
   productSlug?: string;
+  options?: OptionDefinition[];
   className?: string;
 }
 
@@ -32,18 +38,45 @@ export function SkuTemplateConfig({
   value,
   onChange,
   productSlug,
+  options = [],
   className,
 }: SkuTemplateConfigProps) {
   const [template, setTemplate] = useState(value);
   const [example, setExample] = useState("");
   const [error, setError] = useState<string | null>(null);
 
+  // The fixed variables plus one per option, e.g. {SIZE}
+  const variables = useMemo<SkuVariable[]>(
+    () => [
+      ...SKU_VARIABLES,
+      ...options
+        .filter((option) => option.name)
+        .map((option) => {
+          const placeholder = optionPlaceholder(option.name);
+          return {
+            name: placeholder.slice(1, -1),
+            placeholder,
+            example: option.values[0] || option.name,
+          };
+        }),
+    ],
+    [options],
+  );
+
+  const exampleOptions = useMemo(() => {
+    const named = options.filter((option) => option.name);
+    if (named.length === 0) return undefined;
+    return Object.fromEntries(
+      named.map((option) => [option.name, option.values[0] || option.name]),
+    );
+  }, [options]);
+
   // Update example whenever template or product slug changes
   useEffect(() => {
     if (template) {
       const validation = validateSkuTemplate(template);
       if (validation.valid) {
-        setExample(getSkuExample(template, productSlug));
+        setExample(getSkuExample(template, productSlug, exampleOptions));
         setError(null);
       } else {
         setError(validation.error || null);
@@ -53,7 +86,7 @@ export function SkuTemplateConfig({
       setExample("");
       setError(null);
     }
-  }, [template, productSlug]);
+  }, [template, productSlug, exampleOptions]);
 
   const handleTemplateChange = (newTemplate: string) => {
     setTemplate(newTemplate);
@@ -83,7 +116,7 @@ export function SkuTemplateConfig({
                   Use these variables to auto-generate SKUs for bulk variants:
                 </p>
                 <div className="space-y-1">
-                  {SKU_VARIABLES.map((variable) => (
+                  {variables.map((variable) => (
                     <div key={variable.name} className="text-xs">
                       <code className="bg-muted px-1 py-0.5 rounded">
                         {variable.placeholder}
@@ -106,15 +139,9 @@ export function SkuTemplateConfig({
             <SelectValue placeholder="Presets" />
           </SelectTrigger>
           <SelectContent align="end">
-            <SelectItem value="{SLUG}-{SIZE}-{COLOR}">
-              Slug-Size-Color
-            </SelectItem>
-            <SelectItem value="{SLUG}-{COLOR}-{SIZE}">
-              Slug-Color-Size
-            </SelectItem>
-            <SelectItem value="{RANDOM}-{SIZE}-{COLOR}">
-              Random-Size-Color
-            </SelectItem>
+            <SelectItem value="{SLUG}-{OPTIONS}">Slug-Options</SelectItem>
+            <SelectItem value="{RANDOM}-{OPTIONS}">Random-Options</SelectItem>
+            <SelectItem value="{SLUG}-{INDEX}">Slug-Index</SelectItem>
             <SelectItem value="SKU-{RANDOM}">Simple Random</SelectItem>
           </SelectContent>
         </Select>
@@ -126,13 +153,13 @@ export function SkuTemplateConfig({
             id="sku-template"
             value={template}
             onChange={(e) => handleTemplateChange(e.target.value)}
-            placeholder="{SLUG}-{SIZE}-{COLOR}"
+            placeholder="{SLUG}-{OPTIONS}"
             className="font-mono text-sm"
           />
         </div>
 
         <div className="flex flex-wrap gap-1">
-          {SKU_VARIABLES.map((variable) => (
+          {variables.map((variable) => (
             <Button
               key={variable.name}
               type="button"
@@ -0,0 +1,203 @@
+// src/components/admin/ProductForm/variants/StockHistoryDialog.tsx
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import type { StockMovement } from "@/db/schema";
+import type { ProductVariant } from "./types";
+
+interface StockHistoryDialogProps {
+  productId: string;
+  variant: ProductVariant | null;
+  onClose: () => void;
+}
+
+interface StockHistory {
+  stock: number;
+  ledgerStock: number;
+  movements: (StockMovement & { balanceAfter: number })[];
+}
+
+const REASON_LABELS: Record<string, string> = {
+  sale: "Sale",
+  cancel: "Cancelled",
+  return: "Return",
+  manual: "Manual",
+  import: "Import",
+};
+
+export function StockHistoryDialog({
+  productId,
+  variant,
+  onClose,
+}: StockHistoryDialogProps) {
+  const { toast } = useToast();
+  const [history, setHistory] = useState<StockHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (variant) {
+      fetchHistory(variant.id);
+    } else {
+      setHistory(null);
+    }
+  }, [variant?.id, productId]);
+
+  const fetchHistory = async (variantId: string) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(
+        `/api/products/${productId}/variants/${variantId}/stock-movements`,
+      );
+      if (!response.ok) {
+        throw new Error("Failed to load inventory history");
+      }
+      setHistory(await response.json());
+    } catch (error) {
+      console.error("Failed to fetch stock history:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load inventory history",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const difference = history ? history.stock - history.ledgerStock : 0;
+
+  return (
+    <Dialog open={!!variant} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Inventory History</DialogTitle>
+          <DialogDescription>
+            Every stock change of{" "}
+            <span className="font-mono">{variant?.sku}</span>, newest first.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !history ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-3 overflow-hidden flex flex-col">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground bg-muted/40 px-3 py-1.5 rounded-md border">
+              <span>
+                Stock:{" "}
+                <span className="font-medium text-foreground">
+                  {history.stock}
+                </span>
+              </span>
+              <span className="text-muted-foreground/30">|</span>
+              <span>
+                Ledger total:{" "}
+                <span className="font-medium text-foreground">
+                  {history.ledgerStock}
+                </span>
+              </span>
+              {difference !== 0 && (
+                <span className="flex items-center gap-1 font-medium text-amber-600 dark:text-amber-500 bg-amber-100 dark:bg-amber-900/30 px-1.5 py-0.5 rounded">
+                  <AlertTriangle className="h-3 w-3" />
+                  Stock is {Math.abs(difference)}{" "}
+                  {difference > 0 ? "above" : "below"} the ledger
+                </span>
+              )}
+            </div>
+
+            {history.movements.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                No stock movements recorded yet.
+              </p>
+            ) : (
+              <div className="rounded-lg border overflow-auto">
+                <Table>
+                  <TableHeader className="bg-muted/50">
+                    <TableRow>
+                      <TableHead className="text-xs">Date</TableHead>
+                      <TableHead className="text-xs">Reason</TableHead>
+                      <TableHead className="text-xs text-right">
+                        Change
+                      </TableHead>
+                      <TableHead className="text-xs text-right">
+                        Balance
+                      </TableHead>
+                      <TableHead className="text-xs">Order</TableHead>
+                      <TableHead className="text-xs">Note</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {history.movements.map((movement) => (
+                      <TableRow key={movement.id}>
+                        <TableCell className="text-xs whitespace-nowrap text-muted-foreground">
+                          {new Date(movement.createdAt).toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="secondary"
+                            className="text-[10px] px-1.5 py-0"
+                          >
+                            {REASON_LABELS[movement.reason] || movement.reason}
+                          </Badge>
+                        </TableCell>
+                        <TableCell
+                          className={cn(
+                            "text-sm text-right font-medium tabular-nums",
+                            movement.delta > 0
+                              ? "text-green-600"
+                              : "text-destructive",
+                          )}
+                        >
+                          {movement.delta > 0
+                            ? `+${movement.delta}`
+                            : movement.delta}
+                        </TableCell>
+                        <TableCell className="text-sm text-right tabular-nums">
+                          {movement.balanceAfter}
+                        </TableCell>
+                        <TableCell className="text-xs font-mono">
+                          {movement.orderId ? (
+                            <a
+                              href={`/admin/orders/${movement.orderId}`}
+                              className="underline underline-offset-2 hover:text-primary"
+                            >
+                              {movement.orderId}
+                            </a>
+                          ) : (
+                            "—"
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {movement.note || "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
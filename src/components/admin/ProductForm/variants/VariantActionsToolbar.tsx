@@ -17,6 +17,7 @@ import { VariantImportExport } from "./VariantImportExport";
 import type {
   ProductVariant,
   BulkGeneratedVariant,
+  OptionDefinition,
   SortField,
   SortOrder,
 } from "./types";
@@ -24,6 +25,7 @@ import type {
 interface VariantActionsToolbarProps {
   productSlug?: string;
   variants: ProductVariant[];
+  options: OptionDefinition[];
   selectedCount: number;
   searchTerm: string;
   onSearchChange: (term: string) => void;
@@ -40,6 +42,7 @@ interface VariantActionsToolbarProps {
 export function VariantActionsToolbar({
   productSlug,
   variants,
+  options,
   selectedCount,
   searchTerm,
   onSearchChange,
@@ -58,8 +61,7 @@ export function VariantActionsToolbar({
     { label: "SKU", field: "sku" },
     { label: "Price", field: "price" },
     { label: "Stock", field: "stock" },
-    { label: "Size", field: "size" },
-    { label: "Color", field: "color" },
+    { label: "Options", field: "options" },
     { label: "Created Date", field: "createdAt" },
     { label: "Updated Date", field: "updatedAt" },
   ];
@@ -81,7 +83,7 @@ export function VariantActionsToolbar({
           <div className="relative flex-1 max-w-sm">
             <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
             <Input
-              placeholder="Search variants (SKU, size, color)..."
+              placeholder="Search variants (SKU, option values)..."
               value={searchTerm}
               onChange={(e) => onSearchChange(e.target.value)}
               className="pl-9"
@@ -128,6 +130,7 @@ export function VariantActionsToolbar({
 
           <VariantImportExport
             variants={variants}
+            options={options}
             existingSkus={variants.map((v) => v.sku)}
             onImport={onImport}
             disabled={disabled}
@@ -136,6 +139,7 @@ export function VariantActionsToolbar({
           <BulkVariantGenerator
             productSlug={productSlug}
             existingVariants={variants}
+            options={options}
             onGenerate={onBulkGenerate}
             disabled={disabled}
           />
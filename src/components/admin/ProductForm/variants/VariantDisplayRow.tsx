@@ -4,8 +4,8 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { TableCell, TableRow } from "@/components/ui/table";
-import { Pencil, Trash2, Copy } from "lucide-react";
-import type { ProductVariant } from "./types";
+import { Pencil, Trash2, Copy, History, ImageIcon } from "lucide-react";
+import type { OptionDefinition, ProductVariant } from "./types";
 import {
   formatDate,
   getDiscountDisplay,
@@ -15,21 +15,27 @@ import {
 
 interface VariantDisplayRowProps {
   variant: ProductVariant;
+  options: OptionDefinition[];
   isSelected: boolean;
   onToggleSelection: (id: string) => void;
   onEdit: (id: string) => void;
   onDelete: (id: string) => void;
   onDuplicate: (id: string) => void;
+  onShowHistory: (id: string) => void;
+  onManageImages: (id: string) => void;
   isAnyRowEditing: boolean;
 }
 
 export function VariantDisplayRow({
   variant,
+  options,
   isSelected,
   onToggleSelection,
   onEdit,
   onDelete,
   onDuplicate,
+  onShowHistory,
+  onManageImages,
   isAnyRowEditing,
 }: VariantDisplayRowProps) {
   const stockStatus = getStockStatus(variant.stock);
@@ -59,9 +65,11 @@ export function VariantDisplayRow({
         )}
       </TableCell>
 
-      <TableCell className="text-sm">{variant.size || "—"}</TableCell>
-
-      <TableCell className="text-sm">{variant.color || "—"}</TableCell>
+      {options.map((option) => (
+        <TableCell key={option.name} className="text-sm">
+          {variant.options[option.name] || "—"}
+        </TableCell>
+      ))}
 
       <TableCell className="text-sm">{variant.weight ? `${variant.weight}g` : "—"}</TableCell>
 
@@ -91,6 +99,26 @@ export function VariantDisplayRow({
 
       <TableCell className="text-right">
         <div className="flex items-center justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onShowHistory(variant.id)}
+            aria-label={`Inventory history of variant ${variant.sku}`}
+            title="Inventory history"
+          >
+            <History className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onManageImages(variant.id)}
+            aria-label={`Images of variant ${variant.sku}`}
+            title="Images"
+          >
+            <ImageIcon className="h-4 w-4" />
+          </Button>
           <Button
             variant="ghost"
             size="icon"
@@ -1,5 +1,6 @@
 // src/components/admin/ProductForm/variants/VariantFormRow.tsx
 
+import { useState } from "react";
 import { useForm, type SubmitHandler } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Button } from "@/components/ui/button";
@@ -14,10 +15,17 @@ import {
 import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
 import { TableCell, TableRow } from "@/components/ui/table";
 import { Loader2, X, Save } from "lucide-react";
-import { variantFormSchema, type VariantFormValues, type ProductVariant } from "./types";
+import { checkVariantOptions } from "@/lib/catalog/variant-options";
+import {
+  variantFormSchema,
+  type VariantFormValues,
+  type OptionDefinition,
+} from "./types";
 
 interface VariantFormRowProps {
-  initialData?: ProductVariant;
+  // An existing variant when editing, or prefilled values for a new one
+  initialData?: VariantFormValues;
+  options: OptionDefinition[];
   onSave: (values: VariantFormValues) => Promise<boolean>;
   onCancel: () => void;
   isSubmitting: boolean;
@@ -25,17 +33,18 @@ interface VariantFormRowProps {
 
 export function VariantFormRow({
   initialData,
+  options,
   onSave,
   onCancel,
   isSubmitting,
 }: VariantFormRowProps) {
   const isEditMode = !!initialData?.id;
+  const [optionsError, setOptionsError] = useState<string | null>(null);
 
   const form = useForm<VariantFormValues>({
     resolver: zodResolver(variantFormSchema),
     defaultValues: initialData || {
-      size: "",
-      color: "",
+      options: {},
       weight: null,
       sku: "",
       price: 0,
@@ -47,6 +56,10 @@ export function VariantFormRow({
   });
 
   const handleSubmit: SubmitHandler<VariantFormValues> = async (values) => {
+    const optionsError = checkVariantOptions(options, values.options);
+    setOptionsError(optionsError);
+    if (optionsError) return;
+
     const success = await onSave(values);
     if (success) {
       form.reset();
@@ -54,6 +67,7 @@ export function VariantFormRow({
   };
 
   const discountType = form.watch("discountType");
+  const selectedOptions = form.watch("options");
 
   return (
     <TableRow className="bg-primary/5 border-l-4 border-l-primary hover:bg-primary/5 shadow-sm">
@@ -80,45 +94,36 @@ export function VariantFormRow({
           />
         </TableCell>
 
-        <TableCell className="p-2 align-top">
-          <FormField
-            control={form.control}
-            name="size"
-            render={({ field }) => (
-              <FormItem>
-                <FormControl>
-                  <Input
-                    placeholder="XL"
-                    {...field}
-                    value={field.value ?? ""}
-                    className="h-9"
-                  />
-                </FormControl>
-                <FormMessage className="text-xs px-1" />
-              </FormItem>
-            )}
-          />
-        </TableCell>
-
-        <TableCell className="p-2 align-top">
-          <FormField
-            control={form.control}
-            name="color"
-            render={({ field }) => (
-              <FormItem>
-                <FormControl>
-                  <Input
-                    placeholder="Red"
-                    {...field}
-                    value={field.value ?? ""}
-                    className="h-9"
-                  />
-                </FormControl>
-                <FormMessage className="text-xs px-1" />
-              </FormItem>
+        {options.map((option, index) => (
+          <TableCell key={option.name} className="p-2 align-top">
+            <Select
+              value={selectedOptions[option.name] ?? ""}
+              onValueChange={(value) => {
+                form.setValue("options", {
+                  ...selectedOptions,
+                  [option.name]: value,
+                });
+                setOptionsError(null);
+              }}
+            >
+              <SelectTrigger className="h-9" aria-label={option.name}>
+                <SelectValue placeholder={option.name} />
+              </SelectTrigger>
+              <SelectContent>
+                {option.values.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {index === 0 && optionsError && (
+              <p className="text-xs px-1 pt-1 font-medium text-destructive">
+                {optionsError}
+              </p>
             )}
-          />
-        </TableCell>
+          </TableCell>
+        ))}
 
         <TableCell className="p-2 align-top">
           <FormField
@@ -0,0 +1,227 @@
+// src/components/admin/ProductForm/variants/VariantImagesDialog.tsx
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Check, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { getOptimizedImageUrl } from "@/lib/image-optimizer";
+import type { VariantImageLink } from "@/lib/catalog/variant-images";
+import type { ProductOptionDetails, ProductVariant } from "./types";
+
+interface VariantImagesDialogProps {
+  productId: string;
+  variant: ProductVariant | null;
+  options: ProductOptionDetails[];
+  onClose: () => void;
+}
+
+interface SavedImage {
+  id: string;
+  url: string;
+  alt: string | null;
+}
+
+export function VariantImagesDialog({
+  productId,
+  variant,
+  options,
+  onClose,
+}: VariantImagesDialogProps) {
+  const { toast } = useToast();
+  const [images, setImages] = useState<SavedImage[]>([]);
+  const [links, setLinks] = useState<VariantImageLink[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (variant) {
+      fetchImages(variant.id);
+    } else {
+      setImages([]);
+      setLinks([]);
+    }
+  }, [variant?.id, productId]);
+
+  const fetchImages = async (variantId: string) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/products/${productId}/variant-images`);
+      if (!response.ok) {
+        throw new Error("Failed to load images");
+      }
+      const result = await response.json();
+      setImages(result.images);
+      setLinks(result.links);
+      setSelectedIds(
+        result.links
+          .filter((link: VariantImageLink) => link.variantId === variantId)
+          .map((link: VariantImageLink) => link.imageId),
+      );
+    } catch (error) {
+      console.error("Failed to fetch variant images:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load images",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Option values of this variant that images are linked to, by image id
+  const optionLabels = (imageId: string) => {
+    if (!variant) return [];
+    return options.flatMap((option) =>
+      option.values
+        .filter(
+          (v) =>
+            variant.options[option.name] === v.value &&
+            links.some(
+              (link) => link.imageId === imageId && link.optionValueId === v.id,
+            ),
+        )
+        .map((v) => `${option.name}: ${v.value}`),
+    );
+  };
+
+  const toggleImage = (imageId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(imageId)
+        ? prev.filter((id) => id !== imageId)
+        : [...prev, imageId],
+    );
+  };
+
+  const handleSave = async () => {
+    if (!variant) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        `/api/products/${productId}/variants/${variant.id}/images`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ imageIds: selectedIds }),
+        },
+      );
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update variant images");
+      }
+
+      toast({
+        title: "Success",
+        description: "Variant images updated successfully",
+      });
+      // Let the product form's gallery show the new links
+      window.dispatchEvent(new CustomEvent("variantImagesChanged"));
+      onClose();
+    } catch (error) {
+      console.error("Failed to save variant images:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to update variant images",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!variant} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Variant Images</DialogTitle>
+          <DialogDescription>
+            Images shown for <span className="font-mono">{variant?.sku}</span>.
+            Those picked here take the place of images it gets through its
+            option values.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : images.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            This product has no saved images yet
+          </div>
+        ) : (
+          <div className="flex-1 overflow-auto pr-2">
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+              {images.map((image) => {
+                const isSelected = selectedIds.includes(image.id);
+                const labels = optionLabels(image.id);
+                return (
+                  <button
+                    key={image.id}
+                    type="button"
+                    onClick={() => toggleImage(image.id)}
+                    className="flex flex-col gap-1 text-left"
+                  >
+                    <div
+                      className={cn(
+                        "relative aspect-square w-full overflow-hidden rounded-md border-2",
+                        isSelected ? "border-primary" : "border-transparent",
+                      )}
+                    >
+                      <img
+                        src={getOptimizedImageUrl(image.url)}
+                        alt={image.alt || ""}
+                        className="h-full w-full object-cover"
+                        loading="lazy"
+                      />
+                      {isSelected && (
+                        <span className="absolute top-1.5 right-1.5 h-5 w-5 rounded-full bg-primary text-primary-foreground flex items-center justify-center">
+                          <Check className="h-3 w-3" />
+                        </span>
+                      )}
+                    </div>
+                    {labels.map((label) => (
+                      <span
+                        key={label}
+                        className="text-[11px] text-muted-foreground truncate"
+                        title={`Shown through ${label}`}
+                      >
+                        via {label}
+                      </span>
+                    ))}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || isLoading}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Images
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
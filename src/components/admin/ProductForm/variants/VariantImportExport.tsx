@@ -29,10 +29,12 @@ import type {
   ProductVariant,
   BulkGeneratedVariant,
   CsvImportResult,
+  OptionDefinition,
 } from "./types";
 
 interface VariantImportExportProps {
   variants: ProductVariant[];
+  options: OptionDefinition[];
   existingSkus: string[];
   onImport: (variants: BulkGeneratedVariant[]) => Promise<void>;
   disabled?: boolean;
@@ -40,6 +42,7 @@ interface VariantImportExportProps {
 
 export function VariantImportExport({
   variants,
+  options,
   // existingSkus,
   onImport,
   disabled,
@@ -52,13 +55,13 @@ export function VariantImportExport({
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleExport = () => {
-    const csv = variantsToCsv(variants);
+    const csv = variantsToCsv(variants, options);
     const timestamp = new Date().toISOString().split("T")[0];
     downloadCsv(csv, `variants-${timestamp}.csv`);
   };
 
   const handleDownloadTemplate = () => {
-    const template = generateCsvTemplate();
+    const template = generateCsvTemplate(options);
     downloadCsv(template, "variant-template.csv");
   };
 
@@ -83,59 +86,25 @@ export function VariantImportExport({
     setIsImporting(true);
     try {
       // Convert CSV rows to BulkGeneratedVariant format
-      const csvLines = (fileInputRef.current?.files?.[0] as File)
-        .text()
-        .then((text) => {
-          const lines = text.trim().split("\n").slice(1); // Skip header
-          const variants: BulkGeneratedVariant[] = [];
+      const variantsToImport: BulkGeneratedVariant[] = importResult.rows.map(
+        (row) => {
+          const discountType = row.discountType || "percentage";
+          const discountValue = row.discountValue ?? null;
+
+          return {
+            sku: row.sku,
+            options: row.options,
+            weight: row.weight ?? null,
+            price: row.price,
+            stock: row.stock,
+            discountType,
+            discountPercentage:
+              discountType === "percentage" ? discountValue : null,
+            discountAmount: discountType === "flat" ? discountValue : null,
+          };
+        },
+      );
 
-          for (const line of lines) {
-            const values = parseCsvLine(line);
-            if (values.length < 6) continue;
-
-            const [
-              sku,
-              size,
-              color,
-              weightStr,
-              priceStr,
-              stockStr,
-              discountType,
-              discountValueStr,
-            ] = values;
-
-            const price = parseFloat(priceStr);
-            const stock = parseInt(stockStr, 10);
-            const weight =
-              weightStr && weightStr.trim() ? parseFloat(weightStr) : null;
-            const parsedDiscountType =
-              discountType?.trim().toLowerCase() === "flat"
-                ? "flat"
-                : "percentage";
-            const discountValue =
-              discountValueStr && discountValueStr.trim()
-                ? parseFloat(discountValueStr)
-                : null;
-
-            variants.push({
-              sku: sku.trim(),
-              size: size?.trim() || null,
-              color: color?.trim() || null,
-              weight,
-              price,
-              stock,
-              discountType: parsedDiscountType,
-              discountPercentage:
-                parsedDiscountType === "percentage" ? discountValue : null,
-              discountAmount:
-                parsedDiscountType === "flat" ? discountValue : null,
-            });
-          }
-
-          return variants;
-        });
-
-      const variantsToImport = await csvLines;
       await onImport(variantsToImport);
 
       setImportDialogOpen(false);
@@ -150,28 +119,6 @@ export function VariantImportExport({
     }
   };
 
-  function parseCsvLine(line: string): string[] {
-    const result: string[] = [];
-    let current = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === "," && !inQuotes) {
-        result.push(current);
-        current = "";
-      } else {
-        current += char;
-      }
-    }
-
-    result.push(current);
-    return result;
-  }
-
   return (
     <div className="flex gap-2">
       {/* Export Button */}
@@ -197,8 +144,9 @@ export function VariantImportExport({
           <DialogHeader>
             <DialogTitle>Import Variants from CSV</DialogTitle>
             <DialogDescription>
-              Upload a CSV file with variant data. Download the template to see
-              the expected format.
+              Upload a CSV file with variant data. Every column other than SKU,
+              weight, price, stock and discount is a variant option. Download
+              the template to see the expected format.
             </DialogDescription>
           </DialogHeader>
 
@@ -19,19 +19,24 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
-import { Loader2, ArrowUpDown } from "lucide-react";
+import { Loader2, ListTree, Scale } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
 import { VariantActionsToolbar } from "./VariantActionsToolbar";
 import { VariantTable } from "./VariantTable";
-import { VariantSortModal } from "./VariantSortModal";
+import { VariantOptionsModal } from "./VariantOptionsModal";
+import { StockHistoryDialog } from "./StockHistoryDialog";
+import { VariantImagesDialog } from "./VariantImagesDialog";
 import { useVariantOperations } from "./hooks/useVariantOperations";
 import {
   filterVariants,
   sortVariants,
   getVariantStats,
+  duplicateVariant,
 } from "./utils/variantHelpers";
 import type {
   ProductVariant,
+  ProductOptionDetails,
   VariantFormValues,
   BulkGeneratedVariant,
   VariantFilters,
@@ -42,18 +47,25 @@ interface VariantManagerProps {
   productId: string;
   productSlug?: string;
   variants: ProductVariant[];
+  options: ProductOptionDetails[];
 }
 
 export function VariantManager({
   productId,
   productSlug,
   variants,
+  options,
 }: VariantManagerProps) {
   const [localVariants, setLocalVariants] =
     useState<ProductVariant[]>(variants);
+  const [localOptions, setLocalOptions] =
+    useState<ProductOptionDetails[]>(options);
 
   // UI State
   const [isAdding, setIsAdding] = useState(false);
+  const [addingInitialData, setAddingInitialData] = useState<
+    VariantFormValues | undefined
+  >(undefined);
   const [editingVariantId, setEditingVariantId] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [selectedVariants, setSelectedVariants] = useState<Set<string>>(
@@ -63,23 +75,27 @@ export function VariantManager({
   // Filter and Sort State
   const [searchTerm, setSearchTerm] = useState("");
   const [sort, setSort] = useState<VariantSort>({
-    field: "size",
-    order: "desc",
+    field: "options",
+    order: "asc",
   });
 
   // Dialog State
   const [variantToDelete, setVariantToDelete] = useState<string | null>(null);
   const [isBulkDeleteDialogOpen, setIsBulkDeleteDialogOpen] = useState(false);
-  const [isSortModalOpen, setIsSortModalOpen] = useState(false);
+  const [isOptionsModalOpen, setIsOptionsModalOpen] = useState(false);
+  const [historyVariantId, setHistoryVariantId] = useState<string | null>(null);
+  const [imagesVariantId, setImagesVariantId] = useState<string | null>(null);
+  const [isCheckingLedger, setIsCheckingLedger] = useState(false);
 
   // Hooks
+  const { toast } = useToast();
   const {
     createVariant,
     updateVariant,
     deleteVariant,
     bulkDeleteVariants,
     bulkCreateVariants,
-    duplicateVariant,
+    fetchVariants,
     isLoading,
   } = useVariantOperations();
 
@@ -94,20 +110,43 @@ export function VariantManager({
     );
   }, [variants]);
 
+  useEffect(() => {
+    setLocalOptions(options);
+  }, [options]);
+
+  const optionDefinitions = useMemo(
+    () =>
+      localOptions.map((option) => ({
+        name: option.name,
+        values: option.values.map((v) => v.value),
+      })),
+    [localOptions],
+  );
+
   // Filter and sort variants
   const filters: VariantFilters = useMemo(
     () => ({
       searchTerm,
-      sizes: [],
-      colors: [],
     }),
     [searchTerm],
   );
 
   const filteredAndSortedVariants = useMemo(() => {
     const filtered = filterVariants(localVariants, filters);
-    return sortVariants(filtered, sort);
-  }, [localVariants, filters, sort]);
+    return sortVariants(filtered, sort, optionDefinitions);
+  }, [localVariants, filters, sort, optionDefinitions]);
+
+  // Reload variants and options after changes that can touch both, e.g.
+  // bulk creation adding option values or an option rename
+  const refreshVariants = async () => {
+    const result = await fetchVariants(productId);
+    if (result) {
+      setLocalVariants(result.variants);
+      setLocalOptions(result.options);
+    }
+    // Dispatch event to notify ProductForm about variant change
+    window.dispatchEvent(new CustomEvent("variantChanged"));
+  };
 
   // Variant statistics
   const stats = useMemo(() => getVariantStats(localVariants), [localVariants]);
@@ -140,6 +179,7 @@ export function VariantManager({
         if (savedVariant) {
           setLocalVariants((prev) => [...prev, savedVariant]);
           setIsAdding(false);
+          setAddingInitialData(undefined);
           // Dispatch event to notify ProductForm about variant change
           window.dispatchEvent(new CustomEvent("variantChanged"));
           return true;
@@ -154,6 +194,14 @@ export function VariantManager({
   // Cancel add/edit
   const handleCancelEdit = () => {
     setIsAdding(false);
+    setAddingInitialData(undefined);
+    setEditingVariantId(null);
+  };
+
+  // Start adding a variant, optionally prefilled
+  const handleAddVariant = (initialData?: VariantFormValues) => {
+    setAddingInitialData(initialData);
+    setIsAdding(true);
     setEditingVariantId(null);
   };
 
@@ -209,13 +257,12 @@ export function VariantManager({
     setIsBulkDeleteDialogOpen(false);
   };
 
-  // Duplicate variant
-  const handleDuplicate = async (id: string) => {
-    const duplicated = await duplicateVariant(productId, id);
-    if (duplicated) {
-      setLocalVariants((prev) => [...prev, duplicated]);
-      // Dispatch event to notify ProductForm about variant change
-      window.dispatchEvent(new CustomEvent("variantChanged"));
+  // Duplicate variant: open a new row with its values, as no two variants
+  // can have the same options the admin picks different ones before saving
+  const handleDuplicate = (id: string) => {
+    const variant = localVariants.find((v) => v.id === id);
+    if (variant) {
+      handleAddVariant(duplicateVariant(variant));
     }
   };
 
@@ -225,19 +272,19 @@ export function VariantManager({
   ) => {
     const created = await bulkCreateVariants(productId, generatedVariants);
     if (created.length > 0) {
-      setLocalVariants((prev) => [...prev, ...created]);
-      // Dispatch event to notify ProductForm about variant change
-      window.dispatchEvent(new CustomEvent("variantChanged"));
+      await refreshVariants();
     }
   };
 
   // Import variants from CSV
   const handleImport = async (importedVariants: BulkGeneratedVariant[]) => {
-    const created = await bulkCreateVariants(productId, importedVariants);
+    const created = await bulkCreateVariants(
+      productId,
+      importedVariants,
+      "import",
+    );
     if (created.length > 0) {
-      setLocalVariants((prev) => [...prev, ...created]);
-      // Dispatch event to notify ProductForm about variant change
-      window.dispatchEvent(new CustomEvent("variantChanged"));
+      await refreshVariants();
     }
   };
 
@@ -261,10 +308,53 @@ export function VariantManager({
 
   const isAnyRowEditing = isAdding || !!editingVariantId;
 
-  // Handle sort update
-  const handleSortUpdated = () => {
-    // Trigger variant refresh to get updated order
-    window.dispatchEvent(new CustomEvent("variantChanged"));
+  // Recompute stock from the ledger and report variants that disagree
+  const handleCheckLedger = async () => {
+    setIsCheckingLedger(true);
+    try {
+      const response = await fetch(
+        `/api/products/${productId}/stock-reconciliation`,
+      );
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to check the stock ledger");
+      }
+
+      if (result.consistent) {
+        toast({
+          title: "Stock matches the ledger",
+          description: "Every variant's stock equals its recorded movements.",
+        });
+      } else {
+        toast({
+          title: `${result.mismatches.length} variant${result.mismatches.length !== 1 ? "s" : ""} differ from the ledger`,
+          description: result.mismatches
+            .map(
+              (m: { sku: string; stock: number; ledgerStock: number }) =>
+                `${m.sku}: stock ${m.stock}, ledger ${m.ledgerStock}`,
+            )
+            .join("; "),
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to check the stock ledger",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCheckingLedger(false);
+    }
+  };
+
+  // Renamed options and values are renamed on the variants too
+  const handleOptionsSaved = async (saved: ProductOptionDetails[]) => {
+    setLocalOptions(saved);
+    await refreshVariants();
   };
 
   return (
@@ -282,7 +372,7 @@ export function VariantManager({
                 )}
               </CardTitle>
               <CardDescription className="text-xs">
-                Manage size, color, and inventory.
+                Manage options, pricing, and inventory.
               </CardDescription>
             </div>
 
@@ -321,16 +411,32 @@ export function VariantManager({
                 </div>
               )}
 
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsOptionsModalOpen(true)}
+                disabled={isAnyRowEditing}
+                className="h-8 text-xs gap-2 ml-auto sm:ml-0"
+              >
+                <ListTree className="h-3.5 w-3.5" />
+                Options
+              </Button>
+
               {stats.total > 0 && (
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setIsSortModalOpen(true)}
-                  disabled={isAnyRowEditing}
-                  className="h-8 text-xs gap-2 ml-auto sm:ml-0"
+                  onClick={handleCheckLedger}
+                  disabled={isCheckingLedger}
+                  className="h-8 text-xs gap-2"
+                  title="Recompute stock from the inventory ledger"
                 >
-                  <ArrowUpDown className="h-3.5 w-3.5" />
-                  Reorder Values
+                  {isCheckingLedger ? (
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                  ) : (
+                    <Scale className="h-3.5 w-3.5" />
+                  )}
+                  Check Ledger
                 </Button>
               )}
             </div>
@@ -341,16 +447,14 @@ export function VariantManager({
           <VariantActionsToolbar
             productSlug={productSlug}
             variants={localVariants}
+            options={optionDefinitions}
             selectedCount={selectedVariants.size}
             searchTerm={searchTerm}
             onSearchChange={setSearchTerm}
             sortField={sort.field}
             sortOrder={sort.order}
             onSortChange={(field, order) => setSort({ field, order })}
-            onAddVariant={() => {
-              setIsAdding(true);
-              setEditingVariantId(null);
-            }}
+            onAddVariant={() => handleAddVariant()}
             onBulkDelete={handleBulkDelete}
             onBulkGenerate={handleBulkGenerate}
             onImport={handleImport}
@@ -359,22 +463,23 @@ export function VariantManager({
 
           <VariantTable
             variants={filteredAndSortedVariants}
+            options={optionDefinitions}
             selectedVariants={selectedVariants}
             editingVariantId={editingVariantId}
             isAdding={isAdding}
+            addingInitialData={addingInitialData}
             isSubmitting={isSubmitting}
             onToggleSelection={toggleSelection}
             onToggleAllSelection={toggleAllSelection}
             onEdit={(id) => setEditingVariantId(id)}
             onDelete={handleDelete}
             onDuplicate={handleDuplicate}
+            onShowHistory={setHistoryVariantId}
+            onManageImages={setImagesVariantId}
             onSaveVariant={handleSaveVariant}
             onCancelEdit={handleCancelEdit}
             isAnyRowEditing={isAnyRowEditing}
-            onAddVariant={() => {
-              setIsAdding(true);
-              setEditingVariantId(null);
-            }}
+            onAddVariant={() => handleAddVariant()}
           />
 
           {/* Variant count footer */}
@@ -452,12 +557,26 @@ export function VariantManager({
         </AlertDialogContent>
       </AlertDialog>
 
-      {/* Variant Sort Modal */}
-      <VariantSortModal
+      {/* Variant Options Modal */}
+      <VariantOptionsModal
+        productId={productId}
+        options={localOptions}
+        isOpen={isOptionsModalOpen}
+        onClose={() => setIsOptionsModalOpen(false)}
+        onSaved={handleOptionsSaved}
+      />
+
+      <StockHistoryDialog
+        productId={productId}
+        variant={localVariants.find((v) => v.id === historyVariantId) ?? null}
+        onClose={() => setHistoryVariantId(null)}
+      />
+
+      <VariantImagesDialog
         productId={productId}
-        isOpen={isSortModalOpen}
-        onClose={() => setIsSortModalOpen(false)}
-        onSortUpdated={handleSortUpdated}
+        variant={localVariants.find((v) => v.id === imagesVariantId) ?? null}
+        options={localOptions}
+        onClose={() => setImagesVariantId(null)}
       />
     </>
   );
@@ -0,0 +1,383 @@
+// src/components/admin/ProductForm/variants/VariantOptionsModal.tsx
+
+import { useState, useEffect, useRef } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DragDropContext,
+  Droppable,
+  Draggable,
+  type DropResult,
+} from "@hello-pangea/dnd";
+import { GripVertical, Loader2, Plus, Trash2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import type { ProductOptionDetails } from "./types";
+
+interface VariantOptionsModalProps {
+  productId: string;
+  options: ProductOptionDetails[];
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: (options: ProductOptionDetails[]) => void;
+}
+
+// Options being edited. `key` identifies a row while dragging; `id` is only
+// set for options and values that already exist.
+interface EditableValue {
+  key: string;
+  id?: string;
+  value: string;
+}
+
+interface EditableOption {
+  key: string;
+  id?: string;
+  name: string;
+  values: EditableValue[];
+  newValue: string;
+}
+
+function reorder<T>(items: T[], from: number, to: number): T[] {
+  const result = Array.from(items);
+  const [moved] = result.splice(from, 1);
+  result.splice(to, 0, moved);
+  return result;
+}
+
+export function VariantOptionsModal({
+  productId,
+  options,
+  isOpen,
+  onClose,
+  onSaved,
+}: VariantOptionsModalProps) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<EditableOption[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const nextKey = useRef(0);
+
+  const newKey = () => `new-${nextKey.current++}`;
+
+  // Start from the product's current options each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setEditing(
+        options.map((option) => ({
+          key: option.id,
+          id: option.id,
+          name: option.name,
+          values: option.values.map((v) => ({
+            key: v.id,
+            id: v.id,
+            value: v.value,
+          })),
+          newValue: "",
+        })),
+      );
+    }
+  }, [isOpen, options]);
+
+  const updateOption = (key: string, update: Partial<EditableOption>) => {
+    setEditing((prev) =>
+      prev.map((option) =>
+        option.key === key ? { ...option, ...update } : option,
+      ),
+    );
+  };
+
+  const addValue = (option: EditableOption) => {
+    const value = option.newValue.trim();
+    if (!value) return;
+    if (option.values.some((v) => v.value === value)) {
+      updateOption(option.key, { newValue: "" });
+      return;
+    }
+    updateOption(option.key, {
+      values: [...option.values, { key: newKey(), value }],
+      newValue: "",
+    });
+  };
+
+  const handleDragEnd = (result: DropResult) => {
+    if (!result.destination) return;
+
+    if (result.type === "OPTION") {
+      setEditing((prev) =>
+        reorder(prev, result.source.index, result.destination!.index),
+      );
+      return;
+    }
+
+    // Values only move within their own option
+    const optionKey = result.source.droppableId;
+    if (result.destination.droppableId !== optionKey) return;
+    setEditing((prev) =>
+      prev.map((option) =>
+        option.key === optionKey
+          ? {
+              ...option,
+              values: reorder(
+                option.values,
+                result.source.index,
+                result.destination!.index,
+              ),
+            }
+          : option,
+      ),
+    );
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/products/${productId}/options`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          options: editing.map((option) => ({
+            id: option.id,
+            name: option.name,
+            values: option.values.map((v) => ({ id: v.id, value: v.value })),
+          })),
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update options");
+      }
+
+      toast({
+        title: "Success",
+        description: "Variant options updated successfully",
+      });
+      onSaved(result.options);
+      onClose();
+    } catch (error) {
+      console.error("Failed to save options:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to update options",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Variant Options</DialogTitle>
+          <DialogDescription>
+            Name the options variants differ by and list their values. Drag to
+            reorder; the order is used in the storefront. Renaming a value
+            renames it on every variant.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto pr-2 space-y-3">
+          {editing.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">
+              This product has no options yet
+            </div>
+          )}
+
+          <DragDropContext onDragEnd={handleDragEnd}>
+            <Droppable droppableId="options" type="OPTION">
+              {(provided) => (
+                <div
+                  {...provided.droppableProps}
+                  ref={provided.innerRef}
+                  className="space-y-3"
+                >
+                  {editing.map((option, index) => (
+                    <Draggable
+                      key={option.key}
+                      draggableId={option.key}
+                      index={index}
+                    >
+                      {(provided, snapshot) => (
+                        <div
+                          ref={provided.innerRef}
+                          {...provided.draggableProps}
+                          className={cn(
+                            "space-y-3 p-3 bg-muted/30 rounded-md border",
+                            snapshot.isDragging &&
+                              "shadow-lg ring-2 ring-primary bg-background",
+                          )}
+                        >
+                          <div className="flex items-center gap-2">
+                            <div
+                              {...provided.dragHandleProps}
+                              className="cursor-grab active:cursor-grabbing"
+                            >
+                              <GripVertical className="h-5 w-5 text-muted-foreground shrink-0" />
+                            </div>
+                            <Input
+                              value={option.name}
+                              onChange={(e) =>
+                                updateOption(option.key, {
+                                  name: e.target.value,
+                                })
+                              }
+                              placeholder="Option name (e.g., Size)"
+                              className="h-9 font-medium"
+                            />
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-9 w-9 shrink-0 text-muted-foreground hover:text-destructive"
+                              onClick={() =>
+                                setEditing((prev) =>
+                                  prev.filter((o) => o.key !== option.key),
+                                )
+                              }
+                              title="Remove option"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+
+                          <Droppable
+                            droppableId={option.key}
+                            type={`VALUE-${option.key}`}
+                          >
+                            {(provided) => (
+                              <div
+                                {...provided.droppableProps}
+                                ref={provided.innerRef}
+                                className="space-y-1.5 pl-7"
+                              >
+                                {option.values.map((value, valueIndex) => (
+                                  <Draggable
+                                    key={value.key}
+                                    draggableId={`${option.key}:${value.key}`}
+                                    index={valueIndex}
+                                  >
+                                    {(provided, snapshot) => (
+                                      <div
+                                        ref={provided.innerRef}
+                                        {...provided.draggableProps}
+                                        className={cn(
+                                          "flex items-center gap-2 rounded-md bg-background",
+                                          snapshot.isDragging && "shadow-md",
+                                        )}
+                                      >
+                                        <div
+                                          {...provided.dragHandleProps}
+                                          className="cursor-grab active:cursor-grabbing"
+                                        >
+                                          <GripVertical className="h-4 w-4 text-muted-foreground shrink-0" />
+                                        </div>
+                                        <Input
+                                          value={value.value}
+                                          onChange={(e) =>
+                                            updateOption(option.key, {
+                                              values: option.values.map((v) =>
+                                                v.key === value.key
+                                                  ? {
+                                                      ...v,
+                                                      value: e.target.value,
+                                                    }
+                                                  : v,
+                                              ),
+                                            })
+                                          }
+                                          className="h-8 text-sm"
+                                        />
+                                        <Button
+                                          variant="ghost"
+                                          size="icon"
+                                          className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                                          onClick={() =>
+                                            updateOption(option.key, {
+                                              values: option.values.filter(
+                                                (v) => v.key !== value.key,
+                                              ),
+                                            })
+                                          }
+                                          title="Remove value"
+                                        >
+                                          <X className="h-3.5 w-3.5" />
+                                        </Button>
+                                      </div>
+                                    )}
+                                  </Draggable>
+                                ))}
+                                {provided.placeholder}
+                              </div>
+                            )}
+                          </Droppable>
+
+                          <div className="pl-7">
+                            <Input
+                              value={option.newValue}
+                              onChange={(e) =>
+                                updateOption(option.key, {
+                                  newValue: e.target.value,
+                                })
+                              }
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") {
+                                  e.preventDefault();
+                                  addValue(option);
+                                }
+                              }}
+                              onBlur={() => addValue(option)}
+                              placeholder="Add a value and press Enter"
+                              className="h-8 text-sm border-dashed"
+                            />
+                          </div>
+                        </div>
+                      )}
+                    </Draggable>
+                  ))}
+                  {provided.placeholder}
+                </div>
+              )}
+            </Droppable>
+          </DragDropContext>
+
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full border-dashed"
+            onClick={() =>
+              setEditing((prev) => [
+                ...prev,
+                { key: newKey(), name: "", values: [], newValue: "" },
+              ])
+            }
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Option
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Options
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,19 +13,27 @@ import {
 } from "@/components/ui/table";
 import { VariantDisplayRow } from "./VariantDisplayRow";
 import { VariantFormRow } from "./VariantFormRow";
-import type { ProductVariant, VariantFormValues } from "./types";
+import type {
+  OptionDefinition,
+  ProductVariant,
+  VariantFormValues,
+} from "./types";
 
 interface VariantTableProps {
   variants: ProductVariant[];
+  options: OptionDefinition[];
   selectedVariants: Set<string>;
   editingVariantId: string | null;
   isAdding: boolean;
+  addingInitialData?: VariantFormValues;
   isSubmitting: boolean;
   onToggleSelection: (id: string) => void;
   onToggleAllSelection: () => void;
   onEdit: (id: string) => void;
   onDelete: (id: string) => void;
   onDuplicate: (id: string) => void;
+  onShowHistory: (id: string) => void;
+  onManageImages: (id: string) => void;
   onSaveVariant: (values: VariantFormValues) => Promise<boolean>;
   onCancelEdit: () => void;
   isAnyRowEditing: boolean;
@@ -34,15 +42,19 @@ interface VariantTableProps {
 
 export function VariantTable({
   variants,
+  options,
   selectedVariants,
   editingVariantId,
   isAdding,
+  addingInitialData,
   isSubmitting,
   onToggleSelection,
   onToggleAllSelection,
   onEdit,
   onDelete,
   onDuplicate,
+  onShowHistory,
+  onManageImages,
   onSaveVariant,
   onCancelEdit,
   isAnyRowEditing,
@@ -71,8 +83,11 @@ export function VariantTable({
                 />
               </TableHead>
               <TableHead className="min-w-[120px] py-2 text-xs">SKU</TableHead>
-              <TableHead className="min-w-[70px] py-2 text-xs">Size</TableHead>
-              <TableHead className="min-w-[70px] py-2 text-xs">Color</TableHead>
+              {options.map((option) => (
+                <TableHead key={option.name} className="min-w-[70px] py-2 text-xs">
+                  {option.name}
+                </TableHead>
+              ))}
               <TableHead className="min-w-[80px] py-2 text-xs">Weight</TableHead>
               <TableHead className="min-w-[90px] py-2 text-xs">Price</TableHead>
               <TableHead className="min-w-[70px] py-2 text-xs">Stock</TableHead>
@@ -84,7 +99,7 @@ export function VariantTable({
           <TableBody>
             {variants.length === 0 && !isAdding && (
               <TableRow>
-                <TableCell colSpan={10} className="h-24 text-center">
+                <TableCell colSpan={8 + options.length} className="h-24 text-center">
                   <div className="flex flex-col items-center justify-center text-muted-foreground">
                     <p className="text-sm">No variants yet</p>
                     <Button
@@ -106,6 +121,7 @@ export function VariantTable({
                 <VariantFormRow
                   key={variant.id}
                   initialData={variant}
+                  options={options}
                   onSave={onSaveVariant}
                   onCancel={onCancelEdit}
                   isSubmitting={isSubmitting}
@@ -114,11 +130,14 @@ export function VariantTable({
                 <VariantDisplayRow
                   key={variant.id}
                   variant={variant}
+                  options={options}
                   isSelected={selectedVariants.has(variant.id)}
                   onToggleSelection={onToggleSelection}
                   onEdit={onEdit}
                   onDelete={onDelete}
                   onDuplicate={onDuplicate}
+                  onShowHistory={onShowHistory}
+                  onManageImages={onManageImages}
                   isAnyRowEditing={isAnyRowEditing}
                 />
               )
@@ -126,6 +145,8 @@ export function VariantTable({
 
             {isAdding && (
               <VariantFormRow
+                initialData={addingInitialData}
+                options={options}
                 onSave={onSaveVariant}
                 onCancel={onCancelEdit}
                 isSubmitting={isSubmitting}
@@ -52,8 +52,7 @@ export function VariantTemplateSelector({
     saveTemplate({
       name: templateName.trim(),
       description: templateDescription.trim() || undefined,
-      size: tempVariant.size,
-      color: tempVariant.color,
+      options: { ...tempVariant.options },
       weight: tempVariant.weight,
       price: tempVariant.price,
       stock: tempVariant.stock,
@@ -148,13 +147,12 @@ export function VariantTemplateSelector({
                   </CardHeader>
                   <CardContent className="pb-3">
                     <div className="flex flex-wrap gap-2 mb-3">
-                      {template.size && (
-                        <Badge variant="secondary">Size: {template.size}</Badge>
-                      )}
-                      {template.color && (
-                        <Badge variant="secondary">
-                          Color: {template.color}
-                        </Badge>
+                      {Object.entries(template.options).map(
+                        ([name, value]) => (
+                          <Badge key={name} variant="secondary">
+                            {name}: {value}
+                          </Badge>
+                        ),
                       )}
                       {template.weight && (
                         <Badge variant="secondary">
@@ -222,13 +220,12 @@ export function VariantTemplateSelector({
                 </CardHeader>
                 <CardContent className="pb-3">
                   <div className="flex flex-wrap gap-2 text-sm">
-                    {tempVariant.size && (
-                      <Badge variant="outline">Size: {tempVariant.size}</Badge>
-                    )}
-                    {tempVariant.color && (
-                      <Badge variant="outline">
-                        Color: {tempVariant.color}
-                      </Badge>
+                    {Object.entries(tempVariant.options).map(
+                      ([name, value]) => (
+                        <Badge key={name} variant="outline">
+                          {name}: {value}
+                        </Badge>
+                      ),
                     )}
                     {tempVariant.weight && (
                       <Badge variant="outline">
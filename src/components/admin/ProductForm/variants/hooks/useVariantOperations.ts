@@ -2,7 +2,12 @@
 
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
-import type { ProductVariant, VariantFormValues, BulkGeneratedVariant } from "../types";
+import type {
+  ProductVariant,
+  VariantFormValues,
+  BulkGeneratedVariant,
+  ProductOptionDetails,
+} from "../types";
 
 export interface UseVariantOperationsReturn {
   createVariant: (
@@ -18,9 +23,12 @@ export interface UseVariantOperationsReturn {
   bulkDeleteVariants: (productId: string, variantIds: string[]) => Promise<boolean>;
   bulkCreateVariants: (
     productId: string,
-    variants: BulkGeneratedVariant[]
+    variants: BulkGeneratedVariant[],
+    source?: "generator" | "import"
   ) => Promise<ProductVariant[]>;
-  duplicateVariant: (productId: string, variantId: string) => Promise<ProductVariant | null>;
+  fetchVariants: (
+    productId: string
+  ) => Promise<{ variants: ProductVariant[]; options: ProductOptionDetails[] } | null>;
   isLoading: boolean;
 }
 
@@ -186,14 +194,15 @@ export function useVariantOperations(): UseVariantOperationsReturn {
 
   const bulkCreateVariants = async (
     productId: string,
-    variants: BulkGeneratedVariant[]
+    variants: BulkGeneratedVariant[],
+    source: "generator" | "import" = "generator"
   ): Promise<ProductVariant[]> => {
     setIsLoading(true);
     try {
       const response = await fetch(`/api/products/${productId}/variants/bulk-create`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ variants }),
+        body: JSON.stringify({ variants, source }),
       });
 
       const result = await response.json();
@@ -228,46 +237,34 @@ export function useVariantOperations(): UseVariantOperationsReturn {
     }
   };
 
-  const duplicateVariant = async (
-    productId: string,
-    variantId: string
-  ): Promise<ProductVariant | null> => {
-    setIsLoading(true);
+  const fetchVariants = async (
+    productId: string
+  ): Promise<{ variants: ProductVariant[]; options: ProductOptionDetails[] } | null> => {
     try {
-      const response = await fetch(`/api/products/${productId}/variants/${variantId}/duplicate`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-      });
-
+      const response = await fetch(`/api/products/${productId}/variants`);
       const result = await response.json();
 
       if (!response.ok) {
-        throw new Error(result.error || "Failed to duplicate variant");
+        throw new Error(result.error || "Failed to load variants");
       }
 
-      const savedVariant: ProductVariant = {
-        ...result,
-        createdAt: new Date(result.createdAt),
-        updatedAt: new Date(result.updatedAt),
-        deletedAt: result.deletedAt ? new Date(result.deletedAt) : null,
+      return {
+        variants: result.variants.map((v: any) => ({
+          ...v,
+          createdAt: new Date(v.createdAt),
+          updatedAt: new Date(v.updatedAt),
+          deletedAt: v.deletedAt ? new Date(v.deletedAt) : null,
+        })),
+        options: result.options,
       };
-
-      toast({
-        title: "Success!",
-        description: "Variant has been duplicated successfully.",
-      });
-
-      return savedVariant;
     } catch (error) {
-      console.error("Failed to duplicate variant:", error);
+      console.error("Failed to load variants:", error);
       toast({
-        title: "Duplication Failed",
-        description: error instanceof Error ? error.message : "Could not duplicate variant.",
+        title: "Error Loading Variants",
+        description: error instanceof Error ? error.message : "Could not load variants.",
         variant: "destructive",
       });
       return null;
-    } finally {
-      setIsLoading(false);
     }
   };
 
@@ -277,7 +274,7 @@ export function useVariantOperations(): UseVariantOperationsReturn {
     deleteVariant,
     bulkDeleteVariants,
     bulkCreateVariants,
-    duplicateVariant,
+    fetchVariants,
     isLoading,
   };
 }
@@ -21,11 +21,18 @@ export function useVariantTemplates(): UseVariantTemplatesReturn {
       const stored = localStorage.getItem(STORAGE_KEY);
       if (stored) {
         const parsed = JSON.parse(stored);
-        // Convert date strings back to Date objects
-        const templatesWithDates = parsed.map((t: any) => ({
-          ...t,
-          createdAt: new Date(t.createdAt),
-        }));
+        // Convert date strings back to Date objects; templates saved before
+        // generic options kept size and color as fields of their own
+        const templatesWithDates = parsed.map(
+          ({ size, color, ...t }: any) => ({
+            ...t,
+            options: t.options || {
+              ...(size ? { Size: size } : {}),
+              ...(color ? { Color: color } : {}),
+            },
+            createdAt: new Date(t.createdAt),
+          }),
+        );
         setTemplates(templatesWithDates);
       }
     } catch (error) {
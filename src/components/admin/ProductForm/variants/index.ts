@@ -9,7 +9,7 @@ export { VariantActionsToolbar } from "./VariantActionsToolbar";
 export { VariantTable } from "./VariantTable";
 export { VariantDisplayRow } from "./VariantDisplayRow";
 export { VariantFormRow } from "./VariantFormRow";
-export { VariantSortModal } from "./VariantSortModal";
+export { VariantOptionsModal } from "./VariantOptionsModal";
 
 export * from "./types";
 export * from "./hooks/useVariantOperations";
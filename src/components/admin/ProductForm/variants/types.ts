@@ -1,13 +1,19 @@
 // src/components/admin/ProductForm/variants/types.ts
 
 import { z } from "zod";
+import type {
+  OptionDefinition,
+  VariantOptions,
+} from "@/lib/catalog/variant-options";
+import type { ProductOptionDetails } from "@/lib/catalog/product-options";
+
+export type { OptionDefinition, VariantOptions, ProductOptionDetails };
 
 // --- Core Types ---
 
 export interface ProductVariant {
   id: string;
-  size: string | null;
-  color: string | null;
+  options: VariantOptions;
   weight: number | null;
   sku: string;
   price: number;
@@ -15,8 +21,6 @@ export interface ProductVariant {
   discountType: "percentage" | "flat";
   discountPercentage: number | null;
   discountAmount: number | null;
-  colorSortOrder?: number;
-  sizeSortOrder?: number;
   createdAt: Date;
   updatedAt: Date;
   deletedAt: Date | null;
@@ -26,8 +30,7 @@ export interface ProductVariant {
 
 export const variantFormSchema = z.object({
   id: z.string().optional(),
-  size: z.string().max(50, "Size must be 50 characters or less.").nullable(),
-  color: z.string().max(50, "Color must be 50 characters or less.").nullable(),
+  options: z.record(z.string()),
   weight: z.coerce
     .number({ invalid_type_error: "Must be a number" })
     .min(0, "Weight cannot be negative.")
@@ -57,8 +60,7 @@ export type VariantFormValues = z.infer<typeof variantFormSchema>;
 // --- Bulk Generation Types ---
 
 export interface BulkVariantOptions {
-  sizes: string[];
-  colors: string[];
+  options: OptionDefinition[];
   basePrice: number;
   baseStock: number;
   baseWeight: number | null;
@@ -68,8 +70,7 @@ export interface BulkVariantOptions {
 }
 
 export interface BulkGeneratedVariant {
-  size: string | null;
-  color: string | null;
+  options: VariantOptions;
   sku: string;
   price: number;
   stock: number;
@@ -85,8 +86,7 @@ export interface VariantTemplate {
   id: string;
   name: string;
   description?: string;
-  size: string | null;
-  color: string | null;
+  options: VariantOptions;
   weight: number | null;
   price: number;
   stock: number;
@@ -100,8 +100,7 @@ export interface VariantTemplate {
 
 export interface CsvVariantRow {
   sku: string;
-  size?: string;
-  color?: string;
+  options: VariantOptions;
   weight?: number;
   price: number;
   stock: number;
@@ -113,6 +112,7 @@ export interface CsvImportResult {
   success: boolean;
   imported: number;
   failed: number;
+  rows: CsvVariantRow[];
   errors: Array<{
     row: number;
     error: string;
@@ -123,7 +123,7 @@ export interface CsvImportResult {
 // --- SKU Template Types ---
 
 export interface SkuTemplate {
-  template: string; // e.g., "{SLUG}-{SIZE}-{COLOR}"
+  template: string; // e.g., "{SLUG}-{OPTIONS}" or "{SLUG}-{SIZE}-{COLOR}"
   variables: SkuVariable[];
 }
 
@@ -133,17 +133,17 @@ export interface SkuVariable {
   example: string;
 }
 
+// Each option also has a placeholder of its own, e.g. {SIZE} for "Size"
 export const SKU_VARIABLES: SkuVariable[] = [
   { name: "SLUG", placeholder: "{SLUG}", example: "product-name" },
-  { name: "SIZE", placeholder: "{SIZE}", example: "XL" },
-  { name: "COLOR", placeholder: "{COLOR}", example: "RED" },
+  { name: "OPTIONS", placeholder: "{OPTIONS}", example: "XL-RED" },
   { name: "RANDOM", placeholder: "{RANDOM}", example: "A7F9" },
   { name: "INDEX", placeholder: "{INDEX}", example: "001" },
 ];
 
 // --- Filter & Sort Types ---
 
-export type SortField = "sku" | "price" | "stock" | "size" | "color" | "createdAt" | "updatedAt";
+export type SortField = "sku" | "price" | "stock" | "options" | "createdAt" | "updatedAt";
 export type SortOrder = "asc" | "desc";
 
 export interface VariantFilters {
@@ -152,8 +152,6 @@ export interface VariantFilters {
   maxPrice?: number;
   minStock?: number;
   maxStock?: number;
-  sizes: string[];
-  colors: string[];
 }
 
 export interface VariantSort {
@@ -1,26 +1,44 @@
 // src/components/admin/ProductForm/variants/utils/csvHelpers.ts
 
-import type { ProductVariant, CsvVariantRow, CsvImportResult } from "../types";
+import type {
+  ProductVariant,
+  CsvVariantRow,
+  CsvImportResult,
+  OptionDefinition,
+  VariantOptions,
+} from "../types";
+
+// Columns every variant has. Any other column is a variant option named
+// after its header.
+const SKU_HEADER = "SKU";
+const TRAILING_HEADERS = [
+  "Weight (g)",
+  "Price",
+  "Stock",
+  "Discount Type",
+  "Discount Value",
+];
 
 /**
- * Convert variants to CSV string
+ * Quote a CSV cell, escaping quotes inside it
  */
-export function variantsToCsv(variants: ProductVariant[]): string {
-  const headers = [
-    "SKU",
-    "Size",
-    "Color",
-    "Weight (g)",
-    "Price",
-    "Stock",
-    "Discount Type",
-    "Discount Value",
-  ];
+function toCsvCell(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Convert variants to CSV string, with a column for each option
+ */
+export function variantsToCsv(
+  variants: ProductVariant[],
+  options: OptionDefinition[] = [],
+): string {
+  const optionNames = options.map((option) => option.name);
+  const headers = [SKU_HEADER, ...optionNames, ...TRAILING_HEADERS];
 
   const rows = variants.map((v) => [
     v.sku,
-    v.size || "",
-    v.color || "",
+    ...optionNames.map((name) => v.options[name] || ""),
     v.weight?.toString() || "",
     v.price.toString(),
     v.stock.toString(),
@@ -31,7 +49,7 @@ export function variantsToCsv(variants: ProductVariant[]): string {
   ]);
 
   const csvContent = [headers, ...rows]
-    .map((row) => row.map((cell) => `"${cell}"`).join(","))
+    .map((row) => row.map(toCsvCell).join(","))
     .join("\n");
 
   return csvContent;
@@ -60,18 +78,23 @@ export function downloadCsv(
 }
 
 /**
- * Parse CSV text to variant rows
+ * Parse CSV text to variant rows. Columns are matched by header, so options
+ * can be in any order between SKU and the other fixed columns.
  */
 export function parseCsvToVariants(csvText: string): CsvImportResult {
   const result: CsvImportResult = {
     success: true,
     imported: 0,
     failed: 0,
+    rows: [],
     errors: [],
   };
 
   try {
-    const lines = csvText.trim().split("\n");
+    const lines = csvText
+      .trim()
+      .split(/\r?\n/)
+      .filter((line) => line.trim().length > 0);
 
     if (lines.length === 0) {
       result.success = false;
@@ -79,7 +102,30 @@ export function parseCsvToVariants(csvText: string): CsvImportResult {
       return result;
     }
 
-    // Skip header row
+    const headers = parseCsvLine(lines[0]).map((header) => header.trim());
+    const column = (name: string) =>
+      headers.findIndex((header) => header.toLowerCase() === name.toLowerCase());
+    const fixedHeaders = [SKU_HEADER, ...TRAILING_HEADERS].map((h) =>
+      h.toLowerCase(),
+    );
+    const optionColumns = headers
+      .map((name, index) => ({ name, index }))
+      .filter(
+        ({ name }) => name && !fixedHeaders.includes(name.toLowerCase()),
+      );
+
+    const missing = [SKU_HEADER, "Price", "Stock"].filter(
+      (name) => column(name) === -1,
+    );
+    if (missing.length > 0) {
+      result.success = false;
+      result.errors.push({
+        row: 1,
+        error: `Missing required columns (${missing.join(", ")})`,
+      });
+      return result;
+    }
+
     const dataLines = lines.slice(1);
 
     dataLines.forEach((line, index) => {
@@ -88,26 +134,20 @@ export function parseCsvToVariants(csvText: string): CsvImportResult {
       try {
         // Parse CSV row (handle quoted values)
         const values = parseCsvLine(line);
-
-        if (values.length < 5) {
-          throw new Error(
-            "Missing required columns (SKU, Size, Color, Weight, Price, Stock)",
-          );
-        }
-
-        const [
-          sku,
-          size,
-          color,
-          weightStr,
-          priceStr,
-          stockStr,
-          discountType,
-          discountValueStr,
-        ] = values;
+        const cell = (name: string) => {
+          const i = column(name);
+          return i === -1 ? "" : (values[i] ?? "").trim();
+        };
+
+        const sku = cell(SKU_HEADER);
+        const weightStr = cell("Weight (g)");
+        const priceStr = cell("Price");
+        const stockStr = cell("Stock");
+        const discountType = cell("Discount Type");
+        const discountValueStr = cell("Discount Value");
 
         // Validate required fields
-        if (!sku || sku.trim().length === 0) {
+        if (!sku) {
           throw new Error("SKU is required");
         }
 
@@ -122,35 +162,40 @@ export function parseCsvToVariants(csvText: string): CsvImportResult {
         }
 
         // Parse optional fields
-        const weight =
-          weightStr && weightStr.trim() ? parseFloat(weightStr) : null;
+        const weight = weightStr ? parseFloat(weightStr) : null;
         if (weight !== null && (isNaN(weight) || weight < 0)) {
           throw new Error("Invalid weight");
         }
 
-        const parsedDiscountType = discountType?.trim().toLowerCase();
+        const parsedDiscountType = discountType.toLowerCase();
         const validDiscountType =
           parsedDiscountType === "percentage" || parsedDiscountType === "flat"
             ? parsedDiscountType
             : "percentage";
 
-        const discountValue =
-          discountValueStr && discountValueStr.trim()
-            ? parseFloat(discountValueStr)
-            : null;
+        const discountValue = discountValueStr
+          ? parseFloat(discountValueStr)
+          : null;
+        if (discountValue !== null && isNaN(discountValue)) {
+          throw new Error("Invalid discount value");
+        }
+
+        // Empty option cells mean the variant does not set that option
+        const options: VariantOptions = {};
+        for (const { name, index: i } of optionColumns) {
+          const value = (values[i] ?? "").trim();
+          if (value) options[name] = value;
+        }
 
-        // Validating row structure (Implicit check)
-        ({
-          sku: sku.trim(),
-          size: size?.trim() || undefined,
-          color: color?.trim() || undefined,
+        result.rows.push({
+          sku,
+          options,
           weight: weight !== null ? weight : undefined,
           price,
           stock,
           discountType: validDiscountType,
           discountValue: discountValue !== null ? discountValue : undefined,
-        }) satisfies CsvVariantRow;
-
+        });
         result.imported++;
       } catch (error) {
         result.failed++;
@@ -176,7 +221,7 @@ export function parseCsvToVariants(csvText: string): CsvImportResult {
 }
 
 /**
- * Parse a single CSV line, handling quoted values
+ * Parse a single CSV line, handling quoted values and escaped quotes
  */
 function parseCsvLine(line: string): string[] {
   const result: string[] = [];
@@ -187,7 +232,12 @@ function parseCsvLine(line: string): string[] {
     const char = line[i];
 
     if (char === '"') {
-      inQuotes = !inQuotes;
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
     } else if (char === "," && !inQuotes) {
       result.push(current);
       current = "";
@@ -201,24 +251,26 @@ function parseCsvLine(line: string): string[] {
 }
 
 /**
- * Generate CSV template for download
+ * Generate CSV template for download, with a column for each option
  */
-export function generateCsvTemplate(): string {
+export function generateCsvTemplate(options: OptionDefinition[] = []): string {
+  const definitions =
+    options.length > 0
+      ? options
+      : [
+          { name: "Size", values: ["XL"] },
+          { name: "Color", values: ["Red"] },
+        ];
+
   const headers = [
-    "SKU",
-    "Size",
-    "Color",
-    "Weight (g)",
-    "Price",
-    "Stock",
-    "Discount Type",
-    "Discount Value",
+    SKU_HEADER,
+    ...definitions.map((option) => option.name),
+    ...TRAILING_HEADERS,
   ];
 
   const exampleRow = [
     "SKU-001",
-    "XL",
-    "Red",
+    ...definitions.map((option) => option.values[0] || ""),
     "500",
     "299.99",
     "50",
@@ -227,7 +279,7 @@ export function generateCsvTemplate(): string {
   ];
 
   return [headers, exampleRow]
-    .map((row) => row.map((cell) => `"${cell}"`).join(","))
+    .map((row) => row.map(toCsvCell).join(","))
     .join("\n");
 }
 
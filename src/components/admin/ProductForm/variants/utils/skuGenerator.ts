@@ -1,5 +1,7 @@
 // src/components/admin/ProductForm/variants/utils/skuGenerator.ts
 
+import type { VariantOptions } from "../types";
+
 /**
  * Generate a random alphanumeric string
  */
@@ -12,13 +14,28 @@ function generateRandomString(length: number = 4): string {
   return result;
 }
 
+/**
+ * Placeholder of an option in SKU templates, e.g. {STORAGE_SIZE} for
+ * "Storage size"
+ */
+export function optionPlaceholder(name: string): string {
+  return `{${name.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}}`;
+}
+
+/**
+ * Uppercase an option value for use in a SKU
+ */
+function skuPart(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]+/g, "-");
+}
+
 /**
  * Generate SKU from template and variant data
  *
  * Supported placeholders:
  * - {SLUG}: Product slug (uppercase)
- * - {SIZE}: Variant size (uppercase)
- * - {COLOR}: Variant color (uppercase)
+ * - {OPTIONS}: All option values of the variant (uppercase)
+ * - {SIZE}, {COLOR}, ...: Value of the option with that name (uppercase)
  * - {RANDOM}: Random 4-char string
  * - {INDEX}: Sequential number (001, 002, etc.)
  */
@@ -26,23 +43,28 @@ export function generateSku(
   template: string,
   data: {
     slug?: string;
-    size?: string | null;
-    color?: string | null;
+    options?: VariantOptions;
     index?: number;
   }
 ): string {
   let sku = template;
+  const options = data.options || {};
 
   // Replace placeholders
   sku = sku.replace(/{SLUG}/g, (data.slug || "PRODUCT").toUpperCase());
-  sku = sku.replace(/{SIZE}/g, (data.size || "").toUpperCase());
-  sku = sku.replace(/{COLOR}/g, (data.color || "").toUpperCase());
+  sku = sku.replace(/{OPTIONS}/g, Object.values(options).map(skuPart).join("-"));
+  for (const [name, value] of Object.entries(options)) {
+    sku = sku.split(optionPlaceholder(name)).join(skuPart(value));
+  }
   sku = sku.replace(/{RANDOM}/g, generateRandomString());
 
   if (data.index !== undefined) {
     sku = sku.replace(/{INDEX}/g, String(data.index).padStart(3, "0"));
   }
 
+  // Drop placeholders of options the variant does not have
+  sku = sku.replace(/{[^}]*}/g, "");
+
   // Clean up any double dashes or trailing/leading dashes
   sku = sku.replace(/--+/g, "-").replace(/^-|-$/g, "");
 
@@ -54,14 +76,13 @@ export function generateSku(
  */
 export function generateBulkSkus(
   template: string,
-  variants: Array<{ size: string | null; color: string | null }>,
+  variants: Array<{ options: VariantOptions }>,
   productSlug?: string
 ): string[] {
   return variants.map((variant, index) =>
     generateSku(template, {
       slug: productSlug,
-      size: variant.size,
-      color: variant.color,
+      options: variant.options,
       index: index + 1,
     })
   );
@@ -97,11 +118,14 @@ export function validateSkuTemplate(template: string): {
 /**
  * Get example SKU from template
  */
-export function getSkuExample(template: string, productSlug?: string): string {
+export function getSkuExample(
+  template: string,
+  productSlug?: string,
+  options: VariantOptions = { Size: "XL", Color: "Red" }
+): string {
   return generateSku(template, {
     slug: productSlug || "product-name",
-    size: "XL",
-    color: "RED",
+    options,
     index: 1,
   });
 }
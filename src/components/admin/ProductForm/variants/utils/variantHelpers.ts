@@ -6,7 +6,10 @@ import type {
   VariantSort,
   BulkVariantOptions,
   BulkGeneratedVariant,
+  OptionDefinition,
+  VariantOptions,
 } from "../types";
+import { compareByOptions } from "@/lib/catalog/variant-options";
 import { generateSku } from "./skuGenerator";
 
 /**
@@ -17,13 +20,14 @@ export function filterVariants(
   filters: VariantFilters
 ): ProductVariant[] {
   return variants.filter((variant) => {
-    // Search term filter (searches in SKU, size, color)
+    // Search term filter (searches in SKU and option values)
     if (filters.searchTerm) {
       const searchLower = filters.searchTerm.toLowerCase();
       const matchesSearch =
         variant.sku.toLowerCase().includes(searchLower) ||
-        variant.size?.toLowerCase().includes(searchLower) ||
-        variant.color?.toLowerCase().includes(searchLower);
+        Object.values(variant.options).some((value) =>
+          value.toLowerCase().includes(searchLower)
+        );
 
       if (!matchesSearch) return false;
     }
@@ -44,30 +48,29 @@ export function filterVariants(
       return false;
     }
 
-    // Size filter
-    if (filters.sizes.length > 0) {
-      if (!variant.size || !filters.sizes.includes(variant.size)) {
-        return false;
-      }
-    }
-
-    // Color filter
-    if (filters.colors.length > 0) {
-      if (!variant.color || !filters.colors.includes(variant.color)) {
-        return false;
-      }
-    }
-
     return true;
   });
 }
 
 /**
- * Sort variants by specified field and order
+ * Sort variants by specified field and order. Sorting by options follows the
+ * order of the product's options and their values.
  */
-export function sortVariants(variants: ProductVariant[], sort: VariantSort): ProductVariant[] {
+export function sortVariants(
+  variants: ProductVariant[],
+  sort: VariantSort,
+  definitions: OptionDefinition[] = []
+): ProductVariant[] {
   const sorted = [...variants];
 
+  if (sort.field === "options") {
+    const compare = compareByOptions(definitions);
+    sorted.sort((a, b) =>
+      sort.order === "asc" ? compare(a, b) : compare(b, a)
+    );
+    return sorted;
+  }
+
   sorted.sort((a, b) => {
     let aValue: any = a[sort.field];
     let bValue: any = b[sort.field];
@@ -90,70 +93,26 @@ export function sortVariants(variants: ProductVariant[], sort: VariantSort): Pro
 }
 
 /**
- * Get unique sizes from variants
- */
-export function getUniqueSizes(variants: ProductVariant[]): string[] {
-  const sizes = variants.map((v) => v.size).filter((s): s is string => s !== null);
-  return Array.from(new Set(sizes)).sort();
-}
-
-/**
- * Get unique colors from variants
- */
-export function getUniqueColors(variants: ProductVariant[]): string[] {
-  const colors = variants.map((v) => v.color).filter((c): c is string => c !== null);
-  return Array.from(new Set(colors)).sort();
-}
-
-/**
- * Generate variant combinations from sizes and colors
+ * Generate every combination of the options' values, the first option
+ * varying slowest
  */
 export function generateVariantCombinations(
   options: BulkVariantOptions,
   productSlug?: string
 ): BulkGeneratedVariant[] {
-  const combinations: BulkGeneratedVariant[] = [];
+  let combinations: VariantOptions[] = [{}];
 
-  // If no sizes or colors, create a single variant
-  if (options.sizes.length === 0 && options.colors.length === 0) {
-    combinations.push(
-      createVariantFromOptions(options, null, null, 1, productSlug)
+  for (const { name, values } of options.options) {
+    if (values.length === 0) continue;
+    combinations = combinations.flatMap((combination) =>
+      values.map((value) => ({ ...combination, [name]: value }))
     );
-    return combinations;
-  }
-
-  // If only sizes
-  if (options.sizes.length > 0 && options.colors.length === 0) {
-    options.sizes.forEach((size, index) => {
-      combinations.push(
-        createVariantFromOptions(options, size, null, index + 1, productSlug)
-      );
-    });
-    return combinations;
   }
 
-  // If only colors
-  if (options.colors.length > 0 && options.sizes.length === 0) {
-    options.colors.forEach((color, index) => {
-      combinations.push(
-        createVariantFromOptions(options, null, color, index + 1, productSlug)
-      );
-    });
-    return combinations;
-  }
-
-  // Both sizes and colors - create all combinations
-  let index = 1;
-  for (const size of options.sizes) {
-    for (const color of options.colors) {
-      combinations.push(
-        createVariantFromOptions(options, size, color, index, productSlug)
-      );
-      index++;
-    }
-  }
-
-  return combinations;
+  // Without any option values this is a single variant
+  return combinations.map((combination, index) =>
+    createVariantFromOptions(options, combination, index + 1, productSlug)
+  );
 }
 
 /**
@@ -161,21 +120,18 @@ export function generateVariantCombinations(
  */
 function createVariantFromOptions(
   options: BulkVariantOptions,
-  size: string | null,
-  color: string | null,
+  variantOptions: VariantOptions,
   index: number,
   productSlug?: string
 ): BulkGeneratedVariant {
   const sku = generateSku(options.skuTemplate, {
     slug: productSlug,
-    size,
-    color,
+    options: variantOptions,
     index,
   });
 
   return {
-    size,
-    color,
+    options: variantOptions,
     sku,
     price: options.basePrice,
     stock: options.baseStock,
@@ -253,8 +209,7 @@ export function duplicateVariant(
   skuSuffix: string = "-COPY"
 ): Omit<ProductVariant, "id" | "createdAt" | "updatedAt" | "deletedAt"> {
   return {
-    size: variant.size,
-    color: variant.color,
+    options: { ...variant.options },
     weight: variant.weight,
     sku: variant.sku + skuSuffix,
     price: variant.price,
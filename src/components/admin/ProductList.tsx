@@ -78,6 +78,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Checkbox } from "@/components/ui/checkbox";
 import { cn } from "@/lib/utils";
 import { getOptimizedImageUrl } from "@/lib/image-optimizer";
+import { CatalogImportExport } from "./CatalogImportExport";
 
 type SortField = "name" | "price" | "category" | "createdAt" | "updatedAt";
 type SortOrder = "asc" | "desc";
@@ -746,6 +747,7 @@ export function ProductList({
                 </>
               )}
             </Button>
+            {!showTrashed && <CatalogImportExport />}
             {!showTrashed && (
               <Button
                 size="sm"
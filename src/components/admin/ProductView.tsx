@@ -15,11 +15,11 @@ import { cn } from "@/lib/utils";
 import { RichContent } from "../ui/rich-content";
 import { useStorefrontUrl } from "@/hooks/use-storefront-url";
 import { getOptimizedImageUrl } from "@/lib/image-optimizer";
+import { formatVariantOptions } from "@/lib/catalog/variant-options";
 
 interface ProductVariant {
   id: string;
-  size: string | null;
-  color: string | null;
+  options: Record<string, string>;
   weight: number | null;
   sku: string;
   price: number;
@@ -313,8 +313,7 @@ export function ProductView({ product }: ProductViewProps) {
                           </div>
                           <div className="text-sm text-muted-foreground">
                             {[
-                              variant.size && `Size: ${variant.size}`,
-                              variant.color && `Color: ${variant.color}`,
+                              formatVariantOptions(variant.options),
                               variant.weight &&
                                 `Weight: ${variant.weight.toLocaleString()}g`,
                             ]
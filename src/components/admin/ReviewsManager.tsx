@@ -0,0 +1,567 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+  DropdownMenuSeparator,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  MoreHorizontal,
+  Trash2,
+  Loader2,
+  Check,
+  X,
+  ShieldAlert,
+  Star,
+  BadgeCheck,
+  MessageSquareText,
+  Search,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { ReviewStatus } from "@/db/schema";
+
+interface QueueReview {
+  id: string;
+  productId: string;
+  productName: string;
+  productSlug: string;
+  customerName: string;
+  customerPhone: string;
+  rating: number;
+  title: string | null;
+  body: string;
+  images: string[];
+  isVerifiedPurchase: boolean;
+  status: ReviewStatus;
+  spamReasons: string[];
+  moderationNote: string | null;
+  createdAt: string;
+}
+
+interface Pagination {
+  page: number;
+  totalPages: number;
+  total: number;
+}
+
+const PAGE_SIZE = 20;
+
+const STATUS_TABS: { value: ReviewStatus; label: string }[] = [
+  { value: ReviewStatus.PENDING, label: "Pending" },
+  { value: ReviewStatus.APPROVED, label: "Approved" },
+  { value: ReviewStatus.REJECTED, label: "Rejected" },
+  { value: ReviewStatus.SPAM, label: "Spam" },
+];
+
+const STATUS_STYLES: Record<string, string> = {
+  [ReviewStatus.PENDING]: "bg-yellow-100 text-yellow-700",
+  [ReviewStatus.APPROVED]: "bg-green-100 text-green-700",
+  [ReviewStatus.REJECTED]: "bg-red-100 text-red-700",
+  [ReviewStatus.SPAM]: "bg-gray-100 text-gray-700",
+};
+
+const SPAM_REASON_LABELS: Record<string, string> = {
+  honeypot: "Bot field filled",
+  links: "Contains links",
+  repeated_characters: "Repeated characters",
+  shouting: "All caps",
+  duplicate_content: "Duplicate text",
+  flooding: "Too many reviews",
+};
+
+function RatingStars({ rating }: { rating: number }) {
+  return (
+    <div className="flex items-center gap-0.5" title={`${rating} of 5`}>
+      {[1, 2, 3, 4, 5].map((star) => (
+        <Star
+          key={star}
+          className={cn(
+            "h-3 w-3",
+            star <= rating
+              ? "fill-yellow-400 text-yellow-400"
+              : "text-muted-foreground/30",
+          )}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function ReviewsManager() {
+  const { toast } = useToast();
+  const [reviewList, setReviewList] = useState<QueueReview[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<ReviewStatus, number>>>(
+    {},
+  );
+  const [pagination, setPagination] = useState<Pagination>({
+    page: 1,
+    totalPages: 1,
+    total: 0,
+  });
+  const [status, setStatus] = useState<ReviewStatus>(ReviewStatus.PENDING);
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [idsToDelete, setIdsToDelete] = useState<string[] | null>(null);
+
+  const fetchReviews = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({
+        status,
+        page: String(page),
+        limit: String(PAGE_SIZE),
+      });
+      if (search.trim()) params.append("search", search.trim());
+
+      const response = await fetch(`/api/reviews?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch reviews");
+      const data = await response.json();
+      setReviewList(data.data || []);
+      setCounts(data.counts || {});
+      setPagination({
+        page: data.pagination?.page || 1,
+        totalPages: data.pagination?.totalPages || 1,
+        total: data.pagination?.total || 0,
+      });
+      setSelectedIds([]);
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+      toast({
+        title: "Error",
+        description: "Could not load reviews.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, page, search, toast]);
+
+  useEffect(() => {
+    const timeout = setTimeout(fetchReviews, 300);
+    return () => clearTimeout(timeout);
+  }, [fetchReviews]);
+
+  const handleModerate = async (ids: string[], newStatus: ReviewStatus) => {
+    if (ids.length === 0) return;
+    setIsActionLoading(true);
+    try {
+      const response = await fetch("/api/reviews/moderate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reviewIds: ids, status: newStatus }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update reviews");
+      }
+      toast({ title: "Success", description: result.message });
+      fetchReviews();
+    } catch (error: any) {
+      console.error("Error moderating reviews:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update reviews.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsActionLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!idsToDelete) return;
+    const ids = idsToDelete;
+    setIsActionLoading(true);
+    setIdsToDelete(null);
+
+    try {
+      const response = await fetch("/api/reviews/bulk-delete", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reviewIds: ids }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to delete reviews");
+      }
+      toast({ title: "Success", description: result.message });
+      fetchReviews();
+    } catch (error: any) {
+      console.error("Error deleting reviews:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete reviews.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsActionLoading(false);
+    }
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((previous) =>
+      checked ? [...previous, id] : previous.filter((item) => item !== id),
+    );
+  };
+
+  const allSelected =
+    reviewList.length > 0 && selectedIds.length === reviewList.length;
+
+  // Actions offered for reviews in the current tab
+  const actions = [
+    { status: ReviewStatus.APPROVED, label: "Approve", icon: Check },
+    { status: ReviewStatus.REJECTED, label: "Reject", icon: X },
+    { status: ReviewStatus.SPAM, label: "Mark as Spam", icon: ShieldAlert },
+  ].filter((action) => action.status !== status);
+
+  return (
+    <Card className="border-none shadow-none">
+      <CardHeader className="px-2 pt-2 pb-1.5 sm:px-3 sm:pt-3 sm:pb-2 border-b space-y-2">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-base font-semibold tracking-tight">
+              Review Moderation
+            </CardTitle>
+            <CardDescription className="mt-0 text-xs text-muted-foreground">
+              Only approved reviews are shown in the storefront and count
+              towards product ratings.
+            </CardDescription>
+          </div>
+          <div className="relative w-full sm:w-64">
+            <Search className="absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setPage(1);
+              }}
+              placeholder="Search reviews, products, phones..."
+              className="h-7 pl-7 text-xs"
+            />
+          </div>
+        </div>
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
+          <Tabs
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value as ReviewStatus);
+              setPage(1);
+            }}
+          >
+            <TabsList className="h-8">
+              {STATUS_TABS.map((tab) => (
+                <TabsTrigger
+                  key={tab.value}
+                  value={tab.value}
+                  className="text-xs px-2.5"
+                >
+                  {tab.label}
+                  <span className="ml-1.5 rounded-full bg-muted px-1.5 text-[10px] text-muted-foreground">
+                    {counts[tab.value] || 0}
+                  </span>
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          {selectedIds.length > 0 && (
+            <div className="flex items-center gap-1.5">
+              <span className="text-xs text-muted-foreground">
+                {selectedIds.length} selected
+              </span>
+              {actions.map((action) => (
+                <Button
+                  key={action.status}
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={isActionLoading}
+                  onClick={() => handleModerate(selectedIds, action.status)}
+                >
+                  <action.icon className="h-3.5 w-3.5 mr-1" />
+                  {action.label}
+                </Button>
+              ))}
+              <Button
+                variant="destructive"
+                size="sm"
+                className="h-7 text-xs"
+                disabled={isActionLoading}
+                onClick={() => setIdsToDelete(selectedIds)}
+              >
+                <Trash2 className="h-3.5 w-3.5 mr-1" /> Delete
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50 hover:bg-muted/50">
+              <TableHead className="w-[36px] pl-3 py-2">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) =>
+                    setSelectedIds(
+                      checked ? reviewList.map((review) => review.id) : [],
+                    )
+                  }
+                  aria-label="Select all"
+                />
+              </TableHead>
+              <TableHead className="py-2 text-xs">Review</TableHead>
+              <TableHead className="py-2 text-xs">Product</TableHead>
+              <TableHead className="py-2 text-xs">Customer</TableHead>
+              <TableHead className="py-2 text-xs">Status</TableHead>
+              <TableHead className="w-[70px] text-right pr-3 py-2 text-xs">
+                Actions
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading && (
+              <TableRow>
+                <TableCell colSpan={6} className="h-32 text-center">
+                  <Loader2 className="h-6 w-6 animate-spin mx-auto text-primary" />
+                </TableCell>
+              </TableRow>
+            )}
+            {!isLoading && reviewList.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="h-32 text-center">
+                  <div className="flex flex-col items-center justify-center gap-1.5">
+                    <MessageSquareText className="h-8 w-8 text-muted-foreground/50" />
+                    <p className="text-base font-medium text-muted-foreground">
+                      No reviews here.
+                    </p>
+                  </div>
+                </TableCell>
+              </TableRow>
+            )}
+            {!isLoading &&
+              reviewList.map((review) => (
+                <TableRow
+                  key={review.id}
+                  className="hover:bg-muted/50 transition-colors align-top"
+                >
+                  <TableCell className="pl-3 py-2">
+                    <Checkbox
+                      checked={selectedIds.includes(review.id)}
+                      onCheckedChange={(checked) =>
+                        toggleSelected(review.id, !!checked)
+                      }
+                      aria-label="Select review"
+                    />
+                  </TableCell>
+                  <TableCell className="py-2 text-sm max-w-md">
+                    <div className="flex items-center gap-1.5">
+                      <RatingStars rating={review.rating} />
+                      {review.isVerifiedPurchase && (
+                        <span className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] font-medium bg-primary/10 text-primary">
+                          <BadgeCheck className="h-2.5 w-2.5" /> Verified
+                        </span>
+                      )}
+                    </div>
+                    {review.title && (
+                      <div className="mt-1 font-medium text-foreground">
+                        {review.title}
+                      </div>
+                    )}
+                    <p className="mt-0.5 text-xs text-muted-foreground whitespace-pre-line line-clamp-4">
+                      {review.body}
+                    </p>
+                    {review.images.length > 0 && (
+                      <div className="mt-1.5 flex gap-1">
+                        {review.images.map((url) => (
+                          <a
+                            key={url}
+                            href={url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                          >
+                            <img
+                              src={url}
+                              alt="Review photo"
+                              className="h-10 w-10 rounded object-cover border"
+                              loading="lazy"
+                            />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    {review.spamReasons.length > 0 && (
+                      <div className="mt-1.5 flex flex-wrap gap-1">
+                        {review.spamReasons.map((reason) => (
+                          <span
+                            key={reason}
+                            className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] font-medium bg-orange-100 text-orange-700"
+                          >
+                            <ShieldAlert className="h-2.5 w-2.5" />
+                            {SPAM_REASON_LABELS[reason] || reason}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="py-2 text-xs">
+                    <a
+                      href={`/admin/products/${review.productId}`}
+                      className="font-medium text-foreground hover:underline"
+                    >
+                      {review.productName}
+                    </a>
+                  </TableCell>
+                  <TableCell className="py-2 text-xs">
+                    <div className="font-medium text-foreground">
+                      {review.customerName}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {review.customerPhone}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {new Date(review.createdAt).toLocaleDateString()}
+                    </div>
+                  </TableCell>
+                  <TableCell className="py-2 text-xs">
+                    <span
+                      className={cn(
+                        "px-2 py-0.5 rounded-full text-xs font-medium capitalize",
+                        STATUS_STYLES[review.status],
+                      )}
+                    >
+                      {review.status}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right pr-3 py-2">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={isActionLoading}
+                        >
+                          <MoreHorizontal className="h-3.5 w-3.5" />
+                          <span className="sr-only">Actions</span>
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" className="w-[170px]">
+                        {actions.map((action) => (
+                          <DropdownMenuItem
+                            key={action.status}
+                            onClick={() =>
+                              handleModerate([review.id], action.status)
+                            }
+                          >
+                            <action.icon className="mr-2 h-3.5 w-3.5" />
+                            {action.label}
+                          </DropdownMenuItem>
+                        ))}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          onClick={() => setIdsToDelete([review.id])}
+                          className="text-destructive focus:text-destructive focus:bg-destructive/10"
+                        >
+                          <Trash2 className="mr-2 h-3.5 w-3.5" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))}
+          </TableBody>
+        </Table>
+        {pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between border-t px-3 py-2">
+            <span className="text-xs text-muted-foreground">
+              Page {pagination.page} of {pagination.totalPages} (
+              {pagination.total} reviews)
+            </span>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-7 w-7"
+                disabled={page <= 1 || isLoading}
+                onClick={() => setPage((previous) => previous - 1)}
+              >
+                <ChevronLeft className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-7 w-7"
+                disabled={page >= pagination.totalPages || isLoading}
+                onClick={() => setPage((previous) => previous + 1)}
+              >
+                <ChevronRight className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog
+        open={!!idsToDelete}
+        onOpenChange={(open) => !open && setIdsToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete reviews?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {idsToDelete?.length === 1
+                ? "This review will be removed from the queue and the storefront."
+                : `${idsToDelete?.length} reviews will be removed from the queue and the storefront.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,333 @@
+import { type FC, useState } from "react";
+import type { ScheduledJobRun } from "@/db/schema";
+import type { ScheduledJobSummary } from "@/lib/jobs/runner";
+import { toast } from "sonner";
+
+const RUN_STATUS_STYLES: Record<string, string> = {
+  success: "text-green-600",
+  running: "text-amber-600",
+  failed: "text-red-600",
+};
+
+const INTERVAL_OPTIONS: { value: number; label: string }[] = [
+  { value: 5, label: "Every 5 minutes" },
+  { value: 15, label: "Every 15 minutes" },
+  { value: 30, label: "Every 30 minutes" },
+  { value: 60, label: "Hourly" },
+  { value: 180, label: "Every 3 hours" },
+  { value: 360, label: "Every 6 hours" },
+  { value: 720, label: "Every 12 hours" },
+  { value: 1440, label: "Daily" },
+  { value: 10080, label: "Weekly" },
+];
+
+interface ScheduledJobSettingsProps {
+  jobs: ScheduledJobSummary[];
+  runs: ScheduledJobRun[];
+}
+
+const formatTimestamp = (value: Date | string | null) =>
+  value ? new Date(value).toLocaleString() : "—";
+
+const formatDuration = (ms: number | null) =>
+  ms === null ? "—" : ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+const requestJson = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const detail = result.details?.[0]?.message;
+    throw new Error(detail || result.error || "Request failed");
+  }
+  return result;
+};
+
+const ScheduledJobSettings: FC<ScheduledJobSettingsProps> = ({
+  jobs: initialJobs,
+  runs: initialRuns,
+}) => {
+  const [jobs, setJobs] = useState<ScheduledJobSummary[]>(initialJobs);
+  const [runs, setRuns] = useState<ScheduledJobRun[]>(initialRuns);
+  // Run history filter; null shows runs of all jobs
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const [isLoadingRuns, setIsLoadingRuns] = useState(false);
+  const [savingJobId, setSavingJobId] = useState<string | null>(null);
+  const [runningJobId, setRunningJobId] = useState<string | null>(null);
+
+  const jobName = (jobId: string) =>
+    jobs.find((job) => job.id === jobId)?.name || jobId;
+
+  const loadRuns = async (jobId: string | null) => {
+    setIsLoadingRuns(true);
+    try {
+      if (jobId) {
+        setRuns(
+          await requestJson(`/api/settings/scheduled-jobs/${jobId}/runs`),
+        );
+      } else {
+        const result = await requestJson("/api/settings/scheduled-jobs");
+        setJobs(result.jobs);
+        setRuns(result.runs);
+      }
+    } catch (error) {
+      toast.error(
+        `Error loading run history: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      setIsLoadingRuns(false);
+    }
+  };
+
+  const handleSelectJob = (jobId: string | null) => {
+    setSelectedJobId(jobId);
+    loadRuns(jobId);
+  };
+
+  const replaceJob = (job: ScheduledJobSummary) => {
+    setJobs((prev) => prev.map((j) => (j.id === job.id ? job : j)));
+  };
+
+  const handleUpdate = async (
+    job: ScheduledJobSummary,
+    settings: { isEnabled?: boolean; intervalMinutes?: number },
+  ) => {
+    setSavingJobId(job.id);
+    try {
+      const saved: ScheduledJobSummary = await requestJson(
+        `/api/settings/scheduled-jobs/${job.id}`,
+        { method: "PUT", body: JSON.stringify(settings) },
+      );
+      replaceJob(saved);
+      toast.success(`${job.name} updated`);
+    } catch (error) {
+      toast.error(
+        `Error updating job: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      setSavingJobId(null);
+    }
+  };
+
+  const handleRunNow = async (job: ScheduledJobSummary) => {
+    setRunningJobId(job.id);
+    try {
+      const result = await requestJson(
+        `/api/settings/scheduled-jobs/${job.id}/run`,
+        { method: "POST" },
+      );
+
+      if (result.status === "success") {
+        toast.success(`${job.name}: ${result.message}`);
+      } else {
+        toast.error(`${job.name} failed: ${result.message}`);
+      }
+
+      const refreshed = await requestJson("/api/settings/scheduled-jobs");
+      setJobs(refreshed.jobs);
+      if (selectedJobId) {
+        await loadRuns(selectedJobId);
+      } else {
+        setRuns(refreshed.runs);
+      }
+    } catch (error) {
+      toast.error(
+        `Error running job: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      setRunningJobId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Jobs */}
+      <div className="border rounded p-4">
+        <h3 className="font-medium mb-4">Jobs</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4 font-medium">Job</th>
+                <th className="py-2 pr-4 font-medium">Enabled</th>
+                <th className="py-2 pr-4 font-medium">Interval</th>
+                <th className="py-2 pr-4 font-medium">Last Run</th>
+                <th className="py-2 pr-4 font-medium">Outcome</th>
+                <th className="py-2 pr-4 font-medium">Next Run</th>
+                <th className="py-2 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {jobs.map((job) => (
+                <tr key={job.id} className="border-b align-top">
+                  <td className="py-2 pr-4">
+                    <span className="font-medium">{job.name}</span>
+                    <span className="block text-xs text-gray-500">
+                      {job.description}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4">
+                    <input
+                      type="checkbox"
+                      className="rounded"
+                      checked={job.isEnabled}
+                      disabled={savingJobId === job.id}
+                      onChange={(e) =>
+                        handleUpdate(job, { isEnabled: e.target.checked })
+                      }
+                    />
+                  </td>
+                  <td className="py-2 pr-4">
+                    <select
+                      value={job.intervalMinutes}
+                      disabled={savingJobId === job.id}
+                      onChange={(e) =>
+                        handleUpdate(job, {
+                          intervalMinutes: Number(e.target.value),
+                        })
+                      }
+                      className="p-1 border rounded bg-background"
+                    >
+                      {/* Keep a custom interval selectable */}
+                      {!INTERVAL_OPTIONS.some(
+                        (option) => option.value === job.intervalMinutes,
+                      ) && (
+                        <option value={job.intervalMinutes}>
+                          Every {job.intervalMinutes} minutes
+                        </option>
+                      )}
+                      {INTERVAL_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2 pr-4 whitespace-nowrap">
+                    {formatTimestamp(job.lastRunAt)}
+                    {job.lastDurationMs !== null && (
+                      <span className="block text-xs text-gray-500">
+                        took {formatDuration(job.lastDurationMs)}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {job.isRunning ? (
+                      <span className="font-medium text-amber-600">
+                        running
+                      </span>
+                    ) : job.lastStatus ? (
+                      <>
+                        <span
+                          className={`font-medium ${RUN_STATUS_STYLES[job.lastStatus] || ""}`}
+                        >
+                          {job.lastStatus}
+                        </span>
+                        <span className="block text-xs text-gray-500">
+                          {job.lastMessage}
+                        </span>
+                      </>
+                    ) : (
+                      "—"
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 whitespace-nowrap">
+                    {job.isEnabled
+                      ? formatTimestamp(job.nextRunAt)
+                      : "Disabled"}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => handleRunNow(job)}
+                      className="px-3 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+                      disabled={runningJobId !== null || job.isRunning}
+                    >
+                      {runningJobId === job.id ? "Running..." : "Run Now"}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="mt-3 text-xs text-gray-500">
+          The Cloudflare cron trigger checks for due jobs every 5 minutes.
+          Locally, run <code>pnpm jobs:run --due</code>.
+        </p>
+      </div>
+
+      {/* Run History */}
+      <div className="border rounded p-4">
+        <div className="flex justify-between items-center mb-4 gap-2">
+          <h3 className="font-medium">Run History</h3>
+          <div className="flex items-center gap-2">
+            <select
+              value={selectedJobId ?? ""}
+              onChange={(e) => handleSelectJob(e.target.value || null)}
+              className="p-1 text-sm border rounded bg-background"
+            >
+              <option value="">All jobs</option>
+              {jobs.map((job) => (
+                <option key={job.id} value={job.id}>
+                  {job.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => loadRuns(selectedJobId)}
+              className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+              disabled={isLoadingRuns}
+            >
+              {isLoadingRuns ? "Loading..." : "Refresh"}
+            </button>
+          </div>
+        </div>
+
+        {runs.length === 0 ? (
+          <p className="text-gray-500">
+            {isLoadingRuns ? "Loading..." : "No runs yet"}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4 font-medium">Job</th>
+                  <th className="py-2 pr-4 font-medium">Trigger</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 pr-4 font-medium">Started</th>
+                  <th className="py-2 pr-4 font-medium">Duration</th>
+                  <th className="py-2 font-medium">Message</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((run) => (
+                  <tr key={run.id} className="border-b align-top">
+                    <td className="py-2 pr-4">{jobName(run.jobId)}</td>
+                    <td className="py-2 pr-4">{run.trigger}</td>
+                    <td
+                      className={`py-2 pr-4 font-medium ${RUN_STATUS_STYLES[run.status] || ""}`}
+                    >
+                      {run.status}
+                    </td>
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      {formatTimestamp(run.startedAt)}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {formatDuration(run.durationMs)}
+                    </td>
+                    <td className="py-2 break-words">{run.message || "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export { ScheduledJobSettings };
@@ -0,0 +1,176 @@
+import { type FC, useState } from "react";
+import { toast } from "sonner";
+
+interface SearchReportData {
+  totals: {
+    searches: number;
+    zeroResults: number;
+    clicks: number;
+    orders: number;
+    zeroResultRate: number;
+    clickThroughRate: number;
+    conversionRate: number;
+  };
+  topQueries: {
+    query: string;
+    searches: number;
+    averageResults: number;
+    clicks: number;
+    orders: number;
+  }[];
+  zeroResultQueries: {
+    query: string;
+    searches: number;
+    lastSearchedAt: string | Date;
+  }[];
+}
+
+interface SearchReportProps {
+  report: SearchReportData;
+  days: number;
+}
+
+const RANGES = [7, 30, 90];
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const SearchReport: FC<SearchReportProps> = ({
+  report: initialReport,
+  days: initialDays,
+}) => {
+  const [report, setReport] = useState<SearchReportData>(initialReport);
+  const [days, setDays] = useState(initialDays);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleRangeChange = async (value: number) => {
+    setDays(value);
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/settings/search-report?days=${value}`);
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || "Request failed");
+      }
+      setReport(result);
+    } catch (error) {
+      toast.error(
+        `Error loading search report: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const { totals } = report;
+  const stats = [
+    { label: "Searches", value: totals.searches.toLocaleString() },
+    {
+      label: "No results",
+      value: `${totals.zeroResults.toLocaleString()} (${formatRate(totals.zeroResultRate)})`,
+    },
+    { label: "Click-through", value: formatRate(totals.clickThroughRate) },
+    {
+      label: "Search to order",
+      value: `${formatRate(totals.conversionRate)} (${totals.orders.toLocaleString()} orders)`,
+    },
+  ];
+
+  return (
+    <div className="border rounded p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="font-medium mb-1">Search Report</h3>
+          <p className="text-sm text-gray-500">
+            What shoppers search for on the storefront. Queries with no results
+            are good candidates for a synonym or a new product.
+          </p>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => handleRangeChange(Number(e.target.value))}
+          className="p-2 border rounded bg-background"
+          disabled={isLoading}
+        >
+          {RANGES.map((range) => (
+            <option key={range} value={range}>
+              Last {range} days
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {stats.map((stat) => (
+          <div key={stat.label} className="border rounded p-3">
+            <p className="text-sm text-gray-500">{stat.label}</p>
+            <p className="text-lg font-semibold">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div>
+          <h4 className="font-medium mb-2">Top Queries</h4>
+          {report.topQueries.length === 0 ? (
+            <p className="text-sm text-gray-500">No searches yet</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-1">Query</th>
+                  <th className="py-1 text-right">Searches</th>
+                  <th className="py-1 text-right">Avg. results</th>
+                  <th className="py-1 text-right">Clicks</th>
+                  <th className="py-1 text-right">Orders</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {report.topQueries.map((row) => (
+                  <tr key={row.query}>
+                    <td className="py-1">{row.query}</td>
+                    <td className="py-1 text-right">{row.searches}</td>
+                    <td className="py-1 text-right">{row.averageResults}</td>
+                    <td className="py-1 text-right">{row.clicks}</td>
+                    <td className="py-1 text-right">{row.orders}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div>
+          <h4 className="font-medium mb-2">No Results</h4>
+          {report.zeroResultQueries.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Every search found something
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-1">Query</th>
+                  <th className="py-1 text-right">Searches</th>
+                  <th className="py-1 text-right">Last searched</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {report.zeroResultQueries.map((row) => (
+                  <tr key={row.query}>
+                    <td className="py-1">{row.query}</td>
+                    <td className="py-1 text-right">{row.searches}</td>
+                    <td className="py-1 text-right">
+                      {new Date(row.lastSearchedAt).toLocaleDateString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export { SearchReport };
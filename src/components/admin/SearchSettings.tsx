@@ -0,0 +1,328 @@
+import { type FC, useState } from "react";
+import type { SearchSynonym } from "@/db/schema";
+import { toast } from "sonner";
+
+interface SearchSettingsProps {
+  synonyms: SearchSynonym[];
+}
+
+interface SuggestPreview {
+  didYouMean: string | null;
+  completions: string[];
+  products: { id: string; highlightedName: string }[];
+}
+
+// Terms are entered comma separated: "t-shirt, tee, গেঞ্জি"
+const parseTerms = (value: string) =>
+  value
+    .split(",")
+    .map((term) => term.trim())
+    .filter(Boolean);
+
+const requestJson = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const detail = result.details?.[0]?.message;
+    throw new Error(detail || result.error || "Request failed");
+  }
+  return result;
+};
+
+// Matched words come wrapped in <mark>; render them without trusting the
+// rest of the text as HTML
+// Highlights are escaped HTML with the matches in <mark>
+const unescapeHtml = (text: string) =>
+  text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+
+const renderHighlighted = (text: string) =>
+  text
+    .split(/<\/?mark>/)
+    .map(unescapeHtml)
+    .map((part, index) =>
+      index % 2 === 1 ? <mark key={index}>{part}</mark> : part,
+    );
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+const SearchSettings: FC<SearchSettingsProps> = ({
+  synonyms: initialSynonyms,
+}) => {
+  const [synonyms, setSynonyms] = useState<SearchSynonym[]>(initialSynonyms);
+  const [newTerms, setNewTerms] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTerms, setEditingTerms] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [testQuery, setTestQuery] = useState("");
+  const [preview, setPreview] = useState<SuggestPreview | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [isReindexing, setIsReindexing] = useState(false);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      const group: SearchSynonym = await requestJson(
+        "/api/settings/search-synonyms",
+        {
+          method: "POST",
+          body: JSON.stringify({ terms: parseTerms(newTerms) }),
+        },
+      );
+      setSynonyms((prev) => [group, ...prev]);
+      setNewTerms("");
+      toast.success("Synonyms added");
+    } catch (error) {
+      toast.error(`Error adding synonyms: ${errorMessage(error)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdate = async (id: string) => {
+    setIsSaving(true);
+    try {
+      const group: SearchSynonym = await requestJson(
+        `/api/settings/search-synonyms/${id}`,
+        {
+          method: "PUT",
+          body: JSON.stringify({ terms: parseTerms(editingTerms) }),
+        },
+      );
+      setSynonyms((prev) => prev.map((g) => (g.id === id ? group : g)));
+      setEditingId(null);
+      toast.success("Synonyms updated");
+    } catch (error) {
+      toast.error(`Error updating synonyms: ${errorMessage(error)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (group: SearchSynonym) => {
+    if (!confirm(`Delete the synonyms "${group.terms.join(", ")}"?`)) return;
+
+    try {
+      await requestJson(`/api/settings/search-synonyms/${group.id}`, {
+        method: "DELETE",
+      });
+      setSynonyms((prev) => prev.filter((g) => g.id !== group.id));
+      toast.success("Synonyms deleted");
+    } catch (error) {
+      toast.error(`Error deleting synonyms: ${errorMessage(error)}`);
+    }
+  };
+
+  const handleTest = async () => {
+    if (!testQuery.trim()) return;
+
+    setIsTesting(true);
+    try {
+      const params = new URLSearchParams({
+        q: testQuery,
+        searchPages: "false",
+        searchCategories: "false",
+      });
+      setPreview(await requestJson(`/api/v1/search/suggest?${params}`));
+    } catch (error) {
+      toast.error(`Error testing search: ${errorMessage(error)}`);
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleReindex = async () => {
+    setIsReindexing(true);
+    try {
+      const result = await requestJson("/api/search/reindex", {
+        method: "POST",
+      });
+      toast.success(
+        `Indexed ${result.productsCount} products, ${result.categoriesCount} categories and ${result.pagesCount} pages`,
+      );
+    } catch (error) {
+      toast.error(`Error rebuilding search index: ${errorMessage(error)}`);
+    } finally {
+      setIsReindexing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Synonyms */}
+      <div className="border rounded p-4">
+        <h3 className="font-medium mb-1">Synonyms</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Words customers use for the same thing. Searching for any word in a
+          group also finds products named with the others, e.g.{" "}
+          <code>t-shirt, tee, গেঞ্জি</code>.
+        </p>
+
+        <div className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={newTerms}
+            onChange={(e) => setNewTerms(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && newTerms.trim()) handleCreate();
+            }}
+            placeholder="Comma separated terms"
+            className="flex-1 p-2 border rounded bg-background"
+          />
+          <button
+            onClick={handleCreate}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+            disabled={isSaving || parseTerms(newTerms).length < 2}
+          >
+            Add
+          </button>
+        </div>
+
+        {synonyms.length === 0 ? (
+          <p className="text-gray-500">No synonyms yet</p>
+        ) : (
+          <ul className="divide-y border-t">
+            {synonyms.map((group) => (
+              <li key={group.id} className="py-2 flex items-center gap-2">
+                {editingId === group.id ? (
+                  <>
+                    <input
+                      type="text"
+                      value={editingTerms}
+                      onChange={(e) => setEditingTerms(e.target.value)}
+                      className="flex-1 p-1 border rounded bg-background"
+                      autoFocus
+                    />
+                    <button
+                      onClick={() => handleUpdate(group.id)}
+                      className="px-3 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+                      disabled={isSaving}
+                    >
+                      Save
+                    </button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="px-3 py-1 text-xs bg-gray-200 text-gray-800 rounded hover:bg-gray-300 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <div className="flex-1 flex flex-wrap gap-1">
+                      {group.terms.map((term) => (
+                        <span
+                          key={term}
+                          className="px-2 py-0.5 text-sm bg-muted rounded"
+                        >
+                          {term}
+                        </span>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => {
+                        setEditingId(group.id);
+                        setEditingTerms(group.terms.join(", "));
+                      }}
+                      className="px-3 py-1 text-xs bg-gray-200 text-gray-800 rounded hover:bg-gray-300 transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(group)}
+                      className="px-3 py-1 text-xs bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Try a query */}
+      <div className="border rounded p-4">
+        <h3 className="font-medium mb-1">Try a Search</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          See what the storefront suggests for a query, including spelling
+          corrections and Bangla/English matches.
+        </p>
+
+        <div className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={testQuery}
+            onChange={(e) => setTestQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleTest();
+            }}
+            placeholder="e.g. shrit or sharee"
+            className="flex-1 p-2 border rounded bg-background"
+          />
+          <button
+            onClick={handleTest}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+            disabled={isTesting || !testQuery.trim()}
+          >
+            {isTesting ? "Searching..." : "Search"}
+          </button>
+        </div>
+
+        {preview && (
+          <div className="space-y-2 text-sm">
+            {preview.didYouMean && (
+              <p>
+                Did you mean{" "}
+                <span className="font-medium">{preview.didYouMean}</span>?
+              </p>
+            )}
+            {preview.completions.length > 0 && (
+              <p className="text-gray-500">
+                Completions: {preview.completions.join(", ")}
+              </p>
+            )}
+            {preview.products.length === 0 ? (
+              <p className="text-gray-500">No products found</p>
+            ) : (
+              <ul className="list-disc pl-5">
+                {preview.products.map((product) => (
+                  <li key={product.id}>
+                    {renderHighlighted(product.highlightedName)}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Index */}
+      <div className="border rounded p-4">
+        <h3 className="font-medium mb-1">Search Index</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          The index updates whenever products, categories or pages change.
+          Rebuild it only after editing the database directly.
+        </p>
+        <button
+          onClick={handleReindex}
+          className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+          disabled={isReindexing}
+        >
+          {isReindexing ? "Rebuilding..." : "Rebuild Index"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export { SearchSettings };
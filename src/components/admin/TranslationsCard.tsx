@@ -0,0 +1,294 @@
+import React from "react";
+import { toast } from "sonner";
+import { Languages, Loader2, Save } from "lucide-react";
+import type { TranslatableEntity } from "@/db/schema";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Textarea } from "../ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { TiptapEditor } from "../ui/tiptap-editor";
+
+export interface TranslatableField {
+  entityType: TranslatableEntity;
+  entityId: string;
+  field: string;
+  label: string;
+  type: "text" | "textarea" | "richtext";
+  // Content in the default language, shown next to the translation
+  baseValue: string | null | undefined;
+  // Heading shown above the field, e.g. the additional info section title
+  group?: string;
+}
+
+interface StoredTranslation {
+  entityType: TranslatableEntity;
+  entityId: string;
+  locale: string;
+  field: string;
+  value: string;
+}
+
+interface TranslationsResponse {
+  defaultLocale: string;
+  locales: string[];
+  names: Record<string, string>;
+  translations: StoredTranslation[];
+}
+
+interface TranslationsCardProps {
+  // e.g. /api/categories/:id/translations
+  endpoint: string;
+  fields: TranslatableField[];
+  description?: string;
+}
+
+const keyOf = (item: { entityType: string; entityId: string; field: string }) =>
+  `${item.entityType}:${item.entityId}:${item.field}`;
+
+/**
+ * Side by side editor for the content of a record in the store's other
+ * languages. Saved separately from the form it sits in.
+ */
+export function TranslationsCard({
+  endpoint,
+  fields,
+  description = "Translate this content into the store's other languages. Empty fields show the default language.",
+}: TranslationsCardProps) {
+  const [store, setStore] = React.useState<TranslationsResponse | null>(null);
+  const [locale, setLocale] = React.useState<string>("");
+  const [values, setValues] = React.useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const otherLocales = React.useMemo(
+    () =>
+      store ? store.locales.filter((code) => code !== store.defaultLocale) : [],
+    [store],
+  );
+
+  // Fill the inputs with the saved translations of a locale
+  const loadValues = React.useCallback(
+    (data: TranslationsResponse, code: string) => {
+      const saved: Record<string, string> = {};
+      for (const item of data.translations) {
+        if (item.locale === code) saved[keyOf(item)] = item.value;
+      }
+      setValues(saved);
+    },
+    [],
+  );
+
+  React.useEffect(() => {
+    const fetchTranslations = async () => {
+      try {
+        const response = await fetch(endpoint);
+        if (!response.ok) throw new Error("Failed to load translations");
+        const data: TranslationsResponse = await response.json();
+        const first =
+          data.locales.find((code) => code !== data.defaultLocale) ?? "";
+        setStore(data);
+        setLocale(first);
+        loadValues(data, first);
+      } catch (error) {
+        console.error("Error fetching translations:", error);
+        toast.error("Failed to load translations");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTranslations();
+  }, [endpoint, loadValues]);
+
+  const handleLocaleChange = (code: string) => {
+    setLocale(code);
+    if (store) loadValues(store, code);
+  };
+
+  const handleSave = async () => {
+    if (!locale) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(endpoint, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          locale,
+          entries: fields.map((field) => ({
+            entityType: field.entityType,
+            entityId: field.entityId,
+            field: field.field,
+            value: values[keyOf(field)] ?? "",
+          })),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save translations");
+      }
+
+      setStore(data);
+      loadValues(data, locale);
+      toast.success("Translations saved", {
+        description: `${data.names[locale] || locale} content has been updated.`,
+      });
+    } catch (error: any) {
+      console.error("Error saving translations:", error);
+      toast.error(error.message || "Failed to save translations");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setValue = (key: string, value: string) =>
+    setValues((previous) => ({ ...previous, [key]: value }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Languages className="h-5 w-5" />
+          Translations
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading translations...
+          </div>
+        ) : !store || otherLocales.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Add another language under{" "}
+            <a
+              href="/admin/settings/checkout-languages"
+              className="underline underline-offset-2"
+            >
+              Checkout Languages
+            </a>{" "}
+            to translate this content.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+              <Label className="shrink-0">Language</Label>
+              <Select value={locale} onValueChange={handleLocaleChange}>
+                <SelectTrigger className="sm:w-64">
+                  <SelectValue placeholder="Select a language" />
+                </SelectTrigger>
+                <SelectContent>
+                  {otherLocales.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {store.names[code] || code} ({code})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="hidden md:grid md:grid-cols-2 gap-4 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+              <span>
+                {store.names[store.defaultLocale] || store.defaultLocale}{" "}
+                (default)
+              </span>
+              <span>{store.names[locale] || locale}</span>
+            </div>
+
+            {fields.map((field, index) => {
+              const key = keyOf(field);
+              const showGroup =
+                field.group && field.group !== fields[index - 1]?.group;
+              return (
+                <React.Fragment key={key}>
+                  {showGroup && (
+                    <h4 className="pt-2 text-sm font-semibold">
+                      {field.group}
+                    </h4>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor={`translation-${key}`}>{field.label}</Label>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {field.type === "richtext" ? (
+                        <div
+                          className="rounded-md border bg-muted/40 px-3 py-2 text-sm prose prose-sm max-w-none dark:prose-invert"
+                          dangerouslySetInnerHTML={{
+                            __html: field.baseValue || "",
+                          }}
+                        />
+                      ) : (
+                        <div className="rounded-md border bg-muted/40 px-3 py-2 text-sm whitespace-pre-wrap break-words">
+                          {field.baseValue || (
+                            <span className="text-muted-foreground">Empty</span>
+                          )}
+                        </div>
+                      )}
+
+                      {field.type === "richtext" ? (
+                        <TiptapEditor
+                          key={`${locale}-${key}`}
+                          content={values[key] ?? ""}
+                          onChange={(value) => setValue(key, value)}
+                          placeholder={`${field.label} in ${store.names[locale] || locale}`}
+                          compact
+                        />
+                      ) : field.type === "textarea" ? (
+                        <Textarea
+                          id={`translation-${key}`}
+                          value={values[key] ?? ""}
+                          onChange={(e) => setValue(key, e.target.value)}
+                          className="min-h-[80px]"
+                        />
+                      ) : (
+                        <Input
+                          id={`translation-${key}`}
+                          value={values[key] ?? ""}
+                          onChange={(e) => setValue(key, e.target.value)}
+                        />
+                      )}
+                    </div>
+                  </div>
+                </React.Fragment>
+              );
+            })}
+
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving || !locale}
+              >
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <Save className="mr-2 h-4 w-4" />
+                    Save Translations
+                  </>
+                )}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,715 @@
+import { type FC, Fragment, useEffect, useState } from "react";
+import type { WebhookDelivery } from "@/db/schema";
+import type { PublicWebhookEndpoint } from "@/lib/webhooks/service";
+import { toast } from "sonner";
+
+// Event options, in the order they are shown
+const EVENT_OPTIONS: { value: string; label: string; description: string }[] = [
+  {
+    value: "order.created",
+    label: "Order created",
+    description: "A new order was placed",
+  },
+  {
+    value: "order.status_changed",
+    label: "Order status changed",
+    description: "An order moved to another status",
+  },
+  {
+    value: "shipment.updated",
+    label: "Shipment updated",
+    description: "A courier reported a new shipment status",
+  },
+  {
+    value: "product.stock_low",
+    label: "Stock low",
+    description: "A variant's stock dropped to its low-stock threshold",
+  },
+  {
+    value: "customer.created",
+    label: "Customer created",
+    description: "A new customer record was created",
+  },
+];
+
+const DELIVERY_STATUS_STYLES: Record<string, string> = {
+  success: "text-green-600",
+  pending: "text-amber-600",
+  failed: "text-red-600",
+};
+
+interface WebhookSettingsProps {
+  endpoints: PublicWebhookEndpoint[];
+}
+
+interface EndpointFormData {
+  id: string;
+  name: string;
+  url: string;
+  events: string[];
+  isActive: boolean;
+}
+
+const emptyForm = (): EndpointFormData => ({
+  id: "",
+  name: "",
+  url: "",
+  events: EVENT_OPTIONS.map((option) => option.value),
+  isActive: true,
+});
+
+const formatTimestamp = (value: Date | string | null) =>
+  value ? new Date(value).toLocaleString() : "—";
+
+const requestJson = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const detail = result.details?.[0]?.message;
+    throw new Error(detail || result.error || "Request failed");
+  }
+  return result;
+};
+
+const WebhookSettings: FC<WebhookSettingsProps> = ({
+  endpoints: initialEndpoints,
+}) => {
+  const [endpoints, setEndpoints] =
+    useState<PublicWebhookEndpoint[]>(initialEndpoints);
+  const [selectedEndpoint, setSelectedEndpoint] =
+    useState<PublicWebhookEndpoint | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [formData, setFormData] = useState<EndpointFormData>(emptyForm());
+  // Full secret, only known right after it was generated
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoadingDeliveries, setIsLoadingDeliveries] = useState(false);
+  const [expandedDeliveryId, setExpandedDeliveryId] = useState<string | null>(
+    null,
+  );
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+  const loadDeliveries = async (endpointId: string) => {
+    setIsLoadingDeliveries(true);
+    try {
+      setDeliveries(
+        await requestJson(`/api/settings/webhooks/${endpointId}/deliveries`),
+      );
+    } catch (error) {
+      toast.error(
+        `Error loading deliveries: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      setIsLoadingDeliveries(false);
+    }
+  };
+
+  useEffect(() => {
+    setExpandedDeliveryId(null);
+    if (selectedEndpoint) {
+      loadDeliveries(selectedEndpoint.id);
+    } else {
+      setDeliveries([]);
+    }
+  }, [selectedEndpoint?.id]);
+
+  const resetForm = (endpoint?: PublicWebhookEndpoint) => {
+    setFormData(
+      endpoint
+        ? {
+            id: endpoint.id,
+            name: endpoint.name,
+            url: endpoint.url,
+            events: endpoint.events,
+            isActive: endpoint.isActive,
+          }
+        : emptyForm(),
+    );
+  };
+
+  const replaceEndpoint = (endpoint: PublicWebhookEndpoint) => {
+    setEndpoints((prev) =>
+      prev.some((e) => e.id === endpoint.id)
+        ? prev.map((e) => (e.id === endpoint.id ? endpoint : e))
+        : [endpoint, ...prev],
+    );
+    setSelectedEndpoint(endpoint);
+    resetForm(endpoint);
+  };
+
+  const toggleEvent = (event: string, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      events: checked
+        ? [...prev.events, event]
+        : prev.events.filter((e) => e !== event),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!formData.name || !formData.url) {
+      toast.error("Name and URL are required");
+      return;
+    }
+    if (formData.events.length === 0) {
+      toast.error("Select at least one event");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { id, ...body } = formData;
+      const saved: PublicWebhookEndpoint = await requestJson(
+        id ? `/api/settings/webhooks/${id}` : "/api/settings/webhooks",
+        { method: id ? "PUT" : "POST", body: JSON.stringify(body) },
+      );
+
+      if (!id) {
+        setRevealedSecret(saved.secret);
+      }
+      replaceEndpoint(saved);
+      setIsEditing(false);
+      setIsCreating(false);
+      toast.success("Webhook endpoint saved");
+    } catch (error) {
+      toast.error(
+        `Error saving endpoint: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRotateSecret = async () => {
+    if (!selectedEndpoint) return;
+
+    if (
+      !confirm(
+        "Generate a new signing secret? Requests signed with the old secret will stop verifying on the receiving side.",
+      )
+    ) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved: PublicWebhookEndpoint = await requestJson(
+        `/api/settings/webhooks/${selectedEndpoint.id}`,
+        {
+          method: "PUT",
+          body: JSON.stringify({
+            name: selectedEndpoint.name,
+            url: selectedEndpoint.url,
+            events: selectedEndpoint.events,
+            isActive: selectedEndpoint.isActive,
+            rotateSecret: true,
+          }),
+        },
+      );
+
+      setRevealedSecret(saved.secret);
+      replaceEndpoint(saved);
+      toast.success("Signing secret rotated");
+    } catch (error) {
+      toast.error(
+        `Error rotating secret: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedEndpoint) return;
+
+    if (
+      !confirm(
+        `Delete ${selectedEndpoint.name}? Its delivery log is deleted as well.`,
+      )
+    ) {
+      return;
+    }
+
+    setIsDeleting(true);
+    try {
+      await requestJson(`/api/settings/webhooks/${selectedEndpoint.id}`, {
+        method: "DELETE",
+      });
+      setEndpoints((prev) => prev.filter((e) => e.id !== selectedEndpoint.id));
+      setSelectedEndpoint(null);
+      setRevealedSecret(null);
+      toast.success("Webhook endpoint deleted");
+    } catch (error) {
+      toast.error(
+        `Error deleting endpoint: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleTest = async () => {
+    if (!selectedEndpoint) return;
+
+    setIsTesting(true);
+    try {
+      const result = await requestJson(
+        `/api/settings/webhooks/${selectedEndpoint.id}/test`,
+        { method: "POST" },
+      );
+
+      if (result.success) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+      await loadDeliveries(selectedEndpoint.id);
+    } catch (error) {
+      toast.error(
+        `Error sending test event: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleRedeliver = async (deliveryId: string) => {
+    if (!selectedEndpoint) return;
+
+    setRedeliveringId(deliveryId);
+    try {
+      const result = await requestJson(
+        `/api/settings/webhooks/deliveries/${deliveryId}/redeliver`,
+        { method: "POST" },
+      );
+
+      if (result.success) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+      await loadDeliveries(selectedEndpoint.id);
+    } catch (error) {
+      toast.error(
+        `Error redelivering: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  const handleCreate = () => {
+    resetForm();
+    setIsCreating(true);
+    setIsEditing(true);
+    setSelectedEndpoint(null);
+    setRevealedSecret(null);
+  };
+
+  const handleEdit = () => {
+    if (!selectedEndpoint) return;
+    resetForm(selectedEndpoint);
+    setIsEditing(true);
+    setIsCreating(false);
+  };
+
+  const handleCancel = () => {
+    setIsEditing(false);
+    setIsCreating(false);
+    if (selectedEndpoint) {
+      resetForm(selectedEndpoint);
+    }
+  };
+
+  const handleSelect = (endpoint: PublicWebhookEndpoint) => {
+    setSelectedEndpoint(endpoint);
+    resetForm(endpoint);
+    setIsEditing(false);
+    setIsCreating(false);
+    setRevealedSecret(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Endpoints</h2>
+        <button
+          onClick={handleCreate}
+          className="px-4 py-2 bg-foreground text-background rounded hover:bg-primary/90 transition-colors"
+        >
+          Add Endpoint
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* Endpoint List */}
+        <div className="col-span-1 border rounded p-4">
+          <h3 className="font-medium mb-4">Configured Endpoints</h3>
+          {endpoints.length === 0 ? (
+            <p className="text-gray-500">No endpoints configured</p>
+          ) : (
+            <ul className="space-y-2">
+              {endpoints.map((endpoint) => (
+                <li
+                  key={endpoint.id}
+                  className={`p-2 rounded cursor-pointer ${
+                    selectedEndpoint?.id === endpoint.id
+                      ? "bg-background border border-gray-300"
+                      : "hover:bg-background border border-transparent"
+                  }`}
+                  onClick={() => handleSelect(endpoint)}
+                >
+                  <div className="flex items-center space-x-2">
+                    <span
+                      className={`w-2 h-2 rounded-full ${
+                        endpoint.isActive ? "bg-green-500" : "bg-gray-300"
+                      }`}
+                    ></span>
+                    <span className="font-medium">{endpoint.name}</span>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1 truncate">
+                    {endpoint.url}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Endpoint Details */}
+        <div className="col-span-1 md:col-span-2 border rounded p-4">
+          <h3 className="font-medium mb-4">
+            {isCreating
+              ? "New Endpoint"
+              : selectedEndpoint
+                ? "Endpoint Details"
+                : "Select an Endpoint"}
+          </h3>
+
+          {(selectedEndpoint || isCreating) && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-1">Name</label>
+                  {isEditing ? (
+                    <input
+                      type="text"
+                      value={formData.name}
+                      onChange={(e) =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          name: e.target.value,
+                        }))
+                      }
+                      className="w-full p-2 border rounded"
+                    />
+                  ) : (
+                    <p>{formData.name}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Status
+                  </label>
+                  {isEditing ? (
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={formData.isActive}
+                        onChange={(e) =>
+                          setFormData((prev) => ({
+                            ...prev,
+                            isActive: e.target.checked,
+                          }))
+                        }
+                        className="rounded"
+                        id="webhook-endpoint-active"
+                      />
+                      <label
+                        htmlFor="webhook-endpoint-active"
+                        className="text-sm select-none"
+                      >
+                        Active
+                      </label>
+                    </div>
+                  ) : (
+                    <p>
+                      {formData.isActive ? (
+                        <span className="text-green-600 font-medium">
+                          Active
+                        </span>
+                      ) : (
+                        <span className="text-gray-600">Inactive</span>
+                      )}
+                    </p>
+                  )}
+                </div>
+
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium mb-1">URL</label>
+                  {isEditing ? (
+                    <input
+                      type="url"
+                      placeholder="https://example.com/webhooks"
+                      value={formData.url}
+                      onChange={(e) =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          url: e.target.value,
+                        }))
+                      }
+                      className="w-full p-2 border rounded"
+                    />
+                  ) : (
+                    <p className="break-all">{formData.url}</p>
+                  )}
+                </div>
+              </div>
+
+              {/* Events */}
+              <div>
+                <h4 className="font-medium mb-2">Events</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {EVENT_OPTIONS.map((option) => (
+                    <label
+                      key={option.value}
+                      className="flex items-start space-x-2 text-sm"
+                    >
+                      <input
+                        type="checkbox"
+                        className="mt-1 rounded"
+                        checked={formData.events.includes(option.value)}
+                        disabled={!isEditing}
+                        onChange={(e) =>
+                          toggleEvent(option.value, e.target.checked)
+                        }
+                      />
+                      <span>
+                        <span className="font-medium">{option.label}</span>{" "}
+                        <code className="text-xs text-gray-500">
+                          {option.value}
+                        </code>
+                        <span className="block text-xs text-gray-500">
+                          {option.description}
+                        </span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {/* Signing Secret */}
+              {selectedEndpoint && (
+                <div>
+                  <h4 className="font-medium mb-2">Signing Secret</h4>
+                  <code className="block p-2 border rounded text-sm break-all">
+                    {revealedSecret || selectedEndpoint.secret}
+                  </code>
+                  {revealedSecret ? (
+                    <p className="mt-2 text-sm text-amber-600">
+                      Copy this secret now. It will not be shown again.
+                    </p>
+                  ) : null}
+                  <p className="mt-2 text-xs text-gray-500">
+                    Each request carries an{" "}
+                    <code>
+                      X-Webhook-Signature: t=&lt;timestamp&gt;,v1=&lt;hex&gt;
+                    </code>{" "}
+                    header. <code>v1</code> is the HMAC-SHA256 of{" "}
+                    <code>&lt;timestamp&gt;.&lt;raw body&gt;</code> keyed with
+                    this secret.
+                  </p>
+                </div>
+              )}
+
+              {/* Form Actions */}
+              <div className="flex flex-wrap gap-2 pt-4">
+                {isEditing ? (
+                  <>
+                    <button
+                      onClick={handleSave}
+                      className="px-4 py-2 bg-primary text-white rounded hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      disabled={isSaving}
+                    >
+                      {isSaving ? "Saving..." : "Save"}
+                    </button>
+                    <button
+                      onClick={handleCancel}
+                      className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={handleEdit}
+                      className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300 transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={handleTest}
+                      className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      disabled={isTesting}
+                    >
+                      {isTesting ? "Sending..." : "Send Test Event"}
+                    </button>
+                    <button
+                      onClick={handleRotateSecret}
+                      className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      disabled={isSaving}
+                    >
+                      Rotate Secret
+                    </button>
+                    <button
+                      onClick={handleDelete}
+                      className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      disabled={isDeleting}
+                    >
+                      {isDeleting ? "Deleting..." : "Delete"}
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          {!selectedEndpoint && !isCreating && (
+            <p className="text-gray-500">
+              Select an endpoint to view details or create a new one.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Delivery Log */}
+      {selectedEndpoint && !isCreating && (
+        <div className="border rounded p-4">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="font-medium">Recent Deliveries</h3>
+            <button
+              onClick={() => loadDeliveries(selectedEndpoint.id)}
+              className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+              disabled={isLoadingDeliveries}
+            >
+              {isLoadingDeliveries ? "Loading..." : "Refresh"}
+            </button>
+          </div>
+
+          {deliveries.length === 0 ? (
+            <p className="text-gray-500">
+              {isLoadingDeliveries ? "Loading..." : "No deliveries yet"}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Event</th>
+                    <th className="py-2 pr-4 font-medium">Status</th>
+                    <th className="py-2 pr-4 font-medium">Attempts</th>
+                    <th className="py-2 pr-4 font-medium">Response</th>
+                    <th className="py-2 pr-4 font-medium">Created</th>
+                    <th className="py-2 pr-4 font-medium">Next Retry</th>
+                    <th className="py-2 font-medium"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {deliveries.map((delivery) => (
+                    <Fragment key={delivery.id}>
+                      <tr
+                        className="border-b cursor-pointer hover:bg-background"
+                        onClick={() =>
+                          setExpandedDeliveryId((current) =>
+                            current === delivery.id ? null : delivery.id,
+                          )
+                        }
+                      >
+                        <td className="py-2 pr-4 font-mono text-xs">
+                          {delivery.event}
+                        </td>
+                        <td
+                          className={`py-2 pr-4 font-medium ${DELIVERY_STATUS_STYLES[delivery.status] || ""}`}
+                        >
+                          {delivery.status}
+                        </td>
+                        <td className="py-2 pr-4">{delivery.attempts}</td>
+                        <td className="py-2 pr-4">
+                          {delivery.responseStatus ?? "—"}
+                        </td>
+                        <td className="py-2 pr-4 whitespace-nowrap">
+                          {formatTimestamp(delivery.createdAt)}
+                        </td>
+                        <td className="py-2 pr-4 whitespace-nowrap">
+                          {delivery.status === "pending"
+                            ? formatTimestamp(delivery.nextAttemptAt)
+                            : "—"}
+                        </td>
+                        <td className="py-2 text-right">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleRedeliver(delivery.id);
+                            }}
+                            className="px-3 py-1 text-xs bg-gray-200 text-gray-800 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+                            disabled={redeliveringId !== null}
+                          >
+                            {redeliveringId === delivery.id
+                              ? "Sending..."
+                              : "Redeliver"}
+                          </button>
+                        </td>
+                      </tr>
+                      {expandedDeliveryId === delivery.id && (
+                        <tr className="border-b">
+                          <td colSpan={7} className="py-3 space-y-2">
+                            {delivery.error && (
+                              <p className="text-red-600">{delivery.error}</p>
+                            )}
+                            <div>
+                              <p className="text-xs font-medium mb-1">
+                                Payload
+                              </p>
+                              <pre className="p-2 border rounded text-xs overflow-x-auto">
+                                {JSON.stringify(
+                                  JSON.parse(delivery.payload),
+                                  null,
+                                  2,
+                                )}
+                              </pre>
+                            </div>
+                            {delivery.responseBody && (
+                              <div>
+                                <p className="text-xs font-medium mb-1">
+                                  Response Body
+                                </p>
+                                <pre className="p-2 border rounded text-xs overflow-x-auto whitespace-pre-wrap">
+                                  {delivery.responseBody}
+                                </pre>
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export { WebhookSettings };
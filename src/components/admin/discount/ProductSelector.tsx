@@ -244,6 +244,7 @@ export function ProductSelector({
               {currentPage < totalPages && (
                 <div className="py-2 px-2 border-t">
                   <Button
+                    type="button"
                     variant="outline"
                     className="w-full"
                     size="sm"
@@ -280,6 +281,7 @@ export function ProductSelector({
             >
               <span className="truncate max-w-[180px]">{product.name}</span>
               <Button
+                type="button"
                 variant="ghost"
                 size="icon"
                 className="h-4 w-4 p-0 ml-1"
@@ -17,7 +17,7 @@ import {
   type DropResult,
 } from "@hello-pangea/dnd";
 import { cn } from "@/lib/utils";
-import { NavigationBuilder } from "../navigation";
+import { LabelTranslations, NavigationBuilder } from "../navigation";
 import type { FooterMenu, NavigationItem } from "./types";
 
 interface NavigationMenusSectionProps {
@@ -66,6 +66,13 @@ export function NavigationMenusSection({
     onChange(menus.map((m) => (m.id === id ? { ...m, title } : m)));
   };
 
+  const updateMenuTranslations = (
+    id: string,
+    translations: Record<string, string> | undefined,
+  ) => {
+    onChange(menus.map((m) => (m.id === id ? { ...m, translations } : m)));
+  };
+
   const updateMenuLinks = (menuId: string, links: NavigationItem[]) => {
     onChange(menus.map((m) => (m.id === menuId ? { ...m, links } : m)));
   };
@@ -156,6 +163,17 @@ export function NavigationMenusSection({
                                   className="h-8 w-[200px]"
                                   onClick={(e) => e.stopPropagation()}
                                 />
+                                <LabelTranslations
+                                  label={menu.title}
+                                  translations={menu.translations}
+                                  onChange={(translations) =>
+                                    updateMenuTranslations(
+                                      menu.id,
+                                      translations,
+                                    )
+                                  }
+                                  className="h-8 w-8"
+                                />
                                 <Button
                                   size="icon"
                                   variant="ghost"
@@ -25,6 +25,7 @@ export interface NavigationItem {
   id: string;
   title: string;
   href?: string;
+  translations?: Record<string, string>; // Title by locale, e.g. { bn: "দোকান" }
   subMenu?: NavigationItem[];
 }
 
@@ -34,6 +35,7 @@ export interface NavigationItem {
 export interface FooterMenu {
   id: string;
   title: string;
+  translations?: Record<string, string>; // Title by locale, e.g. { bn: "দোকান" }
   links: NavigationItem[];
 }
 
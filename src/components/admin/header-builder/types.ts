@@ -50,6 +50,7 @@ export interface NavigationItem {
   id: string;
   title: string;
   href?: string;
+  translations?: Record<string, string>; // Title by locale, e.g. { bn: "দোকান" }
   subMenu?: NavigationItem[];
 }
 
@@ -0,0 +1,97 @@
+// src/components/admin/navigation/LabelTranslations.tsx
+import { Languages } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { useStoreLocales } from "@/hooks/use-store-locales";
+
+interface LabelTranslationsProps {
+  label: string;
+  translations?: Record<string, string>;
+  onChange: (translations: Record<string, string> | undefined) => void;
+  className?: string;
+}
+
+/**
+ * Button opening the translations of a menu label, one per store language.
+ * Hidden while the store has a single language.
+ */
+export function LabelTranslations({
+  label,
+  translations,
+  onChange,
+  className,
+}: LabelTranslationsProps) {
+  const { translationLocales } = useStoreLocales();
+  if (translationLocales.length === 0) return null;
+
+  const translatedCount = translationLocales.filter((locale) =>
+    translations?.[locale.code]?.trim(),
+  ).length;
+
+  const updateTranslation = (code: string, value: string) => {
+    const next = { ...translations };
+    if (value) {
+      next[code] = value;
+    } else {
+      delete next[code];
+    }
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className={cn(
+            "h-7 w-7",
+            translatedCount > 0 && "text-primary",
+            className,
+          )}
+          title={`Translations (${translatedCount}/${translationLocales.length})`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Languages className="h-3.5 w-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="end"
+        className="w-72 space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <p className="text-sm font-medium">Translations</p>
+          <p className="text-xs text-muted-foreground truncate">
+            {label || "Menu label"}
+          </p>
+        </div>
+        {translationLocales.map((locale) => (
+          <div key={locale.code} className="space-y-1">
+            <Label
+              htmlFor={`label-translation-${locale.code}`}
+              className="text-xs"
+            >
+              {locale.name} ({locale.code})
+            </Label>
+            <Input
+              id={`label-translation-${locale.code}`}
+              value={translations?.[locale.code] || ""}
+              onChange={(e) => updateTranslation(locale.code, e.target.value)}
+              className="h-8 text-sm"
+              placeholder={label}
+            />
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
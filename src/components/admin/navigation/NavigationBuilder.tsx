@@ -326,7 +326,7 @@ export function NavigationBuilder({
                       <TableHead className="w-[60px] pl-3">Order</TableHead>
                       <TableHead>Label</TableHead>
                       <TableHead>URL</TableHead>
-                      <TableHead className="w-[100px] text-right pr-3">
+                      <TableHead className="w-[130px] text-right pr-3">
                         Actions
                       </TableHead>
                     </TableRow>
@@ -28,6 +28,7 @@ import { Draggable, Droppable } from "@hello-pangea/dnd";
 import { cn } from "@/lib/utils";
 import type { NavigationItem } from "./types";
 import { MAX_NAV_DEPTH, getDepthColor } from "./types";
+import { LabelTranslations } from "./LabelTranslations";
 
 interface SortableNavItemProps {
   item: NavigationItem;
@@ -206,8 +207,16 @@ export function SortableNavItem({
             </TableCell>
 
             {/* Actions */}
-            <TableCell className="p-2 w-[100px]">
+            <TableCell className="p-2 w-[130px]">
               <div className="flex items-center justify-end gap-0.5">
+                <LabelTranslations
+                  label={item.title}
+                  translations={item.translations}
+                  onChange={(translations) =>
+                    onUpdate(parentPath, index, { translations })
+                  }
+                />
+
                 {canAddChildren && (
                   <Button
                     variant="ghost"
@@ -2,4 +2,5 @@
 export { NavigationBuilder } from "./NavigationBuilder";
 export { SortableNavItem } from "./SortableNavItem";
 export { AddNavItemDialog } from "./AddNavItemDialog";
+export { LabelTranslations } from "./LabelTranslations";
 export * from "./types";
@@ -4,6 +4,7 @@ export interface NavigationItem {
   id: string;
   title: string;
   href?: string; // Optional - can have both href AND subMenu for dropdown links
+  translations?: Record<string, string>; // Title by locale, e.g. { bn: "দোকান" }
   subMenu?: NavigationItem[];
 }
 
@@ -10,6 +10,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { FormLabel } from "@/components/ui/form";
 import { Plus } from "lucide-react";
+import { formatVariantOptions } from "@/lib/catalog/variant-options";
 import type { Product } from "./types";
 import { useOrderForm } from "./OrderFormContext";
 
@@ -92,12 +93,7 @@ export function ItemSelection({
               .filter((variant) => variant.id)
               .map((variant) => {
                 const variantLabel =
-                  [
-                    variant.size && `Size: ${variant.size}`,
-                    variant.color && `Color: ${variant.color}`,
-                  ]
-                    .filter(Boolean)
-                    .join(", ") ||
+                  formatVariantOptions(variant.options) ||
                   variant.sku ||
                   "Variant";
 
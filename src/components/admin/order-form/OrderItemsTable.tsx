@@ -8,6 +8,7 @@ import {
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Trash, ShoppingBag } from "lucide-react";
+import { formatVariantOptions } from "@/lib/catalog/variant-options";
 import type { OrderItem } from "./types";
 import { useOrderForm } from "./OrderFormContext";
 import { updateOrderItems } from "@/store/orderStore";
@@ -71,12 +72,7 @@ export function OrderItemsTable() {
                   </TableCell>
                   <TableCell>
                     {variant
-                      ? [
-                          variant.size && `Size: ${variant.size}`,
-                          variant.color && `Color: ${variant.color}`,
-                        ]
-                          .filter(Boolean)
-                          .join(", ") ||
+                      ? formatVariantOptions(variant.options) ||
                         (product?.variants.length ? "Variant" : "—")
                       : "—"}
                   </TableCell>
@@ -22,6 +22,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { OrderStatus } from "@/db/schema";
+import { canTransitionOrderStatus } from "@/lib/orders/transitions";
 import { useStore } from "@nanostores/react";
 import {
   orderCalculations,
@@ -185,7 +186,16 @@ export function SummarySection() {
                     </FormControl>
                     <SelectContent className="rounded-xl bg-background">
                       {Object.values(OrderStatus).map((status) => (
-                        <SelectItem key={status} value={status}>
+                        <SelectItem
+                          key={status}
+                          value={status}
+                          disabled={
+                            !canTransitionOrderStatus(
+                              form.formState.defaultValues?.status ?? status,
+                              status,
+                            )
+                          }
+                        >
                           {status.charAt(0).toUpperCase() +
                             status.slice(1).toLowerCase().replace("_", " ")}
                         </SelectItem>
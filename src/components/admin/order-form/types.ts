@@ -5,8 +5,7 @@ export interface Product {
     discountPercentage: number | null;
     variants: {
       id: string;
-      size: string | null;
-      color: string | null;
+      options: Record<string, string>;
       weight: number | null;
       sku: string;
       price: number;
@@ -11,8 +11,7 @@ type PopoverOrderItem = {
   productName: string | null;
   productImage: string | null;
   variantId: string | null;
-  variantSize: string | null;
-  variantColor: string | null;
+  variantOptions: Record<string, string> | null;
   quantity: number;
   price: number; // Price per unit
 };
@@ -92,13 +91,12 @@ export function OrderItemsPopover({
                     >
                       {item.productName || "N/A"}
                     </p>
-                    {(item.variantSize || item.variantColor) && (
-                      <p className="text-[var(--muted-foreground)] truncate">
-                        {item.variantSize}
-                        {item.variantSize && item.variantColor ? " / " : ""}
-                        {item.variantColor}
-                      </p>
-                    )}
+                    {item.variantOptions &&
+                      Object.keys(item.variantOptions).length > 0 && (
+                        <p className="text-[var(--muted-foreground)] truncate">
+                          {Object.values(item.variantOptions).join(" / ")}
+                        </p>
+                      )}
                   </div>
                   <div className="text-right shrink-0 whitespace-nowrap">
                     <p className="text-[var(--muted-foreground)]">
@@ -144,6 +144,13 @@ export const OrderMobileCard = React.memo(function OrderMobileCard({
             <div className="text-base font-bold text-[var(--foreground)]">
               ৳{order.totalAmount.toLocaleString()}
             </div>
+            {order.paidAmount > 0 && (
+              <div className="text-xs text-[var(--muted-foreground)]">
+                Paid ৳{order.paidAmount.toLocaleString()}
+                {order.amountDue > 0 &&
+                  ` · Due ৳${order.amountDue.toLocaleString()}`}
+              </div>
+            )}
             {(order.discountAmount ?? 0) > 0 && (
               <Badge variant="secondary" className="text-xs mt-1">
                 -৳{(order.discountAmount ?? 0).toLocaleString()}
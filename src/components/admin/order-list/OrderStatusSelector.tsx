@@ -6,6 +6,7 @@ import {
   DropdownMenuTrigger,
 } from "../../ui/dropdown-menu";
 import { LoaderCircle, ChevronDown } from "lucide-react";
+import { canTransitionOrderStatus } from "@/lib/orders/transitions";
 
 interface OrderStatusSelectorProps {
   status: string;
@@ -122,6 +123,12 @@ export function OrderStatusSelector({
               <DropdownMenuRadioItem
                 key={s}
                 value={s}
+                disabled={
+                  !canTransitionOrderStatus(
+                    status.toLowerCase(),
+                    s.toLowerCase(),
+                  )
+                }
                 className="text-xs cursor-pointer hover:bg-[var(--muted)]"
               >
                 {s}
@@ -206,6 +206,13 @@ export const OrderTableRow = React.memo(function OrderTableRow({
           <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">
             ৳{order.totalAmount.toLocaleString()}
           </span>
+          {order.paidAmount > 0 && (
+            <div className="text-xs text-muted-foreground">
+              Paid ৳{order.paidAmount.toLocaleString()}
+              {order.amountDue > 0 &&
+                ` · Due ৳${order.amountDue.toLocaleString()}`}
+            </div>
+          )}
           {(order.discountAmount ?? 0) > 0 && (
             <div className="flex items-center gap-1 text-xs">
               <Badge
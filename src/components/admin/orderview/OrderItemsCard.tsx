@@ -1,5 +1,6 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Package, ArrowRight } from "lucide-react";
+import { formatVariantOptions } from "@/lib/catalog/variant-options";
 import type { Order, OrderItem } from "./types";
 
 interface OrderItemsCardProps {
@@ -30,13 +31,24 @@ const OrderItemRow = ({ item }: { item: OrderItem }) => (
           <h3 className="truncate font-medium text-foreground">
             {item.productName || "Unnamed Product"}
           </h3>
-          {(item.variantSize || item.variantColor) && (
+          {formatVariantOptions(item.variantOptions) && (
             <p className="text-xs text-muted-foreground">
-              {item.variantSize && `Size: ${item.variantSize}`}
-              {item.variantSize && item.variantColor && " / "}
-              {item.variantColor && `Color: ${item.variantColor}`}
+              {formatVariantOptions(item.variantOptions)}
             </p>
           )}
+          {item.bundleContents && (
+            <ul className="space-y-0.5 text-xs text-muted-foreground">
+              {item.bundleContents.map((component) => (
+                <li key={component.variantId}>
+                  {component.quantity * item.quantity} ×{" "}
+                  {component.productName || "Deleted variant"}
+                  {formatVariantOptions(component.variantOptions) &&
+                    ` (${formatVariantOptions(component.variantOptions)})`}
+                  {component.sku && ` · ${component.sku}`}
+                </li>
+              ))}
+            </ul>
+          )}
           <a
             href={`/admin/products/${item.productId}/edit`}
             className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
@@ -122,6 +134,30 @@ export function OrderItemsCard({ order }: OrderItemsCardProps) {
                 ৳{grandTotal.toLocaleString()}
               </span>
             </div>
+            {order.displayCurrency && (
+              <SummaryRow
+                label={`Shown in ${order.displayCurrency}`}
+                value={`≈ ${(grandTotal * order.exchangeRate).toLocaleString(undefined, { maximumFractionDigits: 2 })} @ ${order.exchangeRate}`}
+              />
+            )}
+            {order.refundedAmount > 0 && (
+              <SummaryRow
+                label="Refunded"
+                value={`-৳${order.refundedAmount.toLocaleString()}`}
+              />
+            )}
+            {order.paidAmount > 0 && (
+              <>
+                <SummaryRow
+                  label="Paid"
+                  value={`৳${order.paidAmount.toLocaleString()}`}
+                />
+                <SummaryRow
+                  label="Balance Due"
+                  value={`৳${order.amountDue.toLocaleString()}`}
+                />
+              </>
+            )}
           </div>
         </div>
       </CardContent>
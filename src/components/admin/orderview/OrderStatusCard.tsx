@@ -16,6 +16,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Receipt, Loader2 } from "lucide-react";
 import type { Order } from "./types";
 import { ORDER_STATUSES } from "./types";
+import { canTransitionOrderStatus } from "@/lib/orders/transitions";
 
 interface OrderStatusCardProps {
   order: Order;
@@ -36,7 +37,9 @@ export function OrderStatusCard({ order }: OrderStatusCardProps) {
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to update status");
+        throw new Error(
+          errorData.error || errorData.message || "Failed to update status",
+        );
       }
 
       toast({
@@ -93,6 +96,9 @@ export function OrderStatusCard({ order }: OrderStatusCardProps) {
                 <SelectItem
                   key={status}
                   value={status}
+                  disabled={
+                    !canTransitionOrderStatus(order.status.toLowerCase(), status)
+                  }
                   className="capitalize text-foreground"
                 >
                   {status.charAt(0).toUpperCase() + status.slice(1)}
@@ -0,0 +1,282 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Wallet, Loader2, Trash2 } from "lucide-react";
+import { PaymentMethod, type PaymentEntry } from "@/db/schema";
+import { formatDate } from "@/lib/utils";
+import type { Order } from "./types";
+import { PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS } from "./types";
+
+interface PaymentCardProps {
+  order: Order;
+}
+
+const methodLabel = (method: string) => PAYMENT_METHOD_LABELS[method] || method;
+
+const LedgerEntryRow = ({
+  entry,
+  orderId,
+  onRemoved,
+}: {
+  entry: PaymentEntry;
+  orderId: string;
+  onRemoved: () => void;
+}) => {
+  const { toast } = useToast();
+  const [isRemoving, setIsRemoving] = React.useState(false);
+  const isRefund = entry.type === "refund";
+
+  const handleRemove = async () => {
+    if (!confirm("Remove this entry from the payment ledger?")) return;
+
+    setIsRemoving(true);
+    try {
+      const response = await fetch(
+        `/api/orders/${orderId}/payments/${entry.id}`,
+        { method: "DELETE" },
+      );
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to remove entry");
+      }
+      onRemoved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to remove entry",
+        variant: "destructive",
+      });
+      setIsRemoving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-start justify-between gap-2 py-2">
+      <div className="min-w-0 space-y-0.5">
+        <p className="text-sm font-medium text-foreground">
+          {methodLabel(entry.method)}
+          {isRefund && (
+            <span className="ml-1 text-xs text-muted-foreground">(refund)</span>
+          )}
+        </p>
+        <p className="truncate text-xs text-muted-foreground">
+          {formatDate(entry.createdAt)}
+          {entry.reference && ` · ${entry.reference}`}
+        </p>
+        {entry.note && (
+          <p className="text-xs text-muted-foreground">{entry.note}</p>
+        )}
+      </div>
+      <div className="flex shrink-0 items-center gap-1">
+        <span
+          className={`text-sm font-medium ${isRefund ? "text-destructive" : "text-foreground"}`}
+        >
+          {isRefund ? "-" : ""}৳{entry.amount.toLocaleString()}
+        </span>
+        {!entry.paymentId && !isRefund && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            disabled={isRemoving}
+            onClick={handleRemove}
+            title="Remove entry"
+          >
+            {isRemoving ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <Trash2 className="h-3.5 w-3.5" />
+            )}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export function PaymentCard({ order }: PaymentCardProps) {
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [amount, setAmount] = React.useState(
+    order.amountDue > 0 ? String(order.amountDue) : "",
+  );
+  const [method, setMethod] = React.useState<string>(PaymentMethod.COD);
+  const [reference, setReference] = React.useState("");
+  const [note, setNote] = React.useState("");
+
+  const entries = order.paymentEntries || [];
+
+  const handleRecordPayment = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const value = Number(amount);
+    if (!value || value <= 0) {
+      toast({
+        title: "Error",
+        description: "Enter an amount greater than 0.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/orders/${order.id}/payments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          amount: value,
+          method,
+          reference: reference || null,
+          note: note || null,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to record payment");
+      }
+
+      toast({
+        title: "Success",
+        description: "Payment recorded. The page will now reload.",
+      });
+      setTimeout(() => window.location.reload(), 1500);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to record payment",
+        variant: "destructive",
+      });
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="overflow-hidden">
+      <CardHeader className="border-b border-border bg-muted/5 px-4 py-3">
+        <CardTitle className="flex items-center justify-between gap-2 text-base">
+          <span className="flex items-center gap-2">
+            <Wallet className="h-4 w-4" />
+            Payment
+          </span>
+          <Badge variant={order.amountDue > 0 ? "outline" : "default"}>
+            {PAYMENT_STATUS_LABELS[order.paymentStatus] || order.paymentStatus}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 p-4">
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <div>
+            <p className="text-xs text-muted-foreground">Paid</p>
+            <p className="font-medium text-foreground">
+              ৳{order.paidAmount.toLocaleString()}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Due</p>
+            <p
+              className={`font-medium ${order.amountDue > 0 ? "text-destructive" : "text-foreground"}`}
+            >
+              ৳{order.amountDue.toLocaleString()}
+            </p>
+          </div>
+        </div>
+
+        {entries.length > 0 && (
+          <div className="divide-y divide-border border-t border-border">
+            {entries.map((entry) => (
+              <LedgerEntryRow
+                key={entry.id}
+                entry={entry}
+                orderId={order.id}
+                onRemoved={() => window.location.reload()}
+              />
+            ))}
+          </div>
+        )}
+
+        {order.amountDue > 0 && (
+          <form
+            onSubmit={handleRecordPayment}
+            className="space-y-3 border-t border-border pt-4"
+          >
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1.5">
+                <Label htmlFor="payment-amount" className="text-xs">
+                  Amount
+                </Label>
+                <Input
+                  id="payment-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  max={order.amountDue}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  disabled={isSubmitting}
+                  className="h-9"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Method</Label>
+                <Select
+                  value={method}
+                  onValueChange={setMethod}
+                  disabled={isSubmitting}
+                >
+                  <SelectTrigger className="h-9 text-sm border-border bg-background text-foreground">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="border-border bg-card text-foreground">
+                    {Object.values(PaymentMethod).map((value) => (
+                      <SelectItem
+                        key={value}
+                        value={value}
+                        className="text-foreground"
+                      >
+                        {methodLabel(value)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Input
+              placeholder="Reference (transaction ID, receipt no.)"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              disabled={isSubmitting}
+              className="h-9"
+            />
+            <Input
+              placeholder="Note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              disabled={isSubmitting}
+              className="h-9"
+            />
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              {isSubmitting ? "Recording..." : "Record Payment"}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
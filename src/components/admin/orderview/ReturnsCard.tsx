@@ -0,0 +1,480 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { Undo2, Banknote, Loader2 } from "lucide-react";
+import {
+  PaymentMethod,
+  ReturnReason,
+  type OrderReturn,
+  type Refund,
+} from "@/db/schema";
+import { canReturnOrder } from "@/lib/orders/transitions";
+import { formatDate } from "@/lib/utils";
+import type { Order, OrderItem } from "./types";
+import { PAYMENT_METHOD_LABELS, RETURN_REASON_LABELS } from "./types";
+
+interface ReturnsCardProps {
+  order: Order;
+}
+
+const itemLabel = (item: OrderItem | undefined) => {
+  if (!item) return "Removed item";
+  const variant = Object.values(item.variantOptions || {}).join(" / ");
+  return `${item.productName || "Unnamed Product"}${variant ? ` (${variant})` : ""}`;
+};
+
+const statusVariant = (status: string) =>
+  status === "approved"
+    ? "default"
+    : status === "rejected"
+      ? "destructive"
+      : "outline";
+
+// Shared JSON request helper; reloads the page on success like the other cards
+const useOrderAction = () => {
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const submit = async (url: string, method: string, body: unknown) => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Request failed");
+      }
+
+      toast({
+        title: "Success",
+        description: `${result.message}. The page will now reload.`,
+      });
+      setTimeout(() => window.location.reload(), 1500);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Request failed",
+        variant: "destructive",
+      });
+      setIsSubmitting(false);
+    }
+  };
+
+  return { isSubmitting, submit };
+};
+
+const ReturnRow = ({
+  orderReturn,
+  item,
+  orderId,
+}: {
+  orderReturn: OrderReturn;
+  item: OrderItem | undefined;
+  orderId: string;
+}) => {
+  const { isSubmitting, submit } = useOrderAction();
+  const [restock, setRestock] = React.useState(!!orderReturn.variantId);
+
+  const resolve = (action: "approve" | "reject") =>
+    submit(`/api/orders/${orderId}/returns/${orderReturn.id}`, "PATCH", {
+      action,
+      restock,
+    });
+
+  return (
+    <div className="space-y-2 p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0 space-y-1">
+          <p className="truncate text-sm font-medium text-foreground">
+            {orderReturn.quantity} × {itemLabel(item)}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {RETURN_REASON_LABELS[orderReturn.reason] || orderReturn.reason} ·{" "}
+            {formatDate(orderReturn.createdAt)}
+            {orderReturn.restocked && " · Restocked"}
+          </p>
+          {orderReturn.note && (
+            <p className="text-xs text-muted-foreground">{orderReturn.note}</p>
+          )}
+        </div>
+        <Badge
+          variant={statusVariant(orderReturn.status)}
+          className="capitalize"
+        >
+          {orderReturn.status}
+        </Badge>
+      </div>
+
+      {orderReturn.status === "requested" && (
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Checkbox
+              checked={restock}
+              onCheckedChange={(checked) => setRestock(checked === true)}
+              disabled={isSubmitting || !orderReturn.variantId}
+            />
+            Restock {orderReturn.quantity} to the variant
+          </label>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isSubmitting}
+              onClick={() => resolve("reject")}
+            >
+              Reject
+            </Button>
+            <Button
+              size="sm"
+              disabled={isSubmitting}
+              onClick={() => resolve("approve")}
+            >
+              {isSubmitting && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Approve
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const NewReturnForm = ({ order }: { order: Order }) => {
+  const { toast } = useToast();
+  const { isSubmitting, submit } = useOrderAction();
+  const [quantities, setQuantities] = React.useState<Record<string, string>>(
+    {},
+  );
+  const [reason, setReason] = React.useState<string>(ReturnReason.DAMAGED);
+  const [note, setNote] = React.useState("");
+
+  const returnable = order.returnableQuantities || {};
+  const returnableItems = order.items.filter(
+    (item) => (returnable[item.id] || 0) > 0,
+  );
+
+  if (!canReturnOrder(order.status)) {
+    return (
+      <p className="p-4 text-sm text-muted-foreground">
+        Returns can be opened once the order has shipped.
+      </p>
+    );
+  }
+
+  if (returnableItems.length === 0) {
+    return (
+      <p className="p-4 text-sm text-muted-foreground">
+        All items have a return request.
+      </p>
+    );
+  }
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const items = returnableItems
+      .map((item) => ({
+        orderItemId: item.id,
+        quantity: Number(quantities[item.id] || 0),
+      }))
+      .filter((item) => item.quantity > 0);
+
+    if (items.length === 0) {
+      toast({
+        title: "Error",
+        description: "Enter a quantity for at least one item.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    submit(`/api/orders/${order.id}/returns`, "POST", {
+      items,
+      reason,
+      note: note || null,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 p-4">
+      {returnableItems.map((item) => (
+        <div key={item.id} className="flex items-center justify-between gap-4">
+          <span className="min-w-0 truncate text-sm text-foreground">
+            {itemLabel(item)}
+          </span>
+          <div className="flex shrink-0 items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              max={returnable[item.id]}
+              value={quantities[item.id] || ""}
+              placeholder="0"
+              onChange={(e) =>
+                setQuantities({ ...quantities, [item.id]: e.target.value })
+              }
+              disabled={isSubmitting}
+              className="h-8 w-20"
+            />
+            <span className="text-xs text-muted-foreground">
+              of {returnable[item.id]}
+            </span>
+          </div>
+        </div>
+      ))}
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+        <Select
+          value={reason}
+          onValueChange={setReason}
+          disabled={isSubmitting}
+        >
+          <SelectTrigger className="h-9 text-sm border-border bg-background text-foreground">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="border-border bg-card text-foreground">
+            {Object.values(ReturnReason).map((value) => (
+              <SelectItem key={value} value={value} className="text-foreground">
+                {RETURN_REASON_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Note"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          disabled={isSubmitting}
+          className="h-9"
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isSubmitting}>
+        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Create Return Request
+      </Button>
+    </form>
+  );
+};
+
+const RefundRow = ({ refund }: { refund: Refund }) => (
+  <div className="flex items-start justify-between gap-4 p-4">
+    <div className="min-w-0 space-y-1">
+      <p className="text-sm font-medium text-foreground">
+        {PAYMENT_METHOD_LABELS[refund.method] || refund.method}
+        <span className="ml-1 text-xs capitalize text-muted-foreground">
+          ({refund.type})
+        </span>
+      </p>
+      <p className="truncate text-xs text-muted-foreground">
+        {formatDate(refund.createdAt)}
+        {refund.reference && ` · ${refund.reference}`}
+      </p>
+      {refund.note && (
+        <p className="text-xs text-muted-foreground">{refund.note}</p>
+      )}
+    </div>
+    <span className="shrink-0 text-sm font-medium text-destructive">
+      -৳{refund.amount.toLocaleString()}
+    </span>
+  </div>
+);
+
+const NewRefundForm = ({
+  order,
+  itemMap,
+}: {
+  order: Order;
+  itemMap: Map<string, OrderItem>;
+}) => {
+  const { toast } = useToast();
+  const { isSubmitting, submit } = useOrderAction();
+  const [amount, setAmount] = React.useState("");
+  const [method, setMethod] = React.useState<string>(PaymentMethod.BKASH);
+  const [returnId, setReturnId] = React.useState("none");
+  const [reference, setReference] = React.useState("");
+
+  const approvedReturns = (order.returns || []).filter(
+    (r) => r.status === "approved",
+  );
+
+  if (order.paidAmount <= 0) {
+    return (
+      <p className="p-4 text-sm text-muted-foreground">
+        Nothing has been paid on this order yet. Record the payment (or the COD
+        collection) before refunding it.
+      </p>
+    );
+  }
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const value = Number(amount);
+    if (!value || value <= 0 || value > order.paidAmount) {
+      toast({
+        title: "Error",
+        description: `Enter an amount between 0 and ৳${order.paidAmount.toLocaleString()}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    submit(`/api/orders/${order.id}/refunds`, "POST", {
+      amount: value,
+      method,
+      reference: reference || null,
+      returnId: returnId === "none" ? null : returnId,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 p-4">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1.5">
+          <Label htmlFor="refund-amount" className="text-xs">
+            Amount (up to ৳{order.paidAmount.toLocaleString()})
+          </Label>
+          <Input
+            id="refund-amount"
+            type="number"
+            min="0"
+            step="0.01"
+            max={order.paidAmount}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            disabled={isSubmitting}
+            className="h-9"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Method</Label>
+          <Select
+            value={method}
+            onValueChange={setMethod}
+            disabled={isSubmitting}
+          >
+            <SelectTrigger className="h-9 text-sm border-border bg-background text-foreground">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="border-border bg-card text-foreground">
+              {Object.values(PaymentMethod)
+                .filter((value) => value !== PaymentMethod.COD)
+                .map((value) => (
+                  <SelectItem
+                    key={value}
+                    value={value}
+                    className="text-foreground"
+                  >
+                    {PAYMENT_METHOD_LABELS[value]}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {approvedReturns.length > 0 && (
+        <Select
+          value={returnId}
+          onValueChange={setReturnId}
+          disabled={isSubmitting}
+        >
+          <SelectTrigger className="h-9 text-sm border-border bg-background text-foreground">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="border-border bg-card text-foreground">
+            <SelectItem value="none" className="text-foreground">
+              Not linked to a return
+            </SelectItem>
+            {approvedReturns.map((r) => (
+              <SelectItem key={r.id} value={r.id} className="text-foreground">
+                Return: {r.quantity} × {itemLabel(itemMap.get(r.orderItemId))}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Input
+        placeholder="Reference (transaction ID, receipt no.)"
+        value={reference}
+        onChange={(e) => setReference(e.target.value)}
+        disabled={isSubmitting}
+        className="h-9"
+      />
+      <Button type="submit" className="w-full" disabled={isSubmitting}>
+        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Record Refund
+      </Button>
+    </form>
+  );
+};
+
+export function ReturnsCard({ order }: ReturnsCardProps) {
+  const itemMap = new Map(order.items.map((item) => [item.id, item]));
+  const returns = order.returns || [];
+  const refunds = order.refunds || [];
+
+  return (
+    <div className="space-y-4">
+      <Card className="overflow-hidden">
+        <CardHeader className="border-b border-border bg-muted/5 px-4 py-3">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Undo2 className="h-4 w-4" />
+            Returns ({returns.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="divide-y divide-border">
+            {returns.map((orderReturn) => (
+              <ReturnRow
+                key={orderReturn.id}
+                orderReturn={orderReturn}
+                item={itemMap.get(orderReturn.orderItemId)}
+                orderId={order.id}
+              />
+            ))}
+            <NewReturnForm order={order} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="overflow-hidden">
+        <CardHeader className="border-b border-border bg-muted/5 px-4 py-3">
+          <CardTitle className="flex items-center justify-between gap-2 text-base">
+            <span className="flex items-center gap-2">
+              <Banknote className="h-4 w-4" />
+              Refunds ({refunds.length})
+            </span>
+            {order.refundedAmount > 0 && (
+              <span className="text-sm font-medium text-destructive">
+                -৳{order.refundedAmount.toLocaleString()}
+              </span>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="divide-y divide-border">
+            {refunds.map((refund) => (
+              <RefundRow key={refund.id} refund={refund} />
+            ))}
+            <NewRefundForm order={order} itemMap={itemMap} />
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -107,6 +107,10 @@ const CreateShipmentForm = ({
               </SelectContent>
             </Select>
           </div>
+          <p className="text-xs text-muted-foreground">
+            The courier will collect ৳{order.amountDue.toLocaleString()}{" "}
+            (balance due) on delivery.
+          </p>
           <Button
             className="w-full"
             disabled={isCreatingShipment || !selectedProviderId}
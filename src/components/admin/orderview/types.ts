@@ -1,4 +1,11 @@
-import type { DeliveryProvider, DeliveryShipment } from "@/db/schema";
+import {
+  PaymentMethod,
+  type DeliveryProvider,
+  type DeliveryShipment,
+  type OrderReturn,
+  type PaymentEntry,
+  type Refund,
+} from "@/db/schema";
 
 export interface OrderItem {
   id: string;
@@ -8,8 +15,17 @@ export interface OrderItem {
   price: number;
   productName: string | null;
   productImage: string | null;
-  variantSize: string | null;
-  variantColor: string | null;
+  variantOptions: Record<string, string> | null;
+  // For bundles: the variants one bundle held when ordered
+  bundleContents?:
+    | {
+        variantId: string;
+        quantity: number;
+        productName: string | null;
+        sku: string | null;
+        variantOptions: Record<string, string> | null;
+      }[]
+    | null;
 }
 
 export interface Order {
@@ -25,6 +41,15 @@ export interface Order {
   discountAmount: number | null;
   shippingCharge: number;
   status: string;
+  paymentStatus: string;
+  paymentMethod: string;
+  paidAmount: number;
+  amountDue: number;
+  refundedAmount: number;
+  // Amounts are in `currency`; the shopper saw them in `displayCurrency`
+  currency: string;
+  displayCurrency: string | null;
+  exchangeRate: number;
   createdAt: Date;
   updatedAt: Date;
   items: OrderItem[];
@@ -35,6 +60,11 @@ export interface Order {
   areaName?: string | null;
   shipments?: DeliveryShipment[];
   deliveryProviders?: DeliveryProvider[];
+  paymentEntries?: PaymentEntry[];
+  returns?: OrderReturn[];
+  refunds?: Refund[];
+  // Order item ID -> quantity that can still be returned
+  returnableQuantities?: Record<string, number>;
 }
 
 // This will be useful for the status constants
@@ -47,3 +77,32 @@ export const ORDER_STATUSES = [
   "cancelled",
   "returned",
 ] as const;
+
+export const PAYMENT_STATUS_LABELS: Record<string, string> = {
+  unpaid: "Unpaid",
+  pending: "Payment Pending",
+  partially_paid: "Partially Paid",
+  paid: "Paid",
+  failed: "Payment Failed",
+  refunded: "Refunded",
+};
+
+export const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  [PaymentMethod.COD]: "Cash on Delivery",
+  [PaymentMethod.CASH]: "Cash",
+  [PaymentMethod.BKASH]: "bKash",
+  [PaymentMethod.NAGAD]: "Nagad",
+  [PaymentMethod.ROCKET]: "Rocket",
+  [PaymentMethod.BANK_TRANSFER]: "Bank Transfer",
+  sslcommerz: "SSLCommerz",
+  mock: "Mock Gateway",
+};
+
+export const RETURN_REASON_LABELS: Record<string, string> = {
+  damaged: "Damaged",
+  wrong_item: "Wrong item",
+  not_as_described: "Not as described",
+  size_issue: "Size issue",
+  changed_mind: "Changed mind",
+  other: "Other",
+};
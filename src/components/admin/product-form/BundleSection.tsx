@@ -0,0 +1,263 @@
+// src/components/admin/product-form/BundleSection.tsx
+import * as React from "react";
+import type { UseFormReturn } from "react-hook-form";
+import { Check, ChevronsUpDown, Plus, Trash2 } from "lucide-react";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { ProductType } from "@/db/schema";
+import { formatVariantOptions } from "@/lib/catalog/variant-options";
+import { cn } from "@/lib/utils";
+import { CollapsibleCard } from "./CollapsibleCard";
+import type { BundleVariantChoice, ProductFormValues } from "./types";
+
+interface BundleSectionProps {
+  form: UseFormReturn<ProductFormValues>;
+  choices: BundleVariantChoice[];
+  // A product with variants has to lose them before it can be a bundle
+  hasVariants?: boolean;
+}
+
+const variantLabel = (choice: BundleVariantChoice) =>
+  [choice.productName, formatVariantOptions(choice.options)]
+    .filter(Boolean)
+    .join(" - ");
+
+function VariantPicker({
+  value,
+  choices,
+  onChange,
+}: {
+  value: string;
+  choices: BundleVariantChoice[];
+  onChange: (variantId: string) => void;
+}) {
+  const [open, setOpen] = React.useState(false);
+  const selected = choices.find((choice) => choice.id === value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          <span className="truncate">
+            {selected ? variantLabel(selected) : "Select a variant"}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[320px] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search by product or SKU..." />
+          <CommandList>
+            <CommandEmpty>No variants found.</CommandEmpty>
+            <CommandGroup>
+              {choices.map((choice) => (
+                <CommandItem
+                  key={choice.id}
+                  value={`${variantLabel(choice)} ${choice.sku}`}
+                  onSelect={() => {
+                    onChange(choice.id);
+                    setOpen(false);
+                  }}
+                >
+                  <Check
+                    className={cn(
+                      "mr-2 h-4 w-4",
+                      choice.id === value ? "opacity-100" : "opacity-0",
+                    )}
+                  />
+                  <div className="min-w-0">
+                    <div className="truncate text-sm">
+                      {variantLabel(choice)}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {choice.sku} · {choice.stock} in stock
+                    </div>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function BundleSection({
+  form,
+  choices,
+  hasVariants = false,
+}: BundleSectionProps) {
+  const isBundle = form.watch("type") === ProductType.BUNDLE;
+  const items = form.watch("bundleItems") || [];
+
+  const setItems = (next: ProductFormValues["bundleItems"]) =>
+    form.setValue("bundleItems", next, {
+      shouldDirty: true,
+      shouldValidate: true,
+    });
+
+  // Bundles the current stock of every component covers
+  const choiceMap = new Map(choices.map((choice) => [choice.id, choice]));
+  const availableBundles =
+    items.length > 0 && items.every((item) => choiceMap.has(item.variantId))
+      ? Math.min(
+          ...items.map((item) =>
+            Math.floor(
+              Math.max(choiceMap.get(item.variantId)!.stock, 0) /
+                Math.max(item.quantity, 1),
+            ),
+          ),
+        )
+      : 0;
+
+  return (
+    <CollapsibleCard
+      title="Bundle"
+      description="Sell other products' variants together as one product"
+      defaultOpen={isBundle}
+    >
+      <div className="space-y-3">
+        <FormField
+          control={form.control}
+          name="type"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <FormLabel className="text-sm font-medium">
+                  This product is a bundle
+                </FormLabel>
+                <FormDescription className="text-xs">
+                  {hasVariants && !isBundle
+                    ? "Remove the product's variants to make it a bundle"
+                    : "Stock comes from the components below"}
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value === ProductType.BUNDLE}
+                  disabled={hasVariants && !isBundle}
+                  onCheckedChange={(checked) =>
+                    field.onChange(
+                      checked ? ProductType.BUNDLE : ProductType.STANDARD,
+                    )
+                  }
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        {isBundle && (
+          <FormField
+            control={form.control}
+            name="bundleItems"
+            render={() => (
+              <FormItem>
+                <FormLabel className="text-sm">Components</FormLabel>
+                <div className="space-y-2">
+                  {items.map((item, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <div className="min-w-0 flex-1">
+                        <VariantPicker
+                          value={item.variantId}
+                          choices={choices}
+                          onChange={(variantId) =>
+                            setItems(
+                              items.map((current, i) =>
+                                i === index
+                                  ? { ...current, variantId }
+                                  : current,
+                              ),
+                            )
+                          }
+                        />
+                      </div>
+                      <Input
+                        type="number"
+                        min={1}
+                        step={1}
+                        className="w-20"
+                        aria-label="Quantity"
+                        value={item.quantity}
+                        onChange={(e) =>
+                          setItems(
+                            items.map((current, i) =>
+                              i === index
+                                ? {
+                                    ...current,
+                                    quantity: parseInt(e.target.value) || 1,
+                                  }
+                                : current,
+                            ),
+                          )
+                        }
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Remove component"
+                        onClick={() =>
+                          setItems(items.filter((_, i) => i !== index))
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() =>
+                    setItems([...items, { variantId: "", quantity: 1 }])
+                  }
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add component
+                </Button>
+                <FormDescription className="text-xs">
+                  {items.length > 0
+                    ? `Current stock makes ${availableBundles} of this bundle.`
+                    : "Add the variants one bundle is made of."}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+      </div>
+    </CollapsibleCard>
+  );
+}
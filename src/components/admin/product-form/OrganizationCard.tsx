@@ -25,7 +25,8 @@ import {
 } from "@/components/ui/command";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { ChevronsUpDown, Check, Plus, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { ChevronsUpDown, Check, Plus, Loader2, X } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import type { ProductFormValues } from "./types";
@@ -83,6 +84,28 @@ export function OrganizationCard({
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="additionalCategoryIds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Also List In</FormLabel>
+              <AdditionalCategoriesSelect
+                availableCategories={availableCategories.filter(
+                  (category) => category.id !== form.watch("categoryId"),
+                )}
+                selectedCategoryIds={field.value || []}
+                onChange={field.onChange}
+              />
+              <FormDescription className="text-xs">
+                Other categories that show this product, e.g. "Sale". The
+                category above is used for breadcrumbs and links.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <FormField
           control={form.control}
           name="slug"
@@ -279,3 +302,109 @@ function CategoryCombobox({
     </Popover>
   );
 }
+
+// Multi-select for the categories a product is listed in besides its primary one
+function AdditionalCategoriesSelect({
+  availableCategories,
+  selectedCategoryIds,
+  onChange,
+}: {
+  availableCategories: Category[];
+  selectedCategoryIds: string[];
+  onChange: (categoryIds: string[]) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const toggle = (categoryId: string) => {
+    onChange(
+      selectedCategoryIds.includes(categoryId)
+        ? selectedCategoryIds.filter((id) => id !== categoryId)
+        : [...selectedCategoryIds, categoryId],
+    );
+  };
+
+  const selectedCategories = availableCategories.filter((cat) =>
+    selectedCategoryIds.includes(cat.id),
+  );
+  const filteredCategories = availableCategories.filter((cat) =>
+    cat.name.toLowerCase().includes(search.toLowerCase()),
+  );
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            role="combobox"
+            className="w-full justify-between h-10 font-normal text-muted-foreground"
+          >
+            <span className="truncate">
+              {selectedCategories.length > 0
+                ? `${selectedCategories.length} selected`
+                : "Select categories..."}
+            </span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[300px] p-0" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput
+              placeholder="Search categories..."
+              value={search}
+              onValueChange={setSearch}
+              className="h-10"
+            />
+            <CommandList>
+              <CommandEmpty>
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  No categories found
+                </p>
+              </CommandEmpty>
+              {filteredCategories.length > 0 && (
+                <CommandGroup heading="Categories" className="p-2">
+                  {filteredCategories.map((category) => (
+                    <CommandItem
+                      key={category.id}
+                      value={category.name}
+                      onSelect={() => toggle(category.id)}
+                      className="px-2 py-2 cursor-pointer"
+                    >
+                      <Check
+                        className={cn(
+                          "mr-2 h-4 w-4",
+                          selectedCategoryIds.includes(category.id)
+                            ? "opacity-100"
+                            : "opacity-0",
+                        )}
+                      />
+                      <span className="flex-1">{category.name}</span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {selectedCategories.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selectedCategories.map((category) => (
+            <Badge key={category.id} variant="secondary" className="gap-1">
+              {category.name}
+              <button
+                type="button"
+                onClick={() => toggle(category.id)}
+                className="rounded-full hover:text-destructive"
+                aria-label={`Remove ${category.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,8 +3,6 @@ import React from "react";
 import type { UseFormReturn } from "react-hook-form";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { FormField, FormItem, FormMessage } from "@/components/ui/form";
-import { Label } from "@/components/ui/label";
-import { Switch } from "@/components/ui/switch";
 import {
   Tooltip,
   TooltipContent,
@@ -14,25 +12,64 @@ import {
 import { Info, ChevronDown} from "lucide-react";
 import { MediaManager } from "../MediaManager";
 import { DraggableImageGallery } from "../DraggableImageGallery";
+import { VariantImageLinksDialog } from "./VariantImageLinksDialog";
 import { cn } from "@/lib/utils";
-import type { ProductFormValues } from "./types";
+import type { ProductFormValues, ProductImage } from "./types";
+import type { ProductOptionDetails } from "@/lib/catalog/product-options";
+import type { VariantImageLink } from "@/lib/catalog/variant-images";
 import { useToast } from "@/hooks/use-toast";
 
 interface ProductImagesSectionProps {
   form: UseFormReturn<ProductFormValues>;
-  enableVariantImages: boolean;
-  setEnableVariantImages: (enabled: boolean) => void;
-  uniqueColorOptions: string[];
+  // Linking images to variants is offered for saved products only
+  productId?: string;
+  variantOptions: ProductOptionDetails[];
+  variants: { id: string; sku: string; options: Record<string, string> }[];
+  imageLinks: VariantImageLink[];
+  savedImageIds: string[];
+  onImageLinksChange: (links: VariantImageLink[]) => void;
 }
 
 export function ProductImagesSection({
   form,
-  enableVariantImages,
-  setEnableVariantImages,
-  uniqueColorOptions,
+  productId,
+  variantOptions,
+  variants,
+  imageLinks,
+  savedImageIds,
+  onImageLinksChange,
 }: ProductImagesSectionProps) {
   const [isOpen, setIsOpen] = React.useState(true);
+  const [linkingImage, setLinkingImage] = React.useState<ProductImage | null>(
+    null,
+  );
   const { toast } = useToast();
+  const canLinkImages = !!productId && variants.length > 0;
+
+  // What each image is linked to, e.g. "Color: Red" or a variant's SKU
+  const imageLabels = React.useMemo(() => {
+    const optionValueLabels = new Map(
+      variantOptions.flatMap((option) =>
+        option.values.map(
+          (v) => [v.id, `${option.name}: ${v.value}`] as const,
+        ),
+      ),
+    );
+    const variantLabels = new Map(
+      variants.map((v) => [v.id, v.sku] as const),
+    );
+
+    const labels: Record<string, string[]> = {};
+    for (const link of imageLinks) {
+      const label = link.variantId
+        ? variantLabels.get(link.variantId)
+        : optionValueLabels.get(link.optionValueId || "");
+      if (label) {
+        labels[link.imageId] = [...(labels[link.imageId] || []), label];
+      }
+    }
+    return labels;
+  }, [imageLinks, variants, variantOptions]);
 
   // Check if image already exists in the current images array
   const isImageDuplicate = (imageUrl: string, currentImages: any[]) => {
@@ -96,57 +133,32 @@ export function ProductImagesSection({
           </button>
 
           <div className="flex items-center gap-2">
-            {uniqueColorOptions.length > 0 && (
-              <div className="flex items-center gap-2">
-                <TooltipProvider>
-                  <Tooltip delayDuration={0}>
-                    <TooltipTrigger asChild>
-                      <button
-                        type="button"
-                        className="text-muted-foreground hover:text-foreground"
-                      >
-                        <Info className="h-3.5 w-3.5" />
-                      </button>
-                    </TooltipTrigger>
-                    <TooltipContent
-                      side="left"
-                      className="max-w-xs bg-popover text-popover-foreground border shadow-md"
+            {canLinkImages && (
+              <TooltipProvider>
+                <Tooltip delayDuration={0}>
+                  <TooltipTrigger asChild>
+                    <button
+                      type="button"
+                      className="text-muted-foreground hover:text-foreground"
                     >
-                      <div className="space-y-2 text-xs">
-                        <p className="font-semibold">Color-Image Mapping</p>
-                        <p>When enabled, images map to colors in order:</p>
-                        <div className="flex flex-wrap gap-1">
-                          {uniqueColorOptions.map((color, idx) => (
-                            <span
-                              key={color}
-                              className="inline-flex items-center gap-1 px-1.5 py-0.5 bg-accent rounded text-[10px]"
-                            >
-                              #{idx + 1} → {color}
-                            </span>
-                          ))}
-                        </div>
-                        <p className="text-[10px] opacity-70">
-                          Adjust order in Variants → "Sort Options"
-                        </p>
-                      </div>
-                    </TooltipContent>
-                  </Tooltip>
-                </TooltipProvider>
-                <div className="flex items-center gap-1.5 rounded border px-2 py-1">
-                  <Switch
-                    checked={enableVariantImages}
-                    onCheckedChange={setEnableVariantImages}
-                    id="variant-images-toggle"
-                    className="scale-75"
-                  />
-                  <Label
-                    htmlFor="variant-images-toggle"
-                    className="text-[11px] cursor-pointer"
+                      <Info className="h-3.5 w-3.5" />
+                    </button>
+                  </TooltipTrigger>
+                  <TooltipContent
+                    side="left"
+                    className="max-w-xs bg-popover text-popover-foreground border shadow-md"
                   >
-                    Map to Colors
-                  </Label>
-                </div>
-              </div>
+                    <div className="space-y-2 text-xs">
+                      <p className="font-semibold">Variant Images</p>
+                      <p>
+                        Use the link button on an image to show it for
+                        particular variants or option values, like every
+                        "Red" variant. Unlinked images show for all variants.
+                      </p>
+                    </div>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
             )}
           </div>
         </div>
@@ -162,8 +174,11 @@ export function ProductImagesSection({
                   {field.value.length > 0 && (
                     <DraggableImageGallery
                       images={field.value}
-                      colorOptions={uniqueColorOptions}
-                      enableVariantImages={enableVariantImages}
+                      imageLabels={imageLabels}
+                      onLinkImage={canLinkImages ? setLinkingImage : undefined}
+                      canLinkImage={(image) =>
+                        savedImageIds.includes(image.id)
+                      }
                       onImagesReorder={(newImages) => field.onChange(newImages)}
                       onImageRemove={(index) => {
                         const newImages = [...field.value];
@@ -198,6 +213,18 @@ export function ProductImagesSection({
           />
         </CardContent>
       )}
+
+      {productId && (
+        <VariantImageLinksDialog
+          productId={productId}
+          image={linkingImage}
+          options={variantOptions}
+          variants={variants}
+          links={imageLinks}
+          onClose={() => setLinkingImage(null)}
+          onSaved={onImageLinksChange}
+        />
+      )}
     </Card>
   );
 }
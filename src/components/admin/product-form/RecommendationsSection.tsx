@@ -0,0 +1,89 @@
+// src/components/admin/product-form/RecommendationsSection.tsx
+import type { UseFormReturn } from "react-hook-form";
+import {
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { ProductSelector } from "../discount/ProductSelector";
+import { CollapsibleCard } from "./CollapsibleCard";
+import type { ProductFormValues } from "./types";
+
+interface RecommendationsSectionProps {
+  form: UseFormReturn<ProductFormValues>;
+}
+
+// Picked products are shown first; the rest are filled from orders and
+// similar products
+const MAX_PICKED_PRODUCTS = 12;
+
+export function RecommendationsSection({ form }: RecommendationsSectionProps) {
+  const productId = form.watch("id");
+
+  return (
+    <CollapsibleCard
+      title="Recommendations"
+      description="Pick products to recommend with this one"
+      defaultOpen={false}
+    >
+      <div className="space-y-3">
+        <FormField
+          control={form.control}
+          name="frequentlyBoughtTogether"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-sm">
+                Frequently Bought Together
+              </FormLabel>
+              <ProductSelector
+                selectedProducts={field.value || []}
+                onChange={(selected) =>
+                  form.setValue(
+                    "frequentlyBoughtTogether",
+                    selected.filter((product) => product.id !== productId),
+                    { shouldDirty: true },
+                  )
+                }
+                buttonLabel="Select products"
+                maxItems={MAX_PICKED_PRODUCTS}
+              />
+              <FormDescription className="text-xs">
+                Shown before the products most often ordered with this one.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="relatedProducts"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-sm">Related Products</FormLabel>
+              <ProductSelector
+                selectedProducts={field.value || []}
+                onChange={(selected) =>
+                  form.setValue(
+                    "relatedProducts",
+                    selected.filter((product) => product.id !== productId),
+                    { shouldDirty: true },
+                  )
+                }
+                buttonLabel="Select products"
+                maxItems={MAX_PICKED_PRODUCTS}
+              />
+              <FormDescription className="text-xs">
+                Shown before products from the same categories or with the same
+                attributes.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </CollapsibleCard>
+  );
+}
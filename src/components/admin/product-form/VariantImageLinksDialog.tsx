@@ -0,0 +1,200 @@
+// src/components/admin/product-form/VariantImageLinksDialog.tsx
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getOptimizedImageUrl } from "@/lib/image-optimizer";
+import { formatVariantOptions } from "@/lib/catalog/variant-options";
+import type { ProductOptionDetails } from "@/lib/catalog/product-options";
+import type { VariantImageLink } from "@/lib/catalog/variant-images";
+
+interface VariantImageLinksDialogProps {
+  productId: string;
+  image: { id: string; url: string; filename: string } | null;
+  options: ProductOptionDetails[];
+  variants: { id: string; sku: string; options: Record<string, string> }[];
+  links: VariantImageLink[];
+  onClose: () => void;
+  onSaved: (links: VariantImageLink[]) => void;
+}
+
+function toggle(ids: string[], id: string) {
+  return ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id];
+}
+
+export function VariantImageLinksDialog({
+  productId,
+  image,
+  options,
+  variants,
+  links,
+  onClose,
+  onSaved,
+}: VariantImageLinksDialogProps) {
+  const { toast } = useToast();
+  const [optionValueIds, setOptionValueIds] = useState<string[]>([]);
+  const [variantIds, setVariantIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the image's current links each time the dialog opens
+  useEffect(() => {
+    if (!image) return;
+    const imageLinks = links.filter((link) => link.imageId === image.id);
+    setOptionValueIds(
+      imageLinks.flatMap((link) =>
+        link.optionValueId ? [link.optionValueId] : [],
+      ),
+    );
+    setVariantIds(
+      imageLinks.flatMap((link) => (link.variantId ? [link.variantId] : [])),
+    );
+  }, [image, links]);
+
+  const handleSave = async () => {
+    if (!image) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        `/api/products/${productId}/variant-images`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            imageId: image.id,
+            variantIds,
+            optionValueIds,
+          }),
+        },
+      );
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to link image");
+      }
+
+      toast({
+        title: "Success",
+        description: "Image links updated successfully",
+      });
+      onSaved(result.links);
+      onClose();
+    } catch (error) {
+      console.error("Failed to save image links:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to link image",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!image} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Show Image For</DialogTitle>
+          <DialogDescription>
+            Pick the option values or variants this image shows. Selecting one
+            of them on the storefront switches to its images.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto pr-2 space-y-4">
+          {image && (
+            <img
+              src={getOptimizedImageUrl(image.url)}
+              alt={image.filename}
+              className="h-24 w-24 rounded-md border object-cover"
+            />
+          )}
+
+          {options.length === 0 && variants.length === 0 && (
+            <div className="text-center py-6 text-sm text-muted-foreground">
+              Add variants to this product to link images to them
+            </div>
+          )}
+
+          {options.map((option) => (
+            <div key={option.id} className="space-y-2">
+              <p className="text-sm font-medium">{option.name}</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {option.values.map((value) => (
+                  <div key={value.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`link-value-${value.id}`}
+                      checked={optionValueIds.includes(value.id)}
+                      onCheckedChange={() =>
+                        setOptionValueIds((prev) => toggle(prev, value.id))
+                      }
+                    />
+                    <Label
+                      htmlFor={`link-value-${value.id}`}
+                      className="text-sm font-normal cursor-pointer"
+                    >
+                      {value.value}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {variants.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Variants</p>
+              <div className="space-y-1.5">
+                {variants.map((variant) => (
+                  <div key={variant.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`link-variant-${variant.id}`}
+                      checked={variantIds.includes(variant.id)}
+                      onCheckedChange={() =>
+                        setVariantIds((prev) => toggle(prev, variant.id))
+                      }
+                    />
+                    <Label
+                      htmlFor={`link-variant-${variant.id}`}
+                      className="text-sm font-normal cursor-pointer"
+                    >
+                      <span className="font-mono">{variant.sku}</span>
+                      {Object.keys(variant.options).length > 0 && (
+                        <span className="ml-2 text-muted-foreground">
+                          {formatVariantOptions(variant.options)}
+                        </span>
+                      )}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Links
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
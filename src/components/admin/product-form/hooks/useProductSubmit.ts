@@ -7,7 +7,6 @@ import { formatFormValuesForSubmission } from "../utils";
 
 interface UseProductSubmitOptions {
   isEdit: boolean;
-  enableVariantImages: boolean;
   form: UseFormReturn<ProductFormValues>;
   onSuccess?: () => void;
 }
@@ -22,7 +21,6 @@ interface UseProductSubmitReturn {
 
 export function useProductSubmit({
   isEdit,
-  enableVariantImages,
   form,
   onSuccess,
 }: UseProductSubmitOptions): UseProductSubmitReturn {
@@ -37,10 +35,7 @@ export function useProductSubmit({
       const endpoint = isEdit ? `/api/products/${values.id}` : "/api/products";
       const method = isEdit ? "PUT" : "POST";
 
-      const formattedValues = formatFormValuesForSubmission(
-        values,
-        enableVariantImages,
-      );
+      const formattedValues = formatFormValuesForSubmission(values);
 
       const response = await fetch(endpoint, {
         method,
@@ -102,8 +97,16 @@ export function useProductSubmit({
 
       // Reset form dirty state after successful save
       if (isEdit) {
-        // For edits, reset the form to mark it as clean (not dirty)
-        form.reset(form.getValues());
+        // For edits, reset the form to mark it as clean (not dirty), with
+        // the ids newly added images were saved under
+        const savedValues = form.getValues();
+        form.reset({
+          ...savedValues,
+          images: savedValues.images.map((image, index) => ({
+            ...image,
+            id: data.imageIds?.[index] ?? image.id,
+          })),
+        });
       }
 
       if (onSuccess) {
@@ -1,6 +1,7 @@
 // src/components/admin/product-form/hooks/useProductVariants.ts
-import { useState, useEffect, useMemo, useCallback } from "react";
-import { extractUniqueColors } from "../utils";
+import { useState, useEffect, useCallback } from "react";
+import type { ProductOptionDetails } from "@/lib/catalog/product-options";
+import type { VariantImageLink } from "@/lib/catalog/variant-images";
 
 interface UseProductVariantsOptions {
   productId?: string;
@@ -9,9 +10,12 @@ interface UseProductVariantsOptions {
 
 interface UseProductVariantsReturn {
   variants: any[];
-  uniqueColorOptions: string[];
+  options: ProductOptionDetails[];
+  imageLinks: VariantImageLink[];
+  savedImageIds: string[];
   isLoading: boolean;
   refreshVariants: () => void;
+  setImageLinks: (links: VariantImageLink[]) => void;
 }
 
 export function useProductVariants({
@@ -19,23 +23,33 @@ export function useProductVariants({
   isEdit,
 }: UseProductVariantsOptions): UseProductVariantsReturn {
   const [variants, setVariants] = useState<any[]>([]);
+  const [options, setOptions] = useState<ProductOptionDetails[]>([]);
+  const [imageLinks, setImageLinks] = useState<VariantImageLink[]>([]);
+  // Images that are saved, so they can be linked to variants
+  const [savedImageIds, setSavedImageIds] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
 
-  // Extract unique colors from variants for image mapping
-  const uniqueColorOptions = useMemo(() => {
-    return extractUniqueColors(variants);
-  }, [variants]);
-
-  // Fetch variants function
+  // Fetch variants, their options and image links
   const fetchVariants = useCallback(async () => {
     if (!isEdit || !productId) return;
 
     setIsLoading(true);
     try {
-      const response = await fetch(`/api/products/${productId}/variants`);
-      const data = await response.json();
-      if (response.ok && Array.isArray(data.variants)) {
+      const [variantsResponse, imagesResponse] = await Promise.all([
+        fetch(`/api/products/${productId}/variants`),
+        fetch(`/api/products/${productId}/variant-images`),
+      ]);
+      const data = await variantsResponse.json();
+      if (variantsResponse.ok && Array.isArray(data.variants)) {
         setVariants(data.variants);
+        setOptions(data.options || []);
+      }
+      const imageData = await imagesResponse.json();
+      if (imagesResponse.ok) {
+        setImageLinks(imageData.links || []);
+        setSavedImageIds(
+          (imageData.images || []).map((image: { id: string }) => image.id),
+        );
       }
     } catch (error) {
       console.error("Failed to fetch variants:", error);
@@ -51,8 +65,11 @@ export function useProductVariants({
 
   return {
     variants,
-    uniqueColorOptions,
+    options,
+    imageLinks,
+    savedImageIds,
     isLoading,
     refreshVariants: fetchVariants,
+    setImageLinks,
   };
 }
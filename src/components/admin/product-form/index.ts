@@ -3,8 +3,10 @@
 // Section Components
 export { AdditionalInfoSection } from "./AdditionalInfoSection";
 export { AttributesSection } from "./AttributesSection";
+export { BundleSection } from "./BundleSection";
 export { BasicInfoSection } from "./BasicInfoSection";
 export { PricingAvailabilitySection } from "./PricingAvailabilitySection";
+export { RecommendationsSection } from "./RecommendationsSection";
 export { ProductImagesSection } from "./ProductImagesSection";
 export { SeoSection } from "./SeoSection";
 export { TitleDescriptionSection } from "./TitleDescriptionSection";
@@ -35,6 +37,7 @@ export {
   type ProductFormValues,
   type Category,
   type ProductImage,
+  type BundleVariantChoice,
 } from "./types";
 
 // Utils
@@ -1,11 +1,30 @@
 // src/components/admin/product-form/types.ts
 import { z } from "zod";
+import { ProductType } from "@/db/schema";
 
 export interface Category {
   id: string;
   name: string;
 }
 
+// A product picked to recommend with the one being edited
+const recommendedProductSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  price: z.number(),
+  discountPercentage: z.number().nullable(),
+});
+
+// A variant that can go in a bundle
+export interface BundleVariantChoice {
+  id: string;
+  productId: string;
+  productName: string;
+  sku: string;
+  options: Record<string, string>;
+  stock: number;
+}
+
 export const productFormSchema = z.object({
   id: z.string().optional(),
   name: z
@@ -21,6 +40,7 @@ export const productFormSchema = z.object({
     .min(0, "Price must be greater than or equal to 0")
     .max(1000000000000, "Price must be less than 1000000000000"),
   categoryId: z.string().min(1, "Please select a category"),
+  additionalCategoryIds: z.array(z.string()).optional(),
   isActive: z.boolean(),
   discountType: z.enum(["percentage", "flat"]),
   discountPercentage: z
@@ -66,6 +86,18 @@ export const productFormSchema = z.object({
       }),
     )
     .optional(),
+  relatedProducts: z.array(recommendedProductSchema).optional(),
+  frequentlyBoughtTogether: z.array(recommendedProductSchema).optional(),
+  type: z.nativeEnum(ProductType),
+  bundleItems: z.array(
+    z.object({
+      variantId: z.string().min(1, "Please select a variant."),
+      quantity: z
+        .number()
+        .int("Quantity must be a whole number")
+        .min(1, "Quantity must be at least 1"),
+    }),
+  ),
   slugEdited: z.boolean().optional(),
 });
 
@@ -7,6 +7,7 @@ import {
   real,
   unique,
   index,
+  type AnySQLiteColumn,
 } from "drizzle-orm/sqlite-core";
 import type { InferSelectModel } from "drizzle-orm";
 
@@ -265,10 +266,99 @@ export const DeliveryProvider = {
 export type DeliveryProviderType =
   (typeof DeliveryProvider)[keyof typeof DeliveryProvider];
 
+// Payment status enum (used by both orders and individual payments)
+export const PaymentStatus = {
+  UNPAID: "unpaid", // Order only: no online payment attempted (cash on delivery)
+  PENDING: "pending",
+  PAID: "paid",
+  PARTIALLY_PAID: "partially_paid", // Order only: an advance was paid, the rest is due
+  FAILED: "failed",
+  CANCELLED: "cancelled", // Payment only: customer abandoned the gateway
+  REFUNDED: "refunded",
+} as const;
+
+export type PaymentStatus = (typeof PaymentStatus)[keyof typeof PaymentStatus];
+
+// Payment provider enum
+export const PaymentProvider = {
+  SSLCOMMERZ: "sslcommerz",
+  BKASH: "bkash",
+  MOCK: "mock", // Offline provider for development and testing
+} as const;
+
+export type PaymentProviderType =
+  (typeof PaymentProvider)[keyof typeof PaymentProvider];
+
+// Ways money reaches the shop outside the payment gateways
+export const PaymentMethod = {
+  COD: "cod", // Collected by the courier on delivery
+  CASH: "cash",
+  BKASH: "bkash", // Manual bKash send money
+  NAGAD: "nagad",
+  ROCKET: "rocket",
+  BANK_TRANSFER: "bank_transfer",
+} as const;
+
+export type PaymentMethodType =
+  (typeof PaymentMethod)[keyof typeof PaymentMethod];
+
+// Payment ledger entry types
+export const PaymentEntryType = {
+  PAYMENT: "payment",
+  REFUND: "refund",
+} as const;
+
+export type PaymentEntryType =
+  (typeof PaymentEntryType)[keyof typeof PaymentEntryType];
+
+// Return request status enum
+export const ReturnStatus = {
+  REQUESTED: "requested",
+  APPROVED: "approved",
+  REJECTED: "rejected",
+} as const;
+
+export type ReturnStatus = (typeof ReturnStatus)[keyof typeof ReturnStatus];
+
+// Return reason enum
+export const ReturnReason = {
+  DAMAGED: "damaged",
+  WRONG_ITEM: "wrong_item",
+  NOT_AS_DESCRIBED: "not_as_described",
+  SIZE_ISSUE: "size_issue",
+  CHANGED_MIND: "changed_mind",
+  OTHER: "other",
+} as const;
+
+export type ReturnReason = (typeof ReturnReason)[keyof typeof ReturnReason];
+
+// Refund type enum
+export const RefundType = {
+  FULL: "full", // Nothing paid remains on the order
+  PARTIAL: "partial",
+} as const;
+
+export type RefundType = (typeof RefundType)[keyof typeof RefundType];
+
 // =============================================
 // PRODUCT RELATED TABLES
 // =============================================
 
+// A bundle is sold as one product but made of other products' variants; it
+// has no variants or stock of its own. See src/lib/catalog/bundles.ts
+export const ProductType = {
+  STANDARD: "standard",
+  BUNDLE: "bundle",
+} as const;
+
+export type ProductType = (typeof ProductType)[keyof typeof ProductType];
+
+// A variant in a bundle and how many of it one bundle holds
+export interface BundleComponent {
+  variantId: string;
+  quantity: number;
+}
+
 export const products = sqliteTable(
   "products",
   {
@@ -296,6 +386,7 @@ export const products = sqliteTable(
     freeDelivery: integer("free_delivery", { mode: "boolean" })
       .notNull()
       .default(false),
+    type: text("type").notNull().default(ProductType.STANDARD),
   },
   (table) => [
     index("products_slug_idx").on(table.slug),
@@ -324,19 +415,24 @@ export const productImages = sqliteTable("product_images", {
 export const productVariants = sqliteTable("product_variants", {
   id: text("id").primaryKey(),
   productId: text("product_id").notNull(),
-  size: text("size"),
-  color: text("color"),
+  // Value of each of the product's options, e.g. {"Size": "M", "Color": "Red"};
+  // see src/lib/catalog/variant-options.ts
+  options: text("options", { mode: "json" })
+    .$type<Record<string, string>>()
+    .notNull()
+    .default({}),
   weight: real("weight"),
   sku: text("sku").notNull(),
   price: real("price").notNull(),
   stock: integer("stock").notNull().default(0),
+  // Stock at or below which the variant counts as running low; null uses the
+  // store's default (see src/lib/inventory/low-stock.ts)
+  lowStockThreshold: integer("low_stock_threshold"),
   discountPercentage: real("discount_percentage").default(0),
   discountType: text("discount_type", { enum: ["percentage", "flat"] }).default(
     "percentage",
   ),
   discountAmount: real("discount_amount").default(0),
-  colorSortOrder: integer("color_sort_order").default(0),
-  sizeSortOrder: integer("size_sort_order").default(0),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`CURRENT_TIMESTAMP`),
@@ -359,6 +455,15 @@ export const categories = sqliteTable(
     imageUrl: text("image_url"),
     metaTitle: text("meta_title"),
     metaDescription: text("meta_description"),
+    parentId: text("parent_id").references(
+      (): AnySQLiteColumn => categories.id,
+    ),
+    // Ids from the root down to this category, e.g. "/cat_a/cat_b/". A
+    // category's subtree is every row whose path starts with its own path;
+    // see src/lib/catalog/category-tree.ts.
+    path: text("path").notNull().default(""),
+    depth: integer("depth").notNull().default(0), // 0 for top-level categories
+    sortOrder: integer("sort_order").notNull().default(0), // Among siblings
     createdAt: integer("created_at", { mode: "timestamp" })
       .notNull()
       .default(sql`CURRENT_TIMESTAMP`),
@@ -367,7 +472,11 @@ export const categories = sqliteTable(
       .default(sql`CURRENT_TIMESTAMP`),
     deletedAt: integer("deleted_at", { mode: "timestamp" }),
   },
-  (table) => [index("categories_slug_idx").on(table.slug)],
+  (table) => [
+    index("categories_slug_idx").on(table.slug),
+    index("categories_parent_idx").on(table.parentId),
+    index("categories_path_idx").on(table.path),
+  ],
 );
 
 export const collections = sqliteTable("collections", {
@@ -427,6 +536,151 @@ export const productAttributeValues = sqliteTable(
   (table) => [unique().on(table.productId, table.attributeId)],
 );
 
+// Options a product's variants differ by (e.g. Size, Material, Storage), in
+// display order. Each variant picks one value of every option.
+export const productOptions = sqliteTable(
+  "product_options",
+  {
+    id: text("id").primaryKey(),
+    productId: text("product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    sortOrder: integer("sort_order").notNull().default(0),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [unique().on(table.productId, table.name)],
+);
+
+export const productOptionValues = sqliteTable(
+  "product_option_values",
+  {
+    id: text("id").primaryKey(),
+    optionId: text("option_id")
+      .notNull()
+      .references(() => productOptions.id, { onDelete: "cascade" }),
+    value: text("value").notNull(),
+    sortOrder: integer("sort_order").notNull().default(0),
+  },
+  (table) => [unique().on(table.optionId, table.value)],
+);
+
+// Images shown for particular variants. A row links an image either to one
+// variant or to an option value, e.g. every "Red" variant; see
+// src/lib/catalog/variant-images.ts
+export const variantImages = sqliteTable(
+  "variant_images",
+  {
+    id: text("id").primaryKey(),
+    productId: text("product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    imageId: text("image_id")
+      .notNull()
+      .references(() => productImages.id, { onDelete: "cascade" }),
+    variantId: text("variant_id").references(() => productVariants.id, {
+      onDelete: "cascade",
+    }),
+    optionValueId: text("option_value_id").references(
+      () => productOptionValues.id,
+      { onDelete: "cascade" },
+    ),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [
+    index("variant_images_product_idx").on(table.productId),
+    unique().on(table.imageId, table.variantId),
+    unique().on(table.imageId, table.optionValueId),
+  ],
+);
+
+// Categories a product is listed in. `products.categoryId` is the primary
+// one, used for breadcrumbs and URLs, and always has a row here too.
+export const productCategories = sqliteTable(
+  "product_categories",
+  {
+    id: text("id").primaryKey(),
+    productId: text("product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    categoryId: text("category_id")
+      .notNull()
+      .references(() => categories.id, { onDelete: "cascade" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [
+    unique().on(table.productId, table.categoryId),
+    index("product_categories_category_idx").on(table.categoryId),
+  ],
+);
+
+// Products picked by hand to recommend with a product. They are listed
+// before the computed recommendations; see src/lib/catalog/recommendations.ts
+export const RecommendationType = {
+  RELATED: "related",
+  FREQUENTLY_BOUGHT_TOGETHER: "frequently_bought_together",
+} as const;
+
+export type RecommendationType =
+  (typeof RecommendationType)[keyof typeof RecommendationType];
+
+export const productRecommendations = sqliteTable(
+  "product_recommendations",
+  {
+    id: text("id").primaryKey(),
+    productId: text("product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    recommendedProductId: text("recommended_product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    type: text("type").notNull(),
+    sortOrder: integer("sort_order").notNull().default(0),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [
+    unique().on(table.productId, table.recommendedProductId, table.type),
+    index("product_recommendations_product_idx").on(
+      table.productId,
+      table.type,
+    ),
+  ],
+);
+
+// Variants a bundle product is made of
+export const bundleItems = sqliteTable(
+  "bundle_items",
+  {
+    id: text("id").primaryKey(),
+    bundleId: text("bundle_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    variantId: text("variant_id")
+      .notNull()
+      .references(() => productVariants.id, { onDelete: "cascade" }),
+    quantity: integer("quantity").notNull().default(1),
+    sortOrder: integer("sort_order").notNull().default(0),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [
+    unique().on(table.bundleId, table.variantId),
+    index("bundle_items_variant_idx").on(table.variantId),
+  ],
+);
+
 // Add productRichContent table
 export const productRichContent = sqliteTable("product_rich_content", {
   id: text("id").primaryKey(),
@@ -515,6 +769,15 @@ export const orders = sqliteTable("orders", {
   shippingCharge: real("shipping_charge").notNull(),
   discountAmount: real("discount_amount").default(0),
   status: text("status").notNull().default(OrderStatus.PENDING),
+  paymentStatus: text("payment_status")
+    .notNull()
+    .default(PaymentStatus.UNPAID),
+  paymentMethod: text("payment_method").notNull().default("cod"), // cod or a payment provider type
+  paidAmount: real("paid_amount").notNull().default(0), // Net of refunds, kept in sync with payment_entries
+  refundedAmount: real("refunded_amount").notNull().default(0), // Sum of refunds, excluded from customer spend
+  currency: text("currency").notNull().default("BDT"), // Base currency the amounts are in when ordered
+  displayCurrency: text("display_currency"), // Currency the customer shopped in, null for the base currency
+  exchangeRate: real("exchange_rate").notNull().default(1), // Display currency units per base unit when ordered
   notes: text("notes"),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
@@ -537,6 +800,11 @@ export const orderItems = sqliteTable("order_items", {
   variantId: text("variant_id"),
   quantity: integer("quantity").notNull(),
   price: real("price").notNull(),
+  // For bundles: the variants one bundle held when ordered, which is the
+  // stock the item takes and gives back
+  bundleComponents: text("bundle_components", {
+    mode: "json",
+  }).$type<BundleComponent[]>(),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`(cast(strftime('%s','now') as int))`),
@@ -545,6 +813,67 @@ export const orderItems = sqliteTable("order_items", {
   index("order_items_product_id_idx").on(table.productId),
 ]);
 
+// One row per returned order item. Stock goes back to the variant when the
+// return is approved with restocking.
+export const orderReturns = sqliteTable(
+  "order_returns",
+  {
+    id: text("id").primaryKey(),
+    orderId: text("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+    // Editing an order updates its items in place (see src/lib/orders/items.ts)
+    orderItemId: text("order_item_id")
+      .notNull()
+      .references(() => orderItems.id, { onDelete: "cascade" }),
+    productId: text("product_id").notNull(),
+    variantId: text("variant_id"),
+    quantity: integer("quantity").notNull(),
+    reason: text("reason").notNull(),
+    note: text("note"),
+    status: text("status").notNull().default(ReturnStatus.REQUESTED),
+    restocked: integer("restocked", { mode: "boolean" })
+      .notNull()
+      .default(false),
+    requestedBy: text("requested_by"), // Admin user ID
+    resolvedBy: text("resolved_by"),
+    resolvedAt: integer("resolved_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(cast(strftime('%s','now') as int))`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(cast(strftime('%s','now') as int))`),
+  },
+  (table) => [index("order_returns_order_id_idx").on(table.orderId)],
+);
+
+// Money given back to the customer. Each refund also has a ledger entry in
+// payment_entries so the order's paid amount stays net of refunds.
+export const refunds = sqliteTable(
+  "refunds",
+  {
+    id: text("id").primaryKey(),
+    orderId: text("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+    returnId: text("return_id").references(() => orderReturns.id, {
+      onDelete: "set null",
+    }),
+    paymentEntryId: text("payment_entry_id"),
+    type: text("type").notNull(), // RefundType
+    amount: real("amount").notNull(),
+    method: text("method").notNull(), // A PaymentMethod value or a payment provider type
+    reference: text("reference"),
+    note: text("note"),
+    createdBy: text("created_by"), // Admin user ID
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(cast(strftime('%s','now') as int))`),
+  },
+  (table) => [index("refunds_order_id_idx").on(table.orderId)],
+);
+
 // =============================================
 // DELIVERY RELATED TABLES
 // =============================================
@@ -605,6 +934,89 @@ export const deliveryShipments = sqliteTable("delivery_shipments", {
     .default(sql`CURRENT_TIMESTAMP`),
 });
 
+// =============================================
+// PAYMENT RELATED TABLES
+// =============================================
+
+export const paymentProviders = sqliteTable("payment_providers", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // sslcommerz, bkash, mock, etc.
+  isActive: integer("is_active", { mode: "boolean" }).notNull().default(false),
+  credentials: text("credentials").notNull(), // JSON string of provider-specific credentials
+  config: text("config").notNull(), // JSON string of additional configuration
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(cast(strftime('%s','now') as int))`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(cast(strftime('%s','now') as int))`),
+});
+
+export const payments = sqliteTable(
+  "payments",
+  {
+    id: text("id").primaryKey(), // Also sent to the gateway as our transaction reference
+    orderId: text("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+    providerId: text("provider_id")
+      .notNull()
+      .references(() => paymentProviders.id),
+    providerType: text("provider_type").notNull(), // sslcommerz, bkash, mock, etc.
+    amount: real("amount").notNull(),
+    currency: text("currency").notNull().default("BDT"),
+    status: text("status").notNull().default(PaymentStatus.PENDING),
+    rawStatus: text("raw_status"), // Raw status from the provider
+    externalId: text("external_id"), // Gateway session/payment ID
+    transactionId: text("transaction_id"), // Gateway transaction ID once paid
+    redirectUrl: text("redirect_url"), // Gateway page the customer is sent to
+    returnUrl: text("return_url"), // Storefront page to return to after the gateway
+    metadata: text("metadata"), // JSON string containing gateway responses
+    paidAt: integer("paid_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(cast(strftime('%s','now') as int))`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(cast(strftime('%s','now') as int))`),
+  },
+  (table) => [
+    index("payments_order_id_idx").on(table.orderId),
+    index("payments_external_id_idx").on(table.externalId),
+  ],
+);
+
+// Ledger of money received for (or returned on) an order. Gateway payments
+// get an entry once confirmed; advances and COD collections are recorded
+// manually from the admin.
+export const paymentEntries = sqliteTable(
+  "payment_entries",
+  {
+    id: text("id").primaryKey(),
+    orderId: text("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+    paymentId: text("payment_id").references(() => payments.id, {
+      onDelete: "set null",
+    }), // Set for gateway payments
+    type: text("type").notNull().default(PaymentEntryType.PAYMENT),
+    method: text("method").notNull(), // A PaymentMethod value or a payment provider type
+    amount: real("amount").notNull(), // Always positive; the type gives the direction
+    reference: text("reference"), // Transaction ID, receipt number, etc.
+    note: text("note"),
+    recordedBy: text("recorded_by"), // Admin user ID, null for gateway entries
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(cast(strftime('%s','now') as int))`),
+  },
+  (table) => [
+    index("payment_entries_order_id_idx").on(table.orderId),
+    // One ledger entry per gateway payment and direction
+    unique("payment_entries_payment_type").on(table.paymentId, table.type),
+  ],
+);
+
 // =============================================
 // SITE CONTENT & SETTINGS TABLES
 // =============================================
@@ -1016,6 +1428,9 @@ export type ProductAttributeValue = InferSelectModel<
   typeof productAttributeValues
 >;
 export type ProductRichContent = InferSelectModel<typeof productRichContent>;
+export type ProductCategory = InferSelectModel<typeof productCategories>;
+export type ProductOption = InferSelectModel<typeof productOptions>;
+export type ProductOptionValue = InferSelectModel<typeof productOptionValues>;
 
 // Customer related types
 export type Customer = InferSelectModel<typeof customers>;
@@ -1050,6 +1465,13 @@ export type DeliveryLocation = InferSelectModel<typeof deliveryLocations>;
 export type DeliveryProvider = InferSelectModel<typeof deliveryProviders>;
 export type DeliveryShipment = InferSelectModel<typeof deliveryShipments>;
 
+// Payment types
+export type PaymentProvider = InferSelectModel<typeof paymentProviders>;
+export type Payment = InferSelectModel<typeof payments>;
+export type PaymentEntry = InferSelectModel<typeof paymentEntries>;
+export type OrderReturn = InferSelectModel<typeof orderReturns>;
+export type Refund = InferSelectModel<typeof refunds>;
+
 // Site content and settings types
 export type Setting = InferSelectModel<typeof settings>;
 export type SiteSettings = InferSelectModel<typeof siteSettings>;
@@ -1163,8 +1585,432 @@ export const checkoutLanguages = sqliteTable("checkout_languages", {
 // Type for CheckoutLanguage
 export type CheckoutLanguage = InferSelectModel<typeof checkoutLanguages>;
 
+// =============================================
+// CURRENCY RELATED TABLES
+// =============================================
+
+// How converted prices are rounded to the currency's rounding increment
+export const RoundingMode = {
+  NEAREST: "nearest",
+  UP: "up",
+  DOWN: "down",
+} as const;
+
+export type RoundingMode = (typeof RoundingMode)[keyof typeof RoundingMode];
+
+// Catalog prices are stored in the base currency. The others are display
+// currencies, converted at their exchange rate and rounded by their rules.
+export const currencies = sqliteTable("currencies", {
+  id: text("id").primaryKey(),
+  code: text("code").notNull().unique(), // ISO 4217, e.g. "BDT", "USD"
+  name: text("name").notNull(),
+  symbol: text("symbol").notNull(), // e.g. "৳", "$"
+  exchangeRate: real("exchange_rate").notNull().default(1), // Units of this currency per one unit of the base currency
+  decimalPlaces: integer("decimal_places").notNull().default(2),
+  roundingMode: text("rounding_mode").notNull().default(RoundingMode.NEAREST),
+  roundingIncrement: real("rounding_increment"), // e.g. 0.05 or 1, null rounds to decimalPlaces
+  isBase: integer("is_base", { mode: "boolean" }).notNull().default(false), // Exactly one, with a rate of 1
+  isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(cast(strftime('%s','now') as int))`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(cast(strftime('%s','now') as int))`),
+  deletedAt: integer("deleted_at", { mode: "timestamp" }),
+});
+
+export type Currency = InferSelectModel<typeof currencies>;
+
 // Meta Conversions API related types
 export type MetaConversionsSettings = InferSelectModel<
   typeof metaConversionsSettings
 >;
 export type MetaConversionsLog = InferSelectModel<typeof metaConversionsLogs>;
+
+// =============================================
+// WEBHOOK RELATED TABLES
+// =============================================
+
+// Events that can be sent to webhook endpoints
+export const WebhookEvent = {
+  ORDER_CREATED: "order.created",
+  ORDER_STATUS_CHANGED: "order.status_changed",
+  SHIPMENT_UPDATED: "shipment.updated",
+  PRODUCT_STOCK_LOW: "product.stock_low",
+  CUSTOMER_CREATED: "customer.created",
+} as const;
+
+export type WebhookEvent = (typeof WebhookEvent)[keyof typeof WebhookEvent];
+
+export const WebhookDeliveryStatus = {
+  PENDING: "pending", // Waiting for its first attempt or a retry
+  SUCCESS: "success",
+  FAILED: "failed", // Gave up after the last retry
+} as const;
+
+export type WebhookDeliveryStatus =
+  (typeof WebhookDeliveryStatus)[keyof typeof WebhookDeliveryStatus];
+
+export const webhookEndpoints = sqliteTable("webhook_endpoints", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // HMAC-SHA256 signing secret
+  events: text("events").notNull(), // JSON array of subscribed WebhookEvent values
+  isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(cast(strftime('%s','now') as int))`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(cast(strftime('%s','now') as int))`),
+});
+
+export const webhookDeliveries = sqliteTable(
+  "webhook_deliveries",
+  {
+    id: text("id").primaryKey(), // Sent as the X-Webhook-Id header
+    endpointId: text("endpoint_id")
+      .notNull()
+      .references(() => webhookEndpoints.id, { onDelete: "cascade" }),
+    eventId: text("event_id").notNull(), // Same for every endpoint and redelivery of one event
+    event: text("event").notNull(),
+    payload: text("payload").notNull(), // JSON body exactly as sent
+    status: text("status").notNull().default(WebhookDeliveryStatus.PENDING),
+    attempts: integer("attempts").notNull().default(0),
+    responseStatus: integer("response_status"),
+    responseBody: text("response_body"), // Truncated
+    error: text("error"),
+    nextAttemptAt: integer("next_attempt_at", { mode: "timestamp" }), // Null once delivered or given up
+    lastAttemptAt: integer("last_attempt_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(cast(strftime('%s','now') as int))`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(cast(strftime('%s','now') as int))`),
+  },
+  (table) => [
+    index("webhook_deliveries_endpoint_id_idx").on(table.endpointId),
+    index("webhook_deliveries_next_attempt_idx").on(
+      table.status,
+      table.nextAttemptAt,
+    ),
+  ],
+);
+
+export type WebhookEndpoint = InferSelectModel<typeof webhookEndpoints>;
+export type WebhookDelivery = InferSelectModel<typeof webhookDeliveries>;
+
+// =============================================
+// SCHEDULED JOB RELATED TABLES
+// =============================================
+
+export const ScheduledJobRunStatus = {
+  RUNNING: "running",
+  SUCCESS: "success",
+  FAILED: "failed",
+} as const;
+
+export type ScheduledJobRunStatus =
+  (typeof ScheduledJobRunStatus)[keyof typeof ScheduledJobRunStatus];
+
+export const ScheduledJobTrigger = {
+  CRON: "cron", // Cloudflare scheduled event
+  MANUAL: "manual", // "Run now" in the admin
+  CLI: "cli", // src/scripts/run-jobs.ts
+} as const;
+
+export type ScheduledJobTrigger =
+  (typeof ScheduledJobTrigger)[keyof typeof ScheduledJobTrigger];
+
+// Per-job settings and last outcome. Jobs themselves are defined in code
+// (src/lib/jobs/registry.ts); a row is created the first time a job is seen.
+export const scheduledJobs = sqliteTable("scheduled_jobs", {
+  id: text("id").primaryKey(), // Job key from the registry
+  isEnabled: integer("is_enabled", { mode: "boolean" }).notNull().default(true),
+  intervalMinutes: integer("interval_minutes").notNull(),
+  lastRunAt: integer("last_run_at", { mode: "timestamp" }),
+  lastStatus: text("last_status"), // ScheduledJobRunStatus of the last finished run
+  lastMessage: text("last_message"),
+  lastDurationMs: integer("last_duration_ms"),
+  lockedUntil: integer("locked_until", { mode: "timestamp" }), // Set while a run is in progress
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(cast(strftime('%s','now') as int))`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(cast(strftime('%s','now') as int))`),
+});
+
+export const scheduledJobRuns = sqliteTable(
+  "scheduled_job_runs",
+  {
+    id: text("id").primaryKey(),
+    jobId: text("job_id")
+      .notNull()
+      .references(() => scheduledJobs.id, { onDelete: "cascade" }),
+    trigger: text("trigger").notNull(),
+    status: text("status").notNull().default(ScheduledJobRunStatus.RUNNING),
+    message: text("message"),
+    startedAt: integer("started_at", { mode: "timestamp" }).notNull(),
+    finishedAt: integer("finished_at", { mode: "timestamp" }),
+    durationMs: integer("duration_ms"),
+  },
+  (table) => [
+    index("scheduled_job_runs_job_started_idx").on(
+      table.jobId,
+      table.startedAt,
+    ),
+  ],
+);
+
+export type ScheduledJob = InferSelectModel<typeof scheduledJobs>;
+export type ScheduledJobRun = InferSelectModel<typeof scheduledJobRuns>;
+
+// =============================================
+// INVENTORY LEDGER RELATED TABLES
+// =============================================
+
+export const StockMovementReason = {
+  SALE: "sale", // Order placed, items added to an order, order restored from trash
+  CANCEL: "cancel", // Order deleted or items removed from an order
+  RETURN: "return", // Approved return put back in stock
+  MANUAL: "manual", // Admin edit, new variant, opening balance
+  IMPORT: "import", // Variants created or restocked by a CSV or XLSX import
+} as const;
+
+export type StockMovementReason =
+  (typeof StockMovementReason)[keyof typeof StockMovementReason];
+
+// Append-only record of every stock change. The sum of a variant's deltas
+// equals its stock; see src/lib/inventory/ledger.ts.
+export const stockMovements = sqliteTable(
+  "stock_movements",
+  {
+    id: text("id").primaryKey(),
+    variantId: text("variant_id")
+      .notNull()
+      .references(() => productVariants.id, { onDelete: "cascade" }),
+    delta: integer("delta").notNull(), // Positive adds stock, negative removes it
+    reason: text("reason").notNull(), // StockMovementReason
+    orderId: text("order_id").references(() => orders.id, {
+      onDelete: "set null",
+    }),
+    actorId: text("actor_id"), // Admin user id, "system" for API clients, null when unknown
+    note: text("note"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(cast(strftime('%s','now') as int))`),
+  },
+  (table) => [
+    index("stock_movements_variant_created_idx").on(
+      table.variantId,
+      table.createdAt,
+    ),
+    index("stock_movements_order_idx").on(table.orderId),
+  ],
+);
+
+export type StockMovement = InferSelectModel<typeof stockMovements>;
+
+// =============================================
+// SEARCH RELATED TABLES
+// =============================================
+
+// Words customers use interchangeably, e.g. ["t-shirt", "tee", "গেঞ্জি"].
+// A search for any term in a group also matches the others; see
+// src/lib/search/query.ts.
+export const searchSynonyms = sqliteTable("search_synonyms", {
+  id: text("id").primaryKey(),
+  terms: text("terms", { mode: "json" }).$type<string[]>().notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(cast(strftime('%s','now') as int))`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(cast(strftime('%s','now') as int))`),
+});
+
+export type SearchSynonym = InferSelectModel<typeof searchSynonyms>;
+
+// Where a logged search came from
+export const SearchQuerySource = {
+  SEARCH: "search", // GET /api/v1/search
+  PRODUCTS: "products", // GET /api/v1/products?search=
+} as const;
+
+export type SearchQuerySource =
+  (typeof SearchQuerySource)[keyof typeof SearchQuerySource];
+
+// One row per storefront search. The id is sent back as X-Search-Id so the
+// storefront can report the result the shopper clicked and the order that
+// followed.
+export const searchQueries = sqliteTable(
+  "search_queries",
+  {
+    id: text("id").primaryKey(),
+    query: text("query").notNull(), // Normalized: lowercased, single spaces
+    source: text("source").notNull(), // SearchQuerySource
+    resultCount: integer("result_count").notNull(),
+    clickedEntityType: text("clicked_entity_type"), // product, category or page
+    clickedEntityId: text("clicked_entity_id"),
+    clickedAt: integer("clicked_at", { mode: "timestamp" }),
+    orderId: text("order_id").references(() => orders.id, {
+      onDelete: "set null",
+    }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(cast(strftime('%s','now') as int))`),
+  },
+  (table) => [
+    index("search_queries_created_idx").on(table.createdAt),
+    index("search_queries_query_created_idx").on(
+      table.query,
+      table.createdAt,
+    ),
+  ],
+);
+
+export type SearchQuery = InferSelectModel<typeof searchQueries>;
+
+// =============================================
+// TRANSLATION RELATED TABLES
+// =============================================
+
+// Content that can be translated, and the columns of each that can be
+export const TranslatableEntity = {
+  PRODUCT: "product", // name, description, metaTitle, metaDescription
+  PRODUCT_RICH_CONTENT: "product_rich_content", // title, content
+  CATEGORY: "category", // name, description, metaTitle, metaDescription
+  COLLECTION: "collection", // title, subtitle (from the config JSON)
+  PAGE: "page", // title, content, metaTitle, metaDescription
+} as const;
+
+export type TranslatableEntity =
+  (typeof TranslatableEntity)[keyof typeof TranslatableEntity];
+
+// One translated field of one record. The record's own columns hold the
+// default language; a field without a row here falls back to them. Rows are
+// not tied to their record by a foreign key since it may live in any of the
+// tables above; see src/lib/i18n/translations.ts.
+export const contentTranslations = sqliteTable(
+  "content_translations",
+  {
+    id: text("id").primaryKey(),
+    entityType: text("entity_type").notNull(), // TranslatableEntity
+    entityId: text("entity_id").notNull(),
+    locale: text("locale").notNull(), // checkout_languages.code, e.g. "bn"
+    field: text("field").notNull(),
+    value: text("value").notNull(),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(cast(strftime('%s','now') as int))`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(cast(strftime('%s','now') as int))`),
+  },
+  (table) => [
+    unique("content_translations_field_unique").on(
+      table.entityType,
+      table.entityId,
+      table.locale,
+      table.field,
+    ),
+  ],
+);
+
+export type ContentTranslation = InferSelectModel<typeof contentTranslations>;
+
+// =============================================
+// PRODUCT REVIEW RELATED TABLES
+// =============================================
+
+// Review moderation status. Only approved reviews are shown and counted in
+// product ratings.
+export const ReviewStatus = {
+  PENDING: "pending",
+  APPROVED: "approved",
+  REJECTED: "rejected",
+  SPAM: "spam",
+} as const;
+
+export type ReviewStatus = (typeof ReviewStatus)[keyof typeof ReviewStatus];
+
+// A customer's review of a product. Submitted from the storefront and held
+// for moderation; see src/lib/reviews/service.ts.
+export const productReviews = sqliteTable(
+  "product_reviews",
+  {
+    id: text("id").primaryKey(),
+    productId: text("product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    // Delivered order of the reviewer containing the product, if any
+    orderId: text("order_id").references(() => orders.id, {
+      onDelete: "set null",
+    }),
+    customerId: text("customer_id").references(() => customers.id, {
+      onDelete: "set null",
+    }),
+    customerName: text("customer_name").notNull(),
+    customerPhone: text("customer_phone").notNull(), // Standardized, never shown publicly
+    rating: integer("rating").notNull(), // 1 to 5
+    title: text("title"),
+    body: text("body").notNull(),
+    images: text("images").notNull().default("[]"), // JSON array of R2 image URLs
+    isVerifiedPurchase: integer("is_verified_purchase", { mode: "boolean" })
+      .notNull()
+      .default(false),
+    status: text("status").notNull().default(ReviewStatus.PENDING),
+    spamReasons: text("spam_reasons"), // JSON array of the spam checks it failed
+    ipAddress: text("ip_address"),
+    moderationNote: text("moderation_note"),
+    moderatedBy: text("moderated_by"),
+    moderatedAt: integer("moderated_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(cast(strftime('%s','now') as int))`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(cast(strftime('%s','now') as int))`),
+    deletedAt: integer("deleted_at", { mode: "timestamp" }),
+  },
+  (table) => [
+    index("product_reviews_product_status_idx").on(
+      table.productId,
+      table.status,
+    ),
+    index("product_reviews_status_idx").on(table.status),
+    index("product_reviews_customer_phone_idx").on(table.customerPhone),
+  ],
+);
+
+export type ProductReview = InferSelectModel<typeof productReviews>;
+
+// Photos uploaded from the storefront review form. A review can only use
+// uploads no other review has claimed; unclaimed ones are deleted by the
+// review-image-cleanup job.
+export const reviewImageUploads = sqliteTable(
+  "review_image_uploads",
+  {
+    id: text("id").primaryKey(),
+    key: text("key").notNull(), // R2 object key
+    url: text("url").notNull().unique(),
+    reviewId: text("review_id").references(() => productReviews.id, {
+      onDelete: "set null",
+    }),
+    ipAddress: text("ip_address"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(cast(strftime('%s','now') as int))`),
+  },
+  (table) => [
+    index("review_image_uploads_review_created_idx").on(
+      table.reviewId,
+      table.createdAt,
+    ),
+  ],
+);
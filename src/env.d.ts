@@ -93,6 +93,7 @@ declare namespace App {
     permissions: Set<string>;
     runtime?: {
       env: Env;
+      ctx: import("@cloudflare/workers-types").ExecutionContext;
     };
   }
 }
@@ -0,0 +1,87 @@
+import { useState, useEffect } from "react";
+
+export interface StoreLanguage {
+  code: string;
+  name: string;
+}
+
+interface StoreLocalesState {
+  defaultLocale: string | null;
+  // Languages content can be translated into, without the default one
+  translationLocales: StoreLanguage[];
+}
+
+/**
+ * Global cache for the store languages to avoid repeated API calls across
+ * components, e.g. one per navigation item
+ */
+let globalLocales: StoreLocalesState | null = null;
+let globalPromise: Promise<StoreLocalesState> | null = null;
+
+const EMPTY_LOCALES: StoreLocalesState = {
+  defaultLocale: null,
+  translationLocales: [],
+};
+
+/**
+ * Fetches the store languages, which are its checkout languages
+ */
+async function fetchStoreLocales(): Promise<StoreLocalesState> {
+  if (globalLocales) {
+    return globalLocales;
+  }
+
+  if (globalPromise) {
+    return globalPromise;
+  }
+
+  globalPromise = fetch("/api/admin/settings/checkout-languages?limit=100")
+    .then((response) => {
+      if (!response.ok) {
+        throw new Error("Failed to fetch store languages");
+      }
+      return response.json();
+    })
+    .then((data) => {
+      const languages: { code: string; name: string; isDefault: boolean }[] =
+        data.data || [];
+      const defaultLocale =
+        languages.find((language) => language.isDefault)?.code.toLowerCase() ??
+        "en";
+      globalLocales = {
+        defaultLocale,
+        translationLocales: languages
+          .map((language) => ({
+            code: language.code.toLowerCase(),
+            name: language.name,
+          }))
+          .filter((language) => language.code !== defaultLocale),
+      };
+      globalPromise = null;
+      return globalLocales;
+    })
+    .catch((error) => {
+      console.warn("Could not fetch store languages:", error);
+      globalPromise = null;
+      return EMPTY_LOCALES;
+    });
+
+  return globalPromise;
+}
+
+/**
+ * React hook for the languages the store's content can be translated into
+ */
+export function useStoreLocales() {
+  const [locales, setLocales] = useState<StoreLocalesState>(
+    globalLocales ?? EMPTY_LOCALES,
+  );
+
+  useEffect(() => {
+    if (!globalLocales) {
+      fetchStoreLocales().then(setLocales);
+    }
+  }, []);
+
+  return locales;
+}
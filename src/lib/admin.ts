@@ -13,6 +13,8 @@ import {
   deliveryProviders,
 } from "../db/schema";
 import { and, sql, desc, like, eq, asc, gte, inArray } from "drizzle-orm";
+import { getAmountDue } from "./payments/balance";
+import { isInCategory } from "./catalog/product-categories";
 import type {
   Product,
   ProductVariant,
@@ -207,7 +209,7 @@ export async function getProducts(options: {
   }
 
   if (categoryId) {
-    whereConditions.push(eq(products.categoryId, categoryId));
+    whereConditions.push(isInCategory(categoryId));
   }
 
   // Get total count for pagination
@@ -455,6 +457,9 @@ export interface OrderListItem {
   shippingCharge: number;
   discountAmount: number | null;
   status: string;
+  paymentStatus: string;
+  paidAmount: number;
+  amountDue: number;
   createdAt: Date;
   updatedAt: Date;
   itemCount: number;
@@ -550,6 +555,8 @@ export async function getOrders(options: {
       shippingCharge: orders.shippingCharge,
       discountAmount: orders.discountAmount,
       status: orders.status,
+      paymentStatus: orders.paymentStatus,
+      paidAmount: orders.paidAmount,
       createdAt: sql<number>`CAST(${orders.createdAt} AS INTEGER)`,
       updatedAt: sql<number>`CAST(${orders.updatedAt} AS INTEGER)`,
       city: orders.city,
@@ -681,6 +688,7 @@ export async function getOrders(options: {
     ...order,
     createdAt: new Date(order.createdAt * 1000),
     updatedAt: new Date(order.updatedAt * 1000),
+    amountDue: getAmountDue(order),
     itemCount: itemCountMap.get(order.id)?.count || 0,
     totalQuantity: itemCountMap.get(order.id)?.quantity || 0,
     latestShipment: shipmentMap.get(order.id) || null,
@@ -711,8 +719,7 @@ export interface OrderDetails extends OrderListItem {
     product: {
       name: string;
       variant?: {
-        size: string | null;
-        color: string | null;
+        options: Record<string, string>;
         weight: number | null;
         sku: string;
       };
@@ -734,6 +741,8 @@ export async function getOrderDetails(
       shippingCharge: orders.shippingCharge,
       discountAmount: orders.discountAmount,
       status: orders.status,
+      paymentStatus: orders.paymentStatus,
+      paidAmount: orders.paidAmount,
       notes: orders.notes,
       shippingAddress: orders.shippingAddress,
       city: orders.city,
@@ -775,14 +784,13 @@ export async function getOrderDetails(
   const variantIds = [...new Set(items.map((i) => i.variantId).filter(Boolean))] as string[];
   const variantMap = new Map<
     string,
-    { size: string | null; color: string | null; weight: number | null; sku: string }
+    { options: Record<string, string>; weight: number | null; sku: string }
   >();
   if (variantIds.length > 0) {
     const variants = await db
       .select({
         id: productVariants.id,
-        size: productVariants.size,
-        color: productVariants.color,
+        options: productVariants.options,
         weight: productVariants.weight,
         sku: productVariants.sku,
       })
@@ -790,8 +798,7 @@ export async function getOrderDetails(
       .where(inArray(productVariants.id, variantIds));
     for (const v of variants) {
       variantMap.set(v.id, {
-        size: v.size,
-        color: v.color,
+        options: v.options,
         weight: v.weight,
         sku: v.sku,
       });
@@ -819,6 +826,7 @@ export async function getOrderDetails(
     createdAt: new Date(order.createdAt * 1000),
     updatedAt: new Date(order.updatedAt * 1000),
     deletedAt: order.deletedAt ? new Date(order.deletedAt * 1000) : null,
+    amountDue: getAmountDue(order),
     items: formattedItems,
     latestShipment: null, // Not needed for order details view
   };
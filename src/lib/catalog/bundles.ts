@@ -0,0 +1,372 @@
+import type { Database } from "@/db";
+import {
+  bundleItems,
+  productImages,
+  products,
+  productVariants,
+  ProductType,
+  type BundleComponent,
+} from "@/db/schema";
+import { nanoid } from "nanoid";
+
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+
+// A bundle takes its stock from the variants it is made of: ordering one
+// takes each component's quantity from that variant. Order items keep the
+// components they were sold with (`orderItems.bundleComponents`), so editing
+// a bundle later never changes what an existing order gives back.
+
+/**
+ * Rows to insert for a bundle's components, in the given order. Repeated
+ * variants are merged.
+ */
+export function bundleItemValues(
+  bundleId: string,
+  components: BundleComponent[],
+) {
+  const quantities = new Map<string, number>();
+  for (const component of components) {
+    quantities.set(
+      component.variantId,
+      (quantities.get(component.variantId) || 0) + component.quantity,
+    );
+  }
+
+  return [...quantities].map(([variantId, quantity], index) => ({
+    id: "bnd_" + nanoid(),
+    bundleId,
+    variantId,
+    quantity,
+    sortOrder: index,
+  }));
+}
+
+/**
+ * Whether the product is a bundle, which has no variants of its own
+ */
+export async function isBundle(db: Database, productId: string) {
+  const product = await db
+    .select({ type: products.type })
+    .from(products)
+    .where(eq(products.id, productId))
+    .get();
+  return product?.type === ProductType.BUNDLE;
+}
+
+/**
+ * Why a bundle cannot be made of the given components, or null when every
+ * component is a variant of another product that is still for sale
+ */
+export async function checkBundleComponents(
+  db: Database,
+  bundleId: string | null,
+  components: BundleComponent[],
+): Promise<string | null> {
+  if (components.length === 0) {
+    return "A bundle needs at least one component";
+  }
+
+  const variantIds = [...new Set(components.map((c) => c.variantId))];
+  const variants = await db
+    .select({ id: productVariants.id, productId: productVariants.productId })
+    .from(productVariants)
+    .innerJoin(products, eq(products.id, productVariants.productId))
+    .where(
+      and(
+        inArray(productVariants.id, variantIds),
+        isNull(productVariants.deletedAt),
+        isNull(products.deletedAt),
+      ),
+    );
+
+  for (const variantId of variantIds) {
+    const variant = variants.find((v) => v.id === variantId);
+    if (!variant) {
+      return `Variant ${variantId} not found`;
+    }
+    if (variant.productId === bundleId) {
+      return "A bundle cannot contain its own variants";
+    }
+  }
+  return null;
+}
+
+/**
+ * Components of each of the given products that is a bundle. Other
+ * products are left out of the map.
+ */
+export async function getBundleComponents(
+  db: Database,
+  productIds: string[],
+): Promise<Map<string, BundleComponent[]>> {
+  const byBundle = new Map<string, BundleComponent[]>();
+  if (productIds.length === 0) return byBundle;
+
+  const rows = await db
+    .select({
+      bundleId: bundleItems.bundleId,
+      variantId: bundleItems.variantId,
+      quantity: bundleItems.quantity,
+    })
+    .from(bundleItems)
+    .innerJoin(products, eq(products.id, bundleItems.bundleId))
+    .where(
+      and(
+        inArray(bundleItems.bundleId, [...new Set(productIds)]),
+        eq(products.type, ProductType.BUNDLE),
+      ),
+    )
+    .orderBy(asc(bundleItems.sortOrder));
+
+  for (const { bundleId, ...component } of rows) {
+    const list = byBundle.get(bundleId) || [];
+    list.push(component);
+    byBundle.set(bundleId, list);
+  }
+  return byBundle;
+}
+
+/**
+ * The items with the components of those that are bundles, as they should
+ * be saved on order items. Bundles already in `previousItems` keep the
+ * components they were ordered with.
+ */
+export async function withBundleComponents<T extends { productId: string }>(
+  db: Database,
+  items: T[],
+  previousItems: {
+    productId: string;
+    bundleComponents?: BundleComponent[] | null;
+  }[] = [],
+): Promise<(T & { bundleComponents: BundleComponent[] | null })[]> {
+  const previous = new Map(
+    previousItems
+      .filter((item) => item.bundleComponents)
+      .map((item) => [item.productId, item.bundleComponents!]),
+  );
+  const current = await getBundleComponents(
+    db,
+    items
+      .map((item) => item.productId)
+      .filter((productId) => !previous.has(productId)),
+  );
+
+  return items.map((item) => ({
+    ...item,
+    bundleComponents:
+      previous.get(item.productId) ?? current.get(item.productId) ?? null,
+  }));
+}
+
+/**
+ * The variants and quantities order items take from stock, with bundles
+ * replaced by their components
+ */
+export function toStockItems(
+  items: {
+    variantId: string | null;
+    quantity: number;
+    bundleComponents?: BundleComponent[] | null;
+  }[],
+): { variantId: string; quantity: number }[] {
+  return items.flatMap((item) =>
+    item.bundleComponents
+      ? item.bundleComponents.map((component) => ({
+          variantId: component.variantId,
+          quantity: component.quantity * item.quantity,
+        }))
+      : item.variantId
+        ? [{ variantId: item.variantId, quantity: item.quantity }]
+        : [],
+  );
+}
+
+/**
+ * The items with what each bundle among them was sold with, named for the
+ * order view. Other items get null.
+ */
+export async function withBundleContents<
+  T extends { bundleComponents: BundleComponent[] | null },
+>(db: Database, items: T[]) {
+  const variantIds = [
+    ...new Set(
+      items.flatMap((item) =>
+        (item.bundleComponents || []).map((component) => component.variantId),
+      ),
+    ),
+  ];
+  const variants =
+    variantIds.length > 0
+      ? await db
+          .select({
+            id: productVariants.id,
+            productName: products.name,
+            sku: productVariants.sku,
+            options: productVariants.options,
+          })
+          .from(productVariants)
+          .innerJoin(products, eq(products.id, productVariants.productId))
+          .where(inArray(productVariants.id, variantIds))
+      : [];
+  const variantMap = new Map(variants.map((variant) => [variant.id, variant]));
+
+  return items.map((item) => ({
+    ...item,
+    bundleContents: item.bundleComponents
+      ? item.bundleComponents.map((component) => {
+          // The variant may have been deleted since
+          const variant = variantMap.get(component.variantId);
+          return {
+            ...component,
+            productName: variant?.productName ?? null,
+            sku: variant?.sku ?? null,
+            variantOptions: variant?.options ?? null,
+          };
+        })
+      : null,
+  }));
+}
+
+/**
+ * How many of a bundle its components' stock covers
+ */
+function coveredQuantity(
+  components: { quantity: number; stock: number | null }[],
+) {
+  if (components.length === 0) return 0;
+  return Math.min(
+    ...components.map((component) =>
+      // A deleted variant cannot be sold
+      component.stock === null
+        ? 0
+        : Math.floor(Math.max(component.stock, 0) / component.quantity),
+    ),
+  );
+}
+
+/**
+ * Number of each bundle that can be sold with the current stock
+ */
+export async function getBundleAvailability(
+  db: Database,
+  bundleIds: string[],
+): Promise<Map<string, number>> {
+  const availability = new Map<string, number>();
+  if (bundleIds.length === 0) return availability;
+
+  const rows = await db
+    .select({
+      bundleId: bundleItems.bundleId,
+      quantity: bundleItems.quantity,
+      stock: productVariants.stock,
+      variantDeletedAt: productVariants.deletedAt,
+      productDeletedAt: products.deletedAt,
+    })
+    .from(bundleItems)
+    .innerJoin(productVariants, eq(productVariants.id, bundleItems.variantId))
+    .innerJoin(products, eq(products.id, productVariants.productId))
+    .where(inArray(bundleItems.bundleId, [...new Set(bundleIds)]));
+
+  for (const bundleId of bundleIds) {
+    availability.set(
+      bundleId,
+      coveredQuantity(
+        rows
+          .filter((row) => row.bundleId === bundleId)
+          .map((row) => ({
+            quantity: row.quantity,
+            stock:
+              row.variantDeletedAt || row.productDeletedAt ? null : row.stock,
+          })),
+      ),
+    );
+  }
+  return availability;
+}
+
+/**
+ * What a bundle is made of, for its product page and the admin, with the
+ * number of bundles the stock covers
+ */
+export async function getBundleContents(db: Database, bundleId: string) {
+  const rows = await db
+    .select({
+      variantId: bundleItems.variantId,
+      quantity: bundleItems.quantity,
+      productId: products.id,
+      productName: products.name,
+      productSlug: products.slug,
+      sku: productVariants.sku,
+      options: productVariants.options,
+      stock: productVariants.stock,
+      variantDeletedAt: productVariants.deletedAt,
+      productDeletedAt: products.deletedAt,
+    })
+    .from(bundleItems)
+    .innerJoin(productVariants, eq(productVariants.id, bundleItems.variantId))
+    .innerJoin(products, eq(products.id, productVariants.productId))
+    .where(eq(bundleItems.bundleId, bundleId))
+    .orderBy(asc(bundleItems.sortOrder));
+
+  const productIds = [...new Set(rows.map((row) => row.productId))];
+  const images =
+    productIds.length > 0
+      ? await db
+          .select({
+            productId: productImages.productId,
+            url: productImages.url,
+          })
+          .from(productImages)
+          .where(
+            and(
+              inArray(productImages.productId, productIds),
+              eq(productImages.isPrimary, true),
+            ),
+          )
+      : [];
+  const imageMap = new Map(images.map((img) => [img.productId, img.url]));
+
+  const items = rows.map(
+    ({ variantDeletedAt, productDeletedAt, stock, ...row }) => ({
+      ...row,
+      imageUrl: imageMap.get(row.productId) || null,
+      // Stock is left out of the storefront; only whether it covers a bundle
+      inStock: !variantDeletedAt && !productDeletedAt && stock >= row.quantity,
+    }),
+  );
+
+  return {
+    items,
+    availableQuantity: coveredQuantity(
+      rows.map((row) => ({
+        quantity: row.quantity,
+        stock: row.variantDeletedAt || row.productDeletedAt ? null : row.stock,
+      })),
+    ),
+  };
+}
+
+/**
+ * Variants that can go in a bundle, for the admin product form: those of
+ * products that are not deleted, other than `excludeProductId`
+ */
+export async function getBundleVariantChoices(
+  db: Database,
+  excludeProductId?: string,
+) {
+  const rows = await db
+    .select({
+      id: productVariants.id,
+      productId: products.id,
+      productName: products.name,
+      sku: productVariants.sku,
+      options: productVariants.options,
+      stock: productVariants.stock,
+    })
+    .from(productVariants)
+    .innerJoin(products, eq(products.id, productVariants.productId))
+    .where(and(isNull(productVariants.deletedAt), isNull(products.deletedAt)))
+    .orderBy(asc(products.name), asc(productVariants.sku));
+
+  return rows.filter((row) => row.productId !== excludeProductId);
+}
@@ -0,0 +1,122 @@
+import type { Database } from "@/db";
+import {
+  productAttributes,
+  productAttributeValues,
+  productImages,
+  products,
+  productVariants,
+} from "@/db/schema";
+import type { CatalogProduct } from "./catalog-sheet";
+import { getProductCategories } from "./product-categories";
+
+import { asc, eq, isNull } from "drizzle-orm";
+
+/**
+ * Every product that is not deleted, with its variants, images, attributes
+ * and categories, as rows of the catalog sheet are made from
+ */
+export async function getCatalogProducts(
+  db: Database,
+): Promise<CatalogProduct[]> {
+  const [productRows, variantRows, imageRows, attributeRows] =
+    await Promise.all([
+      db
+        .select()
+        .from(products)
+        .where(isNull(products.deletedAt))
+        .orderBy(asc(products.name)),
+      db
+        .select()
+        .from(productVariants)
+        .where(isNull(productVariants.deletedAt))
+        .orderBy(asc(productVariants.createdAt), asc(productVariants.sku)),
+      db
+        .select({
+          productId: productImages.productId,
+          url: productImages.url,
+        })
+        .from(productImages)
+        .orderBy(asc(productImages.sortOrder)),
+      db
+        .select({
+          productId: productAttributeValues.productId,
+          name: productAttributes.name,
+          value: productAttributeValues.value,
+        })
+        .from(productAttributeValues)
+        .innerJoin(
+          productAttributes,
+          eq(productAttributes.id, productAttributeValues.attributeId),
+        )
+        .where(isNull(productAttributes.deletedAt))
+        .orderBy(asc(productAttributes.name)),
+    ]);
+
+  const categoriesByProduct = await getProductCategories(
+    db,
+    productRows.map((product) => product.id),
+  );
+
+  const group = <T extends { productId: string }>(rows: T[]) => {
+    const byProduct = new Map<string, T[]>();
+    for (const row of rows) {
+      byProduct.set(row.productId, [
+        ...(byProduct.get(row.productId) || []),
+        row,
+      ]);
+    }
+    return byProduct;
+  };
+  const variantsByProduct = group(variantRows);
+  const imagesByProduct = group(imageRows);
+  const attributesByProduct = group(attributeRows);
+
+  return productRows.map((product) => {
+    const productCategories = categoriesByProduct.get(product.id) || [];
+    const attributes = attributesByProduct.get(product.id) || [];
+    const discountType = product.discountType || "percentage";
+
+    return {
+      slug: product.slug,
+      name: product.name,
+      description: product.description,
+      category:
+        productCategories.find((category) => category.isPrimary)?.slug ?? null,
+      additionalCategories: productCategories
+        .filter((category) => !category.isPrimary)
+        .map((category) => category.slug),
+      price: product.price,
+      discountType,
+      discountValue:
+        (discountType === "flat"
+          ? product.discountAmount
+          : product.discountPercentage) || 0,
+      freeDelivery: product.freeDelivery,
+      isActive: product.isActive,
+      metaTitle: product.metaTitle,
+      metaDescription: product.metaDescription,
+      images: (imagesByProduct.get(product.id) || []).map((image) => image.url),
+      attributes:
+        attributes.length > 0
+          ? Object.fromEntries(
+              attributes.map((attribute) => [attribute.name, attribute.value]),
+            )
+          : null,
+      variants: (variantsByProduct.get(product.id) || []).map((variant) => {
+        const variantDiscountType = variant.discountType || "percentage";
+        return {
+          sku: variant.sku,
+          options: variant.options,
+          price: variant.price,
+          stock: variant.stock,
+          weight: variant.weight,
+          discountType: variantDiscountType,
+          discountValue:
+            (variantDiscountType === "flat"
+              ? variant.discountAmount
+              : variant.discountPercentage) || 0,
+        };
+      }),
+    };
+  });
+}
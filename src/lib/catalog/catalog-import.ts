@@ -0,0 +1,801 @@
+import type { Database } from "@/db";
+import {
+  categories,
+  media,
+  productAttributes,
+  productAttributeValues,
+  productCategories,
+  productImages,
+  products,
+  productVariants,
+  ProductType,
+  StockMovementReason,
+  variantImages,
+} from "@/db/schema";
+import { isR2Image } from "@/lib/image-optimizer";
+import { recordStockMovements } from "@/lib/inventory/ledger";
+import { triggerReindex } from "@/lib/search/index";
+import { uploadFile } from "@/lib/storage";
+import type {
+  CatalogProduct,
+  CatalogRowError,
+  CatalogVariant,
+  DiscountType,
+} from "./catalog-sheet";
+import { productCategoryValues } from "./product-categories";
+import {
+  getProductOptions,
+  saveProductOptions,
+  withMissingOptions,
+  type ProductOptionInput,
+} from "./product-options";
+import {
+  checkVariantOptions,
+  orderVariantOptions,
+  variantOptionsKey,
+  type OptionDefinition,
+  type VariantOptions,
+} from "./variant-options";
+import { nanoid } from "nanoid";
+
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+
+// Products of the catalog sheet are matched to the catalog by slug and their
+// variants by SKU: a slug that is not in use creates a product, a SKU that is
+// not in use adds a variant. Every product is checked before anything is
+// written, and one with errors is skipped while the others are imported.
+// Images that are not in storage yet are downloaded into it.
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const IMAGE_FETCH_TIMEOUT = 20000; // 20 seconds
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB
+// Photos only, by their file extension: no SVG or HTML, which could carry
+// scripts, whatever the remote server claims
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+export interface CatalogImportResult {
+  row: number;
+  slug: string;
+  action: "create" | "update";
+  variantsCreated: number;
+  variantsUpdated: number;
+  errors: CatalogRowError[];
+}
+
+export interface CatalogImportReport {
+  dryRun: boolean;
+  results: CatalogImportResult[];
+  created: number;
+  updated: number;
+  failed: number;
+}
+
+type ExistingProduct = typeof products.$inferSelect;
+
+interface ExistingVariant {
+  id: string;
+  productId: string;
+  sku: string;
+  stock: number;
+  options: VariantOptions;
+  deletedAt: Date | null;
+}
+
+interface ImportContext {
+  categoryIds: Map<string, string>; // By slug
+  attributeIds: Map<string, string>; // By lowercased name and slug
+  products: Map<string, ExistingProduct>; // By slug
+  variants: ExistingVariant[]; // Of the products above, deleted ones too
+  skuOwners: Map<string, string>; // Product id by SKU, for live variants
+  options: Awaited<ReturnType<typeof getProductOptions>>;
+  productCategoryIds: Map<string, string[]>;
+}
+
+interface ImportPlan {
+  item: CatalogProduct;
+  existing: ExistingProduct | null;
+  categoryId: string | null;
+  additionalCategoryIds: string[] | null;
+  currentCategoryIds: string[];
+  attributes: { attributeId: string; value: string }[] | null;
+  options: ProductOptionInput[];
+  definitions: OptionDefinition[];
+  updates: { variant: ExistingVariant; input: CatalogVariant }[];
+  inserts: CatalogVariant[];
+}
+
+/**
+ * Categories, attributes and the existing products and variants the items
+ * refer to, loaded once for the whole batch
+ */
+async function loadContext(
+  db: Database,
+  items: CatalogProduct[],
+): Promise<ImportContext> {
+  const slugs = [...new Set(items.map((item) => item.slug))];
+  const skus = [
+    ...new Set(items.flatMap((item) => item.variants.map((v) => v.sku))),
+  ];
+
+  const [categoryRows, attributeRows, productRows, skuRows] = await Promise.all(
+    [
+      db
+        .select({ id: categories.id, slug: categories.slug })
+        .from(categories)
+        .where(isNull(categories.deletedAt)),
+      db
+        .select({
+          id: productAttributes.id,
+          name: productAttributes.name,
+          slug: productAttributes.slug,
+        })
+        .from(productAttributes)
+        .where(isNull(productAttributes.deletedAt)),
+      slugs.length > 0
+        ? db
+            .select()
+            .from(products)
+            .where(
+              and(inArray(products.slug, slugs), isNull(products.deletedAt)),
+            )
+        : Promise.resolve([]),
+      skus.length > 0
+        ? db
+            .select({
+              sku: productVariants.sku,
+              productId: productVariants.productId,
+            })
+            .from(productVariants)
+            .innerJoin(products, eq(products.id, productVariants.productId))
+            .where(
+              and(
+                inArray(productVariants.sku, skus),
+                isNull(productVariants.deletedAt),
+                isNull(products.deletedAt),
+              ),
+            )
+        : Promise.resolve([]),
+    ],
+  );
+
+  const productIds = productRows.map((product) => product.id);
+  const [variants, options, categoryLinks] = await Promise.all([
+    productIds.length > 0
+      ? db
+          .select({
+            id: productVariants.id,
+            productId: productVariants.productId,
+            sku: productVariants.sku,
+            stock: productVariants.stock,
+            options: productVariants.options,
+            deletedAt: productVariants.deletedAt,
+          })
+          .from(productVariants)
+          .where(inArray(productVariants.productId, productIds))
+      : Promise.resolve([]),
+    getProductOptions(db, productIds),
+    productIds.length > 0
+      ? db
+          .select({
+            productId: productCategories.productId,
+            categoryId: productCategories.categoryId,
+          })
+          .from(productCategories)
+          .where(inArray(productCategories.productId, productIds))
+      : Promise.resolve([]),
+  ]);
+
+  const attributeIds = new Map<string, string>();
+  for (const attribute of attributeRows) {
+    attributeIds.set(attribute.slug.toLowerCase(), attribute.id);
+    attributeIds.set(attribute.name.toLowerCase(), attribute.id);
+  }
+
+  const productCategoryIds = new Map<string, string[]>();
+  for (const link of categoryLinks) {
+    productCategoryIds.set(link.productId, [
+      ...(productCategoryIds.get(link.productId) || []),
+      link.categoryId,
+    ]);
+  }
+
+  return {
+    categoryIds: new Map(categoryRows.map((c) => [c.slug.toLowerCase(), c.id])),
+    attributeIds,
+    products: new Map(productRows.map((product) => [product.slug, product])),
+    variants,
+    skuOwners: new Map(skuRows.map((row) => [row.sku, row.productId])),
+    options,
+    productCategoryIds,
+  };
+}
+
+function isHttpUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Why a discount cannot be applied, or null
+ */
+function checkDiscount(
+  type: DiscountType,
+  value: number | null,
+): string | null {
+  if (value === null) return null;
+  if (value < 0) return "Discount must be 0 or more";
+  if (type === "percentage" && value > 100) {
+    return "A percentage discount must be between 0 and 100";
+  }
+  return null;
+}
+
+/**
+ * Check an item against the catalog and work out what importing it does
+ */
+function planImport(
+  context: ImportContext,
+  item: CatalogProduct,
+): { plan: ImportPlan | null; errors: CatalogRowError[] } {
+  const row = item.row ?? 0;
+  const errors: CatalogRowError[] = [];
+  const fail = (error: string, errorRow = row) =>
+    errors.push({ row: errorRow, error });
+
+  if (
+    item.slug.length < 3 ||
+    item.slug.length > 100 ||
+    !SLUG_PATTERN.test(item.slug)
+  ) {
+    fail("Slug must be 3 to 100 lowercase letters, numbers and single hyphens");
+  }
+
+  const existing = context.products.get(item.slug) ?? null;
+  if (!existing) {
+    if (!item.name) fail("Name is required for a new product");
+    if (item.price === null) fail("Price is required for a new product");
+    if (!item.category) fail("Category is required for a new product");
+  }
+  if (item.name !== null && (item.name.length < 3 || item.name.length > 100)) {
+    fail("Name must be 3 to 100 characters");
+  }
+  if (item.price !== null && item.price < 0) {
+    fail("Price must be 0 or more");
+  }
+
+  const discountError = checkDiscount(
+    item.discountType ?? existing?.discountType ?? "percentage",
+    item.discountValue,
+  );
+  if (discountError) fail(discountError);
+
+  let categoryId: string | null = null;
+  if (item.category) {
+    categoryId = context.categoryIds.get(item.category) ?? null;
+    if (!categoryId) fail(`Category "${item.category}" not found`);
+  }
+  let additionalCategoryIds: string[] | null = null;
+  if (item.additionalCategories) {
+    additionalCategoryIds = [];
+    for (const slug of item.additionalCategories) {
+      const id = context.categoryIds.get(slug);
+      if (id) additionalCategoryIds.push(id);
+      else fail(`Category "${slug}" not found`);
+    }
+  }
+
+  let attributes: ImportPlan["attributes"] = null;
+  if (item.attributes) {
+    attributes = [];
+    for (const [name, value] of Object.entries(item.attributes)) {
+      const attributeId = context.attributeIds.get(name.toLowerCase());
+      if (attributeId) attributes.push({ attributeId, value });
+      else fail(`Attribute "${name}" not found`);
+    }
+  }
+
+  for (const url of item.images || []) {
+    if (!isHttpUrl(url)) fail(`Image "${url}" is not a valid URL`);
+  }
+
+  if (existing?.type === ProductType.BUNDLE && item.variants.length > 0) {
+    fail("A bundle cannot have variants of its own");
+  }
+
+  // Variants are matched by SKU among the product's live variants
+  const productVariantRows = existing
+    ? context.variants.filter((v) => v.productId === existing.id)
+    : [];
+  const updates: ImportPlan["updates"] = [];
+  const inserts: CatalogVariant[] = [];
+  for (const variant of item.variants) {
+    const variantRow = variant.row ?? row;
+    const owner = context.skuOwners.get(variant.sku);
+    if (variant.sku.length < 3) {
+      fail("SKU must be at least 3 characters", variantRow);
+    } else if (owner && owner !== existing?.id) {
+      fail(`SKU ${variant.sku} belongs to another product`, variantRow);
+    }
+    if (variant.price !== null && variant.price < 0) {
+      fail("Variant price must be 0 or more", variantRow);
+    }
+    if (
+      variant.stock !== null &&
+      (variant.stock < 0 || !Number.isInteger(variant.stock))
+    ) {
+      fail("Stock must be a whole number of 0 or more", variantRow);
+    }
+    if (variant.weight !== null && variant.weight < 0) {
+      fail("Weight must be 0 or more", variantRow);
+    }
+
+    const match = productVariantRows.find(
+      (v) => v.sku === variant.sku && !v.deletedAt,
+    );
+    const variantDiscountError = checkDiscount(
+      variant.discountType ?? "percentage",
+      variant.discountValue,
+    );
+    if (variantDiscountError) fail(variantDiscountError, variantRow);
+
+    if (match) updates.push({ variant: match, input: variant });
+    else inserts.push(variant);
+  }
+
+  // Options and values the variants use that the product does not have yet
+  // are added to it; other variants get the first value of a new option
+  const current = existing ? context.options.get(existing.id) || [] : [];
+  const options = withMissingOptions(
+    current,
+    item.variants.map((variant) => variant.options || {}),
+  );
+  const definitions = options.map(({ name, values }) => ({
+    name,
+    values: values.map((v) => v.value),
+  }));
+  // Options every variant ends up with, to find two that would be the same
+  const taken = new Map<string, string>();
+  for (const variant of productVariantRows) {
+    if (updates.some((update) => update.variant.id === variant.id)) continue;
+    const variantOptions = { ...variant.options };
+    for (const definition of definitions.slice(current.length)) {
+      variantOptions[definition.name] = definition.values[0];
+    }
+    taken.set(variantOptionsKey(variantOptions), variant.sku);
+  }
+  for (const variant of item.variants) {
+    const update = updates.find((u) => u.input === variant);
+    let variantOptions = variant.options;
+    if (!variantOptions && update) {
+      variantOptions = { ...update.variant.options };
+      for (const definition of definitions.slice(current.length)) {
+        variantOptions[definition.name] = definition.values[0];
+      }
+    }
+    variantOptions = variantOptions || {};
+
+    const variantOptionsError = checkVariantOptions(
+      definitions,
+      variantOptions,
+    );
+    const other = taken.get(variantOptionsKey(variantOptions));
+    if (variantOptionsError || other) {
+      fail(
+        variantOptionsError || `Variant ${other} already has these options`,
+        variant.row ?? row,
+      );
+    }
+    taken.set(variantOptionsKey(variantOptions), variant.sku);
+  }
+
+  if (errors.length > 0) return { plan: null, errors };
+  return {
+    plan: {
+      item,
+      existing,
+      categoryId,
+      additionalCategoryIds,
+      currentCategoryIds: existing
+        ? context.productCategoryIds.get(existing.id) || []
+        : [],
+      attributes,
+      options,
+      definitions,
+      updates,
+      inserts,
+    },
+    errors,
+  };
+}
+
+/**
+ * Read a response body, giving up once it grows past the limit: the
+ * Content-Length header may be missing or wrong
+ */
+async function readLimited(response: Response, limit: number) {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      throw new Error(`Response is larger than ${limit} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Download an image into storage, adding it to the media library. Returns
+ * its URL in storage.
+ */
+async function storeImage(db: Database, url: string): Promise<string> {
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Image ${url} could not be downloaded (${response.status})`,
+    );
+  }
+
+  const mimeType = (response.headers.get("content-type") || "")
+    .split(";")[0]
+    .trim()
+    .toLowerCase();
+  const extension = IMAGE_EXTENSIONS[mimeType];
+  if (!extension) {
+    await response.body?.cancel();
+    throw new Error(
+      `Image ${url} must be a JPEG, PNG, WebP or GIF image (got ${mimeType || "no content type"})`,
+    );
+  }
+  if (Number(response.headers.get("content-length")) > MAX_IMAGE_SIZE) {
+    await response.body?.cancel();
+    throw new Error(`Image ${url} is larger than 10MB`);
+  }
+
+  const bytes = await readLimited(response, MAX_IMAGE_SIZE).catch(() => {
+    throw new Error(`Image ${url} is larger than 10MB`);
+  });
+  const name =
+    decodeURIComponent(new URL(url).pathname.split("/").pop() || "") || "image";
+  const filename = `${name.replace(/\.[^.]*$/, "") || "image"}.${extension}`;
+
+  const uploaded = await uploadFile(
+    new File([bytes], filename, { type: mimeType }),
+  ).catch((error) => {
+    throw new Error(`Image ${url}: ${error.message}`);
+  });
+
+  const now = new Date();
+  await db.insert(media).values({
+    id: "media_" + nanoid(),
+    filename: uploaded.filename,
+    url: uploaded.url,
+    size: uploaded.size,
+    mimeType: uploaded.mimeType,
+    folderId: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  return uploaded.url;
+}
+
+function discountColumns(type: DiscountType, value: number) {
+  return type === "flat"
+    ? { discountType: type, discountPercentage: null, discountAmount: value }
+    : { discountType: type, discountPercentage: value, discountAmount: null };
+}
+
+/**
+ * Write a checked item to the catalog. Returns the product's id.
+ */
+async function applyImport(
+  db: Database,
+  plan: ImportPlan,
+  storedImages: Map<string, string>,
+  actorId?: string | null,
+): Promise<string> {
+  const { item, existing } = plan;
+  const productId = existing?.id ?? "prod_" + nanoid();
+
+  const currentImages = existing
+    ? await db
+        .select({ id: productImages.id, url: productImages.url })
+        .from(productImages)
+        .where(eq(productImages.productId, productId))
+    : [];
+
+  // Images are downloaded before anything is written, so one that fails
+  // leaves the product as it was
+  let imageUrls: string[] | null = null;
+  if (item.images) {
+    imageUrls = [];
+    for (const url of item.images) {
+      if (isR2Image(url) || currentImages.some((image) => image.url === url)) {
+        imageUrls.push(url);
+        continue;
+      }
+      let stored = storedImages.get(url);
+      if (!stored) {
+        stored = await storeImage(db, url);
+        storedImages.set(url, stored);
+      }
+      imageUrls.push(stored);
+    }
+  }
+
+  const discountType =
+    item.discountType ?? existing?.discountType ?? "percentage";
+  const discount =
+    item.discountValue !== null
+      ? discountColumns(discountType, item.discountValue)
+      : item.discountType
+        ? { discountType }
+        : {};
+
+  await db.transaction(async (tx) => {
+    if (existing) {
+      await tx
+        .update(products)
+        .set({
+          ...(item.name !== null && { name: item.name }),
+          ...(item.description !== null && { description: item.description }),
+          ...(item.price !== null && { price: item.price }),
+          ...(plan.categoryId && { categoryId: plan.categoryId }),
+          ...(item.metaTitle !== null && { metaTitle: item.metaTitle }),
+          ...(item.metaDescription !== null && {
+            metaDescription: item.metaDescription,
+          }),
+          ...(item.isActive !== null && { isActive: item.isActive }),
+          ...(item.freeDelivery !== null && {
+            freeDelivery: item.freeDelivery,
+          }),
+          ...discount,
+          updatedAt: sql`unixepoch()`,
+        })
+        .where(eq(products.id, productId));
+    } else {
+      await tx.insert(products).values({
+        id: productId,
+        name: item.name!,
+        description: item.description,
+        price: item.price!,
+        categoryId: plan.categoryId!,
+        slug: item.slug,
+        metaTitle: item.metaTitle,
+        metaDescription: item.metaDescription,
+        isActive: item.isActive ?? true,
+        freeDelivery: item.freeDelivery ?? false,
+        ...discountColumns(discountType, item.discountValue ?? 0),
+        type: ProductType.STANDARD,
+        createdAt: sql`unixepoch()`,
+        updatedAt: sql`unixepoch()`,
+      });
+    }
+
+    if (plan.categoryId || plan.additionalCategoryIds) {
+      const primaryCategoryId = plan.categoryId ?? existing!.categoryId;
+      const additionalCategoryIds =
+        plan.additionalCategoryIds ??
+        plan.currentCategoryIds.filter((id) => id !== existing?.categoryId);
+      await tx
+        .delete(productCategories)
+        .where(eq(productCategories.productId, productId));
+      await tx
+        .insert(productCategories)
+        .values(
+          productCategoryValues(
+            productId,
+            primaryCategoryId,
+            additionalCategoryIds,
+          ),
+        );
+    }
+
+    if (plan.attributes) {
+      await tx
+        .delete(productAttributeValues)
+        .where(eq(productAttributeValues.productId, productId));
+      if (plan.attributes.length > 0) {
+        await tx.insert(productAttributeValues).values(
+          plan.attributes.map((attribute) => ({
+            id: `val_${nanoid()}`,
+            productId,
+            ...attribute,
+          })),
+        );
+      }
+    }
+
+    // Images already on the product are kept in place so their variant
+    // links survive
+    if (imageUrls) {
+      const removedImageIds = currentImages
+        .filter((image) => !imageUrls.includes(image.url))
+        .map((image) => image.id);
+      if (removedImageIds.length > 0) {
+        await tx
+          .delete(variantImages)
+          .where(inArray(variantImages.imageId, removedImageIds));
+        await tx
+          .delete(productImages)
+          .where(inArray(productImages.id, removedImageIds));
+      }
+      for (const [index, url] of [...new Set(imageUrls)].entries()) {
+        const values = {
+          url,
+          alt: decodeURIComponent(url.split("/").pop() || "") || null,
+          isPrimary: index === 0,
+          sortOrder: index,
+        };
+        const current = currentImages.find((image) => image.url === url);
+        if (current) {
+          await tx
+            .update(productImages)
+            .set({ isPrimary: values.isPrimary, sortOrder: values.sortOrder })
+            .where(eq(productImages.id, current.id));
+        } else {
+          await tx
+            .insert(productImages)
+            .values({ ...values, id: `img_${nanoid()}`, productId });
+        }
+      }
+    }
+  });
+
+  if (plan.options.some((o) => !o.id || o.values.some((v) => !v.id))) {
+    const optionsError = await saveProductOptions(db, productId, plan.options);
+    if (optionsError) throw new Error(optionsError);
+  }
+
+  if (plan.updates.length === 0 && plan.inserts.length === 0) {
+    return productId;
+  }
+
+  const productPrice = item.price ?? existing!.price;
+  const note = "Imported from catalog sheet";
+  await db.transaction(async (tx) => {
+    for (const { variant, input } of plan.updates) {
+      const variantDiscount =
+        input.discountValue !== null
+          ? discountColumns(
+              input.discountType ?? "percentage",
+              input.discountValue,
+            )
+          : input.discountType
+            ? { discountType: input.discountType }
+            : {};
+      await tx
+        .update(productVariants)
+        .set({
+          ...(input.options && {
+            options: orderVariantOptions(plan.definitions, input.options),
+          }),
+          ...(input.price !== null && { price: input.price }),
+          ...(input.stock !== null && { stock: input.stock }),
+          ...(input.weight !== null && { weight: input.weight }),
+          ...variantDiscount,
+          updatedAt: sql`unixepoch()`,
+        })
+        .where(eq(productVariants.id, variant.id));
+    }
+
+    const created = plan.inserts.map((input) => ({
+      id: "var_" + nanoid(),
+      productId,
+      options: orderVariantOptions(plan.definitions, input.options || {}),
+      weight: input.weight,
+      sku: input.sku,
+      price: input.price ?? productPrice,
+      stock: input.stock ?? 0,
+      ...discountColumns(
+        input.discountType ?? "percentage",
+        input.discountValue ?? 0,
+      ),
+      createdAt: sql`unixepoch()`,
+      updatedAt: sql`unixepoch()`,
+    }));
+    if (created.length > 0) {
+      await tx.insert(productVariants).values(created);
+    }
+
+    await recordStockMovements(tx, [
+      ...plan.updates
+        .filter(({ input }) => input.stock !== null)
+        .map(({ variant, input }) => ({
+          variantId: variant.id,
+          delta: input.stock! - variant.stock,
+          reason: StockMovementReason.IMPORT,
+          actorId,
+          note,
+        })),
+      ...created.map((variant) => ({
+        variantId: variant.id,
+        delta: variant.stock,
+        reason: StockMovementReason.IMPORT,
+        actorId,
+        note,
+      })),
+    ]);
+  });
+
+  return productId;
+}
+
+/**
+ * Check the products of a catalog sheet and, unless `dryRun`, import those
+ * without errors. Reports what happens to each product.
+ */
+export async function importCatalogProducts(
+  db: Database,
+  items: CatalogProduct[],
+  { dryRun = false, actorId }: { dryRun?: boolean; actorId?: string | null },
+): Promise<CatalogImportReport> {
+  const context = await loadContext(db, items);
+  const storedImages = new Map<string, string>();
+  const importedIds: string[] = [];
+  const results: CatalogImportResult[] = [];
+
+  for (const item of items) {
+    const { plan, errors } = planImport(context, item);
+    const result: CatalogImportResult = {
+      row: item.row ?? 0,
+      slug: item.slug,
+      action: context.products.has(item.slug) ? "update" : "create",
+      variantsCreated: plan?.inserts.length ?? 0,
+      variantsUpdated: plan?.updates.length ?? 0,
+      errors,
+    };
+    results.push(result);
+
+    if (!plan || dryRun) continue;
+    try {
+      importedIds.push(await applyImport(db, plan, storedImages, actorId));
+    } catch (error) {
+      console.error(`Error importing product ${item.slug}:`, error);
+      result.errors.push({
+        row: result.row,
+        error: error instanceof Error ? error.message : "Import failed",
+      });
+    }
+  }
+
+  if (importedIds.length > 0) {
+    await triggerReindex({ productIds: importedIds }).catch((error) => {
+      console.error("Search reindex failed after catalog import:", error);
+    });
+  }
+
+  const succeeded = results.filter((result) => result.errors.length === 0);
+  return {
+    dryRun,
+    results,
+    created: succeeded.filter((result) => result.action === "create").length,
+    updated: succeeded.filter((result) => result.action === "update").length,
+    failed: results.length - succeeded.length,
+  };
+}
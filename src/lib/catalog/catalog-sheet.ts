@@ -0,0 +1,320 @@
+import type { SheetCell } from "./spreadsheet";
+import { formatVariantOptions, type VariantOptions } from "./variant-options";
+
+// Layout of the catalog sheet used by the product import and export. Each
+// row is one variant of a product; the product's own columns are read from
+// the first row of its slug and may be left empty on the others. A product
+// without variants takes one row with the variant columns empty.
+//
+// On import an empty cell keeps the product's current value, or the default
+// for a new product. Lists are separated by "|", and attributes and variant
+// options are written like "Size: M / Color: Red". Nothing here touches the
+// database so the admin UI can share these helpers.
+
+export type DiscountType = "percentage" | "flat";
+
+export interface CatalogVariant {
+  row?: number; // Row of the sheet it was read from, header being row 1
+  sku: string;
+  options: VariantOptions | null;
+  price: number | null;
+  stock: number | null;
+  weight: number | null;
+  discountType: DiscountType | null;
+  discountValue: number | null;
+}
+
+export interface CatalogProduct {
+  row?: number;
+  slug: string;
+  name: string | null;
+  description: string | null;
+  category: string | null; // Slug of the primary category
+  additionalCategories: string[] | null;
+  price: number | null;
+  discountType: DiscountType | null;
+  discountValue: number | null;
+  freeDelivery: boolean | null;
+  isActive: boolean | null;
+  metaTitle: string | null;
+  metaDescription: string | null;
+  images: string[] | null; // URLs, the first one being the primary image
+  attributes: Record<string, string> | null; // Value by attribute name
+  variants: CatalogVariant[];
+}
+
+export interface CatalogRowError {
+  row: number;
+  error: string;
+}
+
+export const CATALOG_COLUMNS = {
+  slug: "Slug",
+  name: "Name",
+  description: "Description",
+  category: "Category",
+  additionalCategories: "Additional Categories",
+  price: "Price",
+  discountType: "Discount Type",
+  discountValue: "Discount Value",
+  freeDelivery: "Free Delivery",
+  isActive: "Active",
+  metaTitle: "Meta Title",
+  metaDescription: "Meta Description",
+  images: "Images",
+  attributes: "Attributes",
+  sku: "SKU",
+  options: "Options",
+  variantPrice: "Variant Price",
+  stock: "Stock",
+  weight: "Weight (g)",
+  variantDiscountType: "Variant Discount Type",
+  variantDiscountValue: "Variant Discount Value",
+} as const;
+
+type CatalogColumn = keyof typeof CATALOG_COLUMNS;
+
+const COLUMN_KEYS = Object.keys(CATALOG_COLUMNS) as CatalogColumn[];
+
+const LIST_SEPARATOR = "|";
+
+/**
+ * Pairs written like "Size: M / Color: Red", as a record
+ */
+export function parseNamedValues(text: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const part of text.split(" / ")) {
+    const separator = part.indexOf(":");
+    if (separator === -1) {
+      throw new Error(`"${part.trim()}" should be written as "Name: value"`);
+    }
+    const name = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+    if (!name || !value) {
+      throw new Error(`"${part.trim()}" should be written as "Name: value"`);
+    }
+    values[name] = value;
+  }
+  return values;
+}
+
+function parseList(text: string): string[] {
+  return text
+    .split(LIST_SEPARATOR)
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+function parseNumber(text: string, column: string): number {
+  const value = Number(text.replace(/,/g, ""));
+  if (!Number.isFinite(value)) {
+    throw new Error(`${column} must be a number`);
+  }
+  return value;
+}
+
+function parseBoolean(text: string, column: string): boolean {
+  const value = text.toLowerCase();
+  if (["true", "yes", "1", "y"].includes(value)) return true;
+  if (["false", "no", "0", "n"].includes(value)) return false;
+  throw new Error(`${column} must be TRUE or FALSE`);
+}
+
+function parseDiscountType(text: string, column: string): DiscountType {
+  const value = text.toLowerCase();
+  if (value === "percentage" || value === "flat") return value;
+  throw new Error(`${column} must be "percentage" or "flat"`);
+}
+
+/**
+ * Products of a catalog sheet, its first row being the header. Rows that
+ * cannot be read are reported and left out.
+ */
+export function parseCatalogSheet(rows: string[][]): {
+  products: CatalogProduct[];
+  errors: CatalogRowError[];
+} {
+  const errors: CatalogRowError[] = [];
+  if (rows.length === 0) {
+    return { products: [], errors: [{ row: 1, error: "The file is empty" }] };
+  }
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  const indexes = new Map<CatalogColumn, number>();
+  for (const key of COLUMN_KEYS) {
+    const index = header.indexOf(CATALOG_COLUMNS[key].toLowerCase());
+    if (index !== -1) indexes.set(key, index);
+  }
+  if (!indexes.has("slug")) {
+    return {
+      products: [],
+      errors: [{ row: 1, error: `Missing "${CATALOG_COLUMNS.slug}" column` }],
+    };
+  }
+
+  const bySlug = new Map<string, CatalogProduct>();
+  const skuRows = new Map<string, number>();
+  const unreadSlugs = new Set<string>();
+  let previousSlug = "";
+
+  for (let i = 1; i < rows.length; i++) {
+    const rowNumber = i + 1;
+    const cell = (key: CatalogColumn) => {
+      const index = indexes.get(key);
+      return index === undefined ? "" : (rows[i][index] ?? "").trim();
+    };
+    const text = (key: CatalogColumn) => cell(key) || null;
+    const read = <T>(key: CatalogColumn, parse: (value: string) => T) => {
+      const value = cell(key);
+      return value ? parse(value) : null;
+    };
+
+    // A row without a slug adds a variant to the product above it
+    const slug = cell("slug").toLowerCase() || previousSlug;
+    if (!slug) {
+      errors.push({ row: rowNumber, error: "Slug is required" });
+      continue;
+    }
+    previousSlug = slug;
+    if (unreadSlugs.has(slug)) {
+      errors.push({
+        row: rowNumber,
+        error: `The product columns of ${slug} could not be read`,
+      });
+      continue;
+    }
+
+    try {
+      let product = bySlug.get(slug);
+      if (!product) {
+        product = {
+          row: rowNumber,
+          slug,
+          name: text("name"),
+          description: text("description"),
+          category: read("category", (value) => value.toLowerCase()),
+          additionalCategories: read("additionalCategories", (value) =>
+            parseList(value).map((category) => category.toLowerCase()),
+          ),
+          price: read("price", (value) =>
+            parseNumber(value, CATALOG_COLUMNS.price),
+          ),
+          discountType: read("discountType", (value) =>
+            parseDiscountType(value, CATALOG_COLUMNS.discountType),
+          ),
+          discountValue: read("discountValue", (value) =>
+            parseNumber(value, CATALOG_COLUMNS.discountValue),
+          ),
+          freeDelivery: read("freeDelivery", (value) =>
+            parseBoolean(value, CATALOG_COLUMNS.freeDelivery),
+          ),
+          isActive: read("isActive", (value) =>
+            parseBoolean(value, CATALOG_COLUMNS.isActive),
+          ),
+          metaTitle: text("metaTitle"),
+          metaDescription: text("metaDescription"),
+          images: read("images", parseList),
+          attributes: read("attributes", parseNamedValues),
+          variants: [],
+        };
+        bySlug.set(slug, product);
+      }
+
+      const sku = cell("sku");
+      if (sku) {
+        const firstRow = skuRows.get(sku);
+        if (firstRow) {
+          throw new Error(`SKU ${sku} is already used on row ${firstRow}`);
+        }
+        skuRows.set(sku, rowNumber);
+
+        product.variants.push({
+          row: rowNumber,
+          sku,
+          options: read("options", parseNamedValues),
+          price: read("variantPrice", (value) =>
+            parseNumber(value, CATALOG_COLUMNS.variantPrice),
+          ),
+          stock: read("stock", (value) =>
+            parseNumber(value, CATALOG_COLUMNS.stock),
+          ),
+          weight: read("weight", (value) =>
+            parseNumber(value, CATALOG_COLUMNS.weight),
+          ),
+          discountType: read("variantDiscountType", (value) =>
+            parseDiscountType(value, CATALOG_COLUMNS.variantDiscountType),
+          ),
+          discountValue: read("variantDiscountValue", (value) =>
+            parseNumber(value, CATALOG_COLUMNS.variantDiscountValue),
+          ),
+        });
+      } else if (product.row !== rowNumber) {
+        throw new Error(`${CATALOG_COLUMNS.sku} is required`);
+      }
+    } catch (error) {
+      // The product's other rows are left out with it
+      if (!bySlug.has(slug)) unreadSlugs.add(slug);
+      errors.push({
+        row: rowNumber,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { products: [...bySlug.values()], errors };
+}
+
+/**
+ * Rows of the catalog sheet for the products, header first
+ */
+export function toCatalogSheet(products: CatalogProduct[]): SheetCell[][] {
+  const rows: SheetCell[][] = [COLUMN_KEYS.map((key) => CATALOG_COLUMNS[key])];
+
+  for (const product of products) {
+    const productCells: Partial<Record<CatalogColumn, SheetCell>> = {
+      slug: product.slug,
+      name: product.name,
+      description: product.description,
+      category: product.category,
+      additionalCategories: product.additionalCategories?.join(LIST_SEPARATOR),
+      price: product.price,
+      discountType: product.discountType,
+      discountValue: product.discountValue,
+      freeDelivery:
+        product.freeDelivery === null
+          ? null
+          : product.freeDelivery
+            ? "TRUE"
+            : "FALSE",
+      isActive:
+        product.isActive === null ? null : product.isActive ? "TRUE" : "FALSE",
+      metaTitle: product.metaTitle,
+      metaDescription: product.metaDescription,
+      images: product.images?.join(LIST_SEPARATOR),
+      attributes: product.attributes
+        ? formatVariantOptions(product.attributes)
+        : null,
+    };
+
+    const variants: (CatalogVariant | null)[] =
+      product.variants.length > 0 ? product.variants : [null];
+    variants.forEach((variant, index) => {
+      const cells: Partial<Record<CatalogColumn, SheetCell>> =
+        index === 0 ? { ...productCells } : { slug: product.slug };
+      if (variant) {
+        cells.sku = variant.sku;
+        cells.options = variant.options
+          ? formatVariantOptions(variant.options)
+          : null;
+        cells.variantPrice = variant.price;
+        cells.stock = variant.stock;
+        cells.weight = variant.weight;
+        cells.variantDiscountType = variant.discountType;
+        cells.variantDiscountValue = variant.discountValue;
+      }
+      rows.push(COLUMN_KEYS.map((key) => cells[key] ?? null));
+    });
+  }
+
+  return rows;
+}
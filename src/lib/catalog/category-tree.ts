@@ -0,0 +1,375 @@
+import type { Database } from "@/db";
+import { categories } from "@/db/schema";
+
+import {
+  and,
+  asc,
+  eq,
+  inArray,
+  isNull,
+  max,
+  notInArray,
+  sql,
+} from "drizzle-orm";
+
+// Categories form a tree through `parentId`. Each row also stores its
+// materialized `path` of ids from the root ("/cat_a/cat_b/") and its
+// `depth`, so a whole subtree is found with one range query on `path`.
+
+export const MAX_CATEGORY_DEPTH = 4; // Levels below the top one
+
+export interface CategoryPlacement {
+  id: string;
+  parentId: string | null;
+  sortOrder: number;
+}
+
+export type CategoryTreeNode<T> = T & { children: CategoryTreeNode<T>[] };
+
+/**
+ * Path of a category placed under a parent with the given path
+ */
+export function categoryPath(
+  parentPath: string | null | undefined,
+  id: string,
+) {
+  return `${parentPath || "/"}${id}/`;
+}
+
+/**
+ * Condition on `column` matching a path and everything below it
+ */
+export function isWithinPath(column: typeof categories.path, path: string) {
+  return sql`(${column} >= ${path} and ${column} < ${path + "\u{10FFFF}"})`;
+}
+
+/**
+ * Nest flat category rows. Rows whose parent is missing from the list (e.g.
+ * in the trash) become top-level. Siblings are ordered by `sortOrder`, then
+ * name.
+ */
+export function buildCategoryTree<
+  T extends {
+    id: string;
+    name: string;
+    parentId: string | null;
+    sortOrder: number;
+  },
+>(rows: T[]): CategoryTreeNode<T>[] {
+  const nodes = new Map<string, CategoryTreeNode<T>>(
+    rows.map((row) => [row.id, { ...row, children: [] }]),
+  );
+  const roots: CategoryTreeNode<T>[] = [];
+
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+
+  const sortSiblings = (siblings: CategoryTreeNode<T>[]) => {
+    siblings.sort(
+      (a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name),
+    );
+    siblings.forEach((node) => sortSiblings(node.children));
+  };
+  sortSiblings(roots);
+
+  return roots;
+}
+
+/**
+ * Rows of a nested tree in display order, each parent before its children
+ */
+export function flattenCategoryTree<T>(
+  nodes: CategoryTreeNode<T>[],
+): CategoryTreeNode<T>[] {
+  return nodes.flatMap((node) => [node, ...flattenCategoryTree(node.children)]);
+}
+
+/**
+ * Why `parentId` cannot be the parent of `categoryId` (null for a new
+ * category), or null when it can
+ */
+export async function checkCategoryParent(
+  db: Database,
+  categoryId: string | null,
+  parentId: string,
+): Promise<string | null> {
+  if (parentId === categoryId) {
+    return "A category cannot be its own parent";
+  }
+
+  const parent = await db
+    .select({ path: categories.path, depth: categories.depth })
+    .from(categories)
+    .where(and(eq(categories.id, parentId), isNull(categories.deletedAt)))
+    .get();
+
+  if (!parent) {
+    return "Parent category not found";
+  }
+  if (categoryId && parent.path.includes(`/${categoryId}/`)) {
+    return "A category cannot be moved under one of its own subcategories";
+  }
+
+  // The moved category brings its subcategories along
+  let subtreeHeight = 0;
+  if (categoryId) {
+    const category = await db
+      .select({ path: categories.path, depth: categories.depth })
+      .from(categories)
+      .where(eq(categories.id, categoryId))
+      .get();
+    if (category) {
+      const deepest = await db
+        .select({ depth: max(categories.depth) })
+        .from(categories)
+        .where(isWithinPath(categories.path, category.path))
+        .get();
+      subtreeHeight = (deepest?.depth ?? category.depth) - category.depth;
+    }
+  }
+
+  if (parent.depth + 1 + subtreeHeight > MAX_CATEGORY_DEPTH) {
+    return `Categories can be nested at most ${MAX_CATEGORY_DEPTH} levels deep`;
+  }
+
+  return null;
+}
+
+/**
+ * Place a category under a new parent (or at the top level) as its last
+ * child, moving its subcategories along. Check the move with
+ * `checkCategoryParent` first.
+ */
+export async function setCategoryParent(
+  db: Database,
+  categoryId: string,
+  parentId: string | null,
+) {
+  const category = await db
+    .select({
+      parentId: categories.parentId,
+      path: categories.path,
+      depth: categories.depth,
+    })
+    .from(categories)
+    .where(eq(categories.id, categoryId))
+    .get();
+  if (!category) return;
+
+  const parent = parentId
+    ? await db
+        .select({ path: categories.path, depth: categories.depth })
+        .from(categories)
+        .where(eq(categories.id, parentId))
+        .get()
+    : undefined;
+
+  const path = categoryPath(parent?.path, categoryId);
+  const depth = parent ? parent.depth + 1 : 0;
+  if (category.parentId === parentId && category.path === path) return;
+
+  const lastSibling = await db
+    .select({ sortOrder: max(categories.sortOrder) })
+    .from(categories)
+    .where(
+      parentId
+        ? eq(categories.parentId, parentId)
+        : isNull(categories.parentId),
+    )
+    .get();
+
+  // Rewrite the path prefix of the category and everything below it
+  const subtree = category.path
+    ? isWithinPath(categories.path, category.path)
+    : eq(categories.id, categoryId);
+  await db.batch([
+    db
+      .update(categories)
+      .set({
+        path: category.path
+          ? sql`${path} || substr(${categories.path}, ${category.path.length + 1})`
+          : path,
+        depth: sql`${categories.depth} + ${depth - category.depth}`,
+      })
+      .where(subtree),
+    db
+      .update(categories)
+      .set({
+        parentId,
+        sortOrder: (lastSibling?.sortOrder ?? -1) + 1,
+        updatedAt: sql`unixepoch()`,
+      })
+      .where(eq(categories.id, categoryId)),
+  ]);
+}
+
+/**
+ * Save a rearranged tree of every active category at once, as produced by
+ * drag and drop in the admin. Returns an error message when the placements
+ * do not form a valid tree.
+ */
+export async function saveCategoryTree(
+  db: Database,
+  placements: CategoryPlacement[],
+): Promise<string | null> {
+  const active = await db
+    .select({ id: categories.id })
+    .from(categories)
+    .where(isNull(categories.deletedAt));
+
+  const byId = new Map(placements.map((p) => [p.id, p]));
+  if (
+    byId.size !== placements.length ||
+    active.length !== placements.length ||
+    active.some((category) => !byId.has(category.id))
+  ) {
+    return "The tree must list every category exactly once. Reload and try again.";
+  }
+
+  // Work out every path from the root, rejecting loops and missing parents
+  const resolved = new Map<string, { path: string; depth: number }>();
+  const resolve = (id: string, seen: Set<string>): string | null => {
+    if (resolved.has(id)) return null;
+    if (seen.has(id)) return "A category cannot be moved under itself";
+
+    const { parentId } = byId.get(id)!;
+    if (!parentId) {
+      resolved.set(id, { path: categoryPath(null, id), depth: 0 });
+      return null;
+    }
+    if (!byId.has(parentId)) return "Parent category not found";
+
+    seen.add(id);
+    const error = resolve(parentId, seen);
+    if (error) return error;
+
+    const parent = resolved.get(parentId)!;
+    if (parent.depth + 1 > MAX_CATEGORY_DEPTH) {
+      return `Categories can be nested at most ${MAX_CATEGORY_DEPTH} levels deep`;
+    }
+    resolved.set(id, {
+      path: categoryPath(parent.path, id),
+      depth: parent.depth + 1,
+    });
+    return null;
+  };
+
+  for (const { id } of placements) {
+    const error = resolve(id, new Set());
+    if (error) return error;
+  }
+
+  const [first, ...rest] = placements.map((placement) => {
+    const { path, depth } = resolved.get(placement.id)!;
+    return db
+      .update(categories)
+      .set({
+        parentId: placement.parentId,
+        path,
+        depth,
+        sortOrder: placement.sortOrder,
+      })
+      .where(eq(categories.id, placement.id));
+  });
+  if (first) {
+    await db.batch([first, ...rest]);
+  }
+
+  return null;
+}
+
+/**
+ * Ancestors of a category followed by the category itself, from the top
+ * level down. Categories in the trash are left out.
+ */
+export async function getCategoryBreadcrumbs(db: Database, categoryId: string) {
+  const category = await db
+    .select({ path: categories.path })
+    .from(categories)
+    .where(eq(categories.id, categoryId))
+    .get();
+
+  const ids = category?.path.split("/").filter(Boolean) || [categoryId];
+  const rows = await db
+    .select({ id: categories.id, name: categories.name, slug: categories.slug })
+    .from(categories)
+    .where(and(inArray(categories.id, ids), isNull(categories.deletedAt)));
+
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  return ids.flatMap((id) => byId.get(id) ?? []);
+}
+
+/**
+ * Subquery of the ids of a category and all its active subcategories
+ */
+export function subtreeCategoryIds(categoryId: string) {
+  const rootPath = sql`(select ${categories.path} from ${categories} where ${categories.id} = ${categoryId})`;
+
+  return sql`(select ${categories.id} from ${categories} where ${categories.deletedAt} is null and ${categories.path} >= ${rootPath} and ${categories.path} < ${rootPath} || char(1114111))`;
+}
+
+/**
+ * Subcategories of the given categories that are not in the list themselves,
+ * i.e. the ones a delete would orphan. Subcategories in the trash only count
+ * when `includeTrashed` is set.
+ */
+export async function getOrphanedChildren(
+  db: Database,
+  categoryIds: string[],
+  includeTrashed = false,
+) {
+  if (categoryIds.length === 0) return [];
+
+  return db
+    .select({ id: categories.id, name: categories.name })
+    .from(categories)
+    .where(
+      and(
+        inArray(categories.parentId, categoryIds),
+        notInArray(categories.id, categoryIds),
+        includeTrashed ? undefined : isNull(categories.deletedAt),
+      ),
+    )
+    .limit(5);
+}
+
+/**
+ * Fix the place of categories taken out of the trash: back under their
+ * parent, or at the top level when the parent is gone or still in the trash
+ */
+export async function reattachRestoredCategories(
+  db: Database,
+  categoryIds: string[],
+) {
+  if (categoryIds.length === 0) return;
+
+  const restored = await db
+    .select({
+      id: categories.id,
+      parentId: categories.parentId,
+      depth: categories.depth,
+    })
+    .from(categories)
+    .where(inArray(categories.id, categoryIds))
+    .orderBy(asc(categories.depth));
+
+  // Parents first, so their children see the restored path
+  for (const category of restored) {
+    const parent = category.parentId
+      ? await db
+          .select({ id: categories.id })
+          .from(categories)
+          .where(
+            and(
+              eq(categories.id, category.parentId),
+              isNull(categories.deletedAt),
+            ),
+          )
+          .get()
+      : undefined;
+
+    await setCategoryParent(db, category.id, parent ? parent.id : null);
+  }
+}
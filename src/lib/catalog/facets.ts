@@ -0,0 +1,249 @@
+import type { Database } from "@/db";
+import {
+  productAttributeValues,
+  productAttributes,
+  products,
+} from "@/db/schema";
+import {
+  buildProductConditions,
+  isDiscounted,
+  isFreeDelivery,
+  isInStock,
+  type FacetKey,
+  type ProductFilters,
+} from "./filters";
+
+import { and, asc, eq, inArray, isNull, sql, type SQL } from "drizzle-orm";
+
+// Each facet is counted against every active filter except its own, so a
+// sidebar shows how many products picking a value would return.
+
+export interface AttributeFacet {
+  slug: string;
+  name: string;
+  values: { value: string; count: number; selected: boolean }[];
+}
+
+export interface PriceRange {
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface BooleanFacet {
+  true: number;
+  false: number;
+}
+
+export interface ProductFacets {
+  attributes: AttributeFacet[];
+  price: { min: number | null; max: number | null; ranges: PriceRange[] };
+  freeDelivery: BooleanFacet;
+  hasDiscount: BooleanFacet;
+  inStock: BooleanFacet;
+}
+
+const PRICE_RANGE_COUNT = 5;
+
+/**
+ * Split a price span into up to five ranges on round numbers, e.g. 0-500,
+ * 500-1000. Every range but the last excludes its upper bound.
+ */
+export function buildPriceRanges(
+  min: number,
+  max: number,
+): { min: number; max: number }[] {
+  if (max <= min) return [{ min, max }];
+
+  const rawStep = Math.max(1, (max - min) / PRICE_RANGE_COUNT);
+  const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+  const step =
+    [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= rawStep) ??
+    10 * magnitude;
+
+  const start = Math.floor(min / step) * step;
+  const ranges: { min: number; max: number }[] = [];
+  for (let from = start; from < max; from += step) {
+    ranges.push({ min: from, max: from + step });
+  }
+
+  return ranges;
+}
+
+async function countAttributeValues(
+  db: Database,
+  filters: ProductFilters,
+  attributeIds: string[],
+  omit?: FacetKey,
+) {
+  if (attributeIds.length === 0) return [];
+
+  return db
+    .select({
+      attributeId: productAttributeValues.attributeId,
+      value: productAttributeValues.value,
+      count: sql<number>`count(*)`,
+    })
+    .from(productAttributeValues)
+    .innerJoin(products, eq(products.id, productAttributeValues.productId))
+    .where(
+      and(
+        inArray(productAttributeValues.attributeId, attributeIds),
+        ...buildProductConditions(filters, omit),
+      ),
+    )
+    .groupBy(productAttributeValues.attributeId, productAttributeValues.value);
+}
+
+async function getAttributeFacets(
+  db: Database,
+  filters: ProductFilters,
+): Promise<AttributeFacet[]> {
+  const attributes = await db
+    .select({
+      id: productAttributes.id,
+      name: productAttributes.name,
+      slug: productAttributes.slug,
+      options: productAttributes.options,
+    })
+    .from(productAttributes)
+    .where(
+      and(
+        eq(productAttributes.filterable, true),
+        isNull(productAttributes.deletedAt),
+      ),
+    )
+    .orderBy(asc(productAttributes.name));
+
+  const selected = new Map(filters.attributes.map((f) => [f.slug, f.value]));
+  const filtered = attributes.filter((a) => selected.has(a.slug));
+  const unfiltered = attributes.filter((a) => !selected.has(a.slug));
+
+  // Attributes nobody filters on share one query; each filtered attribute is
+  // counted without its own filter
+  const counts = (
+    await Promise.all([
+      countAttributeValues(
+        db,
+        filters,
+        unfiltered.map((a) => a.id),
+      ),
+      ...filtered.map((a) =>
+        countAttributeValues(db, filters, [a.id], `attribute:${a.slug}`),
+      ),
+    ])
+  ).flat();
+
+  return attributes
+    .map((attribute) => {
+      const selectedValue = selected.get(attribute.slug);
+      const values = counts
+        .filter((row) => row.attributeId === attribute.id)
+        .map((row) => ({
+          value: row.value,
+          count: Number(row.count),
+          selected: row.value === selectedValue,
+        }));
+
+      // Keep the chosen value visible even when other filters rule it out
+      if (
+        selectedValue !== undefined &&
+        !values.some((v) => v.value === selectedValue)
+      ) {
+        values.push({ value: selectedValue, count: 0, selected: true });
+      }
+
+      // Predefined options keep their admin order, the rest follow by count
+      const options = attribute.options || [];
+      const position = (value: string) => {
+        const index = options.indexOf(value);
+        return index === -1 ? options.length : index;
+      };
+      values.sort(
+        (a, b) =>
+          position(a.value) - position(b.value) ||
+          b.count - a.count ||
+          a.value.localeCompare(b.value),
+      );
+
+      return { slug: attribute.slug, name: attribute.name, values };
+    })
+    .filter((facet) => facet.values.length > 0);
+}
+
+async function getPriceFacet(db: Database, filters: ProductFilters) {
+  const where = and(...buildProductConditions(filters, "price"));
+
+  const bounds = await db
+    .select({
+      min: sql<number | null>`min(${products.price})`,
+      max: sql<number | null>`max(${products.price})`,
+    })
+    .from(products)
+    .where(where)
+    .get();
+
+  if (bounds?.min == null || bounds.max == null) {
+    return { min: null, max: null, ranges: [] };
+  }
+
+  const ranges = buildPriceRanges(bounds.min, bounds.max);
+  const counts: Record<string, SQL<number>> = {};
+  ranges.forEach((range, index) => {
+    const below =
+      index === ranges.length - 1
+        ? sql`${products.price} <= ${range.max}`
+        : sql`${products.price} < ${range.max}`;
+    counts[`range${index}`] =
+      sql<number>`coalesce(sum(case when ${products.price} >= ${range.min} and ${below} then 1 else 0 end), 0)`;
+  });
+
+  const row = await db.select(counts).from(products).where(where).get();
+
+  return {
+    min: bounds.min,
+    max: bounds.max,
+    ranges: ranges.map((range, index) => ({
+      ...range,
+      count: Number(row?.[`range${index}`] ?? 0),
+    })),
+  };
+}
+
+async function getBooleanFacet(
+  db: Database,
+  filters: ProductFilters,
+  condition: SQL,
+  omit: FacetKey,
+): Promise<BooleanFacet> {
+  const row = await db
+    .select({
+      matching: sql<number>`coalesce(sum(case when ${condition} then 1 else 0 end), 0)`,
+      total: sql<number>`count(*)`,
+    })
+    .from(products)
+    .where(and(...buildProductConditions(filters, omit)))
+    .get();
+
+  const matching = Number(row?.matching ?? 0);
+  return { true: matching, false: Number(row?.total ?? 0) - matching };
+}
+
+/**
+ * Facet buckets with product counts for a listing
+ */
+export async function getProductFacets(
+  db: Database,
+  filters: ProductFilters,
+): Promise<ProductFacets> {
+  const [attributes, price, freeDelivery, hasDiscount, inStock] =
+    await Promise.all([
+      getAttributeFacets(db, filters),
+      getPriceFacet(db, filters),
+      getBooleanFacet(db, filters, isFreeDelivery, "freeDelivery"),
+      getBooleanFacet(db, filters, isDiscounted, "hasDiscount"),
+      getBooleanFacet(db, filters, isInStock, "inStock"),
+    ]);
+
+  return { attributes, price, freeDelivery, hasDiscount, inStock };
+}
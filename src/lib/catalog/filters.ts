@@ -0,0 +1,140 @@
+import type { Database } from "@/db";
+import {
+  bundleItems,
+  productAttributeValues,
+  productAttributes,
+  productVariants,
+  products,
+  ProductType,
+} from "@/db/schema";
+import { isInCategory } from "./product-categories";
+import { eq, inArray, isNull, like, not, sql, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/sqlite-core";
+
+// Storefront listing filters, shared by the product listings and their facet
+// counts so both always agree on what a filter means.
+
+export interface AttributeFilter {
+  slug: string;
+  value: string;
+}
+
+export interface ProductFilters {
+  categoryId?: string;
+  includeDescendants?: boolean; // Also match products in subcategories
+  search?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  freeDelivery?: boolean;
+  hasDiscount?: boolean;
+  inStock?: boolean;
+  ids?: string[];
+  attributes: AttributeFilter[];
+}
+
+// A filter a facet leaves out when counting its own values
+export type FacetKey =
+  | "price"
+  | "freeDelivery"
+  | "hasDiscount"
+  | "inStock"
+  | `attribute:${string}`;
+
+export const isFreeDelivery = eq(products.freeDelivery, true);
+
+export const isDiscounted = sql`coalesce(${products.discountPercentage}, 0) > 0`;
+
+const componentProducts = alias(products, "component_products");
+
+// A bundle is in stock when every component covers one bundle
+const isBundleInStock = sql`(exists (select 1 from ${bundleItems} where ${bundleItems.bundleId} = ${products.id}) and not exists (select 1 from ${bundleItems} inner join ${productVariants} on ${productVariants.id} = ${bundleItems.variantId} inner join ${componentProducts} on ${componentProducts.id} = ${productVariants.productId} where ${bundleItems.bundleId} = ${products.id} and (${productVariants.deletedAt} is not null or ${componentProducts.deletedAt} is not null or ${productVariants.stock} < ${bundleItems.quantity})))`;
+
+// Products without variants are sold without stock tracking
+export const isInStock = sql`(case when ${products.type} = ${ProductType.BUNDLE} then ${isBundleInStock} else (not exists (select 1 from ${productVariants} where ${productVariants.productId} = ${products.id} and ${productVariants.deletedAt} is null) or exists (select 1 from ${productVariants} where ${productVariants.productId} = ${products.id} and ${productVariants.deletedAt} is null and ${productVariants.stock} > 0)) end)`;
+
+/**
+ * Convert a "true"/"false" query parameter, leaving anything else unset
+ */
+export function parseBooleanFilter(value: string | undefined) {
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return undefined;
+}
+
+/**
+ * Attribute filters from the query string: any parameter named after an
+ * attribute slug, e.g. `?brand=Apple&color=Red`
+ */
+export async function getAttributeFilters(
+  db: Database,
+  queryParams: Record<string, string>,
+): Promise<AttributeFilter[]> {
+  const allAttributes = await db
+    .select({ slug: productAttributes.slug })
+    .from(productAttributes);
+  const validAttributeSlugs = new Set(allAttributes.map((a) => a.slug));
+
+  return Object.entries(queryParams)
+    .filter(([slug, value]) => validAttributeSlugs.has(slug) && value)
+    .map(([slug, value]) => ({ slug, value }));
+}
+
+function hasAttributeValue({ slug, value }: AttributeFilter) {
+  return sql`exists (select 1 from ${productAttributeValues} inner join ${productAttributes} on ${productAttributes.id} = ${productAttributeValues.attributeId} where ${productAttributeValues.productId} = ${products.id} and ${productAttributes.slug} = ${slug} and ${productAttributeValues.value} = ${value})`;
+}
+
+function booleanCondition(condition: SQL, expected: boolean | undefined) {
+  if (expected === undefined) return [];
+  return [expected ? condition : not(condition)];
+}
+
+/**
+ * Conditions on `products` for the given filters, for active products only.
+ * `omit` leaves out one filter so a facet can count its other values.
+ */
+export function buildProductConditions(
+  filters: ProductFilters,
+  omit?: FacetKey,
+): SQL[] {
+  const conditions: SQL[] = [
+    eq(products.isActive, true),
+    isNull(products.deletedAt),
+  ];
+
+  if (filters.categoryId) {
+    conditions.push(
+      isInCategory(filters.categoryId, filters.includeDescendants),
+    );
+  }
+  if (filters.search) {
+    conditions.push(like(products.name, `%${filters.search}%`));
+  }
+  if (filters.ids) {
+    conditions.push(inArray(products.id, filters.ids));
+  }
+  if (omit !== "price") {
+    if (filters.minPrice !== undefined) {
+      conditions.push(sql`${products.price} >= ${filters.minPrice}`);
+    }
+    if (filters.maxPrice !== undefined) {
+      conditions.push(sql`${products.price} <= ${filters.maxPrice}`);
+    }
+  }
+  if (omit !== "freeDelivery") {
+    conditions.push(...booleanCondition(isFreeDelivery, filters.freeDelivery));
+  }
+  if (omit !== "hasDiscount") {
+    conditions.push(...booleanCondition(isDiscounted, filters.hasDiscount));
+  }
+  if (omit !== "inStock") {
+    conditions.push(...booleanCondition(isInStock, filters.inStock));
+  }
+
+  for (const filter of filters.attributes) {
+    if (omit !== `attribute:${filter.slug}`) {
+      conditions.push(hasAttributeValue(filter));
+    }
+  }
+
+  return conditions;
+}
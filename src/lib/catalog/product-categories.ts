@@ -0,0 +1,113 @@
+import type { Database } from "@/db";
+import { categories, productCategories, products } from "@/db/schema";
+import { subtreeCategoryIds } from "./category-tree";
+import { nanoid } from "nanoid";
+
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+
+// A product is listed in every category it has a `product_categories` row
+// for. Its primary category (`products.categoryId`) is one of them and is the
+// one used for breadcrumbs and URLs.
+
+/**
+ * Rows to insert for a product's categories, the primary one included once
+ */
+export function productCategoryValues(
+  productId: string,
+  primaryCategoryId: string,
+  additionalCategoryIds: string[] = [],
+) {
+  const categoryIds = new Set([primaryCategoryId, ...additionalCategoryIds]);
+
+  return [...categoryIds].map((categoryId) => ({
+    id: "pcat_" + nanoid(),
+    productId,
+    categoryId,
+  }));
+}
+
+/**
+ * Condition on `products` matching products listed in a category, or in it
+ * or any of its subcategories with `includeDescendants`
+ */
+export function isInCategory(categoryId: string, includeDescendants = false) {
+  const category = includeDescendants
+    ? sql`in ${subtreeCategoryIds(categoryId)}`
+    : sql`= ${categoryId}`;
+
+  return sql`exists (select 1 from ${productCategories} where ${productCategories.productId} = ${products.id} and ${productCategories.categoryId} ${category})`;
+}
+
+/**
+ * Condition on `products` matching products listed in any of the categories
+ */
+export function isInAnyCategory(categoryIds: string[]) {
+  return sql`exists (select 1 from ${productCategories} where ${productCategories.productId} = ${products.id} and ${inArray(productCategories.categoryId, categoryIds)})`;
+}
+
+/**
+ * Condition on `products` matching products that share a category with the
+ * given product, the product itself included
+ */
+export function sharesCategoryWith(productId: string) {
+  return sql`exists (select 1 from ${productCategories} where ${productCategories.productId} = ${products.id} and ${productCategories.categoryId} in (select ${productCategories.categoryId} from ${productCategories} where ${productCategories.productId} = ${productId}))`;
+}
+
+/**
+ * Active categories of each product, primary category first
+ */
+export async function getProductCategories(db: Database, productIds: string[]) {
+  const byProduct = new Map<
+    string,
+    { id: string; name: string; slug: string; isPrimary: boolean }[]
+  >();
+  if (productIds.length === 0) return byProduct;
+
+  const rows = await db
+    .select({
+      productId: productCategories.productId,
+      id: categories.id,
+      name: categories.name,
+      slug: categories.slug,
+      isPrimary: sql<number>`${categories.id} = ${products.categoryId}`,
+    })
+    .from(productCategories)
+    .innerJoin(categories, eq(categories.id, productCategories.categoryId))
+    .innerJoin(products, eq(products.id, productCategories.productId))
+    .where(
+      and(
+        inArray(productCategories.productId, productIds),
+        isNull(categories.deletedAt),
+      ),
+    )
+    .orderBy(categories.name);
+
+  for (const { productId, isPrimary, ...category } of rows) {
+    const list = byProduct.get(productId) || [];
+    const entry = { ...category, isPrimary: Boolean(isPrimary) };
+    if (entry.isPrimary) list.unshift(entry);
+    else list.push(entry);
+    byProduct.set(productId, list);
+  }
+
+  return byProduct;
+}
+
+/**
+ * Number of active products listed in each category
+ */
+export async function countProductsByCategory(db: Database) {
+  const rows = await db
+    .select({
+      categoryId: productCategories.categoryId,
+      count: sql<number>`count(*)`,
+    })
+    .from(productCategories)
+    .innerJoin(products, eq(products.id, productCategories.productId))
+    .where(and(isNull(products.deletedAt), eq(products.isActive, true)))
+    .groupBy(productCategories.categoryId);
+
+  return new Map(
+    rows.map(({ categoryId, count }) => [categoryId, Number(count)]),
+  );
+}
@@ -0,0 +1,335 @@
+import type { Database } from "@/db";
+import {
+  productOptionValues,
+  productOptions,
+  productVariants,
+  variantImages,
+} from "@/db/schema";
+import {
+  variantOptionsKey,
+  type OptionDefinition,
+  type VariantOptions,
+} from "./variant-options";
+import { nanoid } from "nanoid";
+
+import { asc, eq, inArray, sql } from "drizzle-orm";
+
+export interface ProductOptionDetails {
+  id: string;
+  name: string;
+  values: { id: string; value: string }[];
+}
+
+// Options as submitted by the admin, in display order. Ids are those of
+// existing options and values, so renaming one also renames it on every
+// variant; entries without an id are new.
+export interface ProductOptionInput {
+  id?: string;
+  name: string;
+  values: { id?: string; value: string }[];
+}
+
+/**
+ * Names and values of options, for checking and sorting variants
+ */
+export function toOptionDefinitions(
+  options: ProductOptionDetails[],
+): OptionDefinition[] {
+  return options.map(({ name, values }) => ({
+    name,
+    values: values.map((v) => v.value),
+  }));
+}
+
+/**
+ * Options of each product with their values, both in display order
+ */
+export async function getProductOptions(db: Database, productIds: string[]) {
+  const byProduct = new Map<string, ProductOptionDetails[]>();
+  if (productIds.length === 0) return byProduct;
+
+  const rows = await db
+    .select({
+      productId: productOptions.productId,
+      optionId: productOptions.id,
+      name: productOptions.name,
+      valueId: productOptionValues.id,
+      value: productOptionValues.value,
+    })
+    .from(productOptions)
+    .leftJoin(
+      productOptionValues,
+      eq(productOptionValues.optionId, productOptions.id),
+    )
+    .where(inArray(productOptions.productId, productIds))
+    .orderBy(
+      asc(productOptions.sortOrder),
+      asc(productOptions.createdAt),
+      asc(productOptionValues.sortOrder),
+    );
+
+  const byId = new Map<string, ProductOptionDetails>();
+  for (const row of rows) {
+    let option = byId.get(row.optionId);
+    if (!option) {
+      option = { id: row.optionId, name: row.name, values: [] };
+      byId.set(row.optionId, option);
+      byProduct.set(row.productId, [
+        ...(byProduct.get(row.productId) || []),
+        option,
+      ]);
+    }
+    if (row.valueId && row.value !== null) {
+      option.values.push({ id: row.valueId, value: row.value });
+    }
+  }
+
+  return byProduct;
+}
+
+/**
+ * Options extended with any option or value the given variants use that the
+ * product does not have yet, e.g. for variants from a CSV import
+ */
+export function withMissingOptions(
+  options: ProductOptionDetails[],
+  variantOptions: VariantOptions[],
+): ProductOptionInput[] {
+  const merged: ProductOptionInput[] = options.map((option) => ({
+    id: option.id,
+    name: option.name,
+    values: [...option.values],
+  }));
+
+  for (const entry of variantOptions) {
+    for (const [name, value] of Object.entries(entry)) {
+      let option = merged.find((o) => o.name === name);
+      if (!option) {
+        option = { name, values: [] };
+        merged.push(option);
+      }
+      if (value && !option.values.some((v) => v.value === value)) {
+        option.values.push({ value });
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Replace the options of a product, carrying renames over to its variants.
+ * A new option is given its first value on existing variants. Returns an
+ * error message when the options are invalid, a value to remove is still
+ * used, or two variants would end up with the same options.
+ */
+export async function saveProductOptions(
+  db: Database,
+  productId: string,
+  input: ProductOptionInput[],
+): Promise<string | null> {
+  const names = new Set<string>();
+  for (const option of input) {
+    if (!option.name) return "Every option needs a name";
+    if (names.has(option.name)) {
+      return `There is more than one "${option.name}" option`;
+    }
+    names.add(option.name);
+
+    if (option.values.length === 0) {
+      return `Add at least one value to "${option.name}"`;
+    }
+    const values = new Set<string>();
+    for (const { value } of option.values) {
+      if (!value) return `"${option.name}" has an empty value`;
+      if (values.has(value)) {
+        return `"${option.name}" lists "${value}" more than once`;
+      }
+      values.add(value);
+    }
+  }
+
+  const current =
+    (await getProductOptions(db, [productId])).get(productId) || [];
+  const variants = await db
+    .select({
+      id: productVariants.id,
+      sku: productVariants.sku,
+      options: productVariants.options,
+    })
+    .from(productVariants)
+    .where(eq(productVariants.productId, productId));
+
+  // Work out every variant's options under the new definitions
+  const updated = new Map<string, VariantOptions>();
+  for (const variant of variants) {
+    const options: VariantOptions = {};
+
+    for (const option of input) {
+      const previous = current.find((o) => o.id === option.id);
+      if (!previous) {
+        options[option.name] = option.values[0].value;
+        continue;
+      }
+
+      const value = variant.options[previous.name];
+      if (value === undefined) continue;
+      const valueId = previous.values.find((v) => v.value === value)?.id;
+      const next = option.values.find((v) => v.id && v.id === valueId);
+      if (!next) {
+        return `"${value}" of "${previous.name}" is used by variant ${variant.sku}`;
+      }
+      options[option.name] = next.value;
+    }
+
+    updated.set(variant.id, options);
+  }
+
+  const seen = new Map<string, string>();
+  for (const variant of variants) {
+    const key = variantOptionsKey(updated.get(variant.id)!);
+    const other = seen.get(key);
+    if (other) {
+      return `Variants ${other} and ${variant.sku} would have the same options`;
+    }
+    seen.set(key, variant.sku);
+  }
+
+  // Keep the ids of existing options and values, so whatever refers to
+  // them (like images linked to a value) survives renames
+  const currentIds = new Set(current.map((o) => o.id));
+  const currentValueIds = new Set(
+    current.flatMap((o) => o.values.map((v) => v.id)),
+  );
+  const optionRows = input.map((option, index) => ({
+    id: option.id && currentIds.has(option.id) ? option.id : "opt_" + nanoid(),
+    productId,
+    name: option.name,
+    sortOrder: index,
+  }));
+  const valueRows = input.flatMap((option, index) =>
+    option.values.map((value, valueIndex) => ({
+      id:
+        value.id && currentValueIds.has(value.id)
+          ? value.id
+          : "optv_" + nanoid(),
+      optionId: optionRows[index].id,
+      value: value.value,
+      sortOrder: valueIndex,
+    })),
+  );
+
+  const keptIds = optionRows
+    .map((o) => o.id)
+    .filter((id) => currentIds.has(id));
+  const keptValueIds = valueRows
+    .map((v) => v.id)
+    .filter((id) => currentValueIds.has(id));
+  const removedIds = [...currentIds].filter((id) => !keptIds.includes(id));
+  const removedValueIds = [...currentValueIds].filter(
+    (id) => !keptValueIds.includes(id),
+  );
+
+  const changedVariants = variants.filter(
+    (variant) =>
+      JSON.stringify(updated.get(variant.id)) !==
+      JSON.stringify(variant.options),
+  );
+
+  await db.batch([
+    // Names and values are unique per product and option; park the kept ones
+    // on their ids first so that two of them can swap names
+    db
+      .update(productOptions)
+      .set({ name: sql`${productOptions.id}` })
+      .where(eq(productOptions.productId, productId)),
+    db
+      .update(productOptionValues)
+      .set({ value: sql`${productOptionValues.id}` })
+      .where(
+        inArray(
+          productOptionValues.optionId,
+          db
+            .select({ id: productOptions.id })
+            .from(productOptions)
+            .where(eq(productOptions.productId, productId)),
+        ),
+      ),
+    ...(removedValueIds.length > 0
+      ? [
+          db
+            .delete(variantImages)
+            .where(inArray(variantImages.optionValueId, removedValueIds)),
+          db
+            .delete(productOptionValues)
+            .where(inArray(productOptionValues.id, removedValueIds)),
+        ]
+      : []),
+    // Values of removed options are among the removed values
+    ...(removedIds.length > 0
+      ? [
+          db
+            .delete(productOptions)
+            .where(inArray(productOptions.id, removedIds)),
+        ]
+      : []),
+    ...optionRows.map((row) =>
+      currentIds.has(row.id)
+        ? db
+            .update(productOptions)
+            .set({
+              name: row.name,
+              sortOrder: row.sortOrder,
+              updatedAt: sql`unixepoch()`,
+            })
+            .where(eq(productOptions.id, row.id))
+        : db.insert(productOptions).values(row),
+    ),
+    ...valueRows.map((row) =>
+      currentValueIds.has(row.id)
+        ? db
+            .update(productOptionValues)
+            .set({
+              optionId: row.optionId,
+              value: row.value,
+              sortOrder: row.sortOrder,
+            })
+            .where(eq(productOptionValues.id, row.id))
+        : db.insert(productOptionValues).values(row),
+    ),
+    ...changedVariants.map((variant) =>
+      db
+        .update(productVariants)
+        .set({ options: updated.get(variant.id)!, updatedAt: sql`unixepoch()` })
+        .where(eq(productVariants.id, variant.id)),
+    ),
+  ]);
+
+  return null;
+}
+
+/**
+ * Another variant of the product with exactly the given options
+ */
+export async function findVariantWithOptions(
+  db: Database,
+  productId: string,
+  options: VariantOptions,
+  excludeVariantId?: string,
+) {
+  const variants = await db
+    .select({
+      id: productVariants.id,
+      sku: productVariants.sku,
+      options: productVariants.options,
+    })
+    .from(productVariants)
+    .where(eq(productVariants.productId, productId));
+
+  const key = variantOptionsKey(options);
+  return variants.find(
+    (variant) =>
+      variant.id !== excludeVariantId &&
+      variantOptionsKey(variant.options) === key,
+  );
+}
@@ -0,0 +1,267 @@
+import type { Database } from "@/db";
+import {
+  orderItems,
+  orders,
+  OrderStatus,
+  productAttributeValues,
+  productCategories,
+  productRecommendations,
+  products,
+  RecommendationType,
+} from "@/db/schema";
+import { nanoid } from "nanoid";
+
+import { and, asc, desc, eq, isNull, notInArray, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/sqlite-core";
+
+// Recommendations are listed in this order, each source filling the places
+// left by the ones before it:
+// - "Frequently bought together": products picked in the admin, then the
+//   products most often ordered with this one, then similar products
+// - "Related": products picked in the admin, then similar products
+// Similar products share categories or attribute values with the product.
+
+export interface ProductRecommendations {
+  frequentlyBoughtTogether: string[];
+  related: string[];
+}
+
+// Orders two products must share before they count as bought together
+const MIN_SHARED_ORDERS = 2;
+
+// A shared category weighs more than a shared attribute value like a brand
+const CATEGORY_WEIGHT = 2;
+const ATTRIBUTE_WEIGHT = 1;
+
+const isListed = and(eq(products.isActive, true), isNull(products.deletedAt));
+
+/**
+ * Rows to insert for the products picked in the admin, in the picked order.
+ * The product itself and repeats are left out.
+ */
+export function recommendationValues(
+  productId: string,
+  relatedProductIds: string[] = [],
+  frequentlyBoughtTogetherIds: string[] = [],
+) {
+  const rows = (type: RecommendationType, ids: string[]) =>
+    [...new Set(ids)]
+      .filter((id) => id !== productId)
+      .map((recommendedProductId, index) => ({
+        id: "prec_" + nanoid(),
+        productId,
+        recommendedProductId,
+        type,
+        sortOrder: index,
+      }));
+
+  return [
+    ...rows(RecommendationType.RELATED, relatedProductIds),
+    ...rows(
+      RecommendationType.FREQUENTLY_BOUGHT_TOGETHER,
+      frequentlyBoughtTogetherIds,
+    ),
+  ];
+}
+
+/**
+ * Products picked in the admin for a product, for its edit form
+ */
+export async function getManualRecommendations(
+  db: Database,
+  productId: string,
+) {
+  const rows = await db
+    .select({
+      type: productRecommendations.type,
+      id: products.id,
+      name: products.name,
+      price: products.price,
+      discountPercentage: products.discountPercentage,
+    })
+    .from(productRecommendations)
+    .innerJoin(
+      products,
+      eq(products.id, productRecommendations.recommendedProductId),
+    )
+    .where(
+      and(
+        eq(productRecommendations.productId, productId),
+        isNull(products.deletedAt),
+      ),
+    )
+    .orderBy(asc(productRecommendations.sortOrder));
+
+  const ofType = (type: RecommendationType) =>
+    rows
+      .filter((row) => row.type === type)
+      .map(({ type, ...product }) => product);
+
+  return {
+    related: ofType(RecommendationType.RELATED),
+    frequentlyBoughtTogether: ofType(
+      RecommendationType.FREQUENTLY_BOUGHT_TOGETHER,
+    ),
+  };
+}
+
+async function manualIds(
+  db: Database,
+  productId: string,
+  type: RecommendationType,
+  limit: number,
+) {
+  const rows = await db
+    .select({ id: products.id })
+    .from(productRecommendations)
+    .innerJoin(
+      products,
+      eq(products.id, productRecommendations.recommendedProductId),
+    )
+    .where(
+      and(
+        eq(productRecommendations.productId, productId),
+        eq(productRecommendations.type, type),
+        isListed,
+      ),
+    )
+    .orderBy(asc(productRecommendations.sortOrder))
+    .limit(limit);
+
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Products most often ordered together with the product. Cancelled and
+ * returned orders are left out.
+ */
+async function coPurchasedIds(
+  db: Database,
+  productId: string,
+  excludeIds: string[],
+  limit: number,
+) {
+  if (limit <= 0) return [];
+  const pairedItems = alias(orderItems, "paired_items");
+  const sharedOrders = sql<number>`count(distinct ${orderItems.orderId})`;
+
+  const rows = await db
+    .select({ id: pairedItems.productId })
+    .from(orderItems)
+    .innerJoin(orders, eq(orders.id, orderItems.orderId))
+    .innerJoin(
+      pairedItems,
+      and(
+        eq(pairedItems.orderId, orderItems.orderId),
+        sql`${pairedItems.productId} != ${orderItems.productId}`,
+      ),
+    )
+    .innerJoin(products, eq(products.id, pairedItems.productId))
+    .where(
+      and(
+        eq(orderItems.productId, productId),
+        isNull(orders.deletedAt),
+        notInArray(orders.status, [
+          OrderStatus.CANCELLED,
+          OrderStatus.RETURNED,
+        ]),
+        isListed,
+        excludeIds.length > 0
+          ? notInArray(pairedItems.productId, excludeIds)
+          : undefined,
+      ),
+    )
+    .groupBy(pairedItems.productId)
+    .having(sql`${sharedOrders} >= ${MIN_SHARED_ORDERS}`)
+    .orderBy(desc(sharedOrders))
+    .limit(limit);
+
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Products sharing the most categories and attribute values with the
+ * product, newest first among equals
+ */
+async function similarIds(
+  db: Database,
+  productId: string,
+  excludeIds: string[],
+  limit: number,
+) {
+  if (limit <= 0) return [];
+  const sourceAttributes = alias(productAttributeValues, "source_attributes");
+  const sourceCategories = alias(productCategories, "source_categories");
+
+  const sharedCategories = sql<number>`(select count(*) from ${productCategories} inner join ${sourceCategories} on ${sourceCategories.categoryId} = ${productCategories.categoryId} where ${productCategories.productId} = ${products.id} and ${sourceCategories.productId} = ${productId})`;
+  const sharedAttributes = sql<number>`(select count(*) from ${productAttributeValues} inner join ${sourceAttributes} on ${sourceAttributes.attributeId} = ${productAttributeValues.attributeId} and lower(${sourceAttributes.value}) = lower(${productAttributeValues.value}) where ${productAttributeValues.productId} = ${products.id} and ${sourceAttributes.productId} = ${productId})`;
+  const score = sql<number>`(${sharedCategories} * ${CATEGORY_WEIGHT} + ${sharedAttributes} * ${ATTRIBUTE_WEIGHT})`;
+
+  const rows = await db
+    .select({ id: products.id })
+    .from(products)
+    .where(
+      and(
+        isListed,
+        notInArray(products.id, [productId, ...excludeIds]),
+        sql`${score} > 0`,
+      ),
+    )
+    .orderBy(desc(score), desc(products.createdAt))
+    .limit(limit);
+
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Ids of the products to recommend with a product, up to `limit` of each
+ * kind. A product is recommended in one list only.
+ */
+export async function getRecommendations(
+  db: Database,
+  productId: string,
+  limit: number,
+): Promise<ProductRecommendations> {
+  const [manualTogether, manualRelated] = await Promise.all([
+    manualIds(
+      db,
+      productId,
+      RecommendationType.FREQUENTLY_BOUGHT_TOGETHER,
+      limit,
+    ),
+    manualIds(db, productId, RecommendationType.RELATED, limit),
+  ]);
+
+  const frequentlyBoughtTogether = [...manualTogether];
+  frequentlyBoughtTogether.push(
+    ...(await coPurchasedIds(
+      db,
+      productId,
+      [...frequentlyBoughtTogether, ...manualRelated],
+      limit - frequentlyBoughtTogether.length,
+    )),
+  );
+  // Filled with similar products when there are not enough orders yet
+  frequentlyBoughtTogether.push(
+    ...(await similarIds(
+      db,
+      productId,
+      [...frequentlyBoughtTogether, ...manualRelated],
+      limit - frequentlyBoughtTogether.length,
+    )),
+  );
+
+  const related = manualRelated.filter(
+    (id) => !frequentlyBoughtTogether.includes(id),
+  );
+  related.push(
+    ...(await similarIds(
+      db,
+      productId,
+      [...frequentlyBoughtTogether, ...related],
+      limit - related.length,
+    )),
+  );
+
+  return { frequentlyBoughtTogether, related };
+}
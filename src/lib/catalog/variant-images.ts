@@ -0,0 +1,202 @@
+import type { Database } from "@/db";
+import { productImages, productVariants, variantImages } from "@/db/schema";
+import {
+  getProductOptions,
+  type ProductOptionDetails,
+} from "./product-options";
+import type { VariantOptions } from "./variant-options";
+import { nanoid } from "nanoid";
+
+import { and, eq, isNull } from "drizzle-orm";
+
+// Product images can be linked to the variants they show. A link names either
+// one variant or an option value, so a photo of the red shirt is linked once
+// to "Color: Red" rather than to every red size.
+
+export interface VariantImageLink {
+  imageId: string;
+  variantId: string | null;
+  optionValueId: string | null;
+}
+
+/**
+ * Every image link of a product
+ */
+export async function getVariantImageLinks(
+  db: Database,
+  productId: string,
+): Promise<VariantImageLink[]> {
+  return db
+    .select({
+      imageId: variantImages.imageId,
+      variantId: variantImages.variantId,
+      optionValueId: variantImages.optionValueId,
+    })
+    .from(variantImages)
+    .where(eq(variantImages.productId, productId));
+}
+
+/**
+ * Ids of the option values a variant picks
+ */
+function variantValueIds(
+  options: ProductOptionDetails[],
+  variantOptions: VariantOptions,
+): string[] {
+  return options.flatMap((option) =>
+    option.values
+      .filter((v) => variantOptions[option.name] === v.value)
+      .map((v) => v.id),
+  );
+}
+
+/**
+ * Images of a variant in gallery order: those linked to the variant itself,
+ * or else those linked to one of its option values. Empty when none are
+ * linked, in which case every product image applies.
+ */
+export function imagesForVariant(
+  variant: { id: string; options: VariantOptions },
+  options: ProductOptionDetails[],
+  links: VariantImageLink[],
+  imageIds: string[],
+): string[] {
+  let linked = links.filter((link) => link.variantId === variant.id);
+  if (linked.length === 0) {
+    const valueIds = variantValueIds(options, variant.options);
+    linked = links.filter(
+      (link) => link.optionValueId && valueIds.includes(link.optionValueId),
+    );
+  }
+
+  const linkedIds = new Set(linked.map((link) => link.imageId));
+  return imageIds.filter((id) => linkedIds.has(id));
+}
+
+/**
+ * Option values an image is linked to, by option name and value
+ */
+export function linkedOptionValues(
+  imageId: string,
+  options: ProductOptionDetails[],
+  links: VariantImageLink[],
+): { name: string; value: string }[] {
+  const valueIds = new Set(
+    links
+      .filter((link) => link.imageId === imageId && link.optionValueId)
+      .map((link) => link.optionValueId),
+  );
+
+  return options.flatMap((option) =>
+    option.values
+      .filter((v) => valueIds.has(v.id))
+      .map((v) => ({ name: option.name, value: v.value })),
+  );
+}
+
+async function getImageIds(db: Database, productId: string) {
+  const rows = await db
+    .select({ id: productImages.id })
+    .from(productImages)
+    .where(eq(productImages.productId, productId));
+  return new Set(rows.map((row) => row.id));
+}
+
+async function getVariantIds(db: Database, productId: string) {
+  const rows = await db
+    .select({ id: productVariants.id })
+    .from(productVariants)
+    .where(
+      and(
+        eq(productVariants.productId, productId),
+        isNull(productVariants.deletedAt),
+      ),
+    );
+  return new Set(rows.map((row) => row.id));
+}
+
+/**
+ * Replace the variants and option values an image is linked to. Returns an
+ * error message when any of them is not the product's.
+ */
+export async function setImageLinks(
+  db: Database,
+  productId: string,
+  imageId: string,
+  targets: { variantIds: string[]; optionValueIds: string[] },
+): Promise<string | null> {
+  const [imageIds, variantIds, options] = await Promise.all([
+    getImageIds(db, productId),
+    getVariantIds(db, productId),
+    getProductOptions(db, [productId]),
+  ]);
+  const valueIds = new Set(
+    (options.get(productId) || []).flatMap((o) => o.values.map((v) => v.id)),
+  );
+
+  if (!imageIds.has(imageId)) return "The product has no such image";
+  if (targets.variantIds.some((id) => !variantIds.has(id))) {
+    return "Some of the variants are not the product's";
+  }
+  if (targets.optionValueIds.some((id) => !valueIds.has(id))) {
+    return "Some of the option values are not the product's";
+  }
+
+  const rows = [
+    ...[...new Set(targets.variantIds)].map((variantId) => ({
+      id: "vimg_" + nanoid(),
+      productId,
+      imageId,
+      variantId,
+    })),
+    ...[...new Set(targets.optionValueIds)].map((optionValueId) => ({
+      id: "vimg_" + nanoid(),
+      productId,
+      imageId,
+      optionValueId,
+    })),
+  ];
+
+  await db.batch([
+    db.delete(variantImages).where(eq(variantImages.imageId, imageId)),
+    ...(rows.length > 0 ? [db.insert(variantImages).values(rows)] : []),
+  ]);
+
+  return null;
+}
+
+/**
+ * Replace the images linked to one variant. Links to its option values are
+ * left alone. Returns an error message when the variant or an image is not
+ * the product's.
+ */
+export async function setVariantImages(
+  db: Database,
+  productId: string,
+  variantId: string,
+  imageIds: string[],
+): Promise<string | null> {
+  const [productImageIds, variantIds] = await Promise.all([
+    getImageIds(db, productId),
+    getVariantIds(db, productId),
+  ]);
+
+  if (!variantIds.has(variantId)) return "Variant not found";
+  if (imageIds.some((id) => !productImageIds.has(id))) {
+    return "Some of the images are not the product's";
+  }
+
+  const rows = [...new Set(imageIds)].map((imageId) => ({
+    id: "vimg_" + nanoid(),
+    productId,
+    imageId,
+    variantId,
+  }));
+
+  await db.batch([
+    db.delete(variantImages).where(eq(variantImages.variantId, variantId)),
+    ...(rows.length > 0 ? [db.insert(variantImages).values(rows)] : []),
+  ]);
+
+  return null;
+}
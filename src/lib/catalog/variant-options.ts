@@ -0,0 +1,97 @@
+// A variant is identified by the value it picks for each of its product's
+// options, stored in `product_variants.options` as an object keyed by option
+// name, e.g. {"Storage": "256 GB", "Color": "Black"}. Nothing here touches
+// the database so the admin UI can share these helpers.
+
+export type VariantOptions = Record<string, string>;
+
+// An option with its values in display order
+export interface OptionDefinition {
+  name: string;
+  values: string[];
+}
+
+/**
+ * Human-readable options of a variant, e.g. "Size: M / Color: Red"
+ */
+export function formatVariantOptions(
+  options: VariantOptions | null | undefined,
+): string {
+  return Object.entries(options || {})
+    .map(([name, value]) => `${name}: ${value}`)
+    .join(" / ");
+}
+
+/**
+ * Key that is equal for two variants exactly when they pick the same values
+ */
+export function variantOptionsKey(options: VariantOptions): string {
+  return JSON.stringify(
+    Object.entries(options).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+  );
+}
+
+/**
+ * Why a variant's options do not fit its product's options, or null when
+ * they pick one defined value for every option and nothing else
+ */
+export function checkVariantOptions(
+  definitions: OptionDefinition[],
+  options: VariantOptions,
+): string | null {
+  for (const name of Object.keys(options)) {
+    if (!definitions.some((definition) => definition.name === name)) {
+      return `The product has no "${name}" option`;
+    }
+  }
+
+  for (const { name, values } of definitions) {
+    const value = options[name];
+    if (value === undefined || value === "") {
+      return `Choose a value for "${name}"`;
+    }
+    if (!values.includes(value)) {
+      return `"${value}" is not a value of "${name}"`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The same options with their keys in the product's option order
+ */
+export function orderVariantOptions(
+  definitions: OptionDefinition[],
+  options: VariantOptions,
+): VariantOptions {
+  const ordered: VariantOptions = {};
+  for (const { name } of definitions) {
+    if (options[name] !== undefined) ordered[name] = options[name];
+  }
+  return ordered;
+}
+
+/**
+ * Comparator putting variants in the order of their option values: by the
+ * first option's values, then the second's, and so on
+ */
+export function compareByOptions(definitions: OptionDefinition[]) {
+  const position = (
+    name: string,
+    values: string[],
+    options: VariantOptions,
+  ) => {
+    const index = values.indexOf(options[name]);
+    return index === -1 ? values.length : index;
+  };
+
+  return (a: { options: VariantOptions }, b: { options: VariantOptions }) => {
+    for (const { name, values } of definitions) {
+      const difference =
+        position(name, values, a.options) - position(name, values, b.options);
+      if (difference !== 0) return difference;
+    }
+    return 0;
+  };
+}
@@ -43,11 +43,16 @@ export function standardizePhoneNumber(phone: string): string {
 export function calculateCustomerStats(
   orders: {
     totalAmount: number;
+    refundedAmount?: number | null;
     createdAt: Date | number;
   }[],
 ) {
   const totalOrders = orders.length;
-  const totalSpent = orders.reduce((sum, order) => sum + order.totalAmount, 0);
+  // Refunded money does not count as spent
+  const totalSpent = orders.reduce(
+    (sum, order) => sum + order.totalAmount - (order.refundedAmount || 0),
+    0,
+  );
   const lastOrderAt =
     orders.length > 0
       ? Math.max(
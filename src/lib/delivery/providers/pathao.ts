@@ -10,6 +10,7 @@ import type {
   PathaoStatusResponse,
 } from "../types";
 import type { DeliveryProviderInterface } from "../provider";
+import { getAmountDue } from "@/lib/payments/balance";
 import { mapProviderStatus } from "../status-mapper";
 import { getExternalLocationIds } from "../locations";
 
@@ -153,12 +154,7 @@ export class PathaoProvider implements DeliveryProviderInterface {
 
       const itemCount = options?.itemCount || 1;
 
-      const amountToCollect =
-        options?.codAmount !== undefined
-          ? options.codAmount
-          : order.totalAmount +
-            order.shippingCharge -
-            (order.discountAmount || 0);
+      const amountToCollect = options?.codAmount ?? getAmountDue(order);
 
       if (!order.city || !order.zone) {
         return {
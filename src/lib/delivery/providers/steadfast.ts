@@ -9,6 +9,7 @@ import type {
   SteadfastStatusResponse,
 } from "../types";
 import type { DeliveryProviderInterface } from "../provider";
+import { getAmountDue } from "@/lib/payments/balance";
 import { mapProviderStatus } from "../status-mapper";
 
 /**
@@ -109,12 +110,7 @@ export class SteadfastProvider implements DeliveryProviderInterface {
     options?: ShipmentOptions,
   ): Promise<ShipmentResult> {
     try {
-      const codAmount =
-        options?.codAmount !== undefined
-          ? options.codAmount
-          : order.totalAmount +
-            order.shippingCharge -
-            (order.discountAmount || 0);
+      const codAmount = options?.codAmount ?? getAmountDue(order);
 
       // Construct the full address
       const addressParts = [
@@ -1,6 +1,7 @@
 import { db } from "@/db";
 import { deliveryProviders, deliveryShipments, orders } from "@/db/schema";
 import { createProvider } from "./factory";
+import { getAmountDue } from "@/lib/payments/balance";
 
 import type { ShipmentOptions, ShipmentResult } from "./types";
 import { eq, desc } from "drizzle-orm";
@@ -164,10 +165,16 @@ export class DeliveryService {
       // Create provider instance
       const providerInstance = createProvider(provider);
 
+      // The courier collects whatever is still owed unless told otherwise
+      const shipmentOptions: ShipmentOptions = {
+        ...options,
+        codAmount: options?.codAmount ?? getAmountDue(order),
+      };
+
       // Create shipment
       const shipmentResult = await providerInstance.createShipment(
         order,
-        options,
+        shipmentOptions,
       );
 
       // If successful, save the shipment to our database
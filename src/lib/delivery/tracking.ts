@@ -1,5 +1,8 @@
 import { db } from "@/db";
 import { deliveryShipments, orders } from "@/db/schema";
+import { OrderStatusService } from "@/lib/orders/status";
+import { emitShipmentUpdated } from "@/lib/webhooks/events";
+import type { WaitUntil } from "@/lib/webhooks/service";
 import { eq } from "drizzle-orm";
 
 /**
@@ -10,10 +13,14 @@ export class ShipmentTracker {
    * Updates the order status based on shipment status if applicable
    * @param shipmentId - The ID of the shipment
    * @param newStatus - The new status of the shipment
+   * @param previousShipmentStatus - The shipment status before the change, for the shipment.updated webhook
+   * @param waitUntil - Runs webhook sending in the background when provided
    */
   static async updateOrderStatusFromShipment(
     shipmentId: string,
     newStatus: string,
+    previousShipmentStatus: string | null = null,
+    waitUntil?: WaitUntil,
   ) {
     try {
       // Get the shipment
@@ -27,6 +34,13 @@ export class ShipmentTracker {
         return;
       }
 
+      await emitShipmentUpdated(
+        db,
+        shipmentId,
+        previousShipmentStatus,
+        waitUntil,
+      );
+
       // Get the order
       const [order] = await db
         .select()
@@ -102,15 +116,21 @@ export class ShipmentTracker {
 
       console.log(`New order status will be: ${newOrderStatus}`);
 
-      // Update order status if it has changed
+      // Update order status if it has changed. The order status rules
+      // apply here too, and cancelling gives the order's stock back.
       if (newOrderStatus !== order.status) {
-        await db
-          .update(orders)
-          .set({
-            status: newOrderStatus,
-            updatedAt: new Date(),
-          })
-          .where(eq(orders.id, order.id));
+        const result = await new OrderStatusService(db).changeStatus(
+          order.id,
+          newOrderStatus,
+          { waitUntil },
+        );
+
+        if (!result.success) {
+          console.warn(
+            `Order ${order.id} not moved from ${order.status} to ${newOrderStatus}: ${result.message}`,
+          );
+          return null;
+        }
 
         console.log(
           `Updated order ${order.id} status from ${order.status} to ${newOrderStatus}`,
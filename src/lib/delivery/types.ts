@@ -57,6 +57,7 @@ export interface PathaoCredentials {
   clientSecret: string;
   username: string;
   password: string;
+  webhookSecret?: string; // Secret Pathao sends in X-PATHAO-Signature
 }
 
 export interface PathaoConfig {
@@ -94,6 +95,7 @@ export interface SteadfastCredentials {
   baseUrl: string;
   apiKey: string;
   secretKey: string;
+  webhookSecret?: string; // Bearer token Steadfast sends with callbacks
 }
 
 export interface SteadfastConfig {
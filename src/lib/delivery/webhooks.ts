@@ -0,0 +1,203 @@
+import { db } from "@/db";
+import {
+  deliveryProviders,
+  deliveryShipments,
+  type DeliveryProvider,
+  type DeliveryProviderType,
+} from "@/db/schema";
+import type { WaitUntil } from "@/lib/webhooks/service";
+import { mapProviderStatus, ShipmentStatusCode } from "./status-mapper";
+import { ShipmentTracker } from "./tracking";
+
+import { and, eq } from "drizzle-orm";
+
+// Pathao verifies a webhook URL by expecting this fixed value in the
+// response header below (from the Pathao merchant webhook documentation)
+export const PATHAO_INTEGRATION_HEADER =
+  "X-Pathao-Merchant-Webhook-Integration-Secret";
+export const PATHAO_INTEGRATION_SECRET = "f3992ecc-59da-4cbe-a049-a13da2018d51";
+
+/**
+ * A status callback from a courier, reduced to what we need
+ */
+export interface CourierStatusUpdate {
+  externalId: string;
+  // Provider status; null for callbacks that carry no status (tracking notes)
+  rawStatus: string | null;
+  payload: Record<string, unknown>;
+}
+
+export interface CourierWebhookResult {
+  shipmentId: string;
+  previousStatus: string;
+  status: string;
+  statusChanged: boolean;
+  orderStatusChanged: boolean;
+}
+
+/**
+ * Parse a Pathao callback. Pathao sends the status as an event name such as
+ * "order.in-transit"; it is turned into the wording the status mapper knows.
+ */
+export function parsePathaoWebhook(body: any): CourierStatusUpdate | null {
+  if (!body || !body.consignment_id) {
+    return null;
+  }
+
+  const event = typeof body.event === "string" ? body.event : "";
+  const rawStatus =
+    event
+      .replace(/^order\./, "")
+      .replace(/[-_]/g, " ")
+      .trim() || null;
+
+  return {
+    externalId: String(body.consignment_id),
+    rawStatus,
+    payload: body,
+  };
+}
+
+/**
+ * Parse a Steadfast callback. Only "delivery_status" notifications carry a
+ * status; "tracking_update" notifications are recorded without one.
+ */
+export function parseSteadfastWebhook(body: any): CourierStatusUpdate | null {
+  if (!body || !body.consignment_id) {
+    return null;
+  }
+
+  const rawStatus =
+    body.notification_type === "tracking_update" ||
+    typeof body.status !== "string"
+      ? null
+      : body.status;
+
+  return {
+    externalId: String(body.consignment_id),
+    rawStatus,
+    payload: body,
+  };
+}
+
+/**
+ * Find the provider whose configured webhook secret matches the token the
+ * courier sent. Providers without a webhook secret never match, so callbacks
+ * stay rejected until a secret is configured.
+ */
+export async function findWebhookProvider(
+  providerType: DeliveryProviderType,
+  token: string | null | undefined,
+): Promise<DeliveryProvider | undefined> {
+  if (!token) {
+    return undefined;
+  }
+
+  const providers = await db
+    .select()
+    .from(deliveryProviders)
+    .where(eq(deliveryProviders.type, providerType));
+
+  return providers.find((provider) => {
+    try {
+      const secret = JSON.parse(provider.credentials).webhookSecret;
+      return typeof secret === "string" && secret.length > 0
+        ? safeEqual(secret.trim(), token.trim())
+        : false;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Apply a courier status callback to the matching shipment and move the
+ * order along through ShipmentTracker. Returns null when the shipment is
+ * not ours.
+ */
+export async function applyCourierStatusUpdate(
+  provider: DeliveryProvider,
+  update: CourierStatusUpdate,
+  waitUntil?: WaitUntil,
+): Promise<CourierWebhookResult | null> {
+  const [shipment] = await db
+    .select()
+    .from(deliveryShipments)
+    .where(
+      and(
+        eq(deliveryShipments.providerId, provider.id),
+        eq(deliveryShipments.externalId, update.externalId),
+      ),
+    );
+
+  if (!shipment) {
+    console.warn(
+      `${provider.type} webhook for unknown consignment ${update.externalId}`,
+    );
+    return null;
+  }
+
+  const mappedStatus = update.rawStatus
+    ? mapProviderStatus(provider.type as DeliveryProviderType, update.rawStatus)
+    : ShipmentStatusCode.UNKNOWN;
+  // Statuses we cannot map are logged but never overwrite a known status
+  const newStatus =
+    mappedStatus === ShipmentStatusCode.UNKNOWN
+      ? shipment.status
+      : mappedStatus;
+
+  let metadata: Record<string, unknown> = {};
+  try {
+    metadata = JSON.parse(shipment.metadata || "{}");
+  } catch {
+    // Keep going with fresh metadata
+  }
+
+  const now = new Date();
+  await db
+    .update(deliveryShipments)
+    .set({
+      status: newStatus,
+      rawStatus: update.rawStatus ?? shipment.rawStatus,
+      metadata: JSON.stringify({ ...metadata, lastWebhook: update.payload }),
+      lastChecked: now,
+      updatedAt: now,
+    })
+    .where(eq(deliveryShipments.id, shipment.id));
+
+  const statusChanged = newStatus !== shipment.status;
+  let orderStatusChanged = false;
+
+  if (statusChanged) {
+    const orderUpdate = await ShipmentTracker.updateOrderStatusFromShipment(
+      shipment.id,
+      newStatus,
+      shipment.status,
+      waitUntil,
+    );
+    orderStatusChanged = !!orderUpdate;
+  }
+
+  return {
+    shipmentId: shipment.id,
+    previousStatus: shipment.status,
+    status: newStatus,
+    statusChanged,
+    orderStatusChanged,
+  };
+}
+
+/**
+ * Compare two secrets without leaking where they differ
+ */
+function safeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ (right[i % (right.length || 1)] ?? 0);
+  }
+  return diff === 0;
+}
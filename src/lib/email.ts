@@ -196,3 +196,67 @@ export async function sendAdminInviteEmail(
     env,
   });
 }
+
+/**
+ * Send a low stock alert, or the daily digest of everything running low.
+ */
+export async function sendLowStockEmail(
+  email: string,
+  variants: { sku: string; productName: string | null; stock: number; threshold: number }[],
+  inventoryUrl: string,
+  options: { digest?: boolean; env?: Env | NodeJS.ProcessEnv } = {}
+): Promise<void> {
+  const { digest = false, env } = options;
+  const heading = digest ? "Daily low stock digest" : "Low stock alert";
+  const intro = digest
+    ? `${variants.length} variant${variants.length !== 1 ? "s are" : " is"} out of stock or running low:`
+    : `The latest order took ${variants.length !== 1 ? "these variants" : "this variant"} to or below the low stock threshold:`;
+
+  const rows = variants
+    .map(
+      (variant) => `
+          <tr>
+            <td style="padding: 8px; border-bottom: 1px solid #eee;">${variant.productName ?? "Unknown product"}</td>
+            <td style="padding: 8px; border-bottom: 1px solid #eee; color: #666;">${variant.sku}</td>
+            <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right; color: ${variant.stock <= 0 ? "#e74c3c" : "#000"};">${variant.stock}</td>
+            <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right; color: #666;">${variant.threshold}</td>
+          </tr>`
+    )
+    .join("");
+
+  await sendEmail({
+    to: email,
+    subject: `${heading} - Scalius Commerce`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>${heading}</h2>
+        <p>${intro}</p>
+        <table style="width: 100%; border-collapse: collapse; font-size: 14px; margin: 20px 0;">
+          <thead>
+            <tr style="background: #f5f5f5;">
+              <th style="padding: 8px; text-align: left;">Product</th>
+              <th style="padding: 8px; text-align: left;">SKU</th>
+              <th style="padding: 8px; text-align: right;">Stock</th>
+              <th style="padding: 8px; text-align: right;">Threshold</th>
+            </tr>
+          </thead>
+          <tbody>${rows}
+          </tbody>
+        </table>
+        <p style="margin: 30px 0;">
+          <a href="${inventoryUrl}" style="background-color: #000; color: #fff; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+            View Inventory
+          </a>
+        </p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
+        <p style="color: #999; font-size: 12px;">
+          You can change who receives these emails in the inventory settings.
+        </p>
+      </div>
+    `,
+    text: `${heading}\n\n${intro}\n\n${variants
+      .map((variant) => `- ${variant.productName ?? "Unknown product"} (${variant.sku}): ${variant.stock} in stock, threshold ${variant.threshold}`)
+      .join("\n")}\n\nView inventory: ${inventoryUrl}`,
+    env,
+  });
+}
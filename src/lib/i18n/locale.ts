@@ -0,0 +1,112 @@
+import type { Database } from "@/db";
+import { checkoutLanguages } from "@/db/schema";
+import { CACHE_KEYS, layoutCache } from "@/lib/layout-cache";
+
+import { isNull } from "drizzle-orm";
+
+// The store's languages are its checkout languages. Catalog content is
+// written in the default one and translated into the others.
+
+export interface StoreLocales {
+  defaultLocale: string;
+  locales: string[];
+  // Display name of each locale, e.g. { bn: "বাংলা" }
+  names: Record<string, string>;
+}
+
+// Used until a checkout language is marked as the default
+const FALLBACK_LOCALE = "en";
+
+/**
+ * Language codes of the store, the default one first
+ */
+export async function getStoreLocales(db: Database): Promise<StoreLocales> {
+  const cached = layoutCache.get<StoreLocales>(CACHE_KEYS.STORE_LOCALES);
+  if (cached) return cached;
+
+  const rows = await db
+    .select({
+      code: checkoutLanguages.code,
+      name: checkoutLanguages.name,
+      isDefault: checkoutLanguages.isDefault,
+    })
+    .from(checkoutLanguages)
+    .where(isNull(checkoutLanguages.deletedAt))
+    .orderBy(checkoutLanguages.name);
+
+  const defaultLocale =
+    rows.find((row) => row.isDefault)?.code.toLowerCase() ?? FALLBACK_LOCALE;
+  const storeLocales = {
+    defaultLocale,
+    locales: [
+      defaultLocale,
+      ...rows
+        .map((row) => row.code.toLowerCase())
+        .filter((code) => code !== defaultLocale),
+    ],
+    names: Object.fromEntries(
+      rows.map((row) => [row.code.toLowerCase(), row.name]),
+    ),
+  };
+
+  layoutCache.set(CACHE_KEYS.STORE_LOCALES, storeLocales);
+  return storeLocales;
+}
+
+/**
+ * Language tags of an Accept-Language header, most preferred first
+ */
+export function parseAcceptLanguage(header: string): string[] {
+  return header
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith("q="));
+      return {
+        tag: tag.trim().toLowerCase(),
+        quality: q ? Number(q.slice(2)) : 1,
+        index,
+      };
+    })
+    .filter(({ tag, quality }) => tag && tag !== "*" && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag }) => tag);
+}
+
+/**
+ * The store locale matching a language tag, exactly or by its primary
+ * subtag ("bn-BD" matches "bn")
+ */
+function matchLocale(tag: string, locales: string[]): string | null {
+  const lowered = tag.toLowerCase();
+  if (locales.includes(lowered)) return lowered;
+  const primary = lowered.split("-")[0];
+  return (
+    locales.find((locale) => locale === primary) ??
+    locales.find((locale) => locale.split("-")[0] === primary) ??
+    null
+  );
+}
+
+/**
+ * Locale to answer a request in: the `locale` query parameter, else the
+ * first Accept-Language match, else the default language
+ */
+export function resolveLocale(
+  store: StoreLocales,
+  requested: { query?: string; acceptLanguage?: string },
+): string {
+  if (requested.query) {
+    const match = matchLocale(requested.query, store.locales);
+    if (match) return match;
+  }
+
+  for (const tag of parseAcceptLanguage(requested.acceptLanguage || "")) {
+    const match = matchLocale(tag, store.locales);
+    if (match) return match;
+  }
+
+  return store.defaultLocale;
+}
@@ -0,0 +1,345 @@
+import type { Database } from "@/db";
+import {
+  contentTranslations,
+  productRichContent,
+  TranslatableEntity,
+} from "@/db/schema";
+import { getStoreLocales } from "./locale";
+import { nanoid } from "nanoid";
+import { z } from "zod";
+
+import { and, eq, inArray, sql } from "drizzle-orm";
+
+// Translated fields are stored one row per record, locale and field. Reads
+// fall back field by field: a product with only a translated name keeps its
+// default language description.
+
+export const TRANSLATABLE_FIELDS: Record<
+  TranslatableEntity,
+  readonly string[]
+> = {
+  [TranslatableEntity.PRODUCT]: [
+    "name",
+    "description",
+    "metaTitle",
+    "metaDescription",
+  ],
+  [TranslatableEntity.PRODUCT_RICH_CONTENT]: ["title", "content"],
+  [TranslatableEntity.CATEGORY]: [
+    "name",
+    "description",
+    "metaTitle",
+    "metaDescription",
+  ],
+  [TranslatableEntity.COLLECTION]: ["title", "subtitle"],
+  [TranslatableEntity.PAGE]: [
+    "title",
+    "content",
+    "metaTitle",
+    "metaDescription",
+  ],
+};
+
+export const translationEntrySchema = z.object({
+  entityType: z.nativeEnum(TranslatableEntity),
+  entityId: z.string().min(1),
+  field: z.string().min(1),
+  // Empty removes the translation
+  value: z.string(),
+});
+
+export const translationsUpdateSchema = z.object({
+  locale: z.string().min(1, "Locale is required"),
+  entries: z.array(translationEntrySchema).min(1),
+});
+
+export type TranslationEntry = z.infer<typeof translationEntrySchema>;
+
+// Rich text editors leave an empty paragraph behind when cleared
+function isBlank(value: string) {
+  return !value.replace(/<p>\s*<\/p>/g, "").trim();
+}
+
+/**
+ * Translated fields of the given records in one locale, by record id
+ */
+export async function getTranslations(
+  db: Database,
+  entityType: TranslatableEntity,
+  entityIds: string[],
+  locale: string,
+): Promise<Map<string, Record<string, string>>> {
+  const byId = new Map<string, Record<string, string>>();
+  if (entityIds.length === 0) return byId;
+
+  const rows = await db
+    .select({
+      entityId: contentTranslations.entityId,
+      field: contentTranslations.field,
+      value: contentTranslations.value,
+    })
+    .from(contentTranslations)
+    .where(
+      and(
+        eq(contentTranslations.entityType, entityType),
+        inArray(contentTranslations.entityId, [...new Set(entityIds)]),
+        eq(contentTranslations.locale, locale),
+      ),
+    );
+
+  for (const row of rows) {
+    byId.set(row.entityId, {
+      ...byId.get(row.entityId),
+      [row.field]: row.value,
+    });
+  }
+  return byId;
+}
+
+/**
+ * Copy of a record with its translated fields swapped in. Fields the record
+ * was not selected with are left out.
+ */
+export function applyTranslation<T extends object>(
+  record: T,
+  fields: Record<string, string> | undefined,
+): T {
+  if (!fields) return record;
+  const translated = { ...record } as Record<string, unknown>;
+  for (const [field, value] of Object.entries(fields)) {
+    if (field in record) translated[field] = value;
+  }
+  return translated as T;
+}
+
+/**
+ * Records with their fields in the given locale. A null locale is the
+ * default language, which the records are already in.
+ */
+export async function translateRecords<T extends { id: string }>(
+  db: Database,
+  entityType: TranslatableEntity,
+  records: T[],
+  locale: string | null,
+): Promise<T[]> {
+  if (!locale || records.length === 0) return records;
+
+  const byId = await getTranslations(
+    db,
+    entityType,
+    records.map((record) => record.id),
+    locale,
+  );
+  return records.map((record) => applyTranslation(record, byId.get(record.id)));
+}
+
+/**
+ * Collections with the title and subtitle in their config in the given
+ * locale. Those live in the config JSON rather than in columns.
+ */
+export async function translateCollectionConfigs<
+  T extends { id: string; config: Record<string, unknown> },
+>(db: Database, collections: T[], locale: string | null): Promise<T[]> {
+  if (!locale || collections.length === 0) return collections;
+
+  const byId = await getTranslations(
+    db,
+    TranslatableEntity.COLLECTION,
+    collections.map((collection) => collection.id),
+    locale,
+  );
+  return collections.map((collection) =>
+    byId.has(collection.id)
+      ? {
+          ...collection,
+          config: { ...collection.config, ...byId.get(collection.id) },
+        }
+      : collection,
+  );
+}
+
+// Header and footer menu items keep their translated titles in the site
+// settings JSON, e.g. { title: "Shop", translations: { bn: "দোকান" } }
+interface NavigationNode {
+  title?: string;
+  translations?: Record<string, string>;
+  subMenu?: NavigationNode[];
+  links?: NavigationNode[];
+}
+
+/**
+ * Menu items with their titles in the given locale, without the
+ * `translations` maps. Nested sub menus and footer menu links included.
+ */
+export function translateNavigation<T extends NavigationNode>(
+  items: T[],
+  locale: string | null,
+): T[] {
+  if (!Array.isArray(items)) return items;
+
+  return items.map(({ translations, ...item }) => {
+    const title = locale ? translations?.[locale]?.trim() : undefined;
+    return {
+      ...item,
+      ...(title && { title }),
+      ...(item.subMenu && {
+        subMenu: translateNavigation(item.subMenu, locale),
+      }),
+      ...(item.links && { links: translateNavigation(item.links, locale) }),
+    } as T;
+  });
+}
+
+/**
+ * Every translation of the given records, in all locales
+ */
+export async function getEntityTranslations(
+  db: Database,
+  entityType: TranslatableEntity,
+  entityIds: string[],
+) {
+  if (entityIds.length === 0) return [];
+
+  return db
+    .select({
+      entityType: contentTranslations.entityType,
+      entityId: contentTranslations.entityId,
+      locale: contentTranslations.locale,
+      field: contentTranslations.field,
+      value: contentTranslations.value,
+    })
+    .from(contentTranslations)
+    .where(
+      and(
+        eq(contentTranslations.entityType, entityType),
+        inArray(contentTranslations.entityId, entityIds),
+      ),
+    );
+}
+
+/**
+ * Save translations in one locale. Entries with an empty value remove the
+ * translation so the field falls back to the default language again.
+ *
+ * @returns An error message, or null when saved
+ */
+export async function saveTranslations(
+  db: Database,
+  locale: string,
+  entries: TranslationEntry[],
+): Promise<string | null> {
+  if (entries.length === 0) return null;
+
+  const { defaultLocale, locales } = await getStoreLocales(db);
+  const code = locale.toLowerCase();
+  if (!locales.includes(code)) {
+    return `Unknown language "${locale}"`;
+  }
+  if (code === defaultLocale) {
+    return "Content in the default language is edited in the form itself";
+  }
+
+  for (const entry of entries) {
+    if (!TRANSLATABLE_FIELDS[entry.entityType].includes(entry.field)) {
+      return `The ${entry.field} of a ${entry.entityType.replace(/_/g, " ")} cannot be translated`;
+    }
+  }
+
+  const [first, ...rest] = entries.map((entry) => {
+    const match = and(
+      eq(contentTranslations.entityType, entry.entityType),
+      eq(contentTranslations.entityId, entry.entityId),
+      eq(contentTranslations.locale, code),
+      eq(contentTranslations.field, entry.field),
+    );
+    if (isBlank(entry.value)) {
+      return db.delete(contentTranslations).where(match);
+    }
+    return db
+      .insert(contentTranslations)
+      .values({
+        id: `tr_${nanoid()}`,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        locale: code,
+        field: entry.field,
+        value: entry.value,
+      })
+      .onConflictDoUpdate({
+        target: [
+          contentTranslations.entityType,
+          contentTranslations.entityId,
+          contentTranslations.locale,
+          contentTranslations.field,
+        ],
+        set: {
+          value: entry.value,
+          updatedAt: sql`(cast(strftime('%s','now') as int))`,
+        },
+      });
+  });
+  await db.batch([first, ...rest]);
+
+  return null;
+}
+
+/**
+ * Remove every translation of the given records, for when they are deleted
+ * for good
+ */
+export async function deleteTranslations(
+  db: Database,
+  entityType: TranslatableEntity,
+  entityIds: string[],
+) {
+  if (entityIds.length === 0) return;
+
+  await db
+    .delete(contentTranslations)
+    .where(
+      and(
+        eq(contentTranslations.entityType, entityType),
+        inArray(contentTranslations.entityId, entityIds),
+      ),
+    );
+}
+
+/**
+ * Remove every translation of the given products and of their additional
+ * info sections. Call it before deleting the products, which takes the
+ * sections with them.
+ */
+export async function deleteProductTranslations(
+  db: Database,
+  productIds: string[],
+) {
+  if (productIds.length === 0) return;
+
+  await db.batch([
+    db
+      .delete(contentTranslations)
+      .where(
+        and(
+          eq(contentTranslations.entityType, TranslatableEntity.PRODUCT),
+          inArray(contentTranslations.entityId, productIds),
+        ),
+      ),
+    db
+      .delete(contentTranslations)
+      .where(
+        and(
+          eq(
+            contentTranslations.entityType,
+            TranslatableEntity.PRODUCT_RICH_CONTENT,
+          ),
+          inArray(
+            contentTranslations.entityId,
+            db
+              .select({ id: productRichContent.id })
+              .from(productRichContent)
+              .where(inArray(productRichContent.productId, productIds)),
+          ),
+        ),
+      ),
+  ]);
+}
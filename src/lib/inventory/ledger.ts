@@ -0,0 +1,174 @@
+import type { Database } from "@/db";
+import {
+  productVariants,
+  stockMovements,
+  type StockMovementReason,
+} from "@/db/schema";
+
+import { and, desc, eq, isNull, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+
+export interface StockMovementInput {
+  variantId: string;
+  delta: number;
+  reason: StockMovementReason;
+  orderId?: string | null;
+  actorId?: string | null;
+  note?: string | null;
+}
+
+/**
+ * Ledger rows for the given stock changes, ready to insert. Zero deltas are
+ * dropped. Use this to add the insert to an existing batch; otherwise call
+ * `recordStockMovements`.
+ */
+export function toStockMovementRows(movements: StockMovementInput[]) {
+  return movements
+    .filter((movement) => movement.delta !== 0)
+    .map((movement) => ({
+      id: `stm_${nanoid()}`,
+      variantId: movement.variantId,
+      delta: movement.delta,
+      reason: movement.reason,
+      orderId: movement.orderId ?? null,
+      actorId: movement.actorId ?? null,
+      note: movement.note ?? null,
+      createdAt: new Date(),
+    }));
+}
+
+/**
+ * Movements for order items going back into stock ("in") or out of it
+ * ("out"). Items without a variant are skipped; an item's own orderId wins
+ * over the one given.
+ */
+export function toOrderItemMovements(
+  items: { variantId: string | null; quantity: number; orderId?: string }[],
+  movement: Omit<StockMovementInput, "variantId" | "delta"> & {
+    direction: "in" | "out";
+  },
+): StockMovementInput[] {
+  const { direction, ...rest } = movement;
+  return items.flatMap((item) =>
+    item.variantId
+      ? [
+          {
+            ...rest,
+            variantId: item.variantId,
+            delta: direction === "in" ? item.quantity : -item.quantity,
+            orderId: item.orderId ?? rest.orderId,
+          },
+        ]
+      : [],
+  );
+}
+
+/**
+ * Record stock changes in the ledger. Call it next to every update of
+ * `productVariants.stock` so the ledger keeps adding up to the stock.
+ * Accepts a transaction as well as the database.
+ */
+export async function recordStockMovements(
+  db: Pick<Database, "insert">,
+  movements: StockMovementInput[],
+) {
+  const rows = toStockMovementRows(movements);
+  if (rows.length > 0) {
+    await db.insert(stockMovements).values(rows);
+  }
+}
+
+/**
+ * Movements of one variant, newest first, each with the stock level it left
+ * behind (worked back from the current stock)
+ */
+export async function getVariantStockHistory(
+  db: Database,
+  variantId: string,
+  limit = 100,
+) {
+  const [variant] = await db
+    .select({ stock: productVariants.stock })
+    .from(productVariants)
+    .where(eq(productVariants.id, variantId));
+
+  if (!variant) {
+    return undefined;
+  }
+
+  const [movements, [totals]] = await Promise.all([
+    db
+      .select()
+      .from(stockMovements)
+      .where(eq(stockMovements.variantId, variantId))
+      .orderBy(desc(stockMovements.createdAt), desc(stockMovements.id))
+      .limit(limit),
+    db
+      .select({
+        ledgerStock: sql<number>`coalesce(sum(${stockMovements.delta}), 0)`,
+      })
+      .from(stockMovements)
+      .where(eq(stockMovements.variantId, variantId)),
+  ]);
+
+  // Walk back from the ledger total so the balances stay consistent even
+  // when the stock has drifted from the ledger
+  let balance = Number(totals?.ledgerStock ?? 0);
+  const history = movements.map((movement) => {
+    const entry = { ...movement, balanceAfter: balance };
+    balance -= movement.delta;
+    return entry;
+  });
+
+  return {
+    stock: variant.stock,
+    ledgerStock: Number(totals?.ledgerStock ?? 0),
+    movements: history,
+  };
+}
+
+/**
+ * Recompute stock from the ledger and return the variants whose stored stock
+ * differs, optionally limited to one product
+ */
+export async function reconcileStock(
+  db: Database,
+  options: { productId?: string } = {},
+) {
+  const ledger = db
+    .select({
+      variantId: stockMovements.variantId,
+      ledgerStock: sql<number>`sum(${stockMovements.delta})`.as("ledger_stock"),
+    })
+    .from(stockMovements)
+    .groupBy(stockMovements.variantId)
+    .as("ledger");
+
+  const rows = await db
+    .select({
+      variantId: productVariants.id,
+      productId: productVariants.productId,
+      sku: productVariants.sku,
+      stock: productVariants.stock,
+      ledgerStock: sql<number>`coalesce(${ledger.ledgerStock}, 0)`,
+    })
+    .from(productVariants)
+    .leftJoin(ledger, eq(ledger.variantId, productVariants.id))
+    .where(
+      and(
+        isNull(productVariants.deletedAt),
+        options.productId
+          ? eq(productVariants.productId, options.productId)
+          : undefined,
+        sql`${productVariants.stock} <> coalesce(${ledger.ledgerStock}, 0)`,
+      ),
+    );
+
+  return rows.map((row) => ({
+    ...row,
+    ledgerStock: Number(row.ledgerStock),
+    difference: row.stock - Number(row.ledgerStock),
+  }));
+}
+
+export type StockMismatch = Awaited<ReturnType<typeof reconcileStock>>[number];
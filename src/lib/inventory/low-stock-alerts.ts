@@ -0,0 +1,106 @@
+import type { Database } from "@/db";
+import { sendLowStockEmail } from "@/lib/email";
+import {
+  findVariantsCrossingLowStock,
+  getLowStockSettings,
+  getStockAlerts,
+  type LowStockSettings,
+  type LowStockVariant,
+  type StockDecrement,
+} from "@/lib/inventory/low-stock";
+import {
+  getAdminBaseUrl,
+  sendLowStockNotification,
+} from "@/lib/notification-utils";
+import { emitStockLow } from "@/lib/webhooks/events";
+import type { WaitUntil } from "@/lib/webhooks/service";
+
+// Most variants listed in one digest email
+const DIGEST_LIMIT = 100;
+
+/**
+ * Email every configured recipient, one at a time so a bad address does not
+ * stop the others
+ */
+async function emailRecipients(
+  lowStock: LowStockSettings,
+  variants: Pick<
+    LowStockVariant,
+    "sku" | "productName" | "stock" | "threshold"
+  >[],
+  digest: boolean,
+  env?: Env,
+) {
+  const inventoryUrl = `${getAdminBaseUrl(env)}/admin/inventory`;
+  let sent = 0;
+  for (const email of lowStock.alertEmails) {
+    try {
+      await sendLowStockEmail(email, variants, inventoryUrl, { digest, env });
+      sent++;
+    } catch (error) {
+      console.error(`Failed to send low stock email to ${email}:`, error);
+    }
+  }
+  return sent;
+}
+
+/**
+ * Fire the product.stock_low webhook, admin push and alert emails for the
+ * variants the given decrements took to or below their threshold. Push and
+ * email go out in the background when a waitUntil is available. Never
+ * throws, so it is safe to run alongside an order's other webhooks.
+ */
+export async function alertLowStock(
+  db: Database,
+  decrements: StockDecrement[],
+  options: { waitUntil?: WaitUntil; env?: Env } = {},
+) {
+  const { waitUntil, env } = options;
+  try {
+    const variants = await findVariantsCrossingLowStock(db, decrements);
+    if (variants.length === 0) return;
+
+    await emitStockLow(db, variants, waitUntil);
+
+    const lowStock = await getLowStockSettings(db);
+    const notify = async () => {
+      if (lowStock.pushAlerts) {
+        await sendLowStockNotification(variants, env);
+      }
+      if (lowStock.emailAlerts) {
+        await emailRecipients(lowStock, variants, false, env);
+      }
+    };
+
+    if (waitUntil) {
+      waitUntil(notify());
+    } else {
+      await notify();
+    }
+  } catch (error) {
+    console.error("Error sending low stock alerts:", error);
+  }
+}
+
+/**
+ * Daily summary of everything out of stock or running low, by push and to
+ * the alert recipients. Returns a summary for the job's run history.
+ */
+export async function sendLowStockDigest(db: Database, env?: Env) {
+  const lowStock = await getLowStockSettings(db);
+  const { variants, counts } = await getStockAlerts(db, {
+    limit: DIGEST_LIMIT,
+  });
+  if (variants.length === 0) {
+    return "No variants are running low";
+  }
+
+  if (lowStock.pushAlerts) {
+    await sendLowStockNotification(variants, env);
+  }
+  const sent = lowStock.emailAlerts
+    ? await emailRecipients(lowStock, variants, true, env)
+    : 0;
+
+  return `${counts.out} out of stock and ${counts.low} low; emailed ${sent} recipients`;
+}
@@ -0,0 +1,242 @@
+import type { Database } from "@/db";
+import { productVariants, products, settings } from "@/db/schema";
+import { nanoid } from "nanoid";
+import { and, asc, eq, inArray, isNull, like, or, sql } from "drizzle-orm";
+
+// A variant runs low when its stock is at or below its own threshold
+// (`productVariants.lowStockThreshold`) or, without one, the store's default.
+// The default and who gets alerted are kept in `settings`.
+
+// Stock level at or below which a variant counts as running low
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+const SETTINGS_CATEGORY = "inventory";
+const SETTINGS_KEY = "low_stock";
+
+export interface LowStockSettings {
+  defaultThreshold: number;
+  pushAlerts: boolean; // FCM push to admin devices
+  emailAlerts: boolean;
+  alertEmails: string[];
+}
+
+const DEFAULT_SETTINGS: LowStockSettings = {
+  defaultThreshold: DEFAULT_LOW_STOCK_THRESHOLD,
+  pushAlerts: true,
+  emailAlerts: false,
+  alertEmails: [],
+};
+
+export type StockAlertStatus = "low" | "out";
+
+export interface StockDecrement {
+  variantId: string;
+  quantity: number;
+}
+
+export async function getLowStockSettings(
+  db: Database,
+): Promise<LowStockSettings> {
+  const row = await db
+    .select({ value: settings.value })
+    .from(settings)
+    .where(
+      and(
+        eq(settings.key, SETTINGS_KEY),
+        eq(settings.category, SETTINGS_CATEGORY),
+      ),
+    )
+    .get();
+  if (!row) return DEFAULT_SETTINGS;
+
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(row.value) };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export async function saveLowStockSettings(
+  db: Database,
+  value: LowStockSettings,
+) {
+  const json = JSON.stringify(value);
+  await db
+    .insert(settings)
+    .values({
+      id: `set_${nanoid(10)}`,
+      key: SETTINGS_KEY,
+      value: json,
+      type: "json",
+      category: SETTINGS_CATEGORY,
+    })
+    .onConflictDoUpdate({
+      target: [settings.key, settings.category],
+      set: { value: json, updatedAt: new Date() },
+    });
+}
+
+/**
+ * Threshold that applies to each variant, given the store's default
+ */
+function effectiveThreshold(defaultThreshold: number) {
+  return sql<number>`coalesce(${productVariants.lowStockThreshold}, ${defaultThreshold})`;
+}
+
+/**
+ * Variants that dropped to or below their threshold because of the given
+ * decrements. Variants that were already low before are left out so an
+ * alert fires once per crossing, not on every sale.
+ */
+export async function findVariantsCrossingLowStock(
+  db: Database,
+  decrements: StockDecrement[],
+) {
+  if (decrements.length === 0) {
+    return [];
+  }
+
+  const soldByVariant = new Map<string, number>();
+  for (const { variantId, quantity } of decrements) {
+    soldByVariant.set(
+      variantId,
+      (soldByVariant.get(variantId) || 0) + quantity,
+    );
+  }
+
+  const { defaultThreshold } = await getLowStockSettings(db);
+  const variants = await db
+    .select({
+      id: productVariants.id,
+      productId: productVariants.productId,
+      sku: productVariants.sku,
+      options: productVariants.options,
+      stock: productVariants.stock,
+      threshold: effectiveThreshold(defaultThreshold),
+    })
+    .from(productVariants)
+    .where(inArray(productVariants.id, [...soldByVariant.keys()]));
+
+  const crossing = variants.filter((variant) => {
+    const sold = soldByVariant.get(variant.id) || 0;
+    return (
+      variant.stock <= variant.threshold &&
+      variant.stock + sold > variant.threshold
+    );
+  });
+
+  if (crossing.length === 0) {
+    return [];
+  }
+
+  const productRows = await db
+    .select({ id: products.id, name: products.name, slug: products.slug })
+    .from(products)
+    .where(
+      inArray(
+        products.id,
+        crossing.map((variant) => variant.productId),
+      ),
+    );
+  const productMap = new Map(productRows.map((p) => [p.id, p]));
+
+  return crossing.map((variant) => ({
+    ...variant,
+    productName: productMap.get(variant.productId)?.name ?? null,
+    productSlug: productMap.get(variant.productId)?.slug ?? null,
+  }));
+}
+
+export type LowStockVariant = Awaited<
+  ReturnType<typeof findVariantsCrossingLowStock>
+>[number];
+
+/**
+ * Variants of products for sale that are out of stock or running low, the
+ * emptiest first, with how many there are of each
+ */
+export async function getStockAlerts(
+  db: Database,
+  options: {
+    status?: StockAlertStatus;
+    search?: string;
+    page?: number;
+    limit?: number;
+  } = {},
+) {
+  const { status, search, page = 1, limit = 20 } = options;
+  const { defaultThreshold } = await getLowStockSettings(db);
+  const threshold = effectiveThreshold(defaultThreshold);
+
+  const atRisk = and(
+    isNull(productVariants.deletedAt),
+    isNull(products.deletedAt),
+    sql`${productVariants.stock} <= ${threshold}`,
+  );
+  const searchCondition = search
+    ? or(
+        like(products.name, `%${search}%`),
+        like(productVariants.sku, `%${search}%`),
+      )
+    : undefined;
+  const statusCondition =
+    status === "out"
+      ? sql`${productVariants.stock} <= 0`
+      : status === "low"
+        ? sql`${productVariants.stock} > 0`
+        : undefined;
+
+  const [variants, [counts]] = await Promise.all([
+    db
+      .select({
+        id: productVariants.id,
+        productId: products.id,
+        productName: products.name,
+        productSlug: products.slug,
+        sku: productVariants.sku,
+        options: productVariants.options,
+        stock: productVariants.stock,
+        lowStockThreshold: productVariants.lowStockThreshold,
+        threshold,
+      })
+      .from(productVariants)
+      .innerJoin(products, eq(products.id, productVariants.productId))
+      .where(and(atRisk, statusCondition, searchCondition))
+      .orderBy(asc(productVariants.stock), asc(products.name))
+      .limit(limit)
+      .offset((page - 1) * limit),
+    db
+      .select({
+        low: sql<number>`count(case when ${productVariants.stock} > 0 then 1 end)`,
+        out: sql<number>`count(case when ${productVariants.stock} <= 0 then 1 end)`,
+      })
+      .from(productVariants)
+      .innerJoin(products, eq(products.id, productVariants.productId))
+      .where(and(atRisk, searchCondition)),
+  ]);
+
+  const low = Number(counts?.low ?? 0);
+  const out = Number(counts?.out ?? 0);
+  return {
+    variants,
+    counts: { low, out },
+    total: status === "out" ? out : status === "low" ? low : low + out,
+    defaultThreshold,
+  };
+}
+
+/**
+ * Set the threshold of the given variants; null goes back to the default
+ */
+export async function setLowStockThreshold(
+  db: Database,
+  variantIds: string[],
+  threshold: number | null,
+) {
+  if (variantIds.length === 0) return 0;
+  const result = await db
+    .update(productVariants)
+    .set({ lowStockThreshold: threshold, updatedAt: sql`unixepoch()` })
+    .where(inArray(productVariants.id, variantIds));
+  return result.rowsAffected;
+}
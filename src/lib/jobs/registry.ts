@@ -0,0 +1,293 @@
+import type { Database } from "@/db";
+import { abandonedCheckouts, deliveryShipments, orders } from "@/db/schema";
+import { DeliveryService } from "@/lib/delivery/service";
+import { ShipmentStatusCode } from "@/lib/delivery/status-mapper";
+import { ShipmentTracker } from "@/lib/delivery/tracking";
+import { reconcileStock } from "@/lib/inventory/ledger";
+import { sendLowStockDigest } from "@/lib/inventory/low-stock-alerts";
+import { manualLogCleanup } from "@/lib/meta/conversions-api";
+import { deactivateStaleFcmTokens } from "@/lib/notification-utils";
+import { ReviewService } from "@/lib/reviews/service";
+import { SearchAnalyticsService } from "@/lib/search/analytics";
+import { WebhookService } from "@/lib/webhooks/service";
+
+import {
+  and,
+  asc,
+  eq,
+  isNotNull,
+  isNull,
+  lt,
+  notInArray,
+  or,
+  sql,
+} from "drizzle-orm";
+
+export interface JobContext {
+  db: Database;
+  env?: Env;
+}
+
+/**
+ * A background job. Jobs are defined in code; whether they run and how often
+ * is stored per job in `scheduled_jobs` and editable from the admin.
+ */
+export interface JobDefinition {
+  id: string;
+  name: string;
+  description: string;
+  defaultIntervalMinutes: number;
+  defaultEnabled: boolean;
+  // Returns a short summary for the run history; throws on failure
+  run: (context: JobContext) => Promise<string>;
+}
+
+// Shipments in these states no longer change at the courier
+const FINAL_SHIPMENT_STATUSES: string[] = [
+  ShipmentStatusCode.DELIVERED,
+  ShipmentStatusCode.CANCELLED,
+  ShipmentStatusCode.RETURNED,
+];
+const SHIPMENT_REFRESH_BATCH = 25;
+const SHIPMENT_REFRESH_CONCURRENCY = 5;
+const SHIPMENT_STALE_MINUTES = 60;
+
+const ABANDONED_CHECKOUT_RETENTION_DAYS = 30;
+
+const WEBHOOK_RETRY_BATCH = 50;
+
+const SEARCH_LOG_RETENTION_DAYS = 180;
+
+// Long enough for a reviewer to finish the form after uploading
+const REVIEW_IMAGE_CLAIM_HOURS = 24;
+
+/**
+ * Poll couriers for shipments that are still moving and have not been
+ * checked recently. Courier webhooks cover most updates; this catches the
+ * ones that were missed.
+ */
+async function refreshShipments({ db }: JobContext) {
+  const staleBefore = new Date(Date.now() - SHIPMENT_STALE_MINUTES * 60 * 1000);
+  const shipments = await db
+    .select({
+      id: deliveryShipments.id,
+      status: deliveryShipments.status,
+    })
+    .from(deliveryShipments)
+    .where(
+      and(
+        isNotNull(deliveryShipments.externalId),
+        notInArray(deliveryShipments.status, FINAL_SHIPMENT_STATUSES),
+        or(
+          isNull(deliveryShipments.lastChecked),
+          lt(deliveryShipments.lastChecked, staleBefore),
+        ),
+      ),
+    )
+    .orderBy(asc(deliveryShipments.lastChecked))
+    .limit(SHIPMENT_REFRESH_BATCH);
+
+  const deliveryService = new DeliveryService();
+  let changed = 0;
+  let failed = 0;
+
+  for (let i = 0; i < shipments.length; i += SHIPMENT_REFRESH_CONCURRENCY) {
+    const batch = shipments.slice(i, i + SHIPMENT_REFRESH_CONCURRENCY);
+
+    await Promise.all(
+      batch.map(async (shipment) => {
+        try {
+          const result = await deliveryService.checkShipmentStatus(shipment.id);
+          if (result.status !== shipment.status) {
+            changed++;
+            await ShipmentTracker.updateOrderStatusFromShipment(
+              shipment.id,
+              result.status,
+              shipment.status,
+            );
+          }
+        } catch (error) {
+          failed++;
+          console.error(
+            `Scheduled refresh of shipment ${shipment.id} failed:`,
+            error,
+          );
+        } finally {
+          // Checked either way, so one failing shipment does not block the queue
+          await db
+            .update(deliveryShipments)
+            .set({ lastChecked: new Date() })
+            .where(eq(deliveryShipments.id, shipment.id));
+        }
+      }),
+    );
+  }
+
+  return `Checked ${shipments.length} shipments: ${changed} changed, ${failed} failed`;
+}
+
+async function cleanupMetaLogs() {
+  const result = await manualLogCleanup();
+  if (!result.success) {
+    throw new Error(result.message);
+  }
+  return result.message;
+}
+
+async function cleanupFcmTokens() {
+  const deactivated = await deactivateStaleFcmTokens();
+  return `Deactivated ${deactivated} stale FCM tokens`;
+}
+
+/**
+ * Remove abandoned checkouts that are too old to follow up on, and those
+ * whose customer has since placed an order.
+ */
+async function cleanupAbandonedCheckouts({ db }: JobContext) {
+  const cutoff = new Date(
+    Date.now() - ABANDONED_CHECKOUT_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+  );
+
+  const expired = await db
+    .delete(abandonedCheckouts)
+    .where(lt(abandonedCheckouts.updatedAt, cutoff));
+
+  const converted = await db
+    .delete(abandonedCheckouts)
+    .where(
+      and(
+        isNotNull(abandonedCheckouts.customerPhone),
+        sql`exists (select 1 from ${orders} where ${orders.customerPhone} = ${abandonedCheckouts.customerPhone} and ${orders.createdAt} >= ${abandonedCheckouts.updatedAt})`,
+      ),
+    );
+
+  return `Removed ${expired.rowsAffected} expired and ${converted.rowsAffected} converted checkouts`;
+}
+
+/**
+ * Compare every variant's stock with the sum of its ledger movements. Fails
+ * when they disagree so the mismatch shows up in the run history.
+ */
+async function checkStockLedger({ db }: JobContext) {
+  const mismatches = await reconcileStock(db);
+  if (mismatches.length > 0) {
+    const examples = mismatches
+      .slice(0, 5)
+      .map((m) => `${m.sku} (stock ${m.stock}, ledger ${m.ledgerStock})`)
+      .join(", ");
+    throw new Error(
+      `${mismatches.length} variants differ from the stock ledger: ${examples}`,
+    );
+  }
+  return "Stock matches the ledger for every variant";
+}
+
+async function lowStockDigest({ db, env }: JobContext) {
+  return sendLowStockDigest(db, env);
+}
+
+async function cleanupSearchLog({ db }: JobContext) {
+  const cutoff = new Date(
+    Date.now() - SEARCH_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+  );
+  const removed = await new SearchAnalyticsService(db).deleteOlderThan(cutoff);
+  return `Removed ${removed} logged searches`;
+}
+
+async function cleanupReviewImages({ db }: JobContext) {
+  const cutoff = new Date(
+    Date.now() - REVIEW_IMAGE_CLAIM_HOURS * 60 * 60 * 1000,
+  );
+  const removed = await new ReviewService(db).deleteUnusedImages(cutoff);
+  return `Removed ${removed} review photos no review used`;
+}
+
+async function retryWebhooks({ db }: JobContext) {
+  const processed = await new WebhookService(db).processDueDeliveries(
+    WEBHOOK_RETRY_BATCH,
+  );
+  return `Processed ${processed} due webhook deliveries`;
+}
+
+export const JOBS: JobDefinition[] = [
+  {
+    id: "webhook-retry",
+    name: "Webhook retries",
+    description: "Sends webhook deliveries whose retry is due.",
+    defaultIntervalMinutes: 5,
+    defaultEnabled: true,
+    run: retryWebhooks,
+  },
+  {
+    id: "shipment-refresh",
+    name: "Shipment status refresh",
+    description:
+      "Polls couriers for shipments in progress that have not been checked in the last hour.",
+    defaultIntervalMinutes: 60,
+    defaultEnabled: true,
+    run: refreshShipments,
+  },
+  {
+    id: "meta-log-cleanup",
+    name: "Meta CAPI log cleanup",
+    description:
+      "Deletes Conversions API logs older than the retention period.",
+    defaultIntervalMinutes: 720,
+    defaultEnabled: true,
+    run: cleanupMetaLogs,
+  },
+  {
+    id: "fcm-token-cleanup",
+    name: "FCM token cleanup",
+    description: "Deactivates admin push tokens unused for 30 days.",
+    defaultIntervalMinutes: 1440,
+    defaultEnabled: true,
+    run: cleanupFcmTokens,
+  },
+  {
+    id: "abandoned-checkout-cleanup",
+    name: "Abandoned checkout housekeeping",
+    description: `Removes abandoned checkouts older than ${ABANDONED_CHECKOUT_RETENTION_DAYS} days or whose customer has since ordered.`,
+    defaultIntervalMinutes: 1440,
+    defaultEnabled: true,
+    run: cleanupAbandonedCheckouts,
+  },
+  {
+    id: "stock-reconciliation",
+    name: "Stock ledger check",
+    description:
+      "Recomputes stock from the inventory ledger and reports variants that differ.",
+    defaultIntervalMinutes: 1440,
+    defaultEnabled: true,
+    run: checkStockLedger,
+  },
+  {
+    id: "search-log-cleanup",
+    name: "Search log cleanup",
+    description: `Deletes logged storefront searches older than ${SEARCH_LOG_RETENTION_DAYS} days.`,
+    defaultIntervalMinutes: 1440,
+    defaultEnabled: true,
+    run: cleanupSearchLog,
+  },
+  {
+    id: "low-stock-digest",
+    name: "Low stock digest",
+    description:
+      "Sends a summary of out-of-stock and low variants by push and to the inventory alert emails.",
+    defaultIntervalMinutes: 1440,
+    defaultEnabled: true,
+    run: lowStockDigest,
+  },
+  {
+    id: "review-image-cleanup",
+    name: "Review photo cleanup",
+    description: `Deletes review photos that no review used within ${REVIEW_IMAGE_CLAIM_HOURS} hours of uploading.`,
+    defaultIntervalMinutes: 360,
+    defaultEnabled: true,
+    run: cleanupReviewImages,
+  },
+];
+
+export function getJobDefinition(id: string) {
+  return JOBS.find((job) => job.id === id);
+}
@@ -0,0 +1,237 @@
+import type { Database } from "@/db";
+import {
+  scheduledJobRuns,
+  scheduledJobs,
+  ScheduledJobRunStatus,
+  type ScheduledJob,
+  type ScheduledJobTrigger,
+} from "@/db/schema";
+import { getJobDefinition, JOBS, type JobDefinition } from "./registry";
+
+import { and, desc, eq, isNull, lt, or } from "drizzle-orm";
+import { nanoid } from "nanoid";
+
+// A run that has not finished by then is assumed dead and its lock expires
+const LOCK_MINUTES = 15;
+const MAX_MESSAGE_LENGTH = 1000;
+// Cron ticks land a little early or late; a job due within this window of
+// the tick runs now instead of waiting for the next one
+const SCHEDULE_TOLERANCE_MS = 60_000;
+
+export interface JobRunResult {
+  jobId: string;
+  status: ScheduledJobRunStatus;
+  message: string;
+  durationMs: number;
+}
+
+/**
+ * Runs registered jobs and keeps their settings and run history
+ */
+export class JobRunner {
+  constructor(
+    private db: Database,
+    private env?: Env,
+  ) {}
+
+  /**
+   * Get every registered job merged with its stored settings and last outcome
+   */
+  async getJobs() {
+    const rows = await this.ensureJobRows();
+
+    return JOBS.map((job) => {
+      const row = rows.get(job.id)!;
+      return {
+        id: job.id,
+        name: job.name,
+        description: job.description,
+        defaultIntervalMinutes: job.defaultIntervalMinutes,
+        isEnabled: row.isEnabled,
+        intervalMinutes: row.intervalMinutes,
+        lastRunAt: row.lastRunAt,
+        lastStatus: row.lastStatus,
+        lastMessage: row.lastMessage,
+        lastDurationMs: row.lastDurationMs,
+        isRunning: !!row.lockedUntil && row.lockedUntil > new Date(),
+        nextRunAt: row.isEnabled ? getNextRunAt(row) : null,
+      };
+    });
+  }
+
+  /**
+   * Update whether a job runs on schedule and how often
+   */
+  async updateSettings(
+    jobId: string,
+    settings: { isEnabled?: boolean; intervalMinutes?: number },
+  ) {
+    if (!getJobDefinition(jobId)) {
+      return undefined;
+    }
+    await this.ensureJobRows();
+
+    await this.db
+      .update(scheduledJobs)
+      .set({ ...settings, updatedAt: new Date() })
+      .where(eq(scheduledJobs.id, jobId));
+
+    return (await this.getJobs()).find((job) => job.id === jobId);
+  }
+
+  /**
+   * Get recent runs, optionally for one job
+   */
+  async getRuns(jobId?: string, limit = 50) {
+    return this.db
+      .select()
+      .from(scheduledJobRuns)
+      .where(jobId ? eq(scheduledJobRuns.jobId, jobId) : undefined)
+      .orderBy(desc(scheduledJobRuns.startedAt))
+      .limit(limit);
+  }
+
+  /**
+   * Run one job now, regardless of its schedule. Returns null when the job is
+   * unknown or another run still holds its lock.
+   */
+  async runJob(
+    jobId: string,
+    trigger: ScheduledJobTrigger,
+  ): Promise<JobRunResult | null> {
+    const job = getJobDefinition(jobId);
+    if (!job) {
+      return null;
+    }
+    await this.ensureJobRows();
+
+    const startedAt = new Date();
+
+    // Claim the job so an overlapping cron or manual run skips it
+    const [claimed] = await this.db
+      .update(scheduledJobs)
+      .set({
+        lockedUntil: new Date(startedAt.getTime() + LOCK_MINUTES * 60 * 1000),
+      })
+      .where(
+        and(
+          eq(scheduledJobs.id, jobId),
+          or(
+            isNull(scheduledJobs.lockedUntil),
+            lt(scheduledJobs.lockedUntil, startedAt),
+          ),
+        ),
+      )
+      .returning({ id: scheduledJobs.id });
+
+    if (!claimed) {
+      return null;
+    }
+
+    const runId = `jobrun_${nanoid()}`;
+    await this.db.insert(scheduledJobRuns).values({
+      id: runId,
+      jobId,
+      trigger,
+      status: ScheduledJobRunStatus.RUNNING,
+      startedAt,
+    });
+
+    let status: ScheduledJobRunStatus = ScheduledJobRunStatus.SUCCESS;
+    let message: string;
+    try {
+      message = await job.run({ db: this.db, env: this.env });
+    } catch (error) {
+      status = ScheduledJobRunStatus.FAILED;
+      message = error instanceof Error ? error.message : String(error);
+      console.error(`Scheduled job ${jobId} failed:`, error);
+    }
+
+    const finishedAt = new Date();
+    const durationMs = finishedAt.getTime() - startedAt.getTime();
+    message = message.slice(0, MAX_MESSAGE_LENGTH);
+
+    await this.db
+      .update(scheduledJobRuns)
+      .set({ status, message, finishedAt, durationMs })
+      .where(eq(scheduledJobRuns.id, runId));
+
+    await this.db
+      .update(scheduledJobs)
+      .set({
+        lastRunAt: startedAt,
+        lastStatus: status,
+        lastMessage: message,
+        lastDurationMs: durationMs,
+        lockedUntil: null,
+        updatedAt: finishedAt,
+      })
+      .where(eq(scheduledJobs.id, jobId));
+
+    return { jobId, status, message, durationMs };
+  }
+
+  /**
+   * Run every enabled job whose interval has passed, one after another
+   */
+  async runDueJobs(trigger: ScheduledJobTrigger) {
+    const rows = await this.ensureJobRows();
+    const dueBefore = new Date(Date.now() + SCHEDULE_TOLERANCE_MS);
+    const results: JobRunResult[] = [];
+
+    for (const job of JOBS) {
+      const row = rows.get(job.id)!;
+      if (!row.isEnabled || getNextRunAt(row) > dueBefore) {
+        continue;
+      }
+
+      const result = await this.runJob(job.id, trigger);
+      if (result) {
+        results.push(result);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Load the settings rows, creating defaults for newly registered jobs
+   */
+  private async ensureJobRows() {
+    let rows = await this.db.select().from(scheduledJobs);
+    const missing = JOBS.filter(
+      (job) => !rows.some((row) => row.id === job.id),
+    );
+
+    if (missing.length > 0) {
+      await this.db
+        .insert(scheduledJobs)
+        .values(missing.map(toDefaultRow))
+        .onConflictDoNothing();
+      rows = await this.db.select().from(scheduledJobs);
+    }
+
+    return new Map(rows.map((row) => [row.id, row]));
+  }
+}
+
+function toDefaultRow(job: JobDefinition) {
+  const now = new Date();
+  return {
+    id: job.id,
+    isEnabled: job.defaultEnabled,
+    intervalMinutes: job.defaultIntervalMinutes,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function getNextRunAt(row: ScheduledJob) {
+  return row.lastRunAt
+    ? new Date(row.lastRunAt.getTime() + row.intervalMinutes * 60 * 1000)
+    : new Date(0);
+}
+
+export type ScheduledJobSummary = Awaited<
+  ReturnType<JobRunner["getJobs"]>
+>[number];
@@ -37,4 +37,6 @@ export const layoutCache = {
 export const CACHE_KEYS = {
   FIREBASE_CONFIG: "layout:firebase_config",
   STOREFRONT_URL: "layout:storefront_url",
+  STORE_LOCALES: "layout:store_locales",
+  STORE_CURRENCIES: "layout:store_currencies",
 } as const;
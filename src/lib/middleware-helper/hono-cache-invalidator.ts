@@ -6,6 +6,7 @@ const WRITE_METHODS = ["POST", "PUT", "DELETE", "PATCH"];
 
 const ASTRO_ADMIN_WRITE_PATHS_FOR_CACHE_CLEAR = [
   "/api/products",
+  "/api/reviews",
   "/api/categories",
   "/api/collections",
   "/api/pages",
@@ -24,7 +25,9 @@ const ASTRO_ADMIN_WRITE_PATHS_FOR_CACHE_CLEAR = [
   "/api/admin/settings/shipping-methods",
   "/api/settings/seo",
   "/api/admin/settings/checkout-languages",
+  "/api/admin/settings/currencies",
   "/api/settings/meta-conversion",
+  "/api/settings/search-synonyms",
 ];
 
 /**
@@ -8,6 +8,118 @@ interface OrderNotificationData {
   customerName: string;
 }
 
+interface AdminNotification {
+  title: string;
+  body: string;
+  link: string;
+  data?: Record<string, string>;
+}
+
+/**
+ * Base URL of the admin, for links in notifications
+ */
+export function getAdminBaseUrl(env?: Env, requestUrl?: string) {
+  return (
+    env?.PUBLIC_API_BASE_URL ||
+    process.env.PUBLIC_API_BASE_URL ||
+    (requestUrl ? new URL(requestUrl).origin : "")
+  );
+}
+
+/**
+ * Sends a push notification to all active admin devices, deactivating the
+ * tokens FCM reports as no longer registered. Throws on failure.
+ */
+async function sendAdminNotification(
+  notification: AdminNotification,
+  env?: Env,
+) {
+  let serviceAccountJson: string | undefined;
+  try {
+    const result = await db
+      .select({ value: settings.value })
+      .from(settings)
+      .where(
+        and(
+          eq(settings.key, "service_account"),
+          eq(settings.category, "firebase"),
+        ),
+      )
+      .get();
+    if (result && result.value) {
+      serviceAccountJson = result.value;
+    }
+  } catch (e) {
+    console.warn(
+      "Failed to fetch custom Firebase credentials from DB, falling back to env:",
+      e,
+    );
+  }
+
+  const messaging = getFirebaseAdminMessaging(env, serviceAccountJson);
+
+  // Get all active admin tokens
+  const tokensSnapshot = await db
+    .select({ token: adminFcmTokens.token })
+    .from(adminFcmTokens)
+    .where(eq(adminFcmTokens.isActive, true));
+
+  if (tokensSnapshot.length === 0) {
+    return;
+  }
+
+  const tokens = tokensSnapshot.map((t) => t.token);
+
+  const messagePayload = {
+    notification: {
+      title: notification.title,
+      body: notification.body,
+    },
+    webpush: {
+      fcmOptions: {
+        link: notification.link,
+      },
+    },
+    data: {
+      ...notification.data,
+      link: notification.link,
+    },
+    tokens: tokens, // Multicast to all tokens
+  };
+
+  const response = await messaging.sendEachForMulticast(messagePayload);
+
+  // Handle invalid tokens to keep the list clean
+  if (response.failureCount > 0) {
+    const invalidTokens: string[] = [];
+    response.responses.forEach((resp, index) => {
+      if (resp.error) {
+        console.error(`FCM send failed for token #${index}:`, resp.error);
+        if (
+          resp.error.code === "messaging/registration-token-not-registered" ||
+          resp.error.code === "messaging/invalid-registration-token"
+        ) {
+          const failedToken = tokens[index];
+          if (failedToken) {
+            invalidTokens.push(failedToken);
+          }
+        }
+      }
+    });
+
+    if (invalidTokens.length > 0) {
+      console.log(`Deactivating ${invalidTokens.length} invalid FCM tokens.`);
+      await db
+        .update(adminFcmTokens)
+        .set({
+          isActive: false,
+          updatedAt: sql`(cast(strftime('%s','now') as int))`,
+        })
+        .where(sql`${adminFcmTokens.token} IN ${invalidTokens}`);
+    }
+  }
+}
+
 /**
  * Sends a push notification to all active admin devices about a new order.
  * This function is designed to be run in the background (using ctx.waitUntil)
@@ -19,99 +131,99 @@ export async function sendOrderNotification(
   requestUrl: string,
 ) {
   try {
-    let serviceAccountJson: string | undefined;
-    try {
-      const result = await db
-        .select({ value: settings.value })
-        .from(settings)
-        .where(
-          and(
-            eq(settings.key, "service_account"),
-            eq(settings.category, "firebase"),
-          ),
-        )
-        .get();
-      if (result && result.value) {
-        serviceAccountJson = result.value;
-      }
-    } catch (e) {
-      console.warn(
-        "Failed to fetch custom Firebase credentials from DB, falling back to env:",
-        e,
-      );
-    }
+    const orderViewLink = `${getAdminBaseUrl(env, requestUrl)}/admin/orders/${order.id}`;
 
-    const messaging = getFirebaseAdminMessaging(env, serviceAccountJson);
-
-    // Get all active admin tokens
-    const tokensSnapshot = await db
-      .select({ token: adminFcmTokens.token })
-      .from(adminFcmTokens)
-      .where(eq(adminFcmTokens.isActive, true));
-
-    if (tokensSnapshot.length === 0) {
-      return;
+    if (process.env.NODE_ENV !== "production") {
+      console.log("Sending FCM background notification for order:", order.id);
     }
 
-    const tokens = tokensSnapshot.map((t) => t.token);
-    const baseUrl = env.PUBLIC_API_BASE_URL || new URL(requestUrl).origin;
-    const orderViewLink = `${baseUrl}/admin/orders/${order.id}`;
-
-    const messagePayload = {
-      notification: {
+    await sendAdminNotification(
+      {
         title: "New Order Created!",
         body: `Order ${order.id} from ${order.customerName}. Click to view.`,
-      },
-      webpush: {
-        fcmOptions: {
-          link: orderViewLink,
-        },
-      },
-      data: {
-        orderId: order.id,
-        customerName: order.customerName || "Unknown Customer",
         link: orderViewLink,
+        data: {
+          orderId: order.id,
+          customerName: order.customerName || "Unknown Customer",
+        },
       },
-      tokens: tokens, // Multicast to all tokens
-    };
-
-    if (process.env.NODE_ENV !== "production") {
-      console.log("Sending FCM background notification for order:", order.id);
-    }
-
-    const response = await messaging.sendEachForMulticast(messagePayload);
-
-    // Handle invalid tokens to keep the list clean
-    if (response.failureCount > 0) {
-      const invalidTokens: string[] = [];
-      response.responses.forEach((resp, index) => {
-        if (resp.error) {
-          console.error(`FCM send failed for token #${index}:`, resp.error);
-          if (
-            resp.error.code === "messaging/registration-token-not-registered" ||
-            resp.error.code === "messaging/invalid-registration-token"
-          ) {
-            const failedToken = tokens[index];
-            if (failedToken) {
-              invalidTokens.push(failedToken);
-            }
-          }
-        }
-      });
-
-      if (invalidTokens.length > 0) {
-        console.log(`Deactivating ${invalidTokens.length} invalid FCM tokens.`);
-        await db
-          .update(adminFcmTokens)
-          .set({
-            isActive: false,
-            updatedAt: sql`(cast(strftime('%s','now') as int))`,
-          })
-          .where(sql`${adminFcmTokens.token} IN ${invalidTokens}`);
-      }
-    }
+      env,
+    );
   } catch (error) {
     // Log but don't crash
     console.error("Error in background order notification:", error);
   }
 }
+
+/**
+ * Sends a push notification to all active admin devices about variants
+ * running low on stock, linking to the inventory dashboard. Catches its own
+ * errors like `sendOrderNotification`.
+ */
+export async function sendLowStockNotification(
+  variants: { sku: string; productName: string | null; stock: number }[],
+  env?: Env,
+) {
+  if (variants.length === 0) return;
+
+  try {
+    const [first] = variants;
+    const body =
+      variants.length === 1
+        ? `${first.productName ?? first.sku} (${first.sku}) is down to ${first.stock} in stock.`
+        : `${variants.length} variants are running low, including ${first.productName ?? first.sku} (${first.sku}).`;
+
+    await sendAdminNotification(
+      {
+        title: "Low Stock Alert",
+        body,
+        link: `${getAdminBaseUrl(env)}/admin/inventory`,
+        data: { variantCount: String(variants.length) },
+      },
+      env,
+    );
+  } catch (error) {
+    console.error("Error in background low stock notification:", error);
+  }
+}
+
+// Tokens not used for this long are treated as abandoned devices
+const FCM_TOKEN_STALE_DAYS = 30;
+
+/**
+ * Deactivate the given invalid tokens plus every token that has not been
+ * used within FCM_TOKEN_STALE_DAYS. Returns how many tokens were deactivated.
+ */
+export async function deactivateStaleFcmTokens(invalidTokens: string[] = []) {
+  let deactivated = 0;
+
+  // Mark invalid tokens as inactive instead of deleting them
+  if (invalidTokens.length > 0) {
+    const result = await db
+      .update(adminFcmTokens)
+      .set({
+        isActive: false,
+        updatedAt: sql`(cast(strftime('%s','now') as int))`,
+      })
+      .where(sql`${adminFcmTokens.token} IN ${invalidTokens}`);
+    deactivated += result.rowsAffected;
+  }
+
+  const cutoff =
+    Math.floor(Date.now() / 1000) - FCM_TOKEN_STALE_DAYS * 24 * 60 * 60;
+  const result = await db
+    .update(adminFcmTokens)
+    .set({
+      isActive: false,
+      updatedAt: sql`(cast(strftime('%s','now') as int))`,
+    })
+    .where(
+      and(
+        eq(adminFcmTokens.isActive, true),
+        sql`(${adminFcmTokens.lastUsed} < ${cutoff} OR ${adminFcmTokens.lastUsed} IS NULL)`,
+      ),
+    );
+  deactivated += result.rowsAffected;
+
+  return deactivated;
+}
@@ -0,0 +1,142 @@
+import type { Database } from "@/db";
+import { orderItems, type BundleComponent } from "@/db/schema";
+import { ReturnService } from "@/lib/returns/service";
+
+import { eq, inArray, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+
+// Editing an order updates its items in place rather than recreating them,
+// so returns keep pointing at the items they were opened for.
+
+interface ExistingOrderItem {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+}
+
+interface EditedOrderItem {
+  id?: string;
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  price: number;
+  bundleComponents?: BundleComponent[] | null;
+}
+
+/**
+ * Pair each edited item with the existing item it replaces: the one with
+ * its ID when given, else the first one of the same product and variant.
+ * Existing items left without a pair were removed.
+ */
+export function matchOrderItems<
+  T extends ExistingOrderItem,
+  U extends EditedOrderItem,
+>(existing: T[], items: U[]) {
+  const unmatched = [...existing];
+  const take = (predicate: (candidate: T) => boolean) => {
+    const index = unmatched.findIndex(predicate);
+    return index >= 0 ? unmatched.splice(index, 1)[0] : undefined;
+  };
+  const isSameProduct = (candidate: T, item: U) =>
+    candidate.productId === item.productId &&
+    candidate.variantId === item.variantId;
+
+  // Items sent with their ID claim it first, so a product match of
+  // another item cannot take it
+  const byId = items.map((item) =>
+    item.id
+      ? take(
+          (candidate) =>
+            candidate.id === item.id && isSameProduct(candidate, item),
+        )
+      : undefined,
+  );
+  const matched = items.map((item, index) => ({
+    item,
+    previous:
+      byId[index] ?? take((candidate) => isSameProduct(candidate, item)),
+  }));
+
+  return { matched, removed: unmatched };
+}
+
+/**
+ * Refuse edits that remove an item under a return request, or lower its
+ * quantity below what is being returned. Returns an error message or null.
+ */
+export async function validateOrderItemEdit(
+  db: Database,
+  orderId: string,
+  existing: ExistingOrderItem[],
+  items: EditedOrderItem[],
+): Promise<string | null> {
+  const returnable = await new ReturnService(db).getReturnableQuantities(
+    orderId,
+  );
+  const underReturn = (item: ExistingOrderItem) =>
+    item.quantity - (returnable.get(item.id) ?? item.quantity);
+
+  const { matched, removed } = matchOrderItems(existing, items);
+  for (const item of removed) {
+    if (underReturn(item) > 0) {
+      return `Order item ${item.id} has a return and cannot be removed`;
+    }
+  }
+  for (const { item, previous } of matched) {
+    if (previous && item.quantity < underReturn(previous)) {
+      return `Order item ${previous.id} has ${underReturn(previous)} under return; its quantity cannot go below that`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Save the edited items of an order: matched items are updated, new ones
+ * inserted and removed ones deleted
+ */
+export async function saveOrderItems(
+  db: Database,
+  orderId: string,
+  existing: ExistingOrderItem[],
+  items: EditedOrderItem[],
+) {
+  const { matched, removed } = matchOrderItems(existing, items);
+
+  if (removed.length > 0) {
+    await db.delete(orderItems).where(
+      inArray(
+        orderItems.id,
+        removed.map((item) => item.id),
+      ),
+    );
+  }
+
+  for (const { item, previous } of matched.filter(({ previous }) => previous)) {
+    await db
+      .update(orderItems)
+      .set({
+        quantity: item.quantity,
+        price: item.price,
+        bundleComponents: item.bundleComponents ?? null,
+      })
+      .where(eq(orderItems.id, previous!.id));
+  }
+
+  const added = matched.filter(({ previous }) => !previous);
+  if (added.length > 0) {
+    await db.insert(orderItems).values(
+      added.map(({ item }) => ({
+        id: "item_" + nanoid(),
+        orderId,
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        price: item.price,
+        bundleComponents: item.bundleComponents ?? null,
+        createdAt: sql`unixepoch()`,
+      })),
+    );
+  }
+}
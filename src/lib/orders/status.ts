@@ -0,0 +1,560 @@
+import type { Database } from "@/db";
+import {
+  orderItems,
+  orders,
+  productVariants,
+  stockMovements,
+  OrderStatus,
+  StockMovementReason,
+  type BundleComponent,
+} from "@/db/schema";
+import { toStockItems } from "@/lib/catalog/bundles";
+import { toStockMovementRows } from "@/lib/inventory/ledger";
+import type { StockDecrement } from "@/lib/inventory/low-stock";
+import { alertLowStock } from "@/lib/inventory/low-stock-alerts";
+import { ReturnService } from "@/lib/returns/service";
+import { emitOrderStatusChanged } from "@/lib/webhooks/events";
+import type { WaitUntil } from "@/lib/webhooks/service";
+import {
+  canTransitionOrderStatus,
+  getAllowedOrderStatuses,
+  holdsStock,
+  OrderStatusErrorCode,
+} from "./transitions";
+
+import { and, eq, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+
+export interface OrderStatusResult<T = undefined> {
+  success: boolean;
+  message: string;
+  code?: OrderStatusErrorCode;
+  // Set when a transition is refused: where the order may go instead
+  allowedStatuses?: readonly OrderStatus[];
+  data?: T;
+}
+
+export interface OrderStatusChange {
+  orderId: string;
+  previousStatus: string;
+  status: string;
+}
+
+export interface OrderStockOptions {
+  actorId?: string | null;
+  waitUntil?: WaitUntil;
+}
+
+type StockItem = {
+  variantId: string | null;
+  quantity: number;
+  bundleComponents?: BundleComponent[] | null;
+};
+
+/**
+ * Net stock change per variant when an order goes from one status and set
+ * of items to another: what the old order held goes back, what the new one
+ * holds comes out. Bundles count as their components. Positive means stock
+ * is released.
+ */
+export function getOrderStockChanges(
+  previous: { status: string; items: StockItem[] },
+  next: { status: string; items: StockItem[] },
+): Map<string, number> {
+  const changes = new Map<string, number>();
+  const add = (items: StockItem[], sign: 1 | -1) => {
+    for (const item of toStockItems(items)) {
+      changes.set(
+        item.variantId,
+        (changes.get(item.variantId) || 0) + sign * item.quantity,
+      );
+    }
+  };
+
+  if (holdsStock(previous.status)) add(previous.items, 1);
+  if (holdsStock(next.status)) add(next.items, -1);
+
+  for (const [variantId, change] of changes) {
+    if (change === 0) changes.delete(variantId);
+  }
+  return changes;
+}
+
+/**
+ * Order status changes with their stock effects. Every status change, soft
+ * delete and restore goes through here so an order's stock is taken and
+ * given back exactly once.
+ */
+export class OrderStatusService {
+  constructor(private db: Database) {}
+
+  /**
+   * Move an order to a new status. Cancelling or returning gives its stock
+   * back; reopening a cancelled order takes it again, and is refused when
+   * the stock is no longer there.
+   */
+  async changeStatus(
+    orderId: string,
+    status: string,
+    options: OrderStockOptions = {},
+  ): Promise<OrderStatusResult<OrderStatusChange>> {
+    const [order] = await this.db
+      .select({ id: orders.id, status: orders.status })
+      .from(orders)
+      .where(and(eq(orders.id, orderId), isNull(orders.deletedAt)));
+
+    if (!order) {
+      return {
+        success: false,
+        message: `Order with ID ${orderId} not found`,
+        code: OrderStatusErrorCode.NOT_FOUND,
+      };
+    }
+
+    if (order.status === status) {
+      return {
+        success: true,
+        message: "Order status unchanged",
+        data: { orderId, previousStatus: order.status, status },
+      };
+    }
+
+    const transition = this.checkTransition(order.status, status);
+    if (!transition.success) {
+      return transition;
+    }
+
+    const items = await this.getItems(orderId);
+    const releasedItems = await this.getReleasedItems(orderId, status);
+    const changes = getOrderStockChanges(
+      { status: order.status, items: releasedItems },
+      { status, items },
+    );
+
+    const stockCheck = await this.checkStock(changes);
+    if (!stockCheck.success) {
+      return stockCheck;
+    }
+
+    // Only the request that actually moves the order applies the stock change
+    const [updated] = await this.db
+      .update(orders)
+      .set({ status, updatedAt: sql`unixepoch()` })
+      .where(and(eq(orders.id, orderId), eq(orders.status, order.status)))
+      .returning({ id: orders.id });
+
+    if (!updated) {
+      return {
+        success: false,
+        message: "Order status was changed by another request",
+        code: OrderStatusErrorCode.INVALID_TRANSITION,
+      };
+    }
+
+    const applied = await this.applyStockChanges(changes, {
+      orderId,
+      actorId: options.actorId,
+      note: `Status changed from ${order.status} to ${status}`,
+      releaseReason:
+        status === OrderStatus.RETURNED
+          ? StockMovementReason.RETURN
+          : StockMovementReason.CANCEL,
+    });
+    if (!applied.success) {
+      // The stock went between the check and the write
+      await this.db
+        .update(orders)
+        .set({ status: order.status, updatedAt: sql`unixepoch()` })
+        .where(and(eq(orders.id, orderId), eq(orders.status, status)));
+      return {
+        success: false,
+        message: applied.message,
+        code: applied.code,
+      };
+    }
+
+    await Promise.all([
+      emitOrderStatusChanged(
+        this.db,
+        { orderId, previousStatus: order.status, status },
+        options.waitUntil,
+      ),
+      alertLowStock(this.db, applied.data!, {
+        waitUntil: options.waitUntil,
+      }),
+    ]);
+
+    return {
+      success: true,
+      message: "Order status updated successfully",
+      data: { orderId, previousStatus: order.status, status },
+    };
+  }
+
+  /**
+   * Refuse moves the status rules do not allow
+   */
+  checkTransition(from: string, to: string): OrderStatusResult<never> {
+    if (canTransitionOrderStatus(from, to)) {
+      return { success: true, message: "Transition allowed" };
+    }
+
+    const allowedStatuses = getAllowedOrderStatuses(from);
+    return {
+      success: false,
+      message:
+        allowedStatuses.length > 0
+          ? `Cannot change order status from ${from} to ${to}. Allowed: ${allowedStatuses.join(", ")}`
+          : `Cannot change order status from ${from} to ${to}`,
+      code: OrderStatusErrorCode.INVALID_TRANSITION,
+      allowedStatuses,
+    };
+  }
+
+  /**
+   * Check that every decrement in a set of stock changes is covered by the
+   * variant's stock, before anything is written
+   */
+  async checkStock(
+    changes: Map<string, number>,
+  ): Promise<OrderStatusResult<never>> {
+    const needed = [...changes].filter(([, change]) => change < 0);
+    if (needed.length === 0) {
+      return { success: true, message: "Stock available" };
+    }
+
+    const variants = await this.db
+      .select({
+        id: productVariants.id,
+        sku: productVariants.sku,
+        stock: productVariants.stock,
+      })
+      .from(productVariants)
+      .where(
+        inArray(
+          productVariants.id,
+          needed.map(([variantId]) => variantId),
+        ),
+      );
+    const variantMap = new Map(variants.map((v) => [v.id, v]));
+
+    for (const [variantId, change] of needed) {
+      const variant = variantMap.get(variantId);
+      // Variants deleted since the order was placed are not tracked anymore
+      if (variant && variant.stock < -change) {
+        return {
+          success: false,
+          message: `Insufficient stock for ${variant.sku}. Available: ${variant.stock}, Requested: ${-change}`,
+          code: OrderStatusErrorCode.INSUFFICIENT_STOCK,
+        };
+      }
+    }
+
+    return { success: true, message: "Stock available" };
+  }
+
+  /**
+   * Write net stock changes and their ledger entries in one batch.
+   * Decrements only go through while the stock covers them; when one does
+   * not, everything is rolled back and the result is an insufficient stock
+   * error. On success the data holds the decrements, for low-stock alerts.
+   */
+  async applyStockChanges(
+    changes: Map<string, number>,
+    movement: {
+      orderId?: string;
+      actorId?: string | null;
+      note: string;
+      // Ledger reason for stock coming back; defaults to a cancellation
+      releaseReason?: StockMovementReason;
+    },
+  ): Promise<OrderStatusResult<StockDecrement[]>> {
+    const entries = [...changes];
+    const decrements = entries
+      .filter(([, change]) => change < 0)
+      .map(([variantId, change]) => ({ variantId, quantity: -change }));
+    if (entries.length === 0) {
+      return { success: true, message: "Stock updated", data: decrements };
+    }
+
+    const updates = entries.map(([variantId, change]) =>
+      this.db
+        .update(productVariants)
+        .set({
+          stock: sql`${productVariants.stock} + ${change}`,
+          updatedAt: sql`unixepoch()`,
+        })
+        .where(
+          and(
+            eq(productVariants.id, variantId),
+            change < 0
+              ? sql`${productVariants.stock} >= ${-change}`
+              : undefined,
+          ),
+        ),
+    );
+    const movementRows = toStockMovementRows(
+      entries.map(([variantId, change]) => ({
+        variantId,
+        delta: change,
+        reason:
+          change < 0
+            ? StockMovementReason.SALE
+            : (movement.releaseReason ?? StockMovementReason.CANCEL),
+        orderId: movement.orderId,
+        actorId: movement.actorId,
+        note: movement.note,
+      })),
+    );
+
+    const [first, ...rest] = updates;
+    const results = await this.db.batch([
+      first,
+      ...rest,
+      this.db.insert(stockMovements).values(movementRows),
+    ]);
+
+    const failed = entries.filter(
+      ([, change], index) => change < 0 && results[index].rowsAffected === 0,
+    );
+    if (failed.length === 0) {
+      return { success: true, message: "Stock updated", data: decrements };
+    }
+
+    // Undo the changes that went through along with their ledger rows
+    const applied = entries.filter(
+      (_, index) => results[index].rowsAffected > 0,
+    );
+    await this.db.batch([
+      this.db.delete(stockMovements).where(
+        inArray(
+          stockMovements.id,
+          movementRows.map((row) => row.id),
+        ),
+      ),
+      ...applied.map(([variantId, change]) =>
+        this.db
+          .update(productVariants)
+          .set({
+            stock: sql`${productVariants.stock} - ${change}`,
+            updatedAt: sql`unixepoch()`,
+          })
+          .where(eq(productVariants.id, variantId)),
+      ),
+    ]);
+
+    const [variantId, change] = failed[0];
+    const [variant] = await this.db
+      .select({ sku: productVariants.sku, stock: productVariants.stock })
+      .from(productVariants)
+      .where(eq(productVariants.id, variantId));
+    return {
+      success: false,
+      message: variant
+        ? `Insufficient stock for ${variant.sku}. Available: ${variant.stock}, Requested: ${-change}`
+        : `Variant ${variantId} no longer exists`,
+      code: OrderStatusErrorCode.INSUFFICIENT_STOCK,
+    };
+  }
+
+  /**
+   * Move orders to the trash, giving back the stock of those still holding
+   * it. Orders already in the trash are skipped. Returns the trashed IDs.
+   */
+  async softDelete(orderIds: string[], options: OrderStockOptions = {}) {
+    const active = await this.db
+      .select({ id: orders.id, status: orders.status })
+      .from(orders)
+      .where(and(inArray(orders.id, orderIds), isNull(orders.deletedAt)));
+
+    if (active.length === 0) {
+      return [];
+    }
+
+    await this.releaseOrders(active, {
+      actorId: options.actorId,
+      note: "Order deleted",
+      keepOrderId: true,
+    });
+
+    await this.db
+      .update(orders)
+      .set({ deletedAt: sql`unixepoch()` })
+      .where(
+        inArray(
+          orders.id,
+          active.map((order) => order.id),
+        ),
+      );
+
+    return active.map((order) => order.id);
+  }
+
+  /**
+   * Bring an order back from the trash. An order that held stock before it
+   * was deleted takes it again, so restoring is refused when the stock is
+   * gone.
+   */
+  async restore(
+    orderId: string,
+    options: OrderStockOptions = {},
+  ): Promise<OrderStatusResult> {
+    const [order] = await this.db
+      .select({
+        id: orders.id,
+        status: orders.status,
+        deletedAt: orders.deletedAt,
+      })
+      .from(orders)
+      .where(eq(orders.id, orderId));
+
+    if (!order) {
+      return {
+        success: false,
+        message: `Order with ID ${orderId} not found`,
+        code: OrderStatusErrorCode.NOT_FOUND,
+      };
+    }
+
+    // Takes back what deleting it gave back
+    const items = await this.getReleasedItems(orderId, OrderStatus.CANCELLED);
+    const changes = getOrderStockChanges(
+      { status: OrderStatus.CANCELLED, items: [] },
+      { status: order.status, items },
+    );
+
+    const stockCheck = await this.checkStock(changes);
+    if (!stockCheck.success) {
+      return stockCheck;
+    }
+
+    const [restored] = await this.db
+      .update(orders)
+      .set({ deletedAt: null, updatedAt: sql`unixepoch()` })
+      .where(and(eq(orders.id, orderId), isNotNull(orders.deletedAt)))
+      .returning({ id: orders.id });
+
+    if (!restored) {
+      return { success: false, message: "Order is not deleted" };
+    }
+
+    const applied = await this.applyStockChanges(changes, {
+      orderId,
+      actorId: options.actorId,
+      note: "Order restored from trash",
+    });
+    if (!applied.success) {
+      // The stock went between the check and the write
+      await this.db
+        .update(orders)
+        .set({ deletedAt: order.deletedAt })
+        .where(eq(orders.id, orderId));
+      return {
+        success: false,
+        message: applied.message,
+        code: applied.code,
+      };
+    }
+    await alertLowStock(this.db, applied.data!, {
+      waitUntil: options.waitUntil,
+    });
+
+    return { success: true, message: "Order restored successfully" };
+  }
+
+  /**
+   * Delete orders for good. Stock is given back for orders that were not
+   * in the trash yet and still held it.
+   */
+  async permanentlyDelete(orderIds: string[], options: OrderStockOptions = {}) {
+    const active = await this.db
+      .select({ id: orders.id, status: orders.status })
+      .from(orders)
+      .where(and(inArray(orders.id, orderIds), isNull(orders.deletedAt)));
+
+    // Recorded without the order, which is about to be deleted
+    await this.releaseOrders(active, {
+      actorId: options.actorId,
+      note: "Order permanently deleted",
+      keepOrderId: false,
+    });
+
+    // Delete order items first (foreign key constraint)
+    await this.db
+      .delete(orderItems)
+      .where(inArray(orderItems.orderId, orderIds));
+    await this.db.delete(orders).where(inArray(orders.id, orderIds));
+  }
+
+  /**
+   * Give back the stock of every order that holds it
+   */
+  private async releaseOrders(
+    orderList: { id: string; status: string }[],
+    movement: { actorId?: string | null; note: string; keepOrderId: boolean },
+  ) {
+    for (const order of orderList.filter((o) => holdsStock(o.status))) {
+      const changes = getOrderStockChanges(
+        {
+          status: order.status,
+          items: await this.getReleasedItems(order.id, OrderStatus.CANCELLED),
+        },
+        { status: OrderStatus.CANCELLED, items: [] },
+      );
+
+      await this.applyStockChanges(changes, {
+        orderId: movement.keepOrderId ? order.id : undefined,
+        actorId: movement.actorId,
+        note: movement.keepOrderId
+          ? movement.note
+          : `${movement.note} (${order.id})`,
+      });
+    }
+  }
+
+  /**
+   * Items whose stock goes back when an order moves to this status. Items
+   * already under a return request are restocked by the return flow, so
+   * cancelling or returning the order leaves them out.
+   */
+  async getReleasedItems(orderId: string, status: string) {
+    return holdsStock(status)
+      ? this.getItems(orderId)
+      : this.getUnreturnedItems(orderId);
+  }
+
+  private async getItems(orderId: string) {
+    return this.db
+      .select({
+        variantId: orderItems.variantId,
+        quantity: orderItems.quantity,
+        bundleComponents: orderItems.bundleComponents,
+      })
+      .from(orderItems)
+      .where(eq(orderItems.orderId, orderId));
+  }
+
+  /**
+   * Items of an order less the quantities already requested or approved
+   * for return
+   */
+  private async getUnreturnedItems(orderId: string) {
+    const [items, returnable] = await Promise.all([
+      this.db
+        .select({
+          id: orderItems.id,
+          variantId: orderItems.variantId,
+          quantity: orderItems.quantity,
+          bundleComponents: orderItems.bundleComponents,
+        })
+        .from(orderItems)
+        .where(eq(orderItems.orderId, orderId)),
+      new ReturnService(this.db).getReturnableQuantities(orderId),
+    ]);
+
+    return items.map((item) => ({
+      variantId: item.variantId,
+      quantity: returnable.get(item.id) ?? item.quantity,
+      bundleComponents: item.bundleComponents,
+    }));
+  }
+}
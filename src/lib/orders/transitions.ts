@@ -0,0 +1,93 @@
+import { OrderStatus } from "@/db/schema";
+
+// Order status rules shared by the API and the admin UI. Kept free of
+// database imports so client components can use them.
+
+// Where an order may move from each status. Orders can skip ahead, but only
+// step back where a real flow needs it: a failed delivery goes back to
+// "confirmed" and a cancelled order can be reopened as "pending".
+export const ORDER_STATUS_TRANSITIONS: Record<
+  OrderStatus,
+  readonly OrderStatus[]
+> = {
+  [OrderStatus.PENDING]: [
+    OrderStatus.PROCESSING,
+    OrderStatus.CONFIRMED,
+    OrderStatus.SHIPPED,
+    OrderStatus.CANCELLED,
+  ],
+  [OrderStatus.PROCESSING]: [
+    OrderStatus.PENDING,
+    OrderStatus.CONFIRMED,
+    OrderStatus.SHIPPED,
+    OrderStatus.DELIVERED,
+    OrderStatus.CANCELLED,
+    OrderStatus.RETURNED,
+  ],
+  [OrderStatus.CONFIRMED]: [
+    OrderStatus.PROCESSING,
+    OrderStatus.SHIPPED,
+    OrderStatus.DELIVERED,
+    OrderStatus.CANCELLED,
+    OrderStatus.RETURNED,
+  ],
+  [OrderStatus.SHIPPED]: [
+    OrderStatus.CONFIRMED,
+    OrderStatus.DELIVERED,
+    OrderStatus.RETURNED,
+  ],
+  [OrderStatus.DELIVERED]: [OrderStatus.RETURNED],
+  [OrderStatus.CANCELLED]: [OrderStatus.PENDING],
+  [OrderStatus.RETURNED]: [],
+};
+
+// Error codes returned when a status change is refused
+export const OrderStatusErrorCode = {
+  NOT_FOUND: "ORDER_NOT_FOUND",
+  INVALID_TRANSITION: "INVALID_STATUS_TRANSITION",
+  INSUFFICIENT_STOCK: "INSUFFICIENT_STOCK",
+} as const;
+
+export type OrderStatusErrorCode =
+  (typeof OrderStatusErrorCode)[keyof typeof OrderStatusErrorCode];
+
+export const ORDER_STATUS_VALUES = Object.values(OrderStatus);
+
+export function isOrderStatus(value: string): value is OrderStatus {
+  return (ORDER_STATUS_VALUES as string[]).includes(value);
+}
+
+/**
+ * Statuses an order may move to next. Unknown (legacy) statuses may move
+ * anywhere so such orders can be brought back into the flow.
+ */
+export function getAllowedOrderStatuses(from: string): readonly OrderStatus[] {
+  return isOrderStatus(from)
+    ? ORDER_STATUS_TRANSITIONS[from]
+    : ORDER_STATUS_VALUES;
+}
+
+/**
+ * Whether an order may move from one status to another. Staying on the same
+ * status is always allowed.
+ */
+export function canTransitionOrderStatus(from: string, to: string): boolean {
+  if (from === to) return true;
+  return isOrderStatus(to) && getAllowedOrderStatuses(from).includes(to);
+}
+
+/**
+ * Whether an order in this status keeps its items out of stock. Stock is
+ * taken when an order is placed and given back on cancel or return.
+ */
+export function holdsStock(status: string): boolean {
+  return status !== OrderStatus.CANCELLED && status !== OrderStatus.RETURNED;
+}
+
+/**
+ * Whether items of an order in this status can be returned. Before it ships
+ * the order still holds its stock, and cancelling it gives that back.
+ */
+export function canReturnOrder(status: string): boolean {
+  return status === OrderStatus.SHIPPED || status === OrderStatus.DELIVERED;
+}
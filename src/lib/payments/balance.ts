@@ -0,0 +1,18 @@
+/**
+ * Amount still owed on an order. `totalAmount` is the grand total (items +
+ * shipping - discount) and `paidAmount` is net of refunds.
+ */
+export function getAmountDue(order: {
+  totalAmount: number;
+  paidAmount?: number | null;
+}): number {
+  const due = order.totalAmount - (order.paidAmount || 0);
+  return due > 0 ? Math.round(due * 100) / 100 : 0;
+}
+
+/**
+ * Whether two money amounts are equal to the paisa
+ */
+export function isSameAmount(a: number, b: number): boolean {
+  return Math.round(a * 100) === Math.round(b * 100);
+}
@@ -0,0 +1,46 @@
+// SECURITY: Placeholder sent to the admin UI instead of secret credential values
+export const MASKED_VALUE = "••••••••••••";
+
+// Credential fields that never leave the server
+const SECRET_FIELDS = ["storePassword", "appSecret", "password"];
+
+/**
+ * Mask sensitive credentials before sending them to the client
+ */
+export function maskCredentials(credentialsJson: string): string {
+  try {
+    const masked = JSON.parse(credentialsJson);
+    for (const field of SECRET_FIELDS) {
+      if (masked[field]) masked[field] = MASKED_VALUE;
+    }
+    return JSON.stringify(masked);
+  } catch (e) {
+    return credentialsJson;
+  }
+}
+
+/**
+ * Restore masked fields from the stored credentials so a masked value
+ * coming back from the client is never saved
+ */
+export function unmaskCredentials(
+  newCredentialsJson: string,
+  existingCredentialsJson?: string,
+): string {
+  if (!existingCredentialsJson) {
+    return newCredentialsJson;
+  }
+
+  try {
+    const unmasked = JSON.parse(newCredentialsJson);
+    const existing = JSON.parse(existingCredentialsJson);
+    for (const field of SECRET_FIELDS) {
+      if (unmasked[field] === MASKED_VALUE && existing[field]) {
+        unmasked[field] = existing[field];
+      }
+    }
+    return JSON.stringify(unmasked);
+  } catch (e) {
+    return newCredentialsJson;
+  }
+}
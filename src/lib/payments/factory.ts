@@ -0,0 +1,58 @@
+import { SslcommerzProvider } from "./providers/sslcommerz";
+import { BkashProvider } from "./providers/bkash";
+import { MockProvider } from "./providers/mock";
+import type { PaymentProvider, PaymentProviderType } from "@/db/schema";
+import type { PaymentProviderInterface } from "./provider";
+import type {
+  SslcommerzCredentials,
+  SslcommerzConfig,
+  BkashCredentials,
+  BkashConfig,
+  MockCredentials,
+  MockConfig,
+} from "./types";
+
+/**
+ * Create the appropriate payment provider instance based on provider type
+ */
+export function createPaymentProvider(
+  provider: PaymentProvider,
+): PaymentProviderInterface {
+  let credentials, config;
+
+  try {
+    credentials = JSON.parse(provider.credentials);
+  } catch (credError) {
+    throw new Error(
+      `Invalid credentials format: ${credError instanceof Error ? credError.message : String(credError)}`,
+    );
+  }
+
+  try {
+    config = JSON.parse(provider.config);
+  } catch (configError) {
+    throw new Error(
+      `Invalid config format: ${configError instanceof Error ? configError.message : String(configError)}`,
+    );
+  }
+
+  switch (provider.type as PaymentProviderType) {
+    case "sslcommerz":
+      return new SslcommerzProvider(
+        credentials as SslcommerzCredentials,
+        config as SslcommerzConfig,
+      );
+    case "bkash":
+      return new BkashProvider(
+        credentials as BkashCredentials,
+        config as BkashConfig,
+      );
+    case "mock":
+      return new MockProvider(
+        credentials as MockCredentials,
+        config as MockConfig,
+      );
+    default:
+      throw new Error(`Unsupported payment provider type: ${provider.type}`);
+  }
+}
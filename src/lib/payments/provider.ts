@@ -0,0 +1,63 @@
+import type { Order, Payment, PaymentProviderType } from "@/db/schema";
+import type {
+  PaymentInitRequest,
+  PaymentInitResult,
+  PaymentResult,
+} from "./types";
+
+/**
+ * Interface that all payment providers must implement
+ */
+export interface PaymentProviderInterface {
+  /**
+   * Get the display name of the provider
+   */
+  getName(): string;
+
+  /**
+   * Get the provider type identifier (sslcommerz, bkash, etc.)
+   */
+  getType(): PaymentProviderType;
+
+  /**
+   * Test the provider credentials and connection
+   */
+  testConnection(): Promise<{ success: boolean; message: string }>;
+
+  /**
+   * Start a payment session for an order
+   * @param order Order being paid
+   * @param request Amount, our payment reference and the callback URL
+   */
+  initiatePayment(
+    order: Order,
+    request: PaymentInitRequest,
+  ): Promise<PaymentInitResult>;
+
+  /**
+   * Identify which payment a gateway callback belongs to
+   * @param params Query string and form fields sent by the gateway
+   */
+  parseCallback(params: Record<string, string>): {
+    paymentId?: string;
+    externalId?: string;
+  };
+
+  /**
+   * Confirm a callback with the gateway (validate/execute) and return the outcome.
+   * Callbacks are unauthenticated, so the result must come from the gateway,
+   * never from the callback parameters alone.
+   * @param payment Payment the callback belongs to
+   * @param params Query string and form fields sent by the gateway
+   */
+  confirmPayment(
+    payment: Payment,
+    params: Record<string, string>,
+  ): Promise<PaymentResult>;
+
+  /**
+   * Query the gateway for the current status of a payment
+   * @param payment Payment to verify
+   */
+  verifyPayment(payment: Payment): Promise<PaymentResult>;
+}
@@ -0,0 +1,281 @@
+import type { Order, Payment, PaymentProviderType } from "@/db/schema";
+import type {
+  BkashCredentials,
+  BkashConfig,
+  BkashTokenResponse,
+  BkashPaymentResponse,
+  PaymentInitRequest,
+  PaymentInitResult,
+  PaymentResult,
+} from "../types";
+import type { PaymentProviderInterface } from "../provider";
+import { mapProviderStatus } from "../status-mapper";
+
+/**
+ * Implementation of the bKash tokenized checkout gateway
+ */
+export class BkashProvider implements PaymentProviderInterface {
+  private credentials: BkashCredentials;
+  private config: BkashConfig;
+  private idToken: string | null = null;
+  private tokenExpiry: Date | null = null;
+
+  constructor(credentials: BkashCredentials, config: BkashConfig) {
+    this.credentials = {
+      ...credentials,
+      baseUrl: credentials.baseUrl.trim().replace(/\/+$/, ""),
+    };
+    this.config = config;
+  }
+
+  getName(): string {
+    return "bKash";
+  }
+
+  getType(): PaymentProviderType {
+    return "bkash";
+  }
+
+  /**
+   * Get a valid id_token, granting a new one if necessary
+   */
+  private async getIdToken(): Promise<string> {
+    const now = new Date();
+    if (this.idToken && this.tokenExpiry && this.tokenExpiry > now) {
+      return this.idToken;
+    }
+
+    try {
+      const response = await fetch(
+        `${this.credentials.baseUrl}/tokenized/checkout/token/grant`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+            username: this.credentials.username,
+            password: this.credentials.password,
+          },
+          body: JSON.stringify({
+            app_key: this.credentials.appKey,
+            app_secret: this.credentials.appSecret,
+          }),
+        },
+      );
+
+      const data: BkashTokenResponse = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.id_token) {
+        throw new Error(
+          `Failed to get id token: ${
+            data.statusMessage || response.statusText
+          }`,
+        );
+      }
+
+      this.idToken = data.id_token;
+      // Subtract 5 minutes from expiry to be safe
+      this.tokenExpiry = new Date(
+        now.getTime() + (data.expires_in - 300) * 1000,
+      );
+
+      return this.idToken;
+    } catch (error) {
+      throw new Error(
+        `Failed to obtain bKash id token: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Helper to call a tokenized checkout endpoint
+   */
+  private async request(
+    path: string,
+    body: Record<string, string>,
+  ): Promise<BkashPaymentResponse> {
+    const token = await this.getIdToken();
+
+    const response = await fetch(
+      `${this.credentials.baseUrl}/tokenized/checkout/${path}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json",
+          Authorization: token,
+          "X-APP-Key": this.credentials.appKey,
+        },
+        body: JSON.stringify(body),
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(`API Error: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Test the provider credentials and connection
+   */
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.getIdToken();
+      return { success: true, message: "Connection successful" };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Connection failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      };
+    }
+  }
+
+  /**
+   * Create a bKash payment and return the bKash checkout URL
+   */
+  async initiatePayment(
+    order: Order,
+    request: PaymentInitRequest,
+  ): Promise<PaymentInitResult> {
+    try {
+      const data = await this.request("create", {
+        mode: "0011",
+        payerReference: order.customerPhone,
+        callbackURL: request.callbackUrl,
+        amount: request.amount.toFixed(2),
+        currency: request.currency,
+        intent: this.config.intent || "sale",
+        merchantInvoiceNumber: request.paymentId,
+      });
+
+      if (data.statusCode !== "0000" || !data.bkashURL) {
+        return {
+          success: false,
+          message: `API Error: ${data.statusMessage || "Unknown error"}`,
+        };
+      }
+
+      return {
+        success: true,
+        message: data.statusMessage,
+        data: {
+          externalId: data.paymentID,
+          redirectUrl: data.bkashURL,
+          status: mapProviderStatus(
+            this.getType(),
+            data.transactionStatus || "Initiated",
+          ),
+          metadata: data,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to initiate payment: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      };
+    }
+  }
+
+  /**
+   * bKash redirects back with ?paymentID=...&status=success|failure|cancel
+   */
+  parseCallback(params: Record<string, string>) {
+    return { externalId: params.paymentID };
+  }
+
+  /**
+   * Execute the payment when the customer completed it on bKash.
+   * Failed and cancelled callbacks are confirmed with a status query.
+   */
+  async confirmPayment(
+    payment: Payment,
+    params: Record<string, string>,
+  ): Promise<PaymentResult> {
+    if (params.status !== "success") {
+      return this.verifyPayment(payment);
+    }
+
+    try {
+      const data = await this.request("execute", {
+        paymentID: payment.externalId as string,
+      });
+
+      // Already executed (e.g. a repeated callback) - fall back to a status query
+      if (data.statusCode !== "0000") {
+        return this.verifyPayment(payment);
+      }
+
+      return this.toResult(payment, data);
+    } catch (error) {
+      return this.errorResult(payment, error);
+    }
+  }
+
+  /**
+   * Query the payment status
+   */
+  async verifyPayment(payment: Payment): Promise<PaymentResult> {
+    try {
+      const data = await this.request("payment/status", {
+        paymentID: payment.externalId as string,
+      });
+
+      if (data.statusCode !== "0000") {
+        throw new Error(`API Error: ${data.statusMessage}`);
+      }
+
+      return this.toResult(payment, data);
+    } catch (error) {
+      return this.errorResult(payment, error);
+    }
+  }
+
+  private toResult(
+    payment: Payment,
+    data: BkashPaymentResponse,
+  ): PaymentResult {
+    if (
+      data.merchantInvoiceNumber &&
+      data.merchantInvoiceNumber !== payment.id
+    ) {
+      return this.errorResult(
+        payment,
+        new Error("bKash payment does not match this payment"),
+      );
+    }
+
+    const rawStatus = data.transactionStatus || "Initiated";
+
+    return {
+      paymentId: payment.id,
+      externalId: data.paymentID,
+      status: mapProviderStatus(this.getType(), rawStatus),
+      rawStatus,
+      transactionId: data.trxID,
+      amount: data.amount ? Number(data.amount) : undefined,
+      metadata: data,
+    };
+  }
+
+  /**
+   * Keep the payment in its current state when the gateway can't be reached
+   */
+  private errorResult(payment: Payment, error: unknown): PaymentResult {
+    return {
+      paymentId: payment.id,
+      status: payment.status,
+      rawStatus: "error",
+      metadata: {
+        error: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+}
@@ -0,0 +1,112 @@
+import type { Order, Payment, PaymentProviderType } from "@/db/schema";
+import type {
+  MockCredentials,
+  MockConfig,
+  PaymentInitRequest,
+  PaymentInitResult,
+  PaymentResult,
+} from "../types";
+import type { PaymentProviderInterface } from "../provider";
+import { mapProviderStatus } from "../status-mapper";
+import { nanoid } from "nanoid";
+
+/**
+ * Offline payment provider for development and testing.
+ *
+ * Instead of a hosted payment page it redirects straight to our callback
+ * with the configured outcome, so the whole init → callback → verify flow
+ * runs without a gateway. The callback carries a one-time token issued at
+ * init, so outcomes can't be posted for payments nobody initiated.
+ */
+export class MockProvider implements PaymentProviderInterface {
+  private config: MockConfig;
+
+  constructor(_credentials: MockCredentials, config: MockConfig) {
+    this.config = config;
+  }
+
+  getName(): string {
+    return "Mock Gateway";
+  }
+
+  getType(): PaymentProviderType {
+    return "mock";
+  }
+
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    return {
+      success: true,
+      message: `Mock gateway ready (outcome: ${this.getOutcome()}). Do not enable in production.`,
+    };
+  }
+
+  async initiatePayment(
+    _order: Order,
+    request: PaymentInitRequest,
+  ): Promise<PaymentInitResult> {
+    const token = nanoid();
+    const externalId = `mock_${request.paymentId}`;
+
+    const redirectUrl = new URL(request.callbackUrl);
+    redirectUrl.searchParams.set("paymentId", request.paymentId);
+    redirectUrl.searchParams.set("status", this.getOutcome());
+    redirectUrl.searchParams.set("token", token);
+
+    return {
+      success: true,
+      message: "Mock payment session created",
+      data: {
+        externalId,
+        redirectUrl: redirectUrl.toString(),
+        status: "pending",
+        metadata: { token, amount: request.amount },
+      },
+    };
+  }
+
+  parseCallback(params: Record<string, string>) {
+    return { paymentId: params.paymentId };
+  }
+
+  async confirmPayment(
+    payment: Payment,
+    params: Record<string, string>,
+  ): Promise<PaymentResult> {
+    const metadata = payment.metadata ? JSON.parse(payment.metadata) : {};
+
+    if (!params.token || params.token !== metadata.token) {
+      return {
+        paymentId: payment.id,
+        status: payment.status,
+        rawStatus: "error",
+        metadata: { error: "Invalid mock payment token" },
+      };
+    }
+
+    return {
+      paymentId: payment.id,
+      status: mapProviderStatus(this.getType(), params.status),
+      rawStatus: params.status,
+      transactionId: `MOCK${Date.now()}`,
+      amount: payment.amount,
+      metadata: { ...metadata, token: undefined, outcome: params.status },
+    };
+  }
+
+  /**
+   * There is no gateway to ask, so the stored status is authoritative
+   */
+  async verifyPayment(payment: Payment): Promise<PaymentResult> {
+    return {
+      paymentId: payment.id,
+      status: payment.status,
+      rawStatus: payment.rawStatus || payment.status,
+      transactionId: payment.transactionId || undefined,
+      amount: payment.amount,
+    };
+  }
+
+  private getOutcome(): MockConfig["outcome"] {
+    return this.config?.outcome || "success";
+  }
+}
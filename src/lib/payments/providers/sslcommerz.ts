@@ -0,0 +1,270 @@
+import type { Order, Payment, PaymentProviderType } from "@/db/schema";
+import type {
+  SslcommerzCredentials,
+  SslcommerzConfig,
+  SslcommerzInitResponse,
+  SslcommerzValidationResponse,
+  SslcommerzTransactionQueryResponse,
+  PaymentInitRequest,
+  PaymentInitResult,
+  PaymentResult,
+} from "../types";
+import type { PaymentProviderInterface } from "../provider";
+import { mapProviderStatus } from "../status-mapper";
+
+/**
+ * Implementation of the SSLCommerz payment gateway
+ */
+export class SslcommerzProvider implements PaymentProviderInterface {
+  private credentials: SslcommerzCredentials;
+  private config: SslcommerzConfig;
+
+  constructor(credentials: SslcommerzCredentials, config: SslcommerzConfig) {
+    this.credentials = {
+      ...credentials,
+      baseUrl: credentials.baseUrl.trim().replace(/\/+$/, ""),
+      storeId: credentials.storeId.trim(),
+      storePassword: credentials.storePassword.trim(),
+    };
+    this.config = config;
+  }
+
+  getName(): string {
+    return "SSLCommerz";
+  }
+
+  getType(): PaymentProviderType {
+    return "sslcommerz";
+  }
+
+  /**
+   * Test the provider credentials by running a transaction query.
+   * SSLCommerz answers APIConnect=DONE only for valid store credentials.
+   */
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    try {
+      const data = await this.queryTransaction("connection_test");
+
+      if (data.APIConnect === "DONE") {
+        return { success: true, message: "Connection successful" };
+      }
+
+      return {
+        success: false,
+        message: `Connection failed: ${data.APIConnect}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Connection failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      };
+    }
+  }
+
+  /**
+   * Create a gateway session and return the hosted payment page URL
+   */
+  async initiatePayment(
+    order: Order,
+    request: PaymentInitRequest,
+  ): Promise<PaymentInitResult> {
+    try {
+      const body = new URLSearchParams({
+        store_id: this.credentials.storeId,
+        store_passwd: this.credentials.storePassword,
+        total_amount: request.amount.toFixed(2),
+        currency: request.currency,
+        tran_id: request.paymentId,
+        success_url: request.callbackUrl,
+        fail_url: request.callbackUrl,
+        cancel_url: request.callbackUrl,
+        ipn_url: `${request.callbackUrl}${request.callbackUrl.includes("?") ? "&" : "?"}ipn=1`,
+        cus_name: order.customerName,
+        cus_email: order.customerEmail || "customer@example.com",
+        cus_phone: order.customerPhone,
+        cus_add1: order.shippingAddress,
+        cus_city: order.cityName || order.city,
+        cus_country: "Bangladesh",
+        shipping_method: "NO",
+        product_name: `Order ${order.id}`,
+        product_category: this.config.productCategory || "general",
+        product_profile: "general",
+        value_a: order.id,
+      });
+
+      const response = await fetch(
+        `${this.credentials.baseUrl}/gwprocess/v4/api.php`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/x-www-form-urlencoded" },
+          body: body.toString(),
+        },
+      );
+
+      if (!response.ok) {
+        return {
+          success: false,
+          message: `API Error: ${response.status} ${response.statusText}`,
+        };
+      }
+
+      const data: SslcommerzInitResponse = await response.json();
+
+      if (data.status !== "SUCCESS" || !data.GatewayPageURL) {
+        return {
+          success: false,
+          message: `API Error: ${data.failedreason || "Unknown error"}`,
+        };
+      }
+
+      return {
+        success: true,
+        message: "Payment session created",
+        data: {
+          externalId: data.sessionkey,
+          redirectUrl: data.GatewayPageURL,
+          status: "pending",
+          metadata: { sessionkey: data.sessionkey },
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to initiate payment: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      };
+    }
+  }
+
+  /**
+   * SSLCommerz posts our tran_id back on success, fail, cancel and IPN
+   */
+  parseCallback(params: Record<string, string>) {
+    return { paymentId: params.tran_id };
+  }
+
+  /**
+   * Validate the callback's val_id with the validation API. Failed and
+   * cancelled callbacks carry no val_id, so the transaction is queried instead.
+   */
+  async confirmPayment(
+    payment: Payment,
+    params: Record<string, string>,
+  ): Promise<PaymentResult> {
+    if (!params.val_id) {
+      return this.verifyPayment(payment);
+    }
+
+    try {
+      const url = new URL(
+        `${this.credentials.baseUrl}/validator/api/validationserverAPI.php`,
+      );
+      url.searchParams.set("val_id", params.val_id);
+      url.searchParams.set("store_id", this.credentials.storeId);
+      url.searchParams.set("store_passwd", this.credentials.storePassword);
+      url.searchParams.set("format", "json");
+
+      const response = await fetch(url.toString());
+      if (!response.ok) {
+        throw new Error(`API Error: ${response.statusText}`);
+      }
+
+      const data: SslcommerzValidationResponse = await response.json();
+
+      // A response without tran_id could belong to any transaction
+      if (data.tran_id !== payment.id) {
+        throw new Error("Validated transaction does not match this payment");
+      }
+
+      return {
+        paymentId: payment.id,
+        status: mapProviderStatus(this.getType(), data.status),
+        rawStatus: data.status,
+        transactionId: data.bank_tran_id,
+        amount: data.amount ? Number(data.amount) : undefined,
+        metadata: data,
+      };
+    } catch (error) {
+      return this.errorResult(payment, error);
+    }
+  }
+
+  /**
+   * Look up the payment's transactions by tran_id
+   */
+  async verifyPayment(payment: Payment): Promise<PaymentResult> {
+    try {
+      const data = await this.queryTransaction(payment.id);
+
+      if (data.APIConnect !== "DONE") {
+        throw new Error(`API Error: ${data.APIConnect}`);
+      }
+
+      // A customer may retry on the gateway page; prefer a successful attempt
+      const elements = data.element || [];
+      const transaction =
+        elements.find((element) =>
+          ["VALID", "VALIDATED"].includes(element.status.toUpperCase()),
+        ) || elements[0];
+
+      if (!transaction) {
+        return {
+          paymentId: payment.id,
+          status: mapProviderStatus(this.getType(), "UNATTEMPTED"),
+          rawStatus: "UNATTEMPTED",
+          metadata: data,
+        };
+      }
+
+      return {
+        paymentId: payment.id,
+        status: mapProviderStatus(this.getType(), transaction.status),
+        rawStatus: transaction.status,
+        transactionId: transaction.bank_tran_id,
+        amount: Number(transaction.amount),
+        metadata: transaction,
+      };
+    } catch (error) {
+      return this.errorResult(payment, error);
+    }
+  }
+
+  /**
+   * Helper to query transactions by our transaction ID
+   */
+  private async queryTransaction(
+    tranId: string,
+  ): Promise<SslcommerzTransactionQueryResponse> {
+    const url = new URL(
+      `${this.credentials.baseUrl}/validator/api/merchantTransIDvalidationAPI.php`,
+    );
+    url.searchParams.set("tran_id", tranId);
+    url.searchParams.set("store_id", this.credentials.storeId);
+    url.searchParams.set("store_passwd", this.credentials.storePassword);
+    url.searchParams.set("format", "json");
+
+    const response = await fetch(url.toString());
+    if (!response.ok) {
+      throw new Error(`API Error: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Keep the payment in its current state when the gateway can't be reached
+   */
+  private errorResult(payment: Payment, error: unknown): PaymentResult {
+    return {
+      paymentId: payment.id,
+      status: payment.status,
+      rawStatus: "error",
+      metadata: {
+        error: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+}
@@ -0,0 +1,664 @@
+import type { Database } from "@/db";
+import {
+  orders,
+  paymentEntries,
+  paymentProviders,
+  payments,
+  OrderStatus,
+  PaymentEntryType,
+  PaymentStatus,
+  type Payment,
+} from "@/db/schema";
+import { createPaymentProvider } from "./factory";
+import { getAmountDue, isSameAmount } from "./balance";
+
+import type { PaymentResult } from "./types";
+import { and, desc, eq, isNull, or } from "drizzle-orm";
+import { nanoid } from "nanoid";
+
+export interface InitiatePaymentResult {
+  success: boolean;
+  message: string;
+  data?: {
+    paymentId: string;
+    redirectUrl: string;
+    amount: number;
+    currency: string;
+  };
+}
+
+export interface RecordPaymentInput {
+  type?: PaymentEntryType;
+  amount: number;
+  method: string;
+  reference?: string | null;
+  note?: string | null;
+  recordedBy?: string | null;
+}
+
+export interface RecordPaymentResult {
+  success: boolean;
+  message: string;
+  data?: {
+    entryId: string;
+    paidAmount: number;
+    amountDue: number;
+    paymentStatus: string;
+  };
+}
+
+/**
+ * Service for managing payment providers and payments
+ */
+export class PaymentService {
+  constructor(private db: Database) {}
+
+  /**
+   * Get all providers from the database
+   */
+  async getProviders() {
+    return this.db
+      .select()
+      .from(paymentProviders)
+      .orderBy(desc(paymentProviders.updatedAt));
+  }
+
+  /**
+   * Get active providers from the database
+   */
+  async getActiveProviders() {
+    return this.db
+      .select()
+      .from(paymentProviders)
+      .where(eq(paymentProviders.isActive, true))
+      .orderBy(desc(paymentProviders.updatedAt));
+  }
+
+  /**
+   * Get provider by ID
+   */
+  async getProvider(id: string) {
+    const [provider] = await this.db
+      .select()
+      .from(paymentProviders)
+      .where(eq(paymentProviders.id, id));
+
+    return provider;
+  }
+
+  /**
+   * Save provider to database (create or update)
+   */
+  async saveProvider(provider: {
+    id?: string;
+    name: string;
+    type: string;
+    isActive: boolean;
+    credentials: any;
+    config: any;
+  }) {
+    const providerId = provider.id || nanoid();
+    const now = new Date();
+
+    // Convert objects to JSON strings
+    const credentials =
+      typeof provider.credentials === "string"
+        ? provider.credentials
+        : JSON.stringify(provider.credentials);
+
+    const config =
+      typeof provider.config === "string"
+        ? provider.config
+        : JSON.stringify(provider.config);
+
+    const existingProvider = await this.getProvider(providerId);
+
+    if (existingProvider) {
+      await this.db
+        .update(paymentProviders)
+        .set({
+          name: provider.name,
+          type: provider.type,
+          isActive: provider.isActive,
+          credentials,
+          config,
+          updatedAt: now,
+        })
+        .where(eq(paymentProviders.id, providerId));
+    } else {
+      await this.db.insert(paymentProviders).values({
+        id: providerId,
+        name: provider.name,
+        type: provider.type,
+        isActive: provider.isActive,
+        credentials,
+        config,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    return { ...provider, id: providerId, credentials, config };
+  }
+
+  /**
+   * Delete provider from database.
+   * Providers that already have payments are deactivated instead, so the
+   * payment history keeps its provider.
+   */
+  async deleteProvider(id: string) {
+    const [existingPayment] = await this.db
+      .select({ id: payments.id })
+      .from(payments)
+      .where(eq(payments.providerId, id))
+      .limit(1);
+
+    if (existingPayment) {
+      await this.db
+        .update(paymentProviders)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(eq(paymentProviders.id, id));
+      return false;
+    }
+
+    await this.db.delete(paymentProviders).where(eq(paymentProviders.id, id));
+    return true;
+  }
+
+  /**
+   * Test provider connection
+   */
+  async testProvider(id: string) {
+    const provider = await this.getProvider(id);
+    if (!provider) {
+      throw new Error(`Provider with ID ${id} not found`);
+    }
+
+    try {
+      const providerInstance = createPaymentProvider(provider);
+      return await providerInstance.testConnection();
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to test provider: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Start an online payment for an order.
+   * @param callbackUrl Absolute URL of the callback route for this provider
+   * @param returnUrl Storefront page the customer is sent to afterwards
+   * @param requestedAmount Partial (advance) amount; defaults to the balance due
+   */
+  async initiatePayment(
+    orderId: string,
+    providerId: string,
+    callbackUrl: string,
+    returnUrl?: string,
+    requestedAmount?: number,
+  ): Promise<InitiatePaymentResult> {
+    const [order] = await this.db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, orderId), isNull(orders.deletedAt)));
+
+    if (!order) {
+      return { success: false, message: `Order with ID ${orderId} not found` };
+    }
+
+    if (order.status === OrderStatus.CANCELLED) {
+      return { success: false, message: "Order has been cancelled" };
+    }
+
+    if (order.paymentStatus === PaymentStatus.PAID) {
+      return { success: false, message: "Order is already paid" };
+    }
+
+    const provider = await this.getProvider(providerId);
+    if (!provider || !provider.isActive) {
+      return {
+        success: false,
+        message: `Payment provider with ID ${providerId} not found`,
+      };
+    }
+
+    const amountDue = getAmountDue(order);
+    if (amountDue <= 0) {
+      return { success: false, message: "Order has nothing to pay" };
+    }
+
+    const amount = requestedAmount ?? amountDue;
+    if (amount <= 0 || amount > amountDue) {
+      return {
+        success: false,
+        message: `Amount must be between 0 and the balance due (${amountDue})`,
+      };
+    }
+
+    const paymentId = `pay_${nanoid()}`;
+    // Orders are charged in the base currency they were placed in
+    const currency = order.currency;
+    const now = new Date();
+
+    try {
+      const providerInstance = createPaymentProvider(provider);
+
+      // Record the attempt first so a fast callback always finds it
+      await this.db.insert(payments).values({
+        id: paymentId,
+        orderId,
+        providerId,
+        providerType: provider.type,
+        amount,
+        currency,
+        status: PaymentStatus.PENDING,
+        returnUrl: returnUrl || null,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const initResult = await providerInstance.initiatePayment(order, {
+        paymentId,
+        amount,
+        currency,
+        callbackUrl,
+      });
+
+      if (!initResult.success || !initResult.data?.redirectUrl) {
+        await this.db
+          .update(payments)
+          .set({
+            status: PaymentStatus.FAILED,
+            rawStatus: "init_failed",
+            metadata: JSON.stringify({ error: initResult.message }),
+            updatedAt: new Date(),
+          })
+          .where(eq(payments.id, paymentId));
+
+        return { success: false, message: initResult.message };
+      }
+
+      await this.db
+        .update(payments)
+        .set({
+          externalId: initResult.data.externalId,
+          redirectUrl: initResult.data.redirectUrl,
+          rawStatus: "initiated",
+          metadata: JSON.stringify(initResult.data.metadata || {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(payments.id, paymentId));
+
+      await this.db
+        .update(orders)
+        .set({ paymentMethod: provider.type, updatedAt: new Date() })
+        .where(eq(orders.id, orderId));
+      await this.syncOrderPaymentStatus(orderId);
+
+      return {
+        success: true,
+        message: initResult.message,
+        data: {
+          paymentId,
+          redirectUrl: initResult.data.redirectUrl,
+          amount,
+          currency,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to initiate payment: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Handle a gateway callback (customer redirect or IPN) for a provider
+   */
+  async handleCallback(providerId: string, params: Record<string, string>) {
+    const provider = await this.getProvider(providerId);
+    if (!provider) {
+      throw new Error(`Provider with ID ${providerId} not found`);
+    }
+
+    const providerInstance = createPaymentProvider(provider);
+    const { paymentId, externalId } = providerInstance.parseCallback(params);
+
+    if (!paymentId && !externalId) {
+      throw new Error("Callback does not identify a payment");
+    }
+
+    const [payment] = await this.db
+      .select()
+      .from(payments)
+      .where(
+        and(
+          eq(payments.providerId, providerId),
+          or(
+            paymentId ? eq(payments.id, paymentId) : undefined,
+            externalId ? eq(payments.externalId, externalId) : undefined,
+          ),
+        ),
+      )
+      .limit(1);
+
+    if (!payment) {
+      throw new Error("Payment not found");
+    }
+
+    const result = await providerInstance.confirmPayment(payment, params);
+    return this.applyResult(payment, result);
+  }
+
+  /**
+   * Re-check a payment with its gateway and update it
+   */
+  async verifyPayment(paymentId: string) {
+    const payment = await this.getPayment(paymentId);
+    if (!payment) {
+      throw new Error(`Payment with ID ${paymentId} not found`);
+    }
+
+    const provider = await this.getProvider(payment.providerId);
+    if (!provider) {
+      throw new Error(`Provider with ID ${payment.providerId} not found`);
+    }
+
+    const providerInstance = createPaymentProvider(provider);
+    const result = await providerInstance.verifyPayment(payment);
+    return this.applyResult(payment, result);
+  }
+
+  /**
+   * Get payment by ID
+   */
+  async getPayment(id: string) {
+    const [payment] = await this.db
+      .select()
+      .from(payments)
+      .where(eq(payments.id, id));
+
+    return payment;
+  }
+
+  /**
+   * Get all payments for an order
+   */
+  async getPayments(orderId: string) {
+    return this.db
+      .select()
+      .from(payments)
+      .where(eq(payments.orderId, orderId))
+      .orderBy(desc(payments.createdAt));
+  }
+
+  /**
+   * Get the payment ledger for an order, newest first
+   */
+  async getEntries(orderId: string) {
+    return this.db
+      .select()
+      .from(paymentEntries)
+      .where(eq(paymentEntries.orderId, orderId))
+      .orderBy(desc(paymentEntries.createdAt));
+  }
+
+  /**
+   * Record money received outside the gateways (advance, COD collection,
+   * bank transfer) or returned to the customer
+   */
+  async recordPayment(
+    orderId: string,
+    input: RecordPaymentInput,
+  ): Promise<RecordPaymentResult> {
+    const [order] = await this.db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, orderId));
+
+    if (!order) {
+      return { success: false, message: `Order with ID ${orderId} not found` };
+    }
+
+    const type = input.type || PaymentEntryType.PAYMENT;
+    if (!(input.amount > 0)) {
+      return { success: false, message: "Amount must be greater than 0" };
+    }
+
+    if (type === PaymentEntryType.REFUND && input.amount > order.paidAmount) {
+      return {
+        success: false,
+        message: `Refund cannot exceed the amount paid (${order.paidAmount})`,
+      };
+    }
+
+    const entryId = `pe_${nanoid()}`;
+    await this.db.insert(paymentEntries).values({
+      id: entryId,
+      orderId,
+      type,
+      method: input.method,
+      amount: input.amount,
+      reference: input.reference || null,
+      note: input.note || null,
+      recordedBy: input.recordedBy || null,
+      createdAt: new Date(),
+    });
+
+    const { paidAmount, paymentStatus } =
+      await this.syncOrderPaymentStatus(orderId);
+
+    return {
+      success: true,
+      message:
+        type === PaymentEntryType.REFUND
+          ? "Refund recorded"
+          : "Payment recorded",
+      data: {
+        entryId,
+        paidAmount,
+        amountDue: getAmountDue({ totalAmount: order.totalAmount, paidAmount }),
+        paymentStatus,
+      },
+    };
+  }
+
+  /**
+   * Remove a manually recorded payment from the ledger. Gateway entries
+   * follow their payment and refunds are permanent records.
+   */
+  async deleteEntry(orderId: string, entryId: string) {
+    const [entry] = await this.db
+      .select()
+      .from(paymentEntries)
+      .where(
+        and(
+          eq(paymentEntries.id, entryId),
+          eq(paymentEntries.orderId, orderId),
+        ),
+      );
+
+    if (!entry) {
+      return { success: false, message: "Payment entry not found" };
+    }
+
+    if (entry.paymentId) {
+      return {
+        success: false,
+        message: "Gateway payments cannot be removed from the ledger",
+      };
+    }
+
+    if (entry.type === PaymentEntryType.REFUND) {
+      return {
+        success: false,
+        message: "Refunds cannot be removed from the ledger",
+      };
+    }
+
+    await this.db.delete(paymentEntries).where(eq(paymentEntries.id, entryId));
+    await this.syncOrderPaymentStatus(orderId);
+
+    return { success: true, message: "Payment entry removed" };
+  }
+
+  /**
+   * Store a gateway result on the payment and refresh the order's status.
+   * Returns the updated payment and an error message when the gateway
+   * could not confirm the payment.
+   */
+  private async applyResult(
+    payment: Payment,
+    result: PaymentResult,
+  ): Promise<{ payment: Payment; error?: string }> {
+    if (result.rawStatus === "error") {
+      console.error(
+        `Payment ${payment.id} could not be confirmed:`,
+        result.metadata?.error,
+      );
+      return { payment, error: result.metadata?.error || "Unknown error" };
+    }
+
+    let status = result.status;
+    let rawStatus = result.rawStatus;
+
+    // A paid payment only changes through a refund; late cancel/fail
+    // callbacks for the same session are ignored
+    if (
+      payment.status === PaymentStatus.PAID &&
+      status !== PaymentStatus.REFUNDED
+    ) {
+      status = PaymentStatus.PAID;
+      rawStatus = payment.rawStatus || rawStatus;
+    }
+
+    // Never accept a different amount than the one we asked for
+    if (
+      status === PaymentStatus.PAID &&
+      payment.status !== PaymentStatus.PAID &&
+      result.amount !== undefined &&
+      !isSameAmount(result.amount, payment.amount)
+    ) {
+      console.error(
+        `Payment ${payment.id} amount mismatch: expected ${payment.amount}, gateway reported ${result.amount}`,
+      );
+      status = PaymentStatus.FAILED;
+      rawStatus = "amount_mismatch";
+    }
+
+    const now = new Date();
+    const existingMetadata = payment.metadata
+      ? JSON.parse(payment.metadata)
+      : {};
+
+    const updates = {
+      status,
+      rawStatus,
+      externalId: result.externalId || payment.externalId,
+      transactionId: result.transactionId || payment.transactionId,
+      metadata: JSON.stringify(
+        result.metadata
+          ? { ...existingMetadata, ...result.metadata }
+          : existingMetadata,
+      ),
+      paidAt:
+        status === PaymentStatus.PAID ? payment.paidAt || now : payment.paidAt,
+      updatedAt: now,
+    };
+
+    await this.db
+      .update(payments)
+      .set(updates)
+      .where(eq(payments.id, payment.id));
+
+    // Money only moves on the first paid (or refunded) result; the unique
+    // index keeps concurrent redirect + IPN callbacks from booking it twice
+    const entryType =
+      status === PaymentStatus.PAID && payment.status !== PaymentStatus.PAID
+        ? PaymentEntryType.PAYMENT
+        : status === PaymentStatus.REFUNDED &&
+            payment.status === PaymentStatus.PAID
+          ? PaymentEntryType.REFUND
+          : null;
+
+    if (entryType) {
+      await this.db
+        .insert(paymentEntries)
+        .values({
+          id: `pe_${nanoid()}`,
+          orderId: payment.orderId,
+          paymentId: payment.id,
+          type: entryType,
+          method: payment.providerType,
+          amount: payment.amount,
+          reference: updates.transactionId,
+          createdAt: now,
+        })
+        .onConflictDoNothing();
+    }
+
+    await this.syncOrderPaymentStatus(payment.orderId);
+
+    return { payment: { ...payment, ...updates } };
+  }
+
+  /**
+   * Recompute the order's paid amount from its ledger and derive its
+   * payment status. Gateway attempts only matter while nothing is paid.
+   */
+  async syncOrderPaymentStatus(orderId: string) {
+    const [order] = await this.db
+      .select({ totalAmount: orders.totalAmount })
+      .from(orders)
+      .where(eq(orders.id, orderId));
+
+    if (!order) {
+      return { paidAmount: 0, paymentStatus: PaymentStatus.UNPAID as string };
+    }
+
+    const entries = await this.db
+      .select({ type: paymentEntries.type, amount: paymentEntries.amount })
+      .from(paymentEntries)
+      .where(eq(paymentEntries.orderId, orderId));
+
+    let received = 0;
+    let refunded = 0;
+    for (const entry of entries) {
+      if (entry.type === PaymentEntryType.REFUND) refunded += entry.amount;
+      else received += entry.amount;
+    }
+    const paidAmount = Math.round((received - refunded) * 100) / 100;
+
+    const orderPayments = await this.db
+      .select({ status: payments.status })
+      .from(payments)
+      .where(eq(payments.orderId, orderId));
+    const statuses = new Set(orderPayments.map((p) => p.status));
+
+    let paymentStatus: string = PaymentStatus.UNPAID;
+    if (paidAmount > 0) {
+      paymentStatus =
+        getAmountDue({ totalAmount: order.totalAmount, paidAmount }) > 0
+          ? PaymentStatus.PARTIALLY_PAID
+          : PaymentStatus.PAID;
+    } else if (refunded > 0) {
+      paymentStatus = PaymentStatus.REFUNDED;
+    } else if (statuses.has(PaymentStatus.PENDING)) {
+      paymentStatus = PaymentStatus.PENDING;
+    } else if (
+      statuses.has(PaymentStatus.FAILED) ||
+      statuses.has(PaymentStatus.CANCELLED)
+    ) {
+      paymentStatus = PaymentStatus.FAILED;
+    }
+
+    await this.db
+      .update(orders)
+      .set({ paidAmount, paymentStatus, updatedAt: new Date() })
+      .where(eq(orders.id, orderId));
+
+    return { paidAmount, paymentStatus };
+  }
+}
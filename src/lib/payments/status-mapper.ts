@@ -0,0 +1,90 @@
+import { PaymentStatus, type PaymentProviderType } from "@/db/schema";
+
+/**
+ * Map provider-specific statuses to our standardized payment statuses
+ */
+export function mapProviderStatus(
+  providerType: PaymentProviderType,
+  status: string,
+): PaymentStatus {
+  switch (providerType) {
+    case "sslcommerz":
+      return mapSslcommerzStatus(status);
+    case "bkash":
+      return mapBkashStatus(status);
+    case "mock":
+      return mapMockStatus(status);
+    default:
+      return PaymentStatus.PENDING;
+  }
+}
+
+/**
+ * Map SSLCommerz validation/transaction statuses
+ * Based on SSLCommerz documentation
+ */
+function mapSslcommerzStatus(status: string): PaymentStatus {
+  switch (status.toUpperCase()) {
+    case "VALID":
+    case "VALIDATED":
+      return PaymentStatus.PAID;
+    case "PENDING":
+    case "UNATTEMPTED":
+      return PaymentStatus.PENDING;
+    case "CANCELLED":
+      return PaymentStatus.CANCELLED;
+    case "FAILED":
+    case "EXPIRED":
+    case "INVALID_TRANSACTION":
+      return PaymentStatus.FAILED;
+    default:
+      console.log(
+        `Unmapped SSLCommerz status: "${status}" - defaulting to ${PaymentStatus.PENDING}`,
+      );
+      return PaymentStatus.PENDING;
+  }
+}
+
+/**
+ * Map bKash tokenized checkout transaction statuses
+ * Based on bKash documentation
+ */
+function mapBkashStatus(status: string): PaymentStatus {
+  switch (status.toLowerCase()) {
+    case "completed":
+      return PaymentStatus.PAID;
+    case "initiated":
+    case "inprogress":
+    case "pending authorized":
+      return PaymentStatus.PENDING;
+    case "cancelled":
+    case "cancel":
+      return PaymentStatus.CANCELLED;
+    case "failed":
+    case "failure":
+    case "expired":
+    case "declined":
+      return PaymentStatus.FAILED;
+    default:
+      console.log(
+        `Unmapped bKash status: "${status}" - defaulting to ${PaymentStatus.PENDING}`,
+      );
+      return PaymentStatus.PENDING;
+  }
+}
+
+/**
+ * Map the mock provider's simulated outcomes
+ */
+function mapMockStatus(status: string): PaymentStatus {
+  switch (status) {
+    case "success":
+      return PaymentStatus.PAID;
+    case "cancel":
+      return PaymentStatus.CANCELLED;
+    case "failure":
+      return PaymentStatus.FAILED;
+    default:
+      return PaymentStatus.PENDING;
+  }
+}
@@ -0,0 +1,114 @@
+// Common interfaces
+export interface PaymentInitRequest {
+  paymentId: string; // Our payment ID, sent to the gateway as the transaction reference
+  amount: number;
+  currency: string;
+  callbackUrl: string; // Where the gateway sends the customer (and IPN) back to
+}
+
+export interface PaymentInitResult {
+  success: boolean;
+  message: string;
+  data?: {
+    externalId?: string;
+    redirectUrl?: string;
+    status?: string;
+    metadata?: any;
+  };
+}
+
+/**
+ * Outcome of a gateway callback or status query. `paymentId` and
+ * `externalId` identify which payment it belongs to; at least one is set.
+ */
+export interface PaymentResult {
+  paymentId?: string;
+  externalId?: string;
+  status: string;
+  rawStatus: string;
+  transactionId?: string;
+  amount?: number;
+  metadata?: any;
+}
+
+// SSLCommerz specific interfaces
+export interface SslcommerzCredentials {
+  baseUrl: string; // https://sandbox.sslcommerz.com or https://securepay.sslcommerz.com
+  storeId: string;
+  storePassword: string;
+}
+
+export interface SslcommerzConfig {
+  productCategory: string;
+}
+
+export interface SslcommerzInitResponse {
+  status: string; // SUCCESS or FAILED
+  failedreason?: string;
+  sessionkey?: string;
+  GatewayPageURL?: string;
+}
+
+export interface SslcommerzValidationResponse {
+  status: string; // VALID, VALIDATED, INVALID_TRANSACTION
+  tran_id: string;
+  val_id: string;
+  amount: string;
+  currency: string;
+  bank_tran_id: string;
+  card_type?: string;
+  tran_date?: string;
+}
+
+export interface SslcommerzTransactionQueryResponse {
+  APIConnect: string; // DONE, INVALID_REQUEST, FAILED, INACTIVE
+  no_of_trans_found?: number;
+  element?: {
+    val_id: string;
+    status: string;
+    tran_id: string;
+    amount: string;
+    bank_tran_id: string;
+    tran_date: string;
+  }[];
+}
+
+// bKash (tokenized checkout) specific interfaces
+export interface BkashCredentials {
+  baseUrl: string; // e.g. https://tokenized.sandbox.bka.sh/v1.2.0-beta
+  appKey: string;
+  appSecret: string;
+  username: string;
+  password: string;
+}
+
+export interface BkashConfig {
+  intent: string; // sale
+}
+
+export interface BkashTokenResponse {
+  statusCode: string;
+  statusMessage: string;
+  id_token: string;
+  refresh_token: string;
+  expires_in: number;
+}
+
+export interface BkashPaymentResponse {
+  statusCode: string; // 0000 on success
+  statusMessage: string;
+  paymentID: string;
+  bkashURL?: string;
+  trxID?: string;
+  transactionStatus?: string; // Initiated, Completed, Cancelled, Failed, ...
+  amount?: string;
+  currency?: string;
+  merchantInvoiceNumber?: string;
+}
+
+// Mock provider
+export interface MockCredentials {}
+
+export interface MockConfig {
+  outcome: "success" | "failure" | "cancel"; // What the simulated gateway reports
+}
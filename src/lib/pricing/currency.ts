@@ -0,0 +1,250 @@
+import type { Database } from "@/db";
+import { currencies, RoundingMode } from "@/db/schema";
+import { CACHE_KEYS, layoutCache } from "@/lib/layout-cache";
+import type { ProductFacets } from "@/lib/catalog/facets";
+import type { OrderPricing } from "./order-pricing";
+
+import { and, asc, desc, eq, isNull } from "drizzle-orm";
+
+// Catalog prices, carts and orders are priced in the base currency. Display
+// currencies only change how amounts are shown: base amounts are multiplied
+// by the exchange rate and rounded by the currency's rules.
+
+export interface StoreCurrency {
+  code: string;
+  name: string;
+  symbol: string;
+  exchangeRate: number;
+  decimalPlaces: number;
+  roundingMode: string;
+  roundingIncrement: number | null;
+  isBase: boolean;
+}
+
+export interface StoreCurrencies {
+  base: StoreCurrency;
+  // Active currencies, the base one first
+  currencies: StoreCurrency[];
+}
+
+// Used until a base currency is configured
+const FALLBACK_BASE: StoreCurrency = {
+  code: "BDT",
+  name: "Bangladeshi Taka",
+  symbol: "৳",
+  exchangeRate: 1,
+  decimalPlaces: 0,
+  roundingMode: RoundingMode.NEAREST,
+  roundingIncrement: null,
+  isBase: true,
+};
+
+/**
+ * The store's base currency and the display currencies shoppers can pick
+ */
+export async function getStoreCurrencies(
+  db: Database,
+): Promise<StoreCurrencies> {
+  const cached = layoutCache.get<StoreCurrencies>(CACHE_KEYS.STORE_CURRENCIES);
+  if (cached) return cached;
+
+  const rows = await db
+    .select({
+      code: currencies.code,
+      name: currencies.name,
+      symbol: currencies.symbol,
+      exchangeRate: currencies.exchangeRate,
+      decimalPlaces: currencies.decimalPlaces,
+      roundingMode: currencies.roundingMode,
+      roundingIncrement: currencies.roundingIncrement,
+      isBase: currencies.isBase,
+    })
+    .from(currencies)
+    .where(and(eq(currencies.isActive, true), isNull(currencies.deletedAt)))
+    .orderBy(desc(currencies.isBase), asc(currencies.sortOrder));
+
+  // The base currency converts at 1 whatever its stored rate
+  const baseRow = rows.find((row) => row.isBase);
+  const base = baseRow ? { ...baseRow, exchangeRate: 1 } : FALLBACK_BASE;
+  const storeCurrencies = {
+    base,
+    currencies: [base, ...rows.filter((row) => !row.isBase)],
+  };
+
+  layoutCache.set(CACHE_KEYS.STORE_CURRENCIES, storeCurrencies);
+  return storeCurrencies;
+}
+
+/**
+ * The active currency with the given code, or null when there is none
+ */
+export function findCurrency(
+  store: StoreCurrencies,
+  code: string,
+): StoreCurrency | null {
+  const upper = code.trim().toUpperCase();
+  return store.currencies.find((currency) => currency.code === upper) ?? null;
+}
+
+/**
+ * Round an amount by the currency's rounding mode and increment
+ */
+export function roundForCurrency(
+  amount: number,
+  currency: StoreCurrency,
+): number {
+  const round =
+    currency.roundingMode === RoundingMode.UP
+      ? Math.ceil
+      : currency.roundingMode === RoundingMode.DOWN
+        ? Math.floor
+        : Math.round;
+  const factor = 10 ** currency.decimalPlaces;
+
+  // Nudge away from float noise such as 12.000000001 before ceil/floor
+  const step = currency.roundingIncrement || 1 / factor;
+  const rounded = round(Number((amount / step).toFixed(6))) * step;
+  return Math.round(rounded * factor) / factor;
+}
+
+/**
+ * A base currency amount in the given currency. A null currency is the
+ * base currency, which needs no conversion.
+ */
+export function convertPrice(
+  amount: number,
+  currency: StoreCurrency | null,
+): number {
+  if (!currency || currency.isBase) return amount;
+  return roundForCurrency(amount * currency.exchangeRate, currency);
+}
+
+/**
+ * An amount in the given currency back in the base currency, unrounded.
+ * Used for price filters entered in a display currency.
+ */
+export function toBaseAmount(
+  amount: number,
+  currency: StoreCurrency | null,
+): number {
+  if (!currency || currency.isBase) return amount;
+  return amount / currency.exchangeRate;
+}
+
+// Amounts of a product or variant as the storefront endpoints return them
+export const PRODUCT_PRICE_FIELDS = [
+  "price",
+  "discountAmount",
+  "discountedPrice",
+] as const;
+
+/**
+ * Copy of a record with the given price fields in the given currency.
+ * Null and missing fields are left as they are.
+ */
+export function convertPrices<T extends object>(
+  record: T,
+  fields: readonly string[],
+  currency: StoreCurrency | null,
+): T {
+  if (!currency || currency.isBase) return record;
+
+  const converted = { ...record } as Record<string, unknown>;
+  for (const field of fields) {
+    const value = converted[field];
+    if (typeof value === "number") {
+      converted[field] = convertPrice(value, currency);
+    }
+  }
+  return converted as T;
+}
+
+/**
+ * Price facet bounds and ranges in the given currency
+ */
+export function convertPriceFacet(
+  price: ProductFacets["price"],
+  currency: StoreCurrency | null,
+): ProductFacets["price"] {
+  if (!currency || currency.isBase) return price;
+
+  return {
+    min: price.min === null ? null : convertPrice(price.min, currency),
+    max: price.max === null ? null : convertPrice(price.max, currency),
+    ranges: price.ranges.map((range) => ({
+      ...range,
+      min: convertPrice(range.min, currency),
+      max: convertPrice(range.max, currency),
+    })),
+  };
+}
+
+/**
+ * An order priced in the base currency, as shown in a display currency.
+ *
+ * Unit prices, the shipping charge and each discount are converted on their
+ * own and the totals are summed from them, so the figures add up the same
+ * way the storefront adds up converted product prices.
+ */
+export function convertOrderPricing(
+  pricing: OrderPricing,
+  currency: StoreCurrency | null,
+): OrderPricing {
+  if (!currency || currency.isBase) return pricing;
+
+  const round = (value: number) =>
+    Math.round(value * 10 ** currency.decimalPlaces) /
+    10 ** currency.decimalPlaces;
+
+  const lines = pricing.lines.map((line) => {
+    const basePrice = convertPrice(line.basePrice, currency);
+    const unitPrice = convertPrice(line.unitPrice, currency);
+    return {
+      ...line,
+      basePrice,
+      unitPrice,
+      productDiscount: round(basePrice - unitPrice),
+      lineTotal: round(unitPrice * line.quantity),
+    };
+  });
+  const subtotal = round(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+  const productDiscountTotal = round(
+    lines.reduce((sum, line) => sum + line.productDiscount * line.quantity, 0),
+  );
+
+  const charge = convertPrice(pricing.shipping.charge, currency);
+  const discounts = pricing.discounts.map((discount) => ({
+    ...discount,
+    amount: convertPrice(discount.amount, currency),
+  }));
+  const discountAmount = round(
+    discounts.reduce((sum, discount) => sum + discount.amount, 0),
+  );
+
+  return {
+    ...pricing,
+    lines,
+    subtotal,
+    productDiscountTotal,
+    shipping: {
+      ...pricing.shipping,
+      fee: convertPrice(pricing.shipping.fee, currency),
+      charge,
+    },
+    discounts,
+    discountAmount,
+    totalAmount: round(Math.max(0, subtotal + charge - discountAmount)),
+  };
+}
+
+/**
+ * How a response's prices are expressed, for storefronts to format them
+ */
+export function currencyDetails(currency: StoreCurrency) {
+  return {
+    code: currency.code,
+    symbol: currency.symbol,
+    decimalPlaces: currency.decimalPlaces,
+    exchangeRate: currency.exchangeRate,
+  };
+}
@@ -0,0 +1,481 @@
+import type { Database } from "@/db";
+import {
+  discounts,
+  discountProducts,
+  discountCollections,
+  discountUsage,
+  orders,
+  collections,
+  products,
+  DiscountType,
+  DiscountValueType,
+} from "@/db/schema";
+import { eq, sql, and, isNull, count, inArray } from "drizzle-orm";
+
+export interface DiscountCartItem {
+  id: string; // product ID
+  price: number;
+  quantity: number;
+  variantId?: string;
+}
+
+export interface ValidatedDiscount {
+  id: string;
+  code: string;
+  type: string;
+  valueType: string;
+  discountValue: number;
+  minPurchaseAmount: number | null;
+  combineWithProductDiscounts: boolean | null;
+  combineWithOrderDiscounts: boolean | null;
+  combineWithShippingDiscounts: boolean | null;
+}
+
+export interface DiscountCombinability {
+  withProductDiscounts: boolean;
+  withOrderDiscounts: boolean;
+  withShippingDiscounts: boolean;
+}
+
+export type DiscountValidationResult =
+  | { valid: true; discount: ValidatedDiscount }
+  | {
+      valid: false;
+      error: string;
+      minPurchaseAmount?: number;
+      minQuantity?: number;
+    };
+
+// Helper function to expand collections to product IDs
+export async function expandCollectionsToProductIds(
+  db: Database,
+  collectionIds: string[],
+): Promise<Set<string>> {
+  const productIds = new Set<string>();
+
+  if (collectionIds.length === 0) {
+    return productIds;
+  }
+
+  try {
+    // Get all collections
+    const collectionsData = await db
+      .select()
+      .from(collections)
+      .where(
+        and(
+          inArray(collections.id, collectionIds),
+          eq(collections.isActive, true),
+          isNull(collections.deletedAt),
+        ),
+      )
+      .all();
+
+    // Extract all category IDs and product IDs from configs
+    const allCategoryIds = new Set<string>();
+    const allProductIds = new Set<string>();
+
+    for (const collection of collectionsData) {
+      try {
+        const config = JSON.parse(collection.config);
+
+        // Add category IDs from new schema (config.categoryIds)
+        if (Array.isArray(config.categoryIds)) {
+          config.categoryIds.forEach((id: string) => allCategoryIds.add(id));
+        }
+
+        // Add product IDs from new schema (config.productIds)
+        if (Array.isArray(config.productIds)) {
+          config.productIds.forEach((id: string) => allProductIds.add(id));
+        }
+
+        // Backward compatibility: old schema support
+        // Add old categoryId field (if exists in config or collection)
+        if (config.categoryId) {
+          allCategoryIds.add(config.categoryId);
+        }
+        // @ts-ignore - categoryId may still exist during migration
+        if (collection.categoryId) {
+          // @ts-ignore
+          allCategoryIds.add(collection.categoryId);
+        }
+
+        // Add old specificProductIds
+        if (Array.isArray(config.specificProductIds)) {
+          config.specificProductIds.forEach((id: string) =>
+            allProductIds.add(id),
+          );
+        }
+
+        // Add old specificCategoryIds
+        if (Array.isArray(config.specificCategoryIds)) {
+          config.specificCategoryIds.forEach((id: string) =>
+            allCategoryIds.add(id),
+          );
+        }
+      } catch (error) {
+        console.error(
+          `Error parsing collection config for ${collection.id}:`,
+          error,
+        );
+      }
+    }
+
+    // Add directly specified product IDs
+    allProductIds.forEach((id) => productIds.add(id));
+
+    // Get all products from the specified categories
+    if (allCategoryIds.size > 0) {
+      const productsFromCategories = await db
+        .select({ id: products.id })
+        .from(products)
+        .where(
+          and(
+            inArray(products.categoryId, Array.from(allCategoryIds)),
+            eq(products.isActive, true),
+            isNull(products.deletedAt),
+          ),
+        )
+        .all();
+
+      productsFromCategories.forEach((p) => productIds.add(p.id));
+    }
+  } catch (error) {
+    console.error("Error expanding collections to product IDs:", error);
+  }
+
+  return productIds;
+}
+
+/**
+ * Get the product IDs a product-level discount applies to, from both the
+ * directly linked products and the linked collections.
+ * An empty set means the discount is not restricted to specific products.
+ */
+export async function getApplicableProductIds(
+  db: Database,
+  discountId: string,
+): Promise<Set<string>> {
+  const applicableProductIds = new Set<string>();
+
+  try {
+    // Get directly linked product IDs
+    const discountProductsResult = await db
+      .select({ productId: discountProducts.productId })
+      .from(discountProducts)
+      .where(eq(discountProducts.discountId, discountId))
+      .all();
+
+    discountProductsResult.forEach((dp) =>
+      applicableProductIds.add(dp.productId),
+    );
+
+    // Get product IDs from linked collections
+    const discountCollectionsResult = await db
+      .select({ collectionId: discountCollections.collectionId })
+      .from(discountCollections)
+      .where(eq(discountCollections.discountId, discountId))
+      .all();
+
+    if (discountCollectionsResult.length > 0) {
+      const collectionIds = discountCollectionsResult.map(
+        (dc) => dc.collectionId,
+      );
+      const productIdsFromCollections = await expandCollectionsToProductIds(
+        db,
+        collectionIds,
+      );
+      productIdsFromCollections.forEach((id) => applicableProductIds.add(id));
+    }
+  } catch (error) {
+    console.error("Error loading applicable products for discount:", error);
+  }
+
+  return applicableProductIds;
+}
+
+// Helper function to check if a discount is valid
+export async function isDiscountValid(
+  db: Database,
+  code: string,
+  total?: number,
+  cartItems: DiscountCartItem[] = [],
+  customerPhone?: string,
+): Promise<DiscountValidationResult> {
+  // Get current timestamp
+  const currentTime = Math.floor(Date.now() / 1000);
+
+  // Query the discount code
+  const discount = await db
+    .select()
+    .from(discounts)
+    .where(
+      and(
+        eq(discounts.code, code),
+        eq(discounts.isActive, true),
+        isNull(discounts.deletedAt),
+        sql`${discounts.startDate} <= ${currentTime}`,
+        sql`(${discounts.endDate} IS NULL OR ${discounts.endDate} > ${currentTime})`,
+      ),
+    )
+    .get();
+
+  if (!discount) {
+    return { valid: false, error: "Invalid discount code" };
+  }
+
+  // Check if minimum purchase amount is met
+  if (
+    discount.minPurchaseAmount &&
+    total !== undefined &&
+    total < discount.minPurchaseAmount
+  ) {
+    return {
+      valid: false,
+      error: `Minimum purchase amount of ৳${discount.minPurchaseAmount} not met`,
+      minPurchaseAmount: discount.minPurchaseAmount,
+    };
+  }
+
+  // Check minimum quantity
+  if (discount.minQuantity) {
+    const totalQuantity = cartItems.reduce(
+      (sum, item) => sum + item.quantity,
+      0,
+    );
+    if (totalQuantity < discount.minQuantity) {
+      return {
+        valid: false,
+        error: `Minimum quantity of ${discount.minQuantity} items not met`,
+        minQuantity: discount.minQuantity,
+      };
+    }
+  }
+
+  // Check total usage limit
+  if (discount.maxUses) {
+    try {
+      // Convert count to an explicit expression with aliasing to ensure proper typing
+      const countExpr = count().as("count");
+      const usageCountResult = await db
+        .select({ count: countExpr })
+        .from(discountUsage)
+        .where(eq(discountUsage.discountId, discount.id))
+        .get();
+
+      const usageCount = usageCountResult?.count || 0;
+      console.log(
+        `Discount ${discount.code} usage count: ${usageCount}/${discount.maxUses}`,
+      );
+
+      if (usageCount >= discount.maxUses) {
+        return {
+          valid: false,
+          error: "Discount code has reached its usage limit",
+        };
+      }
+    } catch (error) {
+      console.error("Error checking discount usage count:", error);
+      // Don't fail the validation, just log the error
+    }
+  }
+
+  // Check usage limit per customer (requires customerPhone)
+  if (discount.limitOnePerCustomer && customerPhone) {
+    try {
+      // Check discountUsage joined with orders for the phone number
+      console.log(`Checking one-use-per-customer for phone: ${customerPhone}`);
+
+      const customerUsageResult = await db
+        .select({ id: discountUsage.id })
+        .from(discountUsage)
+        .leftJoin(orders, eq(discountUsage.orderId, orders.id))
+        .where(
+          and(
+            eq(discountUsage.discountId, discount.id),
+            eq(orders.customerPhone, customerPhone),
+          ),
+        )
+        .limit(1)
+        .get();
+
+      if (customerUsageResult) {
+        console.log(
+          `Found previous usage for ${customerPhone} for discount ${discount.code}`,
+        );
+        return {
+          valid: false,
+          error: "This discount code can only be used once per customer",
+        };
+      } else {
+        console.log(`No previous usage found for ${customerPhone}`);
+      }
+    } catch (error) {
+      console.error("Error checking customer discount usage:", error);
+      // Don't fail the validation, just log the error
+    }
+  } else if (discount.limitOnePerCustomer && !customerPhone) {
+    console.log(
+      "One-use-per-customer discount, but no phone provided - validation will happen at checkout",
+    );
+  }
+
+  // For product-specific discounts, check if applicable products/collections are in cart
+  if (discount.type === DiscountType.AMOUNT_OFF_PRODUCTS) {
+    const applicableProductIds = await getApplicableProductIds(db, discount.id);
+
+    // If we have specific product/collection restrictions and none of the cart items match
+    if (
+      applicableProductIds.size > 0 &&
+      !cartItems.some((item) => applicableProductIds.has(item.id))
+    ) {
+      return {
+        valid: false,
+        error: "Discount code is not applicable to the items in your cart",
+      };
+    }
+  }
+
+  // All checks passed
+  return {
+    valid: true,
+    discount: {
+      id: discount.id,
+      code: discount.code,
+      type: discount.type,
+      valueType: discount.valueType,
+      discountValue: discount.discountValue,
+      minPurchaseAmount: discount.minPurchaseAmount,
+      combineWithProductDiscounts: discount.combineWithProductDiscounts,
+      combineWithOrderDiscounts: discount.combineWithOrderDiscounts,
+      combineWithShippingDiscounts: discount.combineWithShippingDiscounts,
+    },
+  };
+}
+
+/**
+ * Calculate the discount amount for a validated discount.
+ *
+ * `total` is the cart total including shipping; `applicableProductIds`
+ * comes from getApplicableProductIds() and is only used for product discounts.
+ */
+export function calculateDiscountAmount(
+  discount: {
+    id: string;
+    type: string;
+    valueType: string;
+    discountValue: number;
+  },
+  total: number,
+  cartItems: DiscountCartItem[],
+  shippingCost: number = 0,
+  applicableProductIds: Set<string> = new Set<string>(),
+): number {
+  if (discount.type === DiscountType.FREE_SHIPPING) {
+    // Return the actual shipping cost as the discount amount
+    return shippingCost;
+  }
+
+  if (discount.type === DiscountType.AMOUNT_OFF_ORDER) {
+    if (discount.valueType === DiscountValueType.PERCENTAGE) {
+      // Calculate percentage off the subtotal (total before shipping)
+      const subTotal = total - shippingCost;
+      const calculatedDiscount = (subTotal * discount.discountValue) / 100;
+      return Math.min(subTotal, calculatedDiscount); // Discount cannot exceed subtotal
+    } else if (discount.valueType === DiscountValueType.FIXED_AMOUNT) {
+      const subTotal = total - shippingCost;
+      return Math.min(subTotal, discount.discountValue);
+    }
+  }
+
+  if (discount.type === DiscountType.AMOUNT_OFF_PRODUCTS) {
+    const subTotal = total - shippingCost;
+
+    // For simplicity and consistent behavior, if no cart items provided
+    // just apply to the full subtotal (this is the fallback behavior)
+    if (!cartItems || cartItems.length === 0) {
+      if (discount.valueType === DiscountValueType.PERCENTAGE) {
+        const calculatedDiscount = (subTotal * discount.discountValue) / 100;
+        return Math.min(subTotal, calculatedDiscount);
+      } else if (discount.valueType === DiscountValueType.FIXED_AMOUNT) {
+        return Math.min(subTotal, discount.discountValue);
+      }
+      return 0;
+    }
+
+    // Calculate total of applicable products
+    let applicableProductsTotal = 0;
+    for (const item of cartItems) {
+      if (applicableProductIds.has(item.id)) {
+        applicableProductsTotal += item.price * item.quantity;
+      }
+    }
+
+    // If no specific products found in cart or empty applicableProductIds,
+    // apply to the entire subtotal
+    if (applicableProductsTotal === 0 || applicableProductIds.size === 0) {
+      applicableProductsTotal = subTotal;
+    }
+
+    if (discount.valueType === DiscountValueType.PERCENTAGE) {
+      const calculatedDiscount =
+        (applicableProductsTotal * discount.discountValue) / 100;
+      return Math.min(applicableProductsTotal, calculatedDiscount);
+    } else if (discount.valueType === DiscountValueType.FIXED_AMOUNT) {
+      return Math.min(applicableProductsTotal, discount.discountValue);
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Which other kinds of discount codes a discount may be combined with.
+ * Free shipping combines with product/order codes, and product/order codes
+ * combine with shipping codes, unless the discount's own flags say otherwise.
+ */
+export function getDiscountCombinability(discount: {
+  type: string;
+  combineWithProductDiscounts: boolean | null;
+  combineWithOrderDiscounts: boolean | null;
+  combineWithShippingDiscounts: boolean | null;
+}): DiscountCombinability {
+  return {
+    withProductDiscounts:
+      discount.type === DiscountType.FREE_SHIPPING ||
+      !!discount.combineWithProductDiscounts,
+
+    withOrderDiscounts:
+      discount.type === DiscountType.AMOUNT_OFF_PRODUCTS ||
+      !!discount.combineWithOrderDiscounts,
+
+    withShippingDiscounts:
+      discount.type === DiscountType.AMOUNT_OFF_ORDER ||
+      discount.type === DiscountType.AMOUNT_OFF_PRODUCTS ||
+      !!discount.combineWithShippingDiscounts,
+  };
+}
+
+/**
+ * Whether two validated discounts can be applied to the same order
+ */
+export function canCombineDiscounts(
+  a: ValidatedDiscount,
+  b: ValidatedDiscount,
+): boolean {
+  const allows = (from: ValidatedDiscount, other: ValidatedDiscount) => {
+    const combinable = getDiscountCombinability(from);
+    switch (other.type) {
+      case DiscountType.AMOUNT_OFF_PRODUCTS:
+        return combinable.withProductDiscounts;
+      case DiscountType.AMOUNT_OFF_ORDER:
+        return combinable.withOrderDiscounts;
+      case DiscountType.FREE_SHIPPING:
+        return combinable.withShippingDiscounts;
+      default:
+        return false;
+    }
+  };
+
+  return allows(a, b) && allows(b, a);
+}
@@ -0,0 +1,378 @@
+import type { Database } from "@/db";
+import {
+  products,
+  productVariants,
+  shippingMethods,
+  DiscountType,
+  ProductType,
+  type BundleComponent,
+} from "@/db/schema";
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+import {
+  getBundleAvailability,
+  getBundleComponents,
+} from "@/lib/catalog/bundles";
+import { resolveUnitPrice } from "./product-price";
+import {
+  isDiscountValid,
+  calculateDiscountAmount,
+  getApplicableProductIds,
+  canCombineDiscounts,
+  type DiscountCartItem,
+  type ValidatedDiscount,
+} from "./discount-codes";
+
+/**
+ * Maximum difference (in taka) tolerated between a client-computed total
+ * and the server price before the order is treated as a mismatch.
+ * Absorbs rounding differences between storefront and server.
+ */
+export const PRICE_TOLERANCE = 1;
+
+export interface OrderLineInput {
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+}
+
+export interface PriceOrderInput {
+  items: OrderLineInput[];
+  shippingMethodId?: string | null;
+  // Only used when no shipping method is given, to match it against the
+  // configured method fees (or as-is when no methods are configured)
+  shippingCharge?: number;
+  discountCodes?: string[];
+  customerPhone?: string;
+}
+
+export interface PricedOrderLine {
+  productId: string;
+  variantId: string | null;
+  productName: string;
+  quantity: number;
+  basePrice: number;
+  unitPrice: number;
+  productDiscount: number; // per unit
+  lineTotal: number;
+  freeDelivery: boolean;
+  availableStock: number | null; // null when stock is not tracked for the line
+  inStock: boolean;
+  // Current components when the product is a bundle, to save on the order
+  bundleComponents: BundleComponent[] | null;
+}
+
+export interface AppliedDiscount {
+  id: string;
+  code: string;
+  type: string;
+  amount: number;
+}
+
+export interface OrderPricing {
+  lines: PricedOrderLine[];
+  subtotal: number;
+  productDiscountTotal: number;
+  shipping: {
+    methodId: string | null;
+    methodName: string | null;
+    fee: number;
+    freeDelivery: boolean;
+    charge: number;
+  };
+  discounts: AppliedDiscount[];
+  discountErrors: { code: string; error: string }[];
+  discountAmount: number; // order-level total of all applied codes
+  totalAmount: number;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Whether two amounts differ by more than PRICE_TOLERANCE
+ */
+export function exceedsPriceTolerance(a: number, b: number): boolean {
+  return Math.abs(a - b) > PRICE_TOLERANCE;
+}
+
+/**
+ * Price an order from the catalog.
+ *
+ * Every line is re-priced from products/productVariants (including their own
+ * discounts), discount codes are re-validated, and the shipping charge is
+ * taken from the selected shipping method. Client-supplied prices are never
+ * used. Throws `VALIDATION_ERROR:` errors for unknown products, variants or
+ * shipping methods.
+ */
+export async function priceOrder(
+  db: Database,
+  input: PriceOrderInput,
+): Promise<OrderPricing> {
+  const productIds = [...new Set(input.items.map((item) => item.productId))];
+  const variantIds = [
+    ...new Set(
+      input.items
+        .map((item) => item.variantId)
+        .filter((id): id is string => !!id),
+    ),
+  ];
+
+  if (productIds.length === 0) {
+    throw new Error("VALIDATION_ERROR:Order must contain at least one item.");
+  }
+
+  const [productRows, variantRows, methodRows] = await db.batch([
+    db
+      .select({
+        id: products.id,
+        name: products.name,
+        price: products.price,
+        discountType: products.discountType,
+        discountPercentage: products.discountPercentage,
+        discountAmount: products.discountAmount,
+        freeDelivery: products.freeDelivery,
+        type: products.type,
+      })
+      .from(products)
+      .where(
+        and(
+          inArray(products.id, productIds),
+          eq(products.isActive, true),
+          isNull(products.deletedAt),
+        ),
+      ),
+    db
+      .select({
+        id: productVariants.id,
+        productId: productVariants.productId,
+        price: productVariants.price,
+        stock: productVariants.stock,
+        discountType: productVariants.discountType,
+        discountPercentage: productVariants.discountPercentage,
+        discountAmount: productVariants.discountAmount,
+      })
+      .from(productVariants)
+      .where(
+        variantIds.length > 0
+          ? and(
+              inArray(productVariants.id, variantIds),
+              isNull(productVariants.deletedAt),
+            )
+          : sql`0`,
+      ),
+    db
+      .select({
+        id: shippingMethods.id,
+        name: shippingMethods.name,
+        fee: shippingMethods.fee,
+      })
+      .from(shippingMethods)
+      .where(
+        and(
+          eq(shippingMethods.isActive, true),
+          isNull(shippingMethods.deletedAt),
+        ),
+      ),
+  ]);
+
+  const productMap = new Map(productRows.map((p) => [p.id, p]));
+  const bundleIds = productRows
+    .filter((p) => p.type === ProductType.BUNDLE)
+    .map((p) => p.id);
+  const [bundleComponents, bundleAvailability] = await Promise.all([
+    getBundleComponents(db, bundleIds),
+    getBundleAvailability(db, bundleIds),
+  ]);
+  const variantMap = new Map(variantRows.map((v) => [v.id, v]));
+
+  // 1. Re-price every line
+  const lines: PricedOrderLine[] = input.items.map((item) => {
+    const product = productMap.get(item.productId);
+    if (!product) {
+      throw new Error(
+        `VALIDATION_ERROR:Product ${item.productId} not found or unavailable.`,
+      );
+    }
+
+    const isBundle = product.type === ProductType.BUNDLE;
+    if (isBundle && item.variantId) {
+      throw new Error(
+        `VALIDATION_ERROR:Bundle ${product.id} cannot be ordered by variant.`,
+      );
+    }
+
+    let variant = null;
+    if (item.variantId) {
+      variant = variantMap.get(item.variantId);
+      if (!variant || variant.productId !== product.id) {
+        throw new Error(
+          `VALIDATION_ERROR:Variant ${item.variantId} not found.`,
+        );
+      }
+    }
+
+    const { basePrice, unitPrice } = resolveUnitPrice(product, variant);
+    // A bundle is in stock as far as its components are
+    const availableStock = isBundle
+      ? (bundleAvailability.get(product.id) ?? 0)
+      : variant
+        ? variant.stock
+        : null;
+
+    return {
+      productId: product.id,
+      variantId: item.variantId,
+      productName: product.name,
+      quantity: item.quantity,
+      basePrice,
+      unitPrice,
+      productDiscount: roundMoney(basePrice - unitPrice),
+      lineTotal: roundMoney(unitPrice * item.quantity),
+      freeDelivery: product.freeDelivery,
+      availableStock,
+      inStock: availableStock === null || availableStock >= item.quantity,
+      bundleComponents: isBundle
+        ? (bundleComponents.get(product.id) ?? [])
+        : null,
+    };
+  });
+
+  const subtotal = roundMoney(
+    lines.reduce((sum, line) => sum + line.lineTotal, 0),
+  );
+  const productDiscountTotal = roundMoney(
+    lines.reduce((sum, line) => sum + line.productDiscount * line.quantity, 0),
+  );
+
+  // 2. Shipping - a free-delivery product in the cart waives the charge
+  let method: (typeof methodRows)[number] | undefined;
+  if (input.shippingMethodId) {
+    method = methodRows.find((m) => m.id === input.shippingMethodId);
+    if (!method) {
+      throw new Error(
+        `VALIDATION_ERROR:Shipping method ${input.shippingMethodId} not found.`,
+      );
+    }
+  } else if (methodRows.length > 0) {
+    // Legacy clients send only the charge: match it against the configured
+    // fees, falling back to the cheapest method so a real price is enforced
+    method =
+      methodRows.find((m) => m.fee === input.shippingCharge) ??
+      methodRows.reduce((cheapest, m) => (m.fee < cheapest.fee ? m : cheapest));
+  }
+
+  const fee = method ? method.fee : (input.shippingCharge ?? 0);
+  const freeDelivery = lines.some((line) => line.freeDelivery);
+  const shippingCharge = freeDelivery ? 0 : fee;
+
+  // 3. Discount codes, validated against the server-priced cart.
+  // Product codes apply first, then order codes on what remains, then
+  // shipping codes. A code that cannot combine with one already applied
+  // is skipped and reported.
+  const cartItems: DiscountCartItem[] = lines.map((line) => ({
+    id: line.productId,
+    price: line.unitPrice,
+    quantity: line.quantity,
+    variantId: line.variantId ?? undefined,
+  }));
+
+  const validated: ValidatedDiscount[] = [];
+  const discountErrors: OrderPricing["discountErrors"] = [];
+  const codes = [...new Set(input.discountCodes ?? [])].filter(Boolean);
+
+  for (const code of codes) {
+    const validation = await isDiscountValid(
+      db,
+      code,
+      subtotal,
+      cartItems,
+      input.customerPhone,
+    );
+
+    if (!validation.valid) {
+      discountErrors.push({ code, error: validation.error });
+      continue;
+    }
+
+    const conflict = validated.find(
+      (applied) => !canCombineDiscounts(applied, validation.discount),
+    );
+    if (conflict) {
+      discountErrors.push({
+        code,
+        error: `Discount code cannot be combined with ${conflict.code}`,
+      });
+      continue;
+    }
+
+    validated.push(validation.discount);
+  }
+
+  const applicationOrder: string[] = [
+    DiscountType.AMOUNT_OFF_PRODUCTS,
+    DiscountType.AMOUNT_OFF_ORDER,
+    DiscountType.FREE_SHIPPING,
+  ];
+  validated.sort(
+    (a, b) =>
+      applicationOrder.indexOf(a.type) - applicationOrder.indexOf(b.type),
+  );
+
+  const discounts: AppliedDiscount[] = [];
+  let remainingSubtotal = subtotal;
+
+  for (const discount of validated) {
+    const applicableProductIds =
+      discount.type === DiscountType.AMOUNT_OFF_PRODUCTS
+        ? await getApplicableProductIds(db, discount.id)
+        : undefined;
+
+    const amount = roundMoney(
+      Math.min(
+        calculateDiscountAmount(
+          discount,
+          remainingSubtotal + shippingCharge,
+          cartItems,
+          shippingCharge,
+          applicableProductIds,
+        ),
+        discount.type === DiscountType.FREE_SHIPPING
+          ? shippingCharge
+          : remainingSubtotal,
+      ),
+    );
+
+    if (discount.type !== DiscountType.FREE_SHIPPING) {
+      remainingSubtotal = roundMoney(remainingSubtotal - amount);
+    }
+
+    discounts.push({
+      id: discount.id,
+      code: discount.code,
+      type: discount.type,
+      amount,
+    });
+  }
+
+  const discountAmount = roundMoney(
+    discounts.reduce((sum, discount) => sum + discount.amount, 0),
+  );
+
+  return {
+    lines,
+    subtotal,
+    productDiscountTotal,
+    shipping: {
+      methodId: method?.id ?? null,
+      methodName: method?.name ?? null,
+      fee,
+      freeDelivery,
+      charge: shippingCharge,
+    },
+    discounts,
+    discountErrors,
+    discountAmount,
+    totalAmount: roundMoney(
+      Math.max(0, subtotal + shippingCharge - discountAmount),
+    ),
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Product and variant price resolution shared by the storefront listing,
+ * product detail and order endpoints.
+ */
+
+export interface PriceSource {
+  price: number;
+  discountType: string | null;
+  discountPercentage: number | null;
+  discountAmount: number | null;
+}
+
+export interface ResolvedUnitPrice {
+  basePrice: number;
+  unitPrice: number;
+  discountSource: "variant" | "product" | null;
+}
+
+/**
+ * Apply a per-product (or per-variant) discount to a price.
+ * Results are rounded to whole taka, matching what the product listing shows.
+ */
+export function calculateDiscountedPrice(
+  price: number,
+  discountType: string | null,
+  discountPercentage: number | null,
+  discountAmount: number | null,
+): number {
+  if (discountType === "flat" && discountAmount) {
+    return Math.max(0, Math.round(price - discountAmount));
+  } else if (discountType === "percentage" && discountPercentage) {
+    return Math.round(price * (1 - discountPercentage / 100));
+  }
+  return price;
+}
+
+/**
+ * Whether a product or variant carries a discount of its own
+ */
+export function hasOwnDiscount(source: PriceSource): boolean {
+  if (source.discountType === "flat") {
+    return (source.discountAmount || 0) > 0;
+  }
+  if (source.discountType === "percentage") {
+    return (source.discountPercentage || 0) > 0;
+  }
+  return false;
+}
+
+/**
+ * Resolve the price a customer pays for one unit.
+ *
+ * A variant's own discount takes precedence. Otherwise the product-level
+ * discount is applied to the variant price (or to the product price when
+ * no variant is selected).
+ */
+export function resolveUnitPrice(
+  product: PriceSource,
+  variant?: PriceSource | null,
+): ResolvedUnitPrice {
+  const basePrice = variant ? variant.price : product.price;
+
+  if (variant && hasOwnDiscount(variant)) {
+    return {
+      basePrice,
+      unitPrice: calculateDiscountedPrice(
+        basePrice,
+        variant.discountType,
+        variant.discountPercentage,
+        variant.discountAmount,
+      ),
+      discountSource: "variant",
+    };
+  }
+
+  if (hasOwnDiscount(product)) {
+    return {
+      basePrice,
+      unitPrice: calculateDiscountedPrice(
+        basePrice,
+        product.discountType,
+        product.discountPercentage,
+        product.discountAmount,
+      ),
+      discountSource: "product",
+    };
+  }
+
+  return { basePrice, unitPrice: basePrice, discountSource: null };
+}
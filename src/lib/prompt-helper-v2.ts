@@ -17,6 +17,7 @@ import {
   getMaxImages,
   MODEL_CAPABILITIES,
 } from './ai-config';
+import { formatVariantOptions } from './catalog/variant-options';
 
 // ============================================================================
 // TYPES
@@ -56,8 +57,7 @@ interface ProductContextData {
   variants: {
     id: string;
     sku: string;
-    size: string | null;
-    color: string | null;
+    options: Record<string, string>;
     stock: number;
     price: number;
     discountType: "percentage" | "flat" | null;
@@ -269,7 +269,7 @@ function generateProductContext(products: ProductContextData[]): string {
 
     if (p.variants && p.variants.length > 0) {
       context += `\n   - Variants:\n` + p.variants.map((v) => {
-        let variantLine = `     - SKU: ${v.sku}, Size: ${v.size || "N/A"}, Color: ${v.color || "N/A"}, Stock: ${v.stock}, Base Price: ${v.price}`;
+        let variantLine = `     - SKU: ${v.sku}, ${formatVariantOptions(v.options) || "No options"}, Stock: ${v.stock}, Base Price: ${v.price}`;
         if (v.discountType && (v.discountAmount || v.discountPercentage)) {
           if (v.discountType === "percentage" && v.discountPercentage) {
             variantLine += `, Discount: ${v.discountPercentage}% off`;
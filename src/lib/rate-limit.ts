@@ -7,6 +7,7 @@ interface RateLimitOptions {
   message?: string; // error message
   statusCode?: number; // error status code
   requestPropertyName?: string; // property on req object to use as key
+  keyPrefix?: string; // counts hits apart from limiters with another prefix
 }
 
 interface RateLimitResponse {
@@ -31,25 +32,29 @@ export function rateLimit(options: RateLimitOptions): RateLimitResponse {
   const max = options.max || 100; // default: 100 requests per minute
   const message =
     options.message || "Too many requests, please try again later.";
+  const keyPrefix = options.keyPrefix ? `${options.keyPrefix}:` : "";
 
   return {
     check: async (req: Request) => {
-      // Get IP from headers or fall back to a default
+      // Cloudflare sets cf-connecting-ip itself; the other headers can be
+      // sent by the client and are only used outside Cloudflare
       const ip =
+        req.headers.get("cf-connecting-ip") ||
         req.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
         req.headers.get("x-real-ip") ||
         "unknown";
+      const key = `${keyPrefix}${ip}`;
 
       const now = Date.now();
 
       // Initialize or get existing record
-      let record = ipHitMap.get(ip);
+      let record = ipHitMap.get(key);
       if (!record) {
         record = {
           hits: 0,
           resetTime: now + windowMs,
         };
-        ipHitMap.set(ip, record);
+        ipHitMap.set(key, record);
       } else if (record.resetTime <= now) {
         // Reset if the window has passed
         record.hits = 0;
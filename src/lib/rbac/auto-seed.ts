@@ -77,6 +77,8 @@ async function seedRoles(db: Database): Promise<void> {
         (p) =>
           !p.includes("permanent_delete") &&
           p !== PERMISSIONS.SETTINGS_DELIVERY_PROVIDERS_EDIT &&
+          p !== PERMISSIONS.SETTINGS_PAYMENT_PROVIDERS_EDIT &&
+          p !== PERMISSIONS.SETTINGS_WEBHOOKS_EDIT &&
           p !== PERMISSIONS.SETTINGS_FRAUD_CHECKER_EDIT &&
           p !== PERMISSIONS.TEAM_MANAGE_ROLES
       ),
@@ -97,6 +99,8 @@ async function seedRoles(db: Database): Promise<void> {
         PERMISSIONS.ORDERS_RESTORE,
         PERMISSIONS.ORDERS_CHANGE_STATUS,
         PERMISSIONS.ORDERS_MANAGE_SHIPMENTS,
+        PERMISSIONS.ORDERS_MANAGE_PAYMENTS,
+        PERMISSIONS.ORDERS_MANAGE_RETURNS,
         PERMISSIONS.CUSTOMERS_VIEW,
         PERMISSIONS.CUSTOMERS_CREATE,
         PERMISSIONS.CUSTOMERS_EDIT,
@@ -144,6 +148,8 @@ async function seedRoles(db: Database): Promise<void> {
         PERMISSIONS.PRODUCTS_DELETE,
         PERMISSIONS.PRODUCTS_RESTORE,
         PERMISSIONS.PRODUCTS_BULK_OPERATIONS,
+        PERMISSIONS.REVIEWS_VIEW,
+        PERMISSIONS.REVIEWS_MODERATE,
         PERMISSIONS.CATEGORIES_VIEW,
         PERMISSIONS.CATEGORIES_CREATE,
         PERMISSIONS.CATEGORIES_EDIT,
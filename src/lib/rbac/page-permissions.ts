@@ -22,6 +22,12 @@ const PAGE_PERMISSION_MAP: Record<string, PagePermissionConfig> = {
   "/admin/products": { permission: PERMISSIONS.PRODUCTS_VIEW },
   "/admin/products/new": { permission: PERMISSIONS.PRODUCTS_CREATE },
 
+  // Inventory
+  "/admin/inventory": { permission: PERMISSIONS.PRODUCTS_VIEW },
+
+  // Reviews
+  "/admin/reviews": { permission: PERMISSIONS.REVIEWS_VIEW },
+
   // Categories
   "/admin/categories": { permission: PERMISSIONS.CATEGORIES_VIEW },
   "/admin/categories/new": { permission: PERMISSIONS.CATEGORIES_CREATE },
@@ -73,11 +79,16 @@ const PAGE_PERMISSION_MAP: Record<string, PagePermissionConfig> = {
   "/admin/settings/hero-sliders": { permission: PERMISSIONS.SETTINGS_HEADER_EDIT },
   "/admin/settings/delivery-locations": { permission: PERMISSIONS.SETTINGS_DELIVERY_LOCATIONS_VIEW },
   "/admin/settings/delivery-providers": { permission: PERMISSIONS.SETTINGS_DELIVERY_PROVIDERS_VIEW },
+  "/admin/settings/payment-providers": { permission: PERMISSIONS.SETTINGS_PAYMENT_PROVIDERS_VIEW },
+  "/admin/settings/webhooks": { permission: PERMISSIONS.SETTINGS_WEBHOOKS_VIEW },
   "/admin/settings/fraud-checker": { permission: PERMISSIONS.SETTINGS_FRAUD_CHECKER_VIEW },
   "/admin/settings/shipping-methods": { permission: PERMISSIONS.SETTINGS_SHIPPING_METHODS_VIEW },
   "/admin/settings/checkout-languages": { permission: PERMISSIONS.SETTINGS_GENERAL_VIEW },
+  "/admin/settings/currencies": { permission: PERMISSIONS.SETTINGS_GENERAL_VIEW },
   "/admin/settings/meta-conversion": { permission: PERMISSIONS.SETTINGS_GENERAL_VIEW },
   "/admin/settings/cache": { permission: PERMISSIONS.SETTINGS_CACHE_VIEW },
+  "/admin/settings/scheduled-jobs": { permission: PERMISSIONS.SETTINGS_JOBS_VIEW },
+  "/admin/settings/search": { permission: PERMISSIONS.SETTINGS_SEARCH_VIEW },
 };
 
 // Dynamic route patterns for pages with parameters (e.g., /admin/products/[id]/edit)
@@ -14,6 +14,13 @@ export const PERMISSIONS = {
   PRODUCTS_PERMANENT_DELETE: "products.permanent_delete",
   PRODUCTS_BULK_OPERATIONS: "products.bulk_operations",
 
+  // =============================================
+  // Reviews (3 permissions)
+  // =============================================
+  REVIEWS_VIEW: "reviews.view",
+  REVIEWS_MODERATE: "reviews.moderate",
+  REVIEWS_DELETE: "reviews.delete",
+
   // =============================================
   // Categories (6 permissions)
   // =============================================
@@ -35,7 +42,7 @@ export const PERMISSIONS = {
   COLLECTIONS_TOGGLE_STATUS: "collections.toggle_status",
 
   // =============================================
-  // Orders (7 permissions)
+  // Orders (9 permissions)
   // =============================================
   ORDERS_VIEW: "orders.view",
   ORDERS_CREATE: "orders.create",
@@ -44,6 +51,8 @@ export const PERMISSIONS = {
   ORDERS_RESTORE: "orders.restore",
   ORDERS_CHANGE_STATUS: "orders.change_status",
   ORDERS_MANAGE_SHIPMENTS: "orders.manage_shipments",
+  ORDERS_MANAGE_PAYMENTS: "orders.manage_payments",
+  ORDERS_MANAGE_RETURNS: "orders.manage_returns",
 
   // =============================================
   // Customers (6 permissions)
@@ -136,6 +145,18 @@ export const PERMISSIONS = {
   SETTINGS_DELIVERY_PROVIDERS_VIEW: "settings.delivery_providers.view",
   SETTINGS_DELIVERY_PROVIDERS_EDIT: "settings.delivery_providers.edit",
 
+  // =============================================
+  // Settings - Payment Providers (2 permissions) - SENSITIVE
+  // =============================================
+  SETTINGS_PAYMENT_PROVIDERS_VIEW: "settings.payment_providers.view",
+  SETTINGS_PAYMENT_PROVIDERS_EDIT: "settings.payment_providers.edit",
+
+  // =============================================
+  // Settings - Webhooks (2 permissions) - SENSITIVE
+  // =============================================
+  SETTINGS_WEBHOOKS_VIEW: "settings.webhooks.view",
+  SETTINGS_WEBHOOKS_EDIT: "settings.webhooks.edit",
+
   // =============================================
   // Settings - Shipping Methods (2 permissions)
   // =============================================
@@ -154,6 +175,18 @@ export const PERMISSIONS = {
   SETTINGS_CACHE_VIEW: "settings.cache.view",
   SETTINGS_CACHE_MANAGE: "settings.cache.manage",
 
+  // =============================================
+  // Settings - Scheduled Jobs (2 permissions)
+  // =============================================
+  SETTINGS_JOBS_VIEW: "settings.jobs.view",
+  SETTINGS_JOBS_MANAGE: "settings.jobs.manage",
+
+  // =============================================
+  // Settings - Search (2 permissions)
+  // =============================================
+  SETTINGS_SEARCH_VIEW: "settings.search.view",
+  SETTINGS_SEARCH_EDIT: "settings.search.edit",
+
   // =============================================
   // Team Management (3 permissions) - SUPER ADMIN DEFAULT
   // =============================================
@@ -238,6 +271,35 @@ export const PERMISSION_METADATA: Record<
     isSensitive: false,
   },
 
+  // Reviews
+  [PERMISSIONS.REVIEWS_VIEW]: {
+    name: PERMISSIONS.REVIEWS_VIEW,
+    displayName: "View Reviews",
+    description: "View product reviews and the moderation queue",
+    resource: "reviews",
+    action: "view",
+    category: "Reviews",
+    isSensitive: false,
+  },
+  [PERMISSIONS.REVIEWS_MODERATE]: {
+    name: PERMISSIONS.REVIEWS_MODERATE,
+    displayName: "Moderate Reviews",
+    description: "Approve, reject and mark product reviews as spam",
+    resource: "reviews",
+    action: "moderate",
+    category: "Reviews",
+    isSensitive: false,
+  },
+  [PERMISSIONS.REVIEWS_DELETE]: {
+    name: PERMISSIONS.REVIEWS_DELETE,
+    displayName: "Delete Reviews",
+    description: "Delete product reviews",
+    resource: "reviews",
+    action: "delete",
+    category: "Reviews",
+    isSensitive: false,
+  },
+
   // Categories
   [PERMISSIONS.CATEGORIES_VIEW]: {
     name: PERMISSIONS.CATEGORIES_VIEW,
@@ -414,6 +476,24 @@ export const PERMISSION_METADATA: Record<
     category: "Orders",
     isSensitive: false,
   },
+  [PERMISSIONS.ORDERS_MANAGE_PAYMENTS]: {
+    name: PERMISSIONS.ORDERS_MANAGE_PAYMENTS,
+    displayName: "Manage Payments",
+    description: "Record advances, COD collections and other order payments",
+    resource: "orders",
+    action: "manage_payments",
+    category: "Orders",
+    isSensitive: false,
+  },
+  [PERMISSIONS.ORDERS_MANAGE_RETURNS]: {
+    name: PERMISSIONS.ORDERS_MANAGE_RETURNS,
+    displayName: "Manage Returns",
+    description: "Create, approve and reject order returns",
+    resource: "orders",
+    action: "manage_returns",
+    category: "Orders",
+    isSensitive: false,
+  },
 
   // Customers
   [PERMISSIONS.CUSTOMERS_VIEW]: {
@@ -826,6 +906,46 @@ export const PERMISSION_METADATA: Record<
     isSensitive: true,
   },
 
+  // Settings - Payment Providers (SENSITIVE)
+  [PERMISSIONS.SETTINGS_PAYMENT_PROVIDERS_VIEW]: {
+    name: PERMISSIONS.SETTINGS_PAYMENT_PROVIDERS_VIEW,
+    displayName: "View Payment Providers",
+    description: "View payment gateway configurations",
+    resource: "settings",
+    action: "payment_providers.view",
+    category: "Settings",
+    isSensitive: true,
+  },
+  [PERMISSIONS.SETTINGS_PAYMENT_PROVIDERS_EDIT]: {
+    name: PERMISSIONS.SETTINGS_PAYMENT_PROVIDERS_EDIT,
+    displayName: "Edit Payment Providers",
+    description: "Modify payment gateway credentials and settings",
+    resource: "settings",
+    action: "payment_providers.edit",
+    category: "Settings",
+    isSensitive: true,
+  },
+
+  // Settings - Webhooks (SENSITIVE)
+  [PERMISSIONS.SETTINGS_WEBHOOKS_VIEW]: {
+    name: PERMISSIONS.SETTINGS_WEBHOOKS_VIEW,
+    displayName: "View Webhooks",
+    description: "View webhook endpoints and delivery logs",
+    resource: "settings",
+    action: "webhooks.view",
+    category: "Settings",
+    isSensitive: true,
+  },
+  [PERMISSIONS.SETTINGS_WEBHOOKS_EDIT]: {
+    name: PERMISSIONS.SETTINGS_WEBHOOKS_EDIT,
+    displayName: "Edit Webhooks",
+    description: "Manage webhook endpoints, secrets and redeliveries",
+    resource: "settings",
+    action: "webhooks.edit",
+    category: "Settings",
+    isSensitive: true,
+  },
+
   // Settings - Shipping Methods
   [PERMISSIONS.SETTINGS_SHIPPING_METHODS_VIEW]: {
     name: PERMISSIONS.SETTINGS_SHIPPING_METHODS_VIEW,
@@ -886,6 +1006,46 @@ export const PERMISSION_METADATA: Record<
     isSensitive: false,
   },
 
+  // Settings - Scheduled Jobs
+  [PERMISSIONS.SETTINGS_JOBS_VIEW]: {
+    name: PERMISSIONS.SETTINGS_JOBS_VIEW,
+    displayName: "View Scheduled Jobs",
+    description: "View background jobs and their run history",
+    resource: "settings",
+    action: "jobs.view",
+    category: "Settings",
+    isSensitive: false,
+  },
+  [PERMISSIONS.SETTINGS_JOBS_MANAGE]: {
+    name: PERMISSIONS.SETTINGS_JOBS_MANAGE,
+    displayName: "Manage Scheduled Jobs",
+    description: "Enable, reschedule and run background jobs",
+    resource: "settings",
+    action: "jobs.manage",
+    category: "Settings",
+    isSensitive: false,
+  },
+
+  // Settings - Search
+  [PERMISSIONS.SETTINGS_SEARCH_VIEW]: {
+    name: PERMISSIONS.SETTINGS_SEARCH_VIEW,
+    displayName: "View Search Settings",
+    description: "View search synonyms and the search report",
+    resource: "settings",
+    action: "search.view",
+    category: "Settings",
+    isSensitive: false,
+  },
+  [PERMISSIONS.SETTINGS_SEARCH_EDIT]: {
+    name: PERMISSIONS.SETTINGS_SEARCH_EDIT,
+    displayName: "Edit Search Settings",
+    description: "Manage search synonyms",
+    resource: "settings",
+    action: "search.edit",
+    category: "Settings",
+    isSensitive: false,
+  },
+
   // Team Management
   [PERMISSIONS.TEAM_VIEW]: {
     name: PERMISSIONS.TEAM_VIEW,
@@ -943,6 +1103,7 @@ export function getPermissionsByCategory(): Record<
 > {
   const grouped: Record<PermissionCategory, PermissionMetadata[]> = {
     Products: [],
+    Reviews: [],
     Categories: [],
     Collections: [],
     Orders: [],
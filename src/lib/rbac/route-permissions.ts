@@ -36,6 +36,14 @@ export const ROUTE_PERMISSIONS: Record<string, RouteConfig> = {
     POST: { permission: PERMISSIONS.PRODUCTS_BULK_OPERATIONS },
     DELETE: { permission: PERMISSIONS.PRODUCTS_BULK_OPERATIONS },
   },
+  "/api/products/export": {
+    GET: { permission: PERMISSIONS.PRODUCTS_VIEW },
+  },
+  "/api/products/import": {
+    POST: {
+      allOf: [PERMISSIONS.PRODUCTS_CREATE, PERMISSIONS.PRODUCTS_EDIT],
+    },
+  },
   "/api/products/*": {
     GET: { permission: PERMISSIONS.PRODUCTS_VIEW },
     PUT: { permission: PERMISSIONS.PRODUCTS_EDIT },
@@ -48,6 +56,18 @@ export const ROUTE_PERMISSIONS: Record<string, RouteConfig> = {
   "/api/products/*/permanent": {
     DELETE: { permission: PERMISSIONS.PRODUCTS_PERMANENT_DELETE },
   },
+  "/api/products/*/options": {
+    GET: { permission: PERMISSIONS.PRODUCTS_VIEW },
+    PUT: { permission: PERMISSIONS.PRODUCTS_EDIT },
+  },
+  "/api/products/*/variant-images": {
+    GET: { permission: PERMISSIONS.PRODUCTS_VIEW },
+    PUT: { permission: PERMISSIONS.PRODUCTS_EDIT },
+  },
+  "/api/products/*/translations": {
+    GET: { permission: PERMISSIONS.PRODUCTS_VIEW },
+    PUT: { permission: PERMISSIONS.PRODUCTS_EDIT },
+  },
   "/api/products/*/variants": {
     GET: { permission: PERMISSIONS.PRODUCTS_VIEW },
     POST: { permission: PERMISSIONS.PRODUCTS_EDIT },
@@ -65,12 +85,41 @@ export const ROUTE_PERMISSIONS: Record<string, RouteConfig> = {
     POST: { permission: PERMISSIONS.PRODUCTS_EDIT },
     DELETE: { permission: PERMISSIONS.PRODUCTS_EDIT },
   },
-  "/api/products/*/variants/sort-order": {
+  "/api/products/*/variants/*/stock-movements": {
+    GET: { permission: PERMISSIONS.PRODUCTS_VIEW },
+  },
+  "/api/products/*/variants/*/images": {
     PUT: { permission: PERMISSIONS.PRODUCTS_EDIT },
-    PATCH: { permission: PERMISSIONS.PRODUCTS_EDIT },
   },
-  "/api/products/*/variants/*/duplicate": {
-    POST: { permission: PERMISSIONS.PRODUCTS_EDIT },
+  "/api/products/*/stock-reconciliation": {
+    GET: { permission: PERMISSIONS.PRODUCTS_VIEW },
+  },
+
+  // =============================================
+  // Inventory API
+  // =============================================
+  "/api/inventory/stock-alerts": {
+    GET: { permission: PERMISSIONS.PRODUCTS_VIEW },
+  },
+  "/api/inventory/thresholds": {
+    PUT: { permission: PERMISSIONS.PRODUCTS_EDIT },
+  },
+  "/api/inventory/settings": {
+    GET: { permission: PERMISSIONS.PRODUCTS_VIEW },
+    PUT: { permission: PERMISSIONS.PRODUCTS_EDIT },
+  },
+
+  // =============================================
+  // Reviews API
+  // =============================================
+  "/api/reviews": {
+    GET: { permission: PERMISSIONS.REVIEWS_VIEW },
+  },
+  "/api/reviews/moderate": {
+    POST: { permission: PERMISSIONS.REVIEWS_MODERATE },
+  },
+  "/api/reviews/bulk-delete": {
+    POST: { permission: PERMISSIONS.REVIEWS_DELETE },
   },
 
   // =============================================
@@ -87,6 +136,10 @@ export const ROUTE_PERMISSIONS: Record<string, RouteConfig> = {
   "/api/categories/bulk-restore": {
     POST: { permission: PERMISSIONS.CATEGORIES_RESTORE },
   },
+  "/api/categories/tree": {
+    GET: { permission: PERMISSIONS.CATEGORIES_VIEW },
+    PUT: { permission: PERMISSIONS.CATEGORIES_EDIT },
+  },
   "/api/categories/*": {
     GET: { permission: PERMISSIONS.CATEGORIES_VIEW },
     PUT: { permission: PERMISSIONS.CATEGORIES_EDIT },
@@ -99,6 +152,10 @@ export const ROUTE_PERMISSIONS: Record<string, RouteConfig> = {
   "/api/categories/*/permanent": {
     DELETE: { permission: PERMISSIONS.CATEGORIES_PERMANENT_DELETE },
   },
+  "/api/categories/*/translations": {
+    GET: { permission: PERMISSIONS.CATEGORIES_VIEW },
+    PUT: { permission: PERMISSIONS.CATEGORIES_EDIT },
+  },
 
   // =============================================
   // Collections API
@@ -132,6 +189,10 @@ export const ROUTE_PERMISSIONS: Record<string, RouteConfig> = {
   "/api/collections/*/permanent": {
     DELETE: { permission: PERMISSIONS.COLLECTIONS_DELETE },
   },
+  "/api/collections/*/translations": {
+    GET: { permission: PERMISSIONS.COLLECTIONS_VIEW },
+    PUT: { permission: PERMISSIONS.COLLECTIONS_EDIT },
+  },
 
   // =============================================
   // Orders API
@@ -177,6 +238,24 @@ export const ROUTE_PERMISSIONS: Record<string, RouteConfig> = {
   "/api/orders/*/shipments/*/refresh": {
     POST: { permission: PERMISSIONS.ORDERS_MANAGE_SHIPMENTS },
   },
+  "/api/orders/*/payments": {
+    GET: { permission: PERMISSIONS.ORDERS_VIEW },
+    POST: { permission: PERMISSIONS.ORDERS_MANAGE_PAYMENTS },
+  },
+  "/api/orders/*/payments/*": {
+    DELETE: { permission: PERMISSIONS.ORDERS_MANAGE_PAYMENTS },
+  },
+  "/api/orders/*/returns": {
+    GET: { permission: PERMISSIONS.ORDERS_VIEW },
+    POST: { permission: PERMISSIONS.ORDERS_MANAGE_RETURNS },
+  },
+  "/api/orders/*/returns/*": {
+    PATCH: { permission: PERMISSIONS.ORDERS_MANAGE_RETURNS },
+  },
+  "/api/orders/*/refunds": {
+    GET: { permission: PERMISSIONS.ORDERS_VIEW },
+    POST: { permission: PERMISSIONS.ORDERS_MANAGE_PAYMENTS },
+  },
 
   // =============================================
   // Shipments API
@@ -267,6 +346,10 @@ export const ROUTE_PERMISSIONS: Record<string, RouteConfig> = {
   "/api/pages/*/permanent": {
     DELETE: { permission: PERMISSIONS.PAGES_DELETE },
   },
+  "/api/pages/*/translations": {
+    GET: { permission: PERMISSIONS.PAGES_VIEW },
+    PUT: { permission: PERMISSIONS.PAGES_EDIT },
+  },
 
   // =============================================
   // Widgets API
@@ -461,6 +544,36 @@ export const ROUTE_PERMISSIONS: Record<string, RouteConfig> = {
     PUT: { permission: PERMISSIONS.SETTINGS_DELIVERY_PROVIDERS_EDIT },
     DELETE: { permission: PERMISSIONS.SETTINGS_DELIVERY_PROVIDERS_EDIT },
   },
+  "/api/settings/payment-providers": {
+    GET: { permission: PERMISSIONS.SETTINGS_PAYMENT_PROVIDERS_VIEW },
+    POST: { permission: PERMISSIONS.SETTINGS_PAYMENT_PROVIDERS_EDIT },
+    PUT: { permission: PERMISSIONS.SETTINGS_PAYMENT_PROVIDERS_EDIT },
+  },
+  "/api/settings/payment-providers/*": {
+    GET: { permission: PERMISSIONS.SETTINGS_PAYMENT_PROVIDERS_VIEW },
+    DELETE: { permission: PERMISSIONS.SETTINGS_PAYMENT_PROVIDERS_EDIT },
+  },
+  "/api/settings/payment-providers/*/test": {
+    POST: { permission: PERMISSIONS.SETTINGS_PAYMENT_PROVIDERS_VIEW },
+  },
+  "/api/settings/webhooks": {
+    GET: { permission: PERMISSIONS.SETTINGS_WEBHOOKS_VIEW },
+    POST: { permission: PERMISSIONS.SETTINGS_WEBHOOKS_EDIT },
+  },
+  "/api/settings/webhooks/*": {
+    GET: { permission: PERMISSIONS.SETTINGS_WEBHOOKS_VIEW },
+    PUT: { permission: PERMISSIONS.SETTINGS_WEBHOOKS_EDIT },
+    DELETE: { permission: PERMISSIONS.SETTINGS_WEBHOOKS_EDIT },
+  },
+  "/api/settings/webhooks/*/deliveries": {
+    GET: { permission: PERMISSIONS.SETTINGS_WEBHOOKS_VIEW },
+  },
+  "/api/settings/webhooks/*/test": {
+    POST: { permission: PERMISSIONS.SETTINGS_WEBHOOKS_EDIT },
+  },
+  "/api/settings/webhooks/deliveries/*/redeliver": {
+    POST: { permission: PERMISSIONS.SETTINGS_WEBHOOKS_EDIT },
+  },
   "/api/settings/fraud-checker": {
     GET: { permission: PERMISSIONS.SETTINGS_FRAUD_CHECKER_VIEW },
     POST: { permission: PERMISSIONS.SETTINGS_FRAUD_CHECKER_EDIT },
@@ -484,6 +597,29 @@ export const ROUTE_PERMISSIONS: Record<string, RouteConfig> = {
     POST: { permission: PERMISSIONS.SETTINGS_CACHE_MANAGE },
     DELETE: { permission: PERMISSIONS.SETTINGS_CACHE_MANAGE },
   },
+  "/api/settings/scheduled-jobs": {
+    GET: { permission: PERMISSIONS.SETTINGS_JOBS_VIEW },
+  },
+  "/api/settings/scheduled-jobs/*": {
+    PUT: { permission: PERMISSIONS.SETTINGS_JOBS_MANAGE },
+  },
+  "/api/settings/scheduled-jobs/*/runs": {
+    GET: { permission: PERMISSIONS.SETTINGS_JOBS_VIEW },
+  },
+  "/api/settings/scheduled-jobs/*/run": {
+    POST: { permission: PERMISSIONS.SETTINGS_JOBS_MANAGE },
+  },
+  "/api/settings/search-synonyms": {
+    GET: { permission: PERMISSIONS.SETTINGS_SEARCH_VIEW },
+    POST: { permission: PERMISSIONS.SETTINGS_SEARCH_EDIT },
+  },
+  "/api/settings/search-synonyms/*": {
+    PUT: { permission: PERMISSIONS.SETTINGS_SEARCH_EDIT },
+    DELETE: { permission: PERMISSIONS.SETTINGS_SEARCH_EDIT },
+  },
+  "/api/settings/search-report": {
+    GET: { permission: PERMISSIONS.SETTINGS_SEARCH_VIEW },
+  },
 
   // Admin Settings
   "/api/admin/settings/shipping-methods": {
@@ -501,6 +637,21 @@ export const ROUTE_PERMISSIONS: Record<string, RouteConfig> = {
   "/api/admin/settings/shipping-methods/*/permanent-delete": {
     DELETE: { permission: PERMISSIONS.SETTINGS_SHIPPING_METHODS_EDIT },
   },
+  "/api/admin/settings/currencies": {
+    GET: { permission: PERMISSIONS.SETTINGS_GENERAL_VIEW },
+    POST: { permission: PERMISSIONS.SETTINGS_GENERAL_EDIT },
+  },
+  "/api/admin/settings/currencies/*": {
+    GET: { permission: PERMISSIONS.SETTINGS_GENERAL_VIEW },
+    PUT: { permission: PERMISSIONS.SETTINGS_GENERAL_EDIT },
+    DELETE: { permission: PERMISSIONS.SETTINGS_GENERAL_EDIT },
+  },
+  "/api/admin/settings/currencies/*/restore": {
+    POST: { permission: PERMISSIONS.SETTINGS_GENERAL_EDIT },
+  },
+  "/api/admin/settings/currencies/*/permanent-delete": {
+    DELETE: { permission: PERMISSIONS.SETTINGS_GENERAL_EDIT },
+  },
   "/api/admin/settings/checkout-languages": {
     GET: { permission: PERMISSIONS.SETTINGS_GENERAL_VIEW },
     POST: { permission: PERMISSIONS.SETTINGS_GENERAL_EDIT },
@@ -552,7 +703,7 @@ export const ROUTE_PERMISSIONS: Record<string, RouteConfig> = {
   // =============================================
   "/api/search": {
     GET: { permission: PERMISSIONS.PRODUCTS_VIEW },
-    POST: { permission: PERMISSIONS.PRODUCTS_VIEW },
+    POST: { permission: PERMISSIONS.PRODUCTS_BULK_OPERATIONS },
   },
   "/api/search/reindex": {
     POST: { permission: PERMISSIONS.PRODUCTS_BULK_OPERATIONS },
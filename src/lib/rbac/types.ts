@@ -86,6 +86,7 @@ export interface SystemRole {
 // Permission categories for UI grouping
 export type PermissionCategory =
   | "Products"
+  | "Reviews"
   | "Categories"
   | "Collections"
   | "Orders"
@@ -0,0 +1,499 @@
+import type { Database } from "@/db";
+import {
+  customers,
+  orderItems,
+  orderReturns,
+  orders,
+  productVariants,
+  refunds,
+  OrderStatus,
+  PaymentEntryType,
+  RefundType,
+  ReturnStatus,
+  StockMovementReason,
+  type OrderReturn,
+} from "@/db/schema";
+import { toStockItems } from "@/lib/catalog/bundles";
+import { recordStockMovements } from "@/lib/inventory/ledger";
+import { OrderStatusService } from "@/lib/orders/status";
+import { canReturnOrder, holdsStock } from "@/lib/orders/transitions";
+import { PaymentService } from "@/lib/payments/service";
+
+import { and, desc, eq, ne, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+
+export interface ReturnServiceResult<T = undefined> {
+  success: boolean;
+  message: string;
+  data?: T;
+}
+
+export interface CreateReturnInput {
+  items: { orderItemId: string; quantity: number }[];
+  reason: string;
+  note?: string | null;
+  requestedBy?: string | null;
+}
+
+export interface RecordRefundInput {
+  amount: number;
+  method: string;
+  reference?: string | null;
+  note?: string | null;
+  returnId?: string | null;
+  createdBy?: string | null;
+}
+
+/**
+ * Service for order returns and refunds
+ */
+export class ReturnService {
+  constructor(private db: Database) {}
+
+  /**
+   * Get all return requests for an order, newest first
+   */
+  async getReturns(orderId: string) {
+    return this.db
+      .select()
+      .from(orderReturns)
+      .where(eq(orderReturns.orderId, orderId))
+      .orderBy(desc(orderReturns.createdAt));
+  }
+
+  /**
+   * Get all refunds for an order, newest first
+   */
+  async getRefunds(orderId: string) {
+    return this.db
+      .select()
+      .from(refunds)
+      .where(eq(refunds.orderId, orderId))
+      .orderBy(desc(refunds.createdAt));
+  }
+
+  /**
+   * Quantity of each order item that can still be returned. Requested and
+   * approved returns both count; rejected ones free the quantity again.
+   */
+  async getReturnableQuantities(orderId: string) {
+    const [items, returned] = await Promise.all([
+      this.db
+        .select({ id: orderItems.id, quantity: orderItems.quantity })
+        .from(orderItems)
+        .where(eq(orderItems.orderId, orderId)),
+      this.db
+        .select({
+          orderItemId: orderReturns.orderItemId,
+          quantity: sql<number>`SUM(${orderReturns.quantity})`,
+        })
+        .from(orderReturns)
+        .where(
+          and(
+            eq(orderReturns.orderId, orderId),
+            ne(orderReturns.status, ReturnStatus.REJECTED),
+          ),
+        )
+        .groupBy(orderReturns.orderItemId),
+    ]);
+
+    const returnedMap = new Map(
+      returned.map((r) => [r.orderItemId, Number(r.quantity)]),
+    );
+
+    return new Map(
+      items.map((item) => [
+        item.id,
+        Math.max(0, item.quantity - (returnedMap.get(item.id) || 0)),
+      ]),
+    );
+  }
+
+  /**
+   * Open return requests for one or more items of an order
+   */
+  async createReturns(
+    orderId: string,
+    input: CreateReturnInput,
+  ): Promise<ReturnServiceResult<{ returnIds: string[] }>> {
+    const [order] = await this.db
+      .select({ id: orders.id, status: orders.status })
+      .from(orders)
+      .where(eq(orders.id, orderId));
+
+    if (!order) {
+      return { success: false, message: `Order with ID ${orderId} not found` };
+    }
+
+    if (!canReturnOrder(order.status)) {
+      return {
+        success: false,
+        message: "Only shipped or delivered orders can be returned",
+      };
+    }
+
+    const items = await this.db
+      .select()
+      .from(orderItems)
+      .where(eq(orderItems.orderId, orderId));
+    const itemMap = new Map(items.map((item) => [item.id, item]));
+    const returnable = await this.getReturnableQuantities(orderId);
+
+    for (const requested of input.items) {
+      const item = itemMap.get(requested.orderItemId);
+      if (!item) {
+        return {
+          success: false,
+          message: `Order item ${requested.orderItemId} not found`,
+        };
+      }
+
+      const available = returnable.get(item.id) || 0;
+      if (requested.quantity > available) {
+        return {
+          success: false,
+          message: `Only ${available} of order item ${item.id} can be returned`,
+        };
+      }
+    }
+
+    const now = new Date();
+    const rows = input.items.map((requested) => {
+      const item = itemMap.get(requested.orderItemId)!;
+      return {
+        id: `ret_${nanoid()}`,
+        orderId,
+        orderItemId: item.id,
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: requested.quantity,
+        reason: input.reason,
+        note: input.note || null,
+        status: ReturnStatus.REQUESTED,
+        requestedBy: input.requestedBy || null,
+        createdAt: now,
+        updatedAt: now,
+      };
+    });
+
+    await this.db.insert(orderReturns).values(rows);
+
+    return {
+      success: true,
+      message: "Return request created",
+      data: { returnIds: rows.map((row) => row.id) },
+    };
+  }
+
+  /**
+   * Approve a return request, optionally putting the items back in stock.
+   * Once every item of the order is returned the order becomes "returned".
+   */
+  async approveReturn(
+    orderId: string,
+    returnId: string,
+    options: { restock?: boolean; resolvedBy?: string | null } = {},
+  ): Promise<ReturnServiceResult> {
+    const [existing] = await this.db
+      .select()
+      .from(orderReturns)
+      .where(
+        and(eq(orderReturns.id, returnId), eq(orderReturns.orderId, orderId)),
+      );
+
+    if (!existing) {
+      return { success: false, message: "Return request not found" };
+    }
+
+    const stockItems = await this.getStockItems(existing);
+    const restock = (options.restock ?? true) && stockItems.length > 0;
+    const now = new Date();
+
+    // Only a pending request can be approved; this also guards against a
+    // double submit restocking twice
+    const [approved] = await this.db
+      .update(orderReturns)
+      .set({
+        status: ReturnStatus.APPROVED,
+        restocked: restock,
+        resolvedBy: options.resolvedBy || null,
+        resolvedAt: now,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(orderReturns.id, returnId),
+          eq(orderReturns.status, ReturnStatus.REQUESTED),
+        ),
+      )
+      .returning();
+
+    if (!approved) {
+      return { success: false, message: "Return request is already resolved" };
+    }
+
+    if (restock) {
+      await this.putBackInStock(stockItems, {
+        orderId,
+        reason: StockMovementReason.RETURN,
+        actorId: options.resolvedBy,
+      });
+    }
+
+    await this.markReturnedIfComplete(orderId, options.resolvedBy);
+
+    return {
+      success: true,
+      message: restock
+        ? "Return approved and items restocked"
+        : "Return approved",
+    };
+  }
+
+  /**
+   * Reject a return request
+   */
+  async rejectReturn(
+    orderId: string,
+    returnId: string,
+    options: { resolvedBy?: string | null; note?: string | null } = {},
+  ): Promise<ReturnServiceResult> {
+    const now = new Date();
+    const [rejected] = await this.db
+      .update(orderReturns)
+      .set({
+        status: ReturnStatus.REJECTED,
+        resolvedBy: options.resolvedBy || null,
+        resolvedAt: now,
+        updatedAt: now,
+        ...(options.note ? { note: options.note } : {}),
+      })
+      .where(
+        and(
+          eq(orderReturns.id, returnId),
+          eq(orderReturns.orderId, orderId),
+          eq(orderReturns.status, ReturnStatus.REQUESTED),
+        ),
+      )
+      .returning();
+
+    if (!rejected) {
+      return {
+        success: false,
+        message: "Return request not found or already resolved",
+      };
+    }
+
+    // Cancelling or returning the order left this request's items to the
+    // return flow; with the request rejected their stock goes back now
+    const [order] = await this.db
+      .select({ status: orders.status })
+      .from(orders)
+      .where(eq(orders.id, orderId));
+    if (order && !holdsStock(order.status)) {
+      await this.putBackInStock(await this.getStockItems(rejected), {
+        orderId,
+        reason:
+          order.status === OrderStatus.RETURNED
+            ? StockMovementReason.RETURN
+            : StockMovementReason.CANCEL,
+        actorId: options.resolvedBy,
+      });
+    }
+
+    return { success: true, message: "Return rejected" };
+  }
+
+  /**
+   * Record money given back to the customer. The refund is booked in the
+   * payment ledger and taken off the customer's total spent.
+   */
+  async recordRefund(
+    orderId: string,
+    input: RecordRefundInput,
+  ): Promise<ReturnServiceResult<{ refundId: string; type: RefundType }>> {
+    const [order] = await this.db
+      .select({ id: orders.id, customerId: orders.customerId })
+      .from(orders)
+      .where(eq(orders.id, orderId));
+
+    if (!order) {
+      return { success: false, message: `Order with ID ${orderId} not found` };
+    }
+
+    if (input.returnId) {
+      const [orderReturn] = await this.db
+        .select({ status: orderReturns.status })
+        .from(orderReturns)
+        .where(
+          and(
+            eq(orderReturns.id, input.returnId),
+            eq(orderReturns.orderId, orderId),
+          ),
+        );
+
+      if (!orderReturn) {
+        return { success: false, message: "Return request not found" };
+      }
+      if (orderReturn.status === ReturnStatus.REJECTED) {
+        return {
+          success: false,
+          message: "Cannot refund a rejected return",
+        };
+      }
+    }
+
+    // The ledger checks the refund against what was actually paid
+    const ledgerResult = await new PaymentService(this.db).recordPayment(
+      orderId,
+      {
+        type: PaymentEntryType.REFUND,
+        amount: input.amount,
+        method: input.method,
+        reference: input.reference,
+        note: input.note,
+        recordedBy: input.createdBy,
+      },
+    );
+
+    if (!ledgerResult.success || !ledgerResult.data) {
+      return { success: false, message: ledgerResult.message };
+    }
+
+    const refundId = `ref_${nanoid()}`;
+    const type =
+      ledgerResult.data.paidAmount <= 0 ? RefundType.FULL : RefundType.PARTIAL;
+
+    await this.db.insert(refunds).values({
+      id: refundId,
+      orderId,
+      returnId: input.returnId || null,
+      paymentEntryId: ledgerResult.data.entryId,
+      type,
+      amount: input.amount,
+      method: input.method,
+      reference: input.reference || null,
+      note: input.note || null,
+      createdBy: input.createdBy || null,
+      createdAt: new Date(),
+    });
+
+    await this.db
+      .update(orders)
+      .set({
+        refundedAmount: sql`${orders.refundedAmount} + ${input.amount}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(orders.id, orderId));
+
+    if (order.customerId) {
+      await this.db
+        .update(customers)
+        .set({
+          totalSpent: sql`MAX(0, ${customers.totalSpent} - ${input.amount})`,
+          updatedAt: sql`unixepoch()`,
+        })
+        .where(eq(customers.id, order.customerId));
+    }
+
+    return {
+      success: true,
+      message: "Refund recorded",
+      data: { refundId, type },
+    };
+  }
+
+  /**
+   * The variants and quantities a return puts back; a returned bundle puts
+   * back the components it was sold with
+   */
+  private async getStockItems(orderReturn: OrderReturn) {
+    const [item] = await this.db
+      .select({ bundleComponents: orderItems.bundleComponents })
+      .from(orderItems)
+      .where(eq(orderItems.id, orderReturn.orderItemId));
+
+    return toStockItems([
+      {
+        variantId: orderReturn.variantId,
+        quantity: orderReturn.quantity,
+        bundleComponents: item?.bundleComponents,
+      },
+    ]);
+  }
+
+  private async putBackInStock(
+    stockItems: { variantId: string; quantity: number }[],
+    movement: {
+      orderId: string;
+      reason: StockMovementReason;
+      actorId?: string | null;
+    },
+  ) {
+    for (const stockItem of stockItems) {
+      await this.db
+        .update(productVariants)
+        .set({
+          stock: sql`${productVariants.stock} + ${stockItem.quantity}`,
+          updatedAt: sql`unixepoch()`,
+        })
+        .where(eq(productVariants.id, stockItem.variantId));
+    }
+
+    await recordStockMovements(
+      this.db,
+      stockItems.map((stockItem) => ({
+        variantId: stockItem.variantId,
+        delta: stockItem.quantity,
+        reason: movement.reason,
+        orderId: movement.orderId,
+        actorId: movement.actorId,
+      })),
+    );
+  }
+
+  /**
+   * Move the order to "returned" once all of its items were returned
+   */
+  private async markReturnedIfComplete(
+    orderId: string,
+    actorId?: string | null,
+  ) {
+    const [items, approved] = await Promise.all([
+      this.db
+        .select({ id: orderItems.id, quantity: orderItems.quantity })
+        .from(orderItems)
+        .where(eq(orderItems.orderId, orderId)),
+      this.db
+        .select({
+          orderItemId: orderReturns.orderItemId,
+          quantity: sql<number>`SUM(${orderReturns.quantity})`,
+        })
+        .from(orderReturns)
+        .where(
+          and(
+            eq(orderReturns.orderId, orderId),
+            eq(orderReturns.status, ReturnStatus.APPROVED),
+          ),
+        )
+        .groupBy(orderReturns.orderItemId),
+    ]);
+
+    const approvedMap = new Map(
+      approved.map((r) => [r.orderItemId, Number(r.quantity)]),
+    );
+    const fullyReturned =
+      items.length > 0 &&
+      items.every((item) => (approvedMap.get(item.id) || 0) >= item.quantity);
+
+    if (fullyReturned) {
+      // Every item went through a return already, so this moves no stock.
+      // Orders whose status cannot become "returned" keep their status.
+      await new OrderStatusService(this.db).changeStatus(
+        orderId,
+        OrderStatus.RETURNED,
+        { actorId },
+      );
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import type { Database } from "@/db";
+import { productReviews, ReviewStatus } from "@/db/schema";
+
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+
+// Ratings are aggregated from approved reviews when read rather than kept on
+// the product, so moderation never leaves a stale average behind.
+
+export interface RatingSummary {
+  average: number; // Rounded to one decimal, 0 without reviews
+  count: number;
+}
+
+export interface RatingBreakdown extends RatingSummary {
+  // Number of reviews per star, "1" to "5"
+  distribution: Record<string, number>;
+}
+
+const EMPTY_SUMMARY: RatingSummary = { average: 0, count: 0 };
+
+const approvedReviews = and(
+  eq(productReviews.status, ReviewStatus.APPROVED),
+  isNull(productReviews.deletedAt),
+);
+
+/**
+ * Average rating and review count of each product
+ */
+export async function getRatingSummaries(
+  db: Database,
+  productIds: string[],
+): Promise<Map<string, RatingSummary>> {
+  const summaries = new Map<string, RatingSummary>();
+  if (productIds.length === 0) return summaries;
+
+  const rows = await db
+    .select({
+      productId: productReviews.productId,
+      average: sql<number>`avg(${productReviews.rating})`,
+      count: sql<number>`count(*)`,
+    })
+    .from(productReviews)
+    .where(
+      and(
+        approvedReviews,
+        inArray(productReviews.productId, [...new Set(productIds)]),
+      ),
+    )
+    .groupBy(productReviews.productId);
+
+  for (const row of rows) {
+    summaries.set(row.productId, {
+      average: Math.round(row.average * 10) / 10,
+      count: row.count,
+    });
+  }
+  return summaries;
+}
+
+/**
+ * The product's rating summary, or an empty one
+ */
+export function ratingOf(
+  summaries: Map<string, RatingSummary>,
+  productId: string,
+): RatingSummary {
+  return summaries.get(productId) ?? EMPTY_SUMMARY;
+}
+
+/**
+ * Average rating, review count and number of reviews per star of a product
+ */
+export async function getRatingBreakdown(
+  db: Database,
+  productId: string,
+): Promise<RatingBreakdown> {
+  const rows = await db
+    .select({
+      rating: productReviews.rating,
+      count: sql<number>`count(*)`,
+    })
+    .from(productReviews)
+    .where(and(approvedReviews, eq(productReviews.productId, productId)))
+    .groupBy(productReviews.rating);
+
+  const distribution: Record<string, number> = {
+    "1": 0,
+    "2": 0,
+    "3": 0,
+    "4": 0,
+    "5": 0,
+  };
+  let count = 0;
+  let total = 0;
+  for (const row of rows) {
+    distribution[String(row.rating)] = row.count;
+    count += row.count;
+    total += row.rating * row.count;
+  }
+
+  return {
+    average: count > 0 ? Math.round((total / count) * 10) / 10 : 0,
+    count,
+    distribution,
+  };
+}
@@ -0,0 +1,473 @@
+import type { Database } from "@/db";
+import {
+  customers,
+  orderItems,
+  orders,
+  productReviews,
+  products,
+  reviewImageUploads,
+  OrderStatus,
+  ReviewStatus,
+} from "@/db/schema";
+import { deleteFile } from "@/lib/storage";
+import { checkReviewSpam } from "./spam";
+
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  inArray,
+  isNull,
+  like,
+  lt,
+  or,
+  sql,
+} from "drizzle-orm";
+import { nanoid } from "nanoid";
+
+export interface ReviewServiceResult<T = undefined> {
+  success: boolean;
+  message: string;
+  data?: T;
+}
+
+export interface SubmitReviewInput {
+  productId: string;
+  customerName: string;
+  customerPhone: string; // Standardized
+  rating: number;
+  title?: string | null;
+  body: string;
+  images?: string[];
+  // Honeypot field, see src/lib/reviews/spam.ts
+  website?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface ApprovedReviewsOptions {
+  page: number;
+  limit: number;
+  sort: "newest" | "oldest" | "highest" | "lowest";
+  rating?: number;
+  withImages?: boolean;
+}
+
+export interface ReviewQueueOptions {
+  status?: ReviewStatus;
+  productId?: string;
+  search?: string;
+  page: number;
+  limit: number;
+}
+
+export const MAX_REVIEW_IMAGES = 5;
+
+function parseImages(images: string): string[] {
+  try {
+    const parsed = JSON.parse(images);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Service for product reviews: storefront submissions and admin moderation
+ */
+export class ReviewService {
+  constructor(private db: Database) {}
+
+  /**
+   * The reviewer's delivered order containing the product, which makes the
+   * review a verified purchase
+   */
+  async findVerifiedOrder(
+    productId: string,
+    customerPhone: string,
+  ): Promise<string | null> {
+    const [order] = await this.db
+      .select({ id: orders.id })
+      .from(orders)
+      .innerJoin(orderItems, eq(orderItems.orderId, orders.id))
+      .where(
+        and(
+          eq(orders.customerPhone, customerPhone),
+          eq(orders.status, OrderStatus.DELIVERED),
+          eq(orderItems.productId, productId),
+          isNull(orders.deletedAt),
+        ),
+      )
+      .orderBy(desc(orders.createdAt))
+      .limit(1);
+
+    return order?.id ?? null;
+  }
+
+  /**
+   * Save a review from the storefront. It waits for moderation, or goes
+   * straight to spam when the spam checks say so.
+   */
+  async submitReview(
+    input: SubmitReviewInput,
+  ): Promise<ReviewServiceResult<{ reviewId: string }>> {
+    const [product] = await this.db
+      .select({ id: products.id })
+      .from(products)
+      .where(
+        and(
+          eq(products.id, input.productId),
+          eq(products.isActive, true),
+          isNull(products.deletedAt),
+        ),
+      );
+
+    if (!product) {
+      return { success: false, message: "Product not found" };
+    }
+
+    const images = input.images ?? [];
+    if (images.length > MAX_REVIEW_IMAGES) {
+      return {
+        success: false,
+        message: `A review can have at most ${MAX_REVIEW_IMAGES} images`,
+      };
+    }
+    // Only images uploaded through the review image endpoint and not used
+    // by another review
+    if (images.length > 0) {
+      const uploads = await this.db
+        .select({ id: reviewImageUploads.id })
+        .from(reviewImageUploads)
+        .where(
+          and(
+            inArray(reviewImageUploads.url, images),
+            isNull(reviewImageUploads.reviewId),
+          ),
+        );
+      if (uploads.length !== new Set(images).size) {
+        return {
+          success: false,
+          message: "Review images must be uploaded first",
+        };
+      }
+    }
+
+    const [existing] = await this.db
+      .select({ id: productReviews.id })
+      .from(productReviews)
+      .where(
+        and(
+          eq(productReviews.productId, input.productId),
+          eq(productReviews.customerPhone, input.customerPhone),
+          isNull(productReviews.deletedAt),
+        ),
+      );
+
+    if (existing) {
+      return {
+        success: false,
+        message: "You have already reviewed this product",
+      };
+    }
+
+    const [spam, orderId, customer] = await Promise.all([
+      checkReviewSpam(this.db, input),
+      this.findVerifiedOrder(input.productId, input.customerPhone),
+      this.db
+        .select({ id: customers.id })
+        .from(customers)
+        .where(
+          and(
+            eq(customers.phone, input.customerPhone),
+            isNull(customers.deletedAt),
+          ),
+        )
+        .get(),
+    ]);
+
+    const reviewId = `rev_${nanoid()}`;
+    await this.db.insert(productReviews).values({
+      id: reviewId,
+      productId: input.productId,
+      orderId,
+      customerId: customer?.id ?? null,
+      customerName: input.customerName,
+      customerPhone: input.customerPhone,
+      rating: input.rating,
+      title: input.title || null,
+      body: input.body,
+      images: JSON.stringify(images),
+      isVerifiedPurchase: orderId !== null,
+      status: spam.isSpam ? ReviewStatus.SPAM : ReviewStatus.PENDING,
+      spamReasons:
+        spam.reasons.length > 0 ? JSON.stringify(spam.reasons) : null,
+      ipAddress: input.ipAddress || null,
+    });
+
+    if (images.length > 0) {
+      await this.db
+        .update(reviewImageUploads)
+        .set({ reviewId })
+        .where(
+          and(
+            inArray(reviewImageUploads.url, images),
+            isNull(reviewImageUploads.reviewId),
+          ),
+        );
+    }
+
+    // Spam is not announced, so spammers cannot tune their submissions
+    return {
+      success: true,
+      message: "Thank you! Your review will appear once it has been approved.",
+      data: { reviewId },
+    };
+  }
+
+  /**
+   * Approved reviews of a product as shown in the storefront
+   */
+  async getApprovedReviews(productId: string, options: ApprovedReviewsOptions) {
+    const conditions = [
+      eq(productReviews.productId, productId),
+      eq(productReviews.status, ReviewStatus.APPROVED),
+      isNull(productReviews.deletedAt),
+    ];
+    if (options.rating) {
+      conditions.push(eq(productReviews.rating, options.rating));
+    }
+    if (options.withImages) {
+      conditions.push(sql`${productReviews.images} != '[]'`);
+    }
+
+    const orderBy = {
+      newest: [desc(productReviews.createdAt)],
+      oldest: [asc(productReviews.createdAt)],
+      highest: [desc(productReviews.rating), desc(productReviews.createdAt)],
+      lowest: [asc(productReviews.rating), desc(productReviews.createdAt)],
+    }[options.sort];
+
+    const [rows, total] = await Promise.all([
+      this.db
+        .select({
+          id: productReviews.id,
+          customerName: productReviews.customerName,
+          rating: productReviews.rating,
+          title: productReviews.title,
+          body: productReviews.body,
+          images: productReviews.images,
+          isVerifiedPurchase: productReviews.isVerifiedPurchase,
+          createdAt: productReviews.createdAt,
+        })
+        .from(productReviews)
+        .where(and(...conditions))
+        .orderBy(...orderBy)
+        .limit(options.limit)
+        .offset((options.page - 1) * options.limit),
+      this.db
+        .select({ count: sql<number>`count(*)` })
+        .from(productReviews)
+        .where(and(...conditions))
+        .get(),
+    ]);
+
+    return {
+      reviews: rows.map((row) => ({
+        ...row,
+        images: parseImages(row.images),
+        createdAt: row.createdAt.toISOString(),
+      })),
+      total: total?.count || 0,
+    };
+  }
+
+  /**
+   * Reviews for the admin moderation queue, newest first
+   */
+  async getQueue(options: ReviewQueueOptions) {
+    const conditions = [isNull(productReviews.deletedAt)];
+    if (options.status) {
+      conditions.push(eq(productReviews.status, options.status));
+    }
+    if (options.productId) {
+      conditions.push(eq(productReviews.productId, options.productId));
+    }
+    if (options.search) {
+      const pattern = `%${options.search}%`;
+      conditions.push(
+        or(
+          like(productReviews.customerName, pattern),
+          like(productReviews.customerPhone, pattern),
+          like(productReviews.title, pattern),
+          like(productReviews.body, pattern),
+          like(products.name, pattern),
+        )!,
+      );
+    }
+
+    const [rows, total, statusCounts] = await Promise.all([
+      this.db
+        .select({
+          review: productReviews,
+          productName: products.name,
+          productSlug: products.slug,
+        })
+        .from(productReviews)
+        .innerJoin(products, eq(products.id, productReviews.productId))
+        .where(and(...conditions))
+        .orderBy(desc(productReviews.createdAt))
+        .limit(options.limit)
+        .offset((options.page - 1) * options.limit),
+      this.db
+        .select({ count: sql<number>`count(*)` })
+        .from(productReviews)
+        .innerJoin(products, eq(products.id, productReviews.productId))
+        .where(and(...conditions))
+        .get(),
+      this.db
+        .select({
+          status: productReviews.status,
+          count: sql<number>`count(*)`,
+        })
+        .from(productReviews)
+        .where(isNull(productReviews.deletedAt))
+        .groupBy(productReviews.status),
+    ]);
+
+    return {
+      reviews: rows.map(({ review, productName, productSlug }) => ({
+        ...review,
+        images: parseImages(review.images),
+        spamReasons: review.spamReasons
+          ? (JSON.parse(review.spamReasons) as string[])
+          : [],
+        productName,
+        productSlug,
+      })),
+      total: total?.count || 0,
+      counts: Object.fromEntries(
+        statusCounts.map((row) => [row.status, row.count]),
+      ) as Partial<Record<ReviewStatus, number>>,
+    };
+  }
+
+  /**
+   * Approve, reject or mark reviews as spam
+   */
+  async moderate(
+    reviewIds: string[],
+    status: ReviewStatus,
+    moderatedBy?: string | null,
+    note?: string | null,
+  ): Promise<ReviewServiceResult<{ updated: number }>> {
+    if (reviewIds.length === 0) {
+      return { success: false, message: "No reviews selected" };
+    }
+
+    const updated = await this.db
+      .update(productReviews)
+      .set({
+        status,
+        moderatedBy: moderatedBy || null,
+        moderatedAt: new Date(),
+        ...(note !== undefined && { moderationNote: note || null }),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          inArray(productReviews.id, reviewIds),
+          isNull(productReviews.deletedAt),
+        ),
+      )
+      .returning({ id: productReviews.id });
+
+    if (updated.length === 0) {
+      return { success: false, message: "Reviews not found" };
+    }
+
+    return {
+      success: true,
+      message: `${updated.length} review(s) marked as ${status}`,
+      data: { updated: updated.length },
+    };
+  }
+
+  /**
+   * Remember a photo uploaded from the review form, so a review can claim it
+   */
+  async recordImageUpload(upload: {
+    key: string;
+    url: string;
+    ipAddress?: string | null;
+  }) {
+    await this.db.insert(reviewImageUploads).values({
+      id: `rvimg_${nanoid()}`,
+      key: upload.key,
+      url: upload.url,
+      ipAddress: upload.ipAddress || null,
+    });
+  }
+
+  /**
+   * Delete uploaded photos that no review claimed, from R2 and the
+   * database. Returns how many were deleted.
+   */
+  async deleteUnusedImages(uploadedBefore: Date, limit = 100) {
+    const unused = await this.db
+      .select({ id: reviewImageUploads.id, key: reviewImageUploads.key })
+      .from(reviewImageUploads)
+      .where(
+        and(
+          isNull(reviewImageUploads.reviewId),
+          lt(reviewImageUploads.createdAt, uploadedBefore),
+        ),
+      )
+      .limit(limit);
+
+    const deleted: string[] = [];
+    for (const upload of unused) {
+      try {
+        await deleteFile(upload.key);
+        deleted.push(upload.id);
+      } catch (error) {
+        console.error(`Failed to delete review image ${upload.key}:`, error);
+      }
+    }
+
+    if (deleted.length > 0) {
+      await this.db
+        .delete(reviewImageUploads)
+        .where(inArray(reviewImageUploads.id, deleted));
+    }
+    return deleted.length;
+  }
+
+  /**
+   * Delete reviews. They stay in the database but are no longer listed.
+   */
+  async deleteReviews(
+    reviewIds: string[],
+  ): Promise<ReviewServiceResult<{ deleted: number }>> {
+    if (reviewIds.length === 0) {
+      return { success: false, message: "No reviews selected" };
+    }
+
+    const deleted = await this.db
+      .update(productReviews)
+      .set({ deletedAt: new Date() })
+      .where(
+        and(
+          inArray(productReviews.id, reviewIds),
+          isNull(productReviews.deletedAt),
+        ),
+      )
+      .returning({ id: productReviews.id });
+
+    return {
+      success: true,
+      message: `${deleted.length} review(s) deleted`,
+      data: { deleted: deleted.length },
+    };
+  }
+}
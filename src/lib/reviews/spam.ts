@@ -0,0 +1,110 @@
+import type { Database } from "@/db";
+import { productReviews } from "@/db/schema";
+
+import { and, eq, gte, isNull, ne, sql } from "drizzle-orm";
+
+// Heuristics run on every submitted review. A review failing one of them
+// still reaches the moderation queue with the reasons attached; failing the
+// honeypot or two or more of them files it as spam straight away.
+
+export const SpamReason = {
+  HONEYPOT: "honeypot", // Filled a field hidden from people
+  LINKS: "links",
+  REPEATED_CHARACTERS: "repeated_characters",
+  SHOUTING: "shouting",
+  DUPLICATE_CONTENT: "duplicate_content", // Same text already posted by someone else
+  FLOODING: "flooding", // Too many reviews from one phone number
+} as const;
+
+export type SpamReason = (typeof SpamReason)[keyof typeof SpamReason];
+
+// Reviews one phone number can submit in a day before being flagged
+const MAX_REVIEWS_PER_PHONE_PER_DAY = 5;
+const DUPLICATE_WINDOW_SECONDS = 30 * 24 * 60 * 60;
+
+export interface SpamCheckInput {
+  customerPhone: string;
+  title?: string | null;
+  body: string;
+  // Honeypot field value, empty for real shoppers
+  website?: string | null;
+}
+
+export interface SpamCheckResult {
+  reasons: SpamReason[];
+  isSpam: boolean;
+}
+
+function textChecks(input: SpamCheckInput): SpamReason[] {
+  const text = `${input.title || ""} ${input.body}`;
+  const reasons: SpamReason[] = [];
+
+  if (
+    /https?:\/\/|www\.|\b[a-z0-9-]+\.(com|net|org|xyz|ru|top)\b/i.test(text)
+  ) {
+    reasons.push(SpamReason.LINKS);
+  }
+  if (/(.)\1{9,}/.test(text)) {
+    reasons.push(SpamReason.REPEATED_CHARACTERS);
+  }
+
+  const letters = text.replace(/[^a-zA-Z]/g, "");
+  if (letters.length >= 20 && letters === letters.toUpperCase()) {
+    reasons.push(SpamReason.SHOUTING);
+  }
+
+  return reasons;
+}
+
+/**
+ * Run the spam checks on a review about to be submitted
+ */
+export async function checkReviewSpam(
+  db: Database,
+  input: SpamCheckInput,
+): Promise<SpamCheckResult> {
+  if (input.website?.trim()) {
+    return { reasons: [SpamReason.HONEYPOT], isSpam: true };
+  }
+
+  const reasons = textChecks(input);
+  const now = Math.floor(Date.now() / 1000);
+
+  const [recent, duplicate] = await Promise.all([
+    db
+      .select({ count: sql<number>`count(*)` })
+      .from(productReviews)
+      .where(
+        and(
+          eq(productReviews.customerPhone, input.customerPhone),
+          gte(productReviews.createdAt, new Date((now - 24 * 60 * 60) * 1000)),
+        ),
+      )
+      .get(),
+    db
+      .select({ id: productReviews.id })
+      .from(productReviews)
+      .where(
+        and(
+          sql`lower(trim(${productReviews.body})) = ${input.body.trim().toLowerCase()}`,
+          ne(productReviews.customerPhone, input.customerPhone),
+          gte(
+            productReviews.createdAt,
+            new Date((now - DUPLICATE_WINDOW_SECONDS) * 1000),
+          ),
+          isNull(productReviews.deletedAt),
+        ),
+      )
+      .get(),
+  ]);
+
+  if ((recent?.count || 0) >= MAX_REVIEWS_PER_PHONE_PER_DAY) {
+    reasons.push(SpamReason.FLOODING);
+  }
+  // Short generic reviews ("Good product") are legitimately repeated
+  if (duplicate && input.body.trim().length >= 40) {
+    reasons.push(SpamReason.DUPLICATE_CONTENT);
+  }
+
+  return { reasons, isSpam: reasons.length >= 2 };
+}
@@ -0,0 +1,187 @@
+import type { Database } from "@/db";
+import { searchQueries, type SearchQuerySource } from "@/db/schema";
+import { normalizeSearchText } from "./tokenize";
+
+import { and, desc, eq, gte, inArray, isNull, lt, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { z } from "zod";
+
+export const searchClickSchema = z.object({
+  searchId: z.string().min(1),
+  entityType: z.enum(["product", "category", "page"]),
+  entityId: z.string().min(1),
+});
+
+export type SearchClick = z.infer<typeof searchClickSchema>;
+
+export interface SearchReportOptions {
+  since: Date;
+  limit?: number;
+}
+
+const DEFAULT_REPORT_LIMIT = 20;
+
+// Pasted paragraphs are cut short rather than bloating the log
+const MAX_QUERY_LENGTH = 200;
+
+/**
+ * Id for a search, created before the search runs so it can be sent back to
+ * the storefront with the results
+ */
+export function createSearchId() {
+  return `srch_${nanoid()}`;
+}
+
+/**
+ * Service for the storefront search log: what shoppers search for, what they
+ * click and which searches lead to an order
+ */
+export class SearchAnalyticsService {
+  constructor(private db: Database) {}
+
+  /**
+   * Record a search. Blank queries are not worth reporting and are skipped.
+   */
+  async logQuery(entry: {
+    id: string;
+    query: string;
+    source: SearchQuerySource;
+    resultCount: number;
+  }) {
+    const query = normalizeSearchText(entry.query).slice(0, MAX_QUERY_LENGTH);
+    if (!query) return;
+
+    await this.db.insert(searchQueries).values({
+      id: entry.id,
+      query,
+      source: entry.source,
+      resultCount: entry.resultCount,
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Record the result a shopper opened. A later click replaces an earlier
+   * one. Returns false when the search is unknown.
+   */
+  async recordClick(click: SearchClick) {
+    const result = await this.db
+      .update(searchQueries)
+      .set({
+        clickedEntityType: click.entityType,
+        clickedEntityId: click.entityId,
+        clickedAt: new Date(),
+      })
+      .where(eq(searchQueries.id, click.searchId));
+
+    return result.rowsAffected > 0;
+  }
+
+  /**
+   * Attribute an order to the searches that led to it. Searches already
+   * credited to another order keep their first order.
+   */
+  async recordConversion(searchIds: string[], orderId: string) {
+    if (searchIds.length === 0) return;
+
+    await this.db
+      .update(searchQueries)
+      .set({ orderId })
+      .where(
+        and(
+          inArray(searchQueries.id, searchIds),
+          isNull(searchQueries.orderId),
+        ),
+      );
+  }
+
+  /**
+   * Totals, most searched queries and queries that found nothing since the
+   * given date
+   */
+  async getReport({
+    since,
+    limit = DEFAULT_REPORT_LIMIT,
+  }: SearchReportOptions) {
+    const inRange = gte(searchQueries.createdAt, since);
+
+    const searches = sql<number>`count(*)`;
+    const zeroResults = sql<number>`sum(case when ${searchQueries.resultCount} = 0 then 1 else 0 end)`;
+    const clicks = sql<number>`count(${searchQueries.clickedAt})`;
+    const converted = sql<number>`count(${searchQueries.orderId})`;
+    const orders = sql<number>`count(distinct ${searchQueries.orderId})`;
+
+    const [totals, topQueries, zeroResultQueries] = await Promise.all([
+      this.db
+        .select({ searches, zeroResults, clicks, converted, orders })
+        .from(searchQueries)
+        .where(inRange)
+        .get(),
+      this.db
+        .select({
+          query: searchQueries.query,
+          searches,
+          averageResults: sql<number>`avg(${searchQueries.resultCount})`,
+          clicks,
+          orders,
+        })
+        .from(searchQueries)
+        .where(inRange)
+        .groupBy(searchQueries.query)
+        .orderBy(desc(searches))
+        .limit(limit),
+      this.db
+        .select({
+          query: searchQueries.query,
+          searches,
+          lastSearchedAt: sql<number>`max(${searchQueries.createdAt})`,
+        })
+        .from(searchQueries)
+        .where(and(inRange, eq(searchQueries.resultCount, 0)))
+        .groupBy(searchQueries.query)
+        .orderBy(desc(searches))
+        .limit(limit),
+    ]);
+
+    const searchCount = Number(totals?.searches ?? 0);
+    const rate = (count: number) => (searchCount > 0 ? count / searchCount : 0);
+
+    return {
+      since,
+      totals: {
+        searches: searchCount,
+        zeroResults: Number(totals?.zeroResults ?? 0),
+        clicks: Number(totals?.clicks ?? 0),
+        convertedSearches: Number(totals?.converted ?? 0),
+        orders: Number(totals?.orders ?? 0),
+        zeroResultRate: rate(Number(totals?.zeroResults ?? 0)),
+        clickThroughRate: rate(Number(totals?.clicks ?? 0)),
+        // Share of searches followed by an order
+        conversionRate: rate(Number(totals?.converted ?? 0)),
+      },
+      topQueries: topQueries.map((row) => ({
+        query: row.query,
+        searches: Number(row.searches),
+        averageResults: Math.round(Number(row.averageResults) * 10) / 10,
+        clicks: Number(row.clicks),
+        orders: Number(row.orders),
+      })),
+      zeroResultQueries: zeroResultQueries.map((row) => ({
+        query: row.query,
+        searches: Number(row.searches),
+        lastSearchedAt: new Date(Number(row.lastSearchedAt) * 1000),
+      })),
+    };
+  }
+
+  /**
+   * Delete searches logged before the given date. Returns the number removed.
+   */
+  async deleteOlderThan(cutoff: Date) {
+    const result = await this.db
+      .delete(searchQueries)
+      .where(lt(searchQueries.createdAt, cutoff));
+
+    return result.rowsAffected;
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Number of typos tolerated in a word of the given length. Short words are
+ * left alone: at two or three letters nearly every other word is one edit
+ * away.
+ */
+export function maxEditsFor(length: number): number {
+  if (length < 4) return 0;
+  if (length < 7) return 1;
+  return 2;
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * neighbouring letters ("shrit" -> "shirt" is one edit). Gives up and
+ * returns `max + 1` once the distance is known to exceed `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  const s = [...a];
+  const t = [...b];
+  if (Math.abs(s.length - t.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: t.length + 1 }, (_, j) => j);
+  let previousMin = 0;
+
+  for (let i = 1; i <= s.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= t.length; j++) {
+      const cost = s[i - 1] === t[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && s[i - 1] === t[j - 2] && s[i - 2] === t[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    // A swap can reach back two rows, so stop only once both are over
+    if (rowMin > max && previousMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+    previousMin = rowMin;
+  }
+
+  return Math.min(previous[t.length], max + 1);
+}
+
+/**
+ * Distance between what was typed so far and the start of a longer word,
+ * so "shrt" matches "shirts" while the customer is still typing.
+ */
+export function prefixEditDistance(
+  typed: string,
+  word: string,
+  max: number,
+): number {
+  const wordChars = [...word];
+  const typedLength = [...typed].length;
+  let best = max + 1;
+
+  // The typed part may have dropped or added letters, so try nearby cut points
+  for (
+    let cut = Math.max(1, typedLength - max);
+    cut <= Math.min(wordChars.length, typedLength + max);
+    cut++
+  ) {
+    best = Math.min(
+      best,
+      editDistance(typed, wordChars.slice(0, cut).join(""), max),
+    );
+  }
+
+  return best;
+}
@@ -1,6 +1,21 @@
 import { db } from "@/db";
-import { products, productImages, categories, pages } from "@/db/schema";
-import { eq, sql, and, inArray, or, like, gte, lte } from "drizzle-orm";
+import {
+  products,
+  productImages,
+  productVariants,
+  productAttributeValues,
+  productCategories,
+  categories,
+  pages,
+} from "@/db/schema";
+import { isInCategory } from "@/lib/catalog/product-categories";
+import { completeQuery, expandQuery, type ExpandedQuery } from "./query";
+import { eq, sql, and, inArray, isNull, gte, lte, type SQL } from "drizzle-orm";
+
+// Search runs on the `search_index` FTS5 table (migration 0017). Drizzle has
+// no virtual tables, so it is queried with raw SQL. Columns, in order:
+// entity_type, entity_id (both unindexed), title, body, sku, attributes,
+// category.
 
 // Types for search results
 export type ProductSearchResult = {
@@ -12,6 +27,9 @@ export type ProductSearchResult = {
   imageUrl?: string | null;
   categoryId: string;
   categoryName?: string | null;
+  // Name and best matching fragment as escaped HTML, matches wrapped in <mark>
+  highlightedName: string;
+  snippet: string;
   type: "product";
 };
 
@@ -20,6 +38,8 @@ export type PageSearchResult = {
   title: string;
   slug: string;
   content: string;
+  highlightedTitle: string;
+  snippet: string;
   type: "page";
 };
 
@@ -28,6 +48,8 @@ export type CategorySearchResult = {
   name: string;
   slug: string;
   description: string | null;
+  highlightedName: string;
+  snippet: string;
   type: "category";
 };
 
@@ -36,239 +58,216 @@ export type SearchResult =
   | PageSearchResult
   | CategorySearchResult;
 
+export type IndexCounts = {
+  productsCount: number;
+  pagesCount: number;
+  categoriesCount: number;
+};
+
+type SearchEntityType = SearchResult["type"];
+
+type IndexDocument = {
+  entityType: SearchEntityType;
+  entityId: string;
+  title: string;
+  body: string;
+  sku: string;
+  attributes: string;
+  category: string;
+};
+
+// Column weights for bm25(): a name match ranks highest, then SKU, category,
+// attribute values and finally the description
+const RANK = sql.raw("bm25(search_index, 0, 0, 10.0, 1.0, 8.0, 3.0, 4.0)");
+
+// highlight() and snippet() wrap matches in these private use characters;
+// the text is HTML escaped before they are swapped for <mark> tags
+const MARK_OPEN = "\uE000";
+const MARK_CLOSE = "\uE001";
+const MARKERS = /[\uE000\uE001]/g;
+const SNIPPET_TOKENS = 16;
+const INSERT_BATCH_SIZE = 50;
+
 /**
- * Fetch all products with their primary images and category names
- * Used for search and indexing
+ * Search products, ranked by relevance, with their primary images
  */
-async function fetchProducts(
-  searchQuery?: string,
-  options?: {
-    limit?: number;
+async function searchProducts(
+  match: string,
+  options: {
+    limit: number;
     categoryId?: string;
     minPrice?: number;
     maxPrice?: number;
   },
 ): Promise<ProductSearchResult[]> {
-  try {
-    // Build conditions for product search
-    const conditions = [];
-    conditions.push(
-      sql`${products.deletedAt} IS NULL AND ${products.isActive} = 1`,
-    );
+  const conditions: SQL[] = [
+    isNull(products.deletedAt),
+    eq(products.isActive, true),
+  ];
 
-    if (searchQuery && searchQuery.trim() !== "") {
-      // Search in name and description
-      conditions.push(
-        or(
-          like(products.name, `%${searchQuery}%`),
-          like(products.description, `%${searchQuery}%`),
-        ),
-      );
-    }
-
-    if (options?.categoryId) {
-      conditions.push(eq(products.categoryId, options.categoryId));
-    }
-
-    if (typeof options?.minPrice === "number") {
-      conditions.push(gte(products.price, options.minPrice));
-    }
-
-    if (typeof options?.maxPrice === "number") {
-      conditions.push(lte(products.price, options.maxPrice));
-    }
+  if (options.categoryId) {
+    conditions.push(isInCategory(options.categoryId));
+  }
 
-    // Query the database for products with their categories
-    const productsData = await db
-      .select({
-        id: products.id,
-        name: products.name,
-        description: products.description,
-        price: products.price,
-        slug: products.slug,
-        categoryId: products.categoryId,
-        categoryName: categories.name,
-      })
-      .from(products)
-      .leftJoin(categories, eq(products.categoryId, categories.id))
-      .where(and(...conditions))
-      .limit(options?.limit || 100);
+  if (typeof options.minPrice === "number") {
+    conditions.push(gte(products.price, options.minPrice));
+  }
 
-    // Get all product IDs from the query result
-    const productIds = productsData.map((product) => product.id);
+  if (typeof options.maxPrice === "number") {
+    conditions.push(lte(products.price, options.maxPrice));
+  }
 
-    // Ensure we have at least one product ID to avoid empty query errors
-    if (productIds.length === 0) {
-      return [];
-    }
+  const productsData = await db.all<
+    Omit<ProductSearchResult, "imageUrl" | "type">
+  >(sql`
+    SELECT
+      ${products.id} AS id,
+      ${products.name} AS name,
+      ${products.description} AS description,
+      ${products.price} AS price,
+      ${products.slug} AS slug,
+      ${products.categoryId} AS categoryId,
+      ${categories.name} AS categoryName,
+      highlight(search_index, 2, ${MARK_OPEN}, ${MARK_CLOSE}) AS highlightedName,
+      snippet(search_index, -1, ${MARK_OPEN}, ${MARK_CLOSE}, '…', ${SNIPPET_TOKENS}) AS snippet
+    FROM search_index
+    INNER JOIN ${products} ON ${products.id} = search_index.entity_id
+    LEFT JOIN ${categories} ON ${categories.id} = ${products.categoryId}
+    WHERE search_index MATCH ${match}
+      AND search_index.entity_type = 'product'
+      AND ${and(...conditions)}
+    ORDER BY ${RANK}
+    LIMIT ${options.limit}
+  `);
+
+  const productIds = productsData.map((product) => product.id);
+  if (productIds.length === 0) {
+    return [];
+  }
 
-    console.log(`Found ${productIds.length} products, fetching images...`);
+  // Fetch primary images in a separate query
+  const primaryImages = await db
+    .select({
+      productId: productImages.productId,
+      url: productImages.url,
+    })
+    .from(productImages)
+    .where(
+      and(
+        inArray(productImages.productId, productIds),
+        eq(productImages.isPrimary, true),
+      ),
+    );
 
-    // Fetch primary images in a separate query
-    const primaryImages = await db
-      .select({
-        productId: productImages.productId,
-        url: productImages.url,
-      })
-      .from(productImages)
-      .where(
-        and(
-          inArray(productImages.productId, productIds),
-          eq(productImages.isPrimary, true),
-        ),
-      );
-
-    // Create a map of product ID to image URL for quick lookup
-    const imageUrlMap = new Map<string, string>();
-    for (const img of primaryImages) {
-      if (img.productId && img.url) {
-        imageUrlMap.set(img.productId, img.url);
-      }
+  const imageUrlMap = new Map<string, string>();
+  for (const img of primaryImages) {
+    if (img.productId && img.url) {
+      imageUrlMap.set(img.productId, img.url);
     }
-
-    // Add image URLs to the product data
-    const productsWithImages = productsData.map((product) => ({
-      ...product,
-      imageUrl: imageUrlMap.get(product.id) || null,
-      type: "product" as const,
-    }));
-
-    return productsWithImages;
-  } catch (error) {
-    console.error("Error fetching products with images:", error);
-    throw error;
   }
+
+  return productsData.map((product) => ({
+    ...product,
+    highlightedName: markMatches(product.highlightedName),
+    snippet: markMatches(product.snippet),
+    imageUrl: imageUrlMap.get(product.id) || null,
+    type: "product" as const,
+  }));
 }
 
 /**
- * Fetch all published pages
- * Used for search and indexing
+ * Search published pages, ranked by relevance
  */
-async function fetchPages(
-  searchQuery?: string,
-  limit?: number,
+async function searchPages(
+  match: string,
+  limit: number,
 ): Promise<PageSearchResult[]> {
-  const conditions = [];
-  conditions.push(sql`${pages.deletedAt} IS NULL AND ${pages.isPublished} = 1`);
-
-  if (searchQuery && searchQuery.trim() !== "") {
-    // Search in title and content
-    conditions.push(
-      or(
-        like(pages.title, `%${searchQuery}%`),
-        like(pages.content, `%${searchQuery}%`),
-      ),
-    );
-  }
-
-  const allPages = await db
-    .select({
-      id: pages.id,
-      title: pages.title,
-      slug: pages.slug,
-      content: pages.content,
-    })
-    .from(pages)
-    .where(and(...conditions))
-    .limit(limit || 100);
-
-  return allPages.map((page) => ({
+  const rows = await db.all<Omit<PageSearchResult, "type">>(sql`
+    SELECT
+      ${pages.id} AS id,
+      ${pages.title} AS title,
+      ${pages.slug} AS slug,
+      ${pages.content} AS content,
+      highlight(search_index, 2, ${MARK_OPEN}, ${MARK_CLOSE}) AS highlightedTitle,
+      snippet(search_index, 3, ${MARK_OPEN}, ${MARK_CLOSE}, '…', ${SNIPPET_TOKENS}) AS snippet
+    FROM search_index
+    INNER JOIN ${pages} ON ${pages.id} = search_index.entity_id
+    WHERE search_index MATCH ${match}
+      AND search_index.entity_type = 'page'
+      AND ${isNull(pages.deletedAt)}
+      AND ${eq(pages.isPublished, true)}
+    ORDER BY ${RANK}
+    LIMIT ${limit}
+  `);
+
+  return rows.map((page) => ({
     ...page,
+    highlightedTitle: markMatches(page.highlightedTitle),
+    snippet: markMatches(page.snippet),
     type: "page" as const,
   }));
 }
 
 /**
- * Fetch all categories
- * Used for search and indexing
+ * Search categories, ranked by relevance
  */
-async function fetchCategories(
-  searchQuery?: string,
-  limit?: number,
+async function searchCategories(
+  match: string,
+  limit: number,
 ): Promise<CategorySearchResult[]> {
-  const conditions = [];
-  conditions.push(sql`${categories.deletedAt} IS NULL`);
-
-  if (searchQuery && searchQuery.trim() !== "") {
-    // Search in name and description
-    conditions.push(
-      or(
-        like(categories.name, `%${searchQuery}%`),
-        like(categories.description, `%${searchQuery}%`),
-      ),
-    );
-  }
-
-  const allCategories = await db
-    .select({
-      id: categories.id,
-      name: categories.name,
-      slug: categories.slug,
-      description: categories.description,
-    })
-    .from(categories)
-    .where(and(...conditions))
-    .limit(limit || 100);
-
-  return allCategories.map((category) => ({
+  const rows = await db.all<Omit<CategorySearchResult, "type">>(sql`
+    SELECT
+      ${categories.id} AS id,
+      ${categories.name} AS name,
+      ${categories.slug} AS slug,
+      ${categories.description} AS description,
+      highlight(search_index, 2, ${MARK_OPEN}, ${MARK_CLOSE}) AS highlightedName,
+      snippet(search_index, 3, ${MARK_OPEN}, ${MARK_CLOSE}, '…', ${SNIPPET_TOKENS}) AS snippet
+    FROM search_index
+    INNER JOIN ${categories} ON ${categories.id} = search_index.entity_id
+    WHERE search_index MATCH ${match}
+      AND search_index.entity_type = 'category'
+      AND ${isNull(categories.deletedAt)}
+    ORDER BY ${RANK}
+    LIMIT ${limit}
+  `);
+
+  return rows.map((category) => ({
     ...category,
+    highlightedName: markMatches(category.highlightedName),
+    snippet: markMatches(category.snippet),
     type: "category" as const,
   }));
 }
 
-/**
- * Search function that queries the database directly
- * This replaces the MeiliSearch implementation with a direct database search
- */
-export async function search(
-  query: string,
-  options?: {
-    limit?: number;
-    categoryId?: string;
-    minPrice?: number;
-    maxPrice?: number;
-    searchPages?: boolean;
-    searchCategories?: boolean;
-  },
-): Promise<{
+export type SearchOptions = {
+  limit?: number;
+  categoryId?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  searchPages?: boolean;
+  searchCategories?: boolean;
+};
+
+export type SearchResults = {
   products: ProductSearchResult[];
   pages: PageSearchResult[];
   categories: CategorySearchResult[];
-}> {
-  console.log(`Search request: "${query}" with options:`, options);
-
-  const limit = options?.limit || 10;
-  const searchPages = options?.searchPages !== false;
-  const searchCategories = options?.searchCategories !== false;
+  // Corrected query when a word was not found and looked like a typo
+  didYouMean: string | null;
+};
 
+/**
+ * Full-text search across products, pages and categories, each list ranked
+ * by BM25 relevance. Words also match their synonyms, their spelling in the
+ * other script and, when misspelled, the closest indexed word.
+ */
+export async function search(
+  query: string,
+  options?: SearchOptions,
+): Promise<SearchResults> {
   try {
-    // Execute searches in parallel
-    const searchPromises: [
-      Promise<ProductSearchResult[]>,
-      Promise<PageSearchResult[]> | Promise<[]>,
-      Promise<CategorySearchResult[]> | Promise<[]>,
-    ] = [
-      fetchProducts(query, {
-        limit,
-        categoryId: options?.categoryId,
-        minPrice: options?.minPrice,
-        maxPrice: options?.maxPrice,
-      }),
-      searchPages ? fetchPages(query, limit) : Promise.resolve([]),
-      searchCategories ? fetchCategories(query, limit) : Promise.resolve([]),
-    ];
-
-    const [products, pages, categories] = await Promise.all(searchPromises);
-
-    console.log(
-      `Search for "${query}" found products: ${products.length}, pages: ${pages.length}, categories: ${categories.length}`,
-    );
-
-    return {
-      products,
-      pages,
-      categories,
-    };
+    return await searchExpanded(await expandQuery(query), options);
   } catch (error) {
     console.error("Search error:", error);
     // Return empty results in case of error
@@ -276,75 +275,305 @@ export async function search(
       products: [],
       pages: [],
       categories: [],
+      didYouMean: null,
     };
   }
 }
 
 /**
- * Dummy function to maintain API compatibility
- * This function doesn't do anything since we're not using MeiliSearch anymore
+ * Search with a query already run through `expandQuery`
  */
-export async function indexAllData(): Promise<{
-  productsCount: number;
-  pagesCount: number;
-  categoriesCount: number;
-}> {
-  console.log("Database-only search doesn't require indexing");
+export async function searchExpanded(
+  expanded: ExpandedQuery,
+  options?: SearchOptions,
+): Promise<SearchResults> {
+  const limit = options?.limit || 10;
+  const shouldSearchPages = options?.searchPages !== false;
+  const shouldSearchCategories = options?.searchCategories !== false;
 
-  // Return counts of active items in the database
-  try {
-    const productsCount = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(products)
-      .where(sql`${products.deletedAt} IS NULL AND ${products.isActive} = 1`)
-      .get()
-      .then((result) => result?.count || 0);
-
-    const pagesCount = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(pages)
-      .where(sql`${pages.deletedAt} IS NULL AND ${pages.isPublished} = 1`)
-      .get()
-      .then((result) => result?.count || 0);
-
-    const categoriesCount = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(categories)
-      .where(sql`${categories.deletedAt} IS NULL`)
-      .get()
-      .then((result) => result?.count || 0);
+  const { match, didYouMean } = expanded;
+  if (!match) {
+    return { products: [], pages: [], categories: [], didYouMean: null };
+  }
 
-    return {
-      productsCount,
-      pagesCount,
-      categoriesCount,
-    };
-  } catch (error) {
-    console.error("Error counting database items:", error);
-    return {
-      productsCount: 0,
-      pagesCount: 0,
-      categoriesCount: 0,
-    };
+  const [products, pages, categories] = await Promise.all([
+    searchProducts(match, {
+      limit,
+      categoryId: options?.categoryId,
+      minPrice: options?.minPrice,
+      maxPrice: options?.maxPrice,
+    }),
+    shouldSearchPages ? searchPages(match, limit) : Promise.resolve([]),
+    shouldSearchCategories
+      ? searchCategories(match, limit)
+      : Promise.resolve([]),
+  ]);
+
+  return { products, pages, categories, didYouMean };
+}
+
+/**
+ * Autocomplete for a partly typed query: the best few results of each kind,
+ * completions of the last word and a spelling correction when one applies
+ */
+export async function suggest(
+  query: string,
+  options?: Pick<SearchOptions, "limit" | "searchPages" | "searchCategories">,
+): Promise<SearchResults & { completions: string[] }> {
+  const limit = options?.limit || 5;
+  const expanded = await expandQuery(query);
+
+  const [results, completions] = await Promise.all([
+    searchExpanded(expanded, { ...options, limit }),
+    completeQuery(expanded, limit),
+  ]);
+
+  return { ...results, completions };
+}
+
+/**
+ * Index documents for products, or all active products when no IDs are
+ * given. Deleted and inactive products get no document.
+ */
+async function buildProductDocuments(
+  productIds?: string[],
+): Promise<IndexDocument[]> {
+  const rows = await db
+    .select({
+      id: products.id,
+      name: products.name,
+      description: products.description,
+    })
+    .from(products)
+    .where(
+      and(
+        isNull(products.deletedAt),
+        eq(products.isActive, true),
+        productIds ? inArray(products.id, productIds) : undefined,
+      ),
+    );
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const ids = rows.map((row) => row.id);
+  const [variants, attributeValues, categoryNames] = await Promise.all([
+    db
+      .select({
+        productId: productVariants.productId,
+        sku: productVariants.sku,
+      })
+      .from(productVariants)
+      .where(
+        and(
+          inArray(productVariants.productId, ids),
+          isNull(productVariants.deletedAt),
+        ),
+      ),
+    db
+      .select({
+        productId: productAttributeValues.productId,
+        value: productAttributeValues.value,
+      })
+      .from(productAttributeValues)
+      .where(inArray(productAttributeValues.productId, ids)),
+    db
+      .select({
+        productId: productCategories.productId,
+        name: categories.name,
+      })
+      .from(productCategories)
+      .innerJoin(categories, eq(categories.id, productCategories.categoryId))
+      .where(
+        and(
+          inArray(productCategories.productId, ids),
+          isNull(categories.deletedAt),
+        ),
+      ),
+  ]);
+
+  const skus = groupValues(variants.map((v) => [v.productId, v.sku]));
+  const attributes = groupValues(
+    attributeValues.map((a) => [a.productId, a.value]),
+  );
+  const categoryNamesByProduct = groupValues(
+    categoryNames.map((c) => [c.productId, c.name]),
+  );
+
+  return rows.map((row) => ({
+    entityType: "product",
+    entityId: row.id,
+    title: row.name,
+    body: stripHtml(row.description || ""),
+    sku: skus.get(row.id) || "",
+    attributes: attributes.get(row.id) || "",
+    category: categoryNamesByProduct.get(row.id) || "",
+  }));
+}
+
+async function buildPageDocuments(
+  pageIds?: string[],
+): Promise<IndexDocument[]> {
+  const rows = await db
+    .select({ id: pages.id, title: pages.title, content: pages.content })
+    .from(pages)
+    .where(
+      and(
+        isNull(pages.deletedAt),
+        eq(pages.isPublished, true),
+        pageIds ? inArray(pages.id, pageIds) : undefined,
+      ),
+    );
+
+  return rows.map((row) => ({
+    entityType: "page",
+    entityId: row.id,
+    title: row.title,
+    body: stripHtml(row.content),
+    sku: "",
+    attributes: "",
+    category: "",
+  }));
+}
+
+async function buildCategoryDocuments(
+  categoryIds?: string[],
+): Promise<IndexDocument[]> {
+  const rows = await db
+    .select({
+      id: categories.id,
+      name: categories.name,
+      description: categories.description,
+    })
+    .from(categories)
+    .where(
+      and(
+        isNull(categories.deletedAt),
+        categoryIds ? inArray(categories.id, categoryIds) : undefined,
+      ),
+    );
+
+  return rows.map((row) => ({
+    entityType: "category",
+    entityId: row.id,
+    title: row.name,
+    body: stripHtml(row.description || ""),
+    sku: "",
+    attributes: "",
+    category: "",
+  }));
+}
+
+async function removeDocuments(entityType: SearchEntityType, ids?: string[]) {
+  if (ids && ids.length === 0) return;
+
+  await db.run(sql`
+    DELETE FROM search_index
+    WHERE entity_type = ${entityType}
+    ${ids ? sql`AND entity_id IN ${ids}` : sql``}
+  `);
+}
+
+async function insertDocuments(documents: IndexDocument[]) {
+  documents = documents.map((doc) => ({
+    ...doc,
+    title: doc.title.replace(MARKERS, ""),
+    body: doc.body.replace(MARKERS, ""),
+  }));
+  for (let i = 0; i < documents.length; i += INSERT_BATCH_SIZE) {
+    const batch = documents.slice(i, i + INSERT_BATCH_SIZE);
+    await db.run(sql`
+      INSERT INTO search_index
+        (entity_type, entity_id, title, body, sku, attributes, category)
+      VALUES ${sql.join(
+        batch.map(
+          (doc) =>
+            sql`(${doc.entityType}, ${doc.entityId}, ${doc.title}, ${doc.body}, ${doc.sku}, ${doc.attributes}, ${doc.category})`,
+        ),
+        sql`, `,
+      )}
+    `);
   }
 }
 
 /**
- * Dummy function to maintain API compatibility
- * This function doesn't do anything since we're not using MeiliSearch anymore
+ * Replace the index documents of the given entities (all entities of the
+ * type when no IDs are given). Returns how many documents were written.
  */
-export async function triggerReindex(): Promise<{
-  productsCount: number;
-  pagesCount: number;
-  categoriesCount: number;
-} | null> {
-  console.log("Database-only search doesn't require reindexing");
-  return indexAllData();
+async function reindexEntities(
+  entityType: SearchEntityType,
+  ids?: string[],
+): Promise<number> {
+  if (ids && ids.length === 0) return 0;
+
+  const documents =
+    entityType === "product"
+      ? await buildProductDocuments(ids)
+      : entityType === "page"
+        ? await buildPageDocuments(ids)
+        : await buildCategoryDocuments(ids);
+
+  await removeDocuments(entityType, ids);
+  await insertDocuments(documents);
+  return documents.length;
+}
+
+/**
+ * Rebuild the whole search index from the database
+ */
+export async function indexAllData(): Promise<IndexCounts> {
+  const productsCount = await reindexEntities("product");
+  const pagesCount = await reindexEntities("page");
+  const categoriesCount = await reindexEntities("category");
+
+  console.log(
+    `Search index rebuilt: ${productsCount} products, ${pagesCount} pages, ${categoriesCount} categories`,
+  );
+
+  return { productsCount, pagesCount, categoriesCount };
+}
+
+/**
+ * Bring the index up to date after content changed. With IDs only those
+ * entities are refreshed; entities that are deleted, inactive or
+ * unpublished drop out of the index. Products carry the names of the
+ * categories they are listed in, so refreshing a category refreshes those
+ * products too. Without targets the
+ * whole index is rebuilt.
+ */
+export async function triggerReindex(targets?: {
+  productIds?: string[];
+  pageIds?: string[];
+  categoryIds?: string[];
+}): Promise<IndexCounts> {
+  if (!targets) {
+    return indexAllData();
+  }
+
+  let productIds = targets.productIds;
+  if (targets.categoryIds?.length) {
+    const categoryProducts = await db
+      .select({ id: productCategories.productId })
+      .from(productCategories)
+      .where(inArray(productCategories.categoryId, targets.categoryIds));
+    productIds = [
+      ...new Set([...(productIds || []), ...categoryProducts.map((p) => p.id)]),
+    ];
+  }
+
+  return {
+    productsCount: await reindexEntities("product", productIds || []),
+    pagesCount: await reindexEntities("page", targets.pageIds || []),
+    categoriesCount: await reindexEntities(
+      "category",
+      targets.categoryIds || [],
+    ),
+  };
 }
 
 /**
- * Dummy function to maintain API compatibility
- * This function doesn't do anything since we're not using MeiliSearch anymore
+ * Remove entities from the search index
  */
 export async function deleteFromIndex(options: {
   productIds?: string[];
@@ -354,11 +583,58 @@ export async function deleteFromIndex(options: {
   deletedProducts: number;
   deletedPages: number;
   deletedCategories: number;
-} | null> {
-  console.log("Database-only search doesn't require index deletion");
+}> {
+  await removeDocuments("product", options.productIds || []);
+  await removeDocuments("page", options.pageIds || []);
+  await removeDocuments("category", options.categoryIds || []);
+
   return {
     deletedProducts: options.productIds?.length || 0,
     deletedPages: options.pageIds?.length || 0,
     deletedCategories: options.categoryIds?.length || 0,
   };
 }
+
+/**
+ * Join the values of each key into one space separated string
+ */
+function groupValues(pairs: [string, string][]): Map<string, string> {
+  const grouped = new Map<string, string[]>();
+  for (const [key, value] of pairs) {
+    grouped.set(key, [...(grouped.get(key) || []), value]);
+  }
+  return new Map([...grouped].map(([key, values]) => [key, values.join(" ")]));
+}
+
+/**
+ * HTML of a highlight or snippet: the indexed text escaped, with the matches
+ * wrapped in <mark>
+ */
+function markMatches(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+    .replace(/\uE000/g, "<mark>")
+    .replace(/\uE001/g, "</mark>");
+}
+
+/**
+ * Plain text of stored HTML, so markup is neither searched nor shown in
+ * snippets
+ */
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+}
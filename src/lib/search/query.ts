@@ -0,0 +1,264 @@
+import { db } from "@/db";
+import { editDistance, maxEditsFor, prefixEditDistance } from "./fuzzy";
+import { SearchSynonymService } from "./synonyms";
+import { tokenizeQuery } from "./tokenize";
+import { isBangla, phoneticKey } from "./transliterate";
+
+import { sql } from "drizzle-orm";
+
+// Turns what the customer typed into an FTS5 query for `search_index`. Each
+// word also matches its synonyms, its spelling in the other script and, when
+// the word is not in the index at all, the closest indexed word.
+
+export type QueryTerm = {
+  word: string; // As typed, normalized
+  correction: string | null; // Closest indexed word when `word` is unknown
+  alternatives: string[]; // Correction, transliterations and synonyms
+};
+
+export type ExpandedQuery = {
+  terms: QueryTerm[];
+  match: string | null; // FTS5 MATCH expression, null when nothing to search
+  didYouMean: string | null; // The query with corrections applied
+};
+
+type VocabularyWord = {
+  term: string;
+  docs: number;
+  key: string;
+  bangla: boolean;
+};
+
+// Words from names, attribute values and category names. Descriptions are
+// left out so corrections point at words customers actually search for.
+const VOCABULARY_COLUMNS = ["title", "attributes", "category"];
+const VOCABULARY_TTL_MS = 5 * 60 * 1000;
+const MAX_TRANSLITERATIONS = 3;
+const MIN_KEY_LENGTH = 3;
+
+let vocabularyCache: { words: VocabularyWord[]; expiresAt: number } | null =
+  null;
+
+/**
+ * Indexed words with the number of documents they appear in, cached per
+ * worker for a few minutes
+ */
+async function getVocabulary(): Promise<VocabularyWord[]> {
+  if (vocabularyCache && vocabularyCache.expiresAt > Date.now()) {
+    return vocabularyCache.words;
+  }
+
+  const rows = await db.all<{ term: string; docs: number }>(sql`
+    SELECT term, sum(doc) AS docs
+    FROM search_index_vocab
+    WHERE col IN ${VOCABULARY_COLUMNS}
+    GROUP BY term
+  `);
+
+  const words = rows
+    .filter((row) => !/^\d+$/.test(row.term))
+    .map((row) => ({
+      term: row.term,
+      docs: Number(row.docs),
+      key: phoneticKey(row.term),
+      bangla: isBangla(row.term),
+    }));
+
+  vocabularyCache = { words, expiresAt: Date.now() + VOCABULARY_TTL_MS };
+  return words;
+}
+
+/**
+ * Whether any indexed word, in any column, starts with `word`
+ */
+async function isIndexedPrefix(word: string): Promise<boolean> {
+  const rows = await db.all<{ found: number }>(sql`
+    SELECT 1 AS found
+    FROM search_index_vocab
+    WHERE term >= ${word} AND term < ${word + "\u{10FFFF}"}
+    LIMIT 1
+  `);
+
+  return rows.length > 0;
+}
+
+/**
+ * Closest indexed word in the same script, allowing a few typos. Whole-word
+ * matches beat matches on the start of a longer word; ties go to the more
+ * common word.
+ */
+function findCorrection(
+  word: string,
+  vocabulary: VocabularyWord[],
+): string | null {
+  const max = maxEditsFor([...word].length);
+  if (max === 0) return null;
+
+  const bangla = isBangla(word);
+  const key = phoneticKey(word);
+  let best: { term: string; score: number; docs: number } | null = null;
+
+  for (const candidate of vocabulary) {
+    if (candidate.bangla !== bangla) continue;
+
+    let score = editDistance(word, candidate.term, max);
+    if (score > max) {
+      const partial = prefixEditDistance(word, candidate.term, max);
+      score = partial <= max ? partial + 0.5 : Infinity;
+    }
+    if (
+      score === Infinity &&
+      key.length >= MIN_KEY_LENGTH &&
+      key === candidate.key
+    ) {
+      // Spelled differently but sounds the same, e.g. "sharee" and "sari"
+      score = max;
+    }
+    if (score === Infinity) continue;
+
+    if (
+      !best ||
+      score < best.score ||
+      (score === best.score && candidate.docs > best.docs)
+    ) {
+      best = { term: candidate.term, score, docs: candidate.docs };
+    }
+  }
+
+  return best?.term ?? null;
+}
+
+/**
+ * Indexed words in the other script that sound like `word`, e.g. "শাড়ি"
+ * for "sari"
+ */
+function findTransliterations(
+  word: string,
+  vocabulary: VocabularyWord[],
+): string[] {
+  const key = phoneticKey(word);
+  if (key.length < MIN_KEY_LENGTH) return [];
+
+  const bangla = isBangla(word);
+  const max = maxEditsFor(key.length);
+  const matches: { term: string; score: number; docs: number }[] = [];
+
+  for (const candidate of vocabulary) {
+    if (candidate.bangla === bangla) continue;
+
+    const score =
+      candidate.key === key
+        ? 0
+        : candidate.key.startsWith(key)
+          ? 0.5
+          : 1 + editDistance(key, candidate.key, max);
+    if (score <= max + 1) {
+      matches.push({ term: candidate.term, score, docs: candidate.docs });
+    }
+  }
+
+  return matches
+    .sort((a, b) => a.score - b.score || b.docs - a.docs)
+    .slice(0, MAX_TRANSLITERATIONS)
+    .map((match) => match.term);
+}
+
+/**
+ * Quote a word or phrase for FTS5, matching it as a prefix so results show
+ * up while typing
+ */
+function toFtsTerm(term: string): string {
+  return `"${term.replace(/"/g, "")}"*`;
+}
+
+/**
+ * Build a MATCH expression in which every group has to match and any word
+ * of a group will do. Returns null when there is nothing to search for.
+ */
+export function buildFtsQuery(groups: string[][]): string | null {
+  const clauses = groups
+    .filter((group) => group.length > 0)
+    .map((group) =>
+      group.length === 1
+        ? toFtsTerm(group[0])
+        : `(${group.map(toFtsTerm).join(" OR ")})`,
+    );
+
+  return clauses.length > 0 ? clauses.join(" AND ") : null;
+}
+
+/**
+ * Plain MATCH expression for a query: every word, as a prefix
+ */
+export function toFtsQuery(query: string): string | null {
+  return buildFtsQuery(tokenizeQuery(query).map((word) => [word]));
+}
+
+/**
+ * Expand a query with spelling corrections, transliterations and synonyms
+ */
+export async function expandQuery(query: string): Promise<ExpandedQuery> {
+  const words = tokenizeQuery(query);
+  if (words.length === 0) {
+    return { terms: [], match: null, didYouMean: null };
+  }
+
+  const [vocabulary, synonyms, known] = await Promise.all([
+    getVocabulary(),
+    new SearchSynonymService(db).getSynonymMap(),
+    Promise.all(words.map((word) => isIndexedPrefix(word))),
+  ]);
+
+  const terms = words.map((word, index): QueryTerm => {
+    const correction = known[index] ? null : findCorrection(word, vocabulary);
+    const transliterations = findTransliterations(word, vocabulary);
+    const synonymTerms = [word, correction, ...transliterations].flatMap(
+      (term) => (term ? synonyms.get(term) || [] : []),
+    );
+
+    const alternatives = [
+      ...new Set([
+        ...(correction ? [correction] : []),
+        ...transliterations,
+        ...synonymTerms,
+      ]),
+    ].filter((term) => term !== word);
+
+    return { word, correction, alternatives };
+  });
+
+  const corrected = terms.some((term) => term.correction);
+
+  return {
+    terms,
+    match: buildFtsQuery(
+      terms.map((term) => [term.word, ...term.alternatives]),
+    ),
+    didYouMean: corrected
+      ? terms.map((term) => term.correction ?? term.word).join(" ")
+      : null,
+  };
+}
+
+/**
+ * Queries completing the last word, most common words first
+ */
+export async function completeQuery(
+  expanded: ExpandedQuery,
+  limit: number,
+): Promise<string[]> {
+  const last = expanded.terms.at(-1);
+  if (!last) return [];
+
+  const prefix = last.correction ?? last.word;
+  const leading = expanded.terms
+    .slice(0, -1)
+    .map((term) => term.correction ?? term.word);
+
+  const vocabulary = await getVocabulary();
+  return vocabulary
+    .filter((word) => word.term.startsWith(prefix))
+    .sort((a, b) => b.docs - a.docs || a.term.length - b.term.length)
+    .slice(0, limit)
+    .map((word) => [...leading, word.term].join(" "));
+}
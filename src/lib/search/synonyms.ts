@@ -0,0 +1,105 @@
+import type { Database } from "@/db";
+import { searchSynonyms } from "@/db/schema";
+import { normalizeSearchText } from "./tokenize";
+
+import { desc, eq } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { z } from "zod";
+
+export const synonymGroupSchema = z.object({
+  terms: z
+    .array(z.string().trim().min(1).max(100))
+    .max(20, "A group can have at most 20 terms")
+    .refine(
+      (terms) =>
+        new Set(terms.map(normalizeSearchText).filter(Boolean)).size >= 2,
+      "Enter at least two different terms",
+    ),
+});
+
+/**
+ * Service for admin-managed synonym groups
+ */
+export class SearchSynonymService {
+  constructor(private db: Database) {}
+
+  /**
+   * Get all groups, newest first
+   */
+  async getGroups() {
+    return this.db
+      .select()
+      .from(searchSynonyms)
+      .orderBy(desc(searchSynonyms.createdAt));
+  }
+
+  /**
+   * Get group by ID
+   */
+  async getGroup(id: string) {
+    const [group] = await this.db
+      .select()
+      .from(searchSynonyms)
+      .where(eq(searchSynonyms.id, id));
+
+    return group;
+  }
+
+  /**
+   * Save group to database (create or update). Terms are stored the way
+   * search compares them: lowercased, without duplicates.
+   */
+  async saveGroup(group: { id?: string; terms: string[] }) {
+    const terms = [
+      ...new Set(group.terms.map(normalizeSearchText).filter(Boolean)),
+    ];
+    const now = new Date();
+    const existing = group.id ? await this.getGroup(group.id) : undefined;
+
+    if (existing) {
+      await this.db
+        .update(searchSynonyms)
+        .set({ terms, updatedAt: now })
+        .where(eq(searchSynonyms.id, existing.id));
+
+      return (await this.getGroup(existing.id))!;
+    }
+
+    const id = `syn_${nanoid()}`;
+    await this.db.insert(searchSynonyms).values({
+      id,
+      terms,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return (await this.getGroup(id))!;
+  }
+
+  /**
+   * Delete group
+   */
+  async deleteGroup(id: string) {
+    await this.db.delete(searchSynonyms).where(eq(searchSynonyms.id, id));
+  }
+
+  /**
+   * Map every term to the other terms of its groups
+   */
+  async getSynonymMap(): Promise<Map<string, string[]>> {
+    const groups = await this.db
+      .select({ terms: searchSynonyms.terms })
+      .from(searchSynonyms);
+
+    const map = new Map<string, Set<string>>();
+    for (const { terms } of groups) {
+      for (const term of terms) {
+        const others = map.get(term) || new Set<string>();
+        terms.filter((other) => other !== term).forEach((o) => others.add(o));
+        map.set(term, others);
+      }
+    }
+
+    return new Map([...map].map(([term, others]) => [term, [...others]]));
+  }
+}
@@ -0,0 +1,30 @@
+const MAX_QUERY_TERMS = 8;
+
+/**
+ * Split text into lowercase words the way the search index does: letters
+ * and digits (with Bangla vowel signs) form words, everything else
+ * separates them. Latin accents are dropped.
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .normalize("NFC")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}\p{M}]+/u)
+    .filter((word) => /[\p{L}\p{N}]/u.test(word));
+}
+
+/**
+ * Words of a search query, capped so a pasted paragraph stays cheap
+ */
+export function tokenizeQuery(query: string): string[] {
+  return tokenizeSearchText(query).slice(0, MAX_QUERY_TERMS);
+}
+
+/**
+ * Canonical form of a term for comparisons, e.g. "T-Shirt" -> "t shirt"
+ */
+export function normalizeSearchText(text: string): string {
+  return tokenizeSearchText(text).join(" ");
+}
@@ -0,0 +1,164 @@
+// Bangla script <-> romanized Bangla matching. Customers write the same word
+// as "শাড়ি", "sari" or "sharee"; both sides are reduced to a rough Latin
+// sound key and compared on that.
+
+const BANGLA_VOWELS: Record<string, string> = {
+  অ: "o",
+  আ: "a",
+  ই: "i",
+  ঈ: "i",
+  উ: "u",
+  ঊ: "u",
+  ঋ: "ri",
+  এ: "e",
+  ঐ: "oi",
+  ও: "o",
+  ঔ: "ou",
+};
+
+const BANGLA_VOWEL_SIGNS: Record<string, string> = {
+  "া": "a",
+  "ি": "i",
+  "ী": "i",
+  "ু": "u",
+  "ূ": "u",
+  "ৃ": "ri",
+  "ে": "e",
+  "ৈ": "oi",
+  "ো": "o",
+  "ৌ": "ou",
+};
+
+const BANGLA_CONSONANTS: Record<string, string> = {
+  ক: "k",
+  খ: "kh",
+  গ: "g",
+  ঘ: "gh",
+  ঙ: "ng",
+  চ: "ch",
+  ছ: "chh",
+  জ: "j",
+  ঝ: "jh",
+  ঞ: "n",
+  ট: "t",
+  ঠ: "th",
+  ড: "d",
+  ঢ: "dh",
+  ণ: "n",
+  ত: "t",
+  থ: "th",
+  দ: "d",
+  ধ: "dh",
+  ন: "n",
+  প: "p",
+  ফ: "ph",
+  ব: "b",
+  ভ: "bh",
+  ম: "m",
+  য: "j",
+  র: "r",
+  ল: "l",
+  শ: "sh",
+  ষ: "sh",
+  স: "s",
+  হ: "h",
+  ৎ: "t",
+};
+
+// ড় ঢ় য় are written as the base letter followed by a nukta (NFC keeps
+// them decomposed)
+const NUKTA_CONSONANTS: Record<string, string> = {
+  ড: "r",
+  ঢ: "rh",
+  য: "y",
+};
+
+// Signs that follow a letter without being a vowel
+const BANGLA_MODIFIERS: Record<string, string> = {
+  "ং": "ng",
+  "ঃ": "h",
+  "ঁ": "",
+};
+
+const HASANTA = "্";
+const NUKTA = "়";
+const BANGLA_DIGIT_ZERO = 0x09e6;
+
+const BANGLA_PATTERN = /[ঀ-৿]/u;
+
+export function isBangla(text: string): boolean {
+  return BANGLA_PATTERN.test(text);
+}
+
+/**
+ * Romanize Bangla text the way it is commonly typed: "কলম" -> "kolom",
+ * "শাড়ি" -> "shari". A consonant carries an "o" unless a vowel sign or
+ * hasanta follows, or it ends the word.
+ */
+export function transliterateBangla(text: string): string {
+  const chars = [...text.normalize("NFC")];
+  let result = "";
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const code = char.codePointAt(0)!;
+
+    if (code >= BANGLA_DIGIT_ZERO && code <= BANGLA_DIGIT_ZERO + 9) {
+      result += String(code - BANGLA_DIGIT_ZERO);
+    } else if (char in BANGLA_CONSONANTS) {
+      let value = BANGLA_CONSONANTS[char];
+      if (chars[i + 1] === NUKTA) {
+        value = NUKTA_CONSONANTS[char] ?? value;
+        i++;
+      } else if (char === "য" && chars[i - 1] === HASANTA) {
+        // য-ফলা only lengthens the previous consonant
+        value = "";
+      }
+      result += value;
+
+      const next = chars[i + 1];
+      const endsWord = next === undefined || !BANGLA_PATTERN.test(next);
+      if (!endsWord && !(next in BANGLA_VOWEL_SIGNS) && next !== HASANTA) {
+        result += "o";
+      }
+    } else if (char in BANGLA_VOWELS) {
+      result += BANGLA_VOWELS[char];
+    } else if (char in BANGLA_VOWEL_SIGNS) {
+      result += BANGLA_VOWEL_SIGNS[char];
+    } else if (char in BANGLA_MODIFIERS) {
+      result += BANGLA_MODIFIERS[char];
+    } else if (char !== HASANTA && char !== NUKTA) {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Rough sound key of a word in either script. Spellings that sound alike
+ * share a key: "sharee", "sari" and "শাড়ি" all become "sari".
+ */
+export function phoneticKey(word: string): string {
+  const latin = isBangla(word) ? transliterateBangla(word) : word;
+
+  return (
+    latin
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, "")
+      .replace(/ee/g, "i")
+      .replace(/oo/g, "u")
+      // Aspirated and plain consonants are written interchangeably
+      .replace(/([kgcjtdpbsr])h/g, "$1")
+      .replace(/[cq]/g, "k")
+      .replace(/x/g, "ks")
+      .replace(/f/g, "p")
+      .replace(/v/g, "b")
+      .replace(/z/g, "j")
+      .replace(/y/g, "i")
+      .replace(/w/g, "u")
+      // The inherent vowel is romanized as either "o" or "a"
+      .replace(/o/g, "a")
+      .replace(/(.)\1+/g, "$1")
+  );
+}
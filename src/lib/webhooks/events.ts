@@ -0,0 +1,206 @@
+import type { Database } from "@/db";
+import {
+  customers,
+  deliveryShipments,
+  orderItems,
+  orders,
+  WebhookEvent,
+  type DeliveryShipment,
+} from "@/db/schema";
+import type { LowStockVariant } from "@/lib/inventory/low-stock";
+import { emitWebhookEvent, type WaitUntil } from "./service";
+
+import { eq } from "drizzle-orm";
+
+// Payload builders and emitters for each webhook event. Every emitter loads
+// what it needs itself so hook sites stay one line, and never throws.
+
+/**
+ * order.created - with line items
+ */
+export async function emitOrderCreated(
+  db: Database,
+  orderId: string,
+  waitUntil?: WaitUntil,
+) {
+  try {
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, orderId));
+    if (!order) return;
+
+    const items = await db
+      .select({
+        id: orderItems.id,
+        productId: orderItems.productId,
+        variantId: orderItems.variantId,
+        quantity: orderItems.quantity,
+        price: orderItems.price,
+      })
+      .from(orderItems)
+      .where(eq(orderItems.orderId, orderId));
+
+    await emitWebhookEvent(
+      db,
+      WebhookEvent.ORDER_CREATED,
+      { order: { ...toOrderPayload(order), items } },
+      waitUntil,
+    );
+  } catch (error) {
+    console.error("Error emitting order.created webhook:", error);
+  }
+}
+
+/**
+ * order.status_changed - only when the status actually changed
+ */
+export async function emitOrderStatusChanged(
+  db: Database,
+  change: { orderId: string; previousStatus: string; status: string },
+  waitUntil?: WaitUntil,
+) {
+  if (change.previousStatus === change.status) return;
+
+  try {
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, change.orderId));
+    if (!order) return;
+
+    await emitWebhookEvent(
+      db,
+      WebhookEvent.ORDER_STATUS_CHANGED,
+      {
+        order: toOrderPayload(order),
+        previousStatus: change.previousStatus,
+        status: change.status,
+      },
+      waitUntil,
+    );
+  } catch (error) {
+    console.error("Error emitting order.status_changed webhook:", error);
+  }
+}
+
+/**
+ * shipment.updated - current shipment state plus the previous status
+ */
+export async function emitShipmentUpdated(
+  db: Database,
+  shipmentId: string,
+  previousStatus: string | null,
+  waitUntil?: WaitUntil,
+) {
+  try {
+    const [shipment] = await db
+      .select()
+      .from(deliveryShipments)
+      .where(eq(deliveryShipments.id, shipmentId));
+    if (!shipment) return;
+
+    await emitWebhookEvent(
+      db,
+      WebhookEvent.SHIPMENT_UPDATED,
+      { shipment: toShipmentPayload(shipment), previousStatus },
+      waitUntil,
+    );
+  } catch (error) {
+    console.error("Error emitting shipment.updated webhook:", error);
+  }
+}
+
+/**
+ * product.stock_low - one event per variant that just crossed its threshold
+ */
+export async function emitStockLow(
+  db: Database,
+  variants: LowStockVariant[],
+  waitUntil?: WaitUntil,
+) {
+  try {
+    for (const variant of variants) {
+      await emitWebhookEvent(
+        db,
+        WebhookEvent.PRODUCT_STOCK_LOW,
+        { variant },
+        waitUntil,
+      );
+    }
+  } catch (error) {
+    console.error("Error emitting product.stock_low webhook:", error);
+  }
+}
+
+/**
+ * customer.created
+ */
+export async function emitCustomerCreated(
+  db: Database,
+  customerId: string,
+  waitUntil?: WaitUntil,
+) {
+  try {
+    const [customer] = await db
+      .select({
+        id: customers.id,
+        name: customers.name,
+        phone: customers.phone,
+        email: customers.email,
+        address: customers.address,
+        cityName: customers.cityName,
+        zoneName: customers.zoneName,
+        areaName: customers.areaName,
+        createdAt: customers.createdAt,
+      })
+      .from(customers)
+      .where(eq(customers.id, customerId));
+    if (!customer) return;
+
+    await emitWebhookEvent(
+      db,
+      WebhookEvent.CUSTOMER_CREATED,
+      { customer },
+      waitUntil,
+    );
+  } catch (error) {
+    console.error("Error emitting customer.created webhook:", error);
+  }
+}
+
+function toOrderPayload(order: typeof orders.$inferSelect) {
+  return {
+    id: order.id,
+    status: order.status,
+    customerId: order.customerId,
+    customerName: order.customerName,
+    customerPhone: order.customerPhone,
+    customerEmail: order.customerEmail,
+    shippingAddress: order.shippingAddress,
+    cityName: order.cityName,
+    zoneName: order.zoneName,
+    areaName: order.areaName,
+    totalAmount: order.totalAmount,
+    shippingCharge: order.shippingCharge,
+    discountAmount: order.discountAmount,
+    paymentStatus: order.paymentStatus,
+    paymentMethod: order.paymentMethod,
+    paidAmount: order.paidAmount,
+    createdAt: order.createdAt,
+    updatedAt: order.updatedAt,
+  };
+}
+
+function toShipmentPayload(shipment: DeliveryShipment) {
+  return {
+    id: shipment.id,
+    orderId: shipment.orderId,
+    providerType: shipment.providerType,
+    externalId: shipment.externalId,
+    trackingId: shipment.trackingId,
+    status: shipment.status,
+    rawStatus: shipment.rawStatus,
+    updatedAt: shipment.updatedAt,
+  };
+}
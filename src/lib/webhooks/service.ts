@@ -0,0 +1,433 @@
+import type { Database } from "@/db";
+import {
+  webhookDeliveries,
+  webhookEndpoints,
+  WebhookDeliveryStatus,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+} from "@/db/schema";
+import { generateWebhookSecret, signWebhookPayload } from "./signing";
+
+import { and, desc, eq, lte } from "drizzle-orm";
+import { nanoid } from "nanoid";
+
+// Event sent by the "Send test" button; endpoints need not subscribe to it
+export const WEBHOOK_PING_EVENT = "ping";
+
+// Seconds to wait before retry n (after attempt n failed); the last
+// attempt is MAX_ATTEMPTS
+const RETRY_DELAYS = [60, 300, 1800, 7200, 43200];
+const MAX_ATTEMPTS = RETRY_DELAYS.length + 1;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+// A claimed delivery is not picked up again by another worker for this long
+const CLAIM_SECONDS = 120;
+const MAX_RESPONSE_BODY = 1000;
+
+export type WaitUntil = (promise: Promise<unknown>) => void;
+
+/**
+ * Service for webhook endpoints and signed event deliveries
+ */
+export class WebhookService {
+  constructor(private db: Database) {}
+
+  /**
+   * Get all endpoints, newest first
+   */
+  async getEndpoints() {
+    return this.db
+      .select()
+      .from(webhookEndpoints)
+      .orderBy(desc(webhookEndpoints.createdAt));
+  }
+
+  /**
+   * Get endpoint by ID
+   */
+  async getEndpoint(id: string) {
+    const [endpoint] = await this.db
+      .select()
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.id, id));
+
+    return endpoint;
+  }
+
+  /**
+   * Save endpoint to database (create or update). A new endpoint gets a
+   * generated secret unless one is given.
+   */
+  async saveEndpoint(endpoint: {
+    id?: string;
+    name: string;
+    url: string;
+    secret?: string;
+    events: string[];
+    isActive: boolean;
+  }) {
+    const now = new Date();
+    const existing = endpoint.id
+      ? await this.getEndpoint(endpoint.id)
+      : undefined;
+
+    if (existing) {
+      await this.db
+        .update(webhookEndpoints)
+        .set({
+          name: endpoint.name,
+          url: endpoint.url,
+          secret: endpoint.secret || existing.secret,
+          events: JSON.stringify(endpoint.events),
+          isActive: endpoint.isActive,
+          updatedAt: now,
+        })
+        .where(eq(webhookEndpoints.id, existing.id));
+
+      return (await this.getEndpoint(existing.id))!;
+    }
+
+    const id = endpoint.id || `whe_${nanoid()}`;
+    await this.db.insert(webhookEndpoints).values({
+      id,
+      name: endpoint.name,
+      url: endpoint.url,
+      secret: endpoint.secret || generateWebhookSecret(),
+      events: JSON.stringify(endpoint.events),
+      isActive: endpoint.isActive,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return (await this.getEndpoint(id))!;
+  }
+
+  /**
+   * Delete endpoint and its delivery log
+   */
+  async deleteEndpoint(id: string) {
+    await this.db.delete(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+  }
+
+  /**
+   * Get recent deliveries, optionally for one endpoint
+   */
+  async getDeliveries(endpointId?: string, limit = 50) {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(
+        endpointId ? eq(webhookDeliveries.endpointId, endpointId) : undefined,
+      )
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Get delivery by ID
+   */
+  async getDelivery(id: string) {
+    const [delivery] = await this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.id, id));
+
+    return delivery;
+  }
+
+  /**
+   * Record one pending delivery per active endpoint subscribed to the event.
+   * Recording is cheap and durable; sending happens in `deliver`.
+   */
+  async enqueue(
+    event: string,
+    data: Record<string, unknown>,
+    endpoints?: WebhookEndpoint[],
+  ): Promise<WebhookDelivery[]> {
+    const targets = (endpoints ?? (await this.getEndpoints())).filter(
+      (endpoint) =>
+        endpoint.isActive &&
+        (event === WEBHOOK_PING_EVENT ||
+          parseEvents(endpoint.events).includes(event)),
+    );
+
+    if (targets.length === 0) {
+      return [];
+    }
+
+    const now = new Date();
+    const eventId = `evt_${nanoid()}`;
+    const payload = JSON.stringify({
+      id: eventId,
+      event,
+      createdAt: now.toISOString(),
+      data,
+    });
+
+    const rows = targets.map((endpoint) => ({
+      id: `whd_${nanoid()}`,
+      endpointId: endpoint.id,
+      eventId,
+      event,
+      payload,
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    }));
+
+    return this.db.insert(webhookDeliveries).values(rows).returning();
+  }
+
+  /**
+   * Send a pending delivery once. On failure it is rescheduled with
+   * backoff until MAX_ATTEMPTS, then marked failed.
+   */
+  async deliver(deliveryId: string): Promise<WebhookDelivery | undefined> {
+    const now = new Date();
+
+    // Claim the delivery so a concurrent retry run skips it
+    const [delivery] = await this.db
+      .update(webhookDeliveries)
+      .set({
+        nextAttemptAt: new Date(now.getTime() + CLAIM_SECONDS * 1000),
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(webhookDeliveries.id, deliveryId),
+          eq(webhookDeliveries.status, WebhookDeliveryStatus.PENDING),
+          lte(webhookDeliveries.nextAttemptAt, now),
+        ),
+      )
+      .returning();
+
+    if (!delivery) {
+      return this.getDelivery(deliveryId);
+    }
+
+    const endpoint = await this.getEndpoint(delivery.endpointId);
+    if (!endpoint) {
+      return delivery;
+    }
+
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const signature = await signWebhookPayload(
+        endpoint.secret,
+        timestamp,
+        delivery.payload,
+      );
+
+      const response = await fetch(endpoint.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Scalius-Webhooks/1.0",
+          "X-Webhook-Id": delivery.id,
+          "X-Webhook-Event": delivery.event,
+          "X-Webhook-Timestamp": String(timestamp),
+          "X-Webhook-Signature": `t=${timestamp},v1=${signature}`,
+        },
+        body: delivery.payload,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY);
+      if (!response.ok) {
+        error = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const finishedAt = new Date();
+    const status = !error
+      ? WebhookDeliveryStatus.SUCCESS
+      : attempts >= MAX_ATTEMPTS
+        ? WebhookDeliveryStatus.FAILED
+        : WebhookDeliveryStatus.PENDING;
+
+    const [updated] = await this.db
+      .update(webhookDeliveries)
+      .set({
+        status,
+        attempts,
+        responseStatus,
+        responseBody,
+        error,
+        lastAttemptAt: finishedAt,
+        nextAttemptAt:
+          status === WebhookDeliveryStatus.PENDING
+            ? new Date(finishedAt.getTime() + RETRY_DELAYS[attempts - 1] * 1000)
+            : null,
+        updatedAt: finishedAt,
+      })
+      .where(eq(webhookDeliveries.id, delivery.id))
+      .returning();
+
+    if (error) {
+      console.error(
+        `Webhook delivery ${delivery.id} (${delivery.event}) to ${endpoint.url} failed on attempt ${attempts}: ${error}`,
+      );
+    }
+
+    return updated;
+  }
+
+  /**
+   * Send every delivery whose (re)try is due. Called after new events and
+   * by the scheduled retry run.
+   */
+  async processDueDeliveries(limit = 20) {
+    const due = await this.db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(
+        and(
+          eq(webhookDeliveries.status, WebhookDeliveryStatus.PENDING),
+          lte(webhookDeliveries.nextAttemptAt, new Date()),
+        ),
+      )
+      .orderBy(webhookDeliveries.nextAttemptAt)
+      .limit(limit);
+
+    for (const { id } of due) {
+      await this.deliver(id);
+    }
+
+    return due.length;
+  }
+
+  /**
+   * Send a delivery's payload again as a new delivery, keeping the log of
+   * the original intact
+   */
+  async redeliver(deliveryId: string) {
+    const original = await this.getDelivery(deliveryId);
+    if (!original) {
+      return undefined;
+    }
+
+    const now = new Date();
+    const id = `whd_${nanoid()}`;
+    await this.db.insert(webhookDeliveries).values({
+      id,
+      endpointId: original.endpointId,
+      eventId: original.eventId,
+      event: original.event,
+      payload: original.payload,
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return this.deliver(id);
+  }
+
+  /**
+   * Send a ping event to one endpoint and return the delivery
+   */
+  async sendTest(endpointId: string) {
+    const endpoint = await this.getEndpoint(endpointId);
+    if (!endpoint) {
+      return undefined;
+    }
+
+    const [delivery] = await this.enqueue(
+      WEBHOOK_PING_EVENT,
+      { message: "Test event from the admin dashboard" },
+      [{ ...endpoint, isActive: true }],
+    );
+
+    return this.deliver(delivery.id);
+  }
+}
+
+/**
+ * Parse an endpoint's stored event list
+ */
+export function parseEvents(events: string): string[] {
+  try {
+    const parsed = JSON.parse(events);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Record a webhook event and send it. Sending runs through `waitUntil` when
+ * the runtime provides it; otherwise it is awaited. Never throws, so callers
+ * can emit events without affecting their own response.
+ */
+export async function emitWebhookEvent(
+  db: Database,
+  event: string,
+  data: Record<string, unknown>,
+  waitUntil?: WaitUntil,
+) {
+  try {
+    const webhookService = new WebhookService(db);
+    const deliveries = await webhookService.enqueue(event, data);
+    if (deliveries.length === 0) return;
+
+    const send = (async () => {
+      for (const delivery of deliveries) {
+        await webhookService.deliver(delivery.id);
+      }
+      // Piggyback pending retries on event traffic
+      await webhookService.processDueDeliveries(5);
+    })().catch((error) =>
+      console.error(`Error sending ${event} webhooks:`, error),
+    );
+
+    if (waitUntil) {
+      waitUntil(send);
+    } else {
+      await send;
+    }
+  } catch (error) {
+    console.error(`Error recording ${event} webhook event:`, error);
+  }
+}
+
+/**
+ * `waitUntil` of the Cloudflare runtime behind an Astro request, if any
+ */
+export function getRuntimeWaitUntil(
+  locals: Pick<App.Locals, "runtime">,
+): WaitUntil | undefined {
+  const ctx = locals.runtime?.ctx;
+  return ctx
+    ? (promise: Promise<unknown>) => ctx.waitUntil(promise)
+    : undefined;
+}
+
+/**
+ * Endpoint as returned to the admin UI: events parsed and the secret masked.
+ * The full secret is only returned right after it was generated.
+ */
+export function toPublicEndpoint(
+  endpoint: WebhookEndpoint,
+  options: { revealSecret?: boolean } = {},
+) {
+  return {
+    ...endpoint,
+    events: parseEvents(endpoint.events),
+    secret: options.revealSecret
+      ? endpoint.secret
+      : `${endpoint.secret.slice(0, 6)}••••${endpoint.secret.slice(-4)}`,
+  };
+}
+
+export type PublicWebhookEndpoint = ReturnType<typeof toPublicEndpoint>;
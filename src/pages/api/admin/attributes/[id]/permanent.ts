@@ -2,6 +2,7 @@
 import type { APIRoute } from "astro";
 import { db } from "@/db";
 import { productAttributes, productAttributeValues } from "@/db/schema";
+import { triggerReindex } from "@/lib/search/index";
 import { eq } from "drizzle-orm";
 
 export const DELETE: APIRoute = async ({ params }) => {
@@ -11,11 +12,22 @@ export const DELETE: APIRoute = async ({ params }) => {
   }
 
   try {
-    await db.transaction(async (tx) => {
+    const removed = await db.transaction(async (tx) => {
       // First, delete all values associated with this attribute
-      await tx.delete(productAttributeValues).where(eq(productAttributeValues.attributeId, id));
+      const values = await tx
+        .delete(productAttributeValues)
+        .where(eq(productAttributeValues.attributeId, id))
+        .returning({ productId: productAttributeValues.productId });
       // Then, delete the attribute definition itself
       await tx.delete(productAttributes).where(eq(productAttributes.id, id));
+      return values;
+    });
+
+    // Products are found by their attribute values in search
+    await triggerReindex({
+      productIds: [...new Set(removed.map((row) => row.productId))],
+    }).catch((error) => {
+      console.error("Search reindex failed after attribute deletion:", error);
     });
 
     return new Response(null, { status: 204 });
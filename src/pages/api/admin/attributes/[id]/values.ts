@@ -6,6 +6,7 @@ import {
   productAttributes,
   products,
 } from "@/db/schema";
+import { triggerReindex } from "@/lib/search/index";
 import { eq, and, isNull } from "drizzle-orm";
 import { z } from "zod";
 
@@ -232,7 +233,7 @@ export const PUT: APIRoute = async ({ params, request }) => {
     const { oldValue, newValue } = validation.data;
 
     // 1. Update all occurrences in products
-    await db
+    const renamed = await db
       .update(productAttributeValues)
       .set({ value: newValue })
       .where(
@@ -240,7 +241,8 @@ export const PUT: APIRoute = async ({ params, request }) => {
           eq(productAttributeValues.attributeId, attributeId),
           eq(productAttributeValues.value, oldValue),
         ),
-      );
+      )
+      .returning({ productId: productAttributeValues.productId });
 
     // 2. Update options array if exists
     const attribute = await db
@@ -262,6 +264,13 @@ export const PUT: APIRoute = async ({ params, request }) => {
       }
     }
 
+    // 3. Products are found by their attribute values in search
+    await triggerReindex({
+      productIds: renamed.map((row) => row.productId),
+    }).catch((error) => {
+      console.error("Search reindex failed after value rename:", error);
+    });
+
     return new Response(
       JSON.stringify({
         success: true,
@@ -311,14 +320,15 @@ export const DELETE: APIRoute = async ({ params, request }) => {
     const { value } = validation.data;
 
     // 1. Delete all occurrences in products
-    await db
+    const removed = await db
       .delete(productAttributeValues)
       .where(
         and(
           eq(productAttributeValues.attributeId, attributeId),
           eq(productAttributeValues.value, value),
         ),
-      );
+      )
+      .returning({ productId: productAttributeValues.productId });
 
     // 2. Remove from options array if exists
     const attribute = await db
@@ -338,6 +348,13 @@ export const DELETE: APIRoute = async ({ params, request }) => {
       }
     }
 
+    // 3. Products are found by their attribute values in search
+    await triggerReindex({
+      productIds: removed.map((row) => row.productId),
+    }).catch((error) => {
+      console.error("Search reindex failed after value deletion:", error);
+    });
+
     return new Response(
       JSON.stringify({
         success: true,
@@ -2,6 +2,7 @@
 import type { APIRoute } from "astro";
 import { db } from "@/db";
 import { productAttributes, productAttributeValues } from "@/db/schema";
+import { triggerReindex } from "@/lib/search/index";
 import { sql, inArray, count } from "drizzle-orm";
 import { z } from "zod";
 
@@ -20,9 +21,20 @@ export const POST: APIRoute = async ({ request }) => {
     }
 
     if (data.permanent) {
-      await db.transaction(async (tx) => {
-        await tx.delete(productAttributeValues).where(inArray(productAttributeValues.attributeId, data.attributeIds));
+      const removed = await db.transaction(async (tx) => {
+        const values = await tx
+          .delete(productAttributeValues)
+          .where(inArray(productAttributeValues.attributeId, data.attributeIds))
+          .returning({ productId: productAttributeValues.productId });
         await tx.delete(productAttributes).where(inArray(productAttributes.id, data.attributeIds));
+        return values;
+      });
+
+      // Products are found by their attribute values in search
+      await triggerReindex({
+        productIds: [...new Set(removed.map((row) => row.productId))],
+      }).catch((error) => {
+        console.error("Search reindex failed after attribute deletion:", error);
       });
     } else {
       // Check if any attributes are in use before soft-deleting
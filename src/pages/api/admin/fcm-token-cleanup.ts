@@ -1,7 +1,5 @@
 import type { APIRoute, APIContext } from "astro";
-import { db } from "@/db";
-import { adminFcmTokens } from "@/db/schema";
-import { sql } from "drizzle-orm";
+import { deactivateStaleFcmTokens } from "@/lib/notification-utils";
 
 export const POST: APIRoute = async (context) => {
   const { request, locals } = context as APIContext;
@@ -35,28 +33,8 @@ export const POST: APIRoute = async (context) => {
 
     console.log(`Cleaning up ${invalidTokens.length} invalid FCM tokens`);
 
-    // Mark invalid tokens as inactive instead of deleting them
-    if (invalidTokens.length > 0) {
-      await db
-        .update(adminFcmTokens)
-        .set({
-          isActive: false,
-          updatedAt: sql`(cast(strftime('%s','now') as int))`,
-        })
-        .where(sql`${adminFcmTokens.token} IN ${invalidTokens}`);
-    }
-
-    // Also clean up tokens that haven't been used in 30 days
-    const thirtyDaysAgo = Math.floor(Date.now() / 1000) - 30 * 24 * 60 * 60;
-    await db
-      .update(adminFcmTokens)
-      .set({
-        isActive: false,
-        updatedAt: sql`(cast(strftime('%s','now') as int))`,
-      })
-      .where(
-        sql`${adminFcmTokens.lastUsed} < ${thirtyDaysAgo} OR ${adminFcmTokens.lastUsed} IS NULL`
-      );
+    // Also deactivates tokens that haven't been used in 30 days
+    await deactivateStaleFcmTokens(invalidTokens);
 
     return new Response(
       JSON.stringify({
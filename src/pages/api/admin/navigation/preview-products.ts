@@ -6,6 +6,7 @@ import {
   productAttributeValues,
   productAttributes,
 } from "@/db/schema";
+import { isInCategory } from "@/lib/catalog/product-categories";
 import { eq, and, isNull, sql } from "drizzle-orm";
 
 // GET: Preview products matching category and attribute filters
@@ -38,9 +39,7 @@ export const GET: APIRoute = async ({ url }) => {
         name: products.name,
       })
       .from(products)
-      .where(
-        and(eq(products.categoryId, categoryId), isNull(products.deletedAt)),
-      );
+      .where(and(isInCategory(categoryId), isNull(products.deletedAt)));
 
     // Get all products in category first
     const categoryProducts = await query.all();
@@ -1,6 +1,7 @@
 import type { APIRoute } from "astro";
 import { db } from "@/db";
-import { checkoutLanguages } from "@/db/schema";
+import { checkoutLanguages, contentTranslations } from "@/db/schema";
+import { CACHE_KEYS, layoutCache } from "@/lib/layout-cache";
 import { sql, eq, and, isNull, desc } from "drizzle-orm";
 import { z } from "zod";
 
@@ -219,6 +220,8 @@ export const PUT: APIRoute = async ({ params, request }) => {
       );
     }
 
+    layoutCache.invalidate(CACHE_KEYS.STORE_LOCALES);
+
     return new Response(JSON.stringify({ data: updatedLanguage }), {
       status: 200,
       headers: { "Content-Type": "application/json" },
@@ -301,6 +304,7 @@ export const PATCH: APIRoute = async ({ params }) => {
         isDefault: false, // Ensure it's not default when soft deleted
       })
       .where(eq(checkoutLanguages.id, id));
+    layoutCache.invalidate(CACHE_KEYS.STORE_LOCALES);
 
     return new Response(JSON.stringify({ message: "Moved to trash" }), {
       status: 200,
@@ -330,6 +334,7 @@ export const DELETE: APIRoute = async ({ params }) => {
     const languageToDelete = await db
       .select({
         id: checkoutLanguages.id,
+        code: checkoutLanguages.code,
         isActive: checkoutLanguages.isActive,
       })
       .from(checkoutLanguages)
@@ -355,7 +360,16 @@ export const DELETE: APIRoute = async ({ params }) => {
     //   );
     // }
 
-    await db.delete(checkoutLanguages).where(eq(checkoutLanguages.id, id));
+    // Content translated into the language goes with it
+    await db.batch([
+      db.delete(checkoutLanguages).where(eq(checkoutLanguages.id, id)),
+      db
+        .delete(contentTranslations)
+        .where(
+          eq(contentTranslations.locale, languageToDelete.code.toLowerCase()),
+        ),
+    ]);
+    layoutCache.invalidate(CACHE_KEYS.STORE_LOCALES);
 
     return new Response(null, { status: 204 }); // No content, successful deletion
   } catch (error) {
@@ -1,6 +1,7 @@
 import type { APIRoute } from "astro";
 import { db } from "@/db";
 import { checkoutLanguages } from "@/db/schema";
+import { CACHE_KEYS, layoutCache } from "@/lib/layout-cache";
 import { sql, eq } from "drizzle-orm";
 
 // POST: Restore a soft-deleted checkout language
@@ -44,6 +45,7 @@ export const POST: APIRoute = async ({ params }) => {
         updatedAt: sql`(cast(strftime('%s','now') as int))`,
       })
       .where(eq(checkoutLanguages.id, id));
+    layoutCache.invalidate(CACHE_KEYS.STORE_LOCALES);
 
     return new Response(
       JSON.stringify({ message: "Checkout language restored successfully" }),
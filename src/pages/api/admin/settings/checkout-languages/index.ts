@@ -1,6 +1,7 @@
 import type { APIRoute } from "astro";
 import { db } from "@/db";
 import { checkoutLanguages } from "@/db/schema";
+import { CACHE_KEYS, layoutCache } from "@/lib/layout-cache";
 import { nanoid } from "nanoid";
 import { sql, eq, and, or, isNull, like, asc, desc } from "drizzle-orm";
 import { z } from "zod";
@@ -237,6 +238,7 @@ export const POST: APIRoute = async ({ request }) => {
         updatedAt: sql`(cast(strftime('%s','now') as int))`,
       })
       .returning();
+    layoutCache.invalidate(CACHE_KEYS.STORE_LOCALES);
 
     return new Response(JSON.stringify({ data: insertedLanguage }), {
       status: 201,
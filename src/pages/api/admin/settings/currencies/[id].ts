@@ -0,0 +1,198 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { currencies, RoundingMode } from "@/db/schema";
+import { CACHE_KEYS, layoutCache } from "@/lib/layout-cache";
+import { sql, eq, and, ne, isNull } from "drizzle-orm";
+import { z } from "zod";
+
+// Zod schema for updating a currency. The code is fixed once created, as
+// orders refer to it.
+const updateCurrencySchema = z.object({
+  name: z.string().min(1, "Name is required").max(100).optional(),
+  symbol: z.string().min(1, "Symbol is required").max(10).optional(),
+  exchangeRate: z.number().positive("Exchange rate must be above 0").optional(),
+  decimalPlaces: z.number().int().min(0).max(4).optional(),
+  roundingMode: z.nativeEnum(RoundingMode).optional(),
+  roundingIncrement: z.number().positive().optional().nullable(),
+  isBase: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+// GET: Fetch a specific currency by ID
+export const GET: APIRoute = async ({ params }) => {
+  const id = params.id;
+  if (!id) {
+    return new Response(JSON.stringify({ error: "ID is required" }), {
+      status: 400,
+    });
+  }
+
+  try {
+    const currency = await db
+      .select()
+      .from(currencies)
+      .where(and(eq(currencies.id, id), isNull(currencies.deletedAt)))
+      .get();
+
+    if (!currency) {
+      return new Response(JSON.stringify({ error: "Currency not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    return new Response(JSON.stringify({ data: currency }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error(`Error fetching currency ${id}:`, error);
+    return new Response(JSON.stringify({ error: "Failed to fetch currency" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+// PUT: Update a specific currency
+export const PUT: APIRoute = async ({ params, request }) => {
+  const id = params.id;
+  if (!id) {
+    return new Response(JSON.stringify({ error: "ID is required" }), {
+      status: 400,
+    });
+  }
+
+  try {
+    const body = await request.json();
+    const validation = updateCurrencySchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid input",
+          details: validation.error.flatten(),
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const currentCurrency = await db
+      .select()
+      .from(currencies)
+      .where(and(eq(currencies.id, id), isNull(currencies.deletedAt)))
+      .get();
+    if (!currentCurrency) {
+      return new Response(JSON.stringify({ error: "Currency not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // The store always has a base currency: it moves by making another one
+    // the base, never by unsetting it
+    if (currentCurrency.isBase && validation.data.isBase === false) {
+      return new Response(
+        JSON.stringify({
+          error:
+            "Make another currency the base currency instead of unsetting this one.",
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const becomesBase = currentCurrency.isBase || !!validation.data.isBase;
+    const update = db
+      .update(currencies)
+      .set({
+        ...validation.data,
+        // The base currency converts at 1 and is always available
+        ...(becomesBase && { exchangeRate: 1, isActive: true }),
+        updatedAt: sql`(cast(strftime('%s','now') as int))`,
+      })
+      .where(eq(currencies.id, id))
+      .returning();
+
+    const [updatedCurrency] =
+      becomesBase && !currentCurrency.isBase
+        ? (
+            await db.batch([
+              db
+                .update(currencies)
+                .set({ isBase: false })
+                .where(and(eq(currencies.isBase, true), ne(currencies.id, id))),
+              update,
+            ])
+          )[1]
+        : await update;
+
+    layoutCache.invalidate(CACHE_KEYS.STORE_CURRENCIES);
+
+    return new Response(JSON.stringify({ data: updatedCurrency }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error(`Error updating currency ${id}:`, error);
+    return new Response(
+      JSON.stringify({ error: "Failed to update currency" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  }
+};
+
+// DELETE: Soft delete a currency
+export const DELETE: APIRoute = async ({ params }) => {
+  const id = params.id;
+  if (!id) {
+    return new Response(JSON.stringify({ error: "ID is required" }), {
+      status: 400,
+    });
+  }
+
+  try {
+    const existingCurrency = await db
+      .select({ id: currencies.id, isBase: currencies.isBase })
+      .from(currencies)
+      .where(and(eq(currencies.id, id), isNull(currencies.deletedAt)))
+      .get();
+
+    if (!existingCurrency) {
+      return new Response(
+        JSON.stringify({ error: "Currency not found or already deleted" }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    if (existingCurrency.isBase) {
+      return new Response(
+        JSON.stringify({ error: "The base currency cannot be deleted." }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    await db
+      .update(currencies)
+      .set({ deletedAt: sql`(cast(strftime('%s','now') as int))` })
+      .where(eq(currencies.id, id));
+
+    layoutCache.invalidate(CACHE_KEYS.STORE_CURRENCIES);
+
+    return new Response(null, { status: 204 }); // No content
+  } catch (error) {
+    console.error(`Error deleting currency ${id}:`, error);
+    return new Response(
+      JSON.stringify({ error: "Failed to delete currency" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  }
+};
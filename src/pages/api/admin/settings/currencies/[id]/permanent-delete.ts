@@ -0,0 +1,51 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { currencies } from "@/db/schema";
+import { eq } from "drizzle-orm";
+
+// DELETE: Permanently delete a currency. Orders keep the code they were
+// placed in, so nothing else refers to the row.
+export const DELETE: APIRoute = async ({ params }) => {
+  const id = params.id;
+  if (!id) {
+    return new Response(JSON.stringify({ error: "ID is required" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const existingCurrency = await db
+      .select({ id: currencies.id, isBase: currencies.isBase })
+      .from(currencies)
+      .where(eq(currencies.id, id))
+      .get();
+
+    if (!existingCurrency) {
+      return new Response(JSON.stringify({ error: "Currency not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (existingCurrency.isBase) {
+      return new Response(
+        JSON.stringify({ error: "The base currency cannot be deleted." }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    await db.delete(currencies).where(eq(currencies.id, id));
+
+    return new Response(null, { status: 204 }); // No content
+  } catch (error) {
+    console.error(`Error permanently deleting currency ${id}:`, error);
+    return new Response(
+      JSON.stringify({ error: "Failed to permanently delete currency" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  }
+};
@@ -0,0 +1,66 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { currencies } from "@/db/schema";
+import { CACHE_KEYS, layoutCache } from "@/lib/layout-cache";
+import { sql, eq, and } from "drizzle-orm";
+
+// POST: Restore a soft-deleted currency
+export const POST: APIRoute = async ({ params }) => {
+  const id = params.id;
+  if (!id) {
+    return new Response(
+      JSON.stringify({ error: "ID is required for restore" }),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  }
+
+  try {
+    const currencyToRestore = await db
+      .select({ id: currencies.id })
+      .from(currencies)
+      .where(
+        and(eq(currencies.id, id), sql`${currencies.deletedAt} IS NOT NULL`),
+      )
+      .get();
+
+    if (!currencyToRestore) {
+      return new Response(
+        JSON.stringify({ error: "Currency not found or not deleted" }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    await db
+      .update(currencies)
+      .set({
+        deletedAt: null,
+        updatedAt: sql`(cast(strftime('%s','now') as int))`,
+      })
+      .where(eq(currencies.id, id));
+
+    layoutCache.invalidate(CACHE_KEYS.STORE_CURRENCIES);
+
+    return new Response(
+      JSON.stringify({ message: "Currency restored successfully" }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  } catch (error) {
+    console.error(`Error restoring currency ${id}:`, error);
+    return new Response(
+      JSON.stringify({ error: "Failed to restore currency" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  }
+};
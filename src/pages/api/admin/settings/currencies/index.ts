@@ -0,0 +1,186 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { currencies, RoundingMode } from "@/db/schema";
+import { CACHE_KEYS, layoutCache } from "@/lib/layout-cache";
+import { nanoid } from "nanoid";
+import { sql, eq, and, or, like, asc, desc } from "drizzle-orm";
+import { z } from "zod";
+
+// Zod schema for creating a currency
+const createCurrencySchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z]{3}$/, "Code must be a 3 letter ISO 4217 code")
+    .transform((code) => code.toUpperCase()),
+  name: z.string().min(1, "Name is required").max(100),
+  symbol: z.string().min(1, "Symbol is required").max(10),
+  exchangeRate: z.number().positive("Exchange rate must be above 0"),
+  decimalPlaces: z.number().int().min(0).max(4).optional().default(2),
+  roundingMode: z
+    .nativeEnum(RoundingMode)
+    .optional()
+    .default(RoundingMode.NEAREST),
+  roundingIncrement: z.number().positive().optional().nullable(),
+  isBase: z.boolean().optional().default(false),
+  isActive: z.boolean().optional().default(true),
+  sortOrder: z.number().int().optional().default(0),
+});
+
+// GET: List all currencies
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    const searchParams = url.searchParams;
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "10");
+    const search = searchParams.get("search") || "";
+    const sortField = (searchParams.get("sort") || "sortOrder") as
+      | "code"
+      | "name"
+      | "exchangeRate"
+      | "isActive"
+      | "sortOrder"
+      | "updatedAt";
+    const sortOrder = (searchParams.get("order") || "asc") as "asc" | "desc";
+    const showTrashed = searchParams.get("trashed") === "true";
+
+    const offset = (page - 1) * limit;
+
+    const whereConditions = [];
+    if (showTrashed) {
+      whereConditions.push(sql`${currencies.deletedAt} IS NOT NULL`);
+    } else {
+      whereConditions.push(sql`${currencies.deletedAt} IS NULL`);
+    }
+
+    if (search) {
+      whereConditions.push(
+        or(
+          like(currencies.code, `%${search}%`),
+          like(currencies.name, `%${search}%`),
+        ),
+      );
+    }
+
+    const combinedWhereClause = and(...whereConditions);
+
+    const results = await db
+      .select()
+      .from(currencies)
+      .where(combinedWhereClause)
+      .orderBy(
+        desc(currencies.isBase),
+        sortOrder === "asc"
+          ? asc(currencies[sortField])
+          : desc(currencies[sortField]),
+      )
+      .limit(limit)
+      .offset(offset);
+
+    const countResult = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(currencies)
+      .where(combinedWhereClause)
+      .get();
+
+    const total = countResult?.count || 0;
+    const totalPages = Math.ceil(total / limit);
+
+    return new Response(
+      JSON.stringify({
+        data: results,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+        },
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  } catch (error) {
+    console.error("Error fetching currencies:", error);
+    return new Response(
+      JSON.stringify({ error: "Failed to fetch currencies" }),
+      { status: 500, headers: { "Content-Type": "application/json" } },
+    );
+  }
+};
+
+// POST: Create a new currency
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const body = await request.json();
+    const validation = createCurrencySchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid input",
+          details: validation.error.flatten(),
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const data = validation.data;
+
+    // Codes stay unique in the trash too, so restoring cannot clash
+    const existingCurrency = await db
+      .select({ id: currencies.id })
+      .from(currencies)
+      .where(eq(currencies.code, data.code))
+      .get();
+    if (existingCurrency) {
+      return new Response(
+        JSON.stringify({
+          error: `A currency with the code ${data.code} already exists.`,
+        }),
+        { status: 409, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const newCurrencyId = "cur_" + nanoid();
+    const insert = db
+      .insert(currencies)
+      .values({
+        id: newCurrencyId,
+        ...data,
+        // The base currency converts at 1 and is always available
+        ...(data.isBase && { exchangeRate: 1, isActive: true }),
+        createdAt: sql`(cast(strftime('%s','now') as int))`,
+        updatedAt: sql`(cast(strftime('%s','now') as int))`,
+      })
+      .returning();
+
+    const [insertedCurrency] = data.isBase
+      ? (
+          await db.batch([
+            db
+              .update(currencies)
+              .set({ isBase: false })
+              .where(eq(currencies.isBase, true)),
+            insert,
+          ])
+        )[1]
+      : await insert;
+
+    layoutCache.invalidate(CACHE_KEYS.STORE_CURRENCIES);
+
+    return new Response(JSON.stringify({ data: insertedCurrency }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error creating currency:", error);
+    return new Response(
+      JSON.stringify({ error: "Failed to create currency" }),
+      { status: 500, headers: { "Content-Type": "application/json" } },
+    );
+  }
+};
@@ -4,6 +4,11 @@ import { categories, products } from "../../../db/schema";
 import { eq, sql } from "drizzle-orm";
 import { z } from "zod";
 import { triggerReindex, deleteFromIndex } from "@/lib/search/index";
+import {
+  checkCategoryParent,
+  getOrphanedChildren,
+  setCategoryParent,
+} from "@/lib/catalog/category-tree";
 
 const updateCategorySchema = z.object({
   name: z
@@ -18,6 +23,8 @@ const updateCategorySchema = z.object({
     .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Invalid slug format"),
   metaTitle: z.string().nullable(),
   metaDescription: z.string().nullable(),
+  // Leave out to keep the current parent; null moves to the top level
+  parentId: z.string().nullable().optional(),
   image: z
     .object({
       id: z.string(),
@@ -81,6 +88,15 @@ export const PUT: APIRoute = async ({ request, params }) => {
       );
     }
 
+    if (data.parentId) {
+      const parentError = await checkCategoryParent(db, id, data.parentId);
+      if (parentError) {
+        return new Response(JSON.stringify({ error: parentError }), {
+          status: 400,
+        });
+      }
+    }
+
     // Update category
     await db
       .update(categories)
@@ -95,9 +111,12 @@ export const PUT: APIRoute = async ({ request, params }) => {
       })
       .where(eq(categories.id, id));
 
-    // Trigger reindexing in the background
-    // We don't await this to avoid delaying the response
-    triggerReindex().catch((error) => {
+    if (data.parentId !== undefined) {
+      await setCategoryParent(db, id, data.parentId);
+    }
+
+    // Refresh the category and its products in the search index
+    await triggerReindex({ categoryIds: [id] }).catch((error) => {
       console.error(
         "Background reindexing failed after category update:",
         error,
@@ -172,6 +191,18 @@ export const DELETE: APIRoute = async ({ params }) => {
       );
     }
 
+    const children = await getOrphanedChildren(db, [id]);
+    if (children.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: "Cannot delete a category that still has subcategories.",
+          suggestion: "Please move or delete its subcategories first.",
+          affectedCategories: children,
+        }),
+        { status: 400 },
+      );
+    }
+
     // Soft delete the category
     await db
       .update(categories)
@@ -182,10 +213,10 @@ export const DELETE: APIRoute = async ({ params }) => {
 
     // Delete from search index directly instead of full reindexing
     // This is more efficient for single item deletions
-    deleteFromIndex({ categoryIds: [id] }).catch((error) => {
+    await deleteFromIndex({ categoryIds: [id] }).catch((error) => {
       console.error("Error deleting category from search index:", error);
       // Fall back to full reindexing if direct deletion fails
-      triggerReindex().catch((reindexError) => {
+      return triggerReindex().catch((reindexError) => {
         console.error(
           "Background reindexing failed after category deletion:",
           reindexError,
@@ -1,7 +1,9 @@
 import type { APIRoute } from "astro";
 import { db } from "../../../../db";
-import { categories } from "../../../../db/schema";
+import { categories, TranslatableEntity } from "../../../../db/schema";
 import { eq } from "drizzle-orm";
+import { getOrphanedChildren } from "@/lib/catalog/category-tree";
+import { deleteTranslations } from "@/lib/i18n/translations";
 
 export const DELETE: APIRoute = async ({ params }) => {
   try {
@@ -15,8 +17,22 @@ export const DELETE: APIRoute = async ({ params }) => {
       );
     }
 
+    // Subcategories, even ones in the trash, would point at a missing parent
+    const children = await getOrphanedChildren(db, [id], true);
+    if (children.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: "Cannot delete a category that still has subcategories.",
+          suggestion: "Please move or delete its subcategories first.",
+          affectedCategories: children,
+        }),
+        { status: 400 },
+      );
+    }
+
     // Delete category
     await db.delete(categories).where(eq(categories.id, id));
+    await deleteTranslations(db, TranslatableEntity.CATEGORY, [id]);
 
     return new Response(null, { status: 204 });
   } catch (error) {
@@ -2,6 +2,7 @@ import type { APIRoute } from "astro";
 import { db } from "../../../../db";
 import { categories } from "../../../../db/schema";
 import { eq } from "drizzle-orm";
+import { reattachRestoredCategories } from "@/lib/catalog/category-tree";
 
 export const POST: APIRoute = async ({ params }) => {
   try {
@@ -23,6 +24,9 @@ export const POST: APIRoute = async ({ params }) => {
       })
       .where(eq(categories.id, id));
 
+    // Back under its parent, or top-level if the parent is still in the trash
+    await reattachRestoredCategories(db, [id]);
+
     return new Response(null, { status: 204 });
   } catch (error) {
     console.error("Error restoring category:", error);
@@ -1,9 +1,16 @@
 import type { APIRoute } from "astro";
 import { db } from "../../../db";
-import { categories, collections, products } from "../../../db/schema";
+import {
+  categories,
+  collections,
+  products,
+  TranslatableEntity,
+} from "../../../db/schema";
 import { sql, inArray, eq, isNull } from "drizzle-orm";
 import { z } from "zod";
 import { triggerReindex, deleteFromIndex } from "@/lib/search/index";
+import { getOrphanedChildren } from "@/lib/catalog/category-tree";
+import { deleteTranslations } from "@/lib/i18n/translations";
 
 const bulkDeleteSchema = z.object({
   categoryIds: z.array(z.string()),
@@ -55,6 +62,26 @@ export const POST: APIRoute = async ({ request }) => {
       );
     }
 
+    // Subcategories must be deleted along with their parent or moved first.
+    // A permanent delete also counts subcategories in the trash.
+    const orphanedChildren = await getOrphanedChildren(
+      db,
+      data.categoryIds,
+      data.permanent,
+    );
+
+    if (orphanedChildren.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: "Cannot delete categories that still have subcategories.",
+          suggestion:
+            "Please select their subcategories too or move them to another category first.",
+          affectedCategories: orphanedChildren,
+        }),
+        { status: 400 },
+      );
+    }
+
     if (data.permanent) {
       // Update collections to remove references to deleted categories from config
       // Since categoryIds are now in the config JSON, we need to update each collection individually
@@ -89,6 +116,11 @@ export const POST: APIRoute = async ({ request }) => {
       await db
         .delete(categories)
         .where(inArray(categories.id, data.categoryIds));
+      await deleteTranslations(
+        db,
+        TranslatableEntity.CATEGORY,
+        data.categoryIds,
+      );
     } else {
       // Soft delete categories
       await db
@@ -101,10 +133,10 @@ export const POST: APIRoute = async ({ request }) => {
 
     // Delete from search index directly instead of full reindexing
     // This is more efficient for bulk deletions
-    deleteFromIndex({ categoryIds: data.categoryIds }).catch((error) => {
+    await deleteFromIndex({ categoryIds: data.categoryIds }).catch((error) => {
       console.error("Error deleting categories from search index:", error);
       // Fall back to full reindexing if direct deletion fails
-      triggerReindex().catch((reindexError) => {
+      return triggerReindex().catch((reindexError) => {
         console.error(
           "Background reindexing failed after bulk category deletion:",
           reindexError,
@@ -4,6 +4,7 @@ import { categories } from "../../../db/schema";
 import { sql } from "drizzle-orm";
 import { z } from "zod";
 import { triggerReindex } from "@/lib/search/index";
+import { reattachRestoredCategories } from "@/lib/catalog/category-tree";
 
 const bulkRestoreSchema = z.object({
   categoryIds: z.array(z.string()),
@@ -31,9 +32,11 @@ export const POST: APIRoute = async ({ request }) => {
       })
       .where(sql`${categories.id} IN ${data.categoryIds}`);
 
-    // Trigger reindexing to add the restored categories back to the search index
-    // We need a full reindex here since we're adding items back
-    triggerReindex().catch((error) => {
+    // Back under their parents, or top-level if a parent is still in the trash
+    await reattachRestoredCategories(db, data.categoryIds);
+
+    // Add the restored categories back to the search index
+    await triggerReindex({ categoryIds: data.categoryIds }).catch((error) => {
       console.error(
         "Background reindexing failed after bulk category restoration:",
         error,
@@ -1,10 +1,15 @@
 import type { APIRoute, APIContext } from "astro";
 import { db } from "../../../db";
-import { categories, products } from "../../../db/schema";
+import { categories } from "../../../db/schema";
 import { nanoid } from "nanoid";
-import { sql, and, isNull, isNotNull, eq, desc, asc } from "drizzle-orm";
+import { sql, and, isNull, isNotNull, desc, asc } from "drizzle-orm";
 import { z } from "zod";
 import { triggerReindex } from "@/lib/search/index";
+import {
+  checkCategoryParent,
+  setCategoryParent,
+} from "@/lib/catalog/category-tree";
+import { countProductsByCategory } from "@/lib/catalog/product-categories";
 
 const createCategorySchema = z.object({
   name: z
@@ -19,6 +24,7 @@ const createCategorySchema = z.object({
     .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Invalid slug format"),
   metaTitle: z.string().nullable(),
   metaDescription: z.string().nullable(),
+  parentId: z.string().nullable().optional(),
   image: z
     .object({
       id: z.string(),
@@ -81,6 +87,9 @@ export const GET: APIRoute = async ({ request }: APIContext) => {
         imageUrl: categories.imageUrl,
         metaTitle: categories.metaTitle,
         metaDescription: categories.metaDescription,
+        parentId: categories.parentId,
+        depth: categories.depth,
+        sortOrder: categories.sortOrder,
         createdAt: sql<number>`CAST(${categories.createdAt} AS INTEGER)`,
         updatedAt: sql<number>`CAST(${categories.updatedAt} AS INTEGER)`,
         deletedAt: sql<number>`CAST(${categories.deletedAt} AS INTEGER)`,
@@ -106,20 +115,8 @@ export const GET: APIRoute = async ({ request }: APIContext) => {
         })(),
       );
 
-    // Get product counts for these categories in a separate query
-    const productCounts = await db
-      .select({
-        categoryId: products.categoryId,
-        count: sql<number>`count(*)`.as("count"),
-      })
-      .from(products)
-      .where(and(isNull(products.deletedAt), eq(products.isActive, true)))
-      .groupBy(products.categoryId);
-
-    // Create a map of category ID to product count
-    const countMap = new Map(
-      productCounts.map(({ categoryId, count }) => [categoryId, Number(count)]),
-    );
+    // Products listed in each category, counting additional categories too
+    const countMap = await countProductsByCategory(db);
 
     // Format dates and add product counts
     const formattedCategories = results.map((category) => ({
@@ -185,6 +182,15 @@ export const POST: APIRoute = async ({ request }) => {
       );
     }
 
+    if (data.parentId) {
+      const parentError = await checkCategoryParent(db, null, data.parentId);
+      if (parentError) {
+        return new Response(JSON.stringify({ error: parentError }), {
+          status: 400,
+        });
+      }
+    }
+
     const categoryId = "cat_" + nanoid();
 
     // Create category
@@ -204,9 +210,11 @@ export const POST: APIRoute = async ({ request }) => {
       })
       .returning();
 
-    // Trigger reindexing in the background
-    // We don't await this to avoid delaying the response
-    triggerReindex().catch((error) => {
+    // Fills in the tree path and puts the category after its siblings
+    await setCategoryParent(db, categoryId, data.parentId ?? null);
+
+    // Add the new category to the search index
+    await triggerReindex({ categoryIds: [categoryId] }).catch((error) => {
       console.error(
         "Background reindexing failed after category creation:",
         error,
@@ -0,0 +1,98 @@
+import type { APIRoute } from "astro";
+import { db } from "../../../db";
+import { categories } from "../../../db/schema";
+import { asc, isNull } from "drizzle-orm";
+import { z } from "zod";
+import {
+  MAX_CATEGORY_DEPTH,
+  saveCategoryTree,
+} from "@/lib/catalog/category-tree";
+import { countProductsByCategory } from "@/lib/catalog/product-categories";
+
+const saveTreeSchema = z.object({
+  placements: z.array(
+    z.object({
+      id: z.string(),
+      parentId: z.string().nullable(),
+      sortOrder: z.number().int().min(0),
+    }),
+  ),
+});
+
+// Authentication is handled by middleware
+
+export const GET: APIRoute = async () => {
+  try {
+    const rows = await db
+      .select({
+        id: categories.id,
+        name: categories.name,
+        slug: categories.slug,
+        parentId: categories.parentId,
+        depth: categories.depth,
+        sortOrder: categories.sortOrder,
+      })
+      .from(categories)
+      .where(isNull(categories.deletedAt))
+      .orderBy(asc(categories.path));
+
+    const countMap = await countProductsByCategory(db);
+
+    return new Response(
+      JSON.stringify({
+        categories: rows.map((row) => ({
+          ...row,
+          productCount: countMap.get(row.id) || 0,
+        })),
+        maxDepth: MAX_CATEGORY_DEPTH,
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  } catch (error) {
+    console.error("Error fetching category tree:", error);
+    return new Response(
+      JSON.stringify({
+        error: "Internal server error",
+      }),
+      { status: 500 },
+    );
+  }
+};
+
+export const PUT: APIRoute = async ({ request }) => {
+  try {
+    const json = await request.json();
+    const data = saveTreeSchema.parse(json);
+
+    const treeError = await saveCategoryTree(db, data.placements);
+    if (treeError) {
+      return new Response(JSON.stringify({ error: treeError }), {
+        status: 400,
+      });
+    }
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Error saving category tree:", error);
+
+    if (error instanceof z.ZodError) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid request data",
+          details: error.errors,
+        }),
+        { status: 400 },
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: "Internal server error",
+      }),
+      { status: 500 },
+    );
+  }
+};
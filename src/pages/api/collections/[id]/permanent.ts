@@ -1,7 +1,8 @@
 import type { APIRoute } from "astro";
 import { db } from "@/db";
-import { collections } from "@/db/schema";
+import { collections, TranslatableEntity } from "@/db/schema";
 import { eq, and, isNotNull } from "drizzle-orm";
+import { deleteTranslations } from "@/lib/i18n/translations";
 
 export const DELETE: APIRoute = async ({ params }) => {
   try {
@@ -34,6 +35,7 @@ export const DELETE: APIRoute = async ({ params }) => {
 
     // Permanently delete the collection
     await db.delete(collections).where(eq(collections.id, id));
+    await deleteTranslations(db, TranslatableEntity.COLLECTION, [id]);
 
     return new Response(null, { status: 204 });
   } catch (error) {
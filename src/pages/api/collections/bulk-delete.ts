@@ -1,6 +1,7 @@
 import type { APIRoute } from "astro";
 import { db } from "@/db";
-import { collections } from "@/db/schema";
+import { collections, TranslatableEntity } from "@/db/schema";
+import { deleteTranslations } from "@/lib/i18n/translations";
 import { inArray, and, isNull, isNotNull } from "drizzle-orm";
 import { z } from "zod";
 
@@ -25,6 +26,11 @@ export const POST: APIRoute = async ({ request }) => {
           ),
         )
         .returning();
+      await deleteTranslations(
+        db,
+        TranslatableEntity.COLLECTION,
+        deleted.map((collection) => collection.id),
+      );
 
       return new Response(JSON.stringify({ deleted: deleted.length }), {
         status: 200,
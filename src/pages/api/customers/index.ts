@@ -9,6 +9,8 @@ import { nanoid } from "nanoid";
 import { sql } from "drizzle-orm";
 import { z } from "zod";
 import { phoneNumberSchema } from "../../../lib/customer-utils";
+import { getRuntimeWaitUntil } from "../../../lib/webhooks/service";
+import { emitCustomerCreated } from "../../../lib/webhooks/events";
 
 const createCustomerSchema = z.object({
   name: z
@@ -26,7 +28,7 @@ const createCustomerSchema = z.object({
   area: z.string().nullable(),
 });
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, locals }) => {
   try {
     const json = await request.json();
     const data = createCustomerSchema.parse(json);
@@ -106,6 +108,8 @@ export const POST: APIRoute = async ({ request }) => {
       createdAt: sql`unixepoch()`,
     });
 
+    await emitCustomerCreated(db, customer.id, getRuntimeWaitUntil(locals));
+
     return new Response(JSON.stringify({ id: customer.id }), {
       status: 201,
       headers: {
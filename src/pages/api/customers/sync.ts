@@ -24,7 +24,7 @@ export const POST: APIRoute = async () => {
         cityName: orders.cityName,
         zoneName: orders.zoneName,
         areaName: orders.areaName,
-        totalAmount: sql<number>`CAST(SUM(${orders.totalAmount}) AS INTEGER)`,
+        totalAmount: sql<number>`CAST(SUM(${orders.totalAmount} - ${orders.refundedAmount}) AS INTEGER)`,
         orderCount: sql<number>`CAST(COUNT(*) AS INTEGER)`,
         lastOrderAt: sql<number>`CAST(MAX(${orders.createdAt}) AS INTEGER)`,
       })
@@ -142,6 +142,7 @@ export const POST: APIRoute = async () => {
       const customerOrders = await db
         .select({
           totalAmount: orders.totalAmount,
+          refundedAmount: orders.refundedAmount,
           createdAt: orders.createdAt,
         })
         .from(orders)
@@ -150,7 +151,7 @@ export const POST: APIRoute = async () => {
       const stats = {
         totalOrders: customerOrders.length,
         totalSpent: customerOrders.reduce(
-          (sum, order) => sum + order.totalAmount,
+          (sum, order) => sum + order.totalAmount - order.refundedAmount,
           0,
         ),
         lastOrderAt:
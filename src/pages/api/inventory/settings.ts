@@ -0,0 +1,63 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { db } from "@/db";
+import {
+  getLowStockSettings,
+  saveLowStockSettings,
+} from "@/lib/inventory/low-stock";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const settingsSchema = z.object({
+  defaultThreshold: z.number().int().min(0).max(100000),
+  pushAlerts: z.boolean(),
+  emailAlerts: z.boolean(),
+  alertEmails: z
+    .array(z.string().trim().email("Invalid email address"))
+    .max(20),
+});
+
+// GET: Default threshold and who gets low stock alerts
+export const GET: APIRoute = async () => {
+  try {
+    return new Response(JSON.stringify(await getLowStockSettings(db)), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
+
+// PUT: Save the low stock settings
+export const PUT: APIRoute = async ({ request }) => {
+  try {
+    const parsed = settingsSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid inventory settings",
+          details: parsed.error.errors,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    if (parsed.data.emailAlerts && parsed.data.alertEmails.length === 0) {
+      return new Response(
+        JSON.stringify({
+          error: "Add at least one email address to send email alerts",
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    await saveLowStockSettings(db, parsed.data);
+
+    return new Response(JSON.stringify(parsed.data), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -0,0 +1,56 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { db } from "@/db";
+import { getStockAlerts } from "@/lib/inventory/low-stock";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const alertsQuerySchema = z.object({
+  status: z.enum(["low", "out"]).optional(),
+  search: z.string().optional(),
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+});
+
+// GET: Variants that are out of stock or running low
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    const parsed = alertsQuerySchema.safeParse(
+      Object.fromEntries(url.searchParams),
+    );
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid parameters",
+          details: parsed.error.errors,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const options = parsed.data;
+    const { variants, counts, total, defaultThreshold } = await getStockAlerts(
+      db,
+      options,
+    );
+    const totalPages = Math.ceil(total / options.limit);
+
+    return new Response(
+      JSON.stringify({
+        data: variants,
+        counts,
+        defaultThreshold,
+        pagination: {
+          page: options.page,
+          limit: options.limit,
+          total,
+          totalPages,
+          hasNextPage: options.page < totalPages,
+          hasPrevPage: options.page > 1,
+        },
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
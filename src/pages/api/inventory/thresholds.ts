@@ -0,0 +1,37 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { db } from "@/db";
+import { setLowStockThreshold } from "@/lib/inventory/low-stock";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const thresholdSchema = z.object({
+  variantIds: z.array(z.string()).min(1, "Select at least one variant"),
+  // null goes back to the store's default
+  threshold: z.number().int().min(0).max(100000).nullable(),
+});
+
+// PUT: Set the low stock threshold of one or more variants
+export const PUT: APIRoute = async ({ request }) => {
+  try {
+    const parsed = thresholdSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid threshold data",
+          details: parsed.error.errors,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const { variantIds, threshold } = parsed.data;
+    const updated = await setLowStockThreshold(db, variantIds, threshold);
+
+    return new Response(JSON.stringify({ success: true, updated }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
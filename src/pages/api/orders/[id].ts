@@ -4,7 +4,6 @@ import {
   orders,
   orderItems,
   customers,
-  productVariants,
   deliveryLocations,
 } from "../../../db/schema";
 import { eq, sql, and, isNull } from "drizzle-orm";
@@ -14,6 +13,22 @@ import {
   phoneNumberSchema,
   calculateCustomerStats,
 } from "../../../lib/customer-utils";
+import { PaymentService } from "../../../lib/payments/service";
+import { getRuntimeWaitUntil } from "../../../lib/webhooks/service";
+import {
+  getOrderStockChanges,
+  OrderStatusService,
+} from "../../../lib/orders/status";
+import {
+  emitCustomerCreated,
+  emitOrderStatusChanged,
+} from "../../../lib/webhooks/events";
+import { withBundleComponents } from "../../../lib/catalog/bundles";
+import { alertLowStock } from "../../../lib/inventory/low-stock-alerts";
+import {
+  saveOrderItems,
+  validateOrderItemEdit,
+} from "../../../lib/orders/items";
 
 const updateOrderSchema = z.object({
   customerName: z
@@ -54,7 +69,7 @@ const updateOrderSchema = z.object({
   status: z.string().min(1, "Status is required"),
 });
 
-export const PUT: APIRoute = async ({ request, params }) => {
+export const PUT: APIRoute = async ({ request, params, locals }) => {
   try {
     const { id } = params;
     if (!id) {
@@ -109,6 +124,7 @@ export const PUT: APIRoute = async ({ request, params }) => {
         id: orders.id,
         customerId: orders.customerId,
         customerPhone: orders.customerPhone,
+        status: orders.status,
       })
       .from(orders)
       .where(sql`${orders.id} = ${id} AND ${orders.deletedAt} IS NULL`)
@@ -123,76 +139,73 @@ export const PUT: APIRoute = async ({ request, params }) => {
       );
     }
 
+    // A status change in the edit follows the same rules as the status route
+    const orderStatusService = new OrderStatusService(db);
+    const transition = orderStatusService.checkTransition(
+      existingOrder.status,
+      data.status,
+    );
+    if (!transition.success) {
+      return new Response(
+        JSON.stringify({
+          error: transition.message,
+          code: transition.code,
+          allowedStatuses: transition.allowedStatuses,
+        }),
+        { status: 409 },
+      );
+    }
+
     // Get existing order items to compare with new items
     const existingItems = await db
       .select()
       .from(orderItems)
       .where(eq(orderItems.orderId, id));
 
-    // First, restore stock for removed/modified items
-    for (const existingItem of existingItems) {
-      if (existingItem.variantId) {
-        const matchingNewItem = data.items.find(
-          (item) =>
-            item.variantId === existingItem.variantId &&
-            item.quantity === existingItem.quantity,
-        );
-
-        if (!matchingNewItem) {
-          // Item was removed or quantity changed, restore stock
-          await db
-            .update(productVariants)
-            .set({
-              stock: sql`${productVariants.stock} + ${existingItem.quantity}`,
-              updatedAt: sql`unixepoch()`,
-            })
-            .where(eq(productVariants.id, existingItem.variantId));
-        }
-      }
+    // Bundles already on the order keep the components they were sold with
+    const items = await withBundleComponents(db, data.items, existingItems);
+
+    const itemError = await validateOrderItemEdit(db, id, existingItems, items);
+    if (itemError) {
+      return new Response(JSON.stringify({ error: itemError }), {
+        status: 409,
+      });
     }
 
-    // Then, check and update stock for new/modified items
-    for (const item of data.items) {
-      if (item.variantId) {
-        const existingItem = existingItems.find(
-          (ei) => ei.variantId === item.variantId,
-        );
-        const quantityDiff = existingItem
-          ? item.quantity - existingItem.quantity
-          : item.quantity;
-
-        if (quantityDiff !== 0) {
-          const variant = await db
-            .select()
-            .from(productVariants)
-            .where(
-              and(
-                eq(productVariants.id, item.variantId),
-                isNull(productVariants.deletedAt),
-              ),
-            )
-            .get();
-
-          if (!variant) {
-            throw new Error(`Variant ${item.variantId} not found`);
-          }
-
-          if (variant.stock < quantityDiff) {
-            throw new Error(
-              `Insufficient stock for variant ${item.variantId}. Available: ${variant.stock}, Additional Requested: ${quantityDiff}`,
-            );
-          }
-
-          // Update variant stock
-          await db
-            .update(productVariants)
-            .set({
-              stock: variant.stock - quantityDiff,
-              updatedAt: sql`unixepoch()`,
-            })
-            .where(eq(productVariants.id, item.variantId));
-        }
-      }
+    // Net stock change per variant: what the old items held goes back,
+    // what the new items need comes out. A cancelled order holds nothing.
+    const releasedItems = await orderStatusService.getReleasedItems(
+      id,
+      data.status,
+    );
+    const stockChanges = getOrderStockChanges(
+      { status: existingOrder.status, items: releasedItems },
+      { status: data.status, items },
+    );
+
+    // Check every decrement before writing, so a rejected edit leaves
+    // stock untouched
+    const stockCheck = await orderStatusService.checkStock(stockChanges);
+    if (!stockCheck.success) {
+      return new Response(
+        JSON.stringify({ error: stockCheck.message, code: stockCheck.code }),
+        { status: 409 },
+      );
+    }
+
+    const stockUpdate = await orderStatusService.applyStockChanges(
+      stockChanges,
+      {
+        orderId: id,
+        actorId: locals.user?.id,
+        note: "Order items edited",
+      },
+    );
+    if (!stockUpdate.success) {
+      return new Response(
+        JSON.stringify({ error: stockUpdate.message, code: stockUpdate.code }),
+        { status: 409 },
+      );
     }
 
     // Calculate total amount
@@ -203,6 +216,7 @@ export const PUT: APIRoute = async ({ request, params }) => {
 
     // Handle customer association
     let customerId = existingOrder.customerId;
+    let createdCustomerId: string | null = null;
 
     // If phone number changed, we need to handle customer association
     if (data.customerPhone !== existingOrder.customerPhone) {
@@ -237,6 +251,7 @@ export const PUT: APIRoute = async ({ request, params }) => {
           .returning();
 
         customerId = newCustomer.id;
+        createdCustomerId = newCustomer.id;
       }
     }
 
@@ -265,23 +280,10 @@ export const PUT: APIRoute = async ({ request, params }) => {
       .where(eq(orders.id, id))
       .returning();
 
-    // Delete existing order items
-    await db.delete(orderItems).where(eq(orderItems.orderId, id));
-
-    // Create new order items
-    if (data.items.length > 0) {
-      await db.insert(orderItems).values(
-        data.items.map((item) => ({
-          id: "item_" + nanoid(),
-          orderId: order.id,
-          productId: item.productId,
-          variantId: item.variantId,
-          quantity: item.quantity,
-          price: item.price,
-          createdAt: sql`unixepoch()`,
-        })),
-      );
-    }
+    // A new total changes what is still owed
+    await new PaymentService(db).syncOrderPaymentStatus(id);
+
+    await saveOrderItems(db, id, existingItems, items);
 
     // Update customer stats for both old and new customer if changed
     if (existingOrder.customerId) {
@@ -291,6 +293,23 @@ export const PUT: APIRoute = async ({ request, params }) => {
       await updateCustomerStats(customerId);
     }
 
+    const waitUntil = getRuntimeWaitUntil(locals);
+    await Promise.all([
+      emitOrderStatusChanged(
+        db,
+        {
+          orderId: id,
+          previousStatus: existingOrder.status,
+          status: data.status,
+        },
+        waitUntil,
+      ),
+      alertLowStock(db, stockUpdate.data!, { waitUntil }),
+      createdCustomerId
+        ? emitCustomerCreated(db, createdCustomerId, waitUntil)
+        : null,
+    ]);
+
     return new Response(JSON.stringify({ id: order.id }), {
       status: 200,
       headers: {
@@ -323,6 +342,7 @@ async function updateCustomerStats(customerId: string) {
   const customerOrders = await db
     .select({
       totalAmount: orders.totalAmount,
+      refundedAmount: orders.refundedAmount,
       createdAt: orders.createdAt,
     })
     .from(orders)
@@ -343,7 +363,7 @@ async function updateCustomerStats(customerId: string) {
     .where(eq(customers.id, customerId));
 }
 
-export const DELETE: APIRoute = async ({ params }) => {
+export const DELETE: APIRoute = async ({ params, locals }) => {
   try {
     const { id } = params;
     if (!id) {
@@ -371,36 +391,10 @@ export const DELETE: APIRoute = async ({ params }) => {
       );
     }
 
-    // Get order items to restore stock
-    const items = await db
-      .select({
-        variantId: orderItems.variantId,
-        quantity: orderItems.quantity,
-      })
-      .from(orderItems)
-      .where(eq(orderItems.orderId, id));
-
-    // Restore stock for all variants in the order
-    for (const item of items) {
-      if (item.variantId) {
-        // Update variant stock
-        await db
-          .update(productVariants)
-          .set({
-            stock: sql`${productVariants.stock} + ${item.quantity}`,
-            updatedAt: sql`unixepoch()`,
-          })
-          .where(eq(productVariants.id, item.variantId));
-      }
-    }
-
-    // Soft delete the order
-    await db
-      .update(orders)
-      .set({
-        deletedAt: sql`unixepoch()`,
-      })
-      .where(eq(orders.id, id));
+    // Soft delete the order, giving back its stock if it still holds any
+    await new OrderStatusService(db).softDelete([id], {
+      actorId: locals.user?.id,
+    });
 
     return new Response(null, { status: 204 });
   } catch (error) {
@@ -26,8 +26,7 @@ export const GET: APIRoute = async ({ params }) => {
         productName: products.name,
         productImage: productImages.url,
         variantId: orderItems.variantId,
-        variantSize: productVariants.size,
-        variantColor: productVariants.color,
+        variantOptions: productVariants.options,
         quantity: orderItems.quantity,
         price: orderItems.price,
       })
@@ -0,0 +1,34 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { PaymentService } from "@/lib/payments/service";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+export const DELETE: APIRoute = async ({ params }) => {
+  try {
+    const { id: orderId, entryId } = params;
+
+    if (!orderId || !entryId) {
+      return new Response(
+        JSON.stringify({ error: "Order ID and entry ID are required" }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const paymentService = new PaymentService(db);
+    const result = await paymentService.deleteEntry(orderId, entryId);
+
+    if (!result.success) {
+      return new Response(JSON.stringify({ error: result.message }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
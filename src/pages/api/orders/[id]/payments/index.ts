@@ -0,0 +1,83 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { db } from "@/db";
+import { PaymentService } from "@/lib/payments/service";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const recordPaymentSchema = z.object({
+  amount: z.number().positive("Amount must be greater than 0"),
+  method: z.string().min(1, "Payment method is required").max(50),
+  reference: z.string().max(100).nullable().optional(),
+  note: z.string().max(500).nullable().optional(),
+});
+
+export const GET: APIRoute = async ({ params }) => {
+  try {
+    const { id: orderId } = params;
+
+    if (!orderId) {
+      return new Response(JSON.stringify({ error: "Order ID is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const paymentService = new PaymentService(db);
+    const [entries, payments] = await Promise.all([
+      paymentService.getEntries(orderId),
+      paymentService.getPayments(orderId),
+    ]);
+
+    return new Response(JSON.stringify({ entries, payments }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
+
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const { id: orderId } = params;
+
+    if (!orderId) {
+      return new Response(JSON.stringify({ error: "Order ID is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const parsed = recordPaymentSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid payment data",
+          details: parsed.error.errors,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const paymentService = new PaymentService(db);
+    // Refunds go through /refunds so returns and customer stats stay in sync
+    const result = await paymentService.recordPayment(orderId, {
+      ...parsed.data,
+      recordedBy: locals.user?.id,
+    });
+
+    if (!result.success) {
+      return new Response(JSON.stringify({ error: result.message }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(result), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -1,9 +1,8 @@
 import type { APIRoute } from "astro";
 import { db } from "../../../../db";
-import { orders, orderItems } from "../../../../db/schema";
-import { eq } from "drizzle-orm";
+import { OrderStatusService } from "../../../../lib/orders/status";
 
-export const DELETE: APIRoute = async ({ params }) => {
+export const DELETE: APIRoute = async ({ params, locals }) => {
   try {
     const { id } = params;
     if (!id) {
@@ -15,11 +14,10 @@ export const DELETE: APIRoute = async ({ params }) => {
       );
     }
 
-    // Delete order items first (foreign key constraint)
-    await db.delete(orderItems).where(eq(orderItems.orderId, id));
-
-    // Delete order
-    await db.delete(orders).where(eq(orders.id, id));
+    // Stock is given back first if the order was not in the trash yet
+    await new OrderStatusService(db).permanentlyDelete([id], {
+      actorId: locals.user?.id,
+    });
 
     return new Response(null, { status: 204 });
   } catch (error) {
@@ -0,0 +1,78 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { db } from "@/db";
+import { ReturnService } from "@/lib/returns/service";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const recordRefundSchema = z.object({
+  amount: z.number().positive("Amount must be greater than 0"),
+  method: z.string().min(1, "Refund method is required").max(50),
+  reference: z.string().max(100).nullable().optional(),
+  note: z.string().max(500).nullable().optional(),
+  returnId: z.string().nullable().optional(),
+});
+
+export const GET: APIRoute = async ({ params }) => {
+  try {
+    const { id: orderId } = params;
+
+    if (!orderId) {
+      return new Response(JSON.stringify({ error: "Order ID is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const refunds = await new ReturnService(db).getRefunds(orderId);
+
+    return new Response(JSON.stringify({ refunds }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
+
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const { id: orderId } = params;
+
+    if (!orderId) {
+      return new Response(JSON.stringify({ error: "Order ID is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const parsed = recordRefundSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid refund data",
+          details: parsed.error.errors,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const result = await new ReturnService(db).recordRefund(orderId, {
+      ...parsed.data,
+      createdBy: locals.user?.id,
+    });
+
+    if (!result.success) {
+      return new Response(JSON.stringify({ error: result.message }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(result), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
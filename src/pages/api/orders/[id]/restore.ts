@@ -1,9 +1,10 @@
 import type { APIRoute } from "astro";
 import { db } from "../../../../db";
-import { orders } from "../../../../db/schema";
-import { eq } from "drizzle-orm";
+import { OrderStatusService } from "../../../../lib/orders/status";
+import { OrderStatusErrorCode } from "../../../../lib/orders/transitions";
+import { getRuntimeWaitUntil } from "../../../../lib/webhooks/service";
 
-export const POST: APIRoute = async ({ params }) => {
+export const POST: APIRoute = async ({ params, locals }) => {
   try {
     const { id } = params;
     if (!id) {
@@ -15,13 +16,28 @@ export const POST: APIRoute = async ({ params }) => {
       );
     }
 
-    // Restore order
-    await db
-      .update(orders)
-      .set({
-        deletedAt: null,
-      })
-      .where(eq(orders.id, id));
+    // Restore order, taking its stock again; refused when the stock is gone
+    const result = await new OrderStatusService(db).restore(id, {
+      actorId: locals.user?.id,
+      waitUntil: getRuntimeWaitUntil(locals),
+    });
+
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({
+          error: result.message,
+          code: result.code,
+        }),
+        {
+          status:
+            result.code === OrderStatusErrorCode.NOT_FOUND
+              ? 404
+              : result.code
+                ? 409
+                : 400,
+        }
+      );
+    }
 
     return new Response(null, { status: 204 });
   } catch (error) {
@@ -33,4 +49,4 @@ export const POST: APIRoute = async ({ params }) => {
       { status: 500 }
     );
   }
-}; 
\ No newline at end of file
+};
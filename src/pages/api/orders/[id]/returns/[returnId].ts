@@ -0,0 +1,63 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { db } from "@/db";
+import { ReturnService } from "@/lib/returns/service";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const resolveReturnSchema = z.object({
+  action: z.enum(["approve", "reject"]),
+  // Put the returned quantity back into the variant's stock (approve only)
+  restock: z.boolean().default(true),
+  note: z.string().max(500).nullable().optional(),
+});
+
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const { id: orderId, returnId } = params;
+
+    if (!orderId || !returnId) {
+      return new Response(
+        JSON.stringify({ error: "Order ID and return ID are required" }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const parsed = resolveReturnSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid request",
+          details: parsed.error.errors,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const { action, restock, note } = parsed.data;
+    const returnService = new ReturnService(db);
+    const result =
+      action === "approve"
+        ? await returnService.approveReturn(orderId, returnId, {
+            restock,
+            resolvedBy: locals.user?.id,
+          })
+        : await returnService.rejectReturn(orderId, returnId, {
+            resolvedBy: locals.user?.id,
+            note,
+          });
+
+    if (!result.success) {
+      return new Response(JSON.stringify({ error: result.message }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -0,0 +1,94 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { db } from "@/db";
+import { ReturnReason } from "@/db/schema";
+import { ReturnService } from "@/lib/returns/service";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const createReturnSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().min(1, "Order item is required"),
+        quantity: z.number().int().positive("Quantity must be at least 1"),
+      }),
+    )
+    .min(1, "Select at least one item to return"),
+  reason: z.nativeEnum(ReturnReason),
+  note: z.string().max(500).nullable().optional(),
+});
+
+export const GET: APIRoute = async ({ params }) => {
+  try {
+    const { id: orderId } = params;
+
+    if (!orderId) {
+      return new Response(JSON.stringify({ error: "Order ID is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const returnService = new ReturnService(db);
+    const [returns, refunds, returnable] = await Promise.all([
+      returnService.getReturns(orderId),
+      returnService.getRefunds(orderId),
+      returnService.getReturnableQuantities(orderId),
+    ]);
+
+    return new Response(
+      JSON.stringify({
+        returns,
+        refunds,
+        returnable: Object.fromEntries(returnable),
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
+
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const { id: orderId } = params;
+
+    if (!orderId) {
+      return new Response(JSON.stringify({ error: "Order ID is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const parsed = createReturnSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid return data",
+          details: parsed.error.errors,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const returnService = new ReturnService(db);
+    const result = await returnService.createReturns(orderId, {
+      ...parsed.data,
+      requestedBy: locals.user?.id,
+    });
+
+    if (!result.success) {
+      return new Response(JSON.stringify({ error: result.message }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(result), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
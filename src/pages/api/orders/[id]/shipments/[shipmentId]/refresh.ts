@@ -5,11 +5,12 @@ import { db } from "@/db";
 import { deliveryShipments } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { safeErrorResponse } from "@/lib/error-utils";
+import { getRuntimeWaitUntil } from "@/lib/webhooks/service";
 
 // Initialize the service
 const deliveryService = new DeliveryService();
 
-export const POST: APIRoute = async ({ params }) => {
+export const POST: APIRoute = async ({ params, locals }) => {
   try {
     // Authentication is handled by middleware
     const { id: orderId, shipmentId } = params;
@@ -117,6 +118,8 @@ export const POST: APIRoute = async ({ params }) => {
         const orderUpdate = await ShipmentTracker.updateOrderStatusFromShipment(
           shipmentId,
           updatedShipment.status,
+          previousStatus,
+          getRuntimeWaitUntil(locals),
         );
         orderStatusUpdate = !!orderUpdate && !!orderUpdate.orderId;
         console.log(
@@ -1,9 +1,10 @@
 import type { APIRoute } from "astro";
 import { db } from "../../../../db";
-import { orders } from "../../../../db/schema";
-import { eq, sql } from "drizzle-orm";
+import { OrderStatusService } from "../../../../lib/orders/status";
+import { OrderStatusErrorCode } from "../../../../lib/orders/transitions";
+import { getRuntimeWaitUntil } from "../../../../lib/webhooks/service";
 
-export const PUT: APIRoute = async ({ params, request }) => {
+export const PUT: APIRoute = async ({ params, request, locals }) => {
   try {
     const { id } = params;
     if (!id) {
@@ -27,14 +28,25 @@ export const PUT: APIRoute = async ({ params, request }) => {
       );
     }
 
-    // Update order status
-    await db
-      .update(orders)
-      .set({
-        status,
-        updatedAt: sql`unixepoch()`,
-      })
-      .where(eq(orders.id, id));
+    // Checks the transition and gives back or takes stock as needed
+    const result = await new OrderStatusService(db).changeStatus(id, status, {
+      actorId: locals.user?.id,
+      waitUntil: getRuntimeWaitUntil(locals),
+    });
+
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({
+          error: result.message,
+          code: result.code,
+          allowedStatuses: result.allowedStatuses,
+        }),
+        {
+          status: result.code === OrderStatusErrorCode.NOT_FOUND ? 404 : 409,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
 
     return new Response(
       JSON.stringify({
@@ -1,7 +1,6 @@
 import type { APIRoute } from "astro";
 import { db } from "../../../db";
-import { orders, orderItems, productVariants } from "../../../db/schema";
-import { sql, eq } from "drizzle-orm";
+import { OrderStatusService } from "../../../lib/orders/status";
 import { z } from "zod";
 
 const bulkDeleteSchema = z.object({
@@ -9,7 +8,7 @@ const bulkDeleteSchema = z.object({
   permanent: z.boolean().default(false),
 });
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, locals }) => {
   try {
     const json = await request.json();
     const data = bulkDeleteSchema.parse(json);
@@ -23,44 +22,17 @@ export const POST: APIRoute = async ({ request }) => {
       );
     }
 
-    // Get all order items for the orders being deleted
-    const items = await db
-      .select({
-        variantId: orderItems.variantId,
-        quantity: orderItems.quantity,
-      })
-      .from(orderItems)
-      .where(sql`${orderItems.orderId} IN ${data.orderIds}`);
-
-    // Restore stock for all variants in the orders
-    for (const item of items) {
-      if (item.variantId) {
-        // Update variant stock
-        await db
-          .update(productVariants)
-          .set({
-            stock: sql`${productVariants.stock} + ${item.quantity}`,
-            updatedAt: sql`unixepoch()`,
-          })
-          .where(eq(productVariants.id, item.variantId));
-      }
-    }
-
+    // Stock is given back only for orders that still hold it, so orders
+    // already cancelled or in the trash are not restocked twice
+    const orderStatusService = new OrderStatusService(db);
     if (data.permanent) {
-      // Permanently delete orders
-      await db.delete(orders).where(sql`${orders.id} IN ${data.orderIds}`);
-      // Also delete order items
-      await db
-        .delete(orderItems)
-        .where(sql`${orderItems.orderId} IN ${data.orderIds}`);
+      await orderStatusService.permanentlyDelete(data.orderIds, {
+        actorId: locals.user?.id,
+      });
     } else {
-      // Soft delete orders
-      await db
-        .update(orders)
-        .set({
-          deletedAt: sql`unixepoch()`,
-        })
-        .where(sql`${orders.id} IN ${data.orderIds}`);
+      await orderStatusService.softDelete(data.orderIds, {
+        actorId: locals.user?.id,
+      });
     }
 
     return new Response(null, { status: 204 });
@@ -7,6 +7,7 @@ import {
   customerHistory,
   productVariants,
   deliveryLocations,
+  StockMovementReason,
 } from "../../../db/schema";
 import { sql, eq, and, isNull } from "drizzle-orm";
 import { z } from "zod";
@@ -17,6 +18,20 @@ import {
 } from "../../../lib/customer-utils";
 import { nanoid } from "nanoid";
 import { getOrders } from "../../../lib/admin";
+import { getRuntimeWaitUntil } from "../../../lib/webhooks/service";
+import {
+  recordStockMovements,
+  toOrderItemMovements,
+} from "../../../lib/inventory/ledger";
+import { alertLowStock } from "../../../lib/inventory/low-stock-alerts";
+import {
+  emitCustomerCreated,
+  emitOrderCreated,
+} from "../../../lib/webhooks/events";
+import {
+  toStockItems,
+  withBundleComponents,
+} from "../../../lib/catalog/bundles";
 
 const createOrderSchema = z.object({
   customerName: z
@@ -183,7 +198,7 @@ export const GET: APIRoute = async ({ url }) => {
   }
 };
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, locals }) => {
   try {
     const json = await request.json();
 
@@ -204,39 +219,41 @@ export const POST: APIRoute = async ({ request }) => {
       data.shippingCharge -
       (data.discountAmount || 0);
 
+    // Bundles take their stock from their components
+    const items = await withBundleComponents(db, data.items);
+    const stockItems = toStockItems(items);
+
     // First, check and update stock for all variants
-    for (const item of data.items) {
-      if (item.variantId) {
-        const variant = await db
-          .select()
-          .from(productVariants)
-          .where(
-            and(
-              eq(productVariants.id, item.variantId),
-              isNull(productVariants.deletedAt),
-            ),
-          )
-          .get();
-
-        if (!variant) {
-          throw new Error(`Variant ${item.variantId} not found`);
-        }
-
-        if (variant.stock < item.quantity) {
-          throw new Error(
-            `Insufficient stock for variant ${item.variantId}. Available: ${variant.stock}, Requested: ${item.quantity}`,
-          );
-        }
-
-        // Update variant stock
-        await db
-          .update(productVariants)
-          .set({
-            stock: sql`${productVariants.stock} - ${item.quantity}`,
-            updatedAt: sql`unixepoch()`,
-          })
-          .where(eq(productVariants.id, item.variantId));
+    for (const item of stockItems) {
+      const variant = await db
+        .select()
+        .from(productVariants)
+        .where(
+          and(
+            eq(productVariants.id, item.variantId),
+            isNull(productVariants.deletedAt),
+          ),
+        )
+        .get();
+
+      if (!variant) {
+        throw new Error(`Variant ${item.variantId} not found`);
+      }
+
+      if (variant.stock < item.quantity) {
+        throw new Error(
+          `Insufficient stock for variant ${item.variantId}. Available: ${variant.stock}, Requested: ${item.quantity}`,
+        );
       }
+
+      // Update variant stock
+      await db
+        .update(productVariants)
+        .set({
+          stock: sql`${productVariants.stock} - ${item.quantity}`,
+          updatedAt: sql`unixepoch()`,
+        })
+        .where(eq(productVariants.id, item.variantId));
     }
 
     // Get or create customer
@@ -320,6 +337,7 @@ export const POST: APIRoute = async ({ request }) => {
       const customerOrders = await db
         .select({
           totalAmount: orders.totalAmount,
+          refundedAmount: orders.refundedAmount,
           createdAt: orders.createdAt,
         })
         .from(orders)
@@ -389,20 +407,40 @@ export const POST: APIRoute = async ({ request }) => {
       .returning();
 
     // Create order items with readable IDs
-    if (data.items.length > 0) {
+    if (items.length > 0) {
       await db.insert(orderItems).values(
-        data.items.map((item) => ({
+        items.map((item) => ({
           id: generateOrderId(),
           orderId: order.id,
           productId: item.productId,
           variantId: item.variantId,
           quantity: item.quantity,
           price: item.price,
+          bundleComponents: item.bundleComponents,
           createdAt: sql`unixepoch()`,
         })),
       );
     }
 
+    await recordStockMovements(
+      db,
+      toOrderItemMovements(stockItems, {
+        direction: "out",
+        reason: StockMovementReason.SALE,
+        orderId: order.id,
+        actorId: locals.user?.id,
+      }),
+    );
+
+    const waitUntil = getRuntimeWaitUntil(locals);
+    await Promise.all([
+      emitOrderCreated(db, order.id, waitUntil),
+      existingCustomer
+        ? null
+        : emitCustomerCreated(db, customerId!, waitUntil),
+      alertLowStock(db, stockItems, { waitUntil }),
+    ]);
+
     return new Response(JSON.stringify({ id: order.id }), {
       status: 201,
       headers: {
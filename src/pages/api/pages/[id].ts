@@ -149,9 +149,8 @@ export const PUT: APIRoute = async ({ request, params }) => {
       })
       .where(eq(pages.id, id));
 
-    // Trigger reindexing in the background
-    // We don't await this to avoid delaying the response
-    triggerReindex().catch((error) => {
+    // Refresh the page in the search index
+    await triggerReindex({ pageIds: [id] }).catch((error) => {
       console.error("Background reindexing failed after page update:", error);
     });
 
@@ -205,10 +204,10 @@ export const DELETE: APIRoute = async ({ params }) => {
 
     // Delete from search index directly instead of full reindexing
     // This is more efficient for single item deletions
-    deleteFromIndex({ pageIds: [id] }).catch((error) => {
+    await deleteFromIndex({ pageIds: [id] }).catch((error) => {
       console.error("Error deleting page from search index:", error);
       // Fall back to full reindexing if direct deletion fails
-      triggerReindex().catch((reindexError) => {
+      return triggerReindex().catch((reindexError) => {
         console.error(
           "Background reindexing failed after page deletion:",
           reindexError,
@@ -1,7 +1,8 @@
 import type { APIRoute } from "astro";
 import { db } from "../../../../db";
-import { pages } from "../../../../db/schema";
+import { pages, TranslatableEntity } from "../../../../db/schema";
 import { eq } from "drizzle-orm";
+import { deleteTranslations } from "@/lib/i18n/translations";
 
 export const DELETE: APIRoute = async ({ params }) => {
   try {
@@ -44,6 +45,7 @@ export const DELETE: APIRoute = async ({ params }) => {
 
     // Permanently delete page
     await db.delete(pages).where(eq(pages.id, id));
+    await deleteTranslations(db, TranslatableEntity.PAGE, [id]);
 
     return new Response(
       JSON.stringify({
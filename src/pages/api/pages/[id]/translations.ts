@@ -0,0 +1,95 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { TranslatableEntity } from "@/db/schema";
+import { getStoreLocales } from "@/lib/i18n/locale";
+import {
+  getEntityTranslations,
+  saveTranslations,
+  translationsUpdateSchema,
+} from "@/lib/i18n/translations";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+/**
+ * The store's languages and every translation of the page
+ */
+async function translationsResponse(pageId: string) {
+  const [store, translations] = await Promise.all([
+    getStoreLocales(db),
+    getEntityTranslations(db, TranslatableEntity.PAGE, [pageId]),
+  ]);
+
+  return new Response(JSON.stringify({ ...store, translations }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+export const GET: APIRoute = async ({ params }) => {
+  try {
+    if (!params.id) {
+      return new Response(JSON.stringify({ error: "Page ID is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return translationsResponse(params.id);
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
+
+/**
+ * Save the page's translations in one language
+ */
+export const PUT: APIRoute = async ({ params, request }) => {
+  try {
+    if (!params.id) {
+      return new Response(JSON.stringify({ error: "Page ID is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const parsed = translationsUpdateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid request data",
+          details: parsed.error.errors,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const foreign = parsed.data.entries.find(
+      (entry) =>
+        entry.entityType !== TranslatableEntity.PAGE ||
+        entry.entityId !== params.id,
+    );
+    if (foreign) {
+      return new Response(
+        JSON.stringify({
+          error: "Translations can only be saved for this page",
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const error = await saveTranslations(
+      db,
+      parsed.data.locale,
+      parsed.data.entries,
+    );
+    if (error) {
+      return new Response(JSON.stringify({ error }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return translationsResponse(params.id);
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
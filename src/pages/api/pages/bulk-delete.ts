@@ -1,9 +1,10 @@
 import type { APIRoute } from "astro";
 import { db } from "../../../db";
-import { pages } from "../../../db/schema";
+import { pages, TranslatableEntity } from "../../../db/schema";
 import { sql } from "drizzle-orm";
 import { z } from "zod";
 import { triggerReindex, deleteFromIndex } from "@/lib/search/index";
+import { deleteTranslations } from "@/lib/i18n/translations";
 
 const bulkDeleteSchema = z.object({
   pageIds: z.array(z.string()),
@@ -27,6 +28,7 @@ export const POST: APIRoute = async ({ request }) => {
     if (data.permanent) {
       // Permanently delete pages
       await db.delete(pages).where(sql`${pages.id} IN ${data.pageIds}`);
+      await deleteTranslations(db, TranslatableEntity.PAGE, data.pageIds);
     } else {
       // Soft delete pages
       await db
@@ -39,10 +41,10 @@ export const POST: APIRoute = async ({ request }) => {
 
     // Delete from search index directly instead of full reindexing
     // This is more efficient for bulk deletions
-    deleteFromIndex({ pageIds: data.pageIds }).catch((error) => {
+    await deleteFromIndex({ pageIds: data.pageIds }).catch((error) => {
       console.error("Error deleting pages from search index:", error);
       // Fall back to full reindexing if direct deletion fails
-      triggerReindex().catch((reindexError) => {
+      return triggerReindex().catch((reindexError) => {
         console.error(
           "Background reindexing failed after bulk page deletion:",
           reindexError,
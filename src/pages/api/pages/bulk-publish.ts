@@ -24,8 +24,8 @@ export const POST: APIRoute = async ({ request }) => {
       .where(inArray(pages.id, pageIds))
       .returning();
 
-    // Trigger reindexing in the background
-    triggerReindex().catch((error) => {
+    // Add the published pages to the search index
+    await triggerReindex({ pageIds }).catch((error) => {
       console.error("Background reindexing failed after bulk publish:", error);
     });
 
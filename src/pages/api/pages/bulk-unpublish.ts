@@ -23,8 +23,8 @@ export const POST: APIRoute = async ({ request }) => {
       .where(inArray(pages.id, pageIds))
       .returning();
 
-    // Trigger reindexing in the background
-    triggerReindex().catch((error) => {
+    // Drop the unpublished pages from the search index
+    await triggerReindex({ pageIds }).catch((error) => {
       console.error(
         "Background reindexing failed after bulk unpublish:",
         error,
@@ -171,9 +171,8 @@ export const POST: APIRoute = async ({ request }) => {
       })
       .returning();
 
-    // Trigger reindexing in the background
-    // We don't await this to avoid delaying the response
-    triggerReindex().catch((error) => {
+    // Add the page to the search index once published
+    await triggerReindex({ pageIds: [pageId] }).catch((error) => {
       console.error("Background reindexing failed after page creation:", error);
     });
 
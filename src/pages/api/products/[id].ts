@@ -6,11 +6,25 @@ import {
   productImages,
   productAttributeValues,
   productRichContent,
+  productCategories,
+  productRecommendations,
+  variantImages,
+  bundleItems,
+  productVariants,
+  TranslatableEntity,
+  ProductType,
 } from "../../../db/schema";
-import { eq, sql, and } from "drizzle-orm";
+import { eq, sql, and, inArray, isNull } from "drizzle-orm";
 import { z } from "zod";
 import { nanoid } from "nanoid";
 import { triggerReindex, deleteFromIndex } from "@/lib/search/index";
+import { productCategoryValues } from "@/lib/catalog/product-categories";
+import { recommendationValues } from "@/lib/catalog/recommendations";
+import {
+  bundleItemValues,
+  checkBundleComponents,
+} from "@/lib/catalog/bundles";
+import { deleteTranslations } from "@/lib/i18n/translations";
 
 const updateProductSchema = z.object({
   id: z.string(),
@@ -18,6 +32,21 @@ const updateProductSchema = z.object({
   description: z.string().min(10).nullable(),
   price: z.number().min(0).max(1000000000000),
   categoryId: z.string().min(1),
+  // Categories the product is also listed in, besides its primary one
+  additionalCategoryIds: z.array(z.string()).optional(),
+  // Products picked to recommend with this one, in display order
+  relatedProductIds: z.array(z.string()).optional(),
+  frequentlyBoughtTogetherIds: z.array(z.string()).optional(),
+  type: z.nativeEnum(ProductType).optional(),
+  // Variants a bundle is made of, in display order
+  bundleItems: z
+    .array(
+      z.object({
+        variantId: z.string(),
+        quantity: z.number().int().min(1),
+      }),
+    )
+    .optional(),
   isActive: z.boolean(),
   discountType: z.enum(["percentage", "flat"]).optional(),
   discountPercentage: z.number().min(0).max(100).nullish(),
@@ -98,6 +127,44 @@ export const PUT: APIRoute = async ({ request, params }) => {
       );
     }
 
+    // A bundle has no variants of its own and needs its components
+    if (data.type === ProductType.BUNDLE) {
+      const variant = await db
+        .select({ id: productVariants.id })
+        .from(productVariants)
+        .where(
+          and(
+            eq(productVariants.productId, id),
+            isNull(productVariants.deletedAt),
+          ),
+        )
+        .get();
+      if (variant) {
+        return new Response(
+          JSON.stringify({
+            error: "Remove the product's variants before making it a bundle",
+          }),
+          { status: 400 },
+        );
+      }
+
+      const bundleError = await checkBundleComponents(
+        db,
+        id,
+        data.bundleItems ?? [],
+      );
+      if (bundleError) {
+        return new Response(JSON.stringify({ error: bundleError }), {
+          status: 400,
+        });
+      }
+    }
+
+    // Ids of the saved images in order, so the form can replace the
+    // temporary ids of newly added ones
+    const savedImageIds: string[] = [];
+    let removedRichContentIds: string[] = [];
+
     await db.transaction(async (tx) => {
       await tx
         .update(products)
@@ -114,22 +181,89 @@ export const PUT: APIRoute = async ({ request, params }) => {
           discountPercentage: data.discountPercentage,
           discountAmount: data.discountAmount,
           freeDelivery: data.freeDelivery,
+          type: data.type,
           updatedAt: sql`unixepoch()`,
         })
         .where(eq(products.id, id));
 
-      await tx.delete(productImages).where(eq(productImages.productId, id));
-      if (data.images.length > 0) {
-        await tx.insert(productImages).values(
-          data.images.map((image, index) => ({
-            id: image.id.startsWith("temp_") ? `img_${nanoid()}` : image.id,
-            productId: id,
-            url: image.url,
-            alt: image.filename,
-            isPrimary: index === 0,
-            sortOrder: index,
-          })),
+      // Components are replaced whenever the type is sent
+      if (data.type) {
+        await tx.delete(bundleItems).where(eq(bundleItems.bundleId, id));
+        if (data.type === ProductType.BUNDLE) {
+          await tx
+            .insert(bundleItems)
+            .values(bundleItemValues(id, data.bundleItems ?? []));
+        }
+      }
+
+      await tx
+        .delete(productCategories)
+        .where(eq(productCategories.productId, id));
+      await tx
+        .insert(productCategories)
+        .values(
+          productCategoryValues(
+            id,
+            data.categoryId,
+            data.additionalCategoryIds,
+          ),
+        );
+
+      if (data.relatedProductIds || data.frequentlyBoughtTogetherIds) {
+        await tx
+          .delete(productRecommendations)
+          .where(eq(productRecommendations.productId, id));
+        const recommendations = recommendationValues(
+          id,
+          data.relatedProductIds,
+          data.frequentlyBoughtTogetherIds,
         );
+        if (recommendations.length > 0) {
+          await tx.insert(productRecommendations).values(recommendations);
+        }
+      }
+
+      // Existing images are updated in place so their variant links survive
+      const currentImageIds = (
+        await tx
+          .select({ id: productImages.id })
+          .from(productImages)
+          .where(eq(productImages.productId, id))
+      ).map((image) => image.id);
+      const removedImageIds = currentImageIds.filter(
+        (imageId) => !data.images.some((image) => image.id === imageId),
+      );
+      if (removedImageIds.length > 0) {
+        await tx
+          .delete(variantImages)
+          .where(inArray(variantImages.imageId, removedImageIds));
+        await tx
+          .delete(productImages)
+          .where(inArray(productImages.id, removedImageIds));
+      }
+      for (const [index, image] of data.images.entries()) {
+        const imageId = currentImageIds.includes(image.id)
+          ? image.id
+          : image.id.startsWith("temp_")
+            ? `img_${nanoid()}`
+            : image.id;
+        savedImageIds.push(imageId);
+        const values = {
+          url: image.url,
+          alt: image.filename,
+          isPrimary: index === 0,
+          sortOrder: index,
+        };
+        if (currentImageIds.includes(image.id)) {
+          await tx
+            .update(productImages)
+            .set(values)
+            .where(eq(productImages.id, image.id));
+        } else {
+          await tx
+            .insert(productImages)
+            .values({ ...values, id: imageId, productId: id });
+        }
       }
 
       await tx
@@ -152,6 +286,21 @@ export const PUT: APIRoute = async ({ request, params }) => {
         }
       }
       
+      // Sections that are not saved again lose their translations below
+      removedRichContentIds = (
+        await tx
+          .select({ id: productRichContent.id })
+          .from(productRichContent)
+          .where(eq(productRichContent.productId, id))
+      )
+        .map((item) => item.id)
+        .filter(
+          (itemId) =>
+            !data.additionalInfo?.some(
+              (item) =>
+                item.id === itemId && item.title.trim() && item.content.trim(),
+            ),
+        );
       await tx.delete(productRichContent).where(eq(productRichContent.productId, id));
       if (data.additionalInfo && data.additionalInfo.length > 0) {
           const contentToInsert = data.additionalInfo.filter(item => item.title.trim() && item.content.trim())
@@ -169,9 +318,17 @@ export const PUT: APIRoute = async ({ request, params }) => {
       }
     });
 
-    triggerReindex().catch(console.error);
+    await deleteTranslations(
+      db,
+      TranslatableEntity.PRODUCT_RICH_CONTENT,
+      removedRichContentIds,
+    );
+    await triggerReindex({ productIds: [id] }).catch(console.error);
 
-    return new Response(JSON.stringify({ success: true }), { status: 200 });
+    return new Response(
+      JSON.stringify({ success: true, imageIds: savedImageIds }),
+      { status: 200 },
+    );
   } catch (error) {
     console.error("Error updating product:", error);
     if (error instanceof z.ZodError) {
@@ -208,9 +365,9 @@ export const DELETE: APIRoute = async ({ params }) => {
       })
       .where(eq(products.id, id));
 
-    deleteFromIndex({ productIds: [id] }).catch((error) => {
+    await deleteFromIndex({ productIds: [id] }).catch((error) => {
       console.error("Error deleting product from search index:", error);
-      triggerReindex().catch((reindexError) => {
+      return triggerReindex().catch((reindexError) => {
         console.error(
           "Background reindexing failed after product deletion:",
           reindexError,
@@ -0,0 +1,103 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { products } from "@/db/schema";
+import {
+  getProductOptions,
+  saveProductOptions,
+} from "@/lib/catalog/product-options";
+import { safeErrorResponse } from "@/lib/error-utils";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+
+const optionsSchema = z.object({
+  options: z.array(
+    z.object({
+      id: z.string().optional(),
+      name: z.string().trim().min(1, "Option name is required").max(50),
+      values: z.array(
+        z.object({
+          id: z.string().optional(),
+          value: z.string().trim().min(1, "Option value is required").max(50),
+        }),
+      ),
+    }),
+  ),
+});
+
+/**
+ * The product's variant options with their values, in display order
+ */
+export const GET: APIRoute = async ({ params }) => {
+  try {
+    if (!params.id) {
+      return new Response(JSON.stringify({ error: "Product ID is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const options = (await getProductOptions(db, [params.id])).get(params.id);
+
+    return new Response(JSON.stringify({ options: options || [] }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
+
+/**
+ * Replace the product's options. Renamed options and values are renamed on
+ * the variants too.
+ */
+export const PUT: APIRoute = async ({ params, request }) => {
+  try {
+    if (!params.id) {
+      return new Response(JSON.stringify({ error: "Product ID is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const parsed = optionsSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid request data",
+          details: parsed.error.errors,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const product = await db
+      .select({ id: products.id })
+      .from(products)
+      .where(eq(products.id, params.id))
+      .get();
+    if (!product) {
+      return new Response(JSON.stringify({ error: "Product not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const error = await saveProductOptions(db, params.id, parsed.data.options);
+    if (error) {
+      return new Response(JSON.stringify({ error }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const options = (await getProductOptions(db, [params.id])).get(params.id);
+
+    return new Response(JSON.stringify({ options: options || [] }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -10,6 +10,7 @@ import {
 } from "../../../../db/schema";
 import { eq, sql } from "drizzle-orm";
 import { deleteFromIndex, triggerReindex } from "@/lib/search/index";
+import { deleteProductTranslations } from "@/lib/i18n/translations";
 
 export const DELETE: APIRoute = async ({ params }) => {
   const { id } = params;
@@ -51,18 +52,19 @@ export const DELETE: APIRoute = async ({ params }) => {
     }
 
     // If checks pass, proceed with deletion
+    await deleteProductTranslations(db, [id]);
     await db.transaction(async (tx) => {
       await tx.delete(productVariants).where(eq(productVariants.productId, id));
       await tx.delete(productImages).where(eq(productImages.productId, id));
       await tx.delete(products).where(eq(products.id, id));
     });
 
-    deleteFromIndex({ productIds: [id] }).catch((error) => {
+    await deleteFromIndex({ productIds: [id] }).catch((error) => {
       console.error(
         "Error deleting product from search index during permanent delete:",
         error,
       );
-      triggerReindex().catch((reindexError) => {
+      return triggerReindex().catch((reindexError) => {
         console.error(
           "Background reindexing failed after permanent product deletion:",
           reindexError,
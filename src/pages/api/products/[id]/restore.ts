@@ -25,8 +25,8 @@ export const POST: APIRoute = async ({ params }) => {
       })
       .where(eq(products.id, id));
 
-    // Trigger reindexing in the background
-    triggerReindex().catch((error) => {
+    // Add the restored product back to the search index
+    await triggerReindex({ productIds: [id] }).catch((error) => {
       console.error(
         "Background reindexing failed after product restoration:",
         error,
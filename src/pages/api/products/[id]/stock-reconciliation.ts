@@ -0,0 +1,29 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { reconcileStock } from "@/lib/inventory/ledger";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+/**
+ * Recompute the product's variant stock from the ledger and list the
+ * variants whose stored stock differs
+ */
+export const GET: APIRoute = async ({ params }) => {
+  try {
+    // Authentication is handled by middleware
+    if (!params.id) {
+      return new Response(JSON.stringify({ error: "Product ID is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const mismatches = await reconcileStock(db, { productId: params.id });
+
+    return new Response(
+      JSON.stringify({ consistent: mismatches.length === 0, mismatches }),
+      { status: 200, headers: { "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
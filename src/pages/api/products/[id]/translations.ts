@@ -0,0 +1,121 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { productRichContent, TranslatableEntity } from "@/db/schema";
+import { getStoreLocales } from "@/lib/i18n/locale";
+import {
+  getEntityTranslations,
+  saveTranslations,
+  translationsUpdateSchema,
+} from "@/lib/i18n/translations";
+import { safeErrorResponse } from "@/lib/error-utils";
+import { eq } from "drizzle-orm";
+
+// Ids of the product's additional info sections
+async function getRichContentIds(productId: string) {
+  const items = await db
+    .select({ id: productRichContent.id })
+    .from(productRichContent)
+    .where(eq(productRichContent.productId, productId));
+  return items.map((item) => item.id);
+}
+
+/**
+ * The store's languages and every translation of the product and of its
+ * additional info sections
+ */
+async function translationsResponse(
+  productId: string,
+  richContentIds: string[],
+) {
+  const [store, productTranslations, richContentTranslations] =
+    await Promise.all([
+      getStoreLocales(db),
+      getEntityTranslations(db, TranslatableEntity.PRODUCT, [productId]),
+      getEntityTranslations(
+        db,
+        TranslatableEntity.PRODUCT_RICH_CONTENT,
+        richContentIds,
+      ),
+    ]);
+
+  return new Response(
+    JSON.stringify({
+      ...store,
+      translations: [...productTranslations, ...richContentTranslations],
+    }),
+    { status: 200, headers: { "Content-Type": "application/json" } },
+  );
+}
+
+export const GET: APIRoute = async ({ params }) => {
+  try {
+    if (!params.id) {
+      return new Response(JSON.stringify({ error: "Product ID is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return translationsResponse(params.id, await getRichContentIds(params.id));
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
+
+/**
+ * Save the product's translations in one language. Its saved additional
+ * info sections can be translated along with it.
+ */
+export const PUT: APIRoute = async ({ params, request }) => {
+  try {
+    if (!params.id) {
+      return new Response(JSON.stringify({ error: "Product ID is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const parsed = translationsUpdateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid request data",
+          details: parsed.error.errors,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const richContentIds = await getRichContentIds(params.id);
+    const foreign = parsed.data.entries.find((entry) =>
+      entry.entityType === TranslatableEntity.PRODUCT
+        ? entry.entityId !== params.id
+        : entry.entityType !== TranslatableEntity.PRODUCT_RICH_CONTENT ||
+          !richContentIds.includes(entry.entityId),
+    );
+    if (foreign) {
+      return new Response(
+        JSON.stringify({
+          error: "Translations can only be saved for this product",
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const error = await saveTranslations(
+      db,
+      parsed.data.locale,
+      parsed.data.entries,
+    );
+    if (error) {
+      return new Response(JSON.stringify({ error }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return translationsResponse(params.id, richContentIds);
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
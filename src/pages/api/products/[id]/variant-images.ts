@@ -0,0 +1,97 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { productImages } from "@/db/schema";
+import {
+  getVariantImageLinks,
+  setImageLinks,
+} from "@/lib/catalog/variant-images";
+import { safeErrorResponse } from "@/lib/error-utils";
+import { asc, eq } from "drizzle-orm";
+import { z } from "zod";
+
+const imageLinksSchema = z.object({
+  imageId: z.string().min(1, "Image ID is required"),
+  variantIds: z.array(z.string()).default([]),
+  optionValueIds: z.array(z.string()).default([]),
+});
+
+/**
+ * The product's saved images and which variants and option values each one
+ * is linked to
+ */
+export const GET: APIRoute = async ({ params }) => {
+  try {
+    if (!params.id) {
+      return new Response(JSON.stringify({ error: "Product ID is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const [images, links] = await Promise.all([
+      db
+        .select({
+          id: productImages.id,
+          url: productImages.url,
+          alt: productImages.alt,
+        })
+        .from(productImages)
+        .where(eq(productImages.productId, params.id))
+        .orderBy(asc(productImages.sortOrder)),
+      getVariantImageLinks(db, params.id),
+    ]);
+
+    return new Response(JSON.stringify({ images, links }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
+
+/**
+ * Replace the variants and option values one image is linked to
+ */
+export const PUT: APIRoute = async ({ params, request }) => {
+  try {
+    if (!params.id) {
+      return new Response(JSON.stringify({ error: "Product ID is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const parsed = imageLinksSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid request data",
+          details: parsed.error.errors,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const { imageId, variantIds, optionValueIds } = parsed.data;
+    const error = await setImageLinks(db, params.id, imageId, {
+      variantIds,
+      optionValueIds,
+    });
+    if (error) {
+      return new Response(JSON.stringify({ error }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const links = await getVariantImageLinks(db, params.id);
+
+    return new Response(JSON.stringify({ links }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -1,12 +1,22 @@
 import type { APIRoute } from "astro";
 import { db } from "../../../../../db";
-import { productVariants } from "../../../../../db/schema";
+import { productVariants, StockMovementReason } from "../../../../../db/schema";
+import { recordStockMovements } from "../../../../../lib/inventory/ledger";
+import {
+  findVariantWithOptions,
+  getProductOptions,
+  toOptionDefinitions,
+} from "../../../../../lib/catalog/product-options";
+import {
+  checkVariantOptions,
+  orderVariantOptions,
+} from "../../../../../lib/catalog/variant-options";
+import { triggerReindex } from "../../../../../lib/search/index";
 import { eq, sql } from "drizzle-orm";
 import { z } from "zod";
 
 const updateVariantSchema = z.object({
-  size: z.string().nullable(),
-  color: z.string().nullable(),
+  options: z.record(z.string().trim()).default({}),
   weight: z.number().min(0).nullable(),
   sku: z.string().min(3, "SKU must be at least 3 characters"),
   price: z.number().min(0, "Price must be greater than or equal to 0"),
@@ -16,7 +26,7 @@ const updateVariantSchema = z.object({
   discountAmount: z.number().min(0).nullable().optional(),
 });
 
-export const PUT: APIRoute = async ({ request, params }) => {
+export const PUT: APIRoute = async ({ request, params, locals }) => {
   try {
     const { id: productId, variantId } = params;
     if (!productId || !variantId) {
@@ -33,7 +43,7 @@ export const PUT: APIRoute = async ({ request, params }) => {
 
     // Check if variant exists
     const existingVariant = await db
-      .select({ id: productVariants.id })
+      .select({ id: productVariants.id, stock: productVariants.stock })
       .from(productVariants)
       .where(
         sql`${productVariants.id} = ${variantId} AND ${productVariants.productId} = ${productId} AND ${productVariants.deletedAt} IS NULL`,
@@ -67,12 +77,36 @@ export const PUT: APIRoute = async ({ request, params }) => {
       );
     }
 
+    const definitions = toOptionDefinitions(
+      (await getProductOptions(db, [productId])).get(productId) || [],
+    );
+    const optionsError = checkVariantOptions(definitions, data.options);
+    if (optionsError) {
+      return new Response(JSON.stringify({ error: optionsError }), {
+        status: 400,
+      });
+    }
+
+    const sameOptions = await findVariantWithOptions(
+      db,
+      productId,
+      data.options,
+      variantId,
+    );
+    if (sameOptions) {
+      return new Response(
+        JSON.stringify({
+          error: `Variant ${sameOptions.sku} already has these options`,
+        }),
+        { status: 400 },
+      );
+    }
+
     // Update variant
     const [variant] = await db
       .update(productVariants)
       .set({
-        size: data.size,
-        color: data.color,
+        options: orderVariantOptions(definitions, data.options),
         weight: data.weight,
         sku: data.sku,
         price: data.price,
@@ -85,6 +119,21 @@ export const PUT: APIRoute = async ({ request, params }) => {
       .where(eq(productVariants.id, variantId))
       .returning();
 
+    await recordStockMovements(db, [
+      {
+        variantId,
+        delta: data.stock - existingVariant.stock,
+        reason: StockMovementReason.MANUAL,
+        actorId: locals.user?.id,
+        note: "Stock edited",
+      },
+    ]);
+
+    // Keep the product's SKUs in the search index current
+    await triggerReindex({ productIds: [productId] }).catch((error) => {
+      console.error("Search reindex failed after variant update:", error);
+    });
+
     return new Response(JSON.stringify(variant), {
       status: 200,
       headers: {
@@ -146,6 +195,11 @@ export const DELETE: APIRoute = async ({ params }) => {
     // Permanently delete the variant
     await db.delete(productVariants).where(eq(productVariants.id, variantId));
 
+    // Keep the product's SKUs in the search index current
+    await triggerReindex({ productIds: [productId] }).catch((error) => {
+      console.error("Search reindex failed after variant deletion:", error);
+    });
+
     return new Response(null, { status: 204 });
   } catch (error) {
     console.error("Error deleting variant:", error);
@@ -0,0 +1,61 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import {
+  getVariantImageLinks,
+  setVariantImages,
+} from "@/lib/catalog/variant-images";
+import { safeErrorResponse } from "@/lib/error-utils";
+import { z } from "zod";
+
+const variantImagesSchema = z.object({
+  imageIds: z.array(z.string()),
+});
+
+/**
+ * Replace the images linked to one variant, in addition to those it gets
+ * through its option values
+ */
+export const PUT: APIRoute = async ({ params, request }) => {
+  try {
+    const { id: productId, variantId } = params;
+    if (!productId || !variantId) {
+      return new Response(
+        JSON.stringify({ error: "Product ID and Variant ID are required" }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const parsed = variantImagesSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid request data",
+          details: parsed.error.errors,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const error = await setVariantImages(
+      db,
+      productId,
+      variantId,
+      parsed.data.imageIds,
+    );
+    if (error) {
+      return new Response(JSON.stringify({ error }), {
+        status: error === "Variant not found" ? 404 : 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const links = await getVariantImageLinks(db, productId);
+
+    return new Response(JSON.stringify({ links }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
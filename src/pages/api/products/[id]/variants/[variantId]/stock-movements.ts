@@ -0,0 +1,53 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { productVariants } from "@/db/schema";
+import { getVariantStockHistory } from "@/lib/inventory/ledger";
+import { safeErrorResponse } from "@/lib/error-utils";
+import { and, eq } from "drizzle-orm";
+
+/**
+ * Inventory history of one variant: its ledger, newest first, with the
+ * balance after each movement
+ */
+export const GET: APIRoute = async ({ params, url }) => {
+  try {
+    // Authentication is handled by middleware
+    const { id: productId, variantId } = params;
+    if (!productId || !variantId) {
+      return new Response(
+        JSON.stringify({ error: "Product ID and Variant ID are required" }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const [variant] = await db
+      .select({ id: productVariants.id })
+      .from(productVariants)
+      .where(
+        and(
+          eq(productVariants.id, variantId),
+          eq(productVariants.productId, productId),
+        ),
+      );
+
+    if (!variant) {
+      return new Response(JSON.stringify({ error: "Variant not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const limit = Math.min(
+      Math.max(Number(url.searchParams.get("limit")) || 100, 1),
+      500,
+    );
+    const history = await getVariantStockHistory(db, variantId, limit);
+
+    return new Response(JSON.stringify(history), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -1,13 +1,25 @@
 import type { APIRoute } from "astro";
 import { db } from "../../../../../db";
-import { productVariants } from "../../../../../db/schema";
-import { sql } from "drizzle-orm";
+import { productVariants, StockMovementReason } from "../../../../../db/schema";
+import { recordStockMovements } from "../../../../../lib/inventory/ledger";
+import { isBundle } from "../../../../../lib/catalog/bundles";
+import {
+  getProductOptions,
+  saveProductOptions,
+  withMissingOptions,
+} from "../../../../../lib/catalog/product-options";
+import {
+  checkVariantOptions,
+  orderVariantOptions,
+  variantOptionsKey,
+} from "../../../../../lib/catalog/variant-options";
+import { triggerReindex } from "../../../../../lib/search/index";
+import { eq, sql } from "drizzle-orm";
 import { nanoid } from "nanoid";
 import { z } from "zod";
 
 const bulkVariantSchema = z.object({
-  size: z.string().nullable(),
-  color: z.string().nullable(),
+  options: z.record(z.string().trim()).default({}),
   weight: z.number().min(0).nullable(),
   sku: z.string().min(3, "SKU must be at least 3 characters"),
   price: z.number().min(0, "Price must be greater than or equal to 0"),
@@ -19,9 +31,11 @@ const bulkVariantSchema = z.object({
 
 const bulkCreateSchema = z.object({
   variants: z.array(bulkVariantSchema).min(1, "At least one variant is required"),
+  // Where the variants come from; recorded as the reason of their opening stock
+  source: z.enum(["generator", "import"]).default("generator"),
 });
 
-export const POST: APIRoute = async ({ request, params }) => {
+export const POST: APIRoute = async ({ request, params, locals }) => {
   try {
     const { id: productId } = params;
     if (!productId) {
@@ -33,6 +47,15 @@ export const POST: APIRoute = async ({ request, params }) => {
       );
     }
 
+    if (await isBundle(db, productId)) {
+      return new Response(
+        JSON.stringify({
+          error: "A bundle cannot have variants of its own",
+        }),
+        { status: 400 },
+      );
+    }
+
     const json = await request.json();
     const data = bulkCreateSchema.parse(json);
 
@@ -69,12 +92,60 @@ export const POST: APIRoute = async ({ request, params }) => {
       );
     }
 
+    // Options and values the product does not have yet are added to it;
+    // existing variants get the first value of a new option
+    const current =
+      (await getProductOptions(db, [productId])).get(productId) || [];
+    const merged = withMissingOptions(
+      current,
+      data.variants.map((variant) => variant.options),
+    );
+    const definitions = merged.map(({ name, values }) => ({
+      name,
+      values: values.map((v) => v.value),
+    }));
+
+    const existing = await db
+      .select({ sku: productVariants.sku, options: productVariants.options })
+      .from(productVariants)
+      .where(eq(productVariants.productId, productId));
+    const taken = new Map<string, string>();
+    for (const variant of existing) {
+      const options = { ...variant.options };
+      for (const definition of definitions.slice(current.length)) {
+        options[definition.name] = definition.values[0];
+      }
+      taken.set(variantOptionsKey(options), variant.sku);
+    }
+
+    for (const variant of data.variants) {
+      const optionsError = checkVariantOptions(definitions, variant.options);
+      const other = taken.get(variantOptionsKey(variant.options));
+      if (optionsError || other) {
+        return new Response(
+          JSON.stringify({
+            error: `${variant.sku}: ${optionsError || `variant ${other} already has these options`}`,
+          }),
+          { status: 400 },
+        );
+      }
+      taken.set(variantOptionsKey(variant.options), variant.sku);
+    }
+
+    if (merged.some((o) => !o.id || o.values.some((v) => !v.id))) {
+      const optionsError = await saveProductOptions(db, productId, merged);
+      if (optionsError) {
+        return new Response(JSON.stringify({ error: optionsError }), {
+          status: 400,
+        });
+      }
+    }
+
     // Create all variants
     const variantsToCreate = data.variants.map((variant) => ({
       id: "var_" + nanoid(),
       productId,
-      size: variant.size,
-      color: variant.color,
+      options: orderVariantOptions(definitions, variant.options),
       weight: variant.weight,
       sku: variant.sku,
       price: variant.price,
@@ -91,6 +162,28 @@ export const POST: APIRoute = async ({ request, params }) => {
       .values(variantsToCreate)
       .returning();
 
+    await recordStockMovements(
+      db,
+      createdVariants.map((variant) => ({
+        variantId: variant.id,
+        delta: variant.stock,
+        reason:
+          data.source === "import"
+            ? StockMovementReason.IMPORT
+            : StockMovementReason.MANUAL,
+        actorId: locals.user?.id,
+        note: data.source === "import" ? "Imported from CSV" : "Variant created",
+      })),
+    );
+
+    // Keep the product's SKUs in the search index current
+    await triggerReindex({ productIds: [productId] }).catch((error) => {
+      console.error(
+        "Search reindex failed after bulk variant creation:",
+        error,
+      );
+    });
+
     return new Response(
       JSON.stringify({
         success: true,
@@ -1,6 +1,7 @@
 import type { APIRoute } from "astro";
 import { db } from "../../../../../db";
 import { productVariants } from "../../../../../db/schema";
+import { triggerReindex } from "../../../../../lib/search/index";
 import { sql } from "drizzle-orm";
 import { z } from "zod";
 
@@ -39,6 +40,14 @@ export const POST: APIRoute = async ({ request, params }) => {
         sql`${productVariants.id} IN ${data.variantIds} AND ${productVariants.productId} = ${productId}`,
       );
 
+    // Keep the product's SKUs in the search index current
+    await triggerReindex({ productIds: [productId] }).catch((error) => {
+      console.error(
+        "Search reindex failed after bulk variant deletion:",
+        error,
+      );
+    });
+
     return new Response(null, { status: 204 });
   } catch (error) {
     console.error("Error bulk deleting variants:", error);
@@ -1,13 +1,25 @@
 import type { APIRoute } from "astro";
 import { db } from "../../../../../db";
-import { productVariants } from "../../../../../db/schema";
+import { productVariants, StockMovementReason } from "../../../../../db/schema";
+import { recordStockMovements } from "../../../../../lib/inventory/ledger";
+import { isBundle } from "../../../../../lib/catalog/bundles";
+import {
+  findVariantWithOptions,
+  getProductOptions,
+  toOptionDefinitions,
+} from "../../../../../lib/catalog/product-options";
+import {
+  checkVariantOptions,
+  compareByOptions,
+  orderVariantOptions,
+} from "../../../../../lib/catalog/variant-options";
+import { triggerReindex } from "../../../../../lib/search/index";
 import { sql } from "drizzle-orm";
 import { nanoid } from "nanoid";
 import { z } from "zod";
 
 const createVariantSchema = z.object({
-  size: z.string().nullable(),
-  color: z.string().nullable(),
+  options: z.record(z.string().trim()).default({}),
   weight: z.number().min(0).nullable(),
   sku: z.string().min(3, "SKU must be at least 3 characters"),
   price: z.number().min(0, "Price must be greater than or equal to 0"),
@@ -33,8 +45,7 @@ export const GET: APIRoute = async ({ params }) => {
     const variants = await db
       .select({
         id: productVariants.id,
-        size: productVariants.size,
-        color: productVariants.color,
+        options: productVariants.options,
         weight: productVariants.weight,
         sku: productVariants.sku,
         price: productVariants.price,
@@ -42,8 +53,6 @@ export const GET: APIRoute = async ({ params }) => {
         discountType: productVariants.discountType,
         discountPercentage: productVariants.discountPercentage,
         discountAmount: productVariants.discountAmount,
-        colorSortOrder: productVariants.colorSortOrder,
-        sizeSortOrder: productVariants.sizeSortOrder,
         createdAt: sql<string>`datetime(${productVariants.createdAt}, 'unixepoch', 'localtime')`,
         updatedAt: sql<string>`datetime(${productVariants.updatedAt}, 'unixepoch', 'localtime')`,
       })
@@ -51,7 +60,11 @@ export const GET: APIRoute = async ({ params }) => {
       .where(
         sql`${productVariants.productId} = ${productId} AND ${productVariants.deletedAt} IS NULL`,
       )
-      .orderBy(productVariants.colorSortOrder, productVariants.sizeSortOrder, productVariants.createdAt);
+      .orderBy(productVariants.createdAt);
+
+    const options =
+      (await getProductOptions(db, [productId])).get(productId) || [];
+    variants.sort(compareByOptions(toOptionDefinitions(options)));
 
     return new Response(
       JSON.stringify({
@@ -60,6 +73,7 @@ export const GET: APIRoute = async ({ params }) => {
           createdAt: new Date(variant.createdAt),
           updatedAt: new Date(variant.updatedAt),
         })),
+        options,
       }),
       {
         status: 200,
@@ -79,7 +93,7 @@ export const GET: APIRoute = async ({ params }) => {
   }
 };
 
-export const POST: APIRoute = async ({ request, params }) => {
+export const POST: APIRoute = async ({ request, params, locals }) => {
   try {
     const { id: productId } = params;
     if (!productId) {
@@ -91,6 +105,15 @@ export const POST: APIRoute = async ({ request, params }) => {
       );
     }
 
+    if (await isBundle(db, productId)) {
+      return new Response(
+        JSON.stringify({
+          error: "A bundle cannot have variants of its own",
+        }),
+        { status: 400 },
+      );
+    }
+
     const json = await request.json();
     const data = createVariantSchema.parse(json);
 
@@ -112,14 +135,39 @@ export const POST: APIRoute = async ({ request, params }) => {
       );
     }
 
+    // The variant needs one value of every option, in a combination no
+    // other variant has
+    const definitions = toOptionDefinitions(
+      (await getProductOptions(db, [productId])).get(productId) || [],
+    );
+    const optionsError = checkVariantOptions(definitions, data.options);
+    if (optionsError) {
+      return new Response(JSON.stringify({ error: optionsError }), {
+        status: 400,
+      });
+    }
+
+    const sameOptions = await findVariantWithOptions(
+      db,
+      productId,
+      data.options,
+    );
+    if (sameOptions) {
+      return new Response(
+        JSON.stringify({
+          error: `Variant ${sameOptions.sku} already has these options`,
+        }),
+        { status: 400 },
+      );
+    }
+
     // Create variant
     const [variant] = await db
       .insert(productVariants)
       .values({
         id: "var_" + nanoid(),
         productId,
-        size: data.size,
-        color: data.color,
+        options: orderVariantOptions(definitions, data.options),
         weight: data.weight,
         sku: data.sku,
         price: data.price,
@@ -132,6 +180,21 @@ export const POST: APIRoute = async ({ request, params }) => {
       })
       .returning();
 
+    await recordStockMovements(db, [
+      {
+        variantId: variant.id,
+        delta: variant.stock,
+        reason: StockMovementReason.MANUAL,
+        actorId: locals.user?.id,
+        note: "Variant created",
+      },
+    ]);
+
+    // Keep the product's SKUs in the search index current
+    await triggerReindex({ productIds: [productId] }).catch((error) => {
+      console.error("Search reindex failed after variant creation:", error);
+    });
+
     return new Response(JSON.stringify(variant), {
       status: 201,
       headers: {
@@ -5,6 +5,7 @@ import { products, orderItems, discountProducts, productVariants, productImages
 import { sql, inArray } from "drizzle-orm";
 import { z } from "zod";
 import { triggerReindex, deleteFromIndex } from "@/lib/search/index";
+import { deleteProductTranslations } from "@/lib/i18n/translations";
 
 const bulkDeleteSchema = z.object({
   productIds: z.array(z.string()),
@@ -55,6 +56,7 @@ export const POST: APIRoute = async ({ request }) => {
       }
 
       // If checks pass, proceed with permanent deletion in a transaction
+      await deleteProductTranslations(db, productIds);
       await db.transaction(async (tx) => {
         await tx.delete(productVariants).where(inArray(productVariants.productId, productIds));
         await tx.delete(productImages).where(inArray(productImages.productId, productIds));
@@ -69,9 +71,9 @@ export const POST: APIRoute = async ({ request }) => {
         .where(inArray(products.id, productIds));
     }
 
-    deleteFromIndex({ productIds }).catch((error) => {
+    await deleteFromIndex({ productIds }).catch((error) => {
       console.error("Error deleting products from search index:", error);
-      triggerReindex().catch((reindexError) => {
+      return triggerReindex().catch((reindexError) => {
         console.error(
           "Background reindexing failed after bulk product deletion:",
           reindexError,
@@ -0,0 +1,41 @@
+// src/pages/api/products/export.ts
+import type { APIRoute } from "astro";
+import { db } from "../../../db";
+import { getCatalogProducts } from "@/lib/catalog/catalog-export";
+import { toCatalogSheet } from "@/lib/catalog/catalog-sheet";
+import {
+  SPREADSHEET_MIME_TYPES,
+  toCsv,
+  toXlsx,
+  type SpreadsheetFormat,
+} from "@/lib/catalog/spreadsheet";
+
+// Every product with its variants, images, attributes, categories and SEO
+// fields, in the layout the import reads back
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    const format: SpreadsheetFormat =
+      url.searchParams.get("format") === "xlsx" ? "xlsx" : "csv";
+
+    const rows = toCatalogSheet(await getCatalogProducts(db));
+    const date = new Date().toISOString().split("T")[0];
+
+    return new Response(
+      format === "xlsx" ? toXlsx(rows, "Products") : toCsv(rows),
+      {
+        status: 200,
+        headers: {
+          "Content-Type": SPREADSHEET_MIME_TYPES[format],
+          "Content-Disposition": `attachment; filename="products-${date}.${format}"`,
+          "Cache-Control": "no-store",
+        },
+      },
+    );
+  } catch (error) {
+    console.error("Error exporting products:", error);
+    return new Response(
+      JSON.stringify({ error: "Failed to export products" }),
+      { status: 500 },
+    );
+  }
+};
@@ -0,0 +1,88 @@
+// src/pages/api/products/import.ts
+import type { APIRoute } from "astro";
+import { db } from "../../../db";
+import { importCatalogProducts } from "@/lib/catalog/catalog-import";
+import { z } from "zod";
+
+// The admin reads the sheet in the browser and sends its products in
+// batches, so a large file never has to fit in one request
+const MAX_PRODUCTS_PER_REQUEST = 50;
+
+const discountTypeSchema = z.enum(["percentage", "flat"]).nullable();
+
+const catalogProductSchema = z.object({
+  row: z.number().int().optional(),
+  slug: z.string().trim().min(1),
+  name: z.string().trim().nullable(),
+  description: z.string().nullable(),
+  category: z.string().trim().nullable(),
+  additionalCategories: z.array(z.string().trim()).nullable(),
+  price: z.number().nullable(),
+  discountType: discountTypeSchema,
+  discountValue: z.number().nullable(),
+  freeDelivery: z.boolean().nullable(),
+  isActive: z.boolean().nullable(),
+  metaTitle: z.string().nullable(),
+  metaDescription: z.string().nullable(),
+  images: z.array(z.string().trim()).nullable(),
+  attributes: z.record(z.string().trim()).nullable(),
+  variants: z.array(
+    z.object({
+      row: z.number().int().optional(),
+      sku: z.string().trim().min(1),
+      options: z.record(z.string().trim()).nullable(),
+      price: z.number().nullable(),
+      stock: z.number().nullable(),
+      weight: z.number().nullable(),
+      discountType: discountTypeSchema,
+      discountValue: z.number().nullable(),
+    }),
+  ),
+});
+
+const importSchema = z.object({
+  products: z
+    .array(catalogProductSchema)
+    .min(1, "At least one product is required")
+    .max(MAX_PRODUCTS_PER_REQUEST),
+  // Only check the products and report what importing them would do
+  dryRun: z.boolean().default(false),
+});
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const json = await request.json();
+    const data = importSchema.parse(json);
+
+    const report = await importCatalogProducts(db, data.products, {
+      dryRun: data.dryRun,
+      actorId: locals.user?.id,
+    });
+
+    return new Response(JSON.stringify(report), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    console.error("Error importing products:", error);
+
+    if (error instanceof z.ZodError) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid import data",
+          details: error.errors,
+        }),
+        { status: 400 },
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: "Internal server error",
+      }),
+      { status: 500 },
+    );
+  }
+};
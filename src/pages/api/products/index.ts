@@ -1,18 +1,48 @@
 // src/pages/api/products/index.ts
 import type { APIRoute } from "astro";
 import { db } from "../../../db";
-import { products, productImages, productRichContent, productAttributeValues } from "../../../db/schema";
+import {
+  products,
+  productImages,
+  productRichContent,
+  productAttributeValues,
+  productCategories,
+  productRecommendations,
+  bundleItems,
+  ProductType,
+} from "../../../db/schema";
 import { nanoid } from "nanoid";
 import { sql } from "drizzle-orm";
 import { z } from "zod";
 import { triggerReindex } from "@/lib/search/index";
 import { getProducts } from "../../../lib/admin";
+import { productCategoryValues } from "@/lib/catalog/product-categories";
+import { recommendationValues } from "@/lib/catalog/recommendations";
+import {
+  bundleItemValues,
+  checkBundleComponents,
+} from "@/lib/catalog/bundles";
 
 const createProductSchema = z.object({
   name: z.string().min(3).max(100),
   description: z.string().min(10).nullable(),
   price: z.number().min(0).max(1000000000000),
   categoryId: z.string().min(1),
+  // Categories the product is also listed in, besides its primary one
+  additionalCategoryIds: z.array(z.string()).optional(),
+  // Products picked to recommend with this one, in display order
+  relatedProductIds: z.array(z.string()).optional(),
+  frequentlyBoughtTogetherIds: z.array(z.string()).optional(),
+  type: z.nativeEnum(ProductType).optional(),
+  // Variants a bundle is made of, in display order
+  bundleItems: z
+    .array(
+      z.object({
+        variantId: z.string(),
+        quantity: z.number().int().min(1),
+      }),
+    )
+    .optional(),
   isActive: z.boolean(),
   discountType: z.enum(["percentage", "flat"]).optional(),
   discountPercentage: z.number().min(0).max(100).nullish(),
@@ -107,6 +137,19 @@ export const POST: APIRoute = async ({ request }) => {
       );
     }
 
+    if (data.type === ProductType.BUNDLE) {
+      const bundleError = await checkBundleComponents(
+        db,
+        null,
+        data.bundleItems ?? [],
+      );
+      if (bundleError) {
+        return new Response(JSON.stringify({ error: bundleError }), {
+          status: 400,
+        });
+      }
+    }
+
     const productId = "prod_" + nanoid();
     
     await db.transaction(async (tx) => {
@@ -126,11 +169,37 @@ export const POST: APIRoute = async ({ request }) => {
           discountPercentage: data.discountPercentage || null,
           discountAmount: data.discountAmount || null,
           freeDelivery: data.freeDelivery,
+          type: data.type || ProductType.STANDARD,
           createdAt: sql`unixepoch()`,
           updatedAt: sql`unixepoch()`,
           deletedAt: null,
         });
 
+      await tx
+        .insert(productCategories)
+        .values(
+          productCategoryValues(
+            productId,
+            data.categoryId,
+            data.additionalCategoryIds,
+          ),
+        );
+
+      const recommendations = recommendationValues(
+        productId,
+        data.relatedProductIds,
+        data.frequentlyBoughtTogetherIds,
+      );
+      if (recommendations.length > 0) {
+        await tx.insert(productRecommendations).values(recommendations);
+      }
+
+      if (data.type === ProductType.BUNDLE) {
+        await tx
+          .insert(bundleItems)
+          .values(bundleItemValues(productId, data.bundleItems ?? []));
+      }
+
       if (data.images.length > 0) {
         await tx.insert(productImages).values(
           data.images.map((image, index) => ({
@@ -171,8 +240,7 @@ export const POST: APIRoute = async ({ request }) => {
       }
     });
 
-
-    triggerReindex().catch((error) => {
+    await triggerReindex({ productIds: [productId] }).catch((error) => {
       console.error(
         "Background reindexing failed after product creation:",
         error,
@@ -0,0 +1,43 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { db } from "@/db";
+import { ReviewService } from "@/lib/reviews/service";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const bulkDeleteSchema = z.object({
+  reviewIds: z.array(z.string()).min(1, "Select at least one review"),
+});
+
+// POST: Delete reviews
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const parsed = bulkDeleteSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid input",
+          details: parsed.error.errors,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const result = await new ReviewService(db).deleteReviews(
+      parsed.data.reviewIds,
+    );
+
+    if (!result.success) {
+      return new Response(JSON.stringify({ error: result.message }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -0,0 +1,56 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { db } from "@/db";
+import { ReviewStatus } from "@/db/schema";
+import { ReviewService } from "@/lib/reviews/service";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const queueQuerySchema = z.object({
+  status: z.nativeEnum(ReviewStatus).optional(),
+  productId: z.string().optional(),
+  search: z.string().optional(),
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+});
+
+// GET: Reviews for the moderation queue
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    const parsed = queueQuerySchema.safeParse(
+      Object.fromEntries(url.searchParams),
+    );
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid parameters",
+          details: parsed.error.errors,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const options = parsed.data;
+    const { reviews, total, counts } = await new ReviewService(db).getQueue(
+      options,
+    );
+    const totalPages = Math.ceil(total / options.limit);
+
+    return new Response(
+      JSON.stringify({
+        data: reviews,
+        counts,
+        pagination: {
+          page: options.page,
+          limit: options.limit,
+          total,
+          totalPages,
+          hasNextPage: options.page < totalPages,
+          hasPrevPage: options.page > 1,
+        },
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -0,0 +1,50 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { db } from "@/db";
+import { ReviewStatus } from "@/db/schema";
+import { ReviewService } from "@/lib/reviews/service";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const moderateSchema = z.object({
+  reviewIds: z.array(z.string()).min(1, "Select at least one review"),
+  status: z.nativeEnum(ReviewStatus),
+  note: z.string().max(500).nullable().optional(),
+});
+
+// POST: Approve, reject or mark reviews as spam
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const parsed = moderateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid moderation data",
+          details: parsed.error.errors,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const { reviewIds, status, note } = parsed.data;
+    const result = await new ReviewService(db).moderate(
+      reviewIds,
+      status,
+      locals.user?.id,
+      note,
+    );
+
+    if (!result.success) {
+      return new Response(JSON.stringify({ error: result.message }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -106,28 +106,10 @@ export const GET: APIRoute = async ({ request, url }) => {
 };
 
 // For manual reindexing
-export const POST: APIRoute = async ({ request }) => {
-  // Check for secret to authorize reindexing
-  const authHeader = request.headers.get("Authorization");
-  const expectedAuth = `Bearer ${process.env.SERVICE_PASSWORD_MEILISEARCH || ""}`;
-
-  if (authHeader !== expectedAuth) {
-    return new Response(
-      JSON.stringify({
-        error: "Unauthorized",
-        success: false,
-      }),
-      {
-        status: 401,
-        headers: {
-          "Content-Type": "application/json",
-        },
-      },
-    );
-  }
-
+// Authentication is handled by middleware
+export const POST: APIRoute = async () => {
   try {
-    // Reindex all data
+    // Rebuild the full-text index from scratch
     const result = await indexAllData();
 
     return new Response(
@@ -2,32 +2,9 @@ import type { APIRoute } from "astro";
 import { indexAllData } from "@/lib/search/index";
 import { safeErrorResponse } from "@/lib/error-utils";
 
-// Dedicated endpoint for reindexing
-export const POST: APIRoute = async ({ request }) => {
-  // Check for secret to authorize reindexing
-  const authHeader = request.headers.get("Authorization");
-  const expectedAuth = `Bearer ${process.env.SERVICE_PASSWORD_MEILISEARCH || ""}`;
-
-  console.log("Reindex API called");
-
-  // Skip auth check in development to make testing easier
-  const isDev = process.env.NODE_ENV === "development";
-  if (!isDev && authHeader !== expectedAuth) {
-    console.log("Unauthorized reindex attempt");
-    return new Response(
-      JSON.stringify({
-        error: "Unauthorized. Please provide a valid API key.",
-        success: false,
-      }),
-      {
-        status: 401,
-        headers: {
-          "Content-Type": "application/json",
-        },
-      },
-    );
-  }
-
+// Dedicated endpoint for rebuilding the full-text index
+// Authentication is handled by middleware
+export const POST: APIRoute = async () => {
   try {
     console.log("Starting reindex process...");
 
@@ -40,6 +40,12 @@ function unmaskedCredentials(
     if (unmasked.secretKey === MASKED_VALUE && existingCreds.secretKey) {
       unmasked.secretKey = existingCreds.secretKey;
     }
+    if (
+      unmasked.webhookSecret === MASKED_VALUE &&
+      existingCreds.webhookSecret
+    ) {
+      unmasked.webhookSecret = existingCreds.webhookSecret;
+    }
 
     return JSON.stringify(unmasked);
   } catch (e) {
@@ -61,6 +67,7 @@ function maskCredentialsForClient(credentialsJson: string): string {
     if (masked.password) masked.password = MASKED_VALUE;
     if (masked.apiKey) masked.apiKey = MASKED_VALUE;
     if (masked.secretKey) masked.secretKey = MASKED_VALUE;
+    if (masked.webhookSecret) masked.webhookSecret = MASKED_VALUE;
 
     return JSON.stringify(masked);
   } catch (e) {
@@ -18,6 +18,8 @@ const navigationItemSchema: z.ZodType<any> = z.object({
   id: z.string(),
   title: z.string(),
   href: z.string().optional(),
+  // Title by locale
+  translations: z.record(z.string()).optional(),
   subMenu: z.lazy(() => z.array(navigationItemSchema)).optional(),
 });
 
@@ -25,6 +27,7 @@ const navigationItemSchema: z.ZodType<any> = z.object({
 const footerMenuSchema = z.object({
   id: z.string(),
   title: z.string(),
+  translations: z.record(z.string()).optional(),
   links: z.array(navigationItemSchema),
 });
 
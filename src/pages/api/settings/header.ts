@@ -17,6 +17,8 @@ const navigationItemSchema: z.ZodType<any> = z.object({
   id: z.string(),
   title: z.string(),
   href: z.string().optional(),
+  // Title by locale
+  translations: z.record(z.string()).optional(),
   subMenu: z.lazy(() => z.array(navigationItemSchema)).optional(),
 });
 
@@ -0,0 +1,57 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { PaymentService } from "@/lib/payments/service";
+import { maskCredentials } from "@/lib/payments/credentials";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const paymentService = new PaymentService(db);
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+export const GET: APIRoute = async ({ params }) => {
+  try {
+    // Authentication is handled by middleware
+    const provider = params.id
+      ? await paymentService.getProvider(params.id)
+      : undefined;
+
+    if (!provider) {
+      return jsonResponse({ error: "Provider not found" }, 404);
+    }
+
+    return jsonResponse({
+      ...provider,
+      credentials: maskCredentials(provider.credentials),
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
+
+export const DELETE: APIRoute = async ({ params }) => {
+  try {
+    const provider = params.id
+      ? await paymentService.getProvider(params.id)
+      : undefined;
+
+    if (!provider) {
+      return jsonResponse({ error: "Provider not found" }, 404);
+    }
+
+    const deleted = await paymentService.deleteProvider(provider.id);
+
+    return jsonResponse({
+      success: true,
+      deleted,
+      message: deleted
+        ? "Provider deleted"
+        : "Provider has payments and was deactivated instead",
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -0,0 +1,27 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { PaymentService } from "@/lib/payments/service";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const paymentService = new PaymentService(db);
+
+export const POST: APIRoute = async ({ params }) => {
+  try {
+    // Authentication is handled by middleware
+    if (!params.id || !(await paymentService.getProvider(params.id))) {
+      return new Response(JSON.stringify({ error: "Provider not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const result = await paymentService.testProvider(params.id);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -0,0 +1,97 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { PaymentProvider } from "@/db/schema";
+import { PaymentService } from "@/lib/payments/service";
+import { maskCredentials, unmaskCredentials } from "@/lib/payments/credentials";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const paymentService = new PaymentService(db);
+
+const PROVIDER_TYPES: string[] = Object.values(PaymentProvider);
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+export const GET: APIRoute = async () => {
+  try {
+    // Authentication is handled by middleware
+    const providers = await paymentService.getProviders();
+
+    return jsonResponse(
+      providers.map((provider) => ({
+        ...provider,
+        credentials: maskCredentials(provider.credentials),
+      })),
+    );
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
+
+/**
+ * Create a provider, or update it when an ID of an existing provider is given
+ */
+const saveProvider: APIRoute = async ({ request }) => {
+  try {
+    const provider = await request.json();
+
+    if (!provider.name || !provider.type) {
+      return jsonResponse(
+        { error: "Missing required fields", required: ["name", "type"] },
+        400,
+      );
+    }
+
+    if (!PROVIDER_TYPES.includes(provider.type)) {
+      return jsonResponse(
+        { error: `Unsupported provider type: ${provider.type}` },
+        400,
+      );
+    }
+
+    const credentials =
+      typeof provider.credentials === "string"
+        ? provider.credentials
+        : JSON.stringify(provider.credentials || {});
+    const config =
+      typeof provider.config === "string"
+        ? provider.config
+        : JSON.stringify(provider.config || {});
+
+    const existingProvider = provider.id
+      ? await paymentService.getProvider(provider.id)
+      : undefined;
+
+    const savedProvider = await paymentService.saveProvider({
+      id: provider.id,
+      name: provider.name,
+      type: provider.type,
+      isActive:
+        provider.isActive !== undefined
+          ? Boolean(provider.isActive)
+          : (existingProvider?.isActive ?? false),
+      // SECURITY: Never save masked values sent back by the client
+      credentials: unmaskCredentials(
+        credentials,
+        existingProvider?.credentials,
+      ),
+      config,
+    });
+
+    return jsonResponse(
+      {
+        ...savedProvider,
+        credentials: maskCredentials(savedProvider.credentials),
+      },
+      existingProvider ? 200 : 201,
+    );
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
+
+export const POST = saveProvider;
+export const PUT = saveProvider;
@@ -0,0 +1,54 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { JobRunner } from "@/lib/jobs/runner";
+import { safeErrorResponse } from "@/lib/error-utils";
+import { z } from "zod";
+
+const jobRunner = new JobRunner(db);
+
+const jobSettingsSchema = z
+  .object({
+    isEnabled: z.boolean().optional(),
+    // The cron trigger fires every 5 minutes, so shorter intervals do nothing
+    intervalMinutes: z.number().int().min(5).max(10080).optional(),
+  })
+  .refine(
+    (settings) =>
+      settings.isEnabled !== undefined ||
+      settings.intervalMinutes !== undefined,
+    "Nothing to update",
+  );
+
+export const PUT: APIRoute = async ({ params, request }) => {
+  try {
+    // Authentication is handled by middleware
+    const parsed = jobSettingsSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid job settings",
+          details: parsed.error.errors,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const job = params.id
+      ? await jobRunner.updateSettings(params.id, parsed.data)
+      : undefined;
+
+    if (!job) {
+      return new Response(JSON.stringify({ error: "Job not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(job), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -0,0 +1,40 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { ScheduledJobTrigger } from "@/db/schema";
+import { JobRunner } from "@/lib/jobs/runner";
+import { getJobDefinition } from "@/lib/jobs/registry";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+/**
+ * Run a job now, outside its schedule, and return the outcome
+ */
+export const POST: APIRoute = async ({ params, locals }) => {
+  try {
+    // Authentication is handled by middleware
+    if (!params.id || !getJobDefinition(params.id)) {
+      return new Response(JSON.stringify({ error: "Job not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const result = await new JobRunner(db, locals.runtime?.env).runJob(
+      params.id,
+      ScheduledJobTrigger.MANUAL,
+    );
+
+    if (!result) {
+      return new Response(
+        JSON.stringify({ error: "This job is already running" }),
+        { status: 409, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -0,0 +1,32 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { JobRunner } from "@/lib/jobs/runner";
+import { getJobDefinition } from "@/lib/jobs/registry";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const jobRunner = new JobRunner(db);
+
+export const GET: APIRoute = async ({ params, url }) => {
+  try {
+    // Authentication is handled by middleware
+    if (!params.id || !getJobDefinition(params.id)) {
+      return new Response(JSON.stringify({ error: "Job not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const limit = Math.min(
+      Math.max(Number(url.searchParams.get("limit")) || 50, 1),
+      200,
+    );
+    const runs = await jobRunner.getRuns(params.id, limit);
+
+    return new Response(JSON.stringify(runs), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -0,0 +1,32 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { JobRunner } from "@/lib/jobs/runner";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const jobRunner = new JobRunner(db);
+
+/**
+ * Registered jobs with their settings and last outcome, plus the most
+ * recent runs across all jobs
+ */
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    // Authentication is handled by middleware
+    const limit = Math.min(
+      Math.max(Number(url.searchParams.get("limit")) || 50, 1),
+      200,
+    );
+
+    const [jobs, runs] = await Promise.all([
+      jobRunner.getJobs(),
+      jobRunner.getRuns(undefined, limit),
+    ]);
+
+    return new Response(JSON.stringify({ jobs, runs }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
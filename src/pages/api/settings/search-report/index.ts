@@ -0,0 +1,41 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { SearchAnalyticsService } from "@/lib/search/analytics";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+import { z } from "zod";
+
+const reportQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).optional().default(30),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+});
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    // Authentication is handled by middleware
+    const parsed = reportQuerySchema.safeParse(
+      Object.fromEntries(url.searchParams),
+    );
+    if (!parsed.success) {
+      return jsonResponse(
+        { error: "Invalid report range", details: parsed.error.errors },
+        400,
+      );
+    }
+
+    const { days, limit } = parsed.data;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    return jsonResponse(
+      await new SearchAnalyticsService(db).getReport({ since, limit }),
+    );
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -0,0 +1,53 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import {
+  SearchSynonymService,
+  synonymGroupSchema,
+} from "@/lib/search/synonyms";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const synonymService = new SearchSynonymService(db);
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const notFound = () => jsonResponse({ error: "Synonym group not found" }, 404);
+
+export const PUT: APIRoute = async ({ params, request }) => {
+  try {
+    if (!params.id || !(await synonymService.getGroup(params.id))) {
+      return notFound();
+    }
+
+    const parsed = synonymGroupSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return jsonResponse(
+        { error: "Invalid synonym group", details: parsed.error.errors },
+        400,
+      );
+    }
+
+    return jsonResponse(
+      await synonymService.saveGroup({ id: params.id, ...parsed.data }),
+    );
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
+
+export const DELETE: APIRoute = async ({ params }) => {
+  try {
+    if (!params.id || !(await synonymService.getGroup(params.id))) {
+      return notFound();
+    }
+
+    await synonymService.deleteGroup(params.id);
+
+    return jsonResponse({ success: true });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -0,0 +1,40 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import {
+  SearchSynonymService,
+  synonymGroupSchema,
+} from "@/lib/search/synonyms";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const synonymService = new SearchSynonymService(db);
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+export const GET: APIRoute = async () => {
+  try {
+    // Authentication is handled by middleware
+    return jsonResponse(await synonymService.getGroups());
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const parsed = synonymGroupSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return jsonResponse(
+        { error: "Invalid synonym group", details: parsed.error.errors },
+        400,
+      );
+    }
+
+    return jsonResponse(await synonymService.saveGroup(parsed.data), 201);
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
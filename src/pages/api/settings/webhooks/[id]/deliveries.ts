@@ -0,0 +1,31 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { WebhookService } from "@/lib/webhooks/service";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const webhookService = new WebhookService(db);
+
+export const GET: APIRoute = async ({ params, url }) => {
+  try {
+    // Authentication is handled by middleware
+    if (!params.id || !(await webhookService.getEndpoint(params.id))) {
+      return new Response(
+        JSON.stringify({ error: "Webhook endpoint not found" }),
+        { status: 404, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const limit = Math.min(
+      Math.max(parseInt(url.searchParams.get("limit") || "50", 10) || 50, 1),
+      200,
+    );
+    const deliveries = await webhookService.getDeliveries(params.id, limit);
+
+    return new Response(JSON.stringify(deliveries), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
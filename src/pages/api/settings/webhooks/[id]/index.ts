@@ -0,0 +1,94 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { WebhookService, toPublicEndpoint } from "@/lib/webhooks/service";
+import { generateWebhookSecret } from "@/lib/webhooks/signing";
+import { safeErrorResponse } from "@/lib/error-utils";
+import { WebhookEvent } from "@/db/schema";
+import { z } from "zod";
+
+const webhookService = new WebhookService(db);
+
+const updateEndpointSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  url: z
+    .string()
+    .url("Enter a valid URL")
+    .refine((url) => /^https?:\/\//i.test(url), "URL must use http or https"),
+  events: z
+    .array(z.nativeEnum(WebhookEvent))
+    .min(1, "Select at least one event"),
+  isActive: z.boolean(),
+  rotateSecret: z.boolean().optional(),
+});
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const notFound = () =>
+  jsonResponse({ error: "Webhook endpoint not found" }, 404);
+
+export const GET: APIRoute = async ({ params }) => {
+  try {
+    // Authentication is handled by middleware
+    const endpoint = params.id
+      ? await webhookService.getEndpoint(params.id)
+      : undefined;
+    if (!endpoint) {
+      return notFound();
+    }
+
+    return jsonResponse(toPublicEndpoint(endpoint));
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
+
+/**
+ * Update an endpoint. With `rotateSecret` a new signing secret is generated
+ * and returned once.
+ */
+export const PUT: APIRoute = async ({ params, request }) => {
+  try {
+    if (!params.id || !(await webhookService.getEndpoint(params.id))) {
+      return notFound();
+    }
+
+    const parsed = updateEndpointSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return jsonResponse(
+        { error: "Invalid webhook endpoint", details: parsed.error.errors },
+        400,
+      );
+    }
+
+    const { rotateSecret, ...data } = parsed.data;
+    const endpoint = await webhookService.saveEndpoint({
+      ...data,
+      id: params.id,
+      secret: rotateSecret ? generateWebhookSecret() : undefined,
+    });
+
+    return jsonResponse(
+      toPublicEndpoint(endpoint, { revealSecret: !!rotateSecret }),
+    );
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
+
+export const DELETE: APIRoute = async ({ params }) => {
+  try {
+    if (!params.id || !(await webhookService.getEndpoint(params.id))) {
+      return notFound();
+    }
+
+    await webhookService.deleteEndpoint(params.id);
+
+    return jsonResponse({ success: true });
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -0,0 +1,41 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { WebhookService, WEBHOOK_PING_EVENT } from "@/lib/webhooks/service";
+import { WebhookDeliveryStatus } from "@/db/schema";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const webhookService = new WebhookService(db);
+
+/**
+ * Send a ping event to the endpoint and report how it responded
+ */
+export const POST: APIRoute = async ({ params }) => {
+  try {
+    // Authentication is handled by middleware
+    const delivery = params.id
+      ? await webhookService.sendTest(params.id)
+      : undefined;
+
+    if (!delivery) {
+      return new Response(
+        JSON.stringify({ error: "Webhook endpoint not found" }),
+        { status: 404, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const success = delivery.status === WebhookDeliveryStatus.SUCCESS;
+
+    return new Response(
+      JSON.stringify({
+        success,
+        message: success
+          ? `Endpoint accepted the ${WEBHOOK_PING_EVENT} event (HTTP ${delivery.responseStatus})`
+          : delivery.error || "Delivery failed",
+        delivery,
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
@@ -0,0 +1,42 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { WebhookService } from "@/lib/webhooks/service";
+import { WebhookDeliveryStatus } from "@/db/schema";
+import { safeErrorResponse } from "@/lib/error-utils";
+
+const webhookService = new WebhookService(db);
+
+/**
+ * Send a logged delivery's payload again. The attempt is logged as a new
+ * delivery with the same event ID.
+ */
+export const POST: APIRoute = async ({ params }) => {
+  try {
+    // Authentication is handled by middleware
+    const delivery = params.deliveryId
+      ? await webhookService.redeliver(params.deliveryId)
+      : undefined;
+
+    if (!delivery) {
+      return new Response(JSON.stringify({ error: "Delivery not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const success = delivery.status === WebhookDeliveryStatus.SUCCESS;
+
+    return new Response(
+      JSON.stringify({
+        success,
+        message: success
+          ? "Delivery succeeded"
+          : delivery.error || "Delivery failed, it will be retried",
+        delivery,
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
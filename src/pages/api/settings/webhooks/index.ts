@@ -0,0 +1,63 @@
+import type { APIRoute } from "astro";
+import { db } from "@/db";
+import { WebhookEvent } from "@/db/schema";
+import { WebhookService, toPublicEndpoint } from "@/lib/webhooks/service";
+import { safeErrorResponse } from "@/lib/error-utils";
+import { z } from "zod";
+
+const webhookService = new WebhookService(db);
+
+const webhookEndpointSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  url: z
+    .string()
+    .url("Enter a valid URL")
+    .refine((url) => /^https?:\/\//i.test(url), "URL must use http or https"),
+  events: z
+    .array(z.nativeEnum(WebhookEvent))
+    .min(1, "Select at least one event"),
+  isActive: z.boolean().default(true),
+});
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+export const GET: APIRoute = async () => {
+  try {
+    // Authentication is handled by middleware
+    const endpoints = await webhookService.getEndpoints();
+
+    return jsonResponse(
+      endpoints.map((endpoint) => toPublicEndpoint(endpoint)),
+    );
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
+
+/**
+ * Create an endpoint. The generated signing secret is returned once.
+ */
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const parsed = webhookEndpointSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return jsonResponse(
+        { error: "Invalid webhook endpoint", details: parsed.error.errors },
+        400,
+      );
+    }
+
+    const endpoint = await webhookService.saveEndpoint(parsed.data);
+
+    return jsonResponse(
+      toPublicEndpoint(endpoint, { revealSecret: true }),
+      201,
+    );
+  } catch (error) {
+    return safeErrorResponse(error, 500);
+  }
+};
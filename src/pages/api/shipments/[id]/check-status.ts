@@ -5,11 +5,12 @@ import { db } from "@/db";
 import { deliveryShipments } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { safeErrorResponse } from "@/lib/error-utils";
+import { getRuntimeWaitUntil } from "@/lib/webhooks/service";
 
 // Initialize the service
 const deliveryService = new DeliveryService();
 
-export const POST: APIRoute = async ({ params }) => {
+export const POST: APIRoute = async ({ params, locals }) => {
   try {
     // Authentication is handled by middleware
     const { id: shipmentId } = params;
@@ -65,6 +66,8 @@ export const POST: APIRoute = async ({ params }) => {
         await ShipmentTracker.updateOrderStatusFromShipment(
           shipmentId,
           result.status,
+          previousStatus,
+          getRuntimeWaitUntil(locals),
         );
 
       // Send notification about status change
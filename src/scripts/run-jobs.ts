@@ -0,0 +1,76 @@
+/**
+ * Scheduled Jobs CLI
+ *
+ * Runs the jobs from src/lib/jobs locally against the configured database,
+ * the same way the Cloudflare cron trigger does in production.
+ *
+ * Usage:
+ *   pnpm jobs:run              List jobs with their schedule and last outcome
+ *   pnpm jobs:run --due        Run every enabled job whose interval has passed
+ *   pnpm jobs:run <job-id>...  Run the given jobs now, ignoring their schedule
+ */
+
+import "dotenv/config";
+import { getDb } from "@/db";
+import { ScheduledJobRunStatus, ScheduledJobTrigger } from "@/db/schema";
+import { getJobDefinition } from "@/lib/jobs/registry";
+import { JobRunner, type JobRunResult } from "@/lib/jobs/runner";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const runner = new JobRunner(getDb(process.env));
+
+  if (args.length === 0) {
+    const jobs = await runner.getJobs();
+    for (const job of jobs) {
+      const lastRun = job.lastRunAt
+        ? `${job.lastRunAt.toISOString()} ${job.lastStatus}`
+        : "never run";
+      console.log(
+        `${job.isEnabled ? "●" : "○"} ${job.id.padEnd(28)} every ${job.intervalMinutes} min, ${lastRun}`,
+      );
+    }
+    return;
+  }
+
+  let results: JobRunResult[] = [];
+
+  if (args.includes("--due")) {
+    results = await runner.runDueJobs(ScheduledJobTrigger.CLI);
+    if (results.length === 0) {
+      console.log("No jobs are due.");
+    }
+  } else {
+    for (const jobId of args) {
+      if (!getJobDefinition(jobId)) {
+        console.error(`❌ Unknown job: ${jobId}`);
+        process.exitCode = 1;
+        continue;
+      }
+
+      const result = await runner.runJob(jobId, ScheduledJobTrigger.CLI);
+      if (!result) {
+        console.warn(`⏳ ${jobId} is already running, skipped`);
+        continue;
+      }
+      results.push(result);
+    }
+  }
+
+  for (const result of results) {
+    const ok = result.status === ScheduledJobRunStatus.SUCCESS;
+    console.log(
+      `${ok ? "✅" : "❌"} ${result.jobId} (${result.durationMs}ms): ${result.message}`,
+    );
+    if (!ok) {
+      process.exitCode = 1;
+    }
+  }
+}
+
+main()
+  .then(() => process.exit())
+  .catch((error) => {
+    console.error("❌ Error running jobs:", error);
+    process.exit(1);
+  });
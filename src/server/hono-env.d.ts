@@ -2,11 +2,18 @@
 
 import "@cloudflare/workers-types";
 import type { Database } from "@/db";
+import type { StoreCurrency } from "@/lib/pricing/currency";
 
 // Extend Hono's context variable map for type-safe c.get("db")
 declare module "hono" {
   interface ContextVariableMap {
     db: Database;
+    // Locale content is translated into, null for the default language.
+    // Set by src/server/middleware/locale.ts.
+    locale: string | null;
+    // Currency prices are shown in, null for the base currency.
+    // Set by src/server/middleware/currency.ts.
+    currency: StoreCurrency | null;
   }
 }
 
@@ -30,6 +37,7 @@ declare global {
     // Variables
     PROJECT_CACHE_PREFIX: string;
     PUBLIC_API_BASE_URL: string;
+    ORDER_PRICE_MISMATCH_MODE?: "reject" | "flag";
     // ... add other vars as needed
   };
 }
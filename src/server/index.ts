@@ -18,6 +18,8 @@ import { footerRoutes } from "./routes/footer";
 import { pagesRoutes } from "./routes/pages";
 import { orderRoutes } from "./routes/orders";
 import { authMiddleware } from "./middleware/auth";
+import { localeMiddleware } from "./middleware/locale";
+import { currencyMiddleware } from "./middleware/currency";
 import { locationRoutes } from "./routes/locations";
 import { discountRoutes } from "./routes/discounts";
 import { widgetRoutes } from "./routes/widgets";
@@ -26,9 +28,14 @@ import { partytownProxyRoutes } from "./routes/partytown-proxy";
 import { shippingMethodRoutes } from "./routes/shipping-methods";
 import { seoRoutes } from "./routes/seo";
 import { checkoutLanguageRoutes } from "./routes/checkout-languages";
+import { currencyRoutes } from "./routes/currencies";
+import { reviewRoutes } from "./routes/reviews";
 import { abandonedCheckoutsRoutes } from "./routes/abandoned-checkouts";
 import { metaConversionsRoutes } from "./routes/meta-conversions";
 import { storefrontRoutes } from "./routes/storefront";
+import { cartRoutes } from "./routes/cart";
+import { paymentRoutes } from "./routes/payments";
+import { deliveryWebhookRoutes } from "./routes/delivery-webhooks";
 import { openApiSpec } from "./openapi";
 import { getCorsOriginFunction } from "../lib/cors-helper";
 
@@ -47,6 +54,11 @@ app.use("*", async (c, next) => {
   await next();
 });
 
+// Storefront language, from ?locale= or Accept-Language
+app.use("*", localeMiddleware);
+// Display currency for prices, from ?currency=
+app.use("*", currencyMiddleware);
+
 app.use("*", async (c, next) => {
   const origin = c.req.header("Origin");
   const method = c.req.method;
@@ -62,7 +74,12 @@ app.use(
     origin: getCorsOriginFunction(),
     allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS", "PATCH"],
     allowHeaders: ["Content-Type", "Authorization", "X-API-Token", "Accept"],
-    exposeHeaders: ["Content-Type", "Cache-Control"],
+    exposeHeaders: [
+      "Content-Type",
+      "Cache-Control",
+      "X-Search-Id",
+      "X-Currency",
+    ],
     credentials: true,
   }),
 );
@@ -133,9 +150,14 @@ app.route("/locations", locationRoutes);
 app.route("/shipping-methods", shippingMethodRoutes);
 app.route("/seo", seoRoutes);
 app.route("/checkout-languages", checkoutLanguageRoutes);
+app.route("/currencies", currencyRoutes); // Display currencies for ?currency=
+app.route("/reviews", reviewRoutes); // Product reviews; submissions are rate limited
 app.route("/abandoned-checkouts", abandonedCheckoutsRoutes);
 app.route("/meta", metaConversionsRoutes); // Register the new route
 app.route("/storefront", storefrontRoutes); // Consolidated homepage/layout endpoints
+app.route("/cart", cartRoutes); // Server-side cart pricing
+app.route("/payments", paymentRoutes); // Gateway callbacks are public; init/verify protect themselves
+app.route("/delivery-webhooks", deliveryWebhookRoutes); // Courier status callbacks, authenticated by webhook secret
 
 // Add health check endpoint (relative path '/health')
 app.get("/health", async (c) => {
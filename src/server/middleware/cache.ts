@@ -55,6 +55,18 @@ export const cacheMiddleware = (
       }
     }
 
+    // Translated responses are cached apart from the default language ones
+    const locale = c.get("locale");
+    if (locale) {
+      cacheKey += `:locale:${locale}`;
+    }
+
+    // So are prices in a display currency
+    const currency = c.get("currency");
+    if (currency) {
+      cacheKey += `:currency:${currency.code}`;
+    }
+
     // Add auth token to cache key if enabled
     if (varyByAuth) {
       const authHeader = c.req.header("Authorization") || "";
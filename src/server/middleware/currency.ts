@@ -0,0 +1,26 @@
+import type { MiddlewareHandler } from "hono";
+import { findCurrency, getStoreCurrencies } from "@/lib/pricing/currency";
+
+/**
+ * Middleware that picks the currency storefront prices are shown in, from
+ * the `currency` query parameter. Unknown or inactive currencies fall back
+ * to the base currency, and the X-Currency header tells which one was used.
+ * Routes read it with c.get("currency"), which is null for the base
+ * currency, and the cache middleware keeps each currency apart.
+ */
+export const currencyMiddleware: MiddlewareHandler = async (c, next) => {
+  try {
+    const store = await getStoreCurrencies(c.get("db"));
+    const requested = c.req.query("currency");
+    const currency = (requested && findCurrency(store, requested)) || null;
+
+    c.set("currency", currency && !currency.isBase ? currency : null);
+    c.header("X-Currency", (currency ?? store.base).code);
+  } catch (error) {
+    // Prices are still served, in the base currency
+    console.error("Error resolving currency:", error);
+    c.set("currency", null);
+  }
+
+  await next();
+};
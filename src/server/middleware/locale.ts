@@ -0,0 +1,29 @@
+import type { MiddlewareHandler } from "hono";
+import { getStoreLocales, resolveLocale } from "@/lib/i18n/locale";
+
+/**
+ * Middleware that picks the language storefront content is returned in: the
+ * `locale` query parameter, else the Accept-Language header, else the
+ * store's default language. Unknown languages fall back to the default.
+ * Routes read it with c.get("locale"), which is null for the default
+ * language, and the cache middleware keeps each language apart.
+ */
+export const localeMiddleware: MiddlewareHandler = async (c, next) => {
+  try {
+    const store = await getStoreLocales(c.get("db"));
+    const locale = resolveLocale(store, {
+      query: c.req.query("locale"),
+      acceptLanguage: c.req.header("Accept-Language"),
+    });
+
+    c.set("locale", locale === store.defaultLocale ? null : locale);
+    c.header("Content-Language", locale);
+  } catch (error) {
+    // Content is still served, untranslated
+    console.error("Error resolving locale:", error);
+    c.set("locale", null);
+  }
+  c.header("Vary", "Accept-Language", { append: true });
+
+  await next();
+};
@@ -0,0 +1,63 @@
+import type { MiddlewareHandler } from "hono";
+import { db } from "@/db";
+import type { SearchQuerySource } from "@/db/schema";
+import { SearchAnalyticsService, createSearchId } from "@/lib/search/analytics";
+
+export interface SearchAnalyticsOptions {
+  source: SearchQuerySource;
+  queryParam: string;
+  // Number of results in a successful response body
+  countResults: (body: any) => number;
+}
+
+/**
+ * Middleware that logs storefront searches for the admin search report.
+ * Register it before cacheMiddleware so searches answered from the cache are
+ * logged too. The log id is returned in the X-Search-Id header; the
+ * storefront sends it back when a result is clicked or an order is placed.
+ *
+ * @param options Where the query is read from and how results are counted
+ * @returns Hono middleware handler
+ */
+export const searchAnalyticsMiddleware = (
+  options: SearchAnalyticsOptions,
+): MiddlewareHandler => {
+  const { source, queryParam, countResults } = options;
+
+  return async (c, next) => {
+    const query = c.req.query(queryParam)?.trim();
+    if (c.req.method !== "GET" || !query) {
+      return next();
+    }
+
+    const searchId = createSearchId();
+    await next();
+
+    // Rate limited and failed searches say nothing about the catalog
+    if (!c.res.ok) {
+      return;
+    }
+
+    c.res.headers.set("X-Search-Id", searchId);
+
+    const logging = c.res
+      .clone()
+      .json()
+      .then((body) =>
+        new SearchAnalyticsService(db).logQuery({
+          id: searchId,
+          query,
+          source,
+          resultCount: countResults(body),
+        }),
+      )
+      .catch((error) => console.error("Error logging search:", error));
+
+    // Log after the response is sent when running on Workers
+    try {
+      c.executionCtx.waitUntil(logging);
+    } catch {
+      await logging;
+    }
+  };
+};
@@ -0,0 +1,171 @@
+// src/server/openapi/cart-paths.ts
+
+export const cartPaths = {
+  "/cart/quote": {
+    post: {
+      tags: ["Cart"],
+      summary: "Quote a cart",
+      description:
+        "Prices a cart on the server using the same rules as order creation: current product and variant prices (including their own discounts), the selected shipping method, free-delivery products and discount codes. The storefront should display these figures instead of computing totals itself. Submitting the same cart to `POST /orders` will be charged the quoted `total`.",
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["items"],
+              properties: {
+                items: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    required: ["productId", "quantity"],
+                    properties: {
+                      productId: { type: "string", example: "prod_abc123" },
+                      variantId: {
+                        type: "string",
+                        nullable: true,
+                        example: "var_xyz789",
+                      },
+                      quantity: { type: "integer", minimum: 1, example: 2 },
+                    },
+                  },
+                },
+                city: {
+                  type: "string",
+                  description: "City location ID.",
+                  example: "loc_city_1",
+                },
+                zone: {
+                  type: "string",
+                  description: "Zone location ID. Must belong to the city.",
+                  example: "loc_zone_1",
+                },
+                area: {
+                  type: "string",
+                  nullable: true,
+                  description: "Area location ID. Must belong to the zone.",
+                },
+                shippingMethodId: {
+                  type: "string",
+                  nullable: true,
+                  description:
+                    "Selected shipping method. When omitted, the cheapest active method is used.",
+                },
+                discountCodes: {
+                  type: "array",
+                  items: { type: "string" },
+                  description:
+                    "Discount codes to apply. Codes that are invalid or cannot be combined are reported in `discountErrors`.",
+                  example: ["SAVE10", "FREESHIP"],
+                },
+                customerPhone: {
+                  type: "string",
+                  description:
+                    "Used to enforce per-customer discount usage limits.",
+                  example: "01712345678",
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        "200": {
+          description: "Priced cart breakdown.",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  success: { type: "boolean", example: true },
+                  data: {
+                    type: "object",
+                    properties: {
+                      lines: {
+                        type: "array",
+                        items: {
+                          type: "object",
+                          properties: {
+                            productId: { type: "string" },
+                            variantId: { type: "string", nullable: true },
+                            productName: { type: "string" },
+                            quantity: { type: "integer" },
+                            basePrice: { type: "number" },
+                            unitPrice: { type: "number" },
+                            productDiscount: {
+                              type: "number",
+                              description: "Discount per unit.",
+                            },
+                            lineTotal: { type: "number" },
+                            freeDelivery: { type: "boolean" },
+                            availableStock: {
+                              type: "integer",
+                              nullable: true,
+                            },
+                            inStock: { type: "boolean" },
+                          },
+                        },
+                      },
+                      subtotal: { type: "number", example: 2400 },
+                      productDiscountTotal: { type: "number", example: 200 },
+                      discounts: {
+                        type: "array",
+                        items: {
+                          type: "object",
+                          properties: {
+                            id: { type: "string" },
+                            code: { type: "string" },
+                            type: { type: "string" },
+                            amount: { type: "number" },
+                          },
+                        },
+                      },
+                      discountErrors: {
+                        type: "array",
+                        items: {
+                          type: "object",
+                          properties: {
+                            code: { type: "string" },
+                            error: { type: "string" },
+                          },
+                        },
+                      },
+                      discountAmount: { type: "number", example: 240 },
+                      shipping: {
+                        type: "object",
+                        properties: {
+                          methodId: { type: "string", nullable: true },
+                          methodName: { type: "string", nullable: true },
+                          fee: { type: "number", example: 60 },
+                          freeDelivery: { type: "boolean" },
+                          charge: { type: "number", example: 60 },
+                        },
+                      },
+                      freeDelivery: { type: "boolean" },
+                      total: { type: "number", example: 2220 },
+                      allInStock: { type: "boolean" },
+                      location: {
+                        type: "object",
+                        properties: {
+                          city: { type: "object", nullable: true },
+                          zone: { type: "object", nullable: true },
+                          area: { type: "object", nullable: true },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        "400": {
+          description:
+            "Invalid cart, unknown product/variant/shipping method or mismatched location.",
+        },
+        "500": { description: "Internal server error." },
+      },
+    },
+  },
+};
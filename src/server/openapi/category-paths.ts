@@ -54,6 +54,22 @@ export const categoryPaths = {
                           example:
                             "Shop trending tech gadgets that make life easier & smarter. Functional, innovative & cool.",
                         },
+                        parentId: {
+                          type: "string",
+                          nullable: true,
+                          description: "Parent category, null at the top level",
+                          example: null,
+                        },
+                        depth: {
+                          type: "integer",
+                          description: "0 for top-level categories",
+                          example: 0,
+                        },
+                        sortOrder: {
+                          type: "integer",
+                          description: "Position among sibling categories",
+                          example: 0,
+                        },
                       },
                     },
                   },
@@ -65,6 +81,33 @@ export const categoryPaths = {
       },
     },
   },
+  "/categories/tree": {
+    get: {
+      tags: ["Categories"],
+      summary: "Get the category tree",
+      description:
+        "Returns all categories nested by parent. Siblings are ordered as arranged in the admin.",
+      responses: {
+        "200": {
+          description: "Successfully retrieved the category tree",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  categories: {
+                    type: "array",
+                    description: "Top-level categories",
+                    items: { $ref: "#/components/schemas/CategoryTreeNode" },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
   "/categories/{slug}": {
     get: {
       tags: ["Categories"],
@@ -130,8 +173,77 @@ export const categoryPaths = {
                         example:
                           "Shop trending tech gadgets that make life easier & smarter. Functional, innovative & cool.",
                       },
+                      parentId: {
+                        type: "string",
+                        nullable: true,
+                        example: null,
+                      },
+                      depth: { type: "integer", example: 0 },
+                    },
+                  },
+                  breadcrumbs: {
+                    type: "array",
+                    description:
+                      "Parent categories followed by this category, from the top level down",
+                    items: {
+                      type: "object",
+                      properties: {
+                        id: { type: "string" },
+                        name: { type: "string" },
+                        slug: { type: "string" },
+                      },
                     },
                   },
+                  children: {
+                    type: "array",
+                    description: "Direct subcategories in display order",
+                    items: { $ref: "#/components/schemas/CategoryTreeNode" },
+                  },
+                },
+              },
+            },
+          },
+        },
+        "404": {
+          description: "Category not found",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/Error",
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  "/categories/{slug}/tree": {
+    get: {
+      tags: ["Categories"],
+      summary: "Get a category with its subcategories",
+      description:
+        "Returns a category with all of its subcategories nested below it.",
+      parameters: [
+        {
+          name: "slug",
+          in: "path",
+          required: true,
+          description: "Slug of the category",
+          schema: {
+            type: "string",
+            example: "tech-gadgets",
+          },
+        },
+      ],
+      responses: {
+        "200": {
+          description: "Successfully retrieved the category subtree",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  category: { $ref: "#/components/schemas/CategoryTreeNode" },
                 },
               },
             },
@@ -155,7 +267,7 @@ export const categoryPaths = {
       tags: ["Categories"],
       summary: "Get products in a category with filtering",
       description:
-        "Returns paginated products in a category with support for attribute filtering, search, price range, and sorting. Supports dynamic attribute filtering by passing attribute slugs as query parameters.",
+        "Returns paginated products listed in a category, whether it is their primary category or an additional one, with support for attribute filtering, search, price range, and sorting. Supports dynamic attribute filtering by passing attribute slugs as query parameters. Each product's `category` is its primary category.",
       parameters: [
         {
           name: "slug",
@@ -257,6 +369,39 @@ export const categoryPaths = {
             enum: ["true", "false"],
           },
         },
+        {
+          name: "inStock",
+          in: "query",
+          required: false,
+          description:
+            "Filter by stock. Products without variants always count as in stock.",
+          schema: {
+            type: "string",
+            enum: ["true", "false"],
+          },
+        },
+        {
+          name: "includeDescendants",
+          in: "query",
+          required: false,
+          description: "Also list products from all subcategories.",
+          schema: {
+            type: "string",
+            enum: ["true", "false"],
+            default: "false",
+          },
+        },
+        {
+          name: "facets",
+          in: "query",
+          required: false,
+          description:
+            "Also return `facets` with product counts, as on `/products`",
+          schema: {
+            type: "string",
+            enum: ["true", "false"],
+          },
+        },
         {
           name: "samsung",
           in: "query",
@@ -353,6 +498,8 @@ export const categoryPaths = {
                       maxPrice: { type: "number", nullable: true },
                       freeDelivery: { type: "string", nullable: true },
                       hasDiscount: { type: "string", nullable: true },
+                      inStock: { type: "string", nullable: true },
+                      includeDescendants: { type: "boolean" },
                       sort: { type: "string" },
                     },
                   },
@@ -0,0 +1,102 @@
+// src/server/openapi/delivery-webhook-paths.ts
+
+export const deliveryWebhookPaths = {
+  "/delivery-webhooks/pathao": {
+    post: {
+      tags: ["Delivery Webhooks"],
+      summary: "Pathao status callback",
+      description:
+        "Receives Pathao order events (e.g. `order.picked`, `order.in-transit`, `order.delivered`). The `X-PATHAO-Signature` header must match the webhook secret of a Pathao delivery provider. The shipment is matched by `consignment_id`, its status is updated and the order status follows. Accepted calls respond with `202` and the `X-Pathao-Merchant-Webhook-Integration-Secret` header Pathao checks when the URL is registered.",
+      parameters: [
+        {
+          name: "X-PATHAO-Signature",
+          in: "header",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: {
+                consignment_id: { type: "string" },
+                merchant_order_id: { type: "string" },
+                event: { type: "string", example: "order.delivered" },
+                updated_at: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        "202": {
+          description:
+            "Callback accepted. `data.matched` is false when no shipment has the consignment ID.",
+        },
+        "400": { description: "Payload without a consignment ID." },
+        "401": { description: "Missing or wrong webhook secret." },
+      },
+    },
+  },
+  "/delivery-webhooks/steadfast": {
+    post: {
+      tags: ["Delivery Webhooks"],
+      summary: "Steadfast status callback",
+      description:
+        "Receives Steadfast `delivery_status` and `tracking_update` notifications. The `Authorization: Bearer <token>` header must match the webhook secret of a Steadfast delivery provider. Delivery status notifications update the shipment matched by `consignment_id` and the order status follows; tracking updates are recorded on the shipment only.",
+      parameters: [
+        {
+          name: "Authorization",
+          in: "header",
+          required: true,
+          schema: { type: "string", example: "Bearer <webhook secret>" },
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: {
+                notification_type: {
+                  type: "string",
+                  enum: ["delivery_status", "tracking_update"],
+                },
+                consignment_id: { type: "integer" },
+                invoice: { type: "string" },
+                status: { type: "string", example: "delivered" },
+                tracking_message: { type: "string" },
+                updated_at: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        "200": {
+          description: "Callback received.",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  status: { type: "string", example: "success" },
+                  message: {
+                    type: "string",
+                    example: "Webhook received successfully.",
+                  },
+                },
+              },
+            },
+          },
+        },
+        "400": { description: "Payload without a consignment ID." },
+        "401": { description: "Missing or wrong bearer token." },
+      },
+    },
+  },
+};
@@ -6,6 +6,9 @@ import { productPaths } from "./product-paths";
 import { categoryPaths } from "./category-paths";
 import { collectionPaths } from "./collection-paths";
 import { orderPaths } from "./order-paths";
+import { cartPaths } from "./cart-paths";
+import { paymentPaths } from "./payment-paths";
+import { deliveryWebhookPaths } from "./delivery-webhook-paths";
 import { otherPaths } from "./other-paths";
 import { missingPaths } from "./missing-paths";
 import { additionalPaths } from "./additional-paths";
@@ -20,6 +23,9 @@ const allPaths = {
   ...categoryPaths,
   ...collectionPaths,
   ...orderPaths,
+  ...cartPaths,
+  ...paymentPaths,
+  ...deliveryWebhookPaths,
   ...otherPaths,
   ...missingPaths,
   ...additionalPaths,
@@ -5,7 +5,7 @@ export const openapiConfig = {
     title: "Scalius Commerce API",
     version: "1.0.0",
     description:
-      "API for the Scalius Commerce platform. This specification provides all the necessary details to build a complete e-commerce storefront, from displaying products and categories to processing orders and managing customer data.",
+      "API for the Scalius Commerce platform. This specification provides all the necessary details to build a complete e-commerce storefront, from displaying products and categories to processing orders and managing customer data.\n\nCatalog content (products, categories, collections, pages and menus) is returned in the store language requested with the `locale` query parameter or the `Accept-Language` header, falling back to the default language field by field. The language used is sent back in the `Content-Language` header.",
     contact: {
       name: "Scalius Support",
       url: "https://scalius.com/support",
@@ -50,6 +50,40 @@ export const openapiConfig = {
           data: { type: "object" },
         },
       },
+      ProductCard: {
+        type: "object",
+        description: "A product as shown in product lists and carousels.",
+        properties: {
+          id: { type: "string", example: "prod_asV5RrtG4seFCrBJgwXbY" },
+          name: {
+            type: "string",
+            example: "Meko Ti5 ANC+LCD True Wireless Earbuds",
+          },
+          price: { type: "number", example: 2200 },
+          slug: {
+            type: "string",
+            example: "meko-ti5-anc-lcd-true-wireless-earbuds",
+          },
+          discountType: {
+            type: "string",
+            enum: ["percentage", "flat"],
+            example: "percentage",
+          },
+          discountPercentage: { type: "number", nullable: true },
+          discountAmount: { type: "number", nullable: true },
+          freeDelivery: { type: "boolean", example: true },
+          imageUrl: { type: "string", nullable: true },
+          rating: {
+            type: "object",
+            description: "Average rating and count of approved reviews.",
+            properties: {
+              average: { type: "number", example: 4.5 },
+              count: { type: "integer", example: 12 },
+            },
+          },
+          discountedPrice: { type: "number", example: 2200 },
+        },
+      },
       OrderPostRequest: {
         type: "object",
         required: [
@@ -138,6 +172,22 @@ export const openapiConfig = {
           },
         },
       },
+      CategoryTreeNode: {
+        type: "object",
+        properties: {
+          id: { type: "string", example: "cat_fj1ZspPwVuHyQVCGDC0jf" },
+          name: { type: "string", example: "Tech Gadgets" },
+          slug: { type: "string", example: "tech-gadgets" },
+          imageUrl: { type: "string", nullable: true },
+          parentId: { type: "string", nullable: true },
+          depth: { type: "integer", example: 0 },
+          sortOrder: { type: "integer", example: 0 },
+          children: {
+            type: "array",
+            items: { $ref: "#/components/schemas/CategoryTreeNode" },
+          },
+        },
+      },
     },
   },
   tags: [
@@ -161,6 +211,20 @@ export const openapiConfig = {
       name: "Orders",
       description: "Endpoints for creating and managing orders.",
     },
+    {
+      name: "Cart",
+      description: "Endpoints for pricing carts on the server.",
+    },
+    {
+      name: "Payments",
+      description:
+        "Endpoints for online payments through configured payment gateways.",
+    },
+    {
+      name: "Delivery Webhooks",
+      description:
+        "Status callbacks from courier partners, authenticated with the webhook secret set on the delivery provider.",
+    },
     {
       name: "Shipping Methods",
       description:
@@ -114,6 +114,29 @@ export const orderPaths = {
                           example: "cust_qpG6vaiupfBccwoEw1IYT",
                         },
                         totalAmount: { type: "number", example: 5318 },
+                        paidAmount: {
+                          type: "number",
+                          example: 200,
+                          description:
+                            "Amount received so far, net of refunds.",
+                        },
+                        amountDue: {
+                          type: "number",
+                          example: 5118,
+                          description:
+                            "Outstanding balance, collected on delivery.",
+                        },
+                        paymentStatus: {
+                          type: "string",
+                          enum: [
+                            "unpaid",
+                            "pending",
+                            "partially_paid",
+                            "paid",
+                            "failed",
+                            "refunded",
+                          ],
+                        },
                         shippingCharge: { type: "number", example: 110 },
                         discountAmount: {
                           type: "number",
@@ -272,7 +295,7 @@ export const orderPaths = {
                         type: "number",
                         minimum: 0,
                         description:
-                          "The final price per unit for this line item.",
+                          "The final price per unit the customer was shown. The server re-prices every line from the catalog; this is only used to detect price mismatches.",
                         example: 5208,
                       },
                     },
@@ -288,14 +311,33 @@ export const orderPaths = {
                   type: "string",
                   nullable: true,
                   description:
-                    "If a discount was applied, include its code to log usage.",
+                    "If a discount was applied, include its code. The code is re-validated and its amount recalculated on the server.",
                   example: "SUMMER10",
                 },
+                discountCodes: {
+                  type: "array",
+                  items: { type: "string" },
+                  description:
+                    "Additional combinable discount codes, as accepted by `/cart/quote`.",
+                },
+                shippingMethodId: {
+                  type: "string",
+                  nullable: true,
+                  description:
+                    "Shipping method ID from `/shipping-methods`. The shipping charge is taken from this method. When omitted, `shippingCharge` is matched against the configured methods.",
+                },
                 shippingCharge: {
                   type: "number",
                   minimum: 0,
                   example: 110,
                 },
+                searchIds: {
+                  type: "array",
+                  items: { type: "string" },
+                  maxItems: 20,
+                  description:
+                    "`X-Search-Id` values of the searches that led to this order, for the admin search report.",
+                },
               },
             },
           },
@@ -319,6 +361,12 @@ export const orderPaths = {
                           "The unique ID of the newly created order.",
                         example: "T6UWMI",
                       },
+                      totalAmount: {
+                        type: "number",
+                        description:
+                          "The server-calculated order total that was charged.",
+                        example: 5318,
+                      },
                     },
                   },
                 },
@@ -380,6 +428,43 @@ export const orderPaths = {
           },
         },
         "401": { $ref: "#/components/schemas/Error" },
+        "409": {
+          description:
+            "Price mismatch - the client total differs from the server-calculated total by more than the allowed tolerance. Only returned when ORDER_PRICE_MISMATCH_MODE is `reject` (the default).",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  success: { type: "boolean", example: false },
+                  error: {
+                    type: "object",
+                    properties: {
+                      code: { type: "string", example: "PRICE_MISMATCH" },
+                      message: {
+                        type: "string",
+                        example:
+                          "Order total does not match current prices. Please review your cart.",
+                      },
+                      details: {
+                        type: "object",
+                        properties: {
+                          clientTotal: { type: "number", example: 5000 },
+                          serverTotal: { type: "number", example: 5318 },
+                          pricing: {
+                            type: "object",
+                            description:
+                              "The full server-side price breakdown.",
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
         "500": { $ref: "#/components/schemas/Error" },
       },
     },
@@ -452,11 +537,11 @@ export const orderPaths = {
                               nullable: true,
                               example: "https://cdn.scalius.com/image.png",
                             },
-                            variantSize: { type: "string", nullable: true },
-                            variantColor: {
-                              type: "string",
+                            variantOptions: {
+                              type: "object",
                               nullable: true,
-                              example: "Black",
+                              additionalProperties: { type: "string" },
+                              example: { Color: "Black" },
                             },
                           },
                         },
@@ -603,8 +688,11 @@ export const orderPaths = {
                     price: { type: "number" },
                     productName: { type: "string" },
                     productImage: { type: "string", nullable: true },
-                    variantSize: { type: "string", nullable: true },
-                    variantColor: { type: "string", nullable: true },
+                    variantOptions: {
+                      type: "object",
+                      nullable: true,
+                      additionalProperties: { type: "string" },
+                    },
                   },
                 },
               },
@@ -647,8 +735,10 @@ export const orderPaths = {
                             properties: {
                               id: { type: "string" },
                               productId: { type: "string" },
-                              size: { type: "string", nullable: true },
-                              color: { type: "string", nullable: true },
+                              options: {
+                                type: "object",
+                                additionalProperties: { type: "string" },
+                              },
                               weight: { type: "number", nullable: true },
                               sku: { type: "string", nullable: true },
                               price: { type: "number", nullable: true },
@@ -714,7 +804,7 @@ export const orderPaths = {
       tags: ["Orders"],
       summary: "Restore a soft-deleted order",
       description:
-        "Restores a soft-deleted order by clearing its `deletedAt` timestamp. It also decrements the stock for all items in the order.",
+        "Restores a soft-deleted order by clearing its `deletedAt` timestamp. Unless the order is cancelled or returned, it also decrements the stock for all items in the order, and is refused when that stock is no longer available.",
       security: [{ bearerAuth: [] }],
       parameters: [
         {
@@ -729,6 +819,10 @@ export const orderPaths = {
         "204": { description: "Order restored successfully." },
         "400": { description: "Bad Request - The order is not deleted." },
         "404": { $ref: "#/components/schemas/Error" },
+        "409": {
+          description:
+            "Conflict - Not enough stock left to restore the order (code INSUFFICIENT_STOCK).",
+        },
         "401": { $ref: "#/components/schemas/Error" },
         "500": { $ref: "#/components/schemas/Error" },
       },
@@ -738,7 +832,8 @@ export const orderPaths = {
     put: {
       tags: ["Orders"],
       summary: "Update an order's status",
-      description: "Quickly updates the status of a single order.",
+      description:
+        "Moves a single order to a new status. Only allowed transitions are accepted (for example, a delivered order can only become returned, and a cancelled order can only be reopened as pending). Cancelling or returning gives the order's stock back; reopening a cancelled order takes it again.",
       security: [{ bearerAuth: [] }],
       parameters: [
         {
@@ -799,6 +894,11 @@ export const orderPaths = {
           },
         },
         "400": { $ref: "#/components/schemas/Error" },
+        "404": { $ref: "#/components/schemas/Error" },
+        "409": {
+          description:
+            "Conflict - The transition is not allowed (code INVALID_STATUS_TRANSITION, with allowedStatuses) or there is not enough stock to reopen the order (code INSUFFICIENT_STOCK).",
+        },
         "401": { $ref: "#/components/schemas/Error" },
         "500": { $ref: "#/components/schemas/Error" },
       },
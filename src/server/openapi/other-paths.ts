@@ -275,7 +275,8 @@ export const otherPaths = {
     get: {
       tags: ["Search"],
       summary: "Search products, categories, and pages",
-      description: "Search across multiple content types with various filters",
+      description:
+        "Full-text search across products, categories and pages. Every word must match, as a prefix of a word in the name, description, SKU, attribute values or category name. Each list is ordered by relevance.",
       parameters: [
         {
           name: "q",
@@ -349,6 +350,13 @@ export const otherPaths = {
       responses: {
         "200": {
           description: "Successfully performed search",
+          headers: {
+            "X-Search-Id": {
+              description:
+                "Sent when a search term was given. Pass it to `POST /search/click` when a result is opened and in `searchIds` when the order is placed.",
+              schema: { type: "string", example: "srch_V1StGXR8_Z5jdHi6B-myT" },
+            },
+          },
           content: {
             "application/json": {
               schema: {
@@ -394,6 +402,16 @@ export const otherPaths = {
                           nullable: true,
                           example: "Category Name",
                         },
+                        highlightedName: {
+                          type: "string",
+                          description: "HTML escaped, with matched words wrapped in <mark> tags",
+                          example: "<mark>Prod</mark>uct Name",
+                        },
+                        snippet: {
+                          type: "string",
+                          description: "Best matching fragment, HTML escaped, with matched words wrapped in <mark> tags",
+                          example: "…soft cotton <mark>prod</mark>uct for…",
+                        },
                         type: {
                           type: "string",
                           example: "product",
@@ -423,6 +441,16 @@ export const otherPaths = {
                           nullable: true,
                           example: "Category description",
                         },
+                        highlightedName: {
+                          type: "string",
+                          description: "HTML escaped, with matched words wrapped in <mark> tags",
+                          example: "<mark>Cat</mark>egory Name",
+                        },
+                        snippet: {
+                          type: "string",
+                          description: "Best matching fragment, HTML escaped, with matched words wrapped in <mark> tags",
+                          example: "<mark>Cat</mark>egory description",
+                        },
                         type: {
                           type: "string",
                           example: "category",
@@ -451,6 +479,16 @@ export const otherPaths = {
                           type: "string",
                           example: "Page content text",
                         },
+                        highlightedTitle: {
+                          type: "string",
+                          description: "HTML escaped, with matched words wrapped in <mark> tags",
+                          example: "<mark>Page</mark> Title",
+                        },
+                        snippet: {
+                          type: "string",
+                          description: "Best matching fragment, HTML escaped, with matched words wrapped in <mark> tags",
+                          example: "<mark>Page</mark> content text",
+                        },
                         type: {
                           type: "string",
                           example: "page",
@@ -458,6 +496,13 @@ export const otherPaths = {
                       },
                     },
                   },
+                  didYouMean: {
+                    type: "string",
+                    nullable: true,
+                    description:
+                      "The query with misspelled words corrected, when a word was not found",
+                    example: "cotton shirt",
+                  },
                   success: {
                     type: "boolean",
                     example: true,
@@ -499,12 +544,130 @@ export const otherPaths = {
       },
     },
   },
+  "/search/suggest": {
+    get: {
+      tags: ["Search"],
+      summary: "Autocomplete suggestions",
+      description:
+        "Suggestions for a partly typed query, meant to be called as the customer types. Tolerates typos, matches romanized Bangla against Bangla script and the other way round, and expands synonyms managed in the admin. Returns the best few products, categories and pages, completions of the last word, and a corrected query when a word looked misspelled.",
+      parameters: [
+        {
+          name: "q",
+          in: "query",
+          description: "What the customer has typed so far",
+          required: false,
+          schema: {
+            type: "string",
+          },
+        },
+        {
+          name: "limit",
+          in: "query",
+          description: "Maximum number of suggestions of each kind",
+          required: false,
+          schema: {
+            type: "integer",
+            minimum: 1,
+            maximum: 10,
+            default: 5,
+          },
+        },
+        {
+          name: "searchPages",
+          in: "query",
+          description: "Whether to include pages",
+          required: false,
+          schema: {
+            type: "string",
+            enum: ["true", "false"],
+            default: "true",
+          },
+        },
+        {
+          name: "searchCategories",
+          in: "query",
+          description: "Whether to include categories",
+          required: false,
+          schema: {
+            type: "string",
+            enum: ["true", "false"],
+            default: "true",
+          },
+        },
+      ],
+      responses: {
+        "200": {
+          description:
+            "Suggestions. Products, categories and pages have the same shape as in /search.",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  products: {
+                    type: "array",
+                    items: { type: "object" },
+                  },
+                  categories: {
+                    type: "array",
+                    items: { type: "object" },
+                  },
+                  pages: {
+                    type: "array",
+                    items: { type: "object" },
+                  },
+                  completions: {
+                    type: "array",
+                    items: { type: "string" },
+                    example: ["shirt", "shirts"],
+                  },
+                  didYouMean: {
+                    type: "string",
+                    nullable: true,
+                    example: "shirt",
+                  },
+                  success: {
+                    type: "boolean",
+                    example: true,
+                  },
+                  query: {
+                    type: "string",
+                    example: "shrit",
+                  },
+                },
+              },
+            },
+          },
+        },
+        "429": {
+          description: "Too Many Requests - Rate limit exceeded",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/Error",
+              },
+            },
+          },
+        },
+        "500": {
+          description: "Server Error - Failed to fetch suggestions",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/Error",
+              },
+            },
+          },
+        },
+      },
+    },
+  },
   "/search/reindex": {
     post: {
       tags: ["Search"],
       summary: "Reindex all searchable content",
       description:
-        "Manually trigger reindexing of all products, categories, and pages",
+        "Rebuild the full-text index of all products, categories, and pages. The index is kept in sync on every change, so this is only needed after editing the database directly. Requires admin authentication.",
       security: [{ bearerAuth: [] }],
       responses: {
         "200": {
@@ -567,6 +730,84 @@ export const otherPaths = {
       },
     },
   },
+  "/search/click": {
+    post: {
+      tags: ["Search"],
+      summary: "Report a clicked search result",
+      description:
+        "Record which result the shopper opened after a search, for the admin search report. Send the `X-Search-Id` header of the search response. A later click on the same search replaces the earlier one.",
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["searchId", "entityType", "entityId"],
+              properties: {
+                searchId: {
+                  type: "string",
+                  example: "srch_V1StGXR8_Z5jdHi6B-myT",
+                },
+                entityType: {
+                  type: "string",
+                  enum: ["product", "category", "page"],
+                },
+                entityId: {
+                  type: "string",
+                  example: "prod_abc123",
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        "200": {
+          description: "Click recorded",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  success: { type: "boolean", example: true },
+                },
+              },
+            },
+          },
+        },
+        "400": {
+          description: "Bad Request - Invalid click data",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/Error",
+              },
+            },
+          },
+        },
+        "404": {
+          description: "Not Found - Unknown search ID",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/Error",
+              },
+            },
+          },
+        },
+        "429": {
+          description: "Too Many Requests - Rate limit exceeded",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/Error",
+              },
+            },
+          },
+        },
+      },
+    },
+  },
   "/header": {
     get: {
       tags: ["Header"],
@@ -0,0 +1,222 @@
+// src/server/openapi/payment-paths.ts
+
+const paymentSummarySchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", example: "pay_V1StGXR8_Z5jdHi6B" },
+    orderId: { type: "string" },
+    providerType: {
+      type: "string",
+      enum: ["sslcommerz", "bkash", "mock"],
+    },
+    amount: { type: "number", example: 2220 },
+    currency: { type: "string", example: "BDT" },
+    status: {
+      type: "string",
+      enum: ["pending", "paid", "failed", "cancelled", "refunded"],
+    },
+    transactionId: { type: "string", nullable: true },
+    paidAt: { type: "string", format: "date-time", nullable: true },
+  },
+};
+
+export const paymentPaths = {
+  "/payments/providers": {
+    get: {
+      tags: ["Payments"],
+      summary: "List active payment providers",
+      description:
+        "Returns the online payment gateways the customer can choose at checkout. Orders without an online payment are cash on delivery.",
+      responses: {
+        "200": {
+          description: "Active payment providers.",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  success: { type: "boolean", example: true },
+                  data: {
+                    type: "object",
+                    properties: {
+                      providers: {
+                        type: "array",
+                        items: {
+                          type: "object",
+                          properties: {
+                            id: { type: "string" },
+                            name: { type: "string", example: "bKash" },
+                            type: { type: "string", example: "bkash" },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  "/payments/init": {
+    post: {
+      tags: ["Payments"],
+      summary: "Start an online payment for an order",
+      description:
+        "Creates a payment for the order's balance due (or a partial `amount`, e.g. an advance for cash on delivery) with the selected provider and returns the gateway URL to send the customer to. After paying, the gateway returns the customer through the callback route to `returnUrl` with `orderId`, `paymentId` and `paymentStatus` query parameters.",
+      security: [{ bearerAuth: [] }],
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["orderId", "providerId"],
+              properties: {
+                orderId: { type: "string" },
+                providerId: {
+                  type: "string",
+                  description: "ID from `/payments/providers`.",
+                },
+                returnUrl: {
+                  type: "string",
+                  format: "uri",
+                  example: "https://shop.example.com/checkout/complete",
+                },
+                amount: {
+                  type: "number",
+                  example: 200,
+                  description:
+                    "Amount to pay now. Defaults to the balance due and cannot exceed it; the rest is collected on delivery.",
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        "201": {
+          description: "Payment session created.",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  success: { type: "boolean", example: true },
+                  data: {
+                    type: "object",
+                    properties: {
+                      paymentId: { type: "string" },
+                      redirectUrl: { type: "string", format: "uri" },
+                      amount: { type: "number" },
+                      currency: { type: "string", example: "BDT" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        "400": {
+          description:
+            "The order can't be paid online (unknown, cancelled or already paid) or the gateway rejected the request. Error code `PAYMENT_INIT_FAILED`.",
+        },
+        "401": { description: "Unauthorized." },
+      },
+    },
+  },
+  "/payments/callback/{providerId}": {
+    get: {
+      tags: ["Payments"],
+      summary: "Gateway callback",
+      description:
+        "Target for gateway redirects and payment notifications (GET or form POST). The outcome is always confirmed with the gateway before the payment is updated. Redirects the customer to the payment's `returnUrl` when one was given, otherwise responds with the payment.",
+      parameters: [
+        {
+          name: "providerId",
+          in: "path",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+      responses: {
+        "200": {
+          description: "Payment processed (no return URL or notification).",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  success: { type: "boolean" },
+                  data: paymentSummarySchema,
+                },
+              },
+            },
+          },
+        },
+        "302": { description: "Redirect to the storefront return URL." },
+        "400": { description: "Unknown provider or payment." },
+      },
+    },
+  },
+  "/payments/{id}": {
+    get: {
+      tags: ["Payments"],
+      summary: "Get payment status",
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        { name: "id", in: "path", required: true, schema: { type: "string" } },
+      ],
+      responses: {
+        "200": {
+          description: "The payment.",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  success: { type: "boolean", example: true },
+                  data: paymentSummarySchema,
+                },
+              },
+            },
+          },
+        },
+        "404": { description: "Payment not found." },
+      },
+    },
+  },
+  "/payments/{id}/verify": {
+    post: {
+      tags: ["Payments"],
+      summary: "Verify a payment with its gateway",
+      description:
+        "Queries the gateway for the payment's current status and updates the payment and its order. Use it when a customer never returned from the gateway.",
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        { name: "id", in: "path", required: true, schema: { type: "string" } },
+      ],
+      responses: {
+        "200": {
+          description:
+            "The updated payment. `success` is false with an `error` when the gateway could not be reached.",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  success: { type: "boolean" },
+                  data: paymentSummarySchema,
+                  error: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        "404": { description: "Payment not found." },
+      },
+    },
+  },
+};
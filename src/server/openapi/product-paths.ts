@@ -24,14 +24,24 @@ export const productPaths = {
         {
           name: "category",
           in: "query",
-          description: "Filter by a specific category ID.",
+          description:
+            "Filter by a category ID. Matches products listed in the category, not only those with it as their primary category.",
           required: false,
           schema: { type: "string" },
         },
+        {
+          name: "includeDescendants",
+          in: "query",
+          description:
+            "With `category`, also list products from all of its subcategories.",
+          required: false,
+          schema: { type: "string", enum: ["true", "false"] },
+        },
         {
           name: "search",
           in: "query",
-          description: "Search term to filter products by name.",
+          description:
+            "Search term to filter products by name. Searches are logged for the admin search report.",
           required: false,
           schema: { type: "string" },
         },
@@ -81,6 +91,22 @@ export const productPaths = {
           required: false,
           schema: { type: "string", enum: ["true", "false"] },
         },
+        {
+          name: "inStock",
+          in: "query",
+          description:
+            "Filter for products with stock in at least one variant. Products without variants always count as in stock.",
+          required: false,
+          schema: { type: "string", enum: ["true", "false"] },
+        },
+        {
+          name: "facets",
+          in: "query",
+          description:
+            "Also return `facets`: product counts per attribute value, price range, free delivery, discount and stock. Each facet is counted with every other active filter applied but its own.",
+          required: false,
+          schema: { type: "string", enum: ["true", "false"] },
+        },
         {
           name: "ids",
           in: "query",
@@ -104,6 +130,13 @@ export const productPaths = {
       responses: {
         "200": {
           description: "A paginated list of products.",
+          headers: {
+            "X-Search-Id": {
+              description:
+                "Sent when a search term was given. Pass it to `POST /search/click` when a result is opened and in `searchIds` when the order is placed.",
+              schema: { type: "string", example: "srch_V1StGXR8_Z5jdHi6B-myT" },
+            },
+          },
           content: {
             "application/json": {
               schema: {
@@ -188,6 +221,74 @@ export const productPaths = {
                       totalPages: { type: "integer", example: 2 },
                     },
                   },
+                  facets: {
+                    type: "object",
+                    description: "Only present when `facets=true`.",
+                    properties: {
+                      attributes: {
+                        type: "array",
+                        items: {
+                          type: "object",
+                          properties: {
+                            slug: { type: "string", example: "color" },
+                            name: { type: "string", example: "Color" },
+                            values: {
+                              type: "array",
+                              items: {
+                                type: "object",
+                                properties: {
+                                  value: { type: "string", example: "Red" },
+                                  count: { type: "integer", example: 8 },
+                                  selected: { type: "boolean" },
+                                },
+                              },
+                            },
+                          },
+                        },
+                      },
+                      price: {
+                        type: "object",
+                        properties: {
+                          min: { type: "number", nullable: true },
+                          max: { type: "number", nullable: true },
+                          ranges: {
+                            type: "array",
+                            description:
+                              "Round-number ranges. A range includes `min` and excludes `max`, except the last, which includes both.",
+                            items: {
+                              type: "object",
+                              properties: {
+                                min: { type: "number", example: 500 },
+                                max: { type: "number", example: 1000 },
+                                count: { type: "integer", example: 14 },
+                              },
+                            },
+                          },
+                        },
+                      },
+                      freeDelivery: {
+                        type: "object",
+                        properties: {
+                          true: { type: "integer", example: 12 },
+                          false: { type: "integer", example: 30 },
+                        },
+                      },
+                      hasDiscount: {
+                        type: "object",
+                        properties: {
+                          true: { type: "integer", example: 12 },
+                          false: { type: "integer", example: 30 },
+                        },
+                      },
+                      inStock: {
+                        type: "object",
+                        properties: {
+                          true: { type: "integer", example: 12 },
+                          false: { type: "integer", example: 30 },
+                        },
+                      },
+                    },
+                  },
                 },
               },
             },
@@ -284,6 +385,13 @@ export const productPaths = {
                         description: "Flat discount amount when discountType is 'flat'",
                       },
                       freeDelivery: { type: "boolean", example: false },
+                      type: {
+                        type: "string",
+                        enum: ["standard", "bundle"],
+                        example: "standard",
+                        description:
+                          "A bundle is sold as one product made of other products' variants.",
+                      },
                       isActive: { type: "boolean", example: true },
                       features: {
                         type: "array",
@@ -352,6 +460,45 @@ export const productPaths = {
                           },
                         },
                       },
+                      bundle: {
+                        type: "object",
+                        nullable: true,
+                        description:
+                          "What a bundle is made of; null for other products. The bundle's default variant has `availableQuantity` as its stock.",
+                        properties: {
+                          items: {
+                            type: "array",
+                            items: {
+                              type: "object",
+                              properties: {
+                                variantId: { type: "string" },
+                                quantity: {
+                                  type: "integer",
+                                  example: 2,
+                                  description: "How many one bundle holds",
+                                },
+                                productId: { type: "string" },
+                                productName: { type: "string" },
+                                productSlug: { type: "string" },
+                                sku: { type: "string" },
+                                options: {
+                                  type: "object",
+                                  additionalProperties: { type: "string" },
+                                  example: { Color: "Black" },
+                                },
+                                imageUrl: { type: "string", nullable: true },
+                                inStock: { type: "boolean" },
+                              },
+                            },
+                          },
+                          availableQuantity: {
+                            type: "integer",
+                            example: 5,
+                            description:
+                              "Bundles the stock of every component covers",
+                          },
+                        },
+                      },
                     },
                   },
                   category: {
@@ -413,13 +560,31 @@ export const productPaths = {
                           type: "string",
                           format: "date-time",
                         },
+                        variantIds: {
+                          type: "array",
+                          items: { type: "string" },
+                          description:
+                            "Variants this image is linked to directly.",
+                        },
+                        options: {
+                          type: "array",
+                          description:
+                            "Option values this image is linked to; it shows every variant with one of them.",
+                          items: {
+                            type: "object",
+                            properties: {
+                              name: { type: "string", example: "Color" },
+                              value: { type: "string", example: "White" },
+                            },
+                          },
+                        },
                       },
                     },
                   },
                   variants: {
                     type: "array",
                     description:
-                      "A list of all available variants for the product (e.g., by color, size).",
+                      "A list of all available variants for the product, in the order of their option values.",
                     items: {
                       type: "object",
                       properties: {
@@ -431,11 +596,19 @@ export const productPaths = {
                           type: "string",
                           example: "prod_KIY35Mdn1Bc8bsUq3fcn5",
                         },
-                        size: { type: "string", nullable: true, example: null },
-                        color: {
-                          type: "string",
-                          nullable: true,
-                          example: "White",
+                        options: {
+                          type: "object",
+                          additionalProperties: { type: "string" },
+                          description:
+                            "The value this variant has for each of the product's options, keyed by option name",
+                          example: { Size: "M", Color: "White" },
+                        },
+                        imageIds: {
+                          type: "array",
+                          items: { type: "string" },
+                          description:
+                            "Images to show for this variant, in gallery order: those linked to the variant, or else to one of its option values. Empty when none are linked, in which case all images apply.",
+                          example: ["img_h1qzC6HRQtAHbuzkhS_px"],
                         },
                         weight: {
                           type: "number",
@@ -473,16 +646,6 @@ export const productPaths = {
                           example: 0,
                           description: "Flat discount amount for this variant",
                         },
-                        colorSortOrder: {
-                          type: "integer",
-                          example: 0,
-                          description: "Sort order for color-based grouping (used for variant image mapping)",
-                        },
-                        sizeSortOrder: {
-                          type: "integer",
-                          example: 0,
-                          description: "Sort order for size-based grouping (used for storefront display)",
-                        },
                         createdAt: { type: "string", format: "date-time" },
                         updatedAt: { type: "string", format: "date-time" },
                         deletedAt: {
@@ -493,10 +656,56 @@ export const productPaths = {
                       },
                     },
                   },
+                  options: {
+                    type: "array",
+                    description:
+                      "The product's variant options with their values, both in display order.",
+                    items: {
+                      type: "object",
+                      properties: {
+                        name: { type: "string", example: "Size" },
+                        values: {
+                          type: "array",
+                          items: { type: "string" },
+                          example: ["S", "M", "L"],
+                        },
+                      },
+                    },
+                  },
+                  categories: {
+                    type: "array",
+                    description:
+                      "Every category the product is listed in, the primary one (`category`) first.",
+                    items: {
+                      type: "object",
+                      properties: {
+                        id: { type: "string" },
+                        name: { type: "string", example: "Sale" },
+                        slug: { type: "string", example: "sale" },
+                        isPrimary: { type: "boolean" },
+                      },
+                    },
+                  },
+                  breadcrumbs: {
+                    type: "array",
+                    description:
+                      "The product's category and its parent categories, from the top level down. Empty for products without a category.",
+                    items: {
+                      type: "object",
+                      properties: {
+                        id: {
+                          type: "string",
+                          example: "cat_fj1ZspPwVuHyQVCGDC0jf",
+                        },
+                        name: { type: "string", example: "Tech Gadgets" },
+                        slug: { type: "string", example: "tech-gadgets" },
+                      },
+                    },
+                  },
                   relatedProducts: {
                     type: "array",
                     description:
-                      "A list of related products, typically from the same category.",
+                      "Related products: ones picked in the admin, then the ones sharing the most categories and attributes with this one.",
                     items: {
                       type: "object",
                       properties: {
@@ -567,12 +776,74 @@ export const productPaths = {
       },
     },
   },
+  "/products/{slug}/recommendations": {
+    get: {
+      tags: ["Products"],
+      summary: "Get product recommendations",
+      description:
+        "Returns products to show with a product. 'Frequently bought together' lists the products picked in the admin, then the ones most often ordered with this product, then similar products. 'Related' lists the products picked in the admin, then similar products, i.e. ones sharing categories or attribute values. A product appears in one list only.",
+      parameters: [
+        {
+          name: "slug",
+          in: "path",
+          required: true,
+          description: "The slug of the product.",
+          schema: { type: "string", example: "xiaomi-mi-band-9" },
+        },
+        {
+          name: "limit",
+          in: "query",
+          required: false,
+          description: "Maximum number of products in each list (1-20).",
+          schema: { type: "integer", default: 8 },
+        },
+      ],
+      responses: {
+        "200": {
+          description: "The recommended products.",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  frequentlyBoughtTogether: {
+                    type: "array",
+                    items: { $ref: "#/components/schemas/ProductCard" },
+                  },
+                  related: {
+                    type: "array",
+                    items: { $ref: "#/components/schemas/ProductCard" },
+                  },
+                },
+              },
+            },
+          },
+        },
+        "404": {
+          description: "Product not found",
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/Error" },
+            },
+          },
+        },
+        "500": {
+          description: "Server Error - Failed to fetch recommendations",
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/Error" },
+            },
+          },
+        },
+      },
+    },
+  },
   "/products/{productId}/variants": {
     get: {
       tags: ["Products"],
       summary: "Get all variants for a product",
       description:
-        "Returns a simple list of all variants for a specific product ID.",
+        "Returns all variants for a specific product ID in the order of their option values, with the product's option definitions.",
       parameters: [
         {
           name: "productId",
@@ -603,11 +874,12 @@ export const productPaths = {
                           type: "string",
                           example: "prod_KIY35Mdn1Bc8bsUq3fcn5",
                         },
-                        size: { type: "string", nullable: true, example: null },
-                        color: {
-                          type: "string",
-                          nullable: true,
-                          example: "White",
+                        options: {
+                          type: "object",
+                          additionalProperties: { type: "string" },
+                          description:
+                            "The value this variant has for each of the product's options, keyed by option name",
+                          example: { Size: "M", Color: "White" },
                         },
                         weight: {
                           type: "number",
@@ -625,21 +897,27 @@ export const productPaths = {
                           example: 5600,
                         },
                         stock: { type: "integer", example: 11 },
-                        colorSortOrder: {
-                          type: "integer",
-                          example: 0,
-                          description: "Sort order for color-based grouping",
-                        },
-                        sizeSortOrder: {
-                          type: "integer",
-                          example: 0,
-                          description: "Sort order for size-based grouping",
-                        },
                         createdAt: { type: "string", format: "date-time" },
                         updatedAt: { type: "string", format: "date-time" },
                       },
                     },
                   },
+                  options: {
+                    type: "array",
+                    description:
+                      "The product's variant options with their values, both in display order.",
+                    items: {
+                      type: "object",
+                      properties: {
+                        name: { type: "string", example: "Size" },
+                        values: {
+                          type: "array",
+                          items: { type: "string" },
+                          example: ["S", "M", "L"],
+                        },
+                      },
+                    },
+                  },
                 },
               },
             },
@@ -743,14 +1021,12 @@ export const productPaths = {
                                 type: "string",
                                 example: "prod_KIY35Mdn1Bc8bsUq3fcn5",
                               },
-                              size: {
-                                type: "string",
-                                nullable: true,
-                              },
-                              color: {
-                                type: "string",
-                                nullable: true,
-                                example: "White",
+                              options: {
+                                type: "object",
+                                additionalProperties: { type: "string" },
+                                description:
+                                  "The value this variant has for each of the product's options, keyed by option name",
+                                example: { Size: "M", Color: "White" },
                               },
                               weight: {
                                 type: "number",
@@ -782,16 +1058,6 @@ export const productPaths = {
                                 nullable: true,
                                 example: 0,
                               },
-                              colorSortOrder: {
-                                type: "integer",
-                                example: 0,
-                                description: "Sort order for color-based grouping",
-                              },
-                              sizeSortOrder: {
-                                type: "integer",
-                                example: 0,
-                                description: "Sort order for size-based grouping",
-                              },
                             },
                           },
                         },
@@ -9,6 +9,7 @@ import {
 } from "@/db/schema";
 import { eq, and, isNull, inArray, sql } from "drizzle-orm";
 import { cacheMiddleware } from "../middleware/cache";
+import { isInCategory } from "@/lib/catalog/product-categories";
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -123,7 +124,7 @@ app.get("/category/:categoryId", async (c) => {
         products,
         and(
           eq(productAttributeValues.productId, products.id),
-          eq(products.categoryId, categoryId),
+          isInCategory(categoryId),
           eq(products.isActive, true),
           isNull(products.deletedAt),
         ),
@@ -198,7 +199,7 @@ app.get("/category-slug/:categorySlug", async (c) => {
         products,
         and(
           eq(productAttributeValues.productId, products.id),
-          eq(products.categoryId, category.id),
+          isInCategory(category.id),
           eq(products.isActive, true),
           isNull(products.deletedAt),
         ),
@@ -252,7 +253,7 @@ app.get("/search-filters", async (c) => {
 
     // If categoryId is provided, add it to conditions
     if (categoryId) {
-      searchConditions.push(eq(products.categoryId, categoryId));
+      searchConditions.push(isInCategory(categoryId));
     }
 
     // 1. Find products that match the search query
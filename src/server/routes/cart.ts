@@ -0,0 +1,192 @@
+import { Hono } from "hono";
+import { z } from "zod";
+
+import { deliveryLocations } from "@/db/schema";
+import { and, inArray, isNull } from "drizzle-orm";
+import { standardizePhoneNumber } from "@/lib/customer-utils";
+import { priceOrder } from "@/lib/pricing/order-pricing";
+import {
+  convertOrderPricing,
+  currencyDetails,
+  findCurrency,
+  getStoreCurrencies,
+} from "@/lib/pricing/currency";
+
+const app = new Hono<{ Bindings: Env }>();
+
+const quoteSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        productId: z.string().min(1, "Product is required"),
+        variantId: z.string().nullable().optional(),
+        quantity: z.coerce.number().int().min(1, "Quantity must be at least 1"),
+      }),
+    )
+    .min(1, "Cart must contain at least one item"),
+  city: z.string().optional(),
+  zone: z.string().optional(),
+  area: z.string().nullable().optional(),
+  shippingMethodId: z.string().nullable().optional(),
+  discountCodes: z.array(z.string()).optional(),
+  customerPhone: z.string().optional(),
+  // Display currency, defaults to the `currency` query parameter
+  currency: z.string().optional(),
+});
+
+// POST /cart/quote - Price a cart exactly as the order endpoint will
+app.post("/quote", async (c) => {
+  try {
+    const db = c.get("db");
+    const json = await c.req.json();
+    const data = quoteSchema.parse(json);
+
+    let customerPhone: string | undefined;
+    if (data.customerPhone) {
+      try {
+        customerPhone = standardizePhoneNumber(data.customerPhone);
+      } catch {
+        customerPhone = data.customerPhone;
+      }
+    }
+
+    // Resolve the delivery location so the storefront can show what was priced
+    const locationIds = [data.city, data.zone, data.area].filter(
+      (id): id is string => !!id,
+    );
+    const locationResults =
+      locationIds.length > 0
+        ? await db
+            .select({
+              id: deliveryLocations.id,
+              name: deliveryLocations.name,
+              type: deliveryLocations.type,
+              parentId: deliveryLocations.parentId,
+            })
+            .from(deliveryLocations)
+            .where(
+              and(
+                inArray(deliveryLocations.id, locationIds),
+                isNull(deliveryLocations.deletedAt),
+              ),
+            )
+        : [];
+    const locationMap = new Map(locationResults.map((l) => [l.id, l]));
+
+    for (const id of locationIds) {
+      if (!locationMap.has(id)) {
+        throw new Error(`VALIDATION_ERROR:Location ${id} not found.`);
+      }
+    }
+    if (
+      data.zone &&
+      data.city &&
+      locationMap.get(data.zone)?.parentId !== data.city
+    ) {
+      throw new Error(
+        "VALIDATION_ERROR:Zone does not belong to the selected city.",
+      );
+    }
+    if (
+      data.area &&
+      data.zone &&
+      locationMap.get(data.area)?.parentId !== data.zone
+    ) {
+      throw new Error(
+        "VALIDATION_ERROR:Area does not belong to the selected zone.",
+      );
+    }
+
+    const store = await getStoreCurrencies(db);
+    let currency = c.get("currency") ?? store.base;
+    if (data.currency) {
+      const requested = findCurrency(store, data.currency);
+      if (!requested) {
+        throw new Error(
+          `VALIDATION_ERROR:Currency ${data.currency} is not available.`,
+        );
+      }
+      currency = requested;
+    }
+
+    const basePricing = await priceOrder(db, {
+      items: data.items.map((item) => ({
+        productId: item.productId,
+        variantId: item.variantId ?? null,
+        quantity: item.quantity,
+      })),
+      shippingMethodId: data.shippingMethodId,
+      discountCodes: data.discountCodes,
+      customerPhone,
+    });
+
+    // Carts are priced in the base currency and shown in the display one
+    const pricing = convertOrderPricing(basePricing, currency);
+
+    const toLocation = (id?: string | null) => {
+      const location = id ? locationMap.get(id) : undefined;
+      return location ? { id: location.id, name: location.name } : null;
+    };
+
+    return c.json({
+      success: true,
+      data: {
+        lines: pricing.lines,
+        subtotal: pricing.subtotal,
+        productDiscountTotal: pricing.productDiscountTotal,
+        discounts: pricing.discounts,
+        discountErrors: pricing.discountErrors,
+        discountAmount: pricing.discountAmount,
+        shipping: pricing.shipping,
+        freeDelivery: pricing.shipping.freeDelivery,
+        total: pricing.totalAmount,
+        currency: currencyDetails(currency),
+        // What is charged, in the base currency
+        baseCurrency: store.base.code,
+        baseTotal: basePricing.totalAmount,
+        allInStock: pricing.lines.every((line) => line.inStock),
+        location: {
+          city: toLocation(data.city),
+          zone: toLocation(data.zone),
+          area: toLocation(data.area),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error quoting cart:", error);
+
+    if (
+      error instanceof Error &&
+      error.message.startsWith("VALIDATION_ERROR:")
+    ) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: error.message.replace("VALIDATION_ERROR:", ""),
+          },
+        },
+        400,
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid cart data",
+            details: error.errors,
+          },
+        },
+        400,
+      );
+    }
+
+    return c.json({ success: false, error: "Failed to quote cart" }, 500);
+  }
+});
+
+export { app as cartRoutes };
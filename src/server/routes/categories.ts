@@ -5,11 +5,23 @@ import {
   categories,
   products,
   productImages,
-  productAttributes,
-  productAttributeValues,
+  TranslatableEntity,
 } from "@/db/schema";
-import { eq, isNull, sql, and, desc, like, inArray, or } from "drizzle-orm";
+import { eq, isNull, sql, and, desc, inArray } from "drizzle-orm";
 import { cacheMiddleware } from "../middleware/cache";
+import {
+  buildProductConditions,
+  getAttributeFilters,
+  parseBooleanFilter,
+  type ProductFilters,
+} from "@/lib/catalog/filters";
+import { getProductFacets } from "@/lib/catalog/facets";
+import {
+  buildCategoryTree,
+  getCategoryBreadcrumbs,
+  isWithinPath,
+} from "@/lib/catalog/category-tree";
+import { translateRecords } from "@/lib/i18n/translations";
 
 // Create a Hono app for category routes
 const app = new Hono();
@@ -45,8 +57,23 @@ const categoryProductFilterSchema = z.object({
   maxPrice: z.coerce.number().optional(),
   freeDelivery: z.enum(["true", "false"]).optional(),
   hasDiscount: z.enum(["true", "false"]).optional(),
+  inStock: z.enum(["true", "false"]).optional(),
+  // Also list products from subcategories
+  includeDescendants: z.enum(["true", "false"]).optional(),
+  facets: z.enum(["true", "false"]).optional(),
 });
 
+// Fields returned for each category in the tree endpoints
+const treeFields = {
+  id: categories.id,
+  name: categories.name,
+  slug: categories.slug,
+  imageUrl: categories.imageUrl,
+  parentId: categories.parentId,
+  depth: categories.depth,
+  sortOrder: categories.sortOrder,
+};
+
 // Helper function to convert Unix timestamp to Date
 const unixToDate = (timestamp: number | null): Date | null => {
   if (!timestamp) return null;
@@ -56,7 +83,7 @@ const unixToDate = (timestamp: number | null): Date | null => {
 // Get all categories (public)
 app.get("/", async (c) => {
   try {
-    const categoriesList = await db
+    const rows = await db
       .select({
         id: categories.id,
         name: categories.name,
@@ -66,11 +93,20 @@ app.get("/", async (c) => {
         createdAt: categories.createdAt,
         metaTitle: categories.metaTitle,
         metaDescription: categories.metaDescription,
+        parentId: categories.parentId,
+        depth: categories.depth,
+        sortOrder: categories.sortOrder,
       })
       .from(categories)
       .where(isNull(categories.deletedAt))
       .orderBy(categories.name)
       .all();
+    const categoriesList = await translateRecords(
+      db,
+      TranslatableEntity.CATEGORY,
+      rows,
+      c.get("locale"),
+    );
 
     // Format dates
     const formattedCategories = categoriesList.map((category) => ({
@@ -87,12 +123,34 @@ app.get("/", async (c) => {
   }
 });
 
+// Get all categories nested by parent (public)
+app.get("/tree", async (c) => {
+  try {
+    const rows = await translateRecords(
+      db,
+      TranslatableEntity.CATEGORY,
+      await db
+        .select(treeFields)
+        .from(categories)
+        .where(isNull(categories.deletedAt))
+        .all(),
+      c.get("locale"),
+    );
+
+    return c.json({ categories: buildCategoryTree(rows) });
+  } catch (error) {
+    console.error("Error fetching category tree:", error);
+    return c.json({ error: "Failed to fetch category tree" }, 500);
+  }
+});
+
 // Get category by slug (public)
 app.get("/:slug", async (c) => {
   try {
+    const locale = c.get("locale");
     const slug = c.req.param("slug");
 
-    const category = await db
+    const baseCategory = await db
       .select({
         id: categories.id,
         name: categories.name,
@@ -101,22 +159,47 @@ app.get("/:slug", async (c) => {
         imageUrl: categories.imageUrl,
         metaTitle: categories.metaTitle,
         metaDescription: categories.metaDescription,
+        parentId: categories.parentId,
+        depth: categories.depth,
         createdAt: sql<number>`CAST(${categories.createdAt} AS INTEGER)`,
       })
       .from(categories)
       .where(and(eq(categories.slug, slug), isNull(categories.deletedAt)))
       .get();
 
-    if (!category) {
+    if (!baseCategory) {
       return c.json({ error: "Category not found" }, 404);
     }
 
+    const [[category], breadcrumbs, children] = await Promise.all([
+      translateRecords(db, TranslatableEntity.CATEGORY, [baseCategory], locale),
+      getCategoryBreadcrumbs(db, baseCategory.id).then((trail) =>
+        translateRecords(db, TranslatableEntity.CATEGORY, trail, locale),
+      ),
+      db
+        .select(treeFields)
+        .from(categories)
+        .where(
+          and(
+            eq(categories.parentId, baseCategory.id),
+            isNull(categories.deletedAt),
+          ),
+        )
+        .orderBy(categories.sortOrder, categories.name)
+        .all()
+        .then((rows) =>
+          translateRecords(db, TranslatableEntity.CATEGORY, rows, locale),
+        ),
+    ]);
+
     // Format the response
     return c.json({
       category: {
         ...category,
         createdAt: unixToDate(category.createdAt)?.toISOString() || null,
       },
+      breadcrumbs,
+      children,
     });
   } catch (error) {
     console.error("Error fetching category:", error);
@@ -124,9 +207,51 @@ app.get("/:slug", async (c) => {
   }
 });
 
+// Get a category with all its subcategories nested (public)
+app.get("/:slug/tree", async (c) => {
+  try {
+    const slug = c.req.param("slug");
+
+    const category = await db
+      .select({ path: categories.path })
+      .from(categories)
+      .where(and(eq(categories.slug, slug), isNull(categories.deletedAt)))
+      .get();
+
+    if (!category) {
+      return c.json({ error: "Category not found" }, 404);
+    }
+
+    const rows = await translateRecords(
+      db,
+      TranslatableEntity.CATEGORY,
+      await db
+        .select(treeFields)
+        .from(categories)
+        .where(
+          and(
+            isWithinPath(categories.path, category.path),
+            isNull(categories.deletedAt),
+          ),
+        )
+        .all(),
+      c.get("locale"),
+    );
+
+    // Subcategories under a trashed one are left out rather than promoted
+    const [tree] = buildCategoryTree(rows).filter((node) => node.slug === slug);
+
+    return c.json({ category: tree });
+  } catch (error) {
+    console.error("Error fetching category tree:", error);
+    return c.json({ error: "Failed to fetch category tree" }, 500);
+  }
+});
+
 // Get products in a category with filtering support (public)
 app.get("/:slug/products", async (c) => {
   try {
+    const locale = c.get("locale");
     const slug = c.req.param("slug");
     const params = categoryProductFilterSchema.parse(c.req.query());
     const {
@@ -138,10 +263,11 @@ app.get("/:slug/products", async (c) => {
       maxPrice,
       freeDelivery,
       hasDiscount,
+      inStock,
     } = params;
 
     // Get category ID from slug (excluding soft-deleted categories)
-    const category = await db
+    const baseCategory = await db
       .select({
         id: categories.id,
         name: categories.name,
@@ -155,63 +281,28 @@ app.get("/:slug/products", async (c) => {
       .where(and(eq(categories.slug, slug), isNull(categories.deletedAt)))
       .get();
 
-    if (!category) {
+    if (!baseCategory) {
       return c.json({ error: "Category not found" }, 404);
     }
-
-    // Dynamic attribute filtering
-    const queryParams = c.req.query();
-    const allAttributes = await db
-      .select({ slug: productAttributes.slug })
-      .from(productAttributes);
-    const validAttributeSlugs = new Set(allAttributes.map((a) => a.slug));
-    const attributeFilters: { slug: string; value: string }[] = [];
-
-    for (const key in queryParams) {
-      if (validAttributeSlugs.has(key)) {
-        const value = queryParams[key];
-        if (value) {
-          attributeFilters.push({ slug: key, value });
-        }
-      }
-    }
-
-    // Build query conditions
-    const conditions = [
-      eq(products.isActive, true),
-      isNull(products.deletedAt),
-      eq(products.categoryId, category.id),
-    ];
-
-    // Apply search filter
-    if (search) {
-      conditions.push(like(products.name, `%${search}%`));
-    }
-
-    // Apply price range filters
-    if (minPrice !== undefined) {
-      conditions.push(sql`${products.price} >= ${minPrice}`);
-    }
-
-    if (maxPrice !== undefined) {
-      conditions.push(sql`${products.price} <= ${maxPrice}`);
-    }
-
-    // Apply free delivery filter
-    if (freeDelivery === "true") {
-      conditions.push(eq(products.freeDelivery, true));
-    } else if (freeDelivery === "false") {
-      conditions.push(eq(products.freeDelivery, false));
-    }
-
-    // Apply discount filter
-    if (hasDiscount === "true") {
-      conditions.push(sql`${products.discountPercentage} > 0`);
-    } else if (hasDiscount === "false") {
-      conditions.push(
-        sql`${products.discountPercentage} = 0 OR ${products.discountPercentage} IS NULL`,
-      );
-    }
+    const [category] = await translateRecords(
+      db,
+      TranslatableEntity.CATEGORY,
+      [baseCategory],
+      locale,
+    );
+
+    const filters: ProductFilters = {
+      categoryId: category.id,
+      includeDescendants: params.includeDescendants === "true",
+      search,
+      minPrice,
+      maxPrice,
+      freeDelivery: parseBooleanFilter(freeDelivery),
+      hasDiscount: parseBooleanFilter(hasDiscount),
+      inStock: parseBooleanFilter(inStock),
+      attributes: await getAttributeFilters(db, c.req.query()),
+    };
+    const conditions = buildProductConditions(filters);
 
     // Determine sort order
     let orderBy;
@@ -243,54 +334,29 @@ app.get("/:slug/products", async (c) => {
     // Apply pagination
     const offset = (page - 1) * limit;
 
-    // Build base query
-    let query = db
-      .select({
-        id: products.id,
-        name: products.name,
-        price: products.price,
-        slug: products.slug,
-        discountPercentage: products.discountPercentage,
-        freeDelivery: products.freeDelivery,
-        categoryId: products.categoryId,
-        createdAt: products.createdAt,
-        updatedAt: products.updatedAt,
-      })
-      .from(products)
-      .where(and(...conditions));
-
-    // Apply attribute filtering if needed
-    if (attributeFilters.length > 0) {
-      const subquery = db
-        .select({ productId: productAttributeValues.productId })
-        .from(productAttributeValues)
-        .leftJoin(
-          productAttributes,
-          eq(productAttributeValues.attributeId, productAttributes.id),
-        )
-        .where(
-          or(
-            ...attributeFilters.map((filter) =>
-              and(
-                eq(productAttributes.slug, filter.slug),
-                eq(productAttributeValues.value, filter.value),
-              ),
-            ),
-          ),
-        )
-        .groupBy(productAttributeValues.productId)
-        .having(sql`count(*) = ${attributeFilters.length}`)
-        .as("filtered_products");
-
-      query = query.innerJoin(subquery, eq(products.id, subquery.productId));
-    }
-
-    // Execute query
-    const productsList = await query
-      .orderBy(orderBy)
-      .limit(limit)
-      .offset(offset)
-      .all();
+    const productsList = await translateRecords(
+      db,
+      TranslatableEntity.PRODUCT,
+      await db
+        .select({
+          id: products.id,
+          name: products.name,
+          price: products.price,
+          slug: products.slug,
+          discountPercentage: products.discountPercentage,
+          freeDelivery: products.freeDelivery,
+          categoryId: products.categoryId,
+          createdAt: products.createdAt,
+          updatedAt: products.updatedAt,
+        })
+        .from(products)
+        .where(and(...conditions))
+        .orderBy(orderBy)
+        .limit(limit)
+        .offset(offset)
+        .all(),
+      locale,
+    );
 
     // Get primary images for products
     const productIds = productsList.map((p) => p.id);
@@ -316,6 +382,34 @@ app.get("/:slug/products", async (c) => {
       imageMap = new Map(images.map((img) => [img.productId, img.url]));
     }
 
+    // Each product carries its primary category, which may be another one
+    // than the listed category (a subcategory, or a secondary listing)
+    const categoryMap = new Map([[category.id, category]]);
+    const otherCategoryIds = [
+      ...new Set(productsList.map((p) => p.categoryId)),
+    ].filter((id) => !categoryMap.has(id));
+    if (otherCategoryIds.length > 0) {
+      const otherCategories = await translateRecords(
+        db,
+        TranslatableEntity.CATEGORY,
+        await db
+          .select({
+            id: categories.id,
+            name: categories.name,
+            slug: categories.slug,
+            description: categories.description,
+            imageUrl: categories.imageUrl,
+            metaTitle: categories.metaTitle,
+            metaDescription: categories.metaDescription,
+          })
+          .from(categories)
+          .where(inArray(categories.id, otherCategoryIds))
+          .all(),
+        locale,
+      );
+      otherCategories.forEach((other) => categoryMap.set(other.id, other));
+    }
+
     // Combine products with their images and add category info
     const productsWithImages = productsList.map((product) => ({
       ...product,
@@ -329,52 +423,17 @@ app.get("/:slug/products", async (c) => {
       updatedAt:
         unixToDate(product.updatedAt as unknown as number)?.toISOString() ||
         null,
-      category: {
-        id: category.id,
-        name: category.name,
-        slug: category.slug,
-        description: category.description,
-        imageUrl: category.imageUrl,
-        metaTitle: category.metaTitle,
-        metaDescription: category.metaDescription,
-      },
+      category: categoryMap.get(product.categoryId) || category,
     }));
 
-    // Get total count for pagination - need to apply same filters
-    let countQuery = db
-      .select({ count: sql<number>`count(*)` })
-      .from(products)
-      .where(and(...conditions));
-
-    if (attributeFilters.length > 0) {
-      const countSubquery = db
-        .select({ productId: productAttributeValues.productId })
-        .from(productAttributeValues)
-        .leftJoin(
-          productAttributes,
-          eq(productAttributeValues.attributeId, productAttributes.id),
-        )
-        .where(
-          or(
-            ...attributeFilters.map((filter) =>
-              and(
-                eq(productAttributes.slug, filter.slug),
-                eq(productAttributeValues.value, filter.value),
-              ),
-            ),
-          ),
-        )
-        .groupBy(productAttributeValues.productId)
-        .having(sql`count(*) = ${attributeFilters.length}`)
-        .as("count_filtered_products");
-
-      countQuery = countQuery.innerJoin(
-        countSubquery,
-        eq(products.id, countSubquery.productId),
-      );
-    }
-
-    const totalCount = await countQuery.get();
+    const [totalCount, facets] = await Promise.all([
+      db
+        .select({ count: sql<number>`count(*)` })
+        .from(products)
+        .where(and(...conditions))
+        .get(),
+      params.facets === "true" ? getProductFacets(db, filters) : undefined,
+    ]);
 
     return c.json({
       category,
@@ -386,14 +445,17 @@ app.get("/:slug/products", async (c) => {
         totalPages: Math.ceil((totalCount?.count || 0) / limit),
       },
       appliedFilters: {
-        attributes: attributeFilters,
+        attributes: filters.attributes,
         search,
         minPrice,
         maxPrice,
         freeDelivery,
         hasDiscount,
+        inStock,
+        includeDescendants: filters.includeDescendants,
         sort,
       },
+      ...(facets && { facets }),
     });
   } catch (error) {
     console.error("Error fetching category products:", error);
@@ -1,7 +1,18 @@
 import { Hono } from "hono";
-import { collections, products, categories } from "@/db/schema";
+import {
+  collections,
+  products,
+  categories,
+  TranslatableEntity,
+} from "@/db/schema";
 import { eq, isNull, and, inArray, desc, sql } from "drizzle-orm";
 import { cacheMiddleware } from "../middleware/cache";
+import { isInAnyCategory } from "@/lib/catalog/product-categories";
+import {
+  translateCollectionConfigs,
+  translateRecords,
+} from "@/lib/i18n/translations";
+import { convertPrices, PRODUCT_PRICE_FIELDS } from "@/lib/pricing/currency";
 
 // Create a Hono app for collection routes
 const app = new Hono<{ Bindings: Env }>();
@@ -61,9 +72,17 @@ app.get("/", async (c) => {
       .where(and(eq(collections.isActive, true), isNull(collections.deletedAt)))
       .orderBy(collections.sortOrder);
 
-    const formattedCollections = activeCollections.map((collection) => ({
+    const translatedCollections = await translateCollectionConfigs(
+      db,
+      activeCollections.map((collection) => ({
+        ...collection,
+        config: JSON.parse(collection.config),
+      })),
+      c.get("locale"),
+    );
+
+    const formattedCollections = translatedCollections.map((collection) => ({
       ...collection,
-      config: JSON.parse(collection.config),
       createdAt: formatTimestamp(
         collection.createdAt,
         collection.id,
@@ -93,6 +112,8 @@ app.get("/", async (c) => {
 app.get("/:id", async (c) => {
   try {
     const db = c.get("db");
+    const locale = c.get("locale");
+    const currency = c.get("currency");
     const id = c.req.param("id");
 
     // First, fetch the collection (sequential - needed to parse config)
@@ -112,8 +133,12 @@ app.get("/:id", async (c) => {
       return c.json({ error: "Collection not found" }, 404);
     }
 
-    // Parse the config
-    const config = JSON.parse(collection.config);
+    // Parse the config, with its title and subtitle translated
+    const [{ config }] = await translateCollectionConfigs(
+      db,
+      [{ id: collection.id, config: JSON.parse(collection.config) }],
+      locale,
+    );
 
     // Normalize config values
     const productIds: string[] = Array.isArray(config.productIds)
@@ -213,9 +238,21 @@ app.get("/:id", async (c) => {
         imageUrl: string | null;
       }[];
 
-      const featuredData = (batchResults[1] as typeof productsData)[0];
-
-      resolvedProducts = productsData.map((product) => ({
+      const [featuredData] = await translateRecords(
+        db,
+        TranslatableEntity.PRODUCT,
+        (batchResults[1] as typeof productsData).slice(0, 1),
+        locale,
+      );
+
+      resolvedProducts = (
+        await translateRecords(
+          db,
+          TranslatableEntity.PRODUCT,
+          productsData,
+          locale,
+        )
+      ).map((product) => ({
         ...product,
         imageUrl: product.imageUrl ?? null,
         discountedPrice: product.discountPercentage
@@ -277,7 +314,7 @@ app.get("/:id", async (c) => {
           .from(products)
           .where(
             and(
-              inArray(products.categoryId, categoryIds),
+              isInAnyCategory(categoryIds),
               isNull(products.deletedAt),
               eq(products.isActive, true),
             ),
@@ -332,10 +369,27 @@ app.get("/:id", async (c) => {
         imageUrl: string | null;
       }[];
 
-      const featuredData = (batchResults[2] as typeof productsData)[0];
-
-      resolvedCategories = categoriesData;
-      resolvedProducts = productsData.map((product) => ({
+      const [featuredData] = await translateRecords(
+        db,
+        TranslatableEntity.PRODUCT,
+        (batchResults[2] as typeof productsData).slice(0, 1),
+        locale,
+      );
+
+      resolvedCategories = await translateRecords(
+        db,
+        TranslatableEntity.CATEGORY,
+        categoriesData,
+        locale,
+      );
+      resolvedProducts = (
+        await translateRecords(
+          db,
+          TranslatableEntity.PRODUCT,
+          productsData,
+          locale,
+        )
+      ).map((product) => ({
         ...product,
         imageUrl: product.imageUrl ?? null,
         discountedPrice: product.discountPercentage
@@ -357,7 +411,7 @@ app.get("/:id", async (c) => {
       }
     } else if (hasFeaturedProduct) {
       // CASE 3: Only featured product (no productIds or categoryIds)
-      const featuredData = await db
+      const featuredRow = await db
         .select({
           id: products.id,
           name: products.name,
@@ -382,6 +436,12 @@ app.get("/:id", async (c) => {
           ),
         )
         .get();
+      const [featuredData] = await translateRecords(
+        db,
+        TranslatableEntity.PRODUCT,
+        featuredRow ? [featuredRow] : [],
+        locale,
+      );
 
       if (featuredData) {
         featuredProduct = {
@@ -417,9 +477,17 @@ app.get("/:id", async (c) => {
       // Categories only populated if productIds is empty
       categories: resolvedCategories,
       // Products already filtered and limited by backend
-      products: resolvedProducts,
+      products: resolvedProducts.map((product) =>
+        convertPrices(product, PRODUCT_PRICE_FIELDS, currency),
+      ),
       // Featured product (only for collection1 style)
-      ...(featuredProduct && { featuredProduct }),
+      ...(featuredProduct && {
+        featuredProduct: convertPrices(
+          featuredProduct,
+          PRODUCT_PRICE_FIELDS,
+          currency,
+        ),
+      }),
     });
   } catch (error) {
     console.error("Error fetching collection:", error);
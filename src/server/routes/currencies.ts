@@ -0,0 +1,39 @@
+import { Hono } from "hono";
+
+import { currencyDetails, getStoreCurrencies } from "@/lib/pricing/currency";
+import { cacheMiddleware } from "../middleware/cache";
+
+const app = new Hono<{ Bindings: Env }>();
+
+// Apply cache middleware
+app.use(
+  "*",
+  cacheMiddleware({
+    ttl: 0,
+    keyPrefix: "api:currencies:",
+    varyByQuery: false,
+    methods: ["GET"],
+  }),
+);
+
+// Currencies shoppers can pick with ?currency=, the base currency first
+app.get("/", async (c) => {
+  try {
+    const db = c.get("db");
+    const store = await getStoreCurrencies(db);
+
+    return c.json({
+      baseCurrency: store.base.code,
+      currencies: store.currencies.map((currency) => ({
+        ...currencyDetails(currency),
+        name: currency.name,
+        isBase: currency.isBase,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching currencies:", error);
+    return c.json({ error: "Failed to fetch currencies" }, 500);
+  }
+});
+
+export { app as currencyRoutes };
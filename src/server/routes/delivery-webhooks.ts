@@ -0,0 +1,99 @@
+import { Hono, type Context } from "hono";
+
+import {
+  applyCourierStatusUpdate,
+  findWebhookProvider,
+  parsePathaoWebhook,
+  parseSteadfastWebhook,
+  PATHAO_INTEGRATION_HEADER,
+  PATHAO_INTEGRATION_SECRET,
+} from "@/lib/delivery/webhooks";
+import type { WaitUntil } from "@/lib/webhooks/service";
+
+// Public courier status callbacks. Each provider authenticates with the
+// webhook secret configured on its delivery provider settings.
+const app = new Hono<{ Bindings: Env }>();
+
+// POST /delivery-webhooks/pathao - Pathao order status events
+app.post("/pathao", async (c) => {
+  // Pathao expects a 202 carrying its integration header for every accepted call
+  c.header(PATHAO_INTEGRATION_HEADER, PATHAO_INTEGRATION_SECRET);
+
+  try {
+    const provider = await findWebhookProvider(
+      "pathao",
+      c.req.header("X-PATHAO-Signature"),
+    );
+    if (!provider) {
+      return c.json(
+        { success: false, error: "Invalid webhook signature" },
+        401,
+      );
+    }
+
+    const body = await c.req.json().catch(() => null);
+
+    // Sent once when the webhook URL is saved in the Pathao merchant panel
+    if (body?.event === "webhook_integration") {
+      return c.json({ success: true }, 202);
+    }
+
+    const update = parsePathaoWebhook(body);
+    if (!update) {
+      return c.json({ success: false, error: "Invalid webhook payload" }, 400);
+    }
+
+    const result = await applyCourierStatusUpdate(
+      provider,
+      update,
+      getWaitUntil(c),
+    );
+
+    return c.json({ success: true, data: { matched: !!result } }, 202);
+  } catch (error) {
+    console.error("Error handling Pathao webhook:", error);
+    return c.json({ success: false, error: "Failed to process webhook" }, 500);
+  }
+});
+
+// POST /delivery-webhooks/steadfast - Steadfast delivery status and tracking updates
+app.post("/steadfast", async (c) => {
+  try {
+    const token = c.req.header("Authorization")?.replace(/^Bearer\s+/i, "");
+    const provider = await findWebhookProvider("steadfast", token);
+    if (!provider) {
+      return c.json({ status: "error", message: "Unauthorized" }, 401);
+    }
+
+    const update = parseSteadfastWebhook(await c.req.json().catch(() => null));
+    if (!update) {
+      return c.json({ status: "error", message: "Invalid payload" }, 400);
+    }
+
+    await applyCourierStatusUpdate(provider, update, getWaitUntil(c));
+
+    // Response shape from the Steadfast webhook documentation
+    return c.json({
+      status: "success",
+      message: "Webhook received successfully.",
+    });
+  } catch (error) {
+    console.error("Error handling Steadfast webhook:", error);
+    return c.json(
+      { status: "error", message: "Failed to process webhook" },
+      500,
+    );
+  }
+});
+
+// Hono throws when the runtime has no execution context (local Node runs)
+function getWaitUntil(c: Context): WaitUntil | undefined {
+  try {
+    const executionCtx = c.executionCtx;
+    return (promise) => executionCtx.waitUntil(promise);
+  } catch {
+    return undefined;
+  }
+}
+
+export { app as deliveryWebhookRoutes };
@@ -2,6 +2,7 @@ import { Hono } from "hono";
 import { db } from "@/db";
 import { siteSettings } from "@/db/schema";
 import { cacheMiddleware } from "../middleware/cache";
+import { translateNavigation } from "@/lib/i18n/translations";
 
 // Create a Hono app for footer routes
 const app = new Hono();
@@ -85,7 +86,7 @@ app.get("/", async (c) => {
       tagline: footerConfig.tagline || "",
       copyrightText:
         footerConfig.copyrightText || settings.siteName || "Your Store",
-      menus: footerConfig.menus || [],
+      menus: translateNavigation(footerConfig.menus || [], c.get("locale")),
       social: socialLinks,
       description: footerConfig.description || "",
     };
@@ -1,9 +1,15 @@
 import { Hono } from "hono";
 import { z } from "zod";
 import { db } from "@/db";
-import { categories, pages, siteSettings } from "@/db/schema";
+import {
+  categories,
+  pages,
+  siteSettings,
+  TranslatableEntity,
+} from "@/db/schema";
 import { sql, isNull } from "drizzle-orm";
 import { cacheMiddleware } from "../middleware/cache";
+import { translateNavigation, translateRecords } from "@/lib/i18n/translations";
 
 // Create a Hono app for navigation routes
 const app = new Hono();
@@ -54,6 +60,7 @@ app.get("/", async (c) => {
     // Parse and validate query parameters
     const params = navigationQuerySchema.parse(c.req.query());
     const { type } = params;
+    const locale = c.get("locale");
 
     // Get site settings from database
     const [settings] = await db.select().from(siteSettings).limit(1);
@@ -80,7 +87,7 @@ app.get("/", async (c) => {
       if (headerConfig && headerConfig.navigation) {
         navigationConfig = {
           ...navigationConfig,
-          header: headerConfig.navigation,
+          header: translateNavigation(headerConfig.navigation, locale),
         };
       }
     }
@@ -94,7 +101,7 @@ app.get("/", async (c) => {
       if (footerConfig && footerConfig.menus) {
         navigationConfig = {
           ...navigationConfig,
-          footer: footerConfig.menus,
+          footer: translateNavigation(footerConfig.menus, locale),
         };
       }
     }
@@ -102,27 +109,39 @@ app.get("/", async (c) => {
     // If no navigation config found, try to create a default one from categories and pages
     if (!navigationConfig || (type === "all" && !navigationConfig.header)) {
       // Fetch all active categories
-      const categoriesData = await db
-        .select({
-          id: categories.id,
-          name: categories.name,
-          slug: categories.slug,
-        })
-        .from(categories)
-        .where(isNull(categories.deletedAt))
-        .orderBy(categories.name);
+      const categoriesData = await translateRecords(
+        db,
+        TranslatableEntity.CATEGORY,
+        await db
+          .select({
+            id: categories.id,
+            name: categories.name,
+            slug: categories.slug,
+          })
+          .from(categories)
+          .where(isNull(categories.deletedAt))
+          .orderBy(categories.name),
+        locale,
+      );
 
       // Fetch all published pages
-      const pagesData = await db
-        .select({
-          id: pages.id,
-          title: pages.title,
-          slug: pages.slug,
-          isPublished: pages.isPublished,
-        })
-        .from(pages)
-        .where(sql`${pages.deletedAt} IS NULL AND ${pages.isPublished} = true`)
-        .orderBy(pages.title);
+      const pagesData = await translateRecords(
+        db,
+        TranslatableEntity.PAGE,
+        await db
+          .select({
+            id: pages.id,
+            title: pages.title,
+            slug: pages.slug,
+            isPublished: pages.isPublished,
+          })
+          .from(pages)
+          .where(
+            sql`${pages.deletedAt} IS NULL AND ${pages.isPublished} = true`,
+          )
+          .orderBy(pages.title),
+        locale,
+      );
 
       // Create default navigation items
       const defaultNavigation: NavigationItem[] = [
@@ -191,6 +210,7 @@ app.get("/", async (c) => {
 app.get("/:id", async (c) => {
   try {
     const id = c.req.param("id");
+    const locale = c.get("locale");
 
     // Get site settings from database
     const [settings] = await db.select().from(siteSettings).limit(1);
@@ -222,7 +242,7 @@ app.get("/:id", async (c) => {
         menu = {
           id: "header",
           name: "Header Navigation",
-          items: headerConfig.navigation,
+          items: translateNavigation(headerConfig.navigation, locale),
         };
       }
     }
@@ -234,7 +254,7 @@ app.get("/:id", async (c) => {
         menu = {
           id: "footer",
           name: "Footer Navigation",
-          items: footerConfig.menus,
+          items: translateNavigation(footerConfig.menus, locale),
         };
       } else {
         // Try to find a specific footer menu by ID
@@ -243,10 +263,11 @@ app.get("/:id", async (c) => {
         );
 
         if (footerMenu) {
+          const [translatedMenu] = translateNavigation([footerMenu], locale);
           menu = {
             id: footerMenu.id || id,
-            name: footerMenu.title,
-            items: footerMenu.links || [],
+            name: translatedMenu.title,
+            items: translatedMenu.links || [],
           };
         }
       }
@@ -1,4 +1,4 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 
 import {
   orders,
@@ -10,9 +10,11 @@ import {
   products,
   productImages,
   discountUsage,
-  discounts,
+  stockMovements,
+  OrderStatus,
+  StockMovementReason,
 } from "@/db/schema";
-import { eq, sql, and, isNull, desc, asc } from "drizzle-orm";
+import { eq, sql, and, isNull, desc, asc, inArray } from "drizzle-orm";
 import { z } from "zod";
 import { nanoid } from "nanoid";
 import { generateOrderId } from "@/lib/order-utils";
@@ -21,12 +23,62 @@ import {
   calculateCustomerStats,
 } from "@/lib/customer-utils";
 import { DeliveryService } from "@/lib/delivery/service";
+import { PaymentService } from "@/lib/payments/service";
+import { getAmountDue } from "@/lib/payments/balance";
+import { priceOrder, exceedsPriceTolerance } from "@/lib/pricing/order-pricing";
+import {
+  convertOrderPricing,
+  findCurrency,
+  getStoreCurrencies,
+  toBaseAmount,
+} from "@/lib/pricing/currency";
+import { toStockMovementRows } from "@/lib/inventory/ledger";
+import { alertLowStock } from "@/lib/inventory/low-stock-alerts";
+import { saveOrderItems, validateOrderItemEdit } from "@/lib/orders/items";
+import {
+  toStockItems,
+  withBundleComponents,
+  withBundleContents,
+} from "@/lib/catalog/bundles";
+import { SearchAnalyticsService } from "@/lib/search/analytics";
+import {
+  getOrderStockChanges,
+  OrderStatusService,
+} from "@/lib/orders/status";
+import {
+  ORDER_STATUS_VALUES,
+  OrderStatusErrorCode,
+} from "@/lib/orders/transitions";
+import type { WaitUntil } from "@/lib/webhooks/service";
+import {
+  emitCustomerCreated,
+  emitOrderCreated,
+  emitOrderStatusChanged,
+} from "@/lib/webhooks/events";
 import { cacheMiddleware } from "../middleware/cache";
 
 // Create a Hono app for order routes, typed with Env bindings
 const app = new Hono<{ Bindings: Env }>();
 const deliveryService = new DeliveryService();
 
+// Id of the authenticated API client, recorded as the actor of stock changes
+const getActorId = (c: { get: (key: "user") => any }): string | null =>
+  c.get("user")?.id ?? null;
+
+// HTTP status for a refused order status change or restore
+const getStatusErrorCode = (code?: OrderStatusErrorCode) =>
+  code === OrderStatusErrorCode.NOT_FOUND ? 404 : code ? 409 : 400;
+
+// Hono throws when the runtime has no execution context (local Node runs)
+const getWaitUntil = (c: Context): WaitUntil | undefined => {
+  try {
+    const executionCtx = c.executionCtx;
+    return (promise) => executionCtx.waitUntil(promise);
+  } catch {
+    return undefined;
+  }
+};
+
 // Helper function to convert Unix timestamp to Date
 const unixToDate = (timestamp: number | null): Date | null => {
   if (!timestamp) return null;
@@ -113,6 +165,9 @@ app.get("/", async (c) => {
         customerEmail: orders.customerEmail,
         totalAmount: orders.totalAmount,
         status: orders.status,
+        paymentStatus: orders.paymentStatus,
+        paymentMethod: orders.paymentMethod,
+        paidAmount: orders.paidAmount,
         createdAt: sql<number>`CAST(${orders.createdAt} AS INTEGER)`,
         updatedAt: sql<number>`CAST(${orders.updatedAt} AS INTEGER)`,
         customerId: orders.customerId,
@@ -167,6 +222,7 @@ app.get("/", async (c) => {
     // Format dates and add item counts (exclude totalCount from output)
     const formattedResults = results.map(({ totalCount, ...order }) => ({
       ...order,
+      amountDue: getAmountDue(order),
       createdAt: unixToDate(order.createdAt)?.toISOString() || null,
       updatedAt: unixToDate(order.updatedAt)?.toISOString() || null,
       itemCount: itemCountMap.get(order.id)?.count || 0,
@@ -226,6 +282,10 @@ app.get(
           zoneName: orders.zoneName,
           areaName: orders.areaName,
           status: orders.status,
+          paymentStatus: orders.paymentStatus,
+          paymentMethod: orders.paymentMethod,
+          paidAmount: orders.paidAmount,
+          refundedAmount: orders.refundedAmount,
           createdAt: sql<number>`CAST(${orders.createdAt} AS INTEGER)`,
           updatedAt: sql<number>`CAST(${orders.updatedAt} AS INTEGER)`,
         })
@@ -238,7 +298,7 @@ app.get(
       const order = orderResult[0];
 
       // Get order items with product and variant details
-      const items = await db
+      const itemRows = await db
         .select({
           id: orderItems.id,
           productId: orderItems.productId,
@@ -253,13 +313,15 @@ app.get(
             AND ${productImages.isPrimary} = 1
             LIMIT 1
           )`.as("productImage"),
-          variantSize: productVariants.size,
-          variantColor: productVariants.color,
+          variantOptions: productVariants.options,
+          bundleComponents: orderItems.bundleComponents,
         })
         .from(orderItems)
         .leftJoin(products, eq(products.id, orderItems.productId))
         .leftJoin(productVariants, eq(productVariants.id, orderItems.variantId))
         .where(eq(orderItems.orderId, id));
+      // Bundles list the variants they were sold with
+      const items = await withBundleContents(db, itemRows);
 
       // Get associated shipments using deliveryService
       const shipments = await deliveryService.getShipments(id);
@@ -267,14 +329,40 @@ app.get(
       // Get active delivery providers using deliveryService
       const activeProviders = await deliveryService.getActiveProviders();
 
+      // Get online payment attempts and the payment ledger
+      const paymentService = new PaymentService(db);
+      const [orderPayments, paymentEntries] = await Promise.all([
+        paymentService.getPayments(id),
+        paymentService.getEntries(id),
+      ]);
+
       // Format dates and add shipments/providers
       const formattedOrder = {
         ...order,
         createdAt: unixToDate(order.createdAt)?.toISOString() || null,
         updatedAt: unixToDate(order.updatedAt)?.toISOString() || null,
+        amountDue: getAmountDue(order),
         items,
         shipments,
         deliveryProviders: activeProviders,
+        paymentEntries: paymentEntries.map((entry) => ({
+          id: entry.id,
+          type: entry.type,
+          method: entry.method,
+          amount: entry.amount,
+          reference: entry.reference,
+          createdAt: entry.createdAt,
+        })),
+        payments: orderPayments.map((payment) => ({
+          id: payment.id,
+          providerType: payment.providerType,
+          amount: payment.amount,
+          currency: payment.currency,
+          status: payment.status,
+          transactionId: payment.transactionId,
+          paidAt: payment.paidAt,
+          createdAt: payment.createdAt,
+        })),
       };
 
       return c.json({ order: formattedOrder });
@@ -292,7 +380,7 @@ app.get("/:id/items", async (c) => {
     const id = c.req.param("id");
 
     // Get order items with product and variant details
-    const items = await db
+    const itemRows = await db
       .select({
         id: orderItems.id,
         productId: orderItems.productId,
@@ -307,13 +395,15 @@ app.get("/:id/items", async (c) => {
           AND ${productImages.isPrimary} = 1
           LIMIT 1
         )`.as("productImage"),
-        variantSize: productVariants.size,
-        variantColor: productVariants.color,
+        variantOptions: productVariants.options,
+        bundleComponents: orderItems.bundleComponents,
       })
       .from(orderItems)
       .leftJoin(products, eq(products.id, orderItems.productId))
       .leftJoin(productVariants, eq(productVariants.id, orderItems.variantId))
       .where(eq(orderItems.orderId, id));
+    // Bundles list the variants they were sold with
+    const items = await withBundleContents(db, itemRows);
 
     if (!items || items.length === 0) {
       // Return empty array if no items found, not an error
@@ -351,8 +441,7 @@ app.get("/products-for-form", async (c) => {
         .select({
           id: productVariants.id,
           productId: productVariants.productId,
-          size: productVariants.size,
-          color: productVariants.color,
+          options: productVariants.options,
           weight: productVariants.weight,
           sku: productVariants.sku,
           price: productVariants.price,
@@ -378,8 +467,7 @@ app.get("/products-for-form", async (c) => {
     const variants = batchResults[1] as {
       id: string;
       productId: string;
-      size: string | null;
-      color: string | null;
+      options: Record<string, string>;
       weight: number | null;
       sku: string;
       price: number;
@@ -455,11 +543,24 @@ const createOrderSchema = z.object({
     .min(0, "Discount must be greater than or equal to 0")
     .nullable(),
   discountCode: z.string().optional().nullable(),
+  discountCodes: z.array(z.string()).optional(),
+  shippingMethodId: z.string().optional().nullable(),
   shippingCharge: z
     .number()
     .min(0, "Shipping charge must be greater than or equal to 0"),
+  // X-Search-Id values of the searches that led to this order
+  searchIds: z.array(z.string()).max(20).optional(),
+  // Display currency the item prices and charges above are in. The order is
+  // still charged in the base currency.
+  currency: z.string().optional(),
 });
 
+// How to handle orders whose client totals disagree with the server price:
+// "reject" (default) refuses the order, "flag" accepts it at the server price
+// and leaves a note for the admin.
+const getPriceMismatchMode = (): "reject" | "flag" =>
+  process.env.ORDER_PRICE_MISMATCH_MODE === "flag" ? "flag" : "reject";
+
 // POST - Create a new order
 app.post("/", async (c) => {
   try {
@@ -468,50 +569,30 @@ app.post("/", async (c) => {
     const data = createOrderSchema.parse(json);
     const requestUrl = c.req.url;
 
-    // Calculate total amount strictly (server-side only)
-    const totalAmount =
-      data.items.reduce((sum, item) => sum + item.price * item.quantity, 0) +
-      data.shippingCharge -
-      (data.discountAmount || 0);
+    const store = await getStoreCurrencies(db);
+    let currency = c.get("currency") ?? store.base;
+    if (data.currency) {
+      const requested = findCurrency(store, data.currency);
+      if (!requested) {
+        throw new Error(
+          `VALIDATION_ERROR:Currency ${data.currency} is not available.`,
+        );
+      }
+      currency = requested;
+    }
 
     // ------------------------------------------------------------------
-    // 1. Batched Reads
-    // Fetch all necessary data in a single network roundtrip using db.batch()
+    // 1. Batched Reads + Server-side Pricing
+    // Prices, discounts and shipping come from the catalog, never the client.
     // ------------------------------------------------------------------
-    const variantIds = data.items
-      .map((item) => item.variantId)
-      .filter((id): id is string => id !== null);
-
     const locationIds = [data.city, data.zone, data.area].filter(Boolean);
 
     // Prepare read queries (without .get() or .all(), just the builder)
-    // Note: empty arrays for variants/locations need handling to avoid invalid SQL if empty
+    // Note: empty arrays for locations need handling to avoid invalid SQL if empty
 
     const readBatch: any[] = [];
 
-    // 1. Variants
-    if (variantIds.length > 0) {
-      readBatch.push(
-        db
-          .select({
-            id: productVariants.id,
-            stock: productVariants.stock,
-            price: productVariants.price,
-          })
-          .from(productVariants)
-          .where(
-            and(
-              sql`${productVariants.id} IN ${variantIds}`,
-              isNull(productVariants.deletedAt),
-            ),
-          ),
-      );
-    } else {
-      // Placeholder if no variants (unlikely but safe)
-      readBatch.push(db.select().from(productVariants).limit(0));
-    }
-
-    // 2. Locations
+    // 1. Locations
     if (locationIds.length > 0) {
       readBatch.push(
         db
@@ -528,7 +609,7 @@ app.post("/", async (c) => {
       readBatch.push(db.select().from(deliveryLocations).limit(0));
     }
 
-    // 3. Customer
+    // 2. Customer
     readBatch.push(
       db
         .select({
@@ -540,33 +621,29 @@ app.post("/", async (c) => {
         .where(eq(customers.phone, data.customerPhone)),
     );
 
-    // 4. Discount
-    if (data.discountCode) {
-      readBatch.push(
-        db
-          .select({ id: discounts.id })
-          .from(discounts)
-          .where(eq(discounts.code, data.discountCode)),
-      );
-    } else {
-      readBatch.push(db.select().from(discounts).limit(0));
-    }
-
-    // Execute Read Batch
-    const readResults = await db.batch(readBatch as [any, any, any, any]);
+    // Execute Read Batch alongside pricing
+    const [readResults, pricing] = await Promise.all([
+      db.batch(readBatch as [any, any]),
+      priceOrder(db, {
+        items: data.items,
+        shippingMethodId: data.shippingMethodId,
+        shippingCharge: toBaseAmount(data.shippingCharge, currency),
+        discountCodes: [
+          ...(data.discountCode ? [data.discountCode] : []),
+          ...(data.discountCodes ?? []),
+        ],
+        customerPhone: data.customerPhone,
+      }),
+    ]);
 
     // Unpack Results
-    const variants =
-      variantIds.length > 0
-        ? (readResults[0] as (typeof productVariants)[])
-        : [];
     const locationResults =
       locationIds.length > 0
-        ? (readResults[1] as (typeof deliveryLocations)[])
+        ? (readResults[0] as (typeof deliveryLocations)[])
         : [];
 
     // Handle customer (array of 0 or 1)
-    const customerList = readResults[2] as {
+    const customerList = readResults[1] as {
       id: string;
       totalOrders: number;
       totalSpent: number;
@@ -574,23 +651,47 @@ app.post("/", async (c) => {
     const existingCustomer =
       customerList.length > 0 ? customerList[0] : undefined;
 
-    // Handle discount
-    const discountList = data.discountCode
-      ? (readResults[3] as { id: string }[])
-      : [];
-    const appliedDiscount = discountList.length > 0 ? discountList[0] : null;
-
-    // Validation (Pre-Check)
-    const variantMap = new Map(variants.map((v: any) => [v.id, v]));
-    for (const item of data.items) {
-      if (item.variantId) {
-        const variant = variantMap.get(item.variantId);
-        if (!variant) {
-          throw new Error(
-            `VALIDATION_ERROR:Variant ${item.variantId} not found.`,
-          );
-        }
+    // Compare against what the client showed the customer, in the currency
+    // it was shown in. The tolerance stays worth the same in the base one.
+    const clientTotal =
+      data.items.reduce((sum, item) => sum + item.price * item.quantity, 0) +
+      data.shippingCharge -
+      (data.discountAmount || 0);
+    const totalAmount = pricing.totalAmount;
+    const shownPricing = convertOrderPricing(pricing, currency);
+    let pricingNote: string | null = null;
+
+    if (
+      exceedsPriceTolerance(
+        toBaseAmount(clientTotal, currency),
+        toBaseAmount(shownPricing.totalAmount, currency),
+      )
+    ) {
+      if (getPriceMismatchMode() === "reject") {
+        return c.json(
+          {
+            success: false,
+            error: {
+              code: "PRICE_MISMATCH",
+              message:
+                pricing.discountErrors[0]?.error ||
+                "Order total does not match current prices. Please review your cart.",
+              details: {
+                clientTotal,
+                serverTotal: shownPricing.totalAmount,
+                currency: currency.code,
+                pricing: shownPricing,
+              },
+            },
+          },
+          409,
+        );
       }
+
+      console.warn(
+        `Price mismatch for new order: client ${clientTotal}, server ${shownPricing.totalAmount} (${currency.code})`,
+      );
+      pricingNote = `[Price check] Client total ${currency.symbol}${clientTotal} differed from server total ${currency.symbol}${shownPricing.totalAmount}; charged server price.`;
     }
 
     // Process Location Data
@@ -613,30 +714,58 @@ app.post("/", async (c) => {
       : "cust_" + nanoid();
 
     const writeBatch: any[] = [];
-    const itemVariantChecks: { variantId: string; batchIndex: number }[] = [];
+    const itemVariantChecks: {
+      variantId: string;
+      quantity: number;
+      batchIndex: number;
+    }[] = [];
+
+    // A bundle without the components to make it cannot be sold
+    const unavailableBundle = pricing.lines.find(
+      (line) => line.bundleComponents && !line.inStock,
+    );
+    if (unavailableBundle) {
+      throw new Error(
+        `INSUFFICIENT_STOCK:Insufficient stock for ${unavailableBundle.productName}.`,
+      );
+    }
 
-    // A. Atomic Stock Decrement (Conditional Update)
-    for (const item of data.items) {
-      if (item.variantId) {
-        const stmt = db
-          .update(productVariants)
-          .set({
-            stock: sql`${productVariants.stock} - ${item.quantity}`,
-            updatedAt: sql`unixepoch()`,
-          })
-          .where(
-            and(
-              eq(productVariants.id, item.variantId),
-              sql`${productVariants.stock} >= ${item.quantity}`,
+    // Bundles take their components; a variant ordered more than once is
+    // checked against its total
+    const stockDecrements = [
+      ...toStockItems(pricing.lines)
+        .reduce(
+          (totals, item) =>
+            totals.set(
+              item.variantId,
+              (totals.get(item.variantId) || 0) + item.quantity,
             ),
-          );
+          new Map<string, number>(),
+        )
+        .entries(),
+    ].map(([variantId, quantity]) => ({ variantId, quantity }));
 
-        writeBatch.push(stmt);
-        itemVariantChecks.push({
-          variantId: item.variantId,
-          batchIndex: writeBatch.length - 1,
-        });
-      }
+    // A. Atomic Stock Decrement (Conditional Update)
+    for (const item of stockDecrements) {
+      const stmt = db
+        .update(productVariants)
+        .set({
+          stock: sql`${productVariants.stock} - ${item.quantity}`,
+          updatedAt: sql`unixepoch()`,
+        })
+        .where(
+          and(
+            eq(productVariants.id, item.variantId),
+            sql`${productVariants.stock} >= ${item.quantity}`,
+          ),
+        );
+
+      writeBatch.push(stmt);
+      itemVariantChecks.push({
+        variantId: item.variantId,
+        quantity: item.quantity,
+        batchIndex: writeBatch.length - 1,
+      });
     }
 
     // B. Customer Upsert
@@ -708,10 +837,16 @@ app.post("/", async (c) => {
       cityName,
       zoneName,
       areaName,
-      notes: data.notes,
+      notes: pricingNote
+        ? [pricingNote, data.notes].filter(Boolean).join("\n")
+        : data.notes,
       totalAmount,
-      shippingCharge: data.shippingCharge,
-      discountAmount: data.discountAmount || 0,
+      shippingCharge: pricing.shipping.charge,
+      discountAmount: pricing.discountAmount,
+      // Amounts stay in the base currency; the rate recreates what was shown
+      currency: store.base.code,
+      displayCurrency: currency.isBase ? null : currency.code,
+      exchangeRate: currency.exchangeRate,
       status: "pending" as const,
       customerId,
       createdAt: sql`unixepoch()`,
@@ -720,34 +855,52 @@ app.post("/", async (c) => {
 
     writeBatch.push(db.insert(orders).values(newOrderData));
 
-    // D. Create Order Items
-    if (data.items.length > 0) {
+    // D. Create Order Items (at server prices)
+    if (pricing.lines.length > 0) {
       writeBatch.push(
         db.insert(orderItems).values(
-          data.items.map((item) => ({
+          pricing.lines.map((line) => ({
             id: "item_" + nanoid(),
             orderId: orderId,
-            productId: item.productId,
-            variantId: item.variantId,
-            quantity: item.quantity,
-            price: item.price,
+            productId: line.productId,
+            variantId: line.variantId,
+            quantity: line.quantity,
+            price: line.unitPrice,
+            bundleComponents: line.bundleComponents,
             createdAt: sql`unixepoch()`,
           })),
         ),
       );
     }
 
-    // E. Log Discount Usage
-    if (appliedDiscount && data.discountAmount && data.discountAmount > 0) {
+    // E. Record Stock Movements
+    const saleMovements = toStockMovementRows(
+      itemVariantChecks.map((check) => ({
+        variantId: check.variantId,
+        delta: -check.quantity,
+        reason: StockMovementReason.SALE,
+        orderId,
+        actorId: getActorId(c),
+      })),
+    );
+    if (saleMovements.length > 0) {
+      writeBatch.push(db.insert(stockMovements).values(saleMovements));
+    }
+
+    // F. Log Discount Usage
+    const appliedDiscounts = pricing.discounts.filter((d) => d.amount > 0);
+    if (appliedDiscounts.length > 0) {
       writeBatch.push(
-        db.insert(discountUsage).values({
-          id: "du_" + nanoid(),
-          discountId: appliedDiscount.id,
-          orderId: orderId,
-          customerId: customerId,
-          amountDiscounted: data.discountAmount,
-          createdAt: sql`unixepoch()`,
-        }),
+        db.insert(discountUsage).values(
+          appliedDiscounts.map((discount) => ({
+            id: "du_" + nanoid(),
+            discountId: discount.id,
+            orderId: orderId,
+            customerId: customerId,
+            amountDiscounted: discount.amount,
+            createdAt: sql`unixepoch()`,
+          })),
+        ),
       );
     }
 
@@ -758,7 +911,8 @@ app.post("/", async (c) => {
     // ------------------------------------------------------------------
     // 3. Post-Write Validation (Stock Check & Compensation)
     // ------------------------------------------------------------------
-    const failedVariants = [];
+    const failedVariants: string[] = [];
+    const decremented: typeof itemVariantChecks = [];
 
     for (const check of itemVariantChecks) {
       const result = writeResults[check.batchIndex];
@@ -770,13 +924,15 @@ app.post("/", async (c) => {
         result.rowsAffected === 0
       ) {
         failedVariants.push(check.variantId);
+      } else {
+        decremented.push(check);
       }
     }
 
     if (failedVariants.length > 0) {
       // COMPENSATING TRANSACTION: Revert the order
-      // We must delete the order, items, and revert customer stats.
-      // Note: We don't need to revert stock because it wasn't changed.
+      // We must delete the order, items, and revert customer stats, and
+      // give back the stock of the decrements that did go through.
 
       console.warn(
         `Stock check failed for variants ${failedVariants.join(", ")}. Reverting order ${orderId}.`,
@@ -784,6 +940,23 @@ app.post("/", async (c) => {
 
       const compensationBatch: any[] = [];
 
+      for (const check of decremented) {
+        compensationBatch.push(
+          db
+            .update(productVariants)
+            .set({
+              stock: sql`${productVariants.stock} + ${check.quantity}`,
+              updatedAt: sql`unixepoch()`,
+            })
+            .where(eq(productVariants.id, check.variantId)),
+        );
+      }
+
+      // With the stock back, none of the order's movements happened
+      compensationBatch.push(
+        db.delete(stockMovements).where(eq(stockMovements.orderId, orderId)),
+      );
+
       // Delete Order & Items (Cascade usually handles items, but being explicit is safer)
       compensationBatch.push(
         db.delete(orderItems).where(eq(orderItems.orderId, orderId)),
@@ -816,7 +989,7 @@ app.post("/", async (c) => {
         );
       }
 
-      if (appliedDiscount && data.discountAmount && data.discountAmount > 0) {
+      if (appliedDiscounts.length > 0) {
         compensationBatch.push(
           db.delete(discountUsage).where(eq(discountUsage.orderId, orderId)),
         );
@@ -853,11 +1026,36 @@ app.post("/", async (c) => {
       ).catch((err) => console.error("Notification error:", err));
     }
 
+    // Outgoing webhooks run in the background; emitters never throw
+    const webhookTasks = Promise.all([
+      emitOrderCreated(db, orderId),
+      existingCustomer ? null : emitCustomerCreated(db, customerId),
+      alertLowStock(db, stockDecrements, { env: c.env }),
+    ]);
+    if (c.executionCtx) {
+      c.executionCtx.waitUntil(webhookTasks);
+    } else {
+      await webhookTasks;
+    }
+
+    // Credit the searches that led here in the search report
+    if (data.searchIds?.length) {
+      const conversion = new SearchAnalyticsService(db)
+        .recordConversion(data.searchIds, orderId)
+        .catch((err) => console.error("Search conversion error:", err));
+      if (c.executionCtx) {
+        c.executionCtx.waitUntil(conversion);
+      } else {
+        await conversion;
+      }
+    }
+
     return c.json(
       {
         success: true,
         data: {
           id: orderId,
+          totalAmount,
         },
       },
       201,
@@ -1013,7 +1211,11 @@ app.put("/:id", async (c) => {
 
     // Get existing order to check if it exists
     const existingOrder = await db
-      .select({ id: orders.id, customerId: orders.customerId })
+      .select({
+        id: orders.id,
+        customerId: orders.customerId,
+        status: orders.status,
+      })
       .from(orders)
       .where(and(eq(orders.id, id), isNull(orders.deletedAt)))
       .get();
@@ -1027,73 +1229,80 @@ app.put("/:id", async (c) => {
       );
     }
 
+    // A status change in the edit follows the same rules as PUT /:id/status
+    const orderStatusService = new OrderStatusService(db);
+    const nextStatus = data.status || existingOrder.status;
+    const transition = orderStatusService.checkTransition(
+      existingOrder.status,
+      nextStatus,
+    );
+    if (!transition.success) {
+      return c.json(
+        {
+          error: transition.message,
+          code: transition.code,
+          allowedStatuses: transition.allowedStatuses,
+        },
+        409,
+      );
+    }
+
     // Get existing items to calculate stock changes
     const existingItems = await db
       .select({
         id: orderItems.id,
+        productId: orderItems.productId,
         variantId: orderItems.variantId,
         quantity: orderItems.quantity,
+        bundleComponents: orderItems.bundleComponents,
       })
       .from(orderItems)
       .where(eq(orderItems.orderId, id));
 
-    // Create a map of variant ID to quantity for existing items
-    const existingItemMap = new Map();
-    existingItems.forEach((item) => {
-      if (item.variantId) {
-        existingItemMap.set(item.variantId, item.quantity);
-      }
-    });
+    // Bundles already on the order keep the components they were sold with
+    const items = await withBundleComponents(db, data.items, existingItems);
 
-    // Create a map of variant ID to quantity for new items
-    const newItemMap = new Map();
-    data.items.forEach((item) => {
-      if (item.variantId) {
-        newItemMap.set(
-          item.variantId,
-          (newItemMap.get(item.variantId) || 0) + item.quantity,
-        );
-      }
-    });
+    const itemError = await validateOrderItemEdit(
+      db,
+      id,
+      existingItems,
+      items,
+    );
+    if (itemError) {
+      return c.json({ error: itemError }, 409);
+    }
 
-    // Calculate stock changes
-    const stockChanges = new Map();
-
-    // First, restore stock for removed or reduced items
-    existingItemMap.forEach((quantity, variantId) => {
-      const newQuantity = newItemMap.get(variantId) || 0;
-      if (newQuantity < quantity) {
-        // Item was removed or quantity reduced, restore stock
-        stockChanges.set(
-          variantId,
-          (stockChanges.get(variantId) || 0) + (quantity - newQuantity),
-        );
-      }
-    });
+    // Net stock change per variant, including stock given back or taken
+    // again when the status is cancelled or reopened
+    const releasedItems = await orderStatusService.getReleasedItems(
+      id,
+      nextStatus,
+    );
+    const stockChanges = getOrderStockChanges(
+      { status: existingOrder.status, items: releasedItems },
+      { status: nextStatus, items },
+    );
 
-    // Then, reduce stock for new or increased items
-    newItemMap.forEach((quantity, variantId) => {
-      const existingQuantity = existingItemMap.get(variantId) || 0;
-      if (quantity > existingQuantity) {
-        // Item was added or quantity increased, reduce stock
-        stockChanges.set(
-          variantId,
-          (stockChanges.get(variantId) || 0) - (quantity - existingQuantity),
-        );
-      }
-    });
+    // Check every decrement before writing, so a rejected edit leaves
+    // stock untouched
+    const stockCheck = await orderStatusService.checkStock(stockChanges);
+    if (!stockCheck.success) {
+      return c.json({ error: stockCheck.message, code: stockCheck.code }, 409);
+    }
 
-    // Update product variant stock
-    for (const [variantId, change] of stockChanges.entries()) {
-      if (change !== 0) {
-        await db
-          .update(productVariants)
-          .set({
-            stock: sql`${productVariants.stock} + ${change}`,
-            updatedAt: sql`unixepoch()`,
-          })
-          .where(eq(productVariants.id, variantId));
-      }
+    const stockUpdate = await orderStatusService.applyStockChanges(
+      stockChanges,
+      {
+        orderId: id,
+        actorId: getActorId(c),
+        note: "Order items edited",
+      },
+    );
+    if (!stockUpdate.success) {
+      return c.json(
+        { error: stockUpdate.message, code: stockUpdate.code },
+        409,
+      );
     }
 
     // Update order
@@ -1119,23 +1328,10 @@ app.put("/:id", async (c) => {
       })
       .where(eq(orders.id, id));
 
-    // Delete existing order items
-    await db.delete(orderItems).where(eq(orderItems.orderId, id));
-
-    // Create new order items
-    if (data.items.length > 0) {
-      await db.insert(orderItems).values(
-        data.items.map((item) => ({
-          id: item.id || "item_" + nanoid(),
-          orderId: id,
-          productId: item.productId,
-          variantId: item.variantId,
-          quantity: item.quantity,
-          price: item.price,
-          createdAt: sql`unixepoch()`,
-        })),
-      );
-    }
+    // A new total changes what is still owed
+    await new PaymentService(db).syncOrderPaymentStatus(id);
+
+    await saveOrderItems(db, id, existingItems, items);
 
     // Update customer information if there is a customer associated with the order
     if (existingOrder.customerId) {
@@ -1143,6 +1339,7 @@ app.put("/:id", async (c) => {
       const customerOrders = await db
         .select({
           totalAmount: orders.totalAmount,
+          refundedAmount: orders.refundedAmount,
           createdAt: orders.createdAt,
         })
         .from(orders)
@@ -1187,6 +1384,22 @@ app.put("/:id", async (c) => {
       });
     }
 
+    const webhookTasks = Promise.all([
+      data.status
+        ? emitOrderStatusChanged(db, {
+            orderId: id,
+            previousStatus: existingOrder.status,
+            status: data.status,
+          })
+        : null,
+      alertLowStock(db, stockUpdate.data!, { env: c.env }),
+    ]);
+    if (c.executionCtx) {
+      c.executionCtx.waitUntil(webhookTasks);
+    } else {
+      await webhookTasks;
+    }
+
     return c.json({ id });
   } catch (error) {
     console.error("Error updating order:", error);
@@ -1240,36 +1453,10 @@ app.delete("/:id", async (c) => {
       );
     }
 
-    // Get order items to restore stock
-    const items = await db
-      .select({
-        variantId: orderItems.variantId,
-        quantity: orderItems.quantity,
-      })
-      .from(orderItems)
-      .where(eq(orderItems.orderId, id));
-
-    // Restore stock for all variants in the order
-    for (const item of items) {
-      if (item.variantId) {
-        // Update variant stock
-        await db
-          .update(productVariants)
-          .set({
-            stock: sql`${productVariants.stock} + ${item.quantity}`,
-            updatedAt: sql`unixepoch()`,
-          })
-          .where(eq(productVariants.id, item.variantId));
-      }
-    }
-
-    // Soft delete the order
-    await db
-      .update(orders)
-      .set({
-        deletedAt: sql`unixepoch()`,
-      })
-      .where(eq(orders.id, id));
+    // Soft delete the order, giving back its stock if it still holds any
+    await new OrderStatusService(db).softDelete([id], {
+      actorId: getActorId(c),
+    });
 
     return new Response(null, { status: 204 });
   } catch (error) {
@@ -1305,44 +1492,17 @@ app.post("/bulk-delete", async (c) => {
       );
     }
 
-    // Get all order items for the orders being deleted
-    const items = await db
-      .select({
-        variantId: orderItems.variantId,
-        quantity: orderItems.quantity,
-      })
-      .from(orderItems)
-      .where(sql`${orderItems.orderId} IN ${data.orderIds}`);
-
-    // Restore stock for all variants in the orders
-    for (const item of items) {
-      if (item.variantId) {
-        // Update variant stock
-        await db
-          .update(productVariants)
-          .set({
-            stock: sql`${productVariants.stock} + ${item.quantity}`,
-            updatedAt: sql`unixepoch()`,
-          })
-          .where(eq(productVariants.id, item.variantId));
-      }
-    }
-
+    // Stock is given back only for orders that still hold it, so orders
+    // already cancelled or in the trash are not restocked twice
+    const orderStatusService = new OrderStatusService(db);
     if (data.permanent) {
-      // Permanently delete orders
-      await db.delete(orders).where(sql`${orders.id} IN ${data.orderIds}`);
-      // Also delete order items
-      await db
-        .delete(orderItems)
-        .where(sql`${orderItems.orderId} IN ${data.orderIds}`);
+      await orderStatusService.permanentlyDelete(data.orderIds, {
+        actorId: getActorId(c),
+      });
     } else {
-      // Soft delete orders
-      await db
-        .update(orders)
-        .set({
-          deletedAt: sql`unixepoch()`,
-        })
-        .where(sql`${orders.id} IN ${data.orderIds}`);
+      await orderStatusService.softDelete(data.orderIds, {
+        actorId: getActorId(c),
+      });
     }
 
     return new Response(null, { status: 204 });
@@ -1382,53 +1542,19 @@ app.post("/:id/restore", async (c) => {
       );
     }
 
-    // Check if order exists and is actually deleted
-    const existingOrder = await db
-      .select({ id: orders.id, deletedAt: orders.deletedAt })
-      .from(orders)
-      .where(eq(orders.id, id))
-      .get();
-
-    if (!existingOrder) {
-      return c.json({ error: "Order not found" }, 404);
-    }
-
-    if (!existingOrder.deletedAt) {
-      return c.json({ error: "Order is not deleted" }, 400);
-    }
-
-    // Get order items to decrement stock
-    const itemsToRestore = await db
-      .select({
-        variantId: orderItems.variantId,
-        quantity: orderItems.quantity,
-      })
-      .from(orderItems)
-      .where(eq(orderItems.orderId, id));
+    // Restoring takes the order's stock again; refused when it is gone
+    const result = await new OrderStatusService(db).restore(id, {
+      actorId: getActorId(c),
+      waitUntil: getWaitUntil(c),
+    });
 
-    // Decrement stock for all variants in the order
-    // Important: Add checks here to ensure stock doesn't go negative if that's a business rule.
-    for (const item of itemsToRestore) {
-      if (item.variantId) {
-        await db
-          .update(productVariants)
-          .set({
-            stock: sql`${productVariants.stock} - ${item.quantity}`,
-            updatedAt: sql`unixepoch()`,
-          })
-          .where(eq(productVariants.id, item.variantId));
-      }
+    if (!result.success) {
+      return c.json(
+        { error: result.message, code: result.code },
+        getStatusErrorCode(result.code),
+      );
     }
 
-    // Restore order
-    await db
-      .update(orders)
-      .set({
-        deletedAt: null,
-        updatedAt: sql`unixepoch()`, // Also update the updatedAt timestamp
-      })
-      .where(eq(orders.id, id));
-
     return new Response(null, { status: 204 });
   } catch (error) {
     console.error("Error restoring order:", error);
@@ -1441,21 +1567,10 @@ app.post("/:id/restore", async (c) => {
   }
 });
 
-// Valid order statuses
-const ORDER_STATUSES = [
-  "pending",
-  "confirmed",
-  "processing",
-  "shipped",
-  "delivered",
-  "cancelled",
-  "refunded",
-] as const;
-
 const updateStatusSchema = z.object({
-  status: z.enum(ORDER_STATUSES, {
+  status: z.nativeEnum(OrderStatus, {
     errorMap: () => ({
-      message: `Status must be one of: ${ORDER_STATUSES.join(", ")}`,
+      message: `Status must be one of: ${ORDER_STATUS_VALUES.join(", ")}`,
     }),
   }),
 });
@@ -1477,14 +1592,22 @@ app.put("/:id/status", async (c) => {
     const json = await c.req.json();
     const { status } = updateStatusSchema.parse(json);
 
-    // Update order status
-    await db
-      .update(orders)
-      .set({
-        status,
-        updatedAt: sql`unixepoch()`,
-      })
-      .where(eq(orders.id, id));
+    // Checks the transition and gives back or takes stock as needed
+    const result = await new OrderStatusService(db).changeStatus(id, status, {
+      actorId: getActorId(c),
+      waitUntil: getWaitUntil(c),
+    });
+
+    if (!result.success) {
+      return c.json(
+        {
+          error: result.message,
+          code: result.code,
+          allowedStatuses: result.allowedStatuses,
+        },
+        getStatusErrorCode(result.code),
+      );
+    }
 
     return c.json({
       success: true,
@@ -1537,35 +1660,10 @@ app.delete("/:id/permanent", async (c) => {
       return c.json({ error: "Order not found" }, 404);
     }
 
-    // If the order was not already soft-deleted, restore stock first
-    if (existingOrder.deletedAt === null) {
-      const itemsToRestore = await db
-        .select({
-          variantId: orderItems.variantId,
-          quantity: orderItems.quantity,
-        })
-        .from(orderItems)
-        .where(eq(orderItems.orderId, id));
-
-      for (const item of itemsToRestore) {
-        if (item.variantId) {
-          await db
-            .update(productVariants)
-            .set({
-              stock: sql`${productVariants.stock} + ${item.quantity}`,
-              updatedAt: sql`unixepoch()`,
-            })
-            .where(eq(productVariants.id, item.variantId));
-        }
-      }
-      console.log(`Stock restored for order ${id} before permanent deletion.`);
-    }
-
-    // Delete order items first (foreign key constraint)
-    await db.delete(orderItems).where(eq(orderItems.orderId, id));
-
-    // Delete order
-    await db.delete(orders).where(eq(orders.id, id));
+    // If the order was not already soft-deleted, its stock is given back first
+    await new OrderStatusService(db).permanentlyDelete([id], {
+      actorId: getActorId(c),
+    });
 
     return new Response(null, { status: 204 });
   } catch (error) {
@@ -1,8 +1,9 @@
 import { Hono } from "hono";
 import { db } from "@/db";
-import { pages } from "@/db/schema";
+import { pages, TranslatableEntity } from "@/db/schema";
 import { sql, isNull, eq, and, SQL } from "drizzle-orm";
 import { cacheMiddleware } from "../middleware/cache";
+import { translateRecords } from "@/lib/i18n/translations";
 import { z } from "zod";
 
 // Create a Hono app for pages routes
@@ -115,7 +116,12 @@ app.get("/", async (c) => {
       .offset(offset);
 
     return c.json({
-      pages: pagesData,
+      pages: await translateRecords(
+        db,
+        TranslatableEntity.PAGE,
+        pagesData,
+        c.get("locale"),
+      ),
       pagination: {
         page,
         limit,
@@ -193,8 +199,15 @@ app.get("/slug/:slug", async (c) => {
       );
     }
 
+    const [translatedPage] = await translateRecords(
+      db,
+      TranslatableEntity.PAGE,
+      [page],
+      c.get("locale"),
+    );
+
     return c.json({
-      page,
+      page: translatedPage,
       success: true,
     });
   } catch (error) {
@@ -268,8 +281,15 @@ app.get("/:id", async (c) => {
       );
     }
 
+    const [translatedPage] = await translateRecords(
+      db,
+      TranslatableEntity.PAGE,
+      [page],
+      c.get("locale"),
+    );
+
     return c.json({
-      page,
+      page: translatedPage,
       success: true,
     });
   } catch (error) {
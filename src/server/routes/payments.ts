@@ -0,0 +1,187 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { zValidator } from "@hono/zod-validator";
+
+import { paymentProviders } from "@/db/schema";
+import type { Payment } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { PaymentService } from "@/lib/payments/service";
+import { authMiddleware } from "../middleware/auth";
+
+const app = new Hono<{ Bindings: Env }>();
+
+const initPaymentSchema = z.object({
+  orderId: z.string().min(1, "Order ID is required"),
+  providerId: z.string().min(1, "Payment provider is required"),
+  // Storefront page the customer lands on after the gateway
+  returnUrl: z.string().url().optional(),
+  // Partial (advance) payment; defaults to the balance due
+  amount: z.number().positive().optional(),
+});
+
+// Public view of a payment - never exposes gateway metadata
+const toPaymentSummary = (payment: Payment) => ({
+  id: payment.id,
+  orderId: payment.orderId,
+  providerType: payment.providerType,
+  amount: payment.amount,
+  currency: payment.currency,
+  status: payment.status,
+  transactionId: payment.transactionId,
+  paidAt: payment.paidAt,
+});
+
+// GET /payments/providers - Active payment providers for checkout
+app.get("/providers", async (c) => {
+  try {
+    const db = c.get("db");
+    const providers = await db
+      .select({
+        id: paymentProviders.id,
+        name: paymentProviders.name,
+        type: paymentProviders.type,
+      })
+      .from(paymentProviders)
+      .where(eq(paymentProviders.isActive, true));
+
+    return c.json({ success: true, data: { providers } });
+  } catch (error) {
+    console.error("Error fetching payment providers:", error);
+    return c.json(
+      { success: false, error: "Failed to fetch payment providers" },
+      500,
+    );
+  }
+});
+
+// POST /payments/init - Start an online payment for an order
+app.post(
+  "/init",
+  authMiddleware,
+  zValidator("json", initPaymentSchema),
+  async (c) => {
+    try {
+      const { orderId, providerId, returnUrl, amount } = c.req.valid("json");
+      const paymentService = new PaymentService(c.get("db"));
+
+      // Gateways call back to this API, not the storefront
+      const baseUrl =
+        process.env.PUBLIC_API_BASE_URL || new URL(c.req.url).origin;
+      const callbackUrl = `${baseUrl}/api/v1/payments/callback/${providerId}`;
+
+      const result = await paymentService.initiatePayment(
+        orderId,
+        providerId,
+        callbackUrl,
+        returnUrl,
+        amount,
+      );
+
+      if (!result.success) {
+        return c.json(
+          {
+            success: false,
+            error: { code: "PAYMENT_INIT_FAILED", message: result.message },
+          },
+          400,
+        );
+      }
+
+      return c.json({ success: true, data: result.data }, 201);
+    } catch (error) {
+      console.error("Error initiating payment:", error);
+      return c.json(
+        { success: false, error: "Failed to initiate payment" },
+        500,
+      );
+    }
+  },
+);
+
+// GET|POST /payments/callback/:providerId - Gateway redirect and IPN target
+app.on(["GET", "POST"], "/callback/:providerId", async (c) => {
+  const providerId = c.req.param("providerId");
+  const params: Record<string, string> = { ...c.req.query() };
+
+  try {
+    if (c.req.method === "POST") {
+      const body = await c.req.parseBody();
+      for (const [key, value] of Object.entries(body)) {
+        if (typeof value === "string") params[key] = value;
+      }
+    }
+
+    const paymentService = new PaymentService(c.get("db"));
+    const { payment, error } = await paymentService.handleCallback(
+      providerId,
+      params,
+    );
+
+    // Server-to-server notifications get a plain acknowledgement
+    if (params.ipn || !payment.returnUrl) {
+      return c.json({
+        success: !error,
+        data: toPaymentSummary(payment),
+        ...(error ? { error } : {}),
+      });
+    }
+
+    const redirectUrl = new URL(payment.returnUrl);
+    redirectUrl.searchParams.set("orderId", payment.orderId);
+    redirectUrl.searchParams.set("paymentId", payment.id);
+    redirectUrl.searchParams.set("paymentStatus", payment.status);
+    return c.redirect(redirectUrl.toString(), 302);
+  } catch (error) {
+    console.error(`Error handling payment callback for ${providerId}:`, error);
+    return c.json(
+      {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to process payment",
+      },
+      400,
+    );
+  }
+});
+
+// GET /payments/:id - Current payment status
+app.get("/:id", authMiddleware, async (c) => {
+  try {
+    const paymentService = new PaymentService(c.get("db"));
+    const payment = await paymentService.getPayment(c.req.param("id"));
+
+    if (!payment) {
+      return c.json({ success: false, error: "Payment not found" }, 404);
+    }
+
+    return c.json({ success: true, data: toPaymentSummary(payment) });
+  } catch (error) {
+    console.error("Error fetching payment:", error);
+    return c.json({ success: false, error: "Failed to fetch payment" }, 500);
+  }
+});
+
+// POST /payments/:id/verify - Re-check a payment with its gateway
+app.post("/:id/verify", authMiddleware, async (c) => {
+  try {
+    const paymentService = new PaymentService(c.get("db"));
+    const paymentId = c.req.param("id");
+
+    if (!(await paymentService.getPayment(paymentId))) {
+      return c.json({ success: false, error: "Payment not found" }, 404);
+    }
+
+    const { payment, error } = await paymentService.verifyPayment(paymentId);
+
+    return c.json({
+      success: !error,
+      data: toPaymentSummary(payment),
+      ...(error ? { error } : {}),
+    });
+  } catch (error) {
+    console.error("Error verifying payment:", error);
+    return c.json({ success: false, error: "Failed to verify payment" }, 500);
+  }
+});
+
+export { app as paymentRoutes };
@@ -10,12 +10,63 @@ import {
   productAttributes,
   productAttributeValues,
   productRichContent,
+  SearchQuerySource,
+  TranslatableEntity,
+  ProductType,
 } from "@/db/schema";
-import { eq, sql, and, isNull, desc, like, inArray, or } from "drizzle-orm";
+import { eq, sql, and, isNull, desc, like, inArray } from "drizzle-orm";
 import { cacheMiddleware } from "../middleware/cache";
+import { searchAnalyticsMiddleware } from "../middleware/search-analytics";
+import { calculateDiscountedPrice } from "@/lib/pricing/product-price";
+import {
+  buildProductConditions,
+  getAttributeFilters,
+  parseBooleanFilter,
+  type ProductFilters,
+} from "@/lib/catalog/filters";
+import { getProductFacets } from "@/lib/catalog/facets";
+import { getCategoryBreadcrumbs } from "@/lib/catalog/category-tree";
+import { getProductCategories } from "@/lib/catalog/product-categories";
+import {
+  getProductOptions,
+  toOptionDefinitions,
+  type ProductOptionDetails,
+} from "@/lib/catalog/product-options";
+import { compareByOptions } from "@/lib/catalog/variant-options";
+import { getRecommendations } from "@/lib/catalog/recommendations";
+import { getBundleContents } from "@/lib/catalog/bundles";
+import {
+  getVariantImageLinks,
+  imagesForVariant,
+  linkedOptionValues,
+  type VariantImageLink,
+} from "@/lib/catalog/variant-images";
+import { translateRecords } from "@/lib/i18n/translations";
+import {
+  convertPriceFacet,
+  convertPrices,
+  PRODUCT_PRICE_FIELDS,
+  toBaseAmount,
+  type StoreCurrency,
+} from "@/lib/pricing/currency";
+import {
+  getRatingBreakdown,
+  getRatingSummaries,
+  ratingOf,
+} from "@/lib/reviews/ratings";
 
 const app = new Hono();
 
+// Listing searches (?search=) are logged with the storefront search ones
+app.use(
+  "/",
+  searchAnalyticsMiddleware({
+    source: SearchQuerySource.PRODUCTS,
+    queryParam: "search",
+    countResults: (body) => body.pagination?.total || 0,
+  }),
+);
+
 app.use(
   "*",
   cacheMiddleware({
@@ -30,6 +81,8 @@ app.use(
 
 const productFilterSchema = z.object({
   category: z.string().optional(),
+  // Also list products from the category's subcategories
+  includeDescendants: z.enum(["true", "false"]).optional(),
   search: z.string().optional(),
   page: z.coerce.number().optional().default(1),
   limit: z.coerce.number().optional().default(20),
@@ -48,7 +101,9 @@ const productFilterSchema = z.object({
   maxPrice: z.coerce.number().optional(),
   freeDelivery: z.enum(["true", "false"]).optional(),
   hasDiscount: z.enum(["true", "false"]).optional(),
+  inStock: z.enum(["true", "false"]).optional(),
   ids: z.string().optional(),
+  facets: z.enum(["true", "false"]).optional(),
 });
 
 const productSearchSchema = z.object({
@@ -79,22 +134,10 @@ function extractFeatures(description: string | null): string[] {
   return features;
 }
 
-function calculateDiscountedPrice(
-  price: number,
-  discountType: string | null,
-  discountPercentage: number | null,
-  discountAmount: number | null,
-): number {
-  if (discountType === "flat" && discountAmount) {
-    return Math.max(0, Math.round(price - discountAmount));
-  } else if (discountType === "percentage" && discountPercentage) {
-    return Math.round(price * (1 - discountPercentage / 100));
-  }
-  return price;
-}
-
 app.get("/", async (c) => {
   try {
+    const locale = c.get("locale");
+    const currency = c.get("currency");
     const params = productFilterSchema.parse(c.req.query());
     const {
       category,
@@ -106,58 +149,26 @@ app.get("/", async (c) => {
       maxPrice,
       freeDelivery,
       hasDiscount,
+      inStock,
       ids,
     } = params;
 
-    const queryParams = c.req.query();
-    const allAttributes = await db
-      .select({ slug: productAttributes.slug })
-      .from(productAttributes);
-    const validAttributeSlugs = new Set(allAttributes.map((a) => a.slug));
-    const attributeFilters: { slug: string; value: string }[] = [];
-
-    for (const key in queryParams) {
-      if (validAttributeSlugs.has(key)) {
-        const value = queryParams[key];
-        if (value) {
-          attributeFilters.push({ slug: key, value });
-        }
-      }
-    }
-
-    const conditions = [
-      eq(products.isActive, true),
-      isNull(products.deletedAt),
-    ];
-
-    if (category) {
-      conditions.push(eq(products.categoryId, category));
-    }
-    if (search) {
-      conditions.push(like(products.name, `%${search}%`));
-    }
-    if (minPrice !== undefined) {
-      conditions.push(sql`${products.price} >= ${minPrice}`);
-    }
-    if (maxPrice !== undefined) {
-      conditions.push(sql`${products.price} <= ${maxPrice}`);
-    }
-    if (freeDelivery === "true") {
-      conditions.push(eq(products.freeDelivery, true));
-    } else if (freeDelivery === "false") {
-      conditions.push(eq(products.freeDelivery, false));
-    }
-    if (hasDiscount === "true") {
-      conditions.push(sql`${products.discountPercentage} > 0`);
-    } else if (hasDiscount === "false") {
-      conditions.push(
-        sql`${products.discountPercentage} = 0 OR ${products.discountPercentage} IS NULL`,
-      );
-    }
-    if (ids) {
-      const productIds = ids.split(",");
-      conditions.push(inArray(products.id, productIds));
-    }
+    const filters: ProductFilters = {
+      categoryId: category,
+      includeDescendants: params.includeDescendants === "true",
+      search,
+      // Entered in the display currency
+      minPrice:
+        minPrice === undefined ? undefined : toBaseAmount(minPrice, currency),
+      maxPrice:
+        maxPrice === undefined ? undefined : toBaseAmount(maxPrice, currency),
+      freeDelivery: parseBooleanFilter(freeDelivery),
+      hasDiscount: parseBooleanFilter(hasDiscount),
+      inStock: parseBooleanFilter(inStock),
+      ids: ids ? ids.split(",") : undefined,
+      attributes: await getAttributeFilters(db, c.req.query()),
+    };
+    const conditions = buildProductConditions(filters);
 
     let orderBy;
     if (sort === "price-asc") {
@@ -178,7 +189,7 @@ app.get("/", async (c) => {
 
     const offset = (page - 1) * limit;
 
-    let query = db
+    const query = db
       .select({
         id: products.id,
         name: products.name,
@@ -225,36 +236,12 @@ app.get("/", async (c) => {
         products.updatedAt,
       );
 
-    if (attributeFilters.length > 0) {
-      const subquery = db
-        .select({ productId: productAttributeValues.productId })
-        .from(productAttributeValues)
-        .leftJoin(
-          productAttributes,
-          eq(productAttributeValues.attributeId, productAttributes.id),
-        )
-        .where(
-          or(
-            ...attributeFilters.map((filter) =>
-              and(
-                eq(productAttributes.slug, filter.slug),
-                eq(productAttributeValues.value, filter.value),
-              ),
-            ),
-          ),
-        )
-        .groupBy(productAttributeValues.productId)
-        .having(sql`count(*) = ${attributeFilters.length}`)
-        .as("filtered_products");
-
-      query = query.innerJoin(subquery, eq(products.id, subquery.productId));
-    }
-
-    const productsList = await query
-      .orderBy(orderBy)
-      .limit(limit)
-      .offset(offset)
-      .all();
+    const productsList = await translateRecords(
+      db,
+      TranslatableEntity.PRODUCT,
+      await query.orderBy(orderBy).limit(limit).offset(offset).all(),
+      locale,
+    );
 
     const productIds = productsList.map((p) => p.id);
 
@@ -279,72 +266,60 @@ app.get("/", async (c) => {
         ...new Set(productsList.map((p) => p.categoryId).filter(Boolean)),
       ] as string[];
       if (categoryIds.length > 0) {
-        const categoriesData = await db
-          .select({
-            id: categories.id,
-            name: categories.name,
-            slug: categories.slug,
-          })
-          .from(categories)
-          .where(inArray(categories.id, categoryIds))
-          .all();
+        const categoriesData = await translateRecords(
+          db,
+          TranslatableEntity.CATEGORY,
+          await db
+            .select({
+              id: categories.id,
+              name: categories.name,
+              slug: categories.slug,
+            })
+            .from(categories)
+            .where(inArray(categories.id, categoryIds))
+            .all(),
+          locale,
+        );
         categoryMap = new Map(categoriesData.map((cat) => [cat.id, cat]));
       }
     }
 
+    const ratings = await getRatingSummaries(db, productIds);
+
     const productsWithImages = productsList.map(
-      ({ variantCount, ...product }) => ({
-        ...product,
-        // --- FIX: Convert the variantCount to a boolean for the final JSON response. ---
-        hasVariants: variantCount > 0,
-        imageUrl: imageMap.get(product.id) || null,
-        category: product.categoryId
-          ? categoryMap.get(product.categoryId) || null
-          : null,
-        createdAt: unixToDate(product.createdAt)?.toISOString() || null,
-        updatedAt: unixToDate(product.updatedAt)?.toISOString() || null,
-        discountedPrice: calculateDiscountedPrice(
-          product.price,
-          product.discountType,
-          product.discountPercentage,
-          product.discountAmount,
+      ({ variantCount, ...product }) =>
+        convertPrices(
+          {
+            ...product,
+            // --- FIX: Convert the variantCount to a boolean for the final JSON response. ---
+            hasVariants: variantCount > 0,
+            imageUrl: imageMap.get(product.id) || null,
+            rating: ratingOf(ratings, product.id),
+            category: product.categoryId
+              ? categoryMap.get(product.categoryId) || null
+              : null,
+            createdAt: unixToDate(product.createdAt)?.toISOString() || null,
+            updatedAt: unixToDate(product.updatedAt)?.toISOString() || null,
+            discountedPrice: calculateDiscountedPrice(
+              product.price,
+              product.discountType,
+              product.discountPercentage,
+              product.discountAmount,
+            ),
+          },
+          PRODUCT_PRICE_FIELDS,
+          currency,
         ),
-      }),
     );
 
-    let countQuery = db
-      .select({ count: sql<number>`count(*)` })
-      .from(products)
-      .where(and(...conditions));
-
-    if (attributeFilters.length > 0) {
-      const countSubquery = db
-        .select({ productId: productAttributeValues.productId })
-        .from(productAttributeValues)
-        .leftJoin(
-          productAttributes,
-          eq(productAttributeValues.attributeId, productAttributes.id),
-        )
-        .where(
-          or(
-            ...attributeFilters.map((filter) =>
-              and(
-                eq(productAttributes.slug, filter.slug),
-                eq(productAttributeValues.value, filter.value),
-              ),
-            ),
-          ),
-        )
-        .groupBy(productAttributeValues.productId)
-        .having(sql`count(*) = ${attributeFilters.length}`)
-        .as("count_filtered_products");
-      countQuery = countQuery.innerJoin(
-        countSubquery,
-        eq(products.id, countSubquery.productId),
-      );
-    }
-
-    const totalCount = await countQuery.get();
+    const [totalCount, facets] = await Promise.all([
+      db
+        .select({ count: sql<number>`count(*)` })
+        .from(products)
+        .where(and(...conditions))
+        .get(),
+      params.facets === "true" ? getProductFacets(db, filters) : undefined,
+    ]);
 
     return c.json({
       products: productsWithImages,
@@ -354,6 +329,12 @@ app.get("/", async (c) => {
         total: totalCount?.count || 0,
         totalPages: Math.ceil((totalCount?.count || 0) / limit),
       },
+      ...(facets && {
+        facets: {
+          ...facets,
+          price: convertPriceFacet(facets.price, currency),
+        },
+      }),
     });
   } catch (error) {
     console.error("Error fetching products:", error);
@@ -361,13 +342,93 @@ app.get("/", async (c) => {
   }
 });
 
+// Number of related products shown with a product
+const RELATED_PRODUCTS_LIMIT = 6;
+
+/**
+ * Listed products in the given order, with what product cards show: primary
+ * image, discounted price and rating
+ */
+async function getProductCards(
+  productIds: string[],
+  locale: string | null,
+  currency: StoreCurrency | null,
+) {
+  if (productIds.length === 0) return [];
+
+  const rows = await db
+    .select({
+      id: products.id,
+      name: products.name,
+      price: products.price,
+      slug: products.slug,
+      discountType: products.discountType,
+      discountPercentage: products.discountPercentage,
+      discountAmount: products.discountAmount,
+      freeDelivery: products.freeDelivery,
+    })
+    .from(products)
+    .where(
+      and(
+        inArray(products.id, productIds),
+        eq(products.isActive, true),
+        isNull(products.deletedAt),
+      ),
+    )
+    .all();
+  if (rows.length === 0) return [];
+
+  const [cards, images, ratings] = await Promise.all([
+    translateRecords(db, TranslatableEntity.PRODUCT, rows, locale),
+    db
+      .select({
+        productId: productImages.productId,
+        url: productImages.url,
+      })
+      .from(productImages)
+      .where(
+        and(
+          inArray(productImages.productId, productIds),
+          eq(productImages.isPrimary, true),
+        ),
+      )
+      .all(),
+    getRatingSummaries(db, productIds),
+  ]);
+
+  const imageMap = new Map(images.map((img) => [img.productId, img.url]));
+  const position = new Map(productIds.map((id, index) => [id, index]));
+
+  return cards
+    .sort((a, b) => position.get(a.id)! - position.get(b.id)!)
+    .map((card) =>
+      convertPrices(
+        {
+          ...card,
+          imageUrl: imageMap.get(card.id) || null,
+          rating: ratingOf(ratings, card.id),
+          discountedPrice: calculateDiscountedPrice(
+            card.price,
+            card.discountType,
+            card.discountPercentage,
+            card.discountAmount,
+          ),
+        },
+        PRODUCT_PRICE_FIELDS,
+        currency,
+      ),
+    );
+}
+
 // ... (The rest of the file remains unchanged as it was already correct)
 app.get("/:slug", async (c) => {
   try {
+    const locale = c.get("locale");
+    const currency = c.get("currency");
     const slug = c.req.param("slug");
 
     // 1. Fetch the product first, as other queries depend on it
-    const product = await db
+    const baseProduct = await db
       .select({
         id: products.id,
         name: products.name,
@@ -381,6 +442,7 @@ app.get("/:slug", async (c) => {
         discountPercentage: products.discountPercentage,
         discountAmount: products.discountAmount,
         freeDelivery: products.freeDelivery,
+        type: products.type,
         isActive: products.isActive,
         deletedAt: sql<number | null>`CAST(${products.deletedAt} AS INTEGER)`,
         createdAt: sql<number>`CAST(${products.createdAt} AS INTEGER)`,
@@ -396,9 +458,15 @@ app.get("/:slug", async (c) => {
       )
       .get();
 
-    if (!product) {
+    if (!baseProduct) {
       return c.json({ error: "Product not found" }, 404);
     }
+    const [product] = await translateRecords(
+      db,
+      TranslatableEntity.PRODUCT,
+      [baseProduct],
+      locale,
+    );
 
     // --- PARALLEL QUERY EXECUTION START ---
     // Fetch all related data in parallel using Promise.all
@@ -431,8 +499,7 @@ app.get("/:slug", async (c) => {
         .select({
           id: productVariants.id,
           productId: productVariants.productId,
-          size: productVariants.size,
-          color: productVariants.color,
+          options: productVariants.options,
           weight: productVariants.weight,
           sku: productVariants.sku,
           price: productVariants.price,
@@ -440,8 +507,6 @@ app.get("/:slug", async (c) => {
           discountType: productVariants.discountType,
           discountPercentage: productVariants.discountPercentage,
           discountAmount: productVariants.discountAmount,
-          colorSortOrder: productVariants.colorSortOrder,
-          sizeSortOrder: productVariants.sizeSortOrder,
           createdAt: sql<number>`CAST(${productVariants.createdAt} AS INTEGER)`,
           updatedAt: sql<number>`CAST(${productVariants.updatedAt} AS INTEGER)`,
           deletedAt: sql<
@@ -455,15 +520,27 @@ app.get("/:slug", async (c) => {
             isNull(productVariants.deletedAt),
           ),
         )
-        .orderBy(
-          productVariants.colorSortOrder,
-          productVariants.sizeSortOrder,
-          productVariants.createdAt,
-        )
+        .orderBy(productVariants.createdAt)
         .all()
         .then((res) => ({ type: "variants", data: res })),
     );
 
+    // 2b. Variant Options Promise
+    promises.push(
+      getProductOptions(db, [product.id]).then((res) => ({
+        type: "options",
+        data: res.get(product.id) || [],
+      })),
+    );
+
+    // 2c. Variant Image Links Promise
+    promises.push(
+      getVariantImageLinks(db, product.id).then((res) => ({
+        type: "imageLinks",
+        data: res,
+      })),
+    );
+
     // 3. Category Promise (Conditional)
     if (product.categoryId) {
       promises.push(
@@ -480,10 +557,43 @@ app.get("/:slug", async (c) => {
           .from(categories)
           .where(eq(categories.id, product.categoryId))
           .get()
-          .then((res) => ({ type: "category", data: res })),
+          .then((res) =>
+            translateRecords(
+              db,
+              TranslatableEntity.CATEGORY,
+              res ? [res] : [],
+              locale,
+            ),
+          )
+          .then(([res]) => ({ type: "category", data: res })),
+      );
+    }
+
+    // 3b. Breadcrumbs Promise (Conditional)
+    if (product.categoryId) {
+      promises.push(
+        getCategoryBreadcrumbs(db, product.categoryId)
+          .then((res) =>
+            translateRecords(db, TranslatableEntity.CATEGORY, res, locale),
+          )
+          .then((res) => ({ type: "breadcrumbs", data: res })),
       );
     }
 
+    // 3c. All Categories Promise
+    promises.push(
+      getProductCategories(db, [product.id])
+        .then((res) =>
+          translateRecords(
+            db,
+            TranslatableEntity.CATEGORY,
+            res.get(product.id) || [],
+            locale,
+          ),
+        )
+        .then((res) => ({ type: "categories", data: res })),
+    );
+
     // 4. Additional Info Promise
     promises.push(
       db
@@ -495,77 +605,23 @@ app.get("/:slug", async (c) => {
         .from(productRichContent)
         .where(eq(productRichContent.productId, product.id))
         .orderBy(productRichContent.sortOrder)
+        .then((res) =>
+          translateRecords(
+            db,
+            TranslatableEntity.PRODUCT_RICH_CONTENT,
+            res,
+            locale,
+          ),
+        )
         .then((res) => ({ type: "additionalInfo", data: res })),
     );
 
-    // 5. Related Products Promise (Conditional)
-    if (product.categoryId) {
-      // We do fetch related products AND their images. Ideally this should be one structure.
-      // For simplicity and strictly parallel, we can execute the full related logic inside one promise wrapper.
-      // But since we can't easily query related images without the related product IDs,
-      // we'll keep the logic contained.
-
-      const relatedLogic = async () => {
-        const relatedProds = await db
-          .select({
-            id: products.id,
-            name: products.name,
-            price: products.price,
-            slug: products.slug,
-            discountType: products.discountType,
-            discountPercentage: products.discountPercentage,
-            discountAmount: products.discountAmount,
-            freeDelivery: products.freeDelivery,
-          })
-          .from(products)
-          .where(
-            and(
-              eq(products.categoryId, product.categoryId!),
-              eq(products.isActive, true),
-              isNull(products.deletedAt),
-              sql`${products.id} != ${product.id}`,
-            ),
-          )
-          .limit(6)
-          .all();
-
-        if (relatedProds.length === 0) return [];
-
-        const relatedProductIds = relatedProds.map((p) => p.id);
-        const relatedProductImages = await db
-          .select({
-            productId: productImages.productId,
-            url: productImages.url,
-          })
-          .from(productImages)
-          .where(
-            and(
-              inArray(productImages.productId, relatedProductIds),
-              eq(productImages.isPrimary, true),
-            ),
-          )
-          .all();
-
-        const relatedImageMap = new Map(
-          relatedProductImages.map((img) => [img.productId, img.url]),
-        );
-
-        return relatedProds.map((relatedProduct) => ({
-          ...relatedProduct,
-          imageUrl: relatedImageMap.get(relatedProduct.id) || null,
-          discountedPrice: calculateDiscountedPrice(
-            relatedProduct.price,
-            relatedProduct.discountType,
-            relatedProduct.discountPercentage,
-            relatedProduct.discountAmount,
-          ),
-        }));
-      };
-
-      promises.push(
-        relatedLogic().then((res) => ({ type: "relatedProducts", data: res })),
-      );
-    }
+    // 5. Related Products Promise (picked in the admin, then similar ones)
+    promises.push(
+      getRecommendations(db, product.id, RELATED_PRODUCTS_LIMIT)
+        .then(({ related }) => getProductCards(related, locale, currency))
+        .then((res) => ({ type: "relatedProducts", data: res })),
+    );
 
     // 6. Attributes Promise
     promises.push(
@@ -588,22 +644,74 @@ app.get("/:slug", async (c) => {
         .then((res) => ({ type: "attributes", data: res })),
     );
 
+    // 7. Rating Promise (approved reviews only)
+    promises.push(
+      getRatingBreakdown(db, product.id).then((res) => ({
+        type: "rating",
+        data: res,
+      })),
+    );
+
+    // 8. Bundle Contents Promise (Conditional)
+    if (product.type === ProductType.BUNDLE) {
+      promises.push(
+        getBundleContents(db, product.id)
+          .then(async (bundle) => {
+            const names = await translateRecords(
+              db,
+              TranslatableEntity.PRODUCT,
+              bundle.items.map((item) => ({
+                id: item.productId,
+                name: item.productName,
+              })),
+              locale,
+            );
+            return {
+              ...bundle,
+              items: bundle.items.map((item, index) => ({
+                ...item,
+                productName: names[index].name,
+              })),
+            };
+          })
+          .then((res) => ({ type: "bundle", data: res })),
+      );
+    }
+
     // --- EXECUTE ALL ---
     const results = await Promise.all(promises);
 
     // --- EXTRACT RESULTS ---
     const images =
       (results.find((r) => r.type === "images")?.data as any[]) || [];
-    const variants =
-      (results.find((r) => r.type === "variants")?.data as any[]) || [];
+    const optionDetails =
+      (results.find((r) => r.type === "options")
+        ?.data as ProductOptionDetails[]) || [];
+    const variantOptions = toOptionDefinitions(optionDetails);
+    const imageLinks =
+      (results.find((r) => r.type === "imageLinks")
+        ?.data as VariantImageLink[]) || [];
+    const imageIds = images.map((img) => img.id as string);
+    const variants = (
+      (results.find((r) => r.type === "variants")?.data as any[]) || []
+    ).sort(compareByOptions(variantOptions));
     const category =
       (results.find((r) => r.type === "category")?.data as any) || null;
+    const breadcrumbs =
+      (results.find((r) => r.type === "breadcrumbs")?.data as any[]) || [];
+    const productCategoryList =
+      (results.find((r) => r.type === "categories")?.data as any[]) || [];
     const additionalInfo =
       (results.find((r) => r.type === "additionalInfo")?.data as any[]) || [];
     const formattedRelatedProducts =
       (results.find((r) => r.type === "relatedProducts")?.data as any[]) || [];
     const assignedAttributes =
       (results.find((r) => r.type === "attributes")?.data as any[]) || [];
+    const rating = results.find((r) => r.type === "rating")?.data;
+    const bundle =
+      (results.find((r) => r.type === "bundle")?.data as Awaited<
+        ReturnType<typeof getBundleContents>
+      >) || null;
 
     const hasVariants = variants.length > 0;
 
@@ -611,6 +719,12 @@ app.get("/:slug", async (c) => {
       variants.length > 0
         ? variants.map((variant) => ({
             ...variant,
+            imageIds: imagesForVariant(
+              variant,
+              optionDetails,
+              imageLinks,
+              imageIds,
+            ),
             createdAt: unixToDate(variant.createdAt)?.toISOString() || null,
             updatedAt: unixToDate(variant.updatedAt)?.toISOString() || null,
             deletedAt: variant.deletedAt
@@ -621,12 +735,13 @@ app.get("/:slug", async (c) => {
             {
               id: "default",
               productId: product.id,
-              size: null,
-              color: null,
+              options: {},
+              imageIds: [],
               weight: null,
               sku: `SKU-${product.id}`,
               price: product.price,
-              stock: 100,
+              // A bundle has as many as its components make
+              stock: bundle ? bundle.availableQuantity : 100,
               discountType: "percentage",
               discountPercentage: 0,
               discountAmount: 0,
@@ -639,35 +754,51 @@ app.get("/:slug", async (c) => {
     const features = extractFeatures(product.description);
 
     return c.json({
-      product: {
-        ...product,
-        hasVariants,
-        createdAt: unixToDate(product.createdAt)?.toISOString() || null,
-        updatedAt: unixToDate(product.updatedAt)?.toISOString() || null,
-        deletedAt: product.deletedAt
-          ? unixToDate(product.deletedAt)?.toISOString()
-          : null,
-        discountType: product.discountType || "percentage",
-        discountPercentage: product.discountPercentage || 0,
-        discountAmount: product.discountAmount || 0,
-        freeDelivery: product.freeDelivery || false,
-        features,
-        discountedPrice: calculateDiscountedPrice(
-          product.price,
-          product.discountType,
-          product.discountPercentage,
-          product.discountAmount,
-        ),
-        attributes: assignedAttributes,
-        additionalInfo: additionalInfo,
-      },
+      product: convertPrices(
+        {
+          ...product,
+          hasVariants,
+          createdAt: unixToDate(product.createdAt)?.toISOString() || null,
+          updatedAt: unixToDate(product.updatedAt)?.toISOString() || null,
+          deletedAt: product.deletedAt
+            ? unixToDate(product.deletedAt)?.toISOString()
+            : null,
+          discountType: product.discountType || "percentage",
+          discountPercentage: product.discountPercentage || 0,
+          discountAmount: product.discountAmount || 0,
+          freeDelivery: product.freeDelivery || false,
+          features,
+          discountedPrice: calculateDiscountedPrice(
+            product.price,
+            product.discountType,
+            product.discountPercentage,
+            product.discountAmount,
+          ),
+          attributes: assignedAttributes,
+          additionalInfo: additionalInfo,
+          rating,
+          bundle,
+        },
+        PRODUCT_PRICE_FIELDS,
+        currency,
+      ),
       category,
+      categories: productCategoryList,
+      breadcrumbs,
       images: images.map((img) => ({
         ...img,
         createdAt: unixToDate(img.createdAt)?.toISOString() || null,
         alt: img.alt || product.name,
+        // Variants and option values the image shows
+        variantIds: imageLinks
+          .filter((link) => link.imageId === img.id && link.variantId)
+          .map((link) => link.variantId),
+        options: linkedOptionValues(img.id, optionDetails, imageLinks),
       })),
-      variants: formattedVariants,
+      variants: formattedVariants.map((variant) =>
+        convertPrices(variant, PRODUCT_PRICE_FIELDS, currency),
+      ),
+      options: variantOptions,
       relatedProducts: formattedRelatedProducts,
     });
   } catch (error) {
@@ -690,6 +821,59 @@ app.get("/:slug", async (c) => {
   }
 });
 
+const recommendationsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(20).optional().default(8),
+});
+
+// "Frequently bought together" and related products for a product page
+app.get("/:slug/recommendations", async (c) => {
+  try {
+    const { limit } = recommendationsQuerySchema.parse(c.req.query());
+    const product = await db
+      .select({ id: products.id })
+      .from(products)
+      .where(
+        and(
+          eq(products.slug, c.req.param("slug")),
+          eq(products.isActive, true),
+          isNull(products.deletedAt),
+        ),
+      )
+      .get();
+
+    if (!product) {
+      return c.json({ error: "Product not found" }, 404);
+    }
+
+    const locale = c.get("locale");
+    const currency = c.get("currency");
+    const { frequentlyBoughtTogether, related } = await getRecommendations(
+      db,
+      product.id,
+      limit,
+    );
+    const [togetherCards, relatedCards] = await Promise.all([
+      getProductCards(frequentlyBoughtTogether, locale, currency),
+      getProductCards(related, locale, currency),
+    ]);
+
+    return c.json({
+      frequentlyBoughtTogether: togetherCards,
+      related: relatedCards,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { error: "Invalid parameters", details: error.errors },
+        400,
+      );
+    }
+
+    console.error("Error fetching product recommendations:", error);
+    return c.json({ error: "Failed to fetch recommendations" }, 500);
+  }
+});
+
 app.get("/:productId/variants", async (c) => {
   try {
     const productId = c.req.param("productId");
@@ -697,8 +881,7 @@ app.get("/:productId/variants", async (c) => {
       .select({
         id: productVariants.id,
         productId: productVariants.productId,
-        size: productVariants.size,
-        color: productVariants.color,
+        options: productVariants.options,
         weight: productVariants.weight,
         sku: productVariants.sku,
         price: productVariants.price,
@@ -706,8 +889,6 @@ app.get("/:productId/variants", async (c) => {
         discountType: productVariants.discountType,
         discountPercentage: productVariants.discountPercentage,
         discountAmount: productVariants.discountAmount,
-        colorSortOrder: productVariants.colorSortOrder,
-        sizeSortOrder: productVariants.sizeSortOrder,
         createdAt: sql<number>`CAST(${productVariants.createdAt} AS INTEGER)`,
         updatedAt: sql<number>`CAST(${productVariants.updatedAt} AS INTEGER)`,
       })
@@ -718,20 +899,27 @@ app.get("/:productId/variants", async (c) => {
           isNull(productVariants.deletedAt),
         ),
       )
-      .orderBy(
-        productVariants.colorSortOrder,
-        productVariants.sizeSortOrder,
-        productVariants.createdAt,
-      )
+      .orderBy(productVariants.createdAt)
       .all();
 
-    const formattedVariants = variants.map((variant) => ({
-      ...variant,
-      createdAt: unixToDate(variant.createdAt)?.toISOString() || null,
-      updatedAt: unixToDate(variant.updatedAt)?.toISOString() || null,
-    }));
+    const options = toOptionDefinitions(
+      (await getProductOptions(db, [productId])).get(productId) || [],
+    );
+    variants.sort(compareByOptions(options));
+
+    const formattedVariants = variants.map((variant) =>
+      convertPrices(
+        {
+          ...variant,
+          createdAt: unixToDate(variant.createdAt)?.toISOString() || null,
+          updatedAt: unixToDate(variant.updatedAt)?.toISOString() || null,
+        },
+        PRODUCT_PRICE_FIELDS,
+        c.get("currency"),
+      ),
+    );
 
-    return c.json({ variants: formattedVariants });
+    return c.json({ variants: formattedVariants, options });
   } catch (error) {
     console.error("Error fetching product variants:", error);
     return c.json({ error: "Failed to fetch product variants" }, 500);
@@ -740,6 +928,8 @@ app.get("/:productId/variants", async (c) => {
 
 app.get("/category/:categorySlug", async (c) => {
   try {
+    const locale = c.get("locale");
+    const currency = c.get("currency");
     const categorySlug = c.req.param("categorySlug");
     const params = productFilterSchema.parse(c.req.query());
     const {
@@ -751,9 +941,10 @@ app.get("/category/:categorySlug", async (c) => {
       maxPrice,
       freeDelivery,
       hasDiscount,
+      inStock,
     } = params;
 
-    const category = await db
+    const baseCategory = await db
       .select({
         id: categories.id,
         name: categories.name,
@@ -769,37 +960,31 @@ app.get("/category/:categorySlug", async (c) => {
       )
       .get();
 
-    if (!category) {
+    if (!baseCategory) {
       return c.json({ error: "Category not found" }, 404);
     }
+    const [category] = await translateRecords(
+      db,
+      TranslatableEntity.CATEGORY,
+      [baseCategory],
+      locale,
+    );
 
-    const conditions = [
-      eq(products.isActive, true),
-      isNull(products.deletedAt),
-      eq(products.categoryId, category.id),
-    ];
-
-    if (search) {
-      conditions.push(like(products.name, `%${search}%`));
-    }
-    if (minPrice !== undefined) {
-      conditions.push(sql`${products.price} >= ${minPrice}`);
-    }
-    if (maxPrice !== undefined) {
-      conditions.push(sql`${products.price} <= ${maxPrice}`);
-    }
-    if (freeDelivery === "true") {
-      conditions.push(eq(products.freeDelivery, true));
-    } else if (freeDelivery === "false") {
-      conditions.push(eq(products.freeDelivery, false));
-    }
-    if (hasDiscount === "true") {
-      conditions.push(sql`${products.discountPercentage} > 0`);
-    } else if (hasDiscount === "false") {
-      conditions.push(
-        sql`${products.discountPercentage} = 0 OR ${products.discountPercentage} IS NULL`,
-      );
-    }
+    const filters: ProductFilters = {
+      categoryId: category.id,
+      includeDescendants: params.includeDescendants === "true",
+      search,
+      // Entered in the display currency
+      minPrice:
+        minPrice === undefined ? undefined : toBaseAmount(minPrice, currency),
+      maxPrice:
+        maxPrice === undefined ? undefined : toBaseAmount(maxPrice, currency),
+      freeDelivery: parseBooleanFilter(freeDelivery),
+      hasDiscount: parseBooleanFilter(hasDiscount),
+      inStock: parseBooleanFilter(inStock),
+      attributes: await getAttributeFilters(db, c.req.query()),
+    };
+    const conditions = buildProductConditions(filters);
 
     let orderBy;
     if (sort === "price-asc") {
@@ -826,23 +1011,28 @@ app.get("/category/:categorySlug", async (c) => {
 
     const offset = (page - 1) * limit;
 
-    const productsList = await db
-      .select({
-        id: products.id,
-        name: products.name,
-        price: products.price,
-        slug: products.slug,
-        discountType: products.discountType,
-        discountPercentage: products.discountPercentage,
-        discountAmount: products.discountAmount,
-        freeDelivery: products.freeDelivery,
-      })
-      .from(products)
-      .where(and(...conditions))
-      .orderBy(orderBy)
-      .limit(limit)
-      .offset(offset)
-      .all();
+    const productsList = await translateRecords(
+      db,
+      TranslatableEntity.PRODUCT,
+      await db
+        .select({
+          id: products.id,
+          name: products.name,
+          price: products.price,
+          slug: products.slug,
+          discountType: products.discountType,
+          discountPercentage: products.discountPercentage,
+          discountAmount: products.discountAmount,
+          freeDelivery: products.freeDelivery,
+        })
+        .from(products)
+        .where(and(...conditions))
+        .orderBy(orderBy)
+        .limit(limit)
+        .offset(offset)
+        .all(),
+      locale,
+    );
 
     const productIds = productsList.map((p) => p.id);
     const images = await db
@@ -860,32 +1050,43 @@ app.get("/category/:categorySlug", async (c) => {
       .all();
 
     const imageMap = new Map(images.map((img) => [img.productId, img.url]));
+    const ratings = await getRatingSummaries(db, productIds);
 
-    const productsWithImages = productsList.map((product) => ({
-      ...product,
-      imageUrl: imageMap.get(product.id) || null,
-      discountedPrice: calculateDiscountedPrice(
-        product.price,
-        product.discountType,
-        product.discountPercentage,
-        product.discountAmount,
+    const productsWithImages = productsList.map((product) =>
+      convertPrices(
+        {
+          ...product,
+          imageUrl: imageMap.get(product.id) || null,
+          rating: ratingOf(ratings, product.id),
+          discountedPrice: calculateDiscountedPrice(
+            product.price,
+            product.discountType,
+            product.discountPercentage,
+            product.discountAmount,
+          ),
+          category: {
+            id: category.id,
+            name: category.name,
+            slug: category.slug,
+            description: category.description,
+            imageUrl: category.imageUrl,
+            metaTitle: category.metaTitle,
+            metaDescription: category.metaDescription,
+          },
+        },
+        PRODUCT_PRICE_FIELDS,
+        currency,
       ),
-      category: {
-        id: category.id,
-        name: category.name,
-        slug: category.slug,
-        description: category.description,
-        imageUrl: category.imageUrl,
-        metaTitle: category.metaTitle,
-        metaDescription: category.metaDescription,
-      },
-    }));
+    );
 
-    const totalCount = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(products)
-      .where(and(...conditions))
-      .get();
+    const [totalCount, facets] = await Promise.all([
+      db
+        .select({ count: sql<number>`count(*)` })
+        .from(products)
+        .where(and(...conditions))
+        .get(),
+      params.facets === "true" ? getProductFacets(db, filters) : undefined,
+    ]);
 
     return c.json({
       products: productsWithImages,
@@ -895,6 +1096,12 @@ app.get("/category/:categorySlug", async (c) => {
         total: totalCount?.count || 0,
         totalPages: Math.ceil((totalCount?.count || 0) / limit),
       },
+      ...(facets && {
+        facets: {
+          ...facets,
+          price: convertPriceFacet(facets.price, currency),
+        },
+      }),
     });
   } catch (error) {
     console.error("Error fetching products by category:", error);
@@ -919,6 +1126,7 @@ app.get("/search", async (c) => {
     }
 
     const { search, page, limit } = validation.data;
+    const locale = c.get("locale");
     const offset = (page - 1) * limit;
 
     const whereConditions = [
@@ -935,7 +1143,7 @@ app.get("/search", async (c) => {
       .from(products)
       .where(and(...whereConditions));
 
-    const results = await db
+    const rows = await db
       .select({
         id: products.id,
         name: products.name,
@@ -956,6 +1164,12 @@ app.get("/search", async (c) => {
       .orderBy(desc(products.updatedAt))
       .limit(limit)
       .offset(offset);
+    const results = await translateRecords(
+      db,
+      TranslatableEntity.PRODUCT,
+      rows,
+      locale,
+    );
 
     const productIds = results.map((p) => p.id);
     const variants =
@@ -964,8 +1178,7 @@ app.get("/search", async (c) => {
             .select({
               id: productVariants.id,
               productId: productVariants.productId,
-              size: productVariants.size,
-              color: productVariants.color,
+              options: productVariants.options,
               weight: productVariants.weight,
               sku: productVariants.sku,
               price: productVariants.price,
@@ -973,8 +1186,6 @@ app.get("/search", async (c) => {
               discountType: productVariants.discountType,
               discountPercentage: productVariants.discountPercentage,
               discountAmount: productVariants.discountAmount,
-              colorSortOrder: productVariants.colorSortOrder,
-              sizeSortOrder: productVariants.sizeSortOrder,
             })
             .from(productVariants)
             .where(
@@ -983,16 +1194,23 @@ app.get("/search", async (c) => {
                 isNull(productVariants.deletedAt),
               ),
             )
-            .orderBy(
-              productVariants.colorSortOrder,
-              productVariants.sizeSortOrder,
-              productVariants.createdAt,
-            )
+            .orderBy(productVariants.createdAt)
         : [];
+    const optionsByProduct = await getProductOptions(db, productIds);
 
+    const currency = c.get("currency");
     const productsWithVariants = results.map((product) => ({
-      ...product,
-      variants: variants.filter((v) => v.productId === product.id),
+      ...convertPrices(product, PRODUCT_PRICE_FIELDS, currency),
+      variants: variants
+        .filter((v) => v.productId === product.id)
+        .sort(
+          compareByOptions(
+            toOptionDefinitions(optionsByProduct.get(product.id) || []),
+          ),
+        )
+        .map((variant) =>
+          convertPrices(variant, PRODUCT_PRICE_FIELDS, currency),
+        ),
     }));
 
     const totalPages = Math.ceil(count / limit);
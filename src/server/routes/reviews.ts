@@ -0,0 +1,223 @@
+import { Hono } from "hono";
+import { z } from "zod";
+
+import { products } from "@/db/schema";
+import { phoneNumberSchema } from "@/lib/customer-utils";
+import { rateLimit } from "@/lib/rate-limit";
+import { getRatingBreakdown } from "@/lib/reviews/ratings";
+import { MAX_REVIEW_IMAGES, ReviewService } from "@/lib/reviews/service";
+import { uploadFile } from "@/lib/storage";
+import { cacheMiddleware } from "../middleware/cache";
+import { and, eq, isNull, or } from "drizzle-orm";
+
+const app = new Hono<{ Bindings: Env }>();
+
+// Only the approved reviews listing is cached; moderating a review clears it
+app.use(
+  "/products/*",
+  cacheMiddleware({
+    ttl: 3600,
+    keyPrefix: "api:reviews:",
+    varyByQuery: true,
+    methods: ["GET"],
+  }),
+);
+
+// Reviewers rarely review more than a handful of products at once
+const submitLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5, // 5 reviews per hour
+  keyPrefix: "reviews",
+});
+
+const imageLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 20, // 20 images per hour
+  keyPrefix: "review-images",
+});
+
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB
+// Photos only: no SVG, which could carry scripts
+const ALLOWED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+const reviewsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(10),
+  sort: z
+    .enum(["newest", "oldest", "highest", "lowest"])
+    .optional()
+    .default("newest"),
+  rating: z.coerce.number().int().min(1).max(5).optional(),
+  withImages: z.enum(["true", "false"]).optional(),
+});
+
+const submitReviewSchema = z.object({
+  productId: z.string().min(1, "Product is required"),
+  customerName: z.string().trim().min(2, "Name is required").max(100),
+  customerPhone: phoneNumberSchema,
+  rating: z.number().int().min(1).max(5),
+  title: z.string().trim().max(150).optional().nullable(),
+  body: z
+    .string()
+    .trim()
+    .min(10, "Review must be at least 10 characters")
+    .max(2000),
+  images: z.array(z.string().url()).max(MAX_REVIEW_IMAGES).optional(),
+  // Honeypot: hidden in the storefront form, so only bots fill it
+  website: z.string().optional().nullable(),
+});
+
+function clientIp(headers: Headers) {
+  return (
+    headers.get("cf-connecting-ip") ||
+    headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+    null
+  );
+}
+
+// Approved reviews of a product, by product ID or slug, with its ratings
+app.get("/products/:product", async (c) => {
+  try {
+    const db = c.get("db");
+    const params = reviewsQuerySchema.parse(c.req.query());
+    const idOrSlug = c.req.param("product");
+
+    const product = await db
+      .select({ id: products.id })
+      .from(products)
+      .where(
+        and(
+          or(eq(products.id, idOrSlug), eq(products.slug, idOrSlug)),
+          eq(products.isActive, true),
+          isNull(products.deletedAt),
+        ),
+      )
+      .get();
+
+    if (!product) {
+      return c.json({ success: false, error: "Product not found" }, 404);
+    }
+
+    const [rating, { reviews, total }] = await Promise.all([
+      getRatingBreakdown(db, product.id),
+      new ReviewService(db).getApprovedReviews(product.id, {
+        ...params,
+        withImages: params.withImages === "true",
+      }),
+    ]);
+
+    return c.json({
+      success: true,
+      rating,
+      reviews,
+      pagination: {
+        page: params.page,
+        limit: params.limit,
+        total,
+        totalPages: Math.ceil(total / params.limit),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Invalid parameters", details: error.errors },
+        400,
+      );
+    }
+
+    console.error("Error fetching reviews:", error);
+    return c.json({ success: false, error: "Failed to fetch reviews" }, 500);
+  }
+});
+
+// Submit a review. It is shown once approved in the admin.
+app.post("/", async (c) => {
+  try {
+    try {
+      await submitLimiter.check(c.req.raw);
+    } catch (error) {
+      return c.json(
+        {
+          error: "Too many reviews. Please try again later.",
+          success: false,
+        },
+        429,
+      );
+    }
+
+    const data = submitReviewSchema.parse(await c.req.json());
+    const result = await new ReviewService(c.get("db")).submitReview({
+      ...data,
+      ipAddress: clientIp(c.req.raw.headers),
+    });
+
+    if (!result.success) {
+      return c.json({ success: false, error: result.message }, 400);
+    }
+
+    // Whether the purchase was verified is left out: it would tell anyone
+    // with a phone number what that customer bought. The badge shows on the
+    // review once it is approved.
+    return c.json({ success: true, message: result.message }, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        { success: false, error: "Invalid review", details: error.errors },
+        400,
+      );
+    }
+
+    console.error("Error submitting review:", error);
+    return c.json({ success: false, error: "Failed to submit review" }, 500);
+  }
+});
+
+// Upload one review photo to R2. The returned URL goes in the review's
+// images; photos no review uses are deleted after a day.
+app.post("/images", async (c) => {
+  try {
+    try {
+      await imageLimiter.check(c.req.raw);
+    } catch (error) {
+      return c.json(
+        {
+          error: "Too many uploads. Please try again later.",
+          success: false,
+        },
+        429,
+      );
+    }
+
+    const formData = await c.req.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return c.json({ success: false, error: "No file provided" }, 400);
+    }
+    if (!ALLOWED_IMAGE_TYPES.includes(file.type.toLowerCase())) {
+      return c.json(
+        { success: false, error: "Only JPEG, PNG and WebP images are allowed" },
+        400,
+      );
+    }
+    if (file.size > MAX_IMAGE_SIZE) {
+      return c.json(
+        { success: false, error: "Images must be 5MB or smaller" },
+        400,
+      );
+    }
+
+    const uploaded = await uploadFile(file);
+    await new ReviewService(c.get("db")).recordImageUpload({
+      key: uploaded.key,
+      url: uploaded.url,
+      ipAddress: clientIp(c.req.raw.headers),
+    });
+    return c.json({ success: true, url: uploaded.url }, 201);
+  } catch (error) {
+    console.error("Error uploading review image:", error);
+    return c.json({ success: false, error: "Failed to upload image" }, 500);
+  }
+});
+
+export { app as reviewRoutes };
@@ -1,12 +1,44 @@
 import { Hono } from "hono";
 import { z } from "zod";
-import { search, indexAllData } from "@/lib/search/index";
+import { db } from "@/db";
+import { SearchQuerySource, TranslatableEntity } from "@/db/schema";
+import {
+  search,
+  suggest,
+  indexAllData,
+  type SearchResults,
+} from "@/lib/search/index";
+import {
+  SearchAnalyticsService,
+  searchClickSchema,
+} from "@/lib/search/analytics";
 import { cacheMiddleware } from "../middleware/cache";
+import { authMiddleware } from "../middleware/auth";
+import { searchAnalyticsMiddleware } from "../middleware/search-analytics";
 import { rateLimit } from "@/lib/rate-limit";
+import { translateRecords } from "@/lib/i18n/translations";
+import {
+  convertPrices,
+  toBaseAmount,
+  type StoreCurrency,
+} from "@/lib/pricing/currency";
 
 // Create a Hono app for search routes
 const app = new Hono();
 
+// Log searches, including the ones answered from the cache
+app.use(
+  "/",
+  searchAnalyticsMiddleware({
+    source: SearchQuerySource.SEARCH,
+    queryParam: "q",
+    countResults: (body) =>
+      (body.products?.length || 0) +
+      (body.pages?.length || 0) +
+      (body.categories?.length || 0),
+  }),
+);
+
 // Apply cache middleware to all routes
 app.use(
   "*",
@@ -22,8 +54,51 @@ app.use(
 const limiter = rateLimit({
   windowMs: 1 * 60 * 1000, // 1 minute
   max: 30, // 30 requests per minute
+  keyPrefix: "search",
+});
+
+// Suggestions are requested on every keystroke, so allow more of them
+const suggestLimiter = rateLimit({
+  windowMs: 1 * 60 * 1000, // 1 minute
+  max: 120, // 120 requests per minute
+  keyPrefix: "search-suggest",
+});
+
+// Click reports come once per opened result
+const clickLimiter = rateLimit({
+  windowMs: 1 * 60 * 1000, // 1 minute
+  max: 60, // 60 requests per minute
+  keyPrefix: "search-click",
 });
 
+// Results with their names and descriptions in the requested language and
+// prices in the requested currency. Highlights and snippets are cut from the
+// indexed default language text.
+async function localizeResults<T extends SearchResults>(
+  results: T,
+  locale: string | null,
+  currency: StoreCurrency | null,
+): Promise<T> {
+  const [products, pages, categories] = await Promise.all([
+    translateRecords(db, TranslatableEntity.PRODUCT, results.products, locale),
+    translateRecords(db, TranslatableEntity.PAGE, results.pages, locale),
+    translateRecords(
+      db,
+      TranslatableEntity.CATEGORY,
+      results.categories,
+      locale,
+    ),
+  ]);
+  return {
+    ...results,
+    products: products.map((product) =>
+      convertPrices(product, ["price"], currency),
+    ),
+    pages,
+    categories,
+  };
+}
+
 // Schema for search query validation
 const searchQuerySchema = z.object({
   q: z.string().optional().default(""),
@@ -83,10 +158,14 @@ app.get("/", async (c) => {
     }
 
     // Set up timeout for search (5 seconds)
+    const currency = c.get("currency");
     const searchPromise = search(query, {
       categoryId,
-      minPrice,
-      maxPrice,
+      // Entered in the display currency
+      minPrice:
+        minPrice === undefined ? undefined : toBaseAmount(minPrice, currency),
+      maxPrice:
+        maxPrice === undefined ? undefined : toBaseAmount(maxPrice, currency),
       limit,
       searchPages,
       searchCategories,
@@ -98,13 +177,18 @@ app.get("/", async (c) => {
     });
 
     // Race the search and timeout
-    const results = await Promise.race([searchPromise, timeoutPromise]);
+    const results = await localizeResults(
+      await Promise.race([searchPromise, timeoutPromise]),
+      c.get("locale"),
+      currency,
+    );
 
     // Return results
     return c.json({
       products: results.products || [],
       pages: results.pages || [],
       categories: results.categories || [],
+      didYouMean: results.didYouMean,
       success: true,
       query,
       timestamp: new Date().toISOString(),
@@ -112,20 +196,79 @@ app.get("/", async (c) => {
   } catch (error) {
     console.error("Search API error:", error);
 
-    // Try to reindex if there was an error related to missing indices
-    if (String(error).includes("Index not found")) {
-      try {
-        console.log("Attempting to reindex data...");
-        const indexResult = await indexAllData();
-        console.log("Reindexed data:", indexResult);
-      } catch (reindexError) {
-        console.error("Failed to reindex:", reindexError);
-      }
+    return c.json(
+      {
+        error: "An error occurred while searching",
+        message: String(error),
+        success: false,
+      },
+      500,
+    );
+  }
+});
+
+// Schema for suggestion query validation
+const suggestQuerySchema = z.object({
+  q: z.string().optional().default(""),
+  limit: z.coerce.number().int().min(1).max(10).optional().default(5),
+  searchPages: z
+    .enum(["true", "false"])
+    .optional()
+    .default("true")
+    .transform((val) => val === "true"),
+  searchCategories: z
+    .enum(["true", "false"])
+    .optional()
+    .default("true")
+    .transform((val) => val === "true"),
+});
+
+// Autocomplete: top matches, completions of the last word and "did you mean"
+app.get("/suggest", async (c) => {
+  try {
+    try {
+      await suggestLimiter.check(c.req.raw);
+    } catch (error) {
+      return c.json(
+        {
+          error: "Too many requests. Please try again later.",
+          success: false,
+        },
+        429,
+      );
+    }
+
+    const { q: query, ...options } = suggestQuerySchema.parse(c.req.query());
+
+    if (!query.trim()) {
+      return c.json({
+        products: [],
+        pages: [],
+        categories: [],
+        completions: [],
+        didYouMean: null,
+        success: true,
+        query: "",
+      });
     }
 
+    const results = await localizeResults(
+      await suggest(query, options),
+      c.get("locale"),
+      c.get("currency"),
+    );
+
+    return c.json({
+      ...results,
+      success: true,
+      query,
+    });
+  } catch (error) {
+    console.error("Search suggest error:", error);
+
     return c.json(
       {
-        error: "An error occurred while searching",
+        error: "An error occurred while fetching suggestions",
         message: String(error),
         success: false,
       },
@@ -134,24 +277,56 @@ app.get("/", async (c) => {
   }
 });
 
-// For manual reindexing
-app.post("/reindex", async (c) => {
-  // Check for secret to authorize reindexing
-  const authHeader = c.req.header("Authorization");
-  const expectedAuth = `Bearer ${process.env.SERVICE_PASSWORD_MEILISEARCH || ""}`;
+// Record which result a shopper opened, using the X-Search-Id of the search
+app.post("/click", async (c) => {
+  try {
+    try {
+      await clickLimiter.check(c.req.raw);
+    } catch (error) {
+      return c.json(
+        {
+          error: "Too many requests. Please try again later.",
+          success: false,
+        },
+        429,
+      );
+    }
+
+    const click = searchClickSchema.parse(await c.req.json());
+    const found = await new SearchAnalyticsService(db).recordClick(click);
+
+    if (!found) {
+      return c.json({ error: "Search not found", success: false }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json(
+        {
+          error: "Invalid click data",
+          details: error.errors,
+          success: false,
+        },
+        400,
+      );
+    }
+
+    console.error("Search click error:", error);
 
-  if (authHeader !== expectedAuth) {
     return c.json(
       {
-        error: "Unauthorized",
+        error: "Failed to record search click",
         success: false,
       },
-      401,
+      500,
     );
   }
+});
 
+// Rebuild the full-text index from scratch (admin only)
+app.post("/reindex", authMiddleware, async (c) => {
   try {
-    // Reindex all data
     const result = await indexAllData();
 
     return c.json({
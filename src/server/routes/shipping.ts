@@ -382,6 +382,8 @@ app.post("/orders/:orderId/shipments/:shipmentId/refresh", async (c) => {
         const orderUpdate = await ShipmentTracker.updateOrderStatusFromShipment(
           shipmentId,
           updatedShipment.status,
+          previousStatus,
+          (promise) => c.executionCtx.waitUntil(promise),
         );
         orderStatusUpdate = !!orderUpdate && !!orderUpdate.orderId;
         console.log(
@@ -534,6 +536,8 @@ app.post("/shipments/bulk-refresh", async (c) => {
                   await ShipmentTracker.updateOrderStatusFromShipment(
                     shipmentId,
                     updatedShipment.status,
+                    previousStatus,
+                    (promise) => c.executionCtx.waitUntil(promise),
                   );
                 orderStatusUpdate = !!orderUpdate && !!orderUpdate.orderId;
                 console.log(
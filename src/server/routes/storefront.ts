@@ -6,16 +6,25 @@ import { Hono } from "hono";
 import {
   siteSettings,
   products,
+  productCategories,
   categories,
   collections,
   widgets,
   heroSliders,
   analytics,
   pages,
+  TranslatableEntity,
   type Analytics,
 } from "@/db/schema";
 import { eq, isNull, and, inArray, asc, sql } from "drizzle-orm";
 import { cacheMiddleware } from "../middleware/cache";
+import { calculateDiscountedPrice } from "@/lib/pricing/product-price";
+import { convertPrices, PRODUCT_PRICE_FIELDS } from "@/lib/pricing/currency";
+import {
+  translateCollectionConfigs,
+  translateNavigation,
+  translateRecords,
+} from "@/lib/i18n/translations";
 import { nanoid } from "nanoid";
 import {
   processAnalyticsScript,
@@ -61,23 +70,6 @@ interface SocialLink {
   iconUrl?: string;
 }
 
-// Calculate discounted price helper
-const calculateDiscountedPrice = (
-  price: number,
-  discountType: string | null,
-  discountPercentage: number | null,
-  discountAmount: number | null,
-): number => {
-  if (!discountType) return price;
-  if (discountType === "percentage" && discountPercentage) {
-    return Math.round(price * (1 - discountPercentage / 100) * 100) / 100;
-  }
-  if (discountType === "flat" && discountAmount) {
-    return Math.max(0, price - discountAmount);
-  }
-  return price;
-};
-
 // =============================================
 // GET /storefront/homepage
 // Consolidated homepage data endpoint
@@ -94,6 +86,8 @@ app.get(
   async (c) => {
     try {
       const db = c.get("db");
+      const locale = c.get("locale");
+      const currency = c.get("currency");
 
       // === STEP 1: Execute all independent queries in a single batch ===
       // This sends all queries to Turso in ONE HTTP request
@@ -192,11 +186,17 @@ app.get(
       // Now we need to fetch products for each collection
       // This is more complex because each collection can have different product selection logic
 
-      // Parse all collection configs first
-      const parsedCollections = collectionResults.map((col: any) => ({
-        ...col,
-        parsedConfig: JSON.parse(col.config || "{}"),
-      }));
+      // Parse all collection configs first, with titles translated
+      const parsedCollections = (
+        await translateCollectionConfigs(
+          db,
+          collectionResults.map((col) => ({
+            ...col,
+            config: JSON.parse(col.config || "{}"),
+          })),
+          locale,
+        )
+      ).map((col: any) => ({ ...col, parsedConfig: col.config }));
 
       // Collect all unique product IDs, category IDs, and featured product IDs
       const allProductIds = new Set<string>();
@@ -269,14 +269,21 @@ app.get(
               .from(products)
               .where(sql`1 = 0`),
 
-        // 1. Products by category
+        // 1. Products by category, once for each listed category
         categoryIdsArr.length > 0
           ? db
-              .select(buildProductSelect())
+              .select({
+                ...buildProductSelect(),
+                listedCategoryId: productCategories.categoryId,
+              })
               .from(products)
+              .innerJoin(
+                productCategories,
+                eq(productCategories.productId, products.id),
+              )
               .where(
                 and(
-                  inArray(products.categoryId, categoryIdsArr),
+                  inArray(productCategories.categoryId, categoryIdsArr),
                   eq(products.isActive, true),
                   isNull(products.deletedAt),
                 ),
@@ -324,6 +331,35 @@ app.get(
               .where(sql`1 = 0`),
       ]);
 
+      // Product names and category names in the requested language
+      const [specificRows, categoryRows, categoryMetadataRows, featuredRows] =
+        await Promise.all([
+          translateRecords(
+            db,
+            TranslatableEntity.PRODUCT,
+            productBatchResults[0] as any[],
+            locale,
+          ),
+          translateRecords(
+            db,
+            TranslatableEntity.PRODUCT,
+            productBatchResults[1] as any[],
+            locale,
+          ),
+          translateRecords(
+            db,
+            TranslatableEntity.CATEGORY,
+            productBatchResults[2] as any[],
+            locale,
+          ),
+          translateRecords(
+            db,
+            TranslatableEntity.PRODUCT,
+            productBatchResults[3] as any[],
+            locale,
+          ),
+        ]);
+
       // Create lookup maps
       const specificProductsById = new Map<string, any>();
       const categoryProductsByCategoryId = new Map<string, any[]>();
@@ -331,57 +367,77 @@ app.get(
       const featuredProductsById = new Map<string, any>();
 
       // Process specific products (index 0)
-      for (const prod of productBatchResults[0] as any[]) {
+      for (const prod of specificRows) {
         if (prod.id && prod.id !== null) {
-          specificProductsById.set(prod.id, {
-            ...prod,
-            discountedPrice: calculateDiscountedPrice(
-              prod.price,
-              prod.discountType,
-              prod.discountPercentage,
-              prod.discountAmount,
+          specificProductsById.set(
+            prod.id,
+            convertPrices(
+              {
+                ...prod,
+                discountedPrice: calculateDiscountedPrice(
+                  prod.price,
+                  prod.discountType,
+                  prod.discountPercentage,
+                  prod.discountAmount,
+                ),
+              },
+              PRODUCT_PRICE_FIELDS,
+              currency,
             ),
-          });
+          );
         }
       }
 
       // Process category products (index 1)
-      for (const prod of productBatchResults[1] as any[]) {
-        if (prod.categoryId) {
-          if (!categoryProductsByCategoryId.has(prod.categoryId)) {
-            categoryProductsByCategoryId.set(prod.categoryId, []);
+      for (const { listedCategoryId, ...prod } of categoryRows) {
+        if (listedCategoryId) {
+          if (!categoryProductsByCategoryId.has(listedCategoryId)) {
+            categoryProductsByCategoryId.set(listedCategoryId, []);
           }
-          categoryProductsByCategoryId.get(prod.categoryId)!.push({
-            ...prod,
-            discountedPrice: calculateDiscountedPrice(
-              prod.price,
-              prod.discountType,
-              prod.discountPercentage,
-              prod.discountAmount,
+          categoryProductsByCategoryId.get(listedCategoryId)!.push(
+            convertPrices(
+              {
+                ...prod,
+                discountedPrice: calculateDiscountedPrice(
+                  prod.price,
+                  prod.discountType,
+                  prod.discountPercentage,
+                  prod.discountAmount,
+                ),
+              },
+              PRODUCT_PRICE_FIELDS,
+              currency,
             ),
-          });
+          );
         }
       }
 
       // Process category metadata (index 2)
-      for (const cat of productBatchResults[2] as any[]) {
+      for (const cat of categoryMetadataRows) {
         if (cat.id && cat.id !== null) {
           categoryMetadataById.set(cat.id, cat);
         }
       }
 
       // Process featured products (index 3)
-      for (const prod of productBatchResults[3] as any[]) {
+      for (const prod of featuredRows) {
         if (prod.id && prod.id !== null) {
-          featuredProductsById.set(prod.id, {
-            ...prod,
-            discountedPrice: calculateDiscountedPrice(
-              prod.price,
-              prod.discountType,
-              prod.discountPercentage,
-              prod.discountAmount,
+          featuredProductsById.set(
+            prod.id,
+            convertPrices(
+              {
+                ...prod,
+                discountedPrice: calculateDiscountedPrice(
+                  prod.price,
+                  prod.discountType,
+                  prod.discountPercentage,
+                  prod.discountAmount,
+                ),
+              },
+              PRODUCT_PRICE_FIELDS,
+              currency,
             ),
-          });
+          );
         }
       }
 
@@ -505,6 +561,7 @@ app.get(
   async (c) => {
     try {
       const db = c.get("db");
+      const locale = c.get("locale");
 
       // === SINGLE BATCH: Fetch all layout data in ONE HTTP request ===
       const batchResults = await db.batch([
@@ -545,8 +602,12 @@ app.get(
           .orderBy(pages.title),
       ]);
 
-      const [analyticsResults, settingsResults, categoriesData, pagesData] =
+      const [analyticsResults, settingsResults, categoryRows, pageRows] =
         batchResults;
+      const [categoriesData, pagesData] = await Promise.all([
+        translateRecords(db, TranslatableEntity.CATEGORY, categoryRows, locale),
+        translateRecords(db, TranslatableEntity.PAGE, pageRows, locale),
+      ]);
 
       // === PROCESS ANALYTICS ===
       const processedAnalytics = (analyticsResults as any[]).map(
@@ -620,7 +681,7 @@ app.get(
 
         // Get navigation from header config or generate default
         if (headerConfig.navigation) {
-          navigationData = headerConfig.navigation;
+          navigationData = translateNavigation(headerConfig.navigation, locale);
         } else {
           // Generate default navigation from categories and pages
           navigationData = [{ id: "home", title: "Home", href: "/" }];
@@ -675,7 +736,10 @@ app.get(
         }
 
         // Process menus - keep the links array as nested for frontend
-        const normalizedMenus = (footerConfig.menus || []).map((menu: any) => ({
+        const normalizedMenus = translateNavigation(
+          footerConfig.menus || [],
+          locale,
+        ).map((menu: any) => ({
           id: menu.id || nanoid(),
           title: menu.title || "",
           links: menu.links || [],
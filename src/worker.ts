@@ -0,0 +1,56 @@
+// src/worker.ts
+// Custom Worker entry point: Astro's default fetch handler plus the
+// Cloudflare cron handler that runs scheduled jobs (see wrangler.toml triggers).
+import type {
+  ExecutionContext,
+  ScheduledController,
+} from "@cloudflare/workers-types";
+import type { SSRManifest } from "astro";
+import { App } from "astro/app";
+import { handle } from "@astrojs/cloudflare/handler";
+import { getDb } from "@/db";
+import { JobRunner } from "@/lib/jobs/runner";
+import { ScheduledJobTrigger } from "@/db/schema";
+
+// Request and bindings as the Workers runtime hands them to the adapter
+type HandleArgs = Parameters<typeof handle>;
+
+export function createExports(manifest: SSRManifest) {
+  const app = new App(manifest);
+
+  return {
+    default: {
+      async fetch(
+        request: HandleArgs[2],
+        env: Env & HandleArgs[3],
+        ctx: ExecutionContext,
+      ) {
+        return handle(manifest, app, request, env, ctx);
+      },
+
+      async scheduled(
+        controller: ScheduledController,
+        env: Env,
+        ctx: ExecutionContext,
+      ) {
+        const runner = new JobRunner(getDb(env), env);
+        ctx.waitUntil(
+          runner
+            .runDueJobs(ScheduledJobTrigger.CRON)
+            .then((results) => {
+              if (results.length > 0) {
+                console.log(
+                  `Cron ${controller.cron}: ran ${results
+                    .map((result) => `${result.jobId} (${result.status})`)
+                    .join(", ")}`,
+                );
+              }
+            })
+            .catch((error) =>
+              console.error("Error running scheduled jobs:", error),
+            ),
+        );
+      },
+    },
+  };
+}